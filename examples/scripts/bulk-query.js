@@ -1,10 +1,10 @@
 #!/usr/bin/env node
 /**
  * Bulk Query Callsigns
- * 
- * This script queries multiple callsigns from a file
+ *
+ * This script queries multiple callsigns from a file using the batch endpoint
  * Usage: node bulk-query.js <filename>
- * 
+ *
  * File format: One callsign per line
  * Example file content:
  *   K1ABC
@@ -15,39 +15,42 @@
 const fs = require('fs');
 const WORKER_URL = process.env.WORKER_URL || 'http://localhost:8787';
 
-// Delay between requests to respect rate limits (in ms)
-const DELAY_MS = parseInt(process.env.DELAY_MS) || 100;
+// Callsigns per batch request (the worker accepts up to 100)
+const BATCH_SIZE = Math.min(parseInt(process.env.BATCH_SIZE) || 100, 100);
 
 function sleep(ms) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function queryCallsign(callsign) {
-  const response = await fetch(`${WORKER_URL}/api/v1/callsign/${callsign.toUpperCase()}`);
-  
-  // Check rate limit
-  const remaining = response.headers.get('X-RateLimit-Remaining');
-  const limit = response.headers.get('X-RateLimit-Limit');
-  
-  if (!response.ok) {
-    const error = await response.json();
-    return {
-      callsign,
-      success: false,
-      error: error.message,
-      remaining,
-      limit
-    };
+async function queryBatch(callsigns) {
+  for (;;) {
+    const response = await fetch(`${WORKER_URL}/api/v1/callsigns/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ callsigns }),
+    });
+
+    // Each callsign counts as one request against the rate limit
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const limit = response.headers.get('X-RateLimit-Limit');
+
+    if (response.status === 429) {
+      const error = await response.json();
+      const reset = error.details && error.details.reset ? new Date(error.details.reset) : null;
+      const waitMs = reset ? Math.max(reset.getTime() - Date.now(), 1000) : 60000;
+      console.log(`  Rate limit reached, waiting ${Math.ceil(waitMs / 1000)}s...`);
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message);
+    }
+
+    const data = await response.json();
+    return { ...data.data, remaining, limit };
   }
-  
-  const data = await response.json();
-  return {
-    callsign,
-    success: data.success,
-    data: data.data,
-    remaining,
-    limit
-  };
 }
 
 async function bulkQuery(filename) {
@@ -59,67 +62,70 @@ async function bulkQuery(filename) {
       .split('\n')
       .map(line => line.trim())
       .filter(line => line && !line.startsWith('#'));
-    
+
     if (callsigns.length === 0) {
       console.error('No callsigns found in file');
       process.exit(1);
     }
-    
+
     console.log(`Found ${callsigns.length} callsigns to query`);
-    console.log(`Delay between requests: ${DELAY_MS}ms\n`);
-    
+    console.log(`Batch size: ${BATCH_SIZE}\n`);
+
     const results = [];
     let successCount = 0;
     let errorCount = 0;
-    
-    for (let i = 0; i < callsigns.length; i++) {
-      const callsign = callsigns[i];
-      process.stdout.write(`[${i + 1}/${callsigns.length}] Querying ${callsign}... `);
-      
+
+    for (let i = 0; i < callsigns.length; i += BATCH_SIZE) {
+      const batch = callsigns.slice(i, i + BATCH_SIZE);
+      const end = Math.min(i + BATCH_SIZE, callsigns.length);
+      process.stdout.write(`[${i + 1}-${end}/${callsigns.length}] Querying batch... `);
+
       try {
-        const result = await queryCallsign(callsign);
-        results.push(result);
-        
-        if (result.success) {
-          successCount++;
-          console.log('✓');
-        } else {
-          errorCount++;
-          console.log(`✗ (${result.error || 'Not found'})`);
+        const result = await queryBatch(batch);
+
+        for (const record of result.found) {
+          results.push({ callsign: record.callsign, success: true, data: record });
+        }
+        for (const callsign of result.missing) {
+          results.push({ callsign, success: false, error: 'Not found' });
+        }
+        for (const callsign of result.invalid) {
+          results.push({ callsign, success: false, error: 'Invalid callsign format' });
         }
-        
+
+        successCount += result.found.length;
+        errorCount += result.missing.length + result.invalid.length;
+        console.log(`✓ (${result.found.length} found, ${result.missing.length} missing, ${result.invalid.length} invalid)`);
+
         // Show rate limit status
         if (result.remaining && result.limit) {
           console.log(`  Rate limit: ${result.remaining}/${result.limit} remaining`);
         }
-        
-        // Respect rate limits
-        if (i < callsigns.length - 1) {
-          await sleep(DELAY_MS);
-        }
       } catch (error) {
-        errorCount++;
+        errorCount += batch.length;
         console.log(`✗ (${error.message})`);
-        results.push({
-          callsign,
-          success: false,
-          error: error.message
-        });
+        for (const callsign of batch) {
+          results.push({
+            callsign,
+            success: false,
+            error: error.message
+          });
+        }
       }
     }
-    
+
     // Summary
     console.log('\n====================');
     console.log('Summary:');
     console.log(`Total: ${callsigns.length}`);
     console.log(`Success: ${successCount}`);
     console.log(`Errors: ${errorCount}`);
-    
+
     // Write results to file
     const outputFile = filename.replace(/\.[^.]*$/, '') + '-results.json';
     fs.writeFileSync(outputFile, JSON.stringify(results, null, 2));
     console.log(`\nDetailed results written to: ${outputFile}`);
-    
+
   } catch (error) {
     console.error('Bulk query failed:', error.message);
     process.exit(1);
@@ -140,7 +146,7 @@ if (!filename) {
   console.error('');
   console.error('Environment variables:');
   console.error('  WORKER_URL - Worker URL (default: http://localhost:8787)');
-  console.error('  DELAY_MS - Delay between requests in ms (default: 100)');
+  console.error('  BATCH_SIZE - Callsigns per request, up to 100 (default: 100)');
   process.exit(1);
 }
 
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+/**
+ * ZIP5 Centroid Table Generator
+ *
+ * Builds src/engine/zip5-centroids.ts from the Census Bureau Gazetteer file of
+ * ZIP Code Tabulation Areas, placing each ZIP code at its ZCTA's internal point.
+ *
+ * Usage:
+ *   # Download and unzip 2020_Gaz_zcta_national.zip from
+ *   # https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+ *   npm run build:zip-centroids -- 2020_Gaz_zcta_national.txt 2020
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { encodeZip5Centroids } from '../src/engine/zip-centroids';
+
+const [file, year] = process.argv.slice(2);
+if (!file || !/^\d{4}$/.test(year || '')) {
+	console.error('Usage: build-zip-centroids <Gazetteer ZCTA file> <Gazetteer year>');
+	process.exit(1);
+}
+
+// Tab-separated with a header row: GEOID, ALAND, AWATER, ALAND_SQMI, AWATER_SQMI, INTPTLAT, INTPTLONG
+const [header, ...lines] = fs.readFileSync(file, 'utf-8').split(/\r?\n/).filter((line) => line.trim());
+const columns = header.split('\t').map((column) => column.trim());
+const zipColumn = columns.indexOf('GEOID');
+const latitudeColumn = columns.indexOf('INTPTLAT');
+const longitudeColumn = columns.indexOf('INTPTLONG');
+if (zipColumn < 0 || latitudeColumn < 0 || longitudeColumn < 0) {
+	console.error('Not a Gazetteer ZCTA file: expected GEOID, INTPTLAT and INTPTLONG columns');
+	process.exit(1);
+}
+
+const entries = lines.map((line) => {
+	const fields = line.split('\t');
+	return {
+		zip: fields[zipColumn].trim(),
+		latitude: parseFloat(fields[latitudeColumn]),
+		longitude: parseFloat(fields[longitudeColumn]),
+	};
+});
+const encoded = encodeZip5Centroids(entries);
+
+const output = `/**
+ * US ZIP code centroids (generated, do not edit)
+ *
+ * Internal points of the ${entries.length} ZIP Code Tabulation Areas in the Census
+ * Bureau ${year} Gazetteer, encoded by encodeZip5Centroids in ./zip-centroids.ts.
+ * Regenerate with: npm run build:zip-centroids -- <Gazetteer ZCTA file> <year>
+ */
+
+/**
+ * Version reported for the table
+ */
+export const ZIP5_CENTROIDS_VERSION = 'zcta-${year}';
+
+/**
+ * Encoded table, wrapped at 100 characters
+ */
+export const ZIP5_CENTROIDS = \`
+${encoded.match(/.{1,100}/g)!.join('\n')}
+\`;
+`;
+
+const target = path.join(__dirname, '..', 'src', 'engine', 'zip5-centroids.ts');
+fs.writeFileSync(target, output);
+console.log(`Wrote ${entries.length} ZIP codes to ${target}`);
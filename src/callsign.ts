@@ -0,0 +1,156 @@
+/**
+ * Callsign parsing for portable, maritime and reciprocal forms
+ *
+ * Logs write the license callsign with operating decorations around it:
+ * W1AW/P, VE3/W1AW, KH6/K1ABC/M, W1AW/4. parseCallsign splits such input into
+ * the base callsign lookups resolve to and the parts that only describe where
+ * and how the station was operating.
+ */
+
+import type { ParsedCallsign } from './types';
+import { isValidCallsign } from './utils';
+import { BUNDLED_PREFIX_TABLE, PREFIX_ENTRY_PATTERN } from './engine/dxcc-table';
+
+/**
+ * Suffixes that describe how the station operates
+ * P portable, M mobile, MM maritime mobile, AM aeronautical mobile, QRP low power
+ */
+export const CALLSIGN_MODIFIERS = ['P', 'M', 'MM', 'AM', 'QRP'];
+
+// A station can only be one kind of mobile at a time
+const MOBILE_MODIFIERS = ['M', 'MM', 'AM'];
+
+// Most '/'-separated parts accepted, e.g. KH6/K1ABC/M/QRP
+const MAX_CALLSIGN_PARTS = 4;
+
+// Prefix overrides: F, VE3, KH6, 3D2 (letters and digits, at least one letter)
+const PREFIX_PATTERN = /^(?=.*[A-Z])[A-Z0-9]{1,4}$/;
+
+// Plain prefixes of the bundled DXCC table, built on first use
+let knownPrefixes: Set<string> | null = null;
+
+/**
+ * Whether a part is listed as a DXCC or region prefix in the bundled table
+ */
+function isKnownPrefix(part: string): boolean {
+	if (!knownPrefixes) {
+		knownPrefixes = new Set();
+		for (const entity of BUNDLED_PREFIX_TABLE.entities) {
+			for (const entry of entity.prefixes) {
+				const match = entry.toUpperCase().match(PREFIX_ENTRY_PATTERN);
+				if (match && !match[1]) {
+					knownPrefixes.add(match[2]);
+				}
+			}
+		}
+	}
+	return knownPrefixes.has(part);
+}
+
+/**
+ * Letters after the call-area digit: AW in W1AW, E in the region prefix VP2E
+ */
+function suffixLength(part: string): number {
+	return part.match(/[A-Z]*$/)![0].length;
+}
+
+/**
+ * Whether a part is the better base callsign of two of the same length
+ * A known prefix loses, then the part with the longer suffix wins.
+ */
+function isBetterBase(part: string, other: string): boolean {
+	const known = isKnownPrefix(part);
+	if (known !== isKnownPrefix(other)) {
+		return !known;
+	}
+	return suffixLength(part) > suffixLength(other);
+}
+
+/**
+ * Split a callsign into prefix override, base callsign and suffix modifiers
+ * The base is the longest part that is a valid callsign. On a length tie a
+ * known DXCC prefix is not the base, then the part with the full suffix is, so
+ * VP2E/W1AW and W1AW/VP2E both resolve to W1AW (the first part wins remaining
+ * ties). One prefix override may come before the base; after it come
+ * modifiers, a single-digit district override, or a prefix override written
+ * last (W1AW/KH6).
+ */
+export function parseCallsign(input: string): { callsign?: ParsedCallsign; error?: string } {
+	const normalized = input.trim().toUpperCase();
+
+	if (!normalized) {
+		return { error: 'Callsign is empty' };
+	}
+	if (!/^[A-Z0-9/]+$/.test(normalized)) {
+		return { error: "Callsign may only contain letters, digits and '/'" };
+	}
+
+	const parts = normalized.split('/');
+	if (parts.some((part) => !part)) {
+		return { error: "Callsign has an empty '/' segment" };
+	}
+	if (parts.length > MAX_CALLSIGN_PARTS) {
+		return { error: `Callsign has more than ${MAX_CALLSIGN_PARTS} '/' segments` };
+	}
+
+	let baseIndex = -1;
+	parts.forEach((part, index) => {
+		if (!isValidCallsign(part)) {
+			return;
+		}
+		const best = baseIndex < 0 ? undefined : parts[baseIndex];
+		if (
+			best === undefined ||
+			part.length > best.length ||
+			(part.length === best.length && isBetterBase(part, best))
+		) {
+			baseIndex = index;
+		}
+	});
+	if (baseIndex < 0) {
+		return { error: `No valid base callsign in ${normalized}` };
+	}
+	if (baseIndex > 1) {
+		return { error: 'Only one prefix override may come before the base callsign' };
+	}
+
+	const callsign: ParsedCallsign = { input: normalized, base: parts[baseIndex], modifiers: [] };
+
+	if (baseIndex === 1) {
+		if (!PREFIX_PATTERN.test(parts[0])) {
+			return { error: `Invalid prefix override ${parts[0]}` };
+		}
+		callsign.prefix = parts[0];
+	}
+
+	for (const part of parts.slice(baseIndex + 1)) {
+		if (CALLSIGN_MODIFIERS.includes(part)) {
+			if (callsign.modifiers.includes(part)) {
+				return { error: `Modifier /${part} is repeated` };
+			}
+			const mobile = callsign.modifiers.find((m) => MOBILE_MODIFIERS.includes(m));
+			if (mobile && MOBILE_MODIFIERS.includes(part)) {
+				return { error: `Modifiers /${mobile} and /${part} conflict` };
+			}
+			callsign.modifiers.push(part);
+		} else if (/^[0-9]$/.test(part)) {
+			if (callsign.district !== undefined) {
+				return { error: 'Only one district override is allowed' };
+			}
+			callsign.district = part;
+		} else if (PREFIX_PATTERN.test(part) && /[0-9]/.test(part)) {
+			if (callsign.prefix) {
+				return { error: 'Only one prefix override is allowed' };
+			}
+			callsign.prefix = part;
+		} else {
+			return { error: `Unknown callsign modifier /${part}` };
+		}
+	}
+
+	if (callsign.prefix && callsign.district !== undefined) {
+		return { error: 'A callsign cannot have both a prefix and a district override' };
+	}
+
+	return { callsign };
+}
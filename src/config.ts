@@ -8,6 +8,7 @@
 import type { Env, Config, ConfigData, ConfigVersion, ConfigHealth } from './types';
 import { log } from './utils';
 import { validateConfigData } from './validation';
+import { AM_FIELDS, EN_FIELDS, HD_FIELDS } from './engine/uls';
 
 // Configuration keys in KV
 const CONFIG_KEY = 'config:current';
@@ -54,17 +55,26 @@ function getDefaultConfig(): ConfigData {
 			zipFileName: 'l_amat.zip',
 			extractedFileName: 'AM.dat',
 			expectedSchema: {
-				fields: [
-					'record_type', 'unique_system_identifier', 'uls_file_number',
-					'ebf_number', 'callsign', 'operator_class', 'group_code',
-					'region_code', 'trustee_callsign', 'trustee_indicator',
-					'physician_certification', 've_signature', 'systematic_callsign_change',
-					'vanity_callsign_change', 'vanity_relationship', 'previous_callsign',
-					'previous_operator_class', 'trustee_name'
-				],
+				fields: AM_FIELDS,
 				delimiter: '|',
 				hasHeader: false,
+				keyField: 'callsign',
 			},
+			files: [
+				{
+					fileName: 'EN.dat',
+					expectedSchema: { fields: EN_FIELDS, delimiter: '|', hasHeader: false },
+				},
+				{
+					fileName: 'HD.dat',
+					expectedSchema: { fields: HD_FIELDS, delimiter: '|', hasHeader: false },
+				},
+				{
+					fileName: 'AM.dat',
+					expectedSchema: { fields: AM_FIELDS, delimiter: '|', hasHeader: false },
+				},
+			],
+			joinField: 'unique_system_identifier',
 		},
 		backupEndpoints: {
 			primary: 'https://data.fcc.gov/download/pub/uls/complete/l_amat.zip',
@@ -0,0 +1,208 @@
+/**
+ * Incremental changes feed for offline clients
+ *
+ * A client holding the data of one release catches up by replaying the patches
+ * of every newer release. The chain is followed back from the newest release
+ * through previous_version; operations on the same callsign collapse to the
+ * last one, so the feed carries each changed callsign once, as the raw record
+ * of the release files. Large feeds are paged in callsign order. Clients
+ * whose version is no longer in the chain, or too far behind, must resync
+ * from a full snapshot instead.
+ */
+
+import type { Env, PatchOperation } from '../types';
+import { getOperationCallsign } from './database';
+import { RELEASE_FILES, listReleases, releaseObjectKey } from './releases';
+
+/**
+ * Most releases replayed for one client
+ */
+export const CHANGES_MAX_RELEASES = 60;
+
+/**
+ * Most patch operations replayed for one client, before collapsing
+ */
+export const CHANGES_MAX_OPERATIONS = 20000;
+
+/**
+ * Changed callsigns per page, by default and at most
+ */
+export const CHANGES_DEFAULT_LIMIT = 1000;
+export const CHANGES_MAX_LIMIT = 5000;
+
+/**
+ * Latest record of a changed callsign: its non-empty fields as in the release files
+ */
+export type ChangeRecord = Record<string, string>;
+
+/**
+ * Position in a paged feed: the release it leads to and the last callsign returned
+ */
+interface ChangesCursor {
+	version: string;
+	after: string;
+}
+
+/**
+ * One page of changes from a client's version to a release
+ */
+export type ChangesResult =
+	| {
+		resync: false;
+		version: string;
+		releases: string[];
+		upserts: ChangeRecord[];
+		deletes: string[];
+		// Set when more changes follow; pass it back as cursor
+		nextCursor?: string;
+	}
+	| {
+		resync: true;
+		version: string | null;
+		reason: string;
+	};
+
+/**
+ * Encode a cursor as URL-safe base64 JSON
+ */
+function encodeCursor(cursor: ChangesCursor): string {
+	return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, or null if it is malformed
+ */
+export function decodeChangesCursor(value: string): ChangesCursor | null {
+	try {
+		const cursor = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/'))) as ChangesCursor;
+		if (!cursor || typeof cursor.version !== 'string' || typeof cursor.after !== 'string') {
+			return null;
+		}
+		return cursor;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Operations of a release patch, or null if the patch is no longer stored
+ */
+async function loadPatch(env: Env, version: string): Promise<PatchOperation[] | null> {
+	const object = await env.DATA_EXPORTS!.get(releaseObjectKey(version, RELEASE_FILES.patch.name));
+	if (!object) {
+		return null;
+	}
+	return (await object.text())
+		.split('\n')
+		.filter(Boolean)
+		.map((line) => JSON.parse(line) as PatchOperation);
+}
+
+/**
+ * Record of an operation without its empty fields
+ */
+function compactRecord(callsign: string, record: PatchOperation['record']): ChangeRecord {
+	const compact: ChangeRecord = {};
+	for (const [field, value] of Object.entries(record)) {
+		if (value !== undefined && value !== '') {
+			compact[field] = value;
+		}
+	}
+	compact.callsign = callsign;
+	return compact;
+}
+
+/**
+ * A page of collapsed changes between the release a client holds and the newest one
+ * The cursor pins later pages to the release the first page led to.
+ * Throws on storage errors.
+ */
+export async function getChangesSince(
+	env: Env,
+	since: string,
+	options: { cursor?: ChangesCursor; limit?: number } = {}
+): Promise<ChangesResult> {
+	const releases = await listReleases(env);
+	const byVersion = new Map(releases.map((release) => [release.version, release]));
+	const latest = options.cursor ? byVersion.get(options.cursor.version) : releases[0];
+	if (!latest) {
+		return options.cursor
+			? { resync: true, version: releases[0]?.version ?? null, reason: `Release ${options.cursor.version} is no longer stored` }
+			: { resync: true, version: null, reason: 'No releases have been published' };
+	}
+	if (since === latest.version) {
+		return { resync: false, version: since, releases: [], upserts: [], deletes: [] };
+	}
+
+	// Walk back from the target release until the client's version
+	const chain: typeof releases = [];
+	let release: (typeof releases)[number] | undefined = latest;
+	while (release && release.version !== since) {
+		chain.unshift(release);
+		if (chain.length > CHANGES_MAX_RELEASES) {
+			return { resync: true, version: latest.version, reason: `More than ${CHANGES_MAX_RELEASES} releases behind` };
+		}
+		release = release.previous_version ? byVersion.get(release.previous_version) : undefined;
+	}
+	if (!release) {
+		return { resync: true, version: latest.version, reason: `Version ${since} is not in the release history` };
+	}
+
+	const operations = chain.reduce(
+		(total, entry) => total + entry.changes.added + entry.changes.modified + entry.changes.deleted,
+		0
+	);
+	if (operations > CHANGES_MAX_OPERATIONS) {
+		return { resync: true, version: latest.version, reason: `More than ${CHANGES_MAX_OPERATIONS} changes behind` };
+	}
+
+	// Oldest first, so the last operation on a callsign wins
+	const changes = new Map<string, PatchOperation>();
+	for (const entry of chain) {
+		const patch = await loadPatch(env, entry.version);
+		if (!patch) {
+			return { resync: true, version: latest.version, reason: `Patch for ${entry.version} is no longer stored` };
+		}
+		// As in applyPatchOperations, a callsign that moved to a new key within
+		// one patch keeps its row, so that patch's delete does not replace the upsert
+		const upserted = new Set<string>();
+		for (const operation of patch) {
+			const callsign = getOperationCallsign(operation);
+			if (operation.type !== 'delete') {
+				upserted.add(callsign);
+			} else if (upserted.has(callsign)) {
+				continue;
+			}
+			changes.set(callsign, operation);
+		}
+	}
+
+	const limit = options.limit ?? CHANGES_DEFAULT_LIMIT;
+	const after = options.cursor?.after ?? '';
+	const remaining = [...changes]
+		.filter(([callsign]) => callsign > after)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	const page = remaining.slice(0, limit);
+
+	const upserts: ChangeRecord[] = [];
+	const deletes: string[] = [];
+	for (const [callsign, operation] of page) {
+		if (operation.type === 'delete') {
+			deletes.push(callsign);
+		} else {
+			upserts.push(compactRecord(callsign, operation.record));
+		}
+	}
+
+	return {
+		resync: false,
+		version: latest.version,
+		releases: chain.map((entry) => entry.version),
+		upserts,
+		deletes,
+		nextCursor:
+			remaining.length > limit
+				? encodeCursor({ version: latest.version, after: page[page.length - 1][0] })
+				: undefined,
+	};
+}
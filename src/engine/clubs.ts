@@ -0,0 +1,187 @@
+/**
+ * Club stations and their trustees
+ *
+ * Club licenses name the licensee responsible for them in the AM record's
+ * trustee_callsign. The trustee index finds the clubs of one trustee, and a
+ * join of the table onto itself finds active clubs whose trustee license has
+ * ended; that report is rebuilt after each pipeline run.
+ */
+
+import type {
+	Env,
+	ClubTrusteeIssue,
+	ClubTrusteeReport,
+	StoredCallsignRecord,
+	TrusteeStanding,
+} from '../types';
+import { log } from '../utils';
+import {
+	findCallsignRecords,
+	mapRecordToCallsignData,
+	qualifyRecordField,
+	toStoredCallsignRecord,
+} from './database';
+import type { CallsignRow } from './database';
+
+/**
+ * METADATA_STORE key of the club trustee report
+ */
+export const CLUB_TRUSTEE_REPORT_KEY = 'clubs:trustee-report';
+
+/**
+ * Most clubs listed for one trustee
+ */
+export const CLUB_MAX_STATIONS = 100;
+
+/**
+ * Most clubs kept in the trustee report
+ */
+export const CLUB_REPORT_MAX_ENTRIES = 5000;
+
+/**
+ * Club row joined with its trustee's row, when the trustee is stored
+ */
+interface ClubTrusteeRow extends CallsignRow {
+	trustee_key: string | null;
+	trustee_data: string | null;
+	trustee_updated_at: string | null;
+}
+
+/**
+ * Club stations whose trustee is a callsign, in callsign order
+ * Throws on database errors.
+ */
+export async function getTrusteeClubs(
+	env: Env,
+	callsign: string
+): Promise<{ clubs: StoredCallsignRecord[]; truncated: boolean }> {
+	const clubs = await findCallsignRecords(env, 'trustee', [callsign], CLUB_MAX_STATIONS + 1);
+	return { clubs: clubs.slice(0, CLUB_MAX_STATIONS), truncated: clubs.length > CLUB_MAX_STATIONS };
+}
+
+/**
+ * Whether a trustee's license still stands, from its stored record
+ * today is YYYY-MM-DD.
+ */
+export function trusteeStanding(stored: StoredCallsignRecord | null, today: string): TrusteeStanding {
+	if (!stored) {
+		return 'missing';
+	}
+	const data = mapRecordToCallsignData(stored);
+	if (data.license_status === 'C' || data.license_status === 'T') {
+		return 'cancelled';
+	}
+	if (data.license_status === 'E' || (data.expiration_date && data.expiration_date < today)) {
+		return 'expired';
+	}
+	return 'active';
+}
+
+/**
+ * Find active clubs whose trustee license has expired, been cancelled or is unknown
+ * Throws on database errors.
+ */
+export async function buildClubTrusteeReport(
+	env: Env,
+	today: string,
+	dataVersion?: string
+): Promise<ClubTrusteeReport> {
+	const clubTrustee = qualifyRecordField('trustee', 'club');
+	const trusteeExpiration = qualifyRecordField('expirationDate', 'trustee');
+
+	let rows: ClubTrusteeRow[] = [];
+	if (env.CALLSIGN_DB) {
+		const result = await env.CALLSIGN_DB.prepare(
+			`SELECT club.callsign, club.data, club.updated_at,
+				trustee.callsign AS trustee_key, trustee.data AS trustee_data, trustee.updated_at AS trustee_updated_at
+			 FROM callsigns AS club
+			 LEFT JOIN callsigns AS trustee ON trustee.callsign = ${clubTrustee}
+			 WHERE ${clubTrustee} != '' AND ${qualifyRecordField('licenseStatus', 'club')} = 'A'
+				AND (trustee.callsign IS NULL
+					OR ${qualifyRecordField('licenseStatus', 'trustee')} IN ('C', 'E', 'T')
+					OR (${trusteeExpiration} != '' AND ${trusteeExpiration} < ?))
+			 ORDER BY club.callsign LIMIT ?`
+		)
+			.bind(today, CLUB_REPORT_MAX_ENTRIES + 1)
+			.all<ClubTrusteeRow>();
+		rows = result.results || [];
+	}
+
+	const clubs: ClubTrusteeIssue[] = [];
+	for (const row of rows.slice(0, CLUB_REPORT_MAX_ENTRIES)) {
+		const club = mapRecordToCallsignData(toStoredCallsignRecord(row));
+		const trustee =
+			row.trustee_key && row.trustee_data
+				? toStoredCallsignRecord({
+					callsign: row.trustee_key,
+					data: row.trustee_data,
+					updated_at: row.trustee_updated_at || '',
+				})
+				: null;
+		const standing = trusteeStanding(trustee, today);
+		if (standing === 'active') {
+			continue;
+		}
+		const trusteeData = trustee ? mapRecordToCallsignData(trustee) : undefined;
+		clubs.push({
+			callsign: club.callsign,
+			name: club.name,
+			trustee_callsign: club.trustee_callsign || '',
+			trustee_name: trusteeData?.name || club.trustee_name,
+			standing,
+			trustee_license_status: trusteeData?.license_status,
+			trustee_expiration_date: trusteeData?.expiration_date,
+			trustee_cancellation_date: trusteeData?.cancellation_date,
+		});
+	}
+
+	return {
+		generatedAt: new Date().toISOString(),
+		dataVersion,
+		count: clubs.length,
+		truncated: rows.length > CLUB_REPORT_MAX_ENTRIES,
+		clubs,
+	};
+}
+
+/**
+ * Read the stored club trustee report; null before the first pipeline run
+ * Throws on storage errors.
+ */
+export async function getClubTrusteeReport(env: Env): Promise<ClubTrusteeReport | null> {
+	if (!env.METADATA_STORE) {
+		return null;
+	}
+	const json = await env.METADATA_STORE.get(CLUB_TRUSTEE_REPORT_KEY);
+	return json ? (JSON.parse(json) as ClubTrusteeReport) : null;
+}
+
+/**
+ * Rebuild and store the club trustee report after a pipeline run
+ */
+export async function updateClubTrusteeReport(env: Env, dataVersion: string): Promise<boolean> {
+	if (!env.CALLSIGN_DB || !env.METADATA_STORE) {
+		return false;
+	}
+
+	try {
+		const report = await buildClubTrusteeReport(
+			env,
+			new Date().toISOString().substring(0, 10),
+			dataVersion
+		);
+		await env.METADATA_STORE.put(CLUB_TRUSTEE_REPORT_KEY, JSON.stringify(report));
+
+		log('info', 'Updated club trustee report', {
+			version: dataVersion,
+			clubs: report.count,
+			truncated: report.truncated,
+		});
+		return true;
+	} catch (error) {
+		log('error', 'Failed to update club trustee report', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
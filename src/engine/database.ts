@@ -9,8 +9,115 @@ import type {
 	ConfigData,
 	DatabaseSnapshot,
 	RollbackResult,
+	CallsignData,
+	StoredCallsignRecord,
 } from '../types';
 import { log } from '../utils';
+import { getRecordSchema, normalizeUlsDate } from './uls';
+import { parseKeyedRecords, parseRecordLine } from './records';
+import { latLonToGrid, round } from './grid';
+import { lookupZipLocation } from './zip-centroids';
+
+/**
+ * FCC ULS operator class codes and their display names
+ */
+export const OPERATOR_CLASS_NAMES: Record<string, string> = {
+	A: 'Advanced',
+	E: 'Extra',
+	G: 'General',
+	N: 'Novice',
+	P: 'Technician Plus',
+	T: 'Technician',
+};
+
+/**
+ * FCC ULS license status codes and their display names
+ */
+export const LICENSE_STATUS_NAMES: Record<string, string> = {
+	A: 'Active',
+	C: 'Cancelled',
+	E: 'Expired',
+	T: 'Terminated',
+};
+
+/**
+ * SQL expressions for record fields that are filtered and sorted on
+ * Queries must use these exact expressions for SQLite to pick the matching
+ * expression indexes created in initializeDatabase.
+ */
+export const RECORD_FIELD_EXPRESSIONS = {
+	state: `COALESCE(json_extract(data, '$.state'), '')`,
+	operatorClass: `COALESCE(json_extract(data, '$.operator_class'), '')`,
+	trustee: `COALESCE(json_extract(data, '$.trustee_callsign'), '')`,
+	previousCallsign: `COALESCE(json_extract(data, '$.previous_callsign'), '')`,
+	licenseStatus: `COALESCE(json_extract(data, '$.license_status'), '')`,
+	frn: `COALESCE(json_extract(data, '$.frn'), '')`,
+	uniqueSystemIdentifier: `COALESCE(json_extract(data, '$.unique_system_identifier'), '')`,
+	ulsFileNumber: `COALESCE(json_extract(data, '$.uls_file_number'), '')`,
+	// Spatial bucket: ZIP+4 codes share the location of their 5-digit ZIP code
+	zip5: `substr(COALESCE(json_extract(data, '$.zip_code'), ''), 1, 5)`,
+	// ULS dates are MM/DD/YYYY; rearrange to YYYY-MM-DD so they compare as text.
+	// An empty date becomes NULL, which carries through the concatenation to ''
+	expirationDate: `COALESCE(substr(NULLIF(json_extract(data, '$.expired_date'), ''), 7, 4) || '-' || substr(json_extract(data, '$.expired_date'), 1, 2) || '-' || substr(json_extract(data, '$.expired_date'), 4, 2), '')`,
+};
+
+/**
+ * Key columns of each index on the callsigns table, by index name; callsign is
+ * appended to the expression indexes so keyset pagination can continue within
+ * equal values
+ */
+export const CALLSIGN_INDEX_KEYS: Record<string, string[]> = {
+	idx_updated_at: ['updated_at'],
+	...Object.fromEntries(
+		Object.entries(RECORD_FIELD_EXPRESSIONS).map(([name, expression]) => [
+			`idx_callsigns_${name}`,
+			[expression, 'callsign'],
+		])
+	),
+};
+
+/**
+ * SQL of an indexed record field for a table alias, for queries joining callsigns to itself
+ * The qualified expression still matches the index on the unqualified one.
+ */
+export function qualifyRecordField(field: keyof typeof RECORD_FIELD_EXPRESSIONS, table: string): string {
+	return RECORD_FIELD_EXPRESSIONS[field].replace(/json_extract\(data,/g, `json_extract(${table}.data,`);
+}
+
+/**
+ * Length of the callsign n-grams indexed for partial matching
+ */
+export const CALLSIGN_NGRAM_SIZE = 3;
+
+/**
+ * Distinct n-grams of a callsign, in order of first appearance
+ */
+export function callsignNgrams(callsign: string): string[] {
+	const grams = new Set<string>();
+	for (let i = 0; i + CALLSIGN_NGRAM_SIZE <= callsign.length; i++) {
+		grams.add(callsign.substring(i, i + CALLSIGN_NGRAM_SIZE));
+	}
+	return [...grams];
+}
+
+/**
+ * SQL for the full-text columns, used to backfill callsign_fts from stored records
+ * Mirrors the name/address mapping in mapRecordToCallsignData.
+ */
+const FULL_TEXT_BACKFILL_COLUMNS = [
+	`COALESCE(NULLIF(json_extract(data, '$.entity_name'), ''), trim(COALESCE(json_extract(data, '$.first_name'), '') || ' ' || COALESCE(json_extract(data, '$.mi'), '') || ' ' || COALESCE(json_extract(data, '$.last_name'), '') || ' ' || COALESCE(json_extract(data, '$.suffix'), '')))`,
+	`COALESCE(json_extract(data, '$.street_address'), '')`,
+	`COALESCE(json_extract(data, '$.city'), '')`,
+];
+
+/**
+ * Raw row of the callsigns table
+ */
+export interface CallsignRow {
+	callsign: string;
+	data: string;
+	updated_at: string;
+}
 
 /**
  * Initialize database table if it doesn't exist
@@ -32,9 +139,76 @@ export async function initializeDatabase(env: Env): Promise<boolean> {
 			)`
 		).run();
 
-		// Create index on updated_at for performance
+		// Index on updated_at for performance, and expression indexes for
+		// search filters and sorting
+		for (const [name, columns] of Object.entries(CALLSIGN_INDEX_KEYS)) {
+			await env.CALLSIGN_DB.prepare(
+				`CREATE INDEX IF NOT EXISTS ${name} ON callsigns(${columns.join(', ')})`
+			).run();
+		}
+		// Replaced by idx_callsigns_zip5
+		await env.CALLSIGN_DB.prepare(`DROP INDEX IF EXISTS idx_callsigns_zipPrefix`).run();
+
+		// Full-text index over licensee name and address. Rows share the rowid of
+		// their callsigns row so they can be found without an index on callsign.
 		await env.CALLSIGN_DB.prepare(
-			`CREATE INDEX IF NOT EXISTS idx_updated_at ON callsigns(updated_at)`
+			`CREATE VIRTUAL TABLE IF NOT EXISTS callsign_fts USING fts5(
+				name, street, city,
+				tokenize = 'unicode61 remove_diacritics 2'
+			)`
+		).run();
+
+		// Backfill a new full-text index from records loaded before it existed
+		const indexed = await env.CALLSIGN_DB.prepare(`SELECT rowid FROM callsign_fts LIMIT 1`).first();
+		if (!indexed) {
+			await env.CALLSIGN_DB.prepare(
+				`INSERT INTO callsign_fts (rowid, name, street, city)
+				 SELECT rowid, ${FULL_TEXT_BACKFILL_COLUMNS.join(', ')} FROM callsigns`
+			).run();
+		}
+
+		// N-gram index for partial callsign matches: every callsign is listed
+		// under each of its n-grams, so a lookup reads posting lists, not the table
+		await env.CALLSIGN_DB.prepare(
+			`CREATE TABLE IF NOT EXISTS callsign_ngrams (
+				gram TEXT NOT NULL,
+				callsign TEXT NOT NULL,
+				PRIMARY KEY (gram, callsign)
+			) WITHOUT ROWID`
+		).run();
+
+		// Backfill a new n-gram index from records loaded before it existed
+		const gramsIndexed = await env.CALLSIGN_DB.prepare(`SELECT gram FROM callsign_ngrams LIMIT 1`).first();
+		if (!gramsIndexed) {
+			await env.CALLSIGN_DB.prepare(
+				`WITH RECURSIVE positions(p) AS (SELECT 1 UNION ALL SELECT p + 1 FROM positions WHERE p < 10)
+				 INSERT OR IGNORE INTO callsign_ngrams (gram, callsign)
+				 SELECT substr(callsign, p, ${CALLSIGN_NGRAM_SIZE}), callsign FROM callsigns, positions
+				 WHERE p + ${CALLSIGN_NGRAM_SIZE - 1} <= length(callsign)`
+			).run();
+		}
+
+		// Changes seen by each applied diff, read per callsign by the history endpoint
+		await env.CALLSIGN_DB.prepare(
+			`CREATE TABLE IF NOT EXISTS callsign_events (
+				callsign TEXT NOT NULL,
+				data_version TEXT NOT NULL,
+				date TEXT NOT NULL,
+				type TEXT NOT NULL,
+				from_value TEXT,
+				to_value TEXT,
+				licensee TEXT
+			)`
+		).run();
+		await env.CALLSIGN_DB.prepare(
+			`CREATE INDEX IF NOT EXISTS idx_callsign_events_callsign ON callsign_events(callsign, date)`
+		).run();
+		await env.CALLSIGN_DB.prepare(
+			`CREATE INDEX IF NOT EXISTS idx_callsign_events_version ON callsign_events(data_version)`
+		).run();
+		// R2 diff reports already checked for events to backfill
+		await env.CALLSIGN_DB.prepare(
+			`CREATE TABLE IF NOT EXISTS callsign_event_reports (report TEXT PRIMARY KEY)`
 		).run();
 
 		// Create snapshots table for rollback support
@@ -58,24 +232,6 @@ export async function initializeDatabase(env: Env): Promise<boolean> {
 	}
 }
 
-/**
- * Parse a record line into key-value pairs
- */
-function parseRecordLine(
-	line: string,
-	delimiter: string,
-	fields: string[]
-): Record<string, string> {
-	const values = line.split(delimiter).map((v) => v.trim());
-	const record: Record<string, string> = {};
-
-	for (let i = 0; i < Math.min(fields.length, values.length); i++) {
-		record[fields[i]] = values[i];
-	}
-
-	return record;
-}
-
 /**
  * Create patch operations from diff result
  */
@@ -86,40 +242,15 @@ export function createPatchOperations(
 	config: ConfigData
 ): PatchOperation[] {
 	const operations: PatchOperation[] = [];
-	const delimiter = config.dataSource.expectedSchema.delimiter || ',';
-	const fields = config.dataSource.expectedSchema.fields;
-	const hasHeader = config.dataSource.expectedSchema.hasHeader !== false;
-
-	// Parse content into lines
-	const newLines = newContent.split('\n').filter((line) => line.trim().length > 0);
-	const oldLines = oldContent
-		? oldContent.split('\n').filter((line) => line.trim().length > 0)
-		: [];
+	const schema = getRecordSchema(config);
+	const delimiter = schema.delimiter || ',';
+	const fields = schema.fields;
 
 	// Build maps of records by key
-	const newRecordsMap = new Map<string, string>();
-	const oldRecordsMap = new Map<string, string>();
-
-	// Parse new records
-	const startIndex = hasHeader ? 1 : 0;
-	for (let i = startIndex; i < newLines.length; i++) {
-		const line = newLines[i];
-		const firstDelimiterIndex = line.indexOf(delimiter);
-		if (firstDelimiterIndex !== -1) {
-			const key = line.substring(0, firstDelimiterIndex).trim();
-			newRecordsMap.set(key, line);
-		}
-	}
-
-	// Parse old records
-	for (let i = startIndex; i < oldLines.length; i++) {
-		const line = oldLines[i];
-		const firstDelimiterIndex = line.indexOf(delimiter);
-		if (firstDelimiterIndex !== -1) {
-			const key = line.substring(0, firstDelimiterIndex).trim();
-			oldRecordsMap.set(key, line);
-		}
-	}
+	const newRecordsMap = parseKeyedRecords(newContent, schema).records;
+	const oldRecordsMap = oldContent
+		? parseKeyedRecords(oldContent, schema).records
+		: new Map<string, string>();
 
 	// Create INSERT operations for added records
 	for (const key of diff.added) {
@@ -170,6 +301,15 @@ export function createPatchOperations(
 	return operations;
 }
 
+/**
+ * Callsign a patch operation writes
+ * The configured key only identifies records for diffing; D1 rows, full-text
+ * entries and n-grams are always keyed on the record's callsign.
+ */
+export function getOperationCallsign(operation: PatchOperation): string {
+	return operation.record.callsign?.trim() || operation.key;
+}
+
 /**
  * Apply patch operations to D1 database in batches
  */
@@ -188,6 +328,13 @@ export async function applyPatchOperations(
 	});
 
 	let appliedCount = 0;
+	const db = env.CALLSIGN_DB;
+
+	// With a composite key a callsign can move to a new key in the same patch
+	// (delete of the old key, insert of the new one); its row stays
+	const upserted = new Set(
+		operations.filter((op) => op.type !== 'delete').map((op) => getOperationCallsign(op))
+	);
 
 	try {
 		// Process operations in batches
@@ -200,36 +347,81 @@ export async function applyPatchOperations(
 			for (const op of batch) {
 				const timestamp = new Date().toISOString();
 				const dataJson = JSON.stringify(op.record);
+				const callsign = getOperationCallsign(op);
+
+				const removeFullText = () =>
+					db.prepare(
+						`DELETE FROM callsign_fts WHERE rowid = (SELECT rowid FROM callsigns WHERE callsign = ?)`
+					).bind(callsign);
+				const addFullText = () => {
+					const data = mapRecordToCallsignData({ callsign, record: op.record, updatedAt: timestamp });
+					return db.prepare(
+						`INSERT INTO callsign_fts (rowid, name, street, city)
+						 SELECT rowid, ?, ?, ? FROM callsigns WHERE callsign = ?`
+					).bind(data.name || '', data.address || '', data.city || '', callsign);
+				};
 
+				// Updates keep the callsign, so only inserts and deletes touch its n-grams
+				const grams = callsignNgrams(callsign);
+
+				// The full-text row is removed while its callsigns row still exists
+				// and re-added once the new row (and its rowid) is in place
 				switch (op.type) {
 					case 'insert':
+						// Upsert, as two keys of a composite key may share a callsign
 						statements.push(
-							env.CALLSIGN_DB.prepare(
-								`INSERT INTO callsigns (callsign, data, updated_at) VALUES (?, ?, ?)`
-							).bind(op.key, dataJson, timestamp)
+							removeFullText(),
+							db.prepare(
+								`INSERT INTO callsigns (callsign, data, updated_at) VALUES (?, ?, ?)
+								 ON CONFLICT(callsign) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+							).bind(callsign, dataJson, timestamp),
+							addFullText()
 						);
+						if (grams.length > 0) {
+							statements.push(
+								db.prepare(
+									`INSERT OR IGNORE INTO callsign_ngrams (gram, callsign)
+									 VALUES ${grams.map(() => '(?, ?)').join(', ')}`
+								).bind(...grams.flatMap((gram) => [gram, callsign]))
+							);
+						}
 						break;
 
 					case 'update':
 						statements.push(
-							env.CALLSIGN_DB.prepare(
+							removeFullText(),
+							db.prepare(
 								`UPDATE callsigns SET data = ?, updated_at = ? WHERE callsign = ?`
-							).bind(dataJson, timestamp, op.key)
+							).bind(dataJson, timestamp, callsign),
+							addFullText()
 						);
 						break;
 
 					case 'delete':
+						if (upserted.has(callsign)) {
+							break;
+						}
 						statements.push(
-							env.CALLSIGN_DB.prepare(
+							removeFullText(),
+							db.prepare(
 								`DELETE FROM callsigns WHERE callsign = ?`
-							).bind(op.key)
+							).bind(callsign)
 						);
+						if (grams.length > 0) {
+							statements.push(
+								db.prepare(
+									`DELETE FROM callsign_ngrams WHERE gram IN (${grams.map(() => '?').join(', ')}) AND callsign = ?`
+								).bind(...grams, callsign)
+							);
+						}
 						break;
 				}
 			}
 
 			// Execute batch
-			await env.CALLSIGN_DB.batch(statements);
+			if (statements.length > 0) {
+				await db.batch(statements);
+			}
 			appliedCount += batch.length;
 
 			log('info', 'Applied batch of patch operations', {
@@ -410,8 +602,13 @@ export async function rollbackToSnapshot(
 		// Get snapshot data from R2
 		await env.DATA_EXPORTS.get(snapshot.dataPath);
 
-		// Clear current database
-		await env.CALLSIGN_DB.prepare(`DELETE FROM callsigns`).run();
+		// Clear current database, with the search indexes in the same batch so
+		// they never point at rows that are gone
+		await env.CALLSIGN_DB.batch([
+			env.CALLSIGN_DB.prepare(`DELETE FROM callsigns`),
+			env.CALLSIGN_DB.prepare(`DELETE FROM callsign_fts`),
+			env.CALLSIGN_DB.prepare(`DELETE FROM callsign_ngrams`),
+		]);
 
 		// TODO: Restore data from snapshot
 		// This would require parsing the content and re-inserting records
@@ -461,3 +658,163 @@ export async function getDatabaseRecordCount(env: Env): Promise<number> {
 		return 0;
 	}
 }
+
+/**
+ * Look up a single stored callsign record
+ * Unlike the maintenance helpers above, this throws on database errors so that
+ * callers can tell a missing callsign apart from a failed query.
+ */
+export async function getCallsignRecord(
+	env: Env,
+	callsign: string
+): Promise<StoredCallsignRecord | null> {
+	if (!env.CALLSIGN_DB) {
+		return null;
+	}
+
+	const result = await env.CALLSIGN_DB.prepare(
+		`SELECT callsign, data, updated_at FROM callsigns WHERE callsign = ?`
+	)
+		.bind(callsign)
+		.first<CallsignRow>();
+
+	if (!result) {
+		return null;
+	}
+
+	return toStoredCallsignRecord(result);
+}
+
+/**
+ * Look up several stored callsign records with a single IN (...) query
+ * Callers keep the list within D1's bound-parameter limit; throws on database errors.
+ */
+export async function getCallsignRecords(
+	env: Env,
+	callsigns: string[]
+): Promise<StoredCallsignRecord[]> {
+	if (!env.CALLSIGN_DB || callsigns.length === 0) {
+		return [];
+	}
+
+	const placeholders = callsigns.map(() => '?').join(', ');
+	const result = await env.CALLSIGN_DB.prepare(
+		`SELECT callsign, data, updated_at FROM callsigns WHERE callsign IN (${placeholders})`
+	)
+		.bind(...callsigns)
+		.all<CallsignRow>();
+
+	return (result.results || []).map(toStoredCallsignRecord);
+}
+
+/**
+ * Find records whose previous_callsign names the given callsign
+ * Throws on database errors.
+ */
+export async function getCallsignSuccessors(
+	env: Env,
+	callsign: string,
+	limit = 10
+): Promise<StoredCallsignRecord[]> {
+	return findCallsignRecords(env, 'previousCallsign', [callsign], limit);
+}
+
+/**
+ * Records whose indexed field equals one of the given values, in callsign order
+ * Throws on database errors.
+ */
+export async function findCallsignRecords(
+	env: Env,
+	field: keyof typeof RECORD_FIELD_EXPRESSIONS,
+	values: string[],
+	limit: number
+): Promise<StoredCallsignRecord[]> {
+	if (!env.CALLSIGN_DB || values.length === 0) {
+		return [];
+	}
+
+	const placeholders = values.map(() => '?').join(', ');
+	const result = await env.CALLSIGN_DB.prepare(
+		`SELECT callsign, data, updated_at FROM callsigns
+		 WHERE ${RECORD_FIELD_EXPRESSIONS[field]} IN (${placeholders})
+		 ORDER BY callsign LIMIT ?`
+	)
+		.bind(...values, limit)
+		.all<CallsignRow>();
+
+	return (result.results || []).map(toStoredCallsignRecord);
+}
+
+/**
+ * Decode a callsigns table row
+ */
+export function toStoredCallsignRecord(row: CallsignRow): StoredCallsignRecord {
+	return {
+		callsign: row.callsign,
+		record: JSON.parse(row.data) as Record<string, string | undefined>,
+		updatedAt: row.updated_at,
+	};
+}
+
+/**
+ * Map a stored FCC record onto the public CallsignData shape
+ */
+export function mapRecordToCallsignData(stored: StoredCallsignRecord): CallsignData {
+	const record = stored.record;
+	const value = (field: string): string | undefined => {
+		const v = record[field]?.trim();
+		return v ? v : undefined;
+	};
+	const className = (code: string | undefined): string | undefined =>
+		code ? OPERATOR_CLASS_NAMES[code.toUpperCase()] || code : undefined;
+
+	// EN records carry either an entity name (clubs) or individual name parts
+	const name =
+		value('entity_name') ||
+		[value('first_name'), value('mi'), value('last_name'), value('suffix')]
+			.filter(Boolean)
+			.join(' ') ||
+		undefined;
+
+	const data: CallsignData = {
+		callsign: stored.callsign,
+		name,
+		license_class: className(value('operator_class')),
+		operator_class: value('operator_class'),
+		previous_callsign: value('previous_callsign'),
+		previous_license_class: className(value('previous_operator_class')),
+		trustee_callsign: value('trustee_callsign'),
+		trustee_name: value('trustee_name'),
+		address: value('street_address'),
+		city: value('city'),
+		state: value('state'),
+		zip: value('zip_code')?.substring(0, 5),
+		country: 'USA',
+		frn: value('frn'),
+		license_status: value('license_status'),
+		grant_date: normalizeUlsDate(value('grant_date')),
+		expiration_date: normalizeUlsDate(value('expired_date')),
+		cancellation_date: normalizeUlsDate(value('cancellation_date')),
+		last_updated: stored.updatedAt,
+	};
+
+	// Positions are rounded to what the source table can tell apart; the
+	// subsquare is that of the ZIP code point, which location_source flags
+	const location = lookupZipLocation(value('zip_code'));
+	if (location) {
+		const decimals = location.source === 'zip5' ? 2 : 1;
+		data.grid_square = latLonToGrid(location);
+		data.latitude = round(location.latitude, decimals);
+		data.longitude = round(location.longitude, decimals);
+		data.location_source = location.source;
+	}
+
+	// Drop empty fields so responses only carry what the source provided
+	for (const key of Object.keys(data)) {
+		if (data[key] === undefined) {
+			delete data[key];
+		}
+	}
+
+	return data;
+}
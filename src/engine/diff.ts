@@ -5,45 +5,22 @@
 import type { Env, DiffResult, ConfigData } from '../types';
 import { log } from '../utils';
 import { calculateHash } from './validate';
+import { getRecordSchema } from './uls';
+import { parseKeyedRecords, parseRecordLine } from './records';
 
 /**
- * Parse delimited content into records keyed by first field (callsign)
+ * Fields whose old and new values are kept for modified records so that
+ * callsign history can be rebuilt from stored diff reports
  */
-function parseRecords(
-	content: string,
-	delimiter: string = ',',
-	hasHeader: boolean = true
-): Map<string, string> {
-	const lines = content.split('\n').filter((line) => line.trim().length > 0);
-
-	if (lines.length === 0) {
-		return new Map();
-	}
-
-	const records = new Map<string, string>();
-	const startIndex = hasHeader ? 1 : 0;
-
-	for (let i = startIndex; i < lines.length; i++) {
-		const line = lines[i];
-		const firstDelimiterIndex = line.indexOf(delimiter);
-
-		if (firstDelimiterIndex === -1) {
-			// No delimiter found, use entire line as key
-			const key = line.trim();
-			if (key) {
-				records.set(key, line);
-			}
-		} else {
-			// Use first field as key
-			const key = line.substring(0, firstDelimiterIndex).trim();
-			if (key) {
-				records.set(key, line);
-			}
-		}
-	}
-
-	return records;
-}
+export const HISTORY_TRACKED_FIELDS = [
+	'callsign',
+	'operator_class',
+	'previous_callsign',
+	'previous_operator_class',
+	'license_status',
+	'vanity_callsign_change',
+	'systematic_callsign_change',
+];
 
 /**
  * Calculate diff between old and new data
@@ -56,8 +33,7 @@ export async function calculateDiff(
 	newVersion?: string
 ): Promise<DiffResult> {
 	const startTime = Date.now();
-	const delimiter = config.dataSource.expectedSchema.delimiter || ',';
-	const hasHeader = config.dataSource.expectedSchema.hasHeader !== false;
+	const schema = getRecordSchema(config);
 
 	log('info', 'Starting diff calculation', {
 		hasOldContent: !!oldContent,
@@ -67,9 +43,9 @@ export async function calculateDiff(
 
 	try {
 		// Parse records from both versions
-		const newRecords = parseRecords(newContent, delimiter, hasHeader);
+		const newRecords = parseKeyedRecords(newContent, schema).records;
 		const oldRecords = oldContent
-			? parseRecords(oldContent, delimiter, hasHeader)
+			? parseKeyedRecords(oldContent, schema).records
 			: new Map<string, string>();
 
 		// Calculate hashes
@@ -109,6 +85,9 @@ export async function calculateDiff(
 		// Find added and modified records
 		const added: string[] = [];
 		const modified: string[] = [];
+		const fieldChanges: NonNullable<DiffResult['fieldChanges']> = {};
+		const delimiter = schema.delimiter || ',';
+		const trackedFields = HISTORY_TRACKED_FIELDS.filter((field) => schema.fields.includes(field));
 		let unchanged = 0;
 
 		for (const [key, newRecord] of newRecords.entries()) {
@@ -120,6 +99,19 @@ export async function calculateDiff(
 			} else if (oldRecord !== newRecord) {
 				// Modified record
 				modified.push(key);
+
+				if (trackedFields.length > 0) {
+					const oldFields = parseRecordLine(oldRecord, delimiter, schema.fields);
+					const newFields = parseRecordLine(newRecord, delimiter, schema.fields);
+					for (const field of trackedFields) {
+						const oldValue = oldFields[field] || '';
+						const newValue = newFields[field] || '';
+						if (oldValue !== newValue) {
+							fieldChanges[key] = fieldChanges[key] || {};
+							fieldChanges[key][field] = { old: oldValue, new: newValue };
+						}
+					}
+				}
 			} else {
 				// Unchanged record
 				unchanged++;
@@ -142,6 +134,7 @@ export async function calculateDiff(
 			modified,
 			deleted,
 			unchanged,
+			fieldChanges,
 			summary: {
 				addedCount: added.length,
 				modifiedCount: modified.length,
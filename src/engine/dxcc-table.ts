@@ -0,0 +1,1237 @@
+/**
+ * Bundled DXCC prefix table
+ *
+ * Covers the US entities and the most active foreign ones, in the cty.dat
+ * conventions used by most logging software. Zones and coordinates are
+ * approximate. Deployments that need the full table can load it through the
+ * prefixTable section of the configuration.
+ */
+
+import type { DxccEntity, PrefixTable } from '../types';
+
+/**
+ * A prefix table entry: "VE3", "VE3(4)[4]" or "=4U1UN"
+ */
+export const PREFIX_ENTRY_PATTERN = /^(=)?([A-Z0-9/]+)(?:\((\d{1,2})\))?(?:\[(\d{1,2})\])?$/;
+
+/**
+ * Version reported for the bundled table
+ */
+export const BUNDLED_PREFIX_TABLE_VERSION = 'bundled-2026.1';
+
+/**
+ * Prefixes made of a fixed start followed by each letter in a range, e.g. span('D', 'A', 'R')
+ */
+function span(start: string, from: string, to: string): string[] {
+	const prefixes: string[] = [];
+	for (let code = from.charCodeAt(0); code <= to.charCodeAt(0); code++) {
+		prefixes.push(start + String.fromCharCode(code));
+	}
+	return prefixes;
+}
+
+/**
+ * Each prefix followed by each of the given call-area digits
+ */
+function withDigits(prefixes: string[], digits: string): string[] {
+	return prefixes.flatMap((prefix) => digits.split('').map((digit) => prefix + digit));
+}
+
+// US prefixes shared by the states and the territories below
+const US_LETTERS = ['K', 'N', 'W'];
+const US_A_PREFIXES = span('A', 'A', 'K');
+
+// European Russia prefixes; call areas 8, 9 and 0 are in Asia
+const RUSSIA_PREFIXES = ['R', ...span('U', 'A', 'I')];
+
+const ENTITIES: DxccEntity[] = [
+	{
+		dxcc: 291,
+		name: 'United States',
+		continent: 'NA',
+		cqZone: 5,
+		ituZone: 8,
+		latitude: 37.53,
+		longitude: -91.67,
+		prefixes: [...US_LETTERS, ...US_A_PREFIXES],
+		// Call areas no longer follow the licensee's address, so these are approximate
+		callAreaZones: {
+			'1': { cqZone: 5, ituZone: 8 },
+			'2': { cqZone: 5, ituZone: 8 },
+			'3': { cqZone: 5, ituZone: 8 },
+			'4': { cqZone: 5, ituZone: 8 },
+			'5': { cqZone: 4, ituZone: 7 },
+			'6': { cqZone: 3, ituZone: 6 },
+			'7': { cqZone: 3, ituZone: 6 },
+			'8': { cqZone: 4, ituZone: 8 },
+			'9': { cqZone: 4, ituZone: 8 },
+			'0': { cqZone: 4, ituZone: 7 },
+		},
+	},
+	{
+		dxcc: 6,
+		name: 'Alaska',
+		continent: 'NA',
+		cqZone: 1,
+		ituZone: 1,
+		latitude: 61.4,
+		longitude: -148.87,
+		prefixes: ['AL', 'KL', 'NL', 'WL'],
+	},
+	{
+		dxcc: 110,
+		name: 'Hawaii',
+		continent: 'OC',
+		cqZone: 31,
+		ituZone: 61,
+		latitude: 21.12,
+		longitude: -157.48,
+		prefixes: withDigits(['AH', 'KH', 'NH', 'WH'], '67'),
+	},
+	{
+		dxcc: 202,
+		name: 'Puerto Rico',
+		continent: 'NA',
+		cqZone: 8,
+		ituZone: 11,
+		latitude: 18.18,
+		longitude: -66.55,
+		prefixes: withDigits(['KP', 'NP', 'WP'], '34'),
+	},
+	{
+		dxcc: 285,
+		name: 'US Virgin Islands',
+		continent: 'NA',
+		cqZone: 8,
+		ituZone: 11,
+		latitude: 17.73,
+		longitude: -64.8,
+		prefixes: ['KP2', 'NP2', 'WP2'],
+	},
+	{
+		dxcc: 103,
+		name: 'Guam',
+		continent: 'OC',
+		cqZone: 27,
+		ituZone: 64,
+		latitude: 13.37,
+		longitude: 144.7,
+		prefixes: ['AH2', 'KH2', 'NH2', 'WH2'],
+	},
+	{
+		dxcc: 166,
+		name: 'Mariana Islands',
+		continent: 'OC',
+		cqZone: 27,
+		ituZone: 64,
+		latitude: 15.18,
+		longitude: 145.72,
+		prefixes: ['AH0', 'KH0', 'NH0', 'WH0'],
+	},
+	{
+		dxcc: 9,
+		name: 'American Samoa',
+		continent: 'OC',
+		cqZone: 32,
+		ituZone: 62,
+		latitude: -14.32,
+		longitude: -170.78,
+		prefixes: ['AH8', 'KH8', 'NH8', 'WH8'],
+	},
+	{
+		dxcc: 289,
+		name: 'United Nations HQ',
+		continent: 'NA',
+		cqZone: 5,
+		ituZone: 8,
+		latitude: 40.75,
+		longitude: -73.97,
+		prefixes: ['=4U1UN'],
+	},
+	{
+		dxcc: 1,
+		name: 'Canada',
+		continent: 'NA',
+		cqZone: 5,
+		ituZone: 9,
+		latitude: 44.35,
+		longitude: -78.75,
+		prefixes: [
+			...span('V', 'A', 'G'),
+			'VO',
+			'VX',
+			'VY',
+			...span('C', 'F', 'K'),
+			'CY',
+			'CZ',
+			...span('X', 'J', 'O'),
+			'VE2(2)[4]',
+			'VA2(2)[4]',
+			'VE3(4)[4]',
+			'VA3(4)[4]',
+			'VE4(4)[3]',
+			'VA4(4)[3]',
+			'VE5(4)[3]',
+			'VA5(4)[3]',
+			'VE6(4)[2]',
+			'VA6(4)[2]',
+			'VE7(3)[2]',
+			'VA7(3)[2]',
+			'VE8(1)[4]',
+			'VY1(1)[2]',
+			'VY0(2)[4]',
+			'VO2(2)[9]',
+		],
+	},
+	{
+		dxcc: 50,
+		name: 'Mexico',
+		continent: 'NA',
+		cqZone: 6,
+		ituZone: 10,
+		latitude: 21.32,
+		longitude: -100.23,
+		prefixes: [...span('X', 'A', 'I'), '4A', '4B', '4C', ...span('6', 'D', 'J')],
+	},
+	{
+		dxcc: 64,
+		name: 'Bermuda',
+		continent: 'NA',
+		cqZone: 5,
+		ituZone: 11,
+		latitude: 32.32,
+		longitude: -64.73,
+		prefixes: ['VP9'],
+	},
+	{
+		dxcc: 60,
+		name: 'Bahamas',
+		continent: 'NA',
+		cqZone: 8,
+		ituZone: 11,
+		latitude: 24.25,
+		longitude: -76.0,
+		prefixes: ['C6'],
+	},
+	{
+		dxcc: 70,
+		name: 'Cuba',
+		continent: 'NA',
+		cqZone: 8,
+		ituZone: 11,
+		latitude: 21.5,
+		longitude: -80.0,
+		prefixes: ['CL', 'CM', 'CO', 'T4'],
+	},
+	{
+		dxcc: 82,
+		name: 'Jamaica',
+		continent: 'NA',
+		cqZone: 8,
+		ituZone: 11,
+		latitude: 18.2,
+		longitude: -77.47,
+		prefixes: ['6Y'],
+	},
+	{
+		dxcc: 72,
+		name: 'Dominican Republic',
+		continent: 'NA',
+		cqZone: 8,
+		ituZone: 11,
+		latitude: 19.0,
+		longitude: -70.67,
+		prefixes: ['HI'],
+	},
+	{
+		dxcc: 237,
+		name: 'Greenland',
+		continent: 'NA',
+		cqZone: 40,
+		ituZone: 5,
+		latitude: 74.0,
+		longitude: -42.78,
+		prefixes: ['OX', 'XP'],
+	},
+	{
+		dxcc: 223,
+		name: 'England',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 52.77,
+		longitude: -1.47,
+		prefixes: ['G', 'M', '2E'],
+	},
+	{
+		dxcc: 279,
+		name: 'Scotland',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 56.82,
+		longitude: -4.18,
+		prefixes: ['GM', 'MM', '2M', 'GS', 'MS'],
+	},
+	{
+		dxcc: 294,
+		name: 'Wales',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 52.28,
+		longitude: -3.73,
+		prefixes: ['GW', 'MW', '2W', 'GC', 'MC'],
+	},
+	{
+		dxcc: 265,
+		name: 'Northern Ireland',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 54.73,
+		longitude: -6.68,
+		prefixes: ['GI', 'MI', '2I', 'GN', 'MN'],
+	},
+	{
+		dxcc: 114,
+		name: 'Isle of Man',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 54.2,
+		longitude: -4.53,
+		prefixes: ['GD', 'MD', '2D', 'GT', 'MT'],
+	},
+	{
+		dxcc: 122,
+		name: 'Jersey',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 49.22,
+		longitude: -2.18,
+		prefixes: ['GJ', 'MJ', '2J', 'GH', 'MH'],
+	},
+	{
+		dxcc: 106,
+		name: 'Guernsey',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 49.45,
+		longitude: -2.58,
+		prefixes: ['GU', 'MU', '2U', 'GP', 'MP'],
+	},
+	{
+		dxcc: 245,
+		name: 'Ireland',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 53.13,
+		longitude: -8.02,
+		prefixes: ['EI', 'EJ'],
+	},
+	{
+		dxcc: 227,
+		name: 'France',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 46.0,
+		longitude: 2.0,
+		prefixes: ['F', 'HW', 'HX', 'HY', 'TH', 'TM', 'TP', 'TQ', 'TV'],
+	},
+	{
+		dxcc: 214,
+		name: 'Corsica',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 42.0,
+		longitude: 9.0,
+		prefixes: ['TK'],
+	},
+	{
+		dxcc: 209,
+		name: 'Belgium',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 50.7,
+		longitude: 4.85,
+		prefixes: span('O', 'N', 'T'),
+	},
+	{
+		dxcc: 263,
+		name: 'Netherlands',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 52.28,
+		longitude: 5.47,
+		prefixes: span('P', 'A', 'I'),
+	},
+	{
+		dxcc: 254,
+		name: 'Luxembourg',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 50.0,
+		longitude: 6.0,
+		prefixes: ['LX'],
+	},
+	{
+		dxcc: 230,
+		name: 'Germany',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 28,
+		latitude: 51.0,
+		longitude: 10.0,
+		prefixes: [...span('D', 'A', 'R'), ...span('Y', '2', '9')],
+	},
+	{
+		dxcc: 287,
+		name: 'Switzerland',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 28,
+		latitude: 46.8,
+		longitude: 8.2,
+		prefixes: ['HB', 'HE'],
+	},
+	{
+		dxcc: 251,
+		name: 'Liechtenstein',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 28,
+		latitude: 47.13,
+		longitude: 9.57,
+		prefixes: ['HB0', 'HE0'],
+	},
+	{
+		dxcc: 117,
+		name: 'ITU HQ',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 28,
+		latitude: 46.17,
+		longitude: 6.05,
+		prefixes: ['=4U1ITU'],
+	},
+	{
+		dxcc: 206,
+		name: 'Austria',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 47.33,
+		longitude: 13.33,
+		prefixes: ['OE', '=4U1VIC'],
+	},
+	{
+		dxcc: 248,
+		name: 'Italy',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 42.82,
+		longitude: 12.58,
+		prefixes: ['I'],
+	},
+	{
+		dxcc: 225,
+		name: 'Sardinia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 40.15,
+		longitude: 9.0,
+		prefixes: ['IS0', 'IM0'],
+	},
+	{
+		dxcc: 281,
+		name: 'Spain',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 37,
+		latitude: 40.37,
+		longitude: -4.88,
+		prefixes: [...span('E', 'A', 'H'), 'AM', 'AN', 'AO'],
+	},
+	{
+		dxcc: 21,
+		name: 'Balearic Islands',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 37,
+		latitude: 39.6,
+		longitude: 2.92,
+		prefixes: withDigits(span('E', 'A', 'H'), '6'),
+	},
+	{
+		dxcc: 29,
+		name: 'Canary Islands',
+		continent: 'AF',
+		cqZone: 33,
+		ituZone: 36,
+		latitude: 28.32,
+		longitude: -15.85,
+		prefixes: withDigits(span('E', 'A', 'H'), '8'),
+	},
+	{
+		dxcc: 32,
+		name: 'Ceuta and Melilla',
+		continent: 'AF',
+		cqZone: 33,
+		ituZone: 37,
+		latitude: 35.9,
+		longitude: -5.3,
+		prefixes: withDigits(span('E', 'A', 'H'), '9'),
+	},
+	{
+		dxcc: 272,
+		name: 'Portugal',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 37,
+		latitude: 39.5,
+		longitude: -8.0,
+		prefixes: ['CT', 'CQ', 'CR', 'CS'],
+	},
+	{
+		dxcc: 256,
+		name: 'Madeira Islands',
+		continent: 'AF',
+		cqZone: 33,
+		ituZone: 36,
+		latitude: 32.75,
+		longitude: -16.95,
+		prefixes: ['CT3', 'CQ3', 'CR3', 'CS3'],
+	},
+	{
+		dxcc: 149,
+		name: 'Azores',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 36,
+		latitude: 38.7,
+		longitude: -27.23,
+		prefixes: ['CU', 'CT8', 'CQ8', 'CR8', 'CS8'],
+	},
+	{
+		dxcc: 260,
+		name: 'Monaco',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 43.73,
+		longitude: 7.4,
+		prefixes: ['3A'],
+	},
+	{
+		dxcc: 203,
+		name: 'Andorra',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 27,
+		latitude: 42.58,
+		longitude: 1.62,
+		prefixes: ['C3'],
+	},
+	{
+		dxcc: 278,
+		name: 'San Marino',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 43.9,
+		longitude: 12.47,
+		prefixes: ['T7'],
+	},
+	{
+		dxcc: 295,
+		name: 'Vatican City',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 41.9,
+		longitude: 12.45,
+		prefixes: ['HV'],
+	},
+	{
+		dxcc: 257,
+		name: 'Malta',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 35.88,
+		longitude: 14.42,
+		prefixes: ['9H'],
+	},
+	{
+		dxcc: 221,
+		name: 'Denmark',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 18,
+		latitude: 56.0,
+		longitude: 10.0,
+		prefixes: ['OU', 'OV', 'OZ', '5P', '5Q'],
+	},
+	{
+		dxcc: 222,
+		name: 'Faroe Islands',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 18,
+		latitude: 62.07,
+		longitude: -6.93,
+		prefixes: ['OW', 'OY'],
+	},
+	{
+		dxcc: 242,
+		name: 'Iceland',
+		continent: 'EU',
+		cqZone: 40,
+		ituZone: 17,
+		latitude: 64.8,
+		longitude: -18.73,
+		prefixes: ['TF'],
+	},
+	{
+		dxcc: 266,
+		name: 'Norway',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 18,
+		latitude: 61.0,
+		longitude: 9.0,
+		prefixes: span('L', 'A', 'N'),
+	},
+	{
+		dxcc: 284,
+		name: 'Sweden',
+		continent: 'EU',
+		cqZone: 14,
+		ituZone: 18,
+		latitude: 61.2,
+		longitude: 14.57,
+		prefixes: [...span('S', 'A', 'M'), '7S', '8S'],
+	},
+	{
+		dxcc: 224,
+		name: 'Finland',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 18,
+		latitude: 63.78,
+		longitude: 27.08,
+		prefixes: span('O', 'F', 'I'),
+	},
+	{
+		dxcc: 5,
+		name: 'Aland Islands',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 18,
+		latitude: 60.13,
+		longitude: 20.37,
+		prefixes: withDigits(span('O', 'F', 'I'), '0'),
+	},
+	{
+		dxcc: 52,
+		name: 'Estonia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 29,
+		latitude: 58.6,
+		longitude: 25.0,
+		prefixes: ['ES'],
+	},
+	{
+		dxcc: 145,
+		name: 'Latvia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 29,
+		latitude: 57.0,
+		longitude: 25.0,
+		prefixes: ['YL'],
+	},
+	{
+		dxcc: 146,
+		name: 'Lithuania',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 29,
+		latitude: 55.45,
+		longitude: 23.63,
+		prefixes: ['LY'],
+	},
+	{
+		dxcc: 269,
+		name: 'Poland',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 52.28,
+		longitude: 18.67,
+		prefixes: [...span('S', 'N', 'R'), 'HF', '3Z'],
+	},
+	{
+		dxcc: 503,
+		name: 'Czech Republic',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 50.0,
+		longitude: 15.0,
+		prefixes: ['OK', 'OL'],
+	},
+	{
+		dxcc: 504,
+		name: 'Slovak Republic',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 48.5,
+		longitude: 19.5,
+		prefixes: ['OM'],
+	},
+	{
+		dxcc: 239,
+		name: 'Hungary',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 47.12,
+		longitude: 19.28,
+		prefixes: ['HA', 'HG'],
+	},
+	{
+		dxcc: 499,
+		name: 'Slovenia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 46.0,
+		longitude: 14.0,
+		prefixes: ['S5'],
+	},
+	{
+		dxcc: 497,
+		name: 'Croatia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 45.18,
+		longitude: 15.3,
+		prefixes: ['9A'],
+	},
+	{
+		dxcc: 501,
+		name: 'Bosnia-Herzegovina',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 44.32,
+		longitude: 17.57,
+		prefixes: ['E7'],
+	},
+	{
+		dxcc: 296,
+		name: 'Serbia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 44.0,
+		longitude: 21.0,
+		prefixes: ['YT', 'YU'],
+	},
+	{
+		dxcc: 514,
+		name: 'Montenegro',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 42.5,
+		longitude: 19.28,
+		prefixes: ['4O'],
+	},
+	{
+		dxcc: 502,
+		name: 'North Macedonia',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 41.6,
+		longitude: 21.65,
+		prefixes: ['Z3'],
+	},
+	{
+		dxcc: 7,
+		name: 'Albania',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 28,
+		latitude: 41.0,
+		longitude: 20.0,
+		prefixes: ['ZA'],
+	},
+	{
+		dxcc: 275,
+		name: 'Romania',
+		continent: 'EU',
+		cqZone: 20,
+		ituZone: 28,
+		latitude: 45.78,
+		longitude: 24.7,
+		prefixes: span('Y', 'O', 'R'),
+	},
+	{
+		dxcc: 212,
+		name: 'Bulgaria',
+		continent: 'EU',
+		cqZone: 20,
+		ituZone: 28,
+		latitude: 42.83,
+		longitude: 25.08,
+		prefixes: ['LZ'],
+	},
+	{
+		dxcc: 236,
+		name: 'Greece',
+		continent: 'EU',
+		cqZone: 20,
+		ituZone: 28,
+		latitude: 39.78,
+		longitude: 21.78,
+		prefixes: [...span('S', 'V', 'Z'), 'J4'],
+	},
+	{
+		dxcc: 45,
+		name: 'Crete',
+		continent: 'EU',
+		cqZone: 20,
+		ituZone: 28,
+		latitude: 35.23,
+		longitude: 24.78,
+		prefixes: [...withDigits(span('S', 'V', 'Z'), '9'), 'J49'],
+	},
+	{
+		dxcc: 54,
+		name: 'European Russia',
+		continent: 'EU',
+		cqZone: 16,
+		ituZone: 29,
+		latitude: 53.65,
+		longitude: 41.37,
+		prefixes: RUSSIA_PREFIXES,
+	},
+	{
+		dxcc: 15,
+		name: 'Asiatic Russia',
+		continent: 'AS',
+		cqZone: 17,
+		ituZone: 30,
+		latitude: 55.88,
+		longitude: 84.08,
+		prefixes: [
+			...withDigits(['R', ...span('R', 'A', 'Z'), ...span('U', 'A', 'I')], '89'),
+			...withDigits(['R', ...span('R', 'A', 'Z'), ...span('U', 'A', 'I')], '0').map(
+				(prefix) => `${prefix}(19)[34]`
+			),
+		],
+	},
+	{
+		dxcc: 126,
+		name: 'Kaliningrad',
+		continent: 'EU',
+		cqZone: 15,
+		ituZone: 29,
+		latitude: 54.72,
+		longitude: 20.52,
+		prefixes: ['R2F', 'R2K', 'RA2', 'UA2', 'UB2', 'UC2', 'UD2', 'UE2', 'UF2', 'UG2', 'UH2', 'UI2'],
+	},
+	{
+		dxcc: 288,
+		name: 'Ukraine',
+		continent: 'EU',
+		cqZone: 16,
+		ituZone: 29,
+		latitude: 50.0,
+		longitude: 30.0,
+		prefixes: [...span('U', 'R', 'Z'), 'EM', 'EN', 'EO'],
+	},
+	{
+		dxcc: 27,
+		name: 'Belarus',
+		continent: 'EU',
+		cqZone: 16,
+		ituZone: 29,
+		latitude: 53.5,
+		longitude: 28.0,
+		prefixes: ['EU', 'EV', 'EW'],
+	},
+	{
+		dxcc: 390,
+		name: 'Asiatic Turkey',
+		continent: 'AS',
+		cqZone: 20,
+		ituZone: 39,
+		latitude: 39.18,
+		longitude: 35.65,
+		prefixes: ['TA', 'TB', 'TC', 'YM'],
+	},
+	{
+		dxcc: 215,
+		name: 'Cyprus',
+		continent: 'AS',
+		cqZone: 20,
+		ituZone: 39,
+		latitude: 35.0,
+		longitude: 33.0,
+		prefixes: ['5B', 'C4', 'H2', 'P3'],
+	},
+	{
+		dxcc: 336,
+		name: 'Israel',
+		continent: 'AS',
+		cqZone: 20,
+		ituZone: 39,
+		latitude: 31.32,
+		longitude: 34.83,
+		prefixes: ['4X', '4Z'],
+	},
+	{
+		dxcc: 378,
+		name: 'Saudi Arabia',
+		continent: 'AS',
+		cqZone: 21,
+		ituZone: 39,
+		latitude: 24.2,
+		longitude: 43.83,
+		prefixes: ['HZ', '7Z', '8Z'],
+	},
+	{
+		dxcc: 391,
+		name: 'United Arab Emirates',
+		continent: 'AS',
+		cqZone: 21,
+		ituZone: 39,
+		latitude: 24.0,
+		longitude: 54.0,
+		prefixes: ['A6'],
+	},
+	{
+		dxcc: 324,
+		name: 'India',
+		continent: 'AS',
+		cqZone: 22,
+		ituZone: 41,
+		latitude: 22.5,
+		longitude: 77.58,
+		prefixes: ['VU', ...span('A', 'T', 'W'), ...span('8', 'T', 'Y')],
+	},
+	{
+		dxcc: 318,
+		name: 'China',
+		continent: 'AS',
+		cqZone: 24,
+		ituZone: 44,
+		latitude: 36.0,
+		longitude: 102.0,
+		prefixes: ['B', ...span('3', 'H', 'U'), 'XS'],
+	},
+	{
+		dxcc: 386,
+		name: 'Taiwan',
+		continent: 'AS',
+		cqZone: 24,
+		ituZone: 44,
+		latitude: 23.72,
+		longitude: 120.88,
+		prefixes: [...span('B', 'M', 'Q'), ...span('B', 'U', 'X')],
+	},
+	{
+		dxcc: 137,
+		name: 'Republic of Korea',
+		continent: 'AS',
+		cqZone: 25,
+		ituZone: 44,
+		latitude: 36.23,
+		longitude: 127.9,
+		prefixes: ['HL', 'DS', 'DT', ...span('6', 'K', 'N'), 'D7', 'D8', 'D9'],
+	},
+	{
+		dxcc: 339,
+		name: 'Japan',
+		continent: 'AS',
+		cqZone: 25,
+		ituZone: 45,
+		latitude: 36.4,
+		longitude: 138.38,
+		prefixes: [...span('J', 'A', 'S'), ...span('7', 'J', 'N'), ...span('8', 'J', 'N')],
+	},
+	{
+		dxcc: 387,
+		name: 'Thailand',
+		continent: 'AS',
+		cqZone: 26,
+		ituZone: 49,
+		latitude: 12.6,
+		longitude: 99.7,
+		prefixes: ['HS', 'E2'],
+	},
+	{
+		dxcc: 299,
+		name: 'West Malaysia',
+		continent: 'AS',
+		cqZone: 28,
+		ituZone: 54,
+		latitude: 3.95,
+		longitude: 102.2,
+		prefixes: ['9M2', '9M4', '9W2', '9W4'],
+	},
+	{
+		dxcc: 46,
+		name: 'East Malaysia',
+		continent: 'OC',
+		cqZone: 28,
+		ituZone: 54,
+		latitude: 2.68,
+		longitude: 113.32,
+		prefixes: ['9M6', '9M8', '9W6', '9W8'],
+	},
+	{
+		dxcc: 381,
+		name: 'Singapore',
+		continent: 'AS',
+		cqZone: 28,
+		ituZone: 54,
+		latitude: 1.37,
+		longitude: 103.78,
+		prefixes: ['9V', 'S6'],
+	},
+	{
+		dxcc: 375,
+		name: 'Philippines',
+		continent: 'OC',
+		cqZone: 27,
+		ituZone: 50,
+		latitude: 13.0,
+		longitude: 122.0,
+		prefixes: [...span('D', 'U', 'Z'), ...span('4', 'D', 'I')],
+	},
+	{
+		dxcc: 327,
+		name: 'Indonesia',
+		continent: 'OC',
+		cqZone: 28,
+		ituZone: 51,
+		latitude: -7.3,
+		longitude: 109.88,
+		prefixes: [...span('Y', 'B', 'H'), ...span('7', 'A', 'I'), ...span('8', 'A', 'I'), ...span('P', 'K', 'O')],
+	},
+	{
+		dxcc: 150,
+		name: 'Australia',
+		continent: 'OC',
+		cqZone: 30,
+		ituZone: 55,
+		latitude: -23.7,
+		longitude: 132.33,
+		prefixes: [
+			'AX',
+			...span('V', 'H', 'N'),
+			'VZ',
+			'VK6(29)[58]',
+			'VK8(29)[55]',
+			'VK3(30)[59]',
+			'VK7(30)[59]',
+		],
+	},
+	{
+		dxcc: 170,
+		name: 'New Zealand',
+		continent: 'OC',
+		cqZone: 32,
+		ituZone: 60,
+		latitude: -41.08,
+		longitude: 173.0,
+		prefixes: ['ZL', 'ZM'],
+	},
+	{
+		dxcc: 108,
+		name: 'Brazil',
+		continent: 'SA',
+		cqZone: 11,
+		ituZone: 15,
+		latitude: -10.0,
+		longitude: -53.0,
+		prefixes: [...span('P', 'P', 'Y'), ...span('Z', 'V', 'Z')],
+	},
+	{
+		dxcc: 100,
+		name: 'Argentina',
+		continent: 'SA',
+		cqZone: 13,
+		ituZone: 14,
+		latitude: -34.8,
+		longitude: -65.92,
+		prefixes: [...span('L', 'O', 'W'), 'AY', 'AZ', ...span('L', '2', '9')],
+	},
+	{
+		dxcc: 112,
+		name: 'Chile',
+		continent: 'SA',
+		cqZone: 12,
+		ituZone: 14,
+		latitude: -30.0,
+		longitude: -71.0,
+		prefixes: [...span('C', 'A', 'E'), 'XQ', 'XR', '3G'],
+	},
+	{
+		dxcc: 144,
+		name: 'Uruguay',
+		continent: 'SA',
+		cqZone: 13,
+		ituZone: 14,
+		latitude: -33.0,
+		longitude: -56.0,
+		prefixes: ['CV', 'CW', 'CX'],
+	},
+	{
+		dxcc: 132,
+		name: 'Paraguay',
+		continent: 'SA',
+		cqZone: 11,
+		ituZone: 14,
+		latitude: -25.27,
+		longitude: -57.67,
+		prefixes: ['ZP'],
+	},
+	{
+		dxcc: 104,
+		name: 'Bolivia',
+		continent: 'SA',
+		cqZone: 10,
+		ituZone: 12,
+		latitude: -17.0,
+		longitude: -65.0,
+		prefixes: ['CP'],
+	},
+	{
+		dxcc: 136,
+		name: 'Peru',
+		continent: 'SA',
+		cqZone: 10,
+		ituZone: 12,
+		latitude: -10.0,
+		longitude: -76.0,
+		prefixes: ['OA', 'OB', 'OC', '4T'],
+	},
+	{
+		dxcc: 120,
+		name: 'Ecuador',
+		continent: 'SA',
+		cqZone: 10,
+		ituZone: 12,
+		latitude: -1.4,
+		longitude: -78.4,
+		prefixes: ['HC', 'HD'],
+	},
+	{
+		dxcc: 71,
+		name: 'Galapagos Islands',
+		continent: 'SA',
+		cqZone: 10,
+		ituZone: 12,
+		latitude: -0.78,
+		longitude: -91.03,
+		prefixes: ['HC8', 'HD8'],
+	},
+	{
+		dxcc: 116,
+		name: 'Colombia',
+		continent: 'SA',
+		cqZone: 9,
+		ituZone: 12,
+		latitude: 5.0,
+		longitude: -74.0,
+		prefixes: ['HJ', 'HK', '5J', '5K'],
+	},
+	{
+		dxcc: 148,
+		name: 'Venezuela',
+		continent: 'SA',
+		cqZone: 9,
+		ituZone: 12,
+		latitude: 8.0,
+		longitude: -66.0,
+		prefixes: [...span('Y', 'V', 'Y'), '4M'],
+	},
+	{
+		dxcc: 478,
+		name: 'Egypt',
+		continent: 'AF',
+		cqZone: 34,
+		ituZone: 38,
+		latitude: 26.28,
+		longitude: 28.6,
+		prefixes: ['SU', '6A', '6B'],
+	},
+	{
+		dxcc: 446,
+		name: 'Morocco',
+		continent: 'AF',
+		cqZone: 33,
+		ituZone: 37,
+		latitude: 32.0,
+		longitude: -5.0,
+		prefixes: ['CN', ...span('5', 'C', 'G')],
+	},
+	{
+		dxcc: 450,
+		name: 'Nigeria',
+		continent: 'AF',
+		cqZone: 35,
+		ituZone: 46,
+		latitude: 9.87,
+		longitude: 8.25,
+		prefixes: ['5N', '5O'],
+	},
+	{
+		dxcc: 430,
+		name: 'Kenya',
+		continent: 'AF',
+		cqZone: 37,
+		ituZone: 48,
+		latitude: 0.3,
+		longitude: 38.0,
+		prefixes: ['5Y', '5Z'],
+	},
+	{
+		dxcc: 462,
+		name: 'South Africa',
+		continent: 'AF',
+		cqZone: 38,
+		ituZone: 57,
+		latitude: -29.07,
+		longitude: 22.63,
+		prefixes: [...span('Z', 'R', 'U'), 'S8'],
+	},
+];
+
+/**
+ * Table used when the configuration does not provide prefixTable
+ */
+export const BUNDLED_PREFIX_TABLE: PrefixTable = {
+	version: BUNDLED_PREFIX_TABLE_VERSION,
+	entities: ENTITIES,
+};
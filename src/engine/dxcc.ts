@@ -0,0 +1,143 @@
+/**
+ * DXCC entity, continent and CQ/ITU zone resolution by callsign prefix
+ *
+ * Callsigns are matched against a cty.dat-style prefix table: exact callsign
+ * exceptions first, then the longest matching prefix. The table comes from the
+ * prefixTable section of the configuration when present, and from the bundled
+ * table otherwise.
+ */
+
+import type { Env, DxccEntity, ParsedCallsign, PrefixMatch, PrefixTable } from '../types';
+import { loadConfig } from '../config';
+import { BUNDLED_PREFIX_TABLE, PREFIX_ENTRY_PATTERN } from './dxcc-table';
+
+/**
+ * Modifiers of stations that are outside every DXCC entity
+ */
+export const NON_DXCC_MODIFIERS = ['MM', 'AM'];
+
+interface PrefixRule {
+	entity: DxccEntity;
+	cqZone?: number;
+	ituZone?: number;
+}
+
+/**
+ * Prefix table indexed for lookups
+ */
+export interface CompiledPrefixTable {
+	version: string;
+	prefixes: Map<string, PrefixRule>;
+	exact: Map<string, PrefixRule>;
+	maxPrefixLength: number;
+}
+
+// Compiled table and the key it was built for ('bundled' or the config hash)
+let compiledCache: { key: string; table: CompiledPrefixTable } | null = null;
+
+/**
+ * Index a prefix table; later entries win when a prefix is listed twice
+ */
+export function compilePrefixTable(table: PrefixTable): CompiledPrefixTable {
+	const compiled: CompiledPrefixTable = {
+		version: table.version,
+		prefixes: new Map(),
+		exact: new Map(),
+		maxPrefixLength: 0,
+	};
+
+	for (const entity of table.entities) {
+		for (const entry of entity.prefixes) {
+			const match = entry.toUpperCase().match(PREFIX_ENTRY_PATTERN);
+			if (!match) {
+				continue;
+			}
+			const [, exact, prefix, cqZone, ituZone] = match;
+			const rule: PrefixRule = {
+				entity,
+				cqZone: cqZone ? parseInt(cqZone, 10) : undefined,
+				ituZone: ituZone ? parseInt(ituZone, 10) : undefined,
+			};
+			if (exact) {
+				compiled.exact.set(prefix, rule);
+			} else {
+				compiled.prefixes.set(prefix, rule);
+				compiled.maxPrefixLength = Math.max(compiled.maxPrefixLength, prefix.length);
+			}
+		}
+	}
+
+	return compiled;
+}
+
+/**
+ * Get the compiled prefix table for the current configuration
+ */
+export async function getPrefixTable(env: Env): Promise<CompiledPrefixTable> {
+	const config = await loadConfig(env);
+	const source = config.data.prefixTable;
+	const key = source ? config.version.hash : 'bundled';
+
+	if (!compiledCache || compiledCache.key !== key) {
+		compiledCache = { key, table: compilePrefixTable(source || BUNDLED_PREFIX_TABLE) };
+	}
+	return compiledCache.table;
+}
+
+/**
+ * Resolve a parsed callsign to its DXCC entity
+ * A prefix override (VE3/W1AW) decides the entity; a district override (W1AW/4)
+ * replaces the call-area digit. Returns null for /MM and /AM stations and for
+ * callsigns no prefix matches.
+ */
+export function resolvePrefix(
+	table: CompiledPrefixTable,
+	callsign: ParsedCallsign
+): PrefixMatch | null {
+	if (callsign.modifiers.some((m) => NON_DXCC_MODIFIERS.includes(m))) {
+		return null;
+	}
+
+	if (!callsign.prefix && callsign.district === undefined) {
+		const exception = table.exact.get(callsign.base);
+		if (exception) {
+			return toMatch(callsign.base, true, exception, undefined);
+		}
+	}
+
+	let search = callsign.prefix || callsign.base;
+	if (!callsign.prefix && callsign.district !== undefined) {
+		search = search.replace(/[0-9](?=[A-Z]*$)/, callsign.district);
+	}
+
+	for (let length = Math.min(search.length, table.maxPrefixLength); length > 0; length--) {
+		const matched = search.substring(0, length);
+		const rule = table.prefixes.get(matched);
+		if (rule) {
+			return toMatch(matched, false, rule, search.match(/[0-9](?=[A-Z]*$)/)?.[0]);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Build the match result, applying per-prefix and call-area zone overrides
+ */
+function toMatch(
+	matched: string,
+	exact: boolean,
+	rule: PrefixRule,
+	callArea: string | undefined
+): PrefixMatch {
+	const { entity } = rule;
+	const areaZones = callArea !== undefined ? entity.callAreaZones?.[callArea] : undefined;
+
+	return {
+		matched,
+		exact,
+		entity,
+		cqZone: rule.cqZone ?? areaZones?.cqZone ?? entity.cqZone,
+		ituZone: rule.ituZone ?? areaZones?.ituZone ?? entity.ituZone,
+	};
+}
@@ -0,0 +1,238 @@
+/**
+ * Licenses expiring within a window, as a search page or an iCalendar feed
+ *
+ * The window is a date range on the HD expiration date, so the query is an
+ * ordinary search over the expiration index sorted by expiry. The calendar
+ * feed turns the same results into all-day events with a reminder alarm.
+ */
+
+import type { ParsedCallsign, SearchQuery, StoredCallsignRecord } from '../types';
+import { isValidCallsign } from '../utils';
+import { mapRecordToCallsignData } from './database';
+import { parseSearchParams } from './search';
+
+/**
+ * Window used when the request does not set within
+ */
+export const EXPIRING_DEFAULT_WINDOW = '90d';
+
+/**
+ * Longest window a request may ask for, in days
+ */
+export const EXPIRING_MAX_DAYS = 730;
+
+/**
+ * Most callsigns one request may list
+ */
+export const EXPIRING_MAX_CALLSIGNS = 100;
+
+/**
+ * Days before expiry at which calendar events remind
+ */
+export const EXPIRING_REMINDER_DAYS = 30;
+
+// Parameters set from the window, not taken from the request
+const WINDOW_PARAMS = ['expires_after', 'expires_before'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiration dates an expiring query covers, inclusive, as YYYY-MM-DD
+ */
+export interface ExpiringWindow {
+	from: string;
+	to: string;
+	days: number;
+}
+
+/**
+ * Resolve a window such as 90d, 12w, 6m or 1y to the dates it covers from today
+ * Months and years follow the calendar. Returns null for malformed or
+ * out-of-range windows.
+ */
+export function parseExpiringWindow(value: string, today: string): ExpiringWindow | null {
+	const match = value.trim().toLowerCase().match(/^(\d{1,4})([dwmy]?)$/);
+	if (!match) {
+		return null;
+	}
+	const amount = Number(match[1]);
+	const [year, month, day] = today.split('-').map(Number);
+	const unit = match[2] || 'd';
+	const end =
+		unit === 'y'
+			? Date.UTC(year + amount, month - 1, day)
+			: unit === 'm'
+				? Date.UTC(year, month - 1 + amount, day)
+				: Date.UTC(year, month - 1, day + amount * (unit === 'w' ? 7 : 1));
+	const days = Math.round((end - Date.UTC(year, month - 1, day)) / DAY_MS);
+	if (days < 1 || days > EXPIRING_MAX_DAYS) {
+		return null;
+	}
+	return { from: today, to: new Date(end).toISOString().substring(0, 10), days };
+}
+
+/**
+ * Whole days from today until a YYYY-MM-DD date
+ */
+export function daysUntil(date: string, today: string): number {
+	return Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Parse /api/v1/expiring query parameters
+ * Takes the search filters, sort and paging; within replaces expires_after and
+ * expires_before, and only filters given by the request count as advanced.
+ * Without a status filter only active licenses are returned.
+ */
+export function parseExpiringParams(
+	params: Record<string, string>,
+	today: string
+): {
+	query?: SearchQuery;
+	window?: ExpiringWindow;
+	advancedFilters: string[];
+	callsign?: ParsedCallsign;
+	error?: string;
+} {
+	const window = parseExpiringWindow(params.within || EXPIRING_DEFAULT_WINDOW, today);
+	if (!window) {
+		return {
+			advancedFilters: [],
+			error: `within must be a number of days, weeks, months or years (90d, 12w, 6m, 1y) up to ${EXPIRING_MAX_DAYS} days`,
+		};
+	}
+
+	let callsigns: string[] | undefined;
+	if (params.callsigns !== undefined && params.callsigns.trim() !== '') {
+		callsigns = [
+			...new Set(
+				params.callsigns
+					.split(',')
+					.map((c) => c.trim().toUpperCase())
+					.filter((c) => c.length > 0)
+			),
+		];
+		const invalid = callsigns.filter((c) => !isValidCallsign(c));
+		if (invalid.length > 0) {
+			return { advancedFilters: [], error: `Invalid callsign: ${invalid.join(', ')}` };
+		}
+		if (callsigns.length > EXPIRING_MAX_CALLSIGNS) {
+			return { advancedFilters: [], error: `At most ${EXPIRING_MAX_CALLSIGNS} callsigns may be listed` };
+		}
+	}
+
+	const searchParams: Record<string, string> = { sort: 'expires' };
+	for (const [name, value] of Object.entries(params)) {
+		if (!WINDOW_PARAMS.includes(name) && name !== 'name') {
+			searchParams[name] = value;
+		}
+	}
+	searchParams.expires_after = window.from;
+	searchParams.expires_before = window.to;
+
+	const { query, advancedFilters, callsign, error } = parseSearchParams(searchParams);
+	const requested = advancedFilters.filter((name) => !WINDOW_PARAMS.includes(name));
+	if (!query) {
+		return { advancedFilters: requested, error };
+	}
+	if (!query.licenseStatuses) {
+		query.licenseStatuses = ['A'];
+	}
+	query.callsigns = callsigns;
+
+	return { query, window, advancedFilters: requested, callsign };
+}
+
+/**
+ * Escape text for an iCalendar property value
+ */
+function escapeText(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets as RFC 5545 requires
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = '';
+	for (const char of line) {
+		// Continuation lines start with a space, which counts towards their 75 octets
+		const limit = parts.length === 0 ? 75 : 74;
+		if (encoder.encode(current + char).length > limit) {
+			parts.push(current);
+			current = char;
+		} else {
+			current += char;
+		}
+	}
+	parts.push(current);
+	return parts.join('\r\n ');
+}
+
+/**
+ * Build an iCalendar feed with one all-day event per license expiration
+ * Records without an expiration date are left out. UIDs depend only on the
+ * callsign and date, so calendar apps update events in place on refresh.
+ * A description, such as a note that the feed is truncated, is shown by
+ * calendar apps alongside the calendar name.
+ */
+export function buildExpiringCalendar(
+	records: StoredCallsignRecord[],
+	generatedAt: Date,
+	calendarName = 'Expiring amateur licenses',
+	description?: string
+): string {
+	const stamp = generatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//ham-radio-callsign-worker//Expiring licenses//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(calendarName)}`,
+	];
+	if (description) {
+		lines.push(`X-WR-CALDESC:${escapeText(description)}`);
+	}
+
+	for (const stored of records) {
+		const data = mapRecordToCallsignData(stored);
+		if (!data.expiration_date) {
+			continue;
+		}
+		const date = data.expiration_date.replace(/-/g, '');
+		const next = new Date(Date.parse(`${data.expiration_date}T00:00:00Z`) + DAY_MS)
+			.toISOString()
+			.substring(0, 10)
+			.replace(/-/g, '');
+		const description = [data.name, data.license_class && `${data.license_class} class`]
+			.filter(Boolean)
+			.join(', ');
+
+		lines.push(
+			'BEGIN:VEVENT',
+			`UID:${data.callsign}-${date}@ham-radio-callsign-worker`,
+			`DTSTAMP:${stamp}`,
+			`DTSTART;VALUE=DATE:${date}`,
+			`DTEND;VALUE=DATE:${next}`,
+			`SUMMARY:${escapeText(`${data.callsign} license expires`)}`
+		);
+		if (description) {
+			lines.push(`DESCRIPTION:${escapeText(description)}`);
+		}
+		lines.push(
+			'TRANSP:TRANSPARENT',
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			`DESCRIPTION:${escapeText(`${data.callsign} license expires in ${EXPIRING_REMINDER_DAYS} days`)}`,
+			`TRIGGER:-P${EXPIRING_REMINDER_DAYS}D`,
+			'END:VALARM',
+			'END:VEVENT'
+		);
+	}
+
+	lines.push('END:VCALENDAR');
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
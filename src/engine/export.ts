@@ -0,0 +1,868 @@
+/**
+ * Database export jobs
+ *
+ * An export job pages through the callsigns table in callsign order and
+ * writes every record to one R2 object under exports/ as JSON, CSV, NDJSON,
+ * a contest logger call-history file or a SQLite database, uploading it in
+ * fixed-size multipart parts so the whole file is never held in memory.
+ *
+ * A full export takes longer than one invocation may run, so a job runs in
+ * steps of about EXPORT_STEP_MS. Each step ends with a checkpoint in the job
+ * record: the multipart upload, the keyset position and the SQLite builder
+ * state, with the bytes not yet uploaded kept in R2 under
+ * exports/.checkpoints/. The step started by the export request is followed
+ * by steps from the cron trigger (resumeExportJobs) and from status polls.
+ *
+ * Job state lives in METADATA_STORE under an id derived from the format and
+ * data version, so identical requests share one artifact. Finished artifacts
+ * are downloaded through the worker with short-lived signed URLs.
+ */
+
+import type { CallsignData, Env, ExportFormat, ExportJob } from '../types';
+import { HASH_DISPLAY_LENGTH, log } from '../utils';
+import { CALLSIGN_INDEX_KEYS, getLatestSnapshot, mapRecordToCallsignData, toStoredCallsignRecord } from './database';
+import type { CallsignRow } from './database';
+import {
+	SQLITE_PAGE_SIZE,
+	buildSqliteHeaderPage,
+	concatBytes,
+	createIndexBuilder,
+	createSqliteFile,
+	createTableBuilder,
+} from './sqlite';
+import type { SqliteBuilderState, SqliteSchemaEntry, SqliteValue } from './sqlite';
+
+/**
+ * Formats an export job can write
+ */
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'ndjson', 'callhistory', 'sqlite'];
+
+/**
+ * Content type of each export format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+	json: 'application/json',
+	csv: 'text/csv; charset=utf-8',
+	ndjson: 'application/x-ndjson',
+	callhistory: 'text/plain; charset=utf-8',
+	sqlite: 'application/vnd.sqlite3',
+};
+
+/**
+ * File extension of each export format
+ */
+const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	json: 'json',
+	csv: 'csv',
+	ndjson: 'ndjson',
+	callhistory: 'txt',
+	sqlite: 'sqlite',
+};
+
+/**
+ * Records read per D1 query while exporting
+ */
+export const EXPORT_PAGE_SIZE = 2000;
+
+/**
+ * Size of each multipart upload part; R2 needs equal parts of at least 5 MiB
+ * except for the last
+ */
+export const EXPORT_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * How long a download URL stays valid
+ */
+export const EXPORT_DOWNLOAD_TTL_SECONDS = 3600;
+
+/**
+ * How long one step of a job runs before it checkpoints; an invocation is
+ * stopped after about 30 seconds
+ */
+export const EXPORT_STEP_MS = 20 * 1000;
+
+/**
+ * A pending or running job not updated for this long has no step running and
+ * is resumed from its checkpoint. Covers a step plus KV's propagation delay.
+ */
+export const EXPORT_RESUME_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * METADATA_STORE prefix of the jobs still to finish, which the cron trigger resumes
+ */
+const EXPORT_ACTIVE_PREFIX = 'exports:active:';
+
+/**
+ * Least time between progress writes, which stay under KV's one write per
+ * second per key
+ */
+const EXPORT_PROGRESS_INTERVAL_MS = 5000;
+
+/**
+ * CSV columns, in order
+ */
+export const EXPORT_CSV_COLUMNS: Array<keyof CallsignData> = [
+	'callsign',
+	'name',
+	'license_class',
+	'operator_class',
+	'license_status',
+	'grant_date',
+	'expiration_date',
+	'cancellation_date',
+	'previous_callsign',
+	'previous_license_class',
+	'trustee_callsign',
+	'trustee_name',
+	'address',
+	'city',
+	'state',
+	'zip',
+	'country',
+	'frn',
+	'grid_square',
+	'latitude',
+	'longitude',
+	'last_updated',
+];
+
+/**
+ * Call-history columns: the header label logging software matches on and the value
+ */
+export const CALL_HISTORY_COLUMNS: Record<
+	string,
+	{ label: string; value: (data: CallsignData, record: Record<string, string | undefined>) => string | number | undefined }
+> = {
+	call: { label: 'Call', value: (data) => data.callsign },
+	// First name, as sent in contest exchanges; clubs use the entity name
+	name: { label: 'Name', value: (_data, record) => record.first_name?.trim() || record.entity_name?.trim() },
+	full_name: { label: 'FullName', value: (data) => data.name },
+	state: { label: 'State', value: (data) => data.state },
+	city: { label: 'City', value: (data) => data.city },
+	zip: { label: 'Zip', value: (data) => data.zip },
+	class: { label: 'Class', value: (data) => data.operator_class },
+	license_class: { label: 'LicenseClass', value: (data) => data.license_class },
+	// ZIP-derived squares are only reliable to four characters
+	grid: { label: 'Grid', value: (data) => data.grid_square?.substring(0, 4) },
+	frn: { label: 'FRN', value: (data) => data.frn },
+	expires: { label: 'Expires', value: (data) => data.expiration_date },
+};
+
+/**
+ * Call-history columns used when the request names none
+ */
+export const CALL_HISTORY_DEFAULT_TEMPLATE = 'call,name,state,class,grid';
+
+/**
+ * Most columns a call-history template may list
+ */
+const CALL_HISTORY_MAX_COLUMNS = 12;
+
+/**
+ * Parse a call-history column template such as call,name,class:Exch1
+ * Each entry is a column, optionally renamed with :Label. Columns come back
+ * normalized as column:Label.
+ */
+export function parseCallHistoryTemplate(value: string): { columns?: string[]; error?: string } {
+	const entries = value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+	if (entries.length === 0 || entries.length > CALL_HISTORY_MAX_COLUMNS) {
+		return { error: `columns must list 1 to ${CALL_HISTORY_MAX_COLUMNS} call history columns` };
+	}
+
+	const columns: string[] = [];
+	for (const entry of entries) {
+		const [name, label, ...rest] = entry.split(':');
+		const column = CALL_HISTORY_COLUMNS[name.toLowerCase()];
+		if (!column || rest.length > 0) {
+			return {
+				error: `Unknown call history column: ${entry}. Use ${Object.keys(CALL_HISTORY_COLUMNS).join(', ')}`,
+			};
+		}
+		if (label !== undefined && !/^[A-Za-z0-9_]{1,20}$/.test(label)) {
+			return { error: `Invalid call history label: ${label}` };
+		}
+		columns.push(`${name.toLowerCase()}:${label ?? column.label}`);
+	}
+	return { columns };
+}
+
+/**
+ * Where the record exports continue: after this callsign
+ */
+interface RecordExportPosition {
+	after: string;
+}
+
+/**
+ * Where a SQLite export continues: the sqlite_master entry being written, the
+ * keyset position within it and the state of its B-tree builder
+ */
+interface SqliteExportPosition {
+	entry: number;
+	after?: number | SqliteValue[];
+	builder?: SqliteBuilderState;
+	pageCount: number;
+	entries: SqliteSchemaEntry[];
+}
+
+/**
+ * State a paused job resumes from
+ */
+interface ExportCheckpoint {
+	// Steps checkpointed so far; names the R2 object with the bytes not yet uploaded
+	step: number;
+	uploadId: string;
+	// Uploaded parts, except part 1 which is held until the end
+	parts: R2UploadedPart[];
+	// Whether part 1 has been cut and kept in R2
+	firstPart: boolean;
+	bytes: number;
+	records: number;
+	position: RecordExportPosition | SqliteExportPosition;
+}
+
+/**
+ * Job as stored; the signing secret and checkpoint never leave the worker
+ */
+export interface StoredExportJob extends ExportJob {
+	secret: string;
+	checkpoint?: ExportCheckpoint;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * METADATA_STORE key of an export job
+ */
+function exportJobKey(id: string): string {
+	return `exports:job:${id}`;
+}
+
+/**
+ * Job id for a format, data version and template; identical requests get the same id
+ */
+export async function exportJobId(format: ExportFormat, dataVersion: string, columns?: string[]): Promise<string> {
+	const request = columns ? `${format}:${dataVersion}:${columns.join(',')}` : `${format}:${dataVersion}`;
+	const hash = await crypto.subtle.digest('SHA-256', encoder.encode(request));
+	return Array.from(new Uint8Array(hash))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('')
+		.substring(0, HASH_DISPLAY_LENGTH);
+}
+
+/**
+ * Read an export job; null when unknown. Throws on storage errors.
+ */
+export async function getExportJob(env: Env, id: string): Promise<StoredExportJob | null> {
+	if (!env.METADATA_STORE || !/^[0-9a-f]+$/.test(id)) {
+		return null;
+	}
+	const json = await env.METADATA_STORE.get(exportJobKey(id));
+	return json ? parseExportJob(json) : null;
+}
+
+/**
+ * Save an export job's state; byte arrays in the checkpoint are stored as base64
+ */
+async function saveExportJob(env: Env, job: StoredExportJob): Promise<void> {
+	await env.METADATA_STORE!.put(
+		exportJobKey(job.id),
+		JSON.stringify(job, (_key, value) =>
+			value instanceof Uint8Array ? { base64: btoa(String.fromCharCode(...value)) } : value
+		)
+	);
+}
+
+/**
+ * Parse a saved export job, restoring the byte arrays of its checkpoint
+ */
+function parseExportJob(json: string): StoredExportJob {
+	return JSON.parse(json, (_key, value) =>
+		value && typeof value === 'object' && typeof value.base64 === 'string' && Object.keys(value).length === 1
+			? Uint8Array.from(atob(value.base64), (c) => c.charCodeAt(0))
+			: value
+	) as StoredExportJob;
+}
+
+/**
+ * R2 prefix of the objects a job keeps between steps
+ */
+function checkpointPrefix(job: ExportJob): string {
+	return `exports/.checkpoints/${job.id}/`;
+}
+
+/**
+ * Whether a pending or running job has no step running and should be resumed
+ */
+export function isExportJobIdle(job: ExportJob, now: Date = new Date()): boolean {
+	return (
+		(job.status === 'pending' || job.status === 'running') &&
+		now.getTime() - Date.parse(job.updatedAt) >= EXPORT_RESUME_AFTER_MS
+	);
+}
+
+/**
+ * Find or create the job for a format, data version and call-history template
+ * A finished job whose artifact is still in R2, or a job still making
+ * progress, is returned as is. An idle job is returned with start set so the
+ * caller runs its next step; otherwise a new pending job is saved and start
+ * is set. Throws on storage errors.
+ */
+export async function prepareExportJob(
+	env: Env,
+	format: ExportFormat,
+	dataVersion: string,
+	options: { columns?: string[]; now?: Date } = {}
+): Promise<{ job: StoredExportJob; start: boolean }> {
+	if (!env.METADATA_STORE || !env.DATA_EXPORTS) {
+		throw new Error('Export storage not configured');
+	}
+
+	const now = options.now ?? new Date();
+	const columns =
+		format === 'callhistory'
+			? (options.columns ?? parseCallHistoryTemplate(CALL_HISTORY_DEFAULT_TEMPLATE).columns)
+			: undefined;
+	const id = await exportJobId(format, dataVersion, columns);
+	const existing = await getExportJob(env, id);
+	if (existing?.status === 'complete' && (await env.DATA_EXPORTS.head(existing.objectKey))) {
+		return { job: existing, start: false };
+	}
+	if (existing?.status === 'pending' || existing?.status === 'running') {
+		return { job: existing, start: isExportJobIdle(existing, now) };
+	}
+
+	const timestamp = now.toISOString();
+	const job: StoredExportJob = {
+		id,
+		format,
+		dataVersion,
+		status: 'pending',
+		objectKey: columns
+			? `exports/callsigns-${dataVersion}-${id}.${EXPORT_FILE_EXTENSIONS[format]}`
+			: `exports/callsigns-${dataVersion}.${EXPORT_FILE_EXTENSIONS[format]}`,
+		columns,
+		createdAt: timestamp,
+		updatedAt: timestamp,
+		secret: crypto.randomUUID(),
+	};
+	await saveExportJob(env, job);
+	await env.METADATA_STORE.put(`${EXPORT_ACTIVE_PREFIX}${id}`, timestamp);
+	return { job, start: true };
+}
+
+/**
+ * Quote a CSV field when it holds a separator, quote or line break
+ */
+function csvField(value: unknown): string {
+	const text = value === undefined || value === null ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Call-history field; logging software splits on commas and does not unquote
+ */
+function callHistoryField(value: string | number | undefined): string {
+	return value === undefined ? '' : String(value).replace(/[,\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Serialize one page of records, given whether any record came before it
+ */
+function serializeExportRecords(job: ExportJob, rows: CallsignRow[], first: boolean): string {
+	const stored = rows.map(toStoredCallsignRecord);
+	const records = stored.map(mapRecordToCallsignData);
+	switch (job.format) {
+		case 'csv':
+			return records.map((r) => EXPORT_CSV_COLUMNS.map((column) => csvField(r[column])).join(',') + '\r\n').join('');
+		case 'ndjson':
+			return records.map((r) => JSON.stringify(r) + '\n').join('');
+		case 'json':
+			return records.map((r, i) => (first && i === 0 ? '\n' : ',\n') + JSON.stringify(r)).join('');
+		case 'callhistory': {
+			// Contest loggers only want stations that can be on the air
+			const columns = (job.columns || []).map((column) => CALL_HISTORY_COLUMNS[column.split(':')[0]]);
+			return records
+				.map((r, i) =>
+					r.license_status === 'A'
+						? columns.map((c) => callHistoryField(c.value(r, stored[i].record))).join(',') + '\r\n'
+						: ''
+				)
+				.join('');
+		}
+		case 'sqlite':
+			throw new Error('SQLite exports are not serialized record by record');
+	}
+}
+
+/**
+ * Output of an export: a multipart upload fed in order and cut into equal parts
+ * The first part is held until the end so the start of the file can still be
+ * rewritten, which the SQLite header needs. A resumed output continues from
+ * the parts, first part and bytes left by the previous step.
+ */
+export function createExportOutput(
+	upload: R2MultipartUpload,
+	partSize: number,
+	resume?: { parts: R2UploadedPart[]; bytes: number; first?: Uint8Array; rest: Uint8Array }
+) {
+	const parts: R2UploadedPart[] = resume ? [...resume.parts] : [];
+	let chunks: Uint8Array[] = resume ? [resume.rest] : [];
+	let buffered = resume ? resume.rest.length : 0;
+	let bytes = resume ? resume.bytes : 0;
+	let first = resume?.first;
+
+	return {
+		bytes: () => bytes,
+		async write(data: string | Uint8Array): Promise<void> {
+			const chunk = typeof data === 'string' ? encoder.encode(data) : data;
+			chunks.push(chunk);
+			buffered += chunk.length;
+			bytes += chunk.length;
+			while (buffered >= partSize) {
+				const joined = concatBytes(chunks);
+				const part = joined.slice(0, partSize);
+				chunks = [joined.subarray(partSize)];
+				buffered -= partSize;
+				if (first) {
+					parts.push(await upload.uploadPart(parts.length + 2, part));
+				} else {
+					first = part;
+				}
+			}
+		},
+		patchStart(data: Uint8Array): void {
+			const start = first ?? concatBytes(chunks);
+			if (data.length > start.length) {
+				throw new Error('Export part too small to patch');
+			}
+			start.set(data);
+			if (!first) {
+				chunks = [start];
+			}
+		},
+		// What a later step needs to continue the upload
+		pause: () => ({ parts: [...parts], first, rest: concatBytes(chunks) }),
+		async complete(): Promise<void> {
+			const rest = concatBytes(chunks);
+			if (first && rest.length > 0) {
+				parts.push(await upload.uploadPart(parts.length + 2, rest));
+			}
+			parts.unshift(await upload.uploadPart(1, first ?? rest));
+			await upload.complete(parts);
+		},
+	};
+}
+
+/**
+ * One step of a job as the writers see it
+ */
+interface ExportStep {
+	output: ReturnType<typeof createExportOutput>;
+	pageSize: number;
+	// Records read so far, counting earlier steps
+	records: number;
+	// Called after each full page; true once the step should checkpoint
+	pause(): Promise<boolean>;
+}
+
+/**
+ * Write every record as JSON, CSV, NDJSON or call history
+ * Returns the position to resume from when the step pauses, or null once done.
+ */
+async function writeRecordExport(
+	env: Env,
+	job: ExportJob,
+	step: ExportStep,
+	position?: RecordExportPosition
+): Promise<RecordExportPosition | null> {
+	const { output } = step;
+	if (!position) {
+		if (job.format === 'csv') {
+			await output.write(EXPORT_CSV_COLUMNS.join(',') + '\r\n');
+		} else if (job.format === 'json') {
+			await output.write(
+				`{"data_version":${JSON.stringify(job.dataVersion)},"generated_at":${JSON.stringify(job.createdAt)},"records":[`
+			);
+		} else if (job.format === 'callhistory') {
+			const labels = (job.columns || []).map((column) => column.split(':')[1]);
+			await output.write(
+				`# ham-radio-callsign-worker call history, data version ${job.dataVersion}\r\n!!Order!!,${labels.join(',')}\r\n`
+			);
+		}
+	}
+
+	let after = position?.after ?? '';
+	for (;;) {
+		const result = await env.CALLSIGN_DB!.prepare(
+			'SELECT callsign, data, updated_at FROM callsigns WHERE callsign > ? ORDER BY callsign LIMIT ?'
+		)
+			.bind(after, step.pageSize)
+			.all<CallsignRow>();
+		const rows = result.results || [];
+		if (rows.length > 0) {
+			await output.write(serializeExportRecords(job, rows, step.records === 0));
+			step.records += rows.length;
+			after = rows[rows.length - 1].callsign;
+		}
+		if (rows.length < step.pageSize) {
+			break;
+		}
+		if (await step.pause()) {
+			return { after };
+		}
+	}
+
+	if (job.format === 'json') {
+		await output.write(step.records > 0 ? '\n]}\n' : ']}\n');
+	}
+	return null;
+}
+
+/**
+ * Key columns of an index on callsigns as D1 names it; undefined for unknown indexes
+ */
+function sqliteIndexKeys(name: string): string[] | undefined {
+	return name === 'sqlite_autoindex_callsigns_1' ? ['callsign'] : CALLSIGN_INDEX_KEYS[name];
+}
+
+/**
+ * Write the callsigns table and its indexes as a SQLite database
+ * The schema SQL is copied from D1, and each B-tree is streamed from D1 in its
+ * own key order. A pipeline update landing mid-export is picked up by the job
+ * for the new data version. Returns the position to resume from when the step
+ * pauses, or null once done.
+ */
+async function writeSqliteExport(
+	env: Env,
+	step: ExportStep,
+	position?: SqliteExportPosition
+): Promise<SqliteExportPosition | null> {
+	const db = env.CALLSIGN_DB!;
+	const { output } = step;
+	const schema = await db
+		.prepare(
+			`SELECT type, name, tbl_name, sql FROM sqlite_master
+			 WHERE tbl_name = 'callsigns' AND type IN ('table', 'index') ORDER BY rowid`
+		)
+		.all<{ type: 'table' | 'index'; name: string; tbl_name: string; sql: string | null }>();
+	const rows = schema.results || [];
+
+	// Page 1 is rewritten once every root page is known
+	if (!position) {
+		await output.write(new Uint8Array(SQLITE_PAGE_SIZE));
+	}
+	const file = createSqliteFile((page) => output.write(page), position?.pageCount);
+	const entries: SqliteSchemaEntry[] = position?.entries ?? [];
+
+	for (let entry = position?.entry ?? 0; entry < rows.length; entry++) {
+		const row = rows[entry];
+		const resume = entry === position?.entry ? position : undefined;
+		let rootPage: number;
+		if (row.type === 'table') {
+			const table = createTableBuilder(file, resume?.builder);
+			let after = (resume?.after as number | undefined) ?? 0;
+			for (;;) {
+				const result = await db
+					.prepare(
+						'SELECT rowid, callsign, data, updated_at FROM callsigns WHERE rowid > ? ORDER BY rowid LIMIT ?'
+					)
+					.bind(after, step.pageSize)
+					.all<CallsignRow & { rowid: number }>();
+				const page = result.results || [];
+				for (const r of page) {
+					await table.add(r.rowid, [r.callsign, r.data, r.updated_at]);
+				}
+				if (page.length > 0) {
+					step.records += page.length;
+					after = page[page.length - 1].rowid;
+				}
+				if (page.length < step.pageSize) {
+					break;
+				}
+				if (await step.pause()) {
+					return { entry, after, builder: table.state(), pageCount: file.pageCount(), entries };
+				}
+			}
+			rootPage = await table.finish();
+		} else {
+			const keys = sqliteIndexKeys(row.name);
+			if (!keys) {
+				log('warn', 'SQLite export skipped an unknown index', { name: row.name });
+				continue;
+			}
+
+			// Keyset pages in index order: the key columns, then the rowid
+			const index = createIndexBuilder(file, resume?.builder);
+			const columns = [...keys, 'rowid'];
+			const select = columns.map((column, i) => `${column} AS k${i}`).join(', ');
+			let after = resume?.after as SqliteValue[] | undefined;
+			for (;;) {
+				const where = after ? `WHERE (${columns.join(', ')}) > (${columns.map(() => '?').join(', ')})` : '';
+				const result = await db
+					.prepare(`SELECT ${select} FROM callsigns ${where} ORDER BY ${columns.join(', ')} LIMIT ?`)
+					.bind(...(after || []), step.pageSize)
+					.all<Record<string, SqliteValue>>();
+				const page = result.results || [];
+				for (const r of page) {
+					await index.add(columns.map((_column, i) => r[`k${i}`] ?? null));
+				}
+				if (page.length < step.pageSize) {
+					break;
+				}
+				const last = page[page.length - 1];
+				after = columns.map((_column, i) => last[`k${i}`] ?? null);
+				if (await step.pause()) {
+					return { entry, after, builder: index.state(), pageCount: file.pageCount(), entries };
+				}
+			}
+			rootPage = await index.finish();
+		}
+		entries.push({ type: row.type, name: row.name, tblName: row.tbl_name, rootPage, sql: row.sql });
+	}
+
+	if (!entries.some((entry) => entry.type === 'table')) {
+		throw new Error('callsigns table not found in the D1 schema');
+	}
+	output.patchStart(buildSqliteHeaderPage(file.pageCount(), entries));
+	return null;
+}
+
+/**
+ * Delete the objects a job kept between steps
+ */
+async function deleteCheckpointObjects(env: Env, job: ExportJob): Promise<void> {
+	const listed = await env.DATA_EXPORTS!.list({ prefix: checkpointPrefix(job) });
+	if (listed.objects.length > 0) {
+		await env.DATA_EXPORTS!.delete(listed.objects.map((object) => object.key));
+	}
+}
+
+/**
+ * Throw unless the database still holds the data version the job exports
+ */
+async function checkExportDataVersion(env: Env, job: ExportJob): Promise<void> {
+	const snapshot = await getLatestSnapshot(env);
+	if (snapshot?.version !== job.dataVersion) {
+		throw new Error(`Data version changed from ${job.dataVersion} to ${snapshot?.version ?? 'none'} during the export`);
+	}
+}
+
+/**
+ * Run one step of an export job: until it finishes, or until the deadline
+ * passes and it checkpoints so a later step can resume it
+ * Returns the job's status afterwards; marks the job failed on errors and once
+ * a pipeline run has moved the database past the job's data version. A step
+ * whose checkpoint is already superseded returns 'running' without changes.
+ */
+export async function runExportJob(
+	env: Env,
+	job: StoredExportJob,
+	options: { partSize?: number; pageSize?: number; deadline?: number } = {}
+): Promise<ExportJob['status']> {
+	if (!env.CALLSIGN_DB || !env.DATA_EXPORTS || !env.METADATA_STORE) {
+		return job.status;
+	}
+
+	// Progress goes to a copy so the caller's job keeps the state it returned
+	const state: StoredExportJob = { ...job };
+	const update = (changes: Partial<StoredExportJob>) =>
+		saveExportJob(env, Object.assign(state, changes, { updatedAt: new Date().toISOString() }));
+	const finish = async (changes: Partial<StoredExportJob>) => {
+		await update({ ...changes, checkpoint: undefined });
+		await env.METADATA_STORE!.delete(`${EXPORT_ACTIVE_PREFIX}${job.id}`);
+		await deleteCheckpointObjects(env, job);
+	};
+	const checkpoint = job.checkpoint;
+	const prefix = checkpointPrefix(job);
+	const deadline = options.deadline ?? Date.now() + EXPORT_STEP_MS;
+	let upload: R2MultipartUpload | undefined;
+
+	try {
+		let output: ExportStep['output'];
+		if (checkpoint) {
+			// The bytes left by the step that saved this checkpoint; gone once a later step has replaced it
+			const rest = await env.DATA_EXPORTS.get(`${prefix}rest-${checkpoint.step}`);
+			const first = checkpoint.firstPart ? await env.DATA_EXPORTS.get(`${prefix}first`) : null;
+			if (!rest || (checkpoint.firstPart && !first)) {
+				log('warn', 'Export job checkpoint already superseded', { id: job.id, step: checkpoint.step });
+				return 'running';
+			}
+			upload = env.DATA_EXPORTS.resumeMultipartUpload(job.objectKey, checkpoint.uploadId);
+			output = createExportOutput(upload, options.partSize ?? EXPORT_PART_SIZE, {
+				parts: checkpoint.parts,
+				bytes: checkpoint.bytes,
+				first: first ? new Uint8Array(await first.arrayBuffer()) : undefined,
+				rest: new Uint8Array(await rest.arrayBuffer()),
+			});
+		} else {
+			upload = await env.DATA_EXPORTS.createMultipartUpload(job.objectKey, {
+				httpMetadata: { contentType: EXPORT_CONTENT_TYPES[job.format] },
+				customMetadata: { jobId: job.id, format: job.format, version: job.dataVersion },
+			});
+			output = createExportOutput(upload, options.partSize ?? EXPORT_PART_SIZE);
+		}
+		// A patch applied between steps would mix two data versions into one file
+		await checkExportDataVersion(env, job);
+		await update({ status: 'running', error: undefined });
+
+		let lastProgress = Date.now();
+		const step: ExportStep = {
+			output,
+			pageSize: options.pageSize ?? EXPORT_PAGE_SIZE,
+			records: checkpoint?.records ?? 0,
+			async pause() {
+				if (Date.now() >= deadline) {
+					return true;
+				}
+				if (Date.now() - lastProgress >= EXPORT_PROGRESS_INTERVAL_MS) {
+					lastProgress = Date.now();
+					await update({ records: step.records, bytes: output.bytes() });
+				}
+				return false;
+			},
+		};
+
+		const position =
+			job.format === 'sqlite'
+				? await writeSqliteExport(env, step, checkpoint?.position as SqliteExportPosition | undefined)
+				: await writeRecordExport(env, job, step, checkpoint?.position as RecordExportPosition | undefined);
+
+		if (position) {
+			// Keep what is not uploaded yet, then point the job at it
+			const paused = output.pause();
+			const next = (checkpoint?.step ?? 0) + 1;
+			await env.DATA_EXPORTS.put(`${prefix}rest-${next}`, paused.rest);
+			if (paused.first && !checkpoint?.firstPart) {
+				await env.DATA_EXPORTS.put(`${prefix}first`, paused.first);
+			}
+			await update({
+				records: step.records,
+				bytes: output.bytes(),
+				checkpoint: {
+					step: next,
+					uploadId: upload.uploadId,
+					parts: paused.parts,
+					firstPart: paused.first !== undefined,
+					bytes: output.bytes(),
+					records: step.records,
+					position,
+				},
+			});
+			if (checkpoint) {
+				await env.DATA_EXPORTS.delete(`${prefix}rest-${checkpoint.step}`);
+			}
+			log('info', 'Export job checkpointed', { id: job.id, step: next, records: step.records });
+			return 'running';
+		}
+
+		await checkExportDataVersion(env, job);
+		await output.complete();
+		const bytes = output.bytes();
+		await finish({ status: 'complete', completedAt: new Date().toISOString(), records: step.records, bytes });
+		log('info', 'Export job complete', { id: job.id, format: job.format, records: step.records, bytes });
+		return 'complete';
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		log('error', 'Export job failed', { id: job.id, error: message });
+		try {
+			await upload?.abort();
+			await finish({ status: 'failed', error: message });
+		} catch {
+			// The job is resumed once it goes idle
+		}
+		return 'failed';
+	}
+}
+
+/**
+ * Run the next step of every idle export job, as the cron trigger does
+ * Jobs are taken in turn until the deadline; returns the number of steps run.
+ */
+export async function resumeExportJobs(env: Env, deadline: number = Date.now() + EXPORT_STEP_MS): Promise<number> {
+	if (!env.CALLSIGN_DB || !env.DATA_EXPORTS || !env.METADATA_STORE) {
+		return 0;
+	}
+
+	let steps = 0;
+	try {
+		const listed = await env.METADATA_STORE.list({ prefix: EXPORT_ACTIVE_PREFIX });
+		for (const key of listed.keys) {
+			if (Date.now() >= deadline) {
+				break;
+			}
+			const job = await getExportJob(env, key.name.substring(EXPORT_ACTIVE_PREFIX.length));
+			if (!job || (job.status !== 'pending' && job.status !== 'running')) {
+				await env.METADATA_STORE.delete(key.name);
+				continue;
+			}
+			if (isExportJobIdle(job)) {
+				await runExportJob(env, job, { deadline });
+				steps++;
+			}
+		}
+	} catch (error) {
+		log('error', 'Failed to resume export jobs', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+	return steps;
+}
+
+/**
+ * Hex HMAC-SHA256 of an export download grant
+ */
+async function signExportDownload(job: StoredExportJob, expires: number): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(job.secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${job.id}:${expires}`));
+	return Array.from(new Uint8Array(signature))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Signed download path for a finished job, valid for EXPORT_DOWNLOAD_TTL_SECONDS
+ */
+export async function createExportDownloadUrl(
+	job: StoredExportJob,
+	now: Date = new Date()
+): Promise<{ url: string; expiresAt: string }> {
+	const expires = Math.floor(now.getTime() / 1000) + EXPORT_DOWNLOAD_TTL_SECONDS;
+	const signature = await signExportDownload(job, expires);
+	return {
+		url: `/api/v1/export/${job.id}/download?expires=${expires}&signature=${signature}`,
+		expiresAt: new Date(expires * 1000).toISOString(),
+	};
+}
+
+/**
+ * Check a download URL's expiry and signature
+ */
+export async function verifyExportDownload(
+	job: StoredExportJob,
+	expires: string | undefined,
+	signature: string | undefined,
+	now: Date = new Date()
+): Promise<boolean> {
+	const expiresAt = Number(expires);
+	if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) {
+		return false;
+	}
+
+	// Compare every character so timing does not reveal a matching prefix
+	const expected = await signExportDownload(job, expiresAt);
+	let difference = expected.length ^ signature.length;
+	for (let i = 0; i < expected.length; i++) {
+		difference |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+	}
+	return difference === 0;
+}
@@ -5,14 +5,88 @@
 import type { Env, ExtractionResult, ConfigData } from '../types';
 import { log } from '../utils';
 import { logExtractionEvent } from './logger';
+import { getSourceFiles, isMultiFileSource, joinSourceFiles } from './uls';
+
+/**
+ * Central directory entry
+ */
+interface ZipEntry {
+	fileName: string;
+	compressionMethod: number;
+	crc32: number;
+	compressedSize: number;
+	uncompressedSize: number;
+	localHeaderOffset: number;
+	encrypted: boolean;
+}
+
+/**
+ * Decoded file extracted from the ZIP
+ */
+interface ExtractedFile {
+	fileName: string;
+	content: string;
+	compressedSize: number;
+	uncompressedSize: number;
+}
+
+// Chunk size used when feeding archive bytes into streams
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Update a running CRC-32 (IEEE) with a chunk of data
+ */
+function updateCrc32(crc: number, chunk: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	for (let i = 0; i < chunk.length; i++) {
+		crc = crcTable[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return crc;
+}
+
+/**
+ * Expose a byte range as a stream without copying it
+ */
+function chunkedStream(data: Uint8Array): ReadableStream<Uint8Array> {
+	let offset = 0;
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			if (offset >= data.length) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(data.subarray(offset, offset + STREAM_CHUNK_SIZE));
+			offset += STREAM_CHUNK_SIZE;
+		},
+	});
+}
+
+// Sentinel values that defer to the ZIP64 extended information extra field
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
 
 /**
  * Simple ZIP file parser for extracting files
- * Note: This is a basic implementation. For production, consider using a library like fflate
+ * Supports stored and deflate entries; deflate uses the runtime's DecompressionStream.
+ * Sizes and offsets always come from the central directory, so entries written
+ * with data descriptors and ZIP64 archives are read the same way.
  */
 class SimpleZipExtractor {
 	private data: Uint8Array;
 	private view: DataView;
+	private entries: ZipEntry[] | null = null;
 
 	constructor(buffer: ArrayBuffer) {
 		this.data = new Uint8Array(buffer);
@@ -34,152 +108,251 @@ class SimpleZipExtractor {
 	}
 
 	/**
-	 * Extract a specific file from the ZIP
+	 * Read a little-endian 64-bit value as a number
+	 */
+	private getUint64(offset: number): number {
+		const value = this.view.getBigUint64(offset, true);
+		if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+			throw new Error('ZIP64 value exceeds supported size');
+		}
+		return Number(value);
+	}
+
+	/**
+	 * Locate the central directory, following the ZIP64 end record when present
+	 * Throws for split or spanned (multi-disk) archives.
 	 */
-	extractFile(targetFileName: string): Uint8Array | null {
-		try {
-			const eocdPos = this.findEndOfCentralDirectory();
-			if (eocdPos === null) {
-				log('error', 'Could not find end of central directory');
-				return null;
+	private readDirectoryLocation(): { offset: number; entryCount: number } {
+		const eocdPos = this.findEndOfCentralDirectory();
+		if (eocdPos === null) {
+			throw new Error('Could not find end of central directory');
+		}
+
+		let diskNumber = this.view.getUint16(eocdPos + 4, true);
+		let cdDisk = this.view.getUint16(eocdPos + 6, true);
+		let entryCount = this.view.getUint16(eocdPos + 10, true);
+		let offset = this.view.getUint32(eocdPos + 16, true);
+
+		// ZIP64 end of central directory locator sits directly before the EOCD
+		const locatorPos = eocdPos - 20;
+		if (locatorPos >= 0 && this.view.getUint32(locatorPos, true) === 0x07064b50) {
+			const totalDisks = this.view.getUint32(locatorPos + 16, true);
+			if (totalDisks > 1) {
+				throw new Error(`Multi-disk ZIP archives are not supported (${totalDisks} disks)`);
 			}
 
-			// Read central directory offset
-			const cdOffset = this.view.getUint32(eocdPos + 16, true);
-			const cdEntries = this.view.getUint16(eocdPos + 10, true);
+			const zip64Pos = this.getUint64(locatorPos + 8);
+			if (
+				zip64Pos + 56 > this.data.length ||
+				this.view.getUint32(zip64Pos, true) !== 0x06064b50
+			) {
+				throw new Error('Invalid ZIP64 end of central directory record');
+			}
 
-			let pos = cdOffset;
+			diskNumber = this.view.getUint32(zip64Pos + 16, true);
+			cdDisk = this.view.getUint32(zip64Pos + 20, true);
+			entryCount = this.getUint64(zip64Pos + 32);
+			offset = this.getUint64(zip64Pos + 48);
+		} else if (entryCount === ZIP64_MARKER_16 || offset === ZIP64_MARKER_32) {
+			throw new Error('ZIP64 end of central directory locator not found');
+		}
 
-			// Iterate through central directory entries
-			for (let i = 0; i < cdEntries; i++) {
-				const signature = this.view.getUint32(pos, true);
-				if (signature !== 0x02014b50) {
-					log('error', 'Invalid central directory entry signature');
-					return null;
-				}
+		if (diskNumber !== 0 || cdDisk !== 0) {
+			throw new Error(
+				`Multi-disk ZIP archives are not supported (disk ${diskNumber}, central directory on disk ${cdDisk})`
+			);
+		}
 
-				const fileNameLength = this.view.getUint16(pos + 28, true);
-				const extraFieldLength = this.view.getUint16(pos + 30, true);
-				const fileCommentLength = this.view.getUint16(pos + 32, true);
-				const localHeaderOffset = this.view.getUint32(pos + 42, true);
+		return { offset, entryCount };
+	}
 
-				// Read file name
-				const nameStart = pos + 46;
-				const fileName = new TextDecoder().decode(
-					this.data.slice(nameStart, nameStart + fileNameLength)
-				);
+	/**
+	 * Parse every central directory entry (cached)
+	 */
+	private readCentralDirectory(): ZipEntry[] {
+		if (this.entries) {
+			return this.entries;
+		}
 
-				if (fileName === targetFileName) {
-					// Found the target file, now extract it
-					return this.extractFromLocalHeader(localHeaderOffset);
+		const { offset, entryCount } = this.readDirectoryLocation();
+		const decoder = new TextDecoder();
+		const entries: ZipEntry[] = [];
+		let pos = offset;
+
+		for (let i = 0; i < entryCount; i++) {
+			if (pos + 46 > this.data.length || this.view.getUint32(pos, true) !== 0x02014b50) {
+				throw new Error('Invalid central directory entry signature');
+			}
+
+			const flags = this.view.getUint16(pos + 8, true);
+			const fileNameLength = this.view.getUint16(pos + 28, true);
+			const extraFieldLength = this.view.getUint16(pos + 30, true);
+			const fileCommentLength = this.view.getUint16(pos + 32, true);
+
+			const nameStart = pos + 46;
+			const entry: ZipEntry = {
+				fileName: decoder.decode(this.data.subarray(nameStart, nameStart + fileNameLength)),
+				compressionMethod: this.view.getUint16(pos + 10, true),
+				crc32: this.view.getUint32(pos + 16, true),
+				compressedSize: this.view.getUint32(pos + 20, true),
+				uncompressedSize: this.view.getUint32(pos + 24, true),
+				localHeaderOffset: this.view.getUint32(pos + 42, true),
+				encrypted: (flags & 0x0001) !== 0,
+			};
+			let diskStart = this.view.getUint16(pos + 34, true);
+
+			// ZIP64 extended information: only fields whose header value is the
+			// sentinel are present, in a fixed order
+			const extraStart = nameStart + fileNameLength;
+			const extraEnd = extraStart + extraFieldLength;
+			for (let extraPos = extraStart; extraPos + 4 <= extraEnd; ) {
+				const headerId = this.view.getUint16(extraPos, true);
+				const size = this.view.getUint16(extraPos + 2, true);
+				if (headerId === 0x0001) {
+					let fieldPos = extraPos + 4;
+					if (entry.uncompressedSize === ZIP64_MARKER_32) {
+						entry.uncompressedSize = this.getUint64(fieldPos);
+						fieldPos += 8;
+					}
+					if (entry.compressedSize === ZIP64_MARKER_32) {
+						entry.compressedSize = this.getUint64(fieldPos);
+						fieldPos += 8;
+					}
+					if (entry.localHeaderOffset === ZIP64_MARKER_32) {
+						entry.localHeaderOffset = this.getUint64(fieldPos);
+						fieldPos += 8;
+					}
+					if (diskStart === ZIP64_MARKER_16) {
+						diskStart = this.view.getUint32(fieldPos, true);
+					}
 				}
+				extraPos += 4 + size;
+			}
 
-				// Move to next entry
-				pos += 46 + fileNameLength + extraFieldLength + fileCommentLength;
+			if (diskStart !== 0) {
+				throw new Error(
+					`Multi-disk ZIP archives are not supported ('${entry.fileName}' starts on disk ${diskStart})`
+				);
 			}
 
-			log('warn', 'File not found in ZIP', { targetFileName });
-			return null;
-		} catch (error) {
-			log('error', 'Error extracting file from ZIP', {
-				error: error instanceof Error ? error.message : String(error),
-			});
-			return null;
+			entries.push(entry);
+			pos = extraEnd + fileCommentLength;
 		}
+
+		this.entries = entries;
+		return entries;
 	}
 
 	/**
-	 * Extract file data from local header
+	 * Extract a specific file from the ZIP as UTF-8 text
+	 * Decompressed output is decoded chunk by chunk rather than collected into a
+	 * single buffer, and its CRC-32 is checked against the central directory.
 	 */
-	private extractFromLocalHeader(offset: number): Uint8Array | null {
-		try {
-			const signature = this.view.getUint32(offset, true);
-			if (signature !== 0x04034b50) {
-				log('error', 'Invalid local file header signature');
-				return null;
-			}
+	async extractFile(targetFileName: string): Promise<ExtractedFile | null> {
+		const entry = this.readCentralDirectory().find((e) => e.fileName === targetFileName);
+		if (!entry) {
+			log('warn', 'File not found in ZIP', { targetFileName });
+			return null;
+		}
 
-			const compressionMethod = this.view.getUint16(offset + 8, true);
-			const compressedSize = this.view.getUint32(offset + 18, true);
-			const fileNameLength = this.view.getUint16(offset + 26, true);
-			const extraFieldLength = this.view.getUint16(offset + 28, true);
-
-			// Calculate data offset
-			const dataOffset = offset + 30 + fileNameLength + extraFieldLength;
-			const fileData = this.data.slice(dataOffset, dataOffset + compressedSize);
-
-			// Check compression method
-			if (compressionMethod === 0) {
-				// Stored (no compression)
-				return fileData;
-			} else if (compressionMethod === 8) {
-				// Deflate compression detected
-				// NOTE: This implementation does not support deflate decompression.
-				// For production use with compressed files, consider adding a decompression library
-				// such as pako or fflate to properly decompress deflate-compressed data.
-				// Returning null as compressed data cannot be used without decompression.
-				log('error', 'Deflate compression not supported - decompression library required', {
-					compressionMethod,
-				});
-				return null;
-			} else {
-				log('error', 'Unsupported compression method', { compressionMethod });
-				return null;
-			}
-		} catch (error) {
-			log('error', 'Error extracting from local header', {
-				error: error instanceof Error ? error.message : String(error),
-			});
+		if (entry.encrypted) {
+			throw new Error(`Encrypted ZIP entry '${targetFileName}' is not supported`);
+		}
+
+		const stream = this.openEntryStream(entry);
+		if (!stream) {
 			return null;
 		}
-	}
 
-	/**
-	 * List all files in the ZIP
-	 */
-	listFiles(): string[] {
-		const files: string[] = [];
-		try {
-			const eocdPos = this.findEndOfCentralDirectory();
-			if (eocdPos === null) {
-				return files;
-			}
+		const decoder = new TextDecoder('utf-8');
+		const parts: string[] = [];
+		let crc = 0xffffffff;
+		let uncompressedSize = 0;
 
-			const cdOffset = this.view.getUint32(eocdPos + 16, true);
-			const cdEntries = this.view.getUint16(eocdPos + 10, true);
+		const reader = stream.getReader();
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			crc = updateCrc32(crc, value);
+			uncompressedSize += value.length;
+			parts.push(decoder.decode(value, { stream: true }));
+		}
+		parts.push(decoder.decode());
 
-			let pos = cdOffset;
+		const actualCrc = (crc ^ 0xffffffff) >>> 0;
+		if (actualCrc !== entry.crc32) {
+			throw new Error(
+				`CRC-32 mismatch for '${targetFileName}': expected ${entry.crc32.toString(16)}, got ${actualCrc.toString(16)}`
+			);
+		}
 
-			for (let i = 0; i < cdEntries; i++) {
-				const signature = this.view.getUint32(pos, true);
-				if (signature !== 0x02014b50) {
-					break;
-				}
+		if (uncompressedSize !== entry.uncompressedSize) {
+			throw new Error(
+				`Size mismatch for '${targetFileName}': expected ${entry.uncompressedSize} bytes, got ${uncompressedSize}`
+			);
+		}
 
-				const fileNameLength = this.view.getUint16(pos + 28, true);
-				const extraFieldLength = this.view.getUint16(pos + 30, true);
-				const fileCommentLength = this.view.getUint16(pos + 32, true);
+		return {
+			fileName: targetFileName,
+			content: parts.join(''),
+			compressedSize: entry.compressedSize,
+			uncompressedSize,
+		};
+	}
 
-				const nameStart = pos + 46;
-				const fileName = new TextDecoder().decode(
-					this.data.slice(nameStart, nameStart + fileNameLength)
-				);
+	/**
+	 * Open a stream of decompressed bytes for an entry
+	 * The local header is only used to find where the data starts; its size
+	 * fields are zero for entries written with a data descriptor.
+	 */
+	private openEntryStream(entry: ZipEntry): ReadableStream<Uint8Array> | null {
+		const offset = entry.localHeaderOffset;
+		if (offset + 30 > this.data.length || this.view.getUint32(offset, true) !== 0x04034b50) {
+			log('error', 'Invalid local file header signature');
+			return null;
+		}
 
-				files.push(fileName);
+		const fileNameLength = this.view.getUint16(offset + 26, true);
+		const extraFieldLength = this.view.getUint16(offset + 28, true);
 
-				pos += 46 + fileNameLength + extraFieldLength + fileCommentLength;
-			}
-		} catch (error) {
-			log('error', 'Error listing ZIP files', {
-				error: error instanceof Error ? error.message : String(error),
-			});
+		// Calculate data offset
+		const dataOffset = offset + 30 + fileNameLength + extraFieldLength;
+		if (dataOffset + entry.compressedSize > this.data.length) {
+			throw new Error(`ZIP entry '${entry.fileName}' extends past the end of the archive`);
 		}
-		return files;
+		const fileData = this.data.subarray(dataOffset, dataOffset + entry.compressedSize);
+
+		// Check compression method
+		if (entry.compressionMethod === 0) {
+			// Stored (no compression)
+			return chunkedStream(fileData);
+		} else if (entry.compressionMethod === 8) {
+			// Deflate: raw DEFLATE stream without zlib header
+			return chunkedStream(fileData).pipeThrough(
+				new DecompressionStream('deflate-raw')
+			) as ReadableStream<Uint8Array>;
+		}
+
+		log('error', 'Unsupported compression method', {
+			compressionMethod: entry.compressionMethod,
+		});
+		return null;
+	}
+
+	/**
+	 * List all files in the ZIP
+	 * Throws when the archive structure cannot be read or spans several disks.
+	 */
+	listFiles(): string[] {
+		return this.readCentralDirectory().map((entry) => entry.fileName);
 	}
 }
 
 /**
- * Extract target file from ZIP data
+ * Extract target file(s) from ZIP data
+ * When several files are configured they are joined into one record per callsign.
  */
 export async function extractFromZip(
 	env: Env,
@@ -188,8 +361,11 @@ export async function extractFromZip(
 ): Promise<ExtractionResult> {
 	const startTime = Date.now();
 	const targetFileName = config.dataSource.extractedFileName;
+	const sourceFiles = getSourceFiles(config);
 
-	log('info', 'Starting file extraction from ZIP', { targetFileName });
+	log('info', 'Starting file extraction from ZIP', {
+		targetFiles: sourceFiles.map((f) => f.fileName),
+	});
 
 	try {
 		const extractor = new SimpleZipExtractor(zipData);
@@ -198,54 +374,96 @@ export async function extractFromZip(
 		const files = extractor.listFiles();
 		log('info', 'Files found in ZIP', { files, count: files.length });
 
-		// Extract target file
-		const fileData = extractor.extractFile(targetFileName);
-
-		if (!fileData) {
-			const duration = Date.now() - startTime;
-			const result: ExtractionResult = {
-				success: false,
-				error: `Target file '${targetFileName}' not found in ZIP`,
-				metadata: {
-					fileName: targetFileName,
-					timestamp: new Date().toISOString(),
-				},
-			};
+		// Extract each configured file
+		const contents: Record<string, string> = {};
+		const fileMetadata: Array<{ fileName: string; size: number; compressedSize: number }> = [];
+		let totalSize = 0;
+		let totalCompressedSize = 0;
+
+		for (const sourceFile of sourceFiles) {
+			const extracted = await extractor.extractFile(sourceFile.fileName);
+
+			if (!extracted) {
+				if (sourceFile.required === false) {
+					log('warn', 'Optional file not found in ZIP, skipping', {
+						fileName: sourceFile.fileName,
+					});
+					continue;
+				}
+
+				const duration = Date.now() - startTime;
+				const result: ExtractionResult = {
+					success: false,
+					error: `Target file '${sourceFile.fileName}' not found in ZIP`,
+					metadata: {
+						fileName: sourceFile.fileName,
+						timestamp: new Date().toISOString(),
+					},
+				};
+
+				await logExtractionEvent(env, 'failure', {
+					message: `File '${sourceFile.fileName}' not found in ZIP`,
+					duration,
+					metadata: { availableFiles: files },
+				});
+
+				return result;
+			}
 
-			await logExtractionEvent(env, 'failure', {
-				message: `File '${targetFileName}' not found in ZIP`,
-				duration,
-				metadata: { availableFiles: files },
+			contents[sourceFile.fileName] = extracted.content;
+			fileMetadata.push({
+				fileName: sourceFile.fileName,
+				size: extracted.uncompressedSize,
+				compressedSize: extracted.compressedSize,
 			});
+			totalSize += extracted.uncompressedSize;
+			totalCompressedSize += extracted.compressedSize;
+		}
+
+		let content: string;
+		let joinedRecords: number | undefined;
 
-			return result;
+		if (isMultiFileSource(config)) {
+			const joined = joinSourceFiles(contents, config);
+			content = joined.content;
+			joinedRecords = joined.recordCount;
+		} else {
+			content = contents[targetFileName];
 		}
 
-		// Decode as UTF-8 text
-		const content = new TextDecoder('utf-8').decode(fileData);
 		const duration = Date.now() - startTime;
 
 		const result: ExtractionResult = {
 			success: true,
 			content,
+			files: isMultiFileSource(config) ? contents : undefined,
 			metadata: {
 				fileName: targetFileName,
 				timestamp: new Date().toISOString(),
-				size: fileData.length,
+				size: totalSize,
+				compressedSize: totalCompressedSize,
+				uncompressedSize: totalSize,
 				encoding: 'utf-8',
+				files: fileMetadata,
+				joinedRecords,
 			},
 		};
 
-		log('info', 'Successfully extracted file from ZIP', {
+		log('info', 'Successfully extracted file(s) from ZIP', {
 			fileName: targetFileName,
-			size: fileData.length,
+			files: fileMetadata,
+			compressedSize: totalCompressedSize,
+			uncompressedSize: totalSize,
+			joinedRecords,
 			duration,
 		});
 
 		await logExtractionEvent(env, 'success', {
-			message: `File '${targetFileName}' extracted successfully`,
+			message: `Extracted ${fileMetadata.length} file(s) successfully`,
 			duration,
-			dataSize: fileData.length,
+			dataSize: totalSize,
+			recordCount: joinedRecords,
+			metadata: { files: fileMetadata },
 		});
 
 		return result;
@@ -277,6 +495,15 @@ export async function extractFromZip(
 	}
 }
 
+/**
+ * List the files in a ZIP archive
+ * Unlike validateFilePresence this throws, so malformed or multi-disk archives
+ * surface their own error message.
+ */
+export function listZipFiles(zipData: ArrayBuffer): string[] {
+	return new SimpleZipExtractor(zipData).listFiles();
+}
+
 /**
  * Validate file presence in ZIP before extraction
  */
@@ -0,0 +1,149 @@
+/**
+ * Maidenhead locators and great-circle paths
+ */
+
+/**
+ * Mean Earth radius used for distances
+ */
+export const EARTH_RADIUS_KM = 6371;
+
+const KM_PER_MILE = 1.609344;
+
+// 2, 4, 6 or 8 character locators: field, square, subsquare, extended square
+const GRID_PATTERN = /^[A-R]{2}(?:[0-9]{2}(?:[A-X]{2}(?:[0-9]{2})?)?)?$/i;
+
+/**
+ * A point in degrees, north and east positive
+ */
+export interface LatLon {
+	latitude: number;
+	longitude: number;
+}
+
+/**
+ * Distance and bearings between two points
+ */
+export interface GreatCirclePath {
+	distanceKm: number;
+	distanceMi: number;
+	longPathKm: number;
+	longPathMi: number;
+	// Degrees clockwise from true north
+	shortPathBearing: number;
+	longPathBearing: number;
+}
+
+/**
+ * Check whether a string is a 2, 4, 6 or 8 character Maidenhead locator
+ */
+export function isValidGrid(grid: string): boolean {
+	return GRID_PATTERN.test(grid);
+}
+
+/**
+ * Normalize a locator to the usual mixed case: FN31pr
+ */
+export function formatGrid(grid: string): string {
+	return grid.substring(0, 4).toUpperCase() + grid.substring(4, 6).toLowerCase() + grid.substring(6);
+}
+
+/**
+ * Maidenhead locator of a point
+ */
+export function latLonToGrid(point: LatLon, precision: 2 | 4 | 6 | 8 = 6): string {
+	// Keep the poles and the antimeridian inside the last field
+	const lon = Math.min(Math.max(point.longitude + 180, 0), 359.999999);
+	const lat = Math.min(Math.max(point.latitude + 90, 0), 179.999999);
+
+	let grid =
+		String.fromCharCode(65 + Math.floor(lon / 20)) + String.fromCharCode(65 + Math.floor(lat / 10));
+	if (precision >= 4) {
+		grid += `${Math.floor((lon % 20) / 2)}${Math.floor(lat % 10)}`;
+	}
+	if (precision >= 6) {
+		grid +=
+			String.fromCharCode(97 + Math.floor((lon % 2) * 12)) +
+			String.fromCharCode(97 + Math.floor((lat % 1) * 24));
+	}
+	if (precision >= 8) {
+		grid += `${Math.floor(((lon % 2) * 120) % 10)}${Math.floor(((lat % 1) * 240) % 10)}`;
+	}
+	return grid;
+}
+
+/**
+ * Centre of a Maidenhead locator
+ * Returns null when the locator is invalid.
+ */
+export function gridToLatLon(grid: string): LatLon | null {
+	if (!isValidGrid(grid)) {
+		return null;
+	}
+	const g = grid.toUpperCase();
+
+	let lon = (g.charCodeAt(0) - 65) * 20;
+	let lat = (g.charCodeAt(1) - 65) * 10;
+	let lonSize = 20;
+	let latSize = 10;
+
+	if (g.length >= 4) {
+		lon += Number(g[2]) * 2;
+		lat += Number(g[3]);
+		lonSize = 2;
+		latSize = 1;
+	}
+	if (g.length >= 6) {
+		lon += ((g.charCodeAt(4) - 65) * 2) / 24;
+		lat += (g.charCodeAt(5) - 65) / 24;
+		lonSize = 2 / 24;
+		latSize = 1 / 24;
+	}
+	if (g.length >= 8) {
+		lon += (Number(g[6]) * 2) / 240;
+		lat += Number(g[7]) / 240;
+		lonSize = 2 / 240;
+		latSize = 1 / 240;
+	}
+
+	return {
+		latitude: lat - 90 + latSize / 2,
+		longitude: lon - 180 + lonSize / 2,
+	};
+}
+
+/**
+ * Great-circle distance and bearings from one point to another
+ */
+export function greatCirclePath(from: LatLon, to: LatLon): GreatCirclePath {
+	const rad = (deg: number) => (deg * Math.PI) / 180;
+	const phi1 = rad(from.latitude);
+	const phi2 = rad(to.latitude);
+	const deltaPhi = rad(to.latitude - from.latitude);
+	const deltaLambda = rad(to.longitude - from.longitude);
+
+	const a =
+		Math.sin(deltaPhi / 2) ** 2 + Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) ** 2;
+	const distanceKm = 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+	const y = Math.sin(deltaLambda) * Math.cos(phi2);
+	const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda);
+	const bearing = ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+	const longPathKm = 2 * Math.PI * EARTH_RADIUS_KM - distanceKm;
+
+	return {
+		distanceKm: round(distanceKm, 1),
+		distanceMi: round(distanceKm / KM_PER_MILE, 1),
+		longPathKm: round(longPathKm, 1),
+		longPathMi: round(longPathKm / KM_PER_MILE, 1),
+		shortPathBearing: round(bearing, 1),
+		longPathBearing: round((bearing + 180) % 360, 1),
+	};
+}
+
+/**
+ * Round to a number of decimal places
+ */
+export function round(value: number, decimals: number): number {
+	const factor = 10 ** decimals;
+	return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,503 @@
+/**
+ * Callsign history built from the previous-callsign chain and recorded diff events
+ *
+ * AM records name the callsign the licensee held before (previous_callsign) and
+ * their class before the last upgrade (previous_operator_class). Following those
+ * links in both directions gives the callsigns one licensee has held. Each
+ * applied diff also writes its changes to the callsign_events table, one row
+ * per callsign and change, which adds the dates at which this worker saw them.
+ * Diff reports in R2 diffs/ whose events were never written (runs before the
+ * table existed, failed writes) are backfilled, and events older than
+ * HISTORY_EVENT_MAX_AGE_DAYS are pruned.
+ */
+
+import type {
+	Env,
+	CallsignHistory,
+	CallsignHistoryEntry,
+	CallsignHistoryEvent,
+	DataSourceSchema,
+	DiffResult,
+	PatchOperation,
+	StoredCallsignRecord,
+} from '../types';
+import { log } from '../utils';
+import {
+	OPERATOR_CLASS_NAMES,
+	getCallsignRecord,
+	getCallsignSuccessors,
+	getOperationCallsign,
+	mapRecordToCallsignData,
+} from './database';
+import { COMPOSITE_KEY_SEPARATOR, getKeyFields } from './records';
+import { normalizeUlsDate } from './uls';
+
+/**
+ * Most callsigns followed in one history chain
+ */
+export const HISTORY_MAX_CHAIN = 20;
+
+/**
+ * Days recorded events are kept
+ */
+export const HISTORY_EVENT_MAX_AGE_DAYS = 3 * 365;
+
+/**
+ * Most stored diff reports backfilled in one run
+ */
+export const HISTORY_BACKFILL_MAX_REPORTS = 10;
+
+/**
+ * Event rows per INSERT statement (D1 binds at most 100 values per statement)
+ */
+const HISTORY_EVENT_ROWS_PER_STATEMENT = 14;
+
+/**
+ * INSERT statements per D1 batch
+ */
+const HISTORY_EVENT_STATEMENTS_PER_BATCH = 50;
+
+/**
+ * Stored row of the callsign_events table
+ */
+interface CallsignEventRow {
+	callsign: string;
+	data_version: string;
+	date: string;
+	type: CallsignHistoryEvent['type'];
+	from_value: string | null;
+	to_value: string | null;
+	licensee: string | null;
+}
+
+/**
+ * A callsign in the chain and its record, when the record belongs to the licensee
+ */
+interface ChainLink {
+	callsign: string;
+	stored: StoredCallsignRecord | null;
+}
+
+/**
+ * Read a trimmed, non-empty field from a stored record
+ */
+function field(stored: StoredCallsignRecord | null, name: string): string | undefined {
+	const value = stored?.record[name]?.trim();
+	return value ? value : undefined;
+}
+
+/**
+ * Whether two records can belong to the same licensee
+ * Records are only told apart when both carry an FRN.
+ */
+function sameLicensee(a: StoredCallsignRecord, b: StoredCallsignRecord | null): boolean {
+	const frnA = field(a, 'frn');
+	const frnB = field(b, 'frn');
+	return !frnA || !frnB || frnA === frnB;
+}
+
+/**
+ * Full name of an operator class code
+ */
+function className(code: string | undefined): string | undefined {
+	return code ? OPERATOR_CLASS_NAMES[code.toUpperCase()] || code : undefined;
+}
+
+/**
+ * Follow previous_callsign links back from, and forward to, the requested callsign
+ */
+async function walkChain(env: Env, callsign: string): Promise<ChainLink[]> {
+	const chain: ChainLink[] = [{ callsign, stored: await getCallsignRecord(env, callsign) }];
+	const seen = new Set([callsign]);
+
+	// Older callsigns: each record names its predecessor
+	let link = chain[0];
+	while (chain.length < HISTORY_MAX_CHAIN) {
+		const previous = field(link.stored, 'previous_callsign')?.toUpperCase();
+		if (!previous || seen.has(previous)) {
+			break;
+		}
+		seen.add(previous);
+
+		// A reissued callsign's record belongs to its new holder
+		const stored = await getCallsignRecord(env, previous);
+		link = { callsign: previous, stored: stored && sameLicensee(stored, link.stored) ? stored : null };
+		chain.unshift(link);
+	}
+
+	// Newer callsigns: records that name the current one as their predecessor
+	link = chain[chain.length - 1];
+	while (chain.length < HISTORY_MAX_CHAIN) {
+		const current = link;
+		const successors = (await getCallsignSuccessors(env, current.callsign)).filter(
+			(stored) => !seen.has(stored.callsign) && sameLicensee(stored, current.stored)
+		);
+		// Several unrelated licensees may have moved on from a reissued callsign
+		if (successors.length !== 1) {
+			break;
+		}
+		seen.add(successors[0].callsign);
+
+		link = { callsign: successors[0].callsign, stored: successors[0] };
+		chain.push(link);
+	}
+
+	return chain;
+}
+
+/**
+ * Events described by a record's own dates and previous-callsign fields
+ */
+function recordEvents(link: ChainLink): CallsignHistoryEvent[] {
+	if (!link.stored) {
+		return [];
+	}
+
+	const data = mapRecordToCallsignData(link.stored);
+	const events: CallsignHistoryEvent[] = [];
+
+	if (data.previous_callsign) {
+		const reason =
+			field(link.stored, 'vanity_callsign_change') === 'Y'
+				? 'vanity'
+				: field(link.stored, 'systematic_callsign_change') === 'Y'
+					? 'systematic'
+					: undefined;
+		events.push({
+			type: 'callsign_change',
+			callsign: link.callsign,
+			date: data.grant_date,
+			from: data.previous_callsign,
+			to: link.callsign,
+			reason,
+			source: 'record',
+		});
+	} else if (data.grant_date) {
+		events.push({
+			type: 'granted',
+			callsign: link.callsign,
+			date: data.grant_date,
+			to: data.license_class,
+			source: 'record',
+		});
+	}
+
+	if (data.previous_license_class && data.previous_license_class !== data.license_class) {
+		events.push({
+			type: 'class_change',
+			callsign: link.callsign,
+			// The upgrade took effect with the current grant
+			date: normalizeUlsDate(field(link.stored, 'effective_date')),
+			from: data.previous_license_class,
+			to: data.license_class,
+			source: 'record',
+		});
+	}
+
+	return events;
+}
+
+/**
+ * Events a diff recorded for the callsign of one patch operation
+ */
+function operationEvents(diff: DiffResult, operation: PatchOperation): CallsignHistoryEvent[] {
+	const base = {
+		callsign: getOperationCallsign(operation),
+		date: diff.metadata.timestamp,
+		source: 'diff' as const,
+		data_version: diff.metadata.newVersion,
+	};
+
+	if (operation.type === 'insert') {
+		return [{ ...base, type: 'added' }];
+	}
+	if (operation.type === 'delete') {
+		return [{ ...base, type: 'deleted' }];
+	}
+
+	const changes = diff.fieldChanges?.[operation.key] || {};
+	const events: CallsignHistoryEvent[] = [];
+	if (changes.operator_class) {
+		events.push({
+			...base,
+			type: 'class_change',
+			from: className(changes.operator_class.old),
+			to: className(changes.operator_class.new),
+		});
+	}
+	if (changes.license_status) {
+		events.push({
+			...base,
+			type: 'status_change',
+			from: changes.license_status.old || undefined,
+			to: changes.license_status.new || undefined,
+		});
+	}
+	if (changes.previous_callsign?.new) {
+		events.push({
+			...base,
+			type: 'callsign_change',
+			from: changes.previous_callsign.new,
+			to: base.callsign,
+		});
+	}
+
+	return events.length > 0 ? events : [{ ...base, type: 'modified' }];
+}
+
+/**
+ * Data version of the oldest events kept at a given time, in the pipeline's version format
+ */
+function oldestKeptVersion(now: Date): string {
+	return new Date(now.getTime() - HISTORY_EVENT_MAX_AGE_DAYS * 86400000).toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Write the events of a diff to callsign_events
+ * Each row carries the unique system identifier of its record, when known, so
+ * the events of a reissued callsign stay with the license they belong to.
+ */
+async function insertHistoryEvents(db: D1Database, diff: DiffResult, operations: PatchOperation[]): Promise<number> {
+	const rows = operations.flatMap((operation) =>
+		operationEvents(diff, operation).map((event) => ({
+			event,
+			licensee: operation.record.unique_system_identifier?.trim() || null,
+		}))
+	);
+	const statements: D1PreparedStatement[] = [];
+	for (let i = 0; i < rows.length; i += HISTORY_EVENT_ROWS_PER_STATEMENT) {
+		const chunk = rows.slice(i, i + HISTORY_EVENT_ROWS_PER_STATEMENT);
+		statements.push(
+			db.prepare(
+				`INSERT INTO callsign_events (callsign, data_version, date, type, from_value, to_value, licensee)
+				 VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}`
+			).bind(
+				...chunk.flatMap(({ event, licensee }) => [
+					event.callsign,
+					event.data_version!,
+					event.date!,
+					event.type,
+					event.from ?? null,
+					event.to ?? null,
+					licensee,
+				])
+			)
+		);
+	}
+	for (let i = 0; i < statements.length; i += HISTORY_EVENT_STATEMENTS_PER_BATCH) {
+		await db.batch(statements.slice(i, i + HISTORY_EVENT_STATEMENTS_PER_BATCH));
+	}
+	return rows.length;
+}
+
+/**
+ * Record the events of an applied diff in callsign_events and prune expired ones
+ * Initial loads list every record as added and say nothing about history, so
+ * diffs without a previous version are skipped.
+ */
+export async function recordHistoryEvents(
+	env: Env,
+	diff: DiffResult,
+	operations: PatchOperation[],
+	now: Date = new Date()
+): Promise<boolean> {
+	if (!env.CALLSIGN_DB || !diff.metadata.oldVersion || operations.length === 0) {
+		return false;
+	}
+
+	try {
+		const events = await insertHistoryEvents(env.CALLSIGN_DB, diff, operations);
+		await env.CALLSIGN_DB.prepare(`DELETE FROM callsign_events WHERE data_version < ?`)
+			.bind(oldestKeptVersion(now))
+			.run();
+
+		log('info', 'Recorded callsign history events', {
+			version: diff.metadata.newVersion,
+			events,
+		});
+		return true;
+	} catch (error) {
+		log('error', 'Failed to record callsign history events', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Key of the diff report a pipeline run stores for a data version
+ */
+const DIFF_REPORT_KEY = /^diffs\/diff-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.json$/;
+
+/**
+ * Record the events of stored diff reports whose changes are not in callsign_events yet
+ * Every report is checked once and listed in callsign_event_reports. Reports
+ * only hold record keys, so the callsign and unique system identifier are read
+ * back from the key fields; keys without a callsign are not backfilled. At most
+ * HISTORY_BACKFILL_MAX_REPORTS reports are read per run, oldest first.
+ */
+export async function backfillHistoryEvents(
+	env: Env,
+	schema: DataSourceSchema,
+	now: Date = new Date()
+): Promise<boolean> {
+	if (!env.CALLSIGN_DB || !env.DATA_EXPORTS) {
+		return false;
+	}
+
+	const keyFields = getKeyFields(schema);
+	if (!keyFields.includes('callsign')) {
+		log('info', 'Skipping history backfill: record keys do not include the callsign', { keyFields });
+		return true;
+	}
+
+	try {
+		const db = env.CALLSIGN_DB;
+		const checked = await db.prepare(`SELECT report FROM callsign_event_reports`).all<{ report: string }>();
+		const seen = new Set((checked.results || []).map((row) => row.report));
+
+		const pending: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const listed = await env.DATA_EXPORTS.list({ prefix: 'diffs/', cursor });
+			pending.push(...listed.objects.map((object) => object.key).filter((key) => !seen.has(key)));
+			cursor = listed.truncated ? listed.cursor : undefined;
+		} while (cursor);
+		if (pending.length === 0) {
+			return true;
+		}
+
+		const oldest = oldestKeptVersion(now);
+		const recorded = await db.prepare(`SELECT DISTINCT data_version FROM callsign_events WHERE data_version >= ?`)
+			.bind(oldest)
+			.all<{ data_version: string }>();
+		const versions = new Set((recorded.results || []).map((row) => row.data_version));
+
+		let read = 0;
+		for (const key of pending.sort()) {
+			// Other files under diffs/, expired reports and those already recorded are only marked
+			const version = key.match(DIFF_REPORT_KEY)?.[1];
+			if (version && version >= oldest && !versions.has(version)) {
+				if (read === HISTORY_BACKFILL_MAX_REPORTS) {
+					break;
+				}
+				read++;
+				const diff = await (await env.DATA_EXPORTS.get(key))?.json<DiffResult>();
+				// Initial loads and runs without changes hold no events
+				if (diff?.hasChanges && diff.metadata.oldVersion) {
+					const operation = (type: PatchOperation['type'], recordKey: string): PatchOperation => {
+						const parts = recordKey.split(COMPOSITE_KEY_SEPARATOR);
+						return {
+							type,
+							key: recordKey,
+							record: Object.fromEntries(keyFields.map((name, i) => [name, parts[i]])),
+						};
+					};
+					await insertHistoryEvents(db, diff, [
+						...diff.added.map((recordKey) => operation('insert', recordKey)),
+						...diff.modified.map((recordKey) => operation('update', recordKey)),
+						...diff.deleted.map((recordKey) => operation('delete', recordKey)),
+					]);
+				}
+			}
+			await db.prepare(`INSERT OR IGNORE INTO callsign_event_reports (report) VALUES (?)`).bind(key).run();
+		}
+
+		if (read > 0) {
+			log('info', 'Backfilled callsign history events from diff reports', { reports: read });
+		}
+		return true;
+	} catch (error) {
+		log('error', 'Failed to backfill callsign history events', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Recorded diff events of the callsigns in a chain, oldest first
+ * When the chain's licenses are known, events of other licenses (the holders
+ * of a reissued callsign) are left out.
+ */
+async function readHistoryEvents(env: Env, callsigns: string[], licensees: string[]): Promise<CallsignHistoryEvent[]> {
+	const licenseeFilter =
+		licensees.length > 0 ? `AND (licensee IS NULL OR licensee IN (${licensees.map(() => '?').join(', ')}))` : '';
+	const result = await env.CALLSIGN_DB!.prepare(
+		`SELECT callsign, data_version, date, type, from_value, to_value, licensee FROM callsign_events
+		 WHERE callsign IN (${callsigns.map(() => '?').join(', ')}) ${licenseeFilter}
+		 ORDER BY date, rowid`
+	)
+		.bind(...callsigns, ...licensees)
+		.all<CallsignEventRow>();
+
+	return (result.results || []).map((row) => {
+		const event: CallsignHistoryEvent = {
+			type: row.type,
+			callsign: row.callsign,
+			date: row.date,
+			source: 'diff',
+			data_version: row.data_version,
+		};
+		if (row.from_value !== null) {
+			event.from = row.from_value;
+		}
+		if (row.to_value !== null) {
+			event.to = row.to_value;
+		}
+		return event;
+	});
+}
+
+/**
+ * Build the callsign history of the licensee holding (or who held) a callsign
+ * Returns null when neither the records nor the recorded events know the callsign.
+ * Throws on database errors.
+ */
+export async function buildCallsignHistory(
+	env: Env,
+	callsign: string
+): Promise<CallsignHistory | null> {
+	const chain = await walkChain(env, callsign);
+	const licensees = [
+		...new Set(chain.map((link) => field(link.stored, 'unique_system_identifier')).filter((value) => value !== undefined)),
+	];
+	const timeline: CallsignHistoryEvent[] = [
+		...chain.flatMap(recordEvents),
+		...(await readHistoryEvents(env, chain.map((link) => link.callsign), licensees)),
+	];
+
+	if (timeline.length === 0 && chain.every((link) => !link.stored)) {
+		return null;
+	}
+
+	// Oldest first; events without a known date go last
+	timeline.sort((a, b) => {
+		if (!a.date || !b.date) {
+			return a.date ? -1 : b.date ? 1 : 0;
+		}
+		return a.date.localeCompare(b.date);
+	});
+
+	const entries: CallsignHistoryEntry[] = chain.map((link) => {
+		if (!link.stored) {
+			return { callsign: link.callsign, on_file: false };
+		}
+		const data = mapRecordToCallsignData(link.stored);
+		return {
+			callsign: link.callsign,
+			on_file: true,
+			license_class: data.license_class,
+			license_status: data.license_status,
+			grant_date: data.grant_date,
+			expiration_date: data.expiration_date,
+			cancellation_date: data.cancellation_date,
+		};
+	});
+
+	return {
+		callsign,
+		chain: entries,
+		timeline,
+	};
+}
@@ -10,7 +10,7 @@ import {
 	fetchZipFromOrigin,
 	updateLastFetchTimestamp,
 } from './fetch';
-import { extractFromZip, validateFilePresence } from './extract';
+import { extractFromZip, listZipFiles } from './extract';
 import { validateData, calculateHash, storeValidationMetadata } from './validate';
 import {
 	storeLastGoodData,
@@ -29,6 +29,12 @@ import {
 	createDatabaseSnapshot,
 } from './database';
 import { syncToSlaves } from './slave-sync';
+import { updateSequentialTracker } from './sequential';
+import { backfillHistoryEvents, recordHistoryEvents } from './history';
+import { updateClubTrusteeReport } from './clubs';
+import { getRecordSchema, getSourceFiles } from './uls';
+import { publishRelease } from './releases';
+import { publishOfflineIndex } from './offline-index';
 
 /**
  * Result of the full processing workflow
@@ -126,18 +132,31 @@ export async function executeDataPipeline(
 			return createFailureResult(startTime, errors, warnings);
 		}
 
-		// Step 4: Validate file presence in ZIP
+		// Step 4: Validate presence of required files in ZIP
 		log('info', 'Validating file presence in ZIP');
-		const targetFile = config.data.dataSource.extractedFileName;
-		const filePresent = validateFilePresence(fetchResult.data, targetFile);
+		const targetFiles = getSourceFiles(config.data)
+			.filter((f) => f.required !== false)
+			.map((f) => f.fileName);
+		let availableFiles: string[];
+		try {
+			availableFiles = listZipFiles(fetchResult.data);
+		} catch (error) {
+			errors.push(
+				`Unreadable ZIP archive: ${error instanceof Error ? error.message : String(error)}`
+			);
+			return createFailureResult(startTime, errors, warnings);
+		}
+		const missingFiles = targetFiles.filter((fileName) => !availableFiles.includes(fileName));
 
-		if (!filePresent) {
-			errors.push(`Target file '${targetFile}' not found in ZIP`);
+		if (missingFiles.length > 0) {
+			for (const fileName of missingFiles) {
+				errors.push(`Target file '${fileName}' not found in ZIP`);
+			}
 			return createFailureResult(startTime, errors, warnings);
 		}
 
-		// Step 5: Extract file from ZIP
-		log('info', 'Extracting file from ZIP', { targetFile });
+		// Step 5: Extract file(s) from ZIP
+		log('info', 'Extracting files from ZIP', { targetFiles });
 		const extractResult = await extractFromZip(env, fetchResult.data, config.data);
 
 		if (!extractResult.success || !extractResult.content) {
@@ -152,7 +171,9 @@ export async function executeDataPipeline(
 			validationResult = await validateData(
 				env,
 				extractResult.content,
-				config.data
+				config.data,
+				undefined,
+				extractResult.files
 			);
 
 			// Store validation metadata
@@ -213,7 +234,8 @@ export async function executeDataPipeline(
 		const version = new Date().toISOString().replace(/[:.]/g, '-');
 		
 		// Use record count from validation if available, otherwise calculate
-		const recordCount = validationResult?.metadata.recordCount ?? 
+		const recordCount = validationResult?.metadata.recordCount ??
+			extractResult.metadata.joinedRecords ??
 			extractResult.content.split('\n').filter(l => l.trim()).length - 1;
 
 		log('info', 'Calculating diff with previous data');
@@ -234,6 +256,16 @@ export async function executeDataPipeline(
 		let slavesSynced = false;
 		let slaveSyncResult: AggregateSyncResult | undefined;
 		
+		// Patch operations feed both D1 and the published release
+		const operations = diff.hasChanges
+			? createPatchOperations(
+				extractResult.content,
+				lastData?.content || null,
+				diff,
+				config.data
+			)
+			: [];
+
 		if (env.CALLSIGN_DB && diff.hasChanges) {
 			log('info', 'Applying database patches', {
 				added: diff.summary.addedCount,
@@ -244,14 +276,6 @@ export async function executeDataPipeline(
 			// Initialize database if needed
 			await initializeDatabase(env);
 
-			// Create patch operations
-			const operations = createPatchOperations(
-				extractResult.content,
-				lastData?.content || null,
-				diff,
-				config.data
-			);
-
 			// Apply patches
 			const patchResult = await applyPatchOperations(env, operations);
 
@@ -260,6 +284,12 @@ export async function executeDataPipeline(
 				log('info', 'Database patches applied successfully', {
 					operationsApplied: patchResult.appliedCount,
 				});
+
+				// Record how far sequential issuing has got before the added keys are dropped
+				await updateSequentialTracker(env, diff, operations);
+				if (diff.metadata.oldVersion && !(await recordHistoryEvents(env, diff, operations))) {
+					warnings.push('Failed to record callsign history events');
+				}
 				
 				// Step 8a: Sync to slave endpoints after successful master update
 				log('info', 'Propagating updates to slave endpoints');
@@ -282,8 +312,9 @@ export async function executeDataPipeline(
 		}
 
 		// Step 9: Store as new last good data
+		// Unchanged data keeps its version, so the next release's patch chains to the last one
 		const fallbackMetadata: FallbackMetadata = {
-			version,
+			version: diff.hasChanges || !lastData ? version : lastData.version,
 			timestamp: new Date().toISOString(),
 			hash,
 			recordCount,
@@ -298,6 +329,45 @@ export async function executeDataPipeline(
 			await createDatabaseSnapshot(env, version, recordCount, hash, dataPath);
 		}
 
+		// Step 10: Publish a versioned release of the changed dataset for mirrors
+		if (env.DATA_EXPORTS && diff.hasChanges && config.data.releases?.enabled !== false) {
+			const manifest = await publishRelease(
+				env,
+				{
+					version,
+					content: extractResult.content,
+					hash,
+					recordCount,
+					schema: getRecordSchema(config.data),
+					diff,
+					operations,
+				},
+				config.data.releases
+			);
+			if (!manifest) {
+				warnings.push(`Failed to publish release ${version}`);
+			}
+		}
+
+		// Rebuild the offline index for the new data version (a no-op if it is current)
+		if (env.CALLSIGN_DB && env.DATA_EXPORTS) {
+			if (!(await publishOfflineIndex(env))) {
+				warnings.push('Failed to publish the offline index');
+			}
+		}
+
+		// Diff reports stored before their events were recorded, or whose recording failed
+		if (env.CALLSIGN_DB && env.DATA_EXPORTS) {
+			if (!(await backfillHistoryEvents(env, getRecordSchema(config.data)))) {
+				warnings.push('Failed to backfill callsign history events');
+			}
+		}
+
+		// Trustee licenses also lapse by date, so rebuild the club report on every run
+		if (env.CALLSIGN_DB) {
+			await updateClubTrusteeReport(env, version);
+		}
+
 		// Store processing metadata
 		await storeMetadata(env, `processing-${version}`, {
 			version,
@@ -0,0 +1,107 @@
+/**
+ * Licensee profiles by FCC Registration Number and ULS identifiers
+ *
+ * Individuals change callsigns and clubs hold several, but the FRN stays with
+ * the entity. A profile gathers every stored license carrying the same FRN and
+ * the club stations whose trustee is one of those callsigns. Lookups by unique
+ * system identifier or file number resolve to the FRN of that license first.
+ */
+
+import type {
+	Env,
+	CallsignData,
+	LicenseeIdentifier,
+	LicenseeLicense,
+	LicenseeProfile,
+	StoredCallsignRecord,
+} from '../types';
+import { RECORD_FIELD_EXPRESSIONS, findCallsignRecords, mapRecordToCallsignData } from './database';
+
+/**
+ * Most licenses, and most trustee club stations, listed in one profile
+ */
+export const LICENSEE_MAX_LICENSES = 50;
+
+const IDENTIFIER_FIELDS: Record<LicenseeIdentifier, keyof typeof RECORD_FIELD_EXPRESSIONS> = {
+	frn: 'frn',
+	unique_system_identifier: 'uniqueSystemIdentifier',
+	uls_file_number: 'ulsFileNumber',
+};
+
+/**
+ * Normalize an identifier to the form ULS stores it in
+ * FRNs and file numbers are zero-padded to 10 digits, unique system
+ * identifiers carry no padding. Returns null when the value is not an identifier.
+ */
+export function normalizeLicenseeIdentifier(type: LicenseeIdentifier, value: string): string | null {
+	const digits = value.trim();
+	if (!/^[0-9]{1,10}$/.test(digits)) {
+		return null;
+	}
+	if (type === 'unique_system_identifier') {
+		const trimmed = digits.replace(/^0+/, '');
+		return trimmed || null;
+	}
+	return /^0+$/.test(digits) ? null : digits.padStart(10, '0');
+}
+
+/**
+ * Map a stored record onto a profile license, keeping its ULS identifiers
+ */
+function toLicense(stored: StoredCallsignRecord): LicenseeLicense {
+	const license: LicenseeLicense = mapRecordToCallsignData(stored);
+	const usi = stored.record.unique_system_identifier?.trim();
+	const fileNumber = stored.record.uls_file_number?.trim();
+	if (usi) {
+		license.unique_system_identifier = usi;
+	}
+	if (fileNumber) {
+		license.uls_file_number = fileNumber;
+	}
+	return license;
+}
+
+/**
+ * Build the profile of the entity an identifier belongs to
+ * Returns null when no stored license carries the identifier. Throws on
+ * database errors.
+ */
+export async function buildLicenseeProfile(
+	env: Env,
+	type: LicenseeIdentifier,
+	value: string
+): Promise<LicenseeProfile | null> {
+	let matches = await findCallsignRecords(env, IDENTIFIER_FIELDS[type], [value], LICENSEE_MAX_LICENSES + 1);
+	if (matches.length === 0) {
+		return null;
+	}
+
+	const frn = type === 'frn' ? value : matches[0].record.frn?.trim() || undefined;
+	if (type !== 'frn' && frn) {
+		matches = await findCallsignRecords(env, 'frn', [frn], LICENSEE_MAX_LICENSES + 1);
+	}
+
+	const licenses = matches
+		.slice(0, LICENSEE_MAX_LICENSES)
+		.map(toLicense)
+		.sort(
+			(a, b) =>
+				Number(b.license_status === 'A') - Number(a.license_status === 'A') ||
+				a.callsign.localeCompare(b.callsign)
+		);
+	const callsigns = licenses.map((license) => license.callsign);
+
+	const clubs = await findCallsignRecords(env, 'trustee', callsigns, LICENSEE_MAX_LICENSES + 1);
+	const trusteeOf: CallsignData[] = clubs
+		.slice(0, LICENSEE_MAX_LICENSES)
+		.filter((stored) => !callsigns.includes(stored.callsign))
+		.map(mapRecordToCallsignData);
+
+	return {
+		frn,
+		name: licenses[0]?.name,
+		licenses,
+		trustee_of: trusteeOf,
+		truncated: matches.length > LICENSEE_MAX_LICENSES || clubs.length > LICENSEE_MAX_LICENSES,
+	};
+}
@@ -0,0 +1,139 @@
+/**
+ * Radius and grid-square proximity search
+ *
+ * Licensee locations are derived from ZIP codes, so ZIP codes double as
+ * spatial buckets: an area is turned into ranges of the ZIP codes whose ZCTA
+ * point falls inside it, and the search runs on the zip5 expression index
+ * instead of scanning the table. The ranges are a superset of the area, so
+ * each result is checked against the area by its own location.
+ *
+ * Results are approximate: a licensee is where their ZIP code's point is,
+ * which can be several km from their address, and licensees whose ZIP code
+ * has no ZCTA are only found when it sorts between ZCTAs in the area.
+ */
+
+import type { LatLon } from './grid';
+import {
+	formatGrid,
+	greatCirclePath,
+	gridToLatLon,
+	isValidGrid,
+	latLonToGrid,
+	round,
+} from './grid';
+import { findZipRanges } from './zip-centroids';
+
+/**
+ * Smallest radius a nearby search may ask for; ZIP code points are too coarse
+ * to tell smaller distances apart
+ */
+export const NEARBY_MIN_RADIUS_KM = 5;
+
+/**
+ * Largest radius a nearby search may ask for
+ */
+export const NEARBY_MAX_RADIUS_KM = 250;
+
+/**
+ * Most ZIP code ranges one search may cover (two bound parameters each)
+ */
+export const NEARBY_MAX_ZIP_RANGES = 40;
+
+/**
+ * Most pages of candidates read to fill one page of results
+ */
+export const NEARBY_MAX_CANDIDATE_PAGES = 5;
+
+/**
+ * Area of a nearby search
+ */
+export interface NearbyArea {
+	centre: LatLon;
+	// Set for radius searches
+	radiusKm?: number;
+	// Set for searches of a whole grid square
+	grid?: string;
+	zipRanges: Array<[string, string]>;
+}
+
+/**
+ * Parse a number parameter within bounds
+ */
+function parseBounded(value: string, min: number, max: number): number | null {
+	const number = Number(value.trim());
+	return value.trim() !== '' && Number.isFinite(number) && number >= min && number <= max
+		? number
+		: null;
+}
+
+/**
+ * Parse the area parameters of /api/v1/nearby
+ * grid alone selects every licensee located in that square; grid or lat/lon
+ * with radius selects those within radius km of the square's centre or the point.
+ */
+export function parseNearbyArea(params: Record<string, string>): {
+	area?: NearbyArea;
+	error?: string;
+} {
+	const has = (name: string) => params[name] !== undefined && params[name].trim() !== '';
+
+	if (has('grid') && (has('lat') || has('lon'))) {
+		return { error: 'Use either "grid" or "lat" and "lon", not both' };
+	}
+
+	let centre: LatLon;
+	let grid: string | undefined;
+	if (has('grid')) {
+		const value = params.grid.trim();
+		const point = isValidGrid(value) ? gridToLatLon(value) : null;
+		if (!point) {
+			return { error: 'grid must be a 2, 4, 6 or 8 character Maidenhead locator' };
+		}
+		centre = point;
+		grid = formatGrid(value);
+	} else if (has('lat') && has('lon')) {
+		const latitude = parseBounded(params.lat, -90, 90);
+		if (latitude === null) {
+			return { error: 'lat must be a number from -90 to 90' };
+		}
+		const longitude = parseBounded(params.lon, -180, 180);
+		if (longitude === null) {
+			return { error: 'lon must be a number from -180 to 180' };
+		}
+		centre = { latitude, longitude };
+	} else {
+		return { error: 'Nearby search needs "grid", or "lat" and "lon"' };
+	}
+
+	let radiusKm: number | undefined;
+	if (has('radius')) {
+		const radius = parseBounded(params.radius, NEARBY_MIN_RADIUS_KM, NEARBY_MAX_RADIUS_KM);
+		if (radius === null) {
+			return {
+				error: `radius must be a number of km from ${NEARBY_MIN_RADIUS_KM} to ${NEARBY_MAX_RADIUS_KM}`,
+			};
+		}
+		radiusKm = radius;
+	} else if (!grid) {
+		return { error: 'radius is required with "lat" and "lon"' };
+	}
+
+	const area: NearbyArea = {
+		centre: { latitude: round(centre.latitude, 4), longitude: round(centre.longitude, 4) },
+		radiusKm,
+		grid: radiusKm === undefined ? grid : undefined,
+		zipRanges: [],
+	};
+	area.zipRanges = findZipRanges((point) => isInNearbyArea(area, point), NEARBY_MAX_ZIP_RANGES);
+	return { area };
+}
+
+/**
+ * Whether a location lies inside a nearby search area
+ */
+export function isInNearbyArea(area: NearbyArea, point: LatLon): boolean {
+	if (area.radiusKm !== undefined) {
+		return greatCirclePath(area.centre, point).distanceKm <= area.radiusKm;
+	}
+	return latLonToGrid(point, area.grid!.length as 2 | 4 | 6 | 8) === area.grid;
+}
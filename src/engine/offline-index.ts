@@ -0,0 +1,157 @@
+/**
+ * Build and publish the offline callsign index
+ *
+ * The index (see ../offline-index.ts) is rebuilt from D1 whenever the data
+ * version changes and streamed into R2 as offline-index/callsigns-<version>.bin.
+ * offline-index/latest.json points at the current file; the previous file is
+ * kept so downloads in progress can finish.
+ */
+
+import type { Env, OfflineIndexInfo } from '../types';
+import { log } from '../utils';
+import { createOfflineIndexEncoder } from '../offline-index';
+import { RECORD_FIELD_EXPRESSIONS, getLatestSnapshot } from './database';
+import { EXPORT_PART_SIZE, createExportOutput } from './export';
+import { createSha256 } from './sha256';
+
+/**
+ * R2 key of the pointer to the current index
+ */
+export const OFFLINE_INDEX_POINTER_KEY = 'offline-index/latest.json';
+
+/**
+ * Callsigns read per query while building the index
+ */
+const OFFLINE_INDEX_PAGE_SIZE = 50000;
+
+/**
+ * The current index, or null if none is published
+ * Throws on storage errors.
+ */
+export async function getOfflineIndexInfo(env: Env): Promise<OfflineIndexInfo | null> {
+	const object = await env.DATA_EXPORTS?.get(OFFLINE_INDEX_POINTER_KEY);
+	return object ? ((await object.json()) as OfflineIndexInfo) : null;
+}
+
+/**
+ * Write the index of every callsign in D1 with its class, status and state
+ * Pages are encoded as they are read, so only one page is held at a time.
+ * Returns the number of records; throws on database and storage errors.
+ */
+export async function writeOfflineIndex(
+	env: Env,
+	version: string,
+	write: (bytes: Uint8Array) => Promise<void>
+): Promise<number> {
+	if (!env.CALLSIGN_DB) {
+		throw new Error('D1 database not configured');
+	}
+
+	const encoder = createOfflineIndexEncoder(version);
+	await write(encoder.header);
+	let after = '';
+	for (;;) {
+		const result = await env.CALLSIGN_DB.prepare(
+			`SELECT callsign,
+			   ${RECORD_FIELD_EXPRESSIONS.operatorClass} AS operator_class,
+			   ${RECORD_FIELD_EXPRESSIONS.licenseStatus} AS license_status,
+			   ${RECORD_FIELD_EXPRESSIONS.state} AS state
+			 FROM callsigns WHERE callsign > ? ORDER BY callsign LIMIT ?`
+		)
+			.bind(after, OFFLINE_INDEX_PAGE_SIZE)
+			.all<{ callsign: string; operator_class: string; license_status: string; state: string }>();
+		const rows = result.results || [];
+		await write(
+			encoder.encode(
+				rows.map((row) => ({
+					callsign: row.callsign,
+					operatorClass: row.operator_class.toUpperCase(),
+					licenseStatus: row.license_status.toUpperCase(),
+					state: row.state.toUpperCase(),
+				}))
+			)
+		);
+		if (rows.length < OFFLINE_INDEX_PAGE_SIZE) {
+			break;
+		}
+		after = rows[rows.length - 1].callsign;
+	}
+
+	await write(encoder.finish());
+	return encoder.count();
+}
+
+/**
+ * Publish the index for the latest data version unless it is already current
+ * The file is streamed into a multipart upload and hashed as it is written.
+ * Returns the current index, or null if there is nothing to index or publishing failed.
+ */
+export async function publishOfflineIndex(
+	env: Env,
+	options: { partSize?: number } = {}
+): Promise<OfflineIndexInfo | null> {
+	if (!env.CALLSIGN_DB || !env.DATA_EXPORTS) {
+		log('warn', 'D1 or R2 not configured, cannot publish offline index');
+		return null;
+	}
+
+	let upload: R2MultipartUpload | undefined;
+	try {
+		const snapshot = await getLatestSnapshot(env);
+		if (!snapshot) {
+			return null;
+		}
+		const current = await getOfflineIndexInfo(env);
+		if (current?.version === snapshot.version) {
+			return current;
+		}
+
+		const key = `offline-index/callsigns-${snapshot.version}.bin`;
+		upload = await env.DATA_EXPORTS.createMultipartUpload(key, {
+			httpMetadata: { contentType: 'application/octet-stream' },
+			customMetadata: { version: snapshot.version },
+		});
+		const output = createExportOutput(upload, options.partSize ?? EXPORT_PART_SIZE);
+		const hash = createSha256();
+		const records = await writeOfflineIndex(env, snapshot.version, (bytes) => {
+			hash.update(bytes);
+			return output.write(bytes);
+		});
+		await output.complete();
+		upload = undefined;
+
+		const info: OfflineIndexInfo = {
+			version: snapshot.version,
+			key,
+			bytes: output.bytes(),
+			records,
+			sha256: hash.digest(),
+			publishedAt: new Date().toISOString(),
+		};
+		await env.DATA_EXPORTS.put(OFFLINE_INDEX_POINTER_KEY, JSON.stringify(info), {
+			httpMetadata: { contentType: 'application/json' },
+		});
+
+		// Keep the new file and the one it replaces
+		const listed = await env.DATA_EXPORTS.list({ prefix: 'offline-index/callsigns-' });
+		const stale = listed.objects
+			.map((object) => object.key)
+			.filter((key) => key !== info.key && key !== current?.key);
+		if (stale.length > 0) {
+			await env.DATA_EXPORTS.delete(stale);
+		}
+
+		log('info', 'Published offline index', { version: info.version, records: info.records, bytes: info.bytes });
+		return info;
+	} catch (error) {
+		log('error', 'Failed to publish offline index', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		try {
+			await upload?.abort();
+		} catch {
+			// The incomplete upload expires on its own
+		}
+		return null;
+	}
+}
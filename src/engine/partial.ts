@@ -0,0 +1,158 @@
+/**
+ * Super Check Partial: partial callsign matching for contest loggers
+ *
+ * Callsigns are indexed by their n-grams in callsign_ngrams, kept current by
+ * applyPatchOperations. A query is split at its ? wildcards; callsigns holding
+ * every n-gram of the known runs are candidates, and the full pattern is then
+ * checked against each candidate. The MASTER.SCP export lists active callsigns.
+ */
+
+import type { Env, PartialMatch } from '../types';
+import { CALLSIGN_NGRAM_SIZE, RECORD_FIELD_EXPRESSIONS, callsignNgrams, qualifyRecordField } from './database';
+
+/**
+ * Matches returned when the request does not set limit
+ */
+export const PARTIAL_DEFAULT_LIMIT = 50;
+
+/**
+ * Most matches one request may ask for
+ */
+export const PARTIAL_MAX_LIMIT = 200;
+
+/**
+ * Most candidates read from the n-gram index for one query
+ */
+export const PARTIAL_MAX_CANDIDATES = 5000;
+
+/**
+ * Callsigns read per query while building MASTER.SCP
+ */
+export const SCP_PAGE_SIZE = 50000;
+
+/**
+ * Parsed partial query
+ */
+export interface PartialQuery {
+	// Upper-cased input; ? stands for any one letter or digit
+	pattern: string;
+	grams: string[];
+	matcher: RegExp;
+}
+
+/**
+ * Parse a partial query such as 1AB or W1?W
+ */
+export function parsePartialQuery(value: string): { query?: PartialQuery; error?: string } {
+	const pattern = value.trim().toUpperCase();
+	if (!/^[A-Z0-9?]{3,10}$/.test(pattern)) {
+		return { error: 'q must be 3 to 10 letters, digits or ? wildcards' };
+	}
+
+	const grams = [...new Set(pattern.split('?').flatMap(callsignNgrams))];
+	if (grams.length === 0) {
+		return { error: `q needs at least ${CALLSIGN_NGRAM_SIZE} consecutive letters or digits` };
+	}
+
+	return { query: { pattern, grams, matcher: new RegExp(pattern.replace(/\?/g, '[A-Z0-9]')) } };
+}
+
+/**
+ * Rank of a match kind; lower ranks sort first
+ */
+const MATCH_RANKS: Record<PartialMatch['match'], number> = { exact: 0, prefix: 1, contains: 2 };
+
+/**
+ * Find callsigns containing a partial query, best matches first
+ * Exact matches come first, then callsigns starting with the pattern, then
+ * the rest; shorter callsigns first within each. Throws on database errors.
+ */
+export async function findPartialMatches(
+	env: Env,
+	query: PartialQuery,
+	options: { limit: number; includeInactive: boolean }
+): Promise<{ matches: PartialMatch[]; candidates: number; truncated: boolean }> {
+	if (!env.CALLSIGN_DB) {
+		throw new Error('D1 database not configured');
+	}
+
+	const status = qualifyRecordField('licenseStatus', 'c');
+	const result = await env.CALLSIGN_DB.prepare(
+		`SELECT c.callsign, ${status} AS license_status
+		 FROM (SELECT callsign FROM callsign_ngrams WHERE gram IN (${query.grams.map(() => '?').join(', ')})
+			GROUP BY callsign HAVING COUNT(*) = ?) AS g
+		 JOIN callsigns AS c ON c.callsign = g.callsign
+		 ${options.includeInactive ? '' : `WHERE ${status} = 'A'`}
+		 LIMIT ?`
+	)
+		.bind(...query.grams, query.grams.length, PARTIAL_MAX_CANDIDATES + 1)
+		.all<{ callsign: string; license_status: string }>();
+
+	const rows = result.results || [];
+	const anchored = new RegExp(`^${query.matcher.source}`);
+	const matches: PartialMatch[] = [];
+	for (const row of rows.slice(0, PARTIAL_MAX_CANDIDATES)) {
+		const position = row.callsign.search(query.matcher);
+		if (position < 0) {
+			continue;
+		}
+		const match =
+			row.callsign.length === query.pattern.length && position === 0
+				? 'exact'
+				: anchored.test(row.callsign)
+					? 'prefix'
+					: 'contains';
+		matches.push({ callsign: row.callsign, match, license_status: row.license_status || undefined });
+	}
+
+	matches.sort(
+		(a, b) =>
+			MATCH_RANKS[a.match] - MATCH_RANKS[b.match] ||
+			a.callsign.length - b.callsign.length ||
+			a.callsign.localeCompare(b.callsign)
+	);
+
+	return {
+		matches: matches.slice(0, options.limit),
+		candidates: Math.min(rows.length, PARTIAL_MAX_CANDIDATES),
+		truncated: rows.length > PARTIAL_MAX_CANDIDATES || matches.length > options.limit,
+	};
+}
+
+/**
+ * Build a MASTER.SCP file: every active callsign, one per line, sorted
+ * Lines starting with # are comments, which contest loggers skip. Throws on
+ * database errors.
+ */
+export async function buildMasterScp(env: Env, dataVersion?: string): Promise<string> {
+	if (!env.CALLSIGN_DB) {
+		throw new Error('D1 database not configured');
+	}
+
+	const lines = [
+		'# MASTER.SCP generated by ham-radio-callsign-worker',
+		`# Data version: ${dataVersion || 'unknown'}`,
+	];
+
+	// Keyset pages over the license status index, which is ordered by callsign
+	let after = '';
+	for (;;) {
+		const result = await env.CALLSIGN_DB.prepare(
+			`SELECT callsign FROM callsigns
+			 WHERE ${RECORD_FIELD_EXPRESSIONS.licenseStatus} = 'A' AND callsign > ?
+			 ORDER BY callsign LIMIT ?`
+		)
+			.bind(after, SCP_PAGE_SIZE)
+			.all<{ callsign: string }>();
+		const rows = result.results || [];
+		for (const row of rows) {
+			lines.push(row.callsign);
+		}
+		if (rows.length < SCP_PAGE_SIZE) {
+			break;
+		}
+		after = rows[rows.length - 1].callsign;
+	}
+
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,104 @@
+/**
+ * Record parsing and key derivation shared by diffing, patching, validation
+ * and slave synchronization
+ */
+
+import type { DataSourceSchema } from '../types';
+
+/**
+ * Separator between the parts of a composite key
+ */
+export const COMPOSITE_KEY_SEPARATOR = ':';
+
+/**
+ * Records parsed from delimited content, keyed by the schema's key field(s)
+ */
+export interface KeyedRecords {
+	// Raw line per key (the last line wins when a key repeats)
+	records: Map<string, string>;
+	// Keys seen on more than one line
+	duplicates: string[];
+	// Lines skipped because a key field was empty
+	missingKeys: number;
+}
+
+/**
+ * Get the field(s) that identify a record
+ * Falls back to callsign, or to the first field when the schema has none, when
+ * the schema does not declare keyField.
+ */
+export function getKeyFields(schema: DataSourceSchema): string[] {
+	const { keyField } = schema;
+	if (Array.isArray(keyField) && keyField.length > 0) {
+		return keyField;
+	}
+	if (typeof keyField === 'string' && keyField) {
+		return [keyField];
+	}
+	if (schema.fields.includes('callsign')) {
+		return ['callsign'];
+	}
+	return schema.fields.length > 0 ? [schema.fields[0]] : [];
+}
+
+/**
+ * Parse a record line into key-value pairs
+ */
+export function parseRecordLine(
+	line: string,
+	delimiter: string,
+	fields: string[]
+): Record<string, string> {
+	const values = line.split(delimiter).map((v) => v.trim());
+	const record: Record<string, string> = {};
+
+	for (let i = 0; i < Math.min(fields.length, values.length); i++) {
+		record[fields[i]] = values[i];
+	}
+
+	return record;
+}
+
+/**
+ * Build a record's key from its key fields
+ * Returns null when any key field is empty.
+ */
+export function getRecordKey(
+	record: Record<string, string | undefined>,
+	keyFields: string[]
+): string | null {
+	const parts = keyFields.map((field) => (record[field] || '').trim());
+	if (parts.length === 0 || parts.some((part) => !part)) {
+		return null;
+	}
+	return parts.join(COMPOSITE_KEY_SEPARATOR);
+}
+
+/**
+ * Parse delimited content into raw lines keyed by the schema's key field(s)
+ */
+export function parseKeyedRecords(content: string, schema: DataSourceSchema): KeyedRecords {
+	const delimiter = schema.delimiter || ',';
+	const startIndex = schema.hasHeader !== false ? 1 : 0;
+	const keyFields = getKeyFields(schema);
+	const lines = content.split('\n').filter((line) => line.trim().length > 0);
+
+	const records = new Map<string, string>();
+	const duplicates = new Set<string>();
+	let missingKeys = 0;
+
+	for (let i = startIndex; i < lines.length; i++) {
+		const line = lines[i];
+		const key = getRecordKey(parseRecordLine(line, delimiter, schema.fields), keyFields);
+		if (!key) {
+			missingKeys++;
+			continue;
+		}
+		if (records.has(key)) {
+			duplicates.add(key);
+		}
+		records.set(key, line);
+	}
+
+	return { records, duplicates: Array.from(duplicates), missingKeys };
+}
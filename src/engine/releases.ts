@@ -0,0 +1,227 @@
+/**
+ * Versioned dataset releases for downstream mirrors
+ *
+ * After a pipeline run that changed the data, a release is published to R2
+ * under releases/<version>/: the full snapshot in the source's delimited
+ * format, the patch from the previous version as NDJSON patch operations and
+ * a manifest.json with hashes and record counts. releases/index.json lists
+ * the published releases, newest first, and retention prunes old ones.
+ */
+
+import type {
+	ConfigData,
+	DataSourceSchema,
+	DiffResult,
+	Env,
+	PatchOperation,
+	ReleaseFile,
+	ReleaseManifest,
+	ReleaseSummary,
+} from '../types';
+import { log } from '../utils';
+import { calculateHash } from './validate';
+
+/**
+ * R2 key of the release index
+ */
+export const RELEASE_INDEX_KEY = 'releases/index.json';
+
+/**
+ * Releases always kept, newest first
+ */
+export const RELEASE_DEFAULT_KEEP = 10;
+
+/**
+ * Age in days after which releases beyond the kept ones are removed
+ */
+export const RELEASE_DEFAULT_MAX_AGE_DAYS = 90;
+
+/**
+ * Files of a release and their content types
+ */
+export const RELEASE_FILES = {
+	snapshot: { name: 'callsigns.dat', contentType: 'text/plain; charset=utf-8' },
+	patch: { name: 'patch.ndjson', contentType: 'application/x-ndjson' },
+	manifest: { name: 'manifest.json', contentType: 'application/json' },
+};
+
+/**
+ * Release versions are pipeline versions such as 2026-10-19T06-00-00-000Z
+ */
+export function isReleaseVersion(version: string): boolean {
+	return /^\d{4}-\d{2}-\d{2}T[\dZ-]+$/.test(version);
+}
+
+/**
+ * R2 key of a file within a release
+ */
+export function releaseObjectKey(version: string, name: string): string {
+	return `releases/${version}/${name}`;
+}
+
+/**
+ * Published releases, newest first; empty when none are stored
+ * Throws on storage errors.
+ */
+export async function listReleases(env: Env): Promise<ReleaseSummary[]> {
+	const object = await env.DATA_EXPORTS?.get(RELEASE_INDEX_KEY);
+	if (!object) {
+		return [];
+	}
+	const index = (await object.json()) as { releases?: ReleaseSummary[] };
+	return index.releases || [];
+}
+
+/**
+ * Manifest of a release, or null if it is not published
+ * Throws on storage errors.
+ */
+export async function getReleaseManifest(env: Env, version: string): Promise<ReleaseManifest | null> {
+	if (!isReleaseVersion(version)) {
+		return null;
+	}
+	const object = await env.DATA_EXPORTS?.get(releaseObjectKey(version, RELEASE_FILES.manifest.name));
+	return object ? ((await object.json()) as ReleaseManifest) : null;
+}
+
+/**
+ * Split releases into those kept and those removed by the retention rules
+ */
+export function applyReleaseRetention(
+	releases: ReleaseSummary[],
+	retention: ConfigData['releases'] = {},
+	now: Date = new Date()
+): { kept: ReleaseSummary[]; removed: ReleaseSummary[] } {
+	const keep = retention?.keep ?? RELEASE_DEFAULT_KEEP;
+	const cutoff = now.getTime() - (retention?.maxAgeDays ?? RELEASE_DEFAULT_MAX_AGE_DAYS) * 86400000;
+	const kept: ReleaseSummary[] = [];
+	const removed: ReleaseSummary[] = [];
+	releases.forEach((release, i) => {
+		(i < keep || new Date(release.published_at).getTime() >= cutoff ? kept : removed).push(release);
+	});
+	return { kept, removed };
+}
+
+/**
+ * Delete every object of a release
+ */
+async function deleteRelease(env: Env, version: string): Promise<void> {
+	const prefix = `releases/${version}/`;
+	let cursor: string | undefined;
+	do {
+		const listed = await env.DATA_EXPORTS!.list({ prefix, cursor });
+		if (listed.objects.length > 0) {
+			await env.DATA_EXPORTS!.delete(listed.objects.map((object) => object.key));
+		}
+		cursor = listed.truncated ? listed.cursor : undefined;
+	} while (cursor);
+}
+
+/**
+ * Publish a release of the data a pipeline run produced, then apply retention
+ * Returns the manifest, or null if R2 is unavailable or publishing failed.
+ */
+export async function publishRelease(
+	env: Env,
+	release: {
+		version: string;
+		content: string;
+		hash: string;
+		recordCount: number;
+		schema: DataSourceSchema;
+		diff: DiffResult;
+		operations: PatchOperation[];
+	},
+	retention?: ConfigData['releases'],
+	now: Date = new Date()
+): Promise<ReleaseManifest | null> {
+	if (!env.DATA_EXPORTS) {
+		log('warn', 'R2 bucket not configured, cannot publish release');
+		return null;
+	}
+
+	const { version, schema, diff } = release;
+	try {
+		const put = async (
+			file: { name: string; contentType: string },
+			body: string,
+			sha256: string,
+			records: number
+		): Promise<ReleaseFile> => {
+			const object = await env.DATA_EXPORTS!.put(releaseObjectKey(version, file.name), body, {
+				httpMetadata: { contentType: file.contentType },
+				customMetadata: { version, sha256 },
+			});
+			return { name: file.name, content_type: file.contentType, bytes: object.size, sha256, records };
+		};
+
+		// The pipeline hash is the SHA-256 of the snapshot content
+		const snapshot = await put(RELEASE_FILES.snapshot, release.content, release.hash, release.recordCount);
+		const patchBody = release.operations.map((operation) => JSON.stringify(operation) + '\n').join('');
+		const patch = await put(
+			RELEASE_FILES.patch,
+			patchBody,
+			await calculateHash(patchBody),
+			release.operations.length
+		);
+
+		// The patch applies to the data it was diffed against; if that version was never
+		// published, clients holding an older release resync instead of replaying it
+		const existing = (await listReleases(env)).filter((entry) => entry.version !== version);
+		const manifest: ReleaseManifest = {
+			version,
+			previous_version: diff.metadata.oldVersion ?? null,
+			published_at: now.toISOString(),
+			record_count: release.recordCount,
+			schema: {
+				fields: schema.fields,
+				delimiter: schema.delimiter || ',',
+				has_header: schema.hasHeader ?? false,
+				key_field: schema.keyField || schema.fields[0],
+			},
+			changes: {
+				added: diff.summary.addedCount,
+				modified: diff.summary.modifiedCount,
+				deleted: diff.summary.deletedCount,
+			},
+			files: [snapshot, patch],
+		};
+		await env.DATA_EXPORTS.put(
+			releaseObjectKey(version, RELEASE_FILES.manifest.name),
+			JSON.stringify(manifest, null, 2),
+			{ httpMetadata: { contentType: RELEASE_FILES.manifest.contentType } }
+		);
+
+		// The manifest is in place before the release is listed
+		const summary: ReleaseSummary = {
+			version,
+			previous_version: manifest.previous_version,
+			published_at: manifest.published_at,
+			record_count: manifest.record_count,
+			changes: manifest.changes,
+		};
+		const { kept, removed } = applyReleaseRetention([summary, ...existing], retention, now);
+		await env.DATA_EXPORTS.put(
+			RELEASE_INDEX_KEY,
+			JSON.stringify({ updated_at: now.toISOString(), releases: kept }, null, 2),
+			{ httpMetadata: { contentType: 'application/json' } }
+		);
+		for (const old of removed) {
+			await deleteRelease(env, old.version);
+		}
+
+		log('info', 'Published dataset release', {
+			version,
+			recordCount: release.recordCount,
+			operations: release.operations.length,
+			removed: removed.map((old) => old.version),
+		});
+		return manifest;
+	} catch (error) {
+		log('error', 'Failed to publish release', {
+			version,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
@@ -0,0 +1,482 @@
+/**
+ * Callsign search over the D1 callsigns table
+ *
+ * Filters run against JSON fields of the stored record through the expression
+ * indexes created in initializeDatabase. Results are paged with an opaque
+ * keyset cursor so deep pages cost the same as the first one. Name searches go
+ * through the callsign_fts full-text index and are ranked by bm25; those pages
+ * are offset-based because relevance scores are not stable keys.
+ */
+
+import type {
+	Env,
+	ParsedCallsign,
+	SearchCursor,
+	SearchQuery,
+	SearchResult,
+	SearchSortField,
+} from '../types';
+import { isValidCallsign } from '../utils';
+import { parseCallsign } from '../callsign';
+import {
+	LICENSE_STATUS_NAMES,
+	OPERATOR_CLASS_NAMES,
+	RECORD_FIELD_EXPRESSIONS,
+	toStoredCallsignRecord,
+	type CallsignRow,
+} from './database';
+
+/**
+ * Page size used when the request does not set limit
+ */
+export const SEARCH_DEFAULT_LIMIT = 25;
+
+/**
+ * Largest page size a request may ask for
+ */
+export const SEARCH_MAX_LIMIT = 100;
+
+/**
+ * Matches are only counted up to this number; larger totals are estimates
+ */
+export const SEARCH_COUNT_CAP = 10000;
+
+/**
+ * Query parameters that need features.advancedSearch
+ */
+export const ADVANCED_SEARCH_PARAMS = [
+	'state',
+	'class',
+	'status',
+	'district',
+	'expires_after',
+	'expires_before',
+	'trustee',
+];
+
+/**
+ * Most words of a name query passed on to the full-text index
+ */
+export const MAX_NAME_TERMS = 8;
+
+// bm25 column weights for callsign_fts (name, street, city)
+const RELEVANCE_EXPRESSION = 'bm25(callsign_fts, 10.0, 1.0, 2.0)';
+
+// Excerpt of the matched columns. Matches are delimited by control characters
+// that licensee text does not contain, and turned into <mark> tags once the
+// text around them is escaped
+const SNIPPET_EXPRESSION = `snippet(callsign_fts, -1, char(2), char(3), '…', 12)`;
+
+// SQL expression behind each sort field
+const SORT_EXPRESSIONS: Record<SearchSortField, string> = {
+	callsign: 'callsign',
+	state: RECORD_FIELD_EXPRESSIONS.state,
+	class: RECORD_FIELD_EXPRESSIONS.operatorClass,
+	expires: RECORD_FIELD_EXPRESSIONS.expirationDate,
+	relevance: RELEVANCE_EXPRESSION,
+};
+
+/**
+ * HTML of a snippet: the text escaped, and its matches wrapped in <mark> tags
+ */
+function highlightSnippet(snippet: string): string {
+	return snippet
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+		.replaceAll('\u0002', '<mark>')
+		.replaceAll('\u0003', '</mark>');
+}
+
+/**
+ * Split a comma-separated parameter into trimmed, upper-cased values
+ */
+function splitList(value: string): string[] {
+	return value
+		.split(',')
+		.map((v) => v.trim().toUpperCase())
+		.filter((v) => v.length > 0);
+}
+
+/**
+ * Resolve a license class or status given as an FCC code or its name
+ */
+export function resolveCode(value: string, names: Record<string, string>): string | null {
+	if (names[value]) {
+		return value;
+	}
+	const normalized = value.replace(/[^A-Z]/g, '');
+	for (const [code, name] of Object.entries(names)) {
+		if (name.toUpperCase().replace(/[^A-Z]/g, '') === normalized) {
+			return code;
+		}
+	}
+	return null;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match as a prefix
+ * Words are quoted so user input cannot inject FTS5 syntax.
+ */
+function toFullTextQuery(value: string): string | null {
+	const terms = value
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((term) => term.length > 0)
+		.slice(0, MAX_NAME_TERMS);
+	if (terms.length === 0) {
+		return null;
+	}
+	return terms.map((term) => `"${term}"*`).join(' ');
+}
+
+/**
+ * Check for a real YYYY-MM-DD calendar date
+ */
+function isIsoDate(value: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		return false;
+	}
+	const date = new Date(`${value}T00:00:00Z`);
+	return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Identify the sort a cursor belongs to
+ */
+function sortKey(sort: SearchSortField, descending: boolean): string {
+	return descending ? `-${sort}` : sort;
+}
+
+/**
+ * Encode a cursor as URL-safe base64 JSON
+ */
+function encodeCursor(cursor: SearchCursor): string {
+	return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeSearchCursor(value: string): SearchCursor | null {
+	try {
+		const json = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+		const cursor = JSON.parse(json) as SearchCursor;
+		if (
+			typeof cursor.sort !== 'string' ||
+			typeof cursor.value !== 'string' ||
+			typeof cursor.callsign !== 'string'
+		) {
+			return null;
+		}
+		return cursor;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Parse /api/v1/search query parameters
+ * advancedFilters lists the parameters that need features.advancedSearch.
+ * A portable or reciprocal q (W1AW/P, VE3/W1AW) matches its base callsign
+ * exactly and is returned parsed as callsign. Spatial searches bring their own
+ * area condition, so they need neither q, name nor a filter.
+ */
+export function parseSearchParams(
+	params: Record<string, string>,
+	spatial = false
+): {
+	query?: SearchQuery;
+	advancedFilters: string[];
+	callsign?: ParsedCallsign;
+	error?: string;
+} {
+	const advancedFilters = ADVANCED_SEARCH_PARAMS.filter(
+		(name) => params[name] !== undefined && params[name].trim() !== ''
+	);
+	const fail = (error: string) => ({ advancedFilters, error });
+
+	const query: SearchQuery = {
+		sort: 'callsign',
+		descending: false,
+		limit: SEARCH_DEFAULT_LIMIT,
+	};
+
+	const q = params.q?.trim().toUpperCase();
+	let callsign: ParsedCallsign | undefined;
+	if (q?.includes('/')) {
+		const parsed = parseCallsign(q);
+		if (!parsed.callsign) {
+			return fail(`Query "q" is not a valid callsign: ${parsed.error}`);
+		}
+		callsign = parsed.callsign;
+		query.callsignPattern = callsign.base;
+	} else if (q) {
+		if (!/^[A-Z0-9*?]+$/.test(q)) {
+			return fail('Query "q" may only contain letters, digits, / and the wildcards * and ?');
+		}
+		// Without wildcards the query is a callsign prefix
+		query.callsignPattern = /[*?]/.test(q) ? q : `${q}*`;
+	}
+
+	if (params.name !== undefined && params.name.trim() !== '') {
+		const text = toFullTextQuery(params.name);
+		if (!text) {
+			return fail('Query "name" must contain at least one letter or digit');
+		}
+		query.text = text;
+		query.sort = 'relevance';
+	}
+
+	if (!spatial && !query.callsignPattern && !query.text && advancedFilters.length === 0) {
+		return fail('Search query parameter "q", "name" or at least one filter is required');
+	}
+
+	if (advancedFilters.includes('state')) {
+		const states = splitList(params.state);
+		const invalid = states.filter((s) => !/^[A-Z]{2}$/.test(s));
+		if (invalid.length > 0) {
+			return fail(`Invalid state: ${invalid.join(', ')}`);
+		}
+		query.states = states;
+	}
+
+	if (advancedFilters.includes('class')) {
+		const classes: string[] = [];
+		for (const value of splitList(params.class)) {
+			const code = resolveCode(value, OPERATOR_CLASS_NAMES);
+			if (!code) {
+				return fail(`Unknown license class: ${value}`);
+			}
+			classes.push(code);
+		}
+		query.operatorClasses = classes;
+	}
+
+	if (advancedFilters.includes('status')) {
+		const statuses: string[] = [];
+		for (const value of splitList(params.status)) {
+			const code = resolveCode(value, LICENSE_STATUS_NAMES);
+			if (!code) {
+				return fail(`Unknown license status: ${value}`);
+			}
+			statuses.push(code);
+		}
+		query.licenseStatuses = statuses;
+	}
+
+	if (advancedFilters.includes('district')) {
+		const district = params.district.trim();
+		if (!/^[0-9]$/.test(district)) {
+			return fail('District must be a single digit (0-9)');
+		}
+		query.district = district;
+	}
+
+	for (const [name, key] of [
+		['expires_after', 'expiresAfter'],
+		['expires_before', 'expiresBefore'],
+	] as const) {
+		if (advancedFilters.includes(name)) {
+			const value = params[name].trim();
+			if (!isIsoDate(value)) {
+				return fail(`${name} must be a date in YYYY-MM-DD format`);
+			}
+			query[key] = value;
+		}
+	}
+
+	if (advancedFilters.includes('trustee')) {
+		const trustee = params.trustee.trim().toUpperCase();
+		if (!isValidCallsign(trustee)) {
+			return fail('Invalid trustee callsign format');
+		}
+		query.trustee = trustee;
+	}
+
+	if (params.sort) {
+		const descending = params.sort.startsWith('-');
+		const sort = (descending ? params.sort.substring(1) : params.sort) as SearchSortField;
+		if (!(sort in SORT_EXPRESSIONS)) {
+			return fail(`Invalid sort. Supported: ${Object.keys(SORT_EXPRESSIONS).join(', ')} (prefix with - for descending)`);
+		}
+		if (sort === 'relevance' && (!query.text || descending)) {
+			return fail('Sorting by relevance requires a "name" query and ascending order');
+		}
+		query.sort = sort;
+		query.descending = descending;
+	}
+
+	if (params.limit !== undefined) {
+		const limit = Number(params.limit);
+		if (!Number.isInteger(limit) || limit < 1) {
+			return fail('limit must be a positive integer');
+		}
+		query.limit = Math.min(limit, SEARCH_MAX_LIMIT);
+	}
+
+	if (params.cursor) {
+		const cursor = decodeSearchCursor(params.cursor);
+		if (!cursor) {
+			return fail('Invalid cursor');
+		}
+		if (cursor.sort !== sortKey(query.sort, query.descending)) {
+			return fail('Cursor does not match the requested sort');
+		}
+		if (query.sort === 'relevance' && !/^\d+$/.test(cursor.value)) {
+			return fail('Invalid cursor');
+		}
+		query.cursor = cursor;
+	}
+
+	return { query, advancedFilters, callsign };
+}
+
+/**
+ * Run a search query against D1
+ * Throws on database errors so callers can tell them apart from empty results.
+ */
+export async function searchCallsignRecords(env: Env, query: SearchQuery): Promise<SearchResult> {
+	if (!env.CALLSIGN_DB) {
+		throw new Error('D1 database not configured');
+	}
+
+	const conditions: string[] = [];
+	const bindings: unknown[] = [];
+
+	// Name searches join the full-text index on the shared rowid; the filter
+	// expressions below only use callsigns columns, so they apply unchanged
+	const from = query.text
+		? 'callsign_fts JOIN callsigns ON callsigns.rowid = callsign_fts.rowid'
+		: 'callsigns';
+	if (query.text) {
+		conditions.push('callsign_fts MATCH ?');
+		bindings.push(query.text);
+	}
+	if (query.callsignPattern) {
+		conditions.push('callsign GLOB ?');
+		bindings.push(query.callsignPattern);
+	}
+	if (query.callsigns && query.callsigns.length > 0) {
+		conditions.push(`callsign IN (${query.callsigns.map(() => '?').join(', ')})`);
+		bindings.push(...query.callsigns);
+	}
+	if (query.states && query.states.length > 0) {
+		conditions.push(`${RECORD_FIELD_EXPRESSIONS.state} IN (${query.states.map(() => '?').join(', ')})`);
+		bindings.push(...query.states);
+	}
+	if (query.operatorClasses && query.operatorClasses.length > 0) {
+		conditions.push(
+			`${RECORD_FIELD_EXPRESSIONS.operatorClass} IN (${query.operatorClasses.map(() => '?').join(', ')})`
+		);
+		bindings.push(...query.operatorClasses);
+	}
+	if (query.licenseStatuses && query.licenseStatuses.length > 0) {
+		conditions.push(
+			`${RECORD_FIELD_EXPRESSIONS.licenseStatus} IN (${query.licenseStatuses.map(() => '?').join(', ')})`
+		);
+		bindings.push(...query.licenseStatuses);
+	}
+	if (query.zipRanges) {
+		// An empty area matches nothing
+		const ranges = query.zipRanges.map(() => `${RECORD_FIELD_EXPRESSIONS.zip5} BETWEEN ? AND ?`);
+		conditions.push(ranges.length > 0 ? `(${ranges.join(' OR ')})` : '0');
+		bindings.push(...query.zipRanges.flat());
+	}
+	if (query.district) {
+		// US calls carry their district digit after a one- or two-letter prefix
+		conditions.push('(callsign GLOB ? OR callsign GLOB ?)');
+		bindings.push(`[A-Z]${query.district}*`, `[A-Z][A-Z]${query.district}*`);
+	}
+	if (query.expiresAfter) {
+		conditions.push(`${RECORD_FIELD_EXPRESSIONS.expirationDate} >= ?`);
+		bindings.push(query.expiresAfter);
+	}
+	if (query.expiresBefore) {
+		// The lower bound skips records without an expiration date
+		conditions.push(`${RECORD_FIELD_EXPRESSIONS.expirationDate} BETWEEN '0000-01-01' AND ?`);
+		bindings.push(query.expiresBefore);
+	}
+	if (query.trustee) {
+		conditions.push(`${RECORD_FIELD_EXPRESSIONS.trustee} = ?`);
+		bindings.push(query.trustee);
+	}
+
+	const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+	const sortExpression = SORT_EXPRESSIONS[query.sort];
+	const direction = query.descending ? 'DESC' : 'ASC';
+	const comparison = query.descending ? '<' : '>';
+
+	// Keyset pagination: continue strictly after the last (value, callsign) pair.
+	// Relevance pages use an offset instead.
+	const pageConditions = [...conditions];
+	const pageBindings = [...bindings];
+	const offset = query.sort === 'relevance' && query.cursor ? Number(query.cursor.value) : 0;
+	if (query.cursor && query.sort !== 'relevance') {
+		if (query.sort === 'callsign') {
+			pageConditions.push(`callsign ${comparison} ?`);
+			pageBindings.push(query.cursor.callsign);
+		} else {
+			pageConditions.push(`(${sortExpression}, callsign) ${comparison} (?, ?)`);
+			pageBindings.push(query.cursor.value, query.cursor.callsign);
+		}
+	}
+	const pageWhere = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+	const orderBy =
+		query.sort === 'callsign'
+			? `callsign ${direction}`
+			: `${sortExpression} ${direction}, callsign ${direction}`;
+
+	const snippet = query.text ? `, ${SNIPPET_EXPRESSION} AS snippet` : '';
+
+	const [page, count] = await Promise.all([
+		env.CALLSIGN_DB.prepare(
+			`SELECT callsign, data, updated_at, ${sortExpression} AS sort_value${snippet}
+			 FROM ${from} ${pageWhere}
+			 ORDER BY ${orderBy}
+			 LIMIT ? OFFSET ?`
+		)
+			.bind(...pageBindings, query.limit + 1, offset)
+			.all<CallsignRow & { sort_value: string; snippet?: string }>(),
+		env.CALLSIGN_DB.prepare(
+			`SELECT COUNT(*) AS count FROM (SELECT 1 FROM ${from} ${where} LIMIT ?)`
+		)
+			.bind(...bindings, SEARCH_COUNT_CAP + 1)
+			.first<{ count: number }>(),
+	]);
+
+	const rows = page.results || [];
+	const hasMore = rows.length > query.limit;
+	const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+	const last = pageRows[pageRows.length - 1];
+	const total = count?.count || 0;
+
+	let snippets: Record<string, string> | undefined;
+	if (query.text) {
+		snippets = {};
+		for (const row of pageRows) {
+			if (row.snippet) {
+				snippets[row.callsign] = highlightSnippet(row.snippet);
+			}
+		}
+	}
+
+	return {
+		records: pageRows.map(toStoredCallsignRecord),
+		snippets,
+		nextCursor:
+			hasMore && last
+				? encodeCursor({
+					sort: sortKey(query.sort, query.descending),
+					value:
+						query.sort === 'relevance'
+							? String(offset + pageRows.length)
+							: String(last.sort_value ?? ''),
+					callsign: last.callsign,
+				})
+				: undefined,
+		totalEstimate: Math.min(total, SEARCH_COUNT_CAP),
+		totalIsExact: total <= SEARCH_COUNT_CAP,
+	};
+}
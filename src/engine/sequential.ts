@@ -0,0 +1,210 @@
+/**
+ * Sequential callsign progression per call district and group
+ *
+ * The FCC issues sequential callsigns in order within each call district and
+ * group. Each diff's added callsigns show how far that order has got, so the
+ * latest one per district and group is kept in METADATA_STORE together with a
+ * short history that gives the issuing rate.
+ */
+
+import type {
+	Env,
+	DiffResult,
+	PatchOperation,
+	SequentialEntry,
+	SequentialObservation,
+	SequentialTracker,
+	VanityFormat,
+	VanityGroup,
+} from '../types';
+import { log } from '../utils';
+import { VANITY_GROUP_CLASSES, callsignAtSequence, classifyCallsign } from './vanity';
+import { getOperationCallsign } from './database';
+
+/**
+ * METADATA_STORE key of the tracker
+ */
+export const SEQUENTIAL_TRACKER_KEY = 'sequential:tracker';
+
+/**
+ * Observations kept per district and group for the issuing rate
+ */
+export const SEQUENTIAL_HISTORY_LENGTH = 30;
+
+/**
+ * Groups without an issue for this many days are treated as exhausted
+ */
+export const SEQUENTIAL_ACTIVE_DAYS = 90;
+
+/**
+ * Format the sequential system issues in each group; other formats are vanity-only
+ */
+export const SEQUENTIAL_FORMATS: Record<VanityGroup, VanityFormat> = {
+	A: '2x2',
+	B: '2x2',
+	C: '1x3',
+	D: '2x3',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fold one diff's added callsigns into the tracker
+ * Vanity grants are skipped using the AM record's vanity flag when the record
+ * is known. An entry only moves forward, so late grants of earlier callsigns
+ * do not rewind it.
+ */
+export function recordSequentialIssues(
+	tracker: SequentialTracker | null,
+	added: string[],
+	records: Map<string, Record<string, string | undefined>>,
+	timestamp: string
+): SequentialTracker {
+	const entries: Record<string, SequentialEntry> = { ...tracker?.entries };
+
+	const newest = new Map<string, SequentialObservation & { district: string; group: VanityGroup }>();
+	for (const callsign of added) {
+		if (records.get(callsign)?.vanity_callsign_change === 'Y') {
+			continue;
+		}
+		const info = classifyCallsign(callsign);
+		if (!info || info.format !== SEQUENTIAL_FORMATS[info.group]) {
+			continue;
+		}
+		const key = `${info.district}${info.group}`;
+		const current = newest.get(key);
+		if (!current || info.sequence > current.sequence) {
+			newest.set(key, {
+				callsign,
+				sequence: info.sequence,
+				timestamp,
+				district: info.district,
+				group: info.group,
+			});
+		}
+	}
+
+	for (const [key, { district, group, ...observation }] of newest) {
+		const entry = entries[key];
+		if (entry && observation.sequence <= entry.latest.sequence) {
+			continue;
+		}
+		entries[key] = {
+			district,
+			group,
+			format: SEQUENTIAL_FORMATS[group],
+			latest: observation,
+			history: [...(entry?.history || []), observation].slice(-SEQUENTIAL_HISTORY_LENGTH),
+		};
+	}
+
+	return { updatedAt: timestamp, entries };
+}
+
+/**
+ * Read the tracker; null when nothing has been tracked yet
+ * Throws on storage errors.
+ */
+export async function getSequentialTracker(env: Env): Promise<SequentialTracker | null> {
+	if (!env.METADATA_STORE) {
+		return null;
+	}
+	const json = await env.METADATA_STORE.get(SEQUENTIAL_TRACKER_KEY);
+	return json ? (JSON.parse(json) as SequentialTracker) : null;
+}
+
+/**
+ * Update the tracker from an applied diff
+ * An initial load adds every record at once and says nothing about recent
+ * issues, so diffs without a previous version are skipped.
+ */
+export async function updateSequentialTracker(
+	env: Env,
+	diff: DiffResult,
+	operations: PatchOperation[]
+): Promise<boolean> {
+	if (!env.METADATA_STORE || !diff.metadata.oldVersion || diff.added.length === 0) {
+		return false;
+	}
+
+	try {
+		// Added keys are only callsigns when the key is; the inserts carry the callsign
+		const inserts = new Map(
+			operations.filter((op) => op.type === 'insert').map((op) => [op.key, op])
+		);
+		const added = diff.added.map((key) => {
+			const insert = inserts.get(key);
+			return insert ? getOperationCallsign(insert) : key;
+		});
+		const records = new Map([...inserts.values()].map((op) => [getOperationCallsign(op), op.record]));
+		const tracker = recordSequentialIssues(
+			await getSequentialTracker(env),
+			added,
+			records,
+			diff.metadata.timestamp
+		);
+		await env.METADATA_STORE.put(SEQUENTIAL_TRACKER_KEY, JSON.stringify(tracker));
+
+		log('info', 'Updated sequential callsign tracker', {
+			version: diff.metadata.newVersion,
+			entries: Object.keys(tracker.entries).length,
+		});
+		return true;
+	} catch (error) {
+		log('error', 'Failed to update sequential callsign tracker', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Callsigns issued per day, from the oldest and newest observations
+ * Null until two observations on different days exist.
+ */
+export function sequentialRate(entry: SequentialEntry): number | null {
+	const first = entry.history[0];
+	const last = entry.history[entry.history.length - 1];
+	if (!first || !last) {
+		return null;
+	}
+	const days = (Date.parse(last.timestamp) - Date.parse(first.timestamp)) / DAY_MS;
+	return days >= 1 ? (last.sequence - first.sequence) / days : null;
+}
+
+/**
+ * Group a new licensee of a class would be issued from in a district
+ * Tries the best group the class may hold first and moves down past groups
+ * with no issue in SEQUENTIAL_ACTIVE_DAYS.
+ */
+export function findSequentialEntry(
+	tracker: SequentialTracker,
+	district: string,
+	operatorClass: string,
+	now: Date
+): SequentialEntry | null {
+	const groups = (Object.keys(VANITY_GROUP_CLASSES) as VanityGroup[]).filter((group) =>
+		VANITY_GROUP_CLASSES[group].includes(operatorClass)
+	);
+	for (const group of groups) {
+		const entry = tracker.entries[`${district}${group}`];
+		if (entry && now.getTime() - Date.parse(entry.latest.timestamp) <= SEQUENTIAL_ACTIVE_DAYS * DAY_MS) {
+			return entry;
+		}
+	}
+	return null;
+}
+
+/**
+ * Callsign the sequence should have reached at a date, at the tracked rate
+ * Null without a rate or past the end of the format.
+ */
+export function projectSequentialCallsign(entry: SequentialEntry, at: Date): string | null {
+	const rate = sequentialRate(entry);
+	if (rate === null) {
+		return null;
+	}
+	const days = Math.max(0, (at.getTime() - Date.parse(entry.latest.timestamp)) / DAY_MS);
+	const sequence = entry.latest.sequence + Math.max(1, Math.round(rate * days));
+	return callsignAtSequence(entry.format, entry.group, entry.district, sequence);
+}
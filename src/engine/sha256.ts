@@ -0,0 +1,102 @@
+/**
+ * Incremental SHA-256
+ *
+ * crypto.subtle.digest needs the whole input at once; files streamed into R2
+ * are hashed chunk by chunk as they are written instead.
+ */
+
+/**
+ * Round constants
+ */
+const K = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+	0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+	0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+	0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+	0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+	0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Hash state fed in chunks; digest() returns the lowercase hex digest
+ */
+export function createSha256() {
+	const state = new Uint32Array([
+		0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+	]);
+	const block = new Uint8Array(64);
+	const view = new DataView(block.buffer);
+	const w = new Uint32Array(64);
+	let buffered = 0;
+	let length = 0;
+
+	const compress = () => {
+		for (let i = 0; i < 16; i++) {
+			w[i] = view.getUint32(i * 4);
+		}
+		for (let i = 16; i < 64; i++) {
+			const a = w[i - 15];
+			const b = w[i - 2];
+			const s0 = ((a >>> 7) | (a << 25)) ^ ((a >>> 18) | (a << 14)) ^ (a >>> 3);
+			const s1 = ((b >>> 17) | (b << 15)) ^ ((b >>> 19) | (b << 13)) ^ (b >>> 10);
+			w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+		}
+
+		let [a, b, c, d, e, f, g, h] = state;
+		for (let i = 0; i < 64; i++) {
+			const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+			const t1 = (h + s1 + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+			const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+			const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+			h = g;
+			g = f;
+			f = e;
+			e = (d + t1) | 0;
+			d = c;
+			c = b;
+			b = a;
+			a = (t1 + t2) | 0;
+		}
+		state[0] += a;
+		state[1] += b;
+		state[2] += c;
+		state[3] += d;
+		state[4] += e;
+		state[5] += f;
+		state[6] += g;
+		state[7] += h;
+	};
+
+	return {
+		update(data: Uint8Array): void {
+			length += data.length;
+			let offset = 0;
+			while (offset < data.length) {
+				const take = Math.min(64 - buffered, data.length - offset);
+				block.set(data.subarray(offset, offset + take), buffered);
+				buffered += take;
+				offset += take;
+				if (buffered === 64) {
+					compress();
+					buffered = 0;
+				}
+			}
+		},
+		digest(): string {
+			// Padding: a 1 bit, zeros, then the length in bits as a 64-bit integer
+			block[buffered++] = 0x80;
+			if (buffered > 56) {
+				block.fill(0, buffered);
+				compress();
+				buffered = 0;
+			}
+			block.fill(0, buffered, 56);
+			view.setUint32(56, Math.floor(length / 0x20000000));
+			view.setUint32(60, (length * 8) >>> 0);
+			compress();
+			return Array.from(state, (word) => word.toString(16).padStart(8, '0')).join('');
+		},
+	};
+}
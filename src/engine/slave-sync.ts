@@ -14,6 +14,8 @@ import type {
 	ConfigData,
 } from '../types';
 import { log } from '../utils';
+import { getKeyFields } from './records';
+import { getRecordSchema } from './uls';
 
 // KV key prefix for sync health tracking
 const SYNC_HEALTH_PREFIX = 'sync:health:';
@@ -63,8 +65,12 @@ export async function syncToSlaves(
 		};
 	}
 
+	// Slaves are keyed on the same field(s) as the master diff and patch
+	const keyFields = getKeyFields(getRecordSchema(config));
+
 	log('info', 'Starting slave synchronization', {
 		operationCount: operations.length,
+		keyFields,
 	});
 
 	// Collect all enabled endpoints
@@ -90,12 +96,12 @@ export async function syncToSlaves(
 
 	// Sync to SQL slaves (run in parallel)
 	const sqlPromises = sqlEndpoints.map((endpoint) =>
-		syncToSqlSlave(env, operations, endpoint, config)
+		syncToSqlSlave(env, operations, endpoint, config, keyFields)
 	);
 
 	// Sync to Redis slaves (run in parallel)
 	const redisPromises = redisEndpoints.map((endpoint) =>
-		syncToRedisSlave(env, operations, endpoint)
+		syncToRedisSlave(env, operations, endpoint, keyFields)
 	);
 
 	// Execute all syncs in parallel and collect results
@@ -145,7 +151,8 @@ async function syncToSqlSlave(
 	_env: Env,
 	operations: PatchOperation[],
 	endpoint: SlaveEndpoint,
-	config: ConfigData
+	config: ConfigData,
+	keyFields: string[]
 ): Promise<SlaveSyncResult> {
 	const startTime = Date.now();
 	const slaveId = endpoint.id;
@@ -154,6 +161,7 @@ async function syncToSqlSlave(
 		slaveId,
 		type: endpoint.type,
 		operationCount: operations.length,
+		keyFields,
 	});
 
 	try {
@@ -184,7 +192,8 @@ async function syncToSqlSlave(
 		// TODO: Actual SQL sync implementation would go here
 		// This would include:
 		// 1. Establishing connection to the SQL database
-		// 2. Preparing SQL statements for each operation type
+		// 2. Preparing SQL statements for each operation type, matching rows
+		//    on keyFields (the same key used by the master diff and patch)
 		// 3. Executing operations in a transaction
 		// 4. Handling database-specific error codes
 		// 5. Properly closing connections
@@ -229,7 +238,8 @@ async function syncToSqlSlave(
 async function syncToRedisSlave(
 	_env: Env,
 	operations: PatchOperation[],
-	endpoint: RedisEndpoint
+	endpoint: RedisEndpoint,
+	keyFields: string[]
 ): Promise<SlaveSyncResult> {
 	const startTime = Date.now();
 	const slaveId = endpoint.id;
@@ -237,6 +247,7 @@ async function syncToRedisSlave(
 	log('info', 'Syncing to Redis slave', {
 		slaveId,
 		operationCount: operations.length,
+		keyFields,
 	});
 
 	try {
@@ -256,7 +267,8 @@ async function syncToRedisSlave(
 		// 4. Using pipelines for batch operations
 		// 5. Handling connection errors gracefully
 
-		// Example of what operations would look like:
+		// Example of what operations would look like (op.key is built from
+		// keyFields, joined with COMPOSITE_KEY_SEPARATOR for composite keys):
 		// for (const op of operations) {
 		//   const key = `${endpoint.keyPrefix || 'callsign:'}${op.key}`;
 		//   if (op.type === 'insert' || op.type === 'update') {
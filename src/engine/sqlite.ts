@@ -0,0 +1,455 @@
+/**
+ * Minimal SQLite database file writer
+ *
+ * Builds B-trees bottom-up from rows and index keys supplied in key order, so
+ * a database file can be streamed page by page without holding it in memory.
+ * Pages are numbered in the order they are written; page 1, which holds the
+ * file header and the schema table, is built last by buildSqliteHeaderPage and
+ * written over the placeholder at the start of the file. Only what an export
+ * needs is supported: UTF-8 text, integers, reals and NULLs, no freelist.
+ */
+
+/**
+ * Page size of written files
+ */
+export const SQLITE_PAGE_SIZE = 4096;
+
+/**
+ * Value of a SQLite record column
+ */
+export type SqliteValue = string | number | null;
+
+/**
+ * Row of the sqlite_master schema table
+ */
+export interface SqliteSchemaEntry {
+	type: 'table' | 'index';
+	name: string;
+	tblName: string;
+	rootPage: number;
+	sql: string | null;
+}
+
+/**
+ * B-tree page type flags
+ */
+const PAGE_TYPES = {
+	tableLeaf: 0x0d,
+	tableInterior: 0x05,
+	indexLeaf: 0x0a,
+	indexInterior: 0x02,
+};
+
+/**
+ * Size of the file header at the start of page 1
+ */
+const FILE_HEADER_SIZE = 100;
+
+/**
+ * SQLite version recorded as the last writer (3.45.0)
+ */
+const WRITER_VERSION = 3045000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a SQLite variable-length integer
+ */
+export function encodeVarint(value: number): Uint8Array {
+	if (value >= 0 && value <= 0x7f) {
+		return Uint8Array.of(value);
+	}
+	let v = BigInt.asUintN(64, BigInt(value));
+	if (v > 0x00ffffffffffffffn) {
+		// Nine bytes: eight of seven bits, then a full final byte
+		const bytes = new Uint8Array(9);
+		bytes[8] = Number(v & 0xffn);
+		v >>= 8n;
+		for (let i = 7; i >= 0; i--) {
+			bytes[i] = Number(v & 0x7fn) | 0x80;
+			v >>= 7n;
+		}
+		return bytes;
+	}
+	const bytes: number[] = [];
+	while (v > 0n) {
+		bytes.unshift(Number(v & 0x7fn) | (bytes.length > 0 ? 0x80 : 0));
+		v >>= 7n;
+	}
+	return Uint8Array.from(bytes);
+}
+
+/**
+ * Join byte arrays
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+	const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		joined.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return joined;
+}
+
+/**
+ * Serial type and body of one record column
+ */
+function encodeValue(value: SqliteValue): { type: number; body: Uint8Array } {
+	if (value === null) {
+		return { type: 0, body: new Uint8Array(0) };
+	}
+	if (typeof value === 'string') {
+		const body = encoder.encode(value);
+		return { type: body.length * 2 + 13, body };
+	}
+	if (!Number.isInteger(value)) {
+		const body = new Uint8Array(8);
+		new DataView(body.buffer).setFloat64(0, value);
+		return { type: 7, body };
+	}
+	if (value === 0 || value === 1) {
+		return { type: value === 0 ? 8 : 9, body: new Uint8Array(0) };
+	}
+
+	// Smallest two's complement width that holds the integer
+	const widths: Array<[number, number]> = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6], [6, 8]];
+	const n = BigInt(value);
+	for (const [type, size] of widths) {
+		const limit = 1n << BigInt(size * 8 - 1);
+		if (n >= -limit && n < limit) {
+			const body = new Uint8Array(size);
+			let v = BigInt.asUintN(size * 8, n);
+			for (let i = size - 1; i >= 0; i--) {
+				body[i] = Number(v & 0xffn);
+				v >>= 8n;
+			}
+			return { type, body };
+		}
+	}
+	throw new Error(`Integer out of range: ${value}`);
+}
+
+/**
+ * Encode values in the SQLite record format
+ */
+export function encodeSqliteRecord(values: SqliteValue[]): Uint8Array {
+	const columns = values.map(encodeValue);
+	const types = concatBytes(columns.map((column) => encodeVarint(column.type)));
+
+	// The header size counts its own varint
+	let headerSize = types.length + 1;
+	while (encodeVarint(headerSize).length + types.length !== headerSize) {
+		headerSize = encodeVarint(headerSize).length + types.length;
+	}
+
+	return concatBytes([encodeVarint(headerSize), types, ...columns.map((column) => column.body)]);
+}
+
+/**
+ * Write a big-endian unsigned 32-bit integer
+ */
+function uint32(value: number): Uint8Array {
+	const bytes = new Uint8Array(4);
+	new DataView(bytes.buffer).setUint32(0, value);
+	return bytes;
+}
+
+/**
+ * Assemble a B-tree page; cells are in key order and rightChild is set for
+ * interior pages. offset leaves room for the file header on page 1.
+ */
+function buildPage(type: number, cells: Uint8Array[], rightChild?: number, offset = 0): Uint8Array {
+	const page = new Uint8Array(SQLITE_PAGE_SIZE);
+	const view = new DataView(page.buffer);
+	const headerSize = rightChild === undefined ? 8 : 12;
+
+	let contentStart = SQLITE_PAGE_SIZE;
+	cells.forEach((cell, i) => {
+		contentStart -= cell.length;
+		page.set(cell, contentStart);
+		view.setUint16(offset + headerSize + i * 2, contentStart);
+	});
+	if (contentStart < offset + headerSize + cells.length * 2) {
+		throw new Error('SQLite page overflow');
+	}
+
+	page[offset] = type;
+	view.setUint16(offset + 3, cells.length);
+	view.setUint16(offset + 5, contentStart);
+	if (rightChild !== undefined) {
+		view.setUint32(offset + 8, rightChild);
+	}
+	return page;
+}
+
+/**
+ * Whether cells of the given total size fit on one page
+ */
+function fitsPage(cellBytes: number, cellCount: number, interior: boolean): boolean {
+	return (interior ? 12 : 8) + cellBytes + cellCount * 2 <= SQLITE_PAGE_SIZE;
+}
+
+/**
+ * Page writer shared by the B-trees of one file
+ */
+export interface SqliteFile {
+	// Write the next page and return its number
+	writePage(page: Uint8Array): Promise<number>;
+	// Pages in the file so far, page 1 included
+	pageCount(): number;
+}
+
+/**
+ * Start a database file; page 1 must already be reserved at the start of the output
+ * A file resumed after pageCount pages continues numbering from there.
+ */
+export function createSqliteFile(emit: (page: Uint8Array) => Promise<void>, pageCount = 1): SqliteFile {
+	let pages = pageCount;
+	return {
+		async writePage(page: Uint8Array): Promise<number> {
+			await emit(page);
+			return ++pages;
+		},
+		pageCount: () => pages,
+	};
+}
+
+/**
+ * Payload cell: the payload length, the rowid on table leaves, the part stored
+ * on the page and the first overflow page; overflow pages are written straight away
+ */
+async function payloadCell(file: SqliteFile, payload: Uint8Array, rowid?: number): Promise<Uint8Array> {
+	const usable = SQLITE_PAGE_SIZE;
+	const maxLocal = rowid === undefined ? Math.floor(((usable - 12) * 64) / 255) - 23 : usable - 35;
+	const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+	const prefix = [encodeVarint(payload.length), ...(rowid === undefined ? [] : [encodeVarint(rowid)])];
+	if (payload.length <= maxLocal) {
+		return concatBytes([...prefix, payload]);
+	}
+
+	const spill = minLocal + ((payload.length - minLocal) % (usable - 4));
+	const local = spill <= maxLocal ? spill : minLocal;
+	const chunks: Uint8Array[] = [];
+	for (let start = local; start < payload.length; start += usable - 4) {
+		chunks.push(payload.subarray(start, start + usable - 4));
+	}
+
+	// Overflow pages are written consecutively, so each knows its successor
+	const first = file.pageCount() + 1;
+	for (let i = 0; i < chunks.length; i++) {
+		const page = new Uint8Array(SQLITE_PAGE_SIZE);
+		new DataView(page.buffer).setUint32(0, i + 1 < chunks.length ? first + i + 1 : 0);
+		page.set(chunks[i], 4);
+		await file.writePage(page);
+	}
+	return concatBytes([...prefix, payload.subarray(0, local), uint32(first)]);
+}
+
+/**
+ * Node of an interior level: children[i] precedes keys[i], the last child is the right child
+ */
+interface InteriorNode {
+	children: number[];
+	keys: Uint8Array[];
+	size: number;
+}
+
+/**
+ * One interior level of a B-tree under construction
+ * The last full node is held back so the final node can borrow from it
+ * rather than end up with no keys.
+ */
+interface InteriorLevel {
+	type: number;
+	node: InteriorNode;
+	held?: InteriorNode;
+	heldSeparator?: Uint8Array;
+	parent?: InteriorLevel;
+}
+
+/**
+ * State of a B-tree builder, which a builder can be resumed from
+ * Table builders use lastRowid; index builders hold a full leaf back.
+ */
+export interface SqliteBuilderState {
+	cells: Uint8Array[];
+	size: number;
+	lastRowid?: number;
+	held?: Uint8Array[];
+	heldSeparator?: Uint8Array;
+	parent?: InteriorLevel;
+}
+
+function emptyNode(): InteriorNode {
+	return { children: [], keys: [], size: 0 };
+}
+
+/**
+ * Write an interior node as a page
+ */
+function writeInteriorNode(file: SqliteFile, type: number, node: InteriorNode): Promise<number> {
+	const cells = node.keys.map((key, i) => concatBytes([uint32(node.children[i]), key]));
+	return file.writePage(buildPage(type, cells, node.children[node.children.length - 1]));
+}
+
+/**
+ * Add a child and the key that follows it to an interior level
+ */
+async function pushInterior(
+	file: SqliteFile,
+	level: InteriorLevel,
+	child: number,
+	key: Uint8Array
+): Promise<void> {
+	level.node.children.push(child);
+	if (fitsPage(level.node.size + 4 + key.length, level.node.keys.length + 1, true)) {
+		level.node.keys.push(key);
+		level.node.size += 4 + key.length;
+		return;
+	}
+
+	// The node is full: it ends at this child and the key moves up a level
+	if (level.held) {
+		const page = await writeInteriorNode(file, level.type, level.held);
+		level.parent ??= { type: level.type, node: emptyNode() };
+		await pushInterior(file, level.parent, page, level.heldSeparator!);
+	}
+	level.held = level.node;
+	level.heldSeparator = key;
+	level.node = emptyNode();
+}
+
+/**
+ * Close an interior level with its last child; returns the root page number
+ */
+async function finishInterior(file: SqliteFile, level: InteriorLevel, child: number): Promise<number> {
+	const node = level.node;
+	node.children.push(child);
+
+	if (node.keys.length === 0 && level.held) {
+		// Borrow the held node's last child so the final node has a key
+		const held = level.held;
+		const borrowedKey = held.keys.pop()!;
+		node.children.unshift(held.children.pop()!);
+		node.keys.push(level.heldSeparator!);
+		held.size -= 4 + borrowedKey.length;
+		level.heldSeparator = borrowedKey;
+	}
+	if (level.held) {
+		const page = await writeInteriorNode(file, level.type, level.held);
+		level.parent ??= { type: level.type, node: emptyNode() };
+		await pushInterior(file, level.parent, page, level.heldSeparator!);
+	}
+	if (node.keys.length === 0) {
+		return child;
+	}
+
+	const page = await writeInteriorNode(file, level.type, node);
+	return level.parent ? finishInterior(file, level.parent, page) : page;
+}
+
+/**
+ * Builder of a table B-tree from rows in ascending rowid order
+ */
+export function createTableBuilder(file: SqliteFile, resume?: SqliteBuilderState) {
+	const state: SqliteBuilderState = resume ?? { cells: [], size: 0, lastRowid: 0 };
+
+	return {
+		async add(rowid: number, values: SqliteValue[]): Promise<void> {
+			const cell = await payloadCell(file, encodeSqliteRecord(values), rowid);
+			if (state.cells.length > 0 && !fitsPage(state.size + cell.length, state.cells.length + 1, false)) {
+				const page = await file.writePage(buildPage(PAGE_TYPES.tableLeaf, state.cells));
+				state.parent ??= { type: PAGE_TYPES.tableInterior, node: emptyNode() };
+				await pushInterior(file, state.parent, page, encodeVarint(state.lastRowid!));
+				state.cells = [];
+				state.size = 0;
+			}
+			state.cells.push(cell);
+			state.size += cell.length;
+			state.lastRowid = rowid;
+		},
+		async finish(): Promise<number> {
+			const page = await file.writePage(buildPage(PAGE_TYPES.tableLeaf, state.cells));
+			return state.parent ? finishInterior(file, state.parent, page) : page;
+		},
+		state: () => state,
+	};
+}
+
+/**
+ * Builder of an index B-tree from keys in ascending index order
+ * A key is the indexed values followed by the rowid.
+ */
+export function createIndexBuilder(file: SqliteFile, resume?: SqliteBuilderState) {
+	const state: SqliteBuilderState = resume ?? { cells: [], size: 0 };
+
+	const writeHeld = async () => {
+		const page = await file.writePage(buildPage(PAGE_TYPES.indexLeaf, state.held!));
+		state.parent ??= { type: PAGE_TYPES.indexInterior, node: emptyNode() };
+		await pushInterior(file, state.parent, page, state.heldSeparator!);
+	};
+
+	return {
+		async add(values: SqliteValue[]): Promise<void> {
+			// Index cells are the same on leaf and interior pages, after the child pointer
+			const cell = await payloadCell(file, encodeSqliteRecord(values));
+			if (fitsPage(state.size + cell.length, state.cells.length + 1, false)) {
+				state.cells.push(cell);
+				state.size += cell.length;
+				return;
+			}
+
+			// The leaf is full: this key separates it from the next leaf
+			if (state.held) {
+				await writeHeld();
+			}
+			state.held = state.cells;
+			state.heldSeparator = cell;
+			state.cells = [];
+			state.size = 0;
+		},
+		async finish(): Promise<number> {
+			if (state.held && state.cells.length === 0) {
+				// Borrow the held leaf's last key so the final leaf is not empty
+				state.cells.push(state.heldSeparator!);
+				state.heldSeparator = state.held.pop();
+			}
+			if (state.held) {
+				await writeHeld();
+			}
+			const page = await file.writePage(buildPage(PAGE_TYPES.indexLeaf, state.cells));
+			return state.parent ? finishInterior(file, state.parent, page) : page;
+		},
+		state: () => state,
+	};
+}
+
+/**
+ * Page 1: the file header and the sqlite_master table, which must fit on one page
+ */
+export function buildSqliteHeaderPage(pageCount: number, schema: SqliteSchemaEntry[]): Uint8Array {
+	const cells = schema.map((entry, i) => {
+		const record = encodeSqliteRecord([entry.type, entry.name, entry.tblName, entry.rootPage, entry.sql]);
+		return concatBytes([encodeVarint(record.length), encodeVarint(i + 1), record]);
+	});
+	const page = buildPage(PAGE_TYPES.tableLeaf, cells, undefined, FILE_HEADER_SIZE);
+
+	const view = new DataView(page.buffer);
+	page.set(encoder.encode('SQLite format 3\0'), 0);
+	view.setUint16(16, SQLITE_PAGE_SIZE);
+	page[18] = 1; // legacy journal write and read versions
+	page[19] = 1;
+	page[20] = 0; // reserved bytes per page
+	page[21] = 64; // payload fractions, fixed by the format
+	page[22] = 32;
+	page[23] = 32;
+	view.setUint32(24, 1); // file change counter
+	view.setUint32(28, pageCount);
+	view.setUint32(40, 1); // schema cookie
+	view.setUint32(44, 4); // schema format
+	view.setUint32(56, 1); // UTF-8
+	view.setUint32(92, 1); // version-valid-for matches the change counter
+	view.setUint32(96, WRITER_VERSION);
+	return page;
+}
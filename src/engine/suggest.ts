@@ -0,0 +1,196 @@
+/**
+ * "Did you mean" suggestions for callsigns that are not in the database
+ *
+ * Candidates are the callsigns one edit away from the request (substitution,
+ * insertion, deletion or adjacent transposition) plus pairs of confusable
+ * substitutions. Characters that are easily mistaken for each other in CW or
+ * over the air cost less to swap, so the likeliest mistakes rank first. Only
+ * candidates that exist in D1 are returned. This runs on the miss path only.
+ */
+
+import type { CallsignSuggestion, Env } from '../types';
+import { isValidCallsign } from '../utils';
+import { getCallsignRecords, mapRecordToCallsignData } from './database';
+
+/**
+ * Suggestions returned with a miss
+ */
+export const SUGGEST_LIMIT = 5;
+
+/**
+ * Most candidates looked up for one miss, cheapest first
+ */
+export const SUGGEST_MAX_CANDIDATES = 300;
+
+/**
+ * Candidates per D1 lookup (the bound-parameter limit)
+ */
+const SUGGEST_LOOKUP_BATCH = 100;
+
+/**
+ * Cost of an edit between characters that are not confusable
+ */
+const EDIT_COST = 1;
+
+/**
+ * Groups of characters easily mistaken for each other, with the cost of
+ * swapping any two members of a group
+ */
+const CONFUSION_GROUPS: Array<[string, number]> = [
+	// CW: runs of dits or dahs miscounted (E I S H 5, T M O 0)
+	['EISH5', 0.4],
+	['TMO0', 0.4],
+	// CW: one element dropped or added (A W J 1, U V 4, N D B 6, G Z 7, K Y, R L)
+	['AWJ1', 0.5],
+	['UV4', 0.5],
+	['NDB6', 0.5],
+	['GZ7', 0.5],
+	['KY', 0.5],
+	['RL', 0.6],
+	// CW cut numbers
+	['T0', 0.5],
+	['N9', 0.5],
+	['A1', 0.5],
+	['E5', 0.5],
+	['U2', 0.6],
+	['V3', 0.6],
+	['B7', 0.6],
+	['D8', 0.6],
+	// Spoken letters that rhyme, and digits that sound alike
+	['BCDEGPTVZ', 0.6],
+	['MN', 0.5],
+	['FS', 0.6],
+	['AJK', 0.7],
+	['IY', 0.7],
+	['QU', 0.7],
+	['59', 0.7],
+];
+
+/**
+ * Confusable replacements for each character with their cheapest cost
+ */
+const CONFUSIONS: Map<string, Map<string, number>> = (() => {
+	const confusions = new Map<string, Map<string, number>>();
+	for (const [group, cost] of CONFUSION_GROUPS) {
+		for (const from of group) {
+			const replacements = confusions.get(from) ?? new Map<string, number>();
+			for (const to of group) {
+				if (from !== to && cost < (replacements.get(to) ?? EDIT_COST)) {
+					replacements.set(to, cost);
+				}
+			}
+			confusions.set(from, replacements);
+		}
+	}
+	return confusions;
+})();
+
+/**
+ * Characters a callsign may contain
+ */
+const CALLSIGN_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * Cost of replacing one character with another
+ */
+export function substitutionCost(from: string, to: string): number {
+	return from === to ? 0 : (CONFUSIONS.get(from)?.get(to) ?? EDIT_COST);
+}
+
+/**
+ * Valid callsigns near the given one with their weighted edit distance,
+ * cheapest first (ties in callsign order)
+ */
+export function suggestionCandidates(callsign: string): Array<{ callsign: string; distance: number }> {
+	const input = callsign.toUpperCase();
+	const candidates = new Map<string, number>();
+	const add = (candidate: string, distance: number) => {
+		if (candidate !== input && distance < (candidates.get(candidate) ?? Infinity)) {
+			candidates.set(candidate, distance);
+		}
+	};
+
+	for (let i = 0; i <= input.length; i++) {
+		const head = input.slice(0, i);
+		const tail = input.slice(i);
+		for (const c of CALLSIGN_CHARACTERS) {
+			add(head + c + tail, EDIT_COST);
+			if (i < input.length) {
+				add(head + c + tail.slice(1), substitutionCost(input[i], c));
+			}
+		}
+		if (i < input.length) {
+			add(head + tail.slice(1), EDIT_COST);
+		}
+		if (i < input.length - 1 && input[i] !== input[i + 1]) {
+			add(head + input[i + 1] + input[i] + input.slice(i + 2), EDIT_COST);
+		}
+	}
+
+	// Two confusable characters in the same callsign still cost less than one plain edit
+	for (let i = 0; i < input.length; i++) {
+		for (const [first, firstCost] of CONFUSIONS.get(input[i]) ?? []) {
+			for (let j = i + 1; j < input.length; j++) {
+				for (const [second, secondCost] of CONFUSIONS.get(input[j]) ?? []) {
+					if (firstCost + secondCost < EDIT_COST) {
+						add(
+							input.slice(0, i) + first + input.slice(i + 1, j) + second + input.slice(j + 1),
+							firstCost + secondCost
+						);
+					}
+				}
+			}
+		}
+	}
+
+	return [...candidates]
+		.filter(([candidate]) => isValidCallsign(candidate))
+		.map(([candidate, distance]) => ({ callsign: candidate, distance: Math.round(distance * 10) / 10 }))
+		.sort((a, b) => a.distance - b.distance || a.callsign.localeCompare(b.callsign));
+}
+
+/**
+ * Existing callsigns the caller likely meant, closest first
+ * Active licenses rank ahead of others at the same distance. Looks up at most
+ * SUGGEST_MAX_CANDIDATES candidates; throws on database errors.
+ */
+export async function suggestCallsigns(
+	env: Env,
+	callsign: string,
+	limit = SUGGEST_LIMIT
+): Promise<CallsignSuggestion[]> {
+	const candidates = suggestionCandidates(callsign).slice(0, SUGGEST_MAX_CANDIDATES);
+	const batches: Array<typeof candidates> = [];
+	for (let i = 0; i < candidates.length; i += SUGGEST_LOOKUP_BATCH) {
+		batches.push(candidates.slice(i, i + SUGGEST_LOOKUP_BATCH));
+	}
+
+	const found = (
+		await Promise.all(batches.map((batch) => getCallsignRecords(env, batch.map((c) => c.callsign))))
+	).flat();
+	const stored = new Map(found.map((record) => [record.callsign, record]));
+
+	const suggestions: CallsignSuggestion[] = [];
+	for (const candidate of candidates) {
+		const record = stored.get(candidate.callsign);
+		if (!record) {
+			continue;
+		}
+		const data = mapRecordToCallsignData(record);
+		suggestions.push({
+			callsign: candidate.callsign,
+			distance: candidate.distance,
+			name: data.name,
+			license_class: data.license_class,
+			license_status: data.license_status,
+		});
+	}
+
+	suggestions.sort(
+		(a, b) =>
+			a.distance - b.distance ||
+			Number(b.license_status === 'A') - Number(a.license_status === 'A') ||
+			a.callsign.localeCompare(b.callsign)
+	);
+	return suggestions.slice(0, limit);
+}
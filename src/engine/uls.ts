@@ -0,0 +1,313 @@
+/**
+ * FCC ULS record layouts and multi-file joining
+ *
+ * The amateur license dump (l_amat.zip) splits each license across several
+ * pipe-delimited files that share a unique_system_identifier. This module knows
+ * their layouts and merges them into one delimited record per callsign.
+ */
+
+import type { ConfigData, DataSourceFile, DataSourceSchema } from '../types';
+import { log } from '../utils';
+
+/**
+ * Default join key shared by every ULS file
+ */
+export const DEFAULT_JOIN_FIELD = 'unique_system_identifier';
+
+/**
+ * Delimiter used for joined content
+ */
+export const JOINED_DELIMITER = '|';
+
+/**
+ * Separator for values collected from files with several rows per join key
+ */
+export const MULTI_VALUE_SEPARATOR = ';';
+
+/**
+ * AM (amateur) record layout
+ */
+export const AM_FIELDS = [
+	'record_type', 'unique_system_identifier', 'uls_file_number',
+	'ebf_number', 'callsign', 'operator_class', 'group_code',
+	'region_code', 'trustee_callsign', 'trustee_indicator',
+	'physician_certification', 've_signature', 'systematic_callsign_change',
+	'vanity_callsign_change', 'vanity_relationship', 'previous_callsign',
+	'previous_operator_class', 'trustee_name',
+];
+
+/**
+ * EN (entity) record layout: licensee name, address and FRN
+ */
+export const EN_FIELDS = [
+	'record_type', 'unique_system_identifier', 'uls_file_number',
+	'ebf_number', 'callsign', 'entity_type', 'licensee_id',
+	'entity_name', 'first_name', 'mi', 'last_name', 'suffix',
+	'phone', 'fax', 'email', 'street_address', 'city', 'state',
+	'zip_code', 'po_box', 'attention_line', 'sgin', 'frn',
+	'applicant_type_code', 'applicant_type_other', 'status_code',
+	'status_date', 'lic_category_code', 'linked_license_id', 'linked_callsign',
+];
+
+/**
+ * HD (header) record layout: license status and grant/expiry dates
+ */
+export const HD_FIELDS = [
+	'record_type', 'unique_system_identifier', 'uls_file_number',
+	'ebf_number', 'callsign', 'license_status', 'radio_service_code',
+	'grant_date', 'expired_date', 'cancellation_date', 'eligibility_rule_num',
+	'applicant_type_code_reserved', 'alien', 'alien_government',
+	'alien_corporation', 'alien_officer', 'alien_control', 'revoked',
+	'convicted', 'adjudged', 'involved_reserved', 'common_carrier',
+	'non_common_carrier', 'private_comm', 'fixed', 'mobile', 'radiolocation',
+	'satellite', 'developmental_or_sta', 'interconnected_service',
+	'certifier_first_name', 'certifier_mi', 'certifier_last_name',
+	'certifier_suffix', 'certifier_title', 'gender', 'african_american',
+	'native_american', 'hawaiian', 'asian', 'white', 'ethnicity',
+	'effective_date', 'last_action_date', 'auction_id', 'reg_stat_broad_serv',
+	'band_manager', 'type_serv_broad_serv', 'alien_ruling',
+	'licensee_name_change', 'whitespace_ind', 'additional_cert_choice',
+	'additional_cert_answer', 'discontinuation_ind', 'regulatory_compliance_ind',
+	'eligibility_cert_900', 'transition_plan_cert_900', 'return_spectrum_cert_900',
+	'payment_cert_900',
+];
+
+/**
+ * HS (history) record layout: one row per license action
+ */
+export const HS_FIELDS = [
+	'record_type', 'unique_system_identifier', 'uls_file_number',
+	'callsign', 'log_date', 'code',
+];
+
+/**
+ * CO (comments) record layout: free-form license comments
+ */
+export const CO_FIELDS = [
+	'record_type', 'unique_system_identifier', 'uls_file_number',
+	'callsign', 'comment_date', 'description', 'status_code', 'status_date',
+];
+
+/**
+ * Fields that are never copied into the joined record
+ */
+const EXCLUDED_JOIN_FIELDS = new Set(['record_type']);
+
+/**
+ * Get the files to extract, falling back to the single-file configuration
+ */
+export function getSourceFiles(config: ConfigData): DataSourceFile[] {
+	const { files, extractedFileName, expectedSchema } = config.dataSource;
+	if (files && files.length > 0) {
+		return files;
+	}
+	return [{ fileName: extractedFileName, expectedSchema, required: true }];
+}
+
+/**
+ * Check whether the configuration joins several files
+ */
+export function isMultiFileSource(config: ConfigData): boolean {
+	return !!config.dataSource.files && config.dataSource.files.length > 0;
+}
+
+/**
+ * Get the file whose rows anchor the join (one joined record per row)
+ */
+export function getPrimaryFile(config: ConfigData): DataSourceFile {
+	const files = getSourceFiles(config);
+	return (
+		files.find((f) => f.fileName === config.dataSource.extractedFileName) || files[0]
+	);
+}
+
+/**
+ * Field names of the joined record, callsign first
+ */
+export function getJoinedFields(config: ConfigData): string[] {
+	const joinField = config.dataSource.joinField || DEFAULT_JOIN_FIELD;
+	const fields: string[] = ['callsign', joinField];
+
+	for (const file of getSourceFiles(config)) {
+		for (const field of file.expectedSchema.fields) {
+			if (EXCLUDED_JOIN_FIELDS.has(field) || field === joinField) {
+				continue;
+			}
+			const name = `${file.fieldPrefix || ''}${field}`;
+			if (!fields.includes(name)) {
+				fields.push(name);
+			}
+		}
+	}
+
+	return fields;
+}
+
+/**
+ * Schema of the content handed to diffing and patching
+ * Multi-file sources produce joined content with a header row, keyed on the
+ * primary schema's keyField or callsign.
+ */
+export function getRecordSchema(config: ConfigData): DataSourceSchema {
+	if (!isMultiFileSource(config)) {
+		return config.dataSource.expectedSchema;
+	}
+	return {
+		fields: getJoinedFields(config),
+		delimiter: JOINED_DELIMITER,
+		hasHeader: true,
+		keyField: config.dataSource.expectedSchema.keyField || 'callsign',
+	};
+}
+
+/**
+ * Split delimited content into field maps using a schema
+ */
+function parseRows(content: string, schema: DataSourceSchema): Record<string, string>[] {
+	const delimiter = schema.delimiter || ',';
+	const lines = content.split('\n').filter((line) => line.trim().length > 0);
+	const startIndex = schema.hasHeader !== false ? 1 : 0;
+	const rows: Record<string, string>[] = [];
+
+	for (let i = startIndex; i < lines.length; i++) {
+		const values = lines[i].split(delimiter).map((v) => v.trim());
+		const row: Record<string, string> = {};
+		for (let j = 0; j < Math.min(schema.fields.length, values.length); j++) {
+			row[schema.fields[j]] = values[j];
+		}
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+/**
+ * Strip characters that would break the joined line format
+ */
+function sanitizeValue(value: string): string {
+	return value.replace(/[|\r\n]/g, ' ').trim();
+}
+
+/**
+ * Join extracted ULS files into one delimited record per callsign
+ *
+ * Rows of the primary file define the records. Other files are matched on the
+ * join field; the first non-empty value wins when files share a field name.
+ * When several identifiers map to the same callsign, an active license
+ * (license_status A) is preferred, otherwise the last one seen is kept.
+ */
+export function joinSourceFiles(
+	contents: Record<string, string>,
+	config: ConfigData
+): { content: string; recordCount: number; unmatched: Record<string, number> } {
+	const joinField = config.dataSource.joinField || DEFAULT_JOIN_FIELD;
+	const files = getSourceFiles(config);
+	const primary = getPrimaryFile(config);
+	const fields = getJoinedFields(config);
+	const unmatched: Record<string, number> = {};
+
+	// Index secondary files by join key
+	const indexes = new Map<string, Map<string, Record<string, string>[]>>();
+	for (const file of files) {
+		if (file === primary || contents[file.fileName] === undefined) {
+			continue;
+		}
+		const index = new Map<string, Record<string, string>[]>();
+		for (const row of parseRows(contents[file.fileName], file.expectedSchema)) {
+			const key = row[joinField];
+			if (!key) {
+				continue;
+			}
+			const existing = index.get(key);
+			if (existing) {
+				existing.push(row);
+			} else {
+				index.set(key, [row]);
+			}
+		}
+		indexes.set(file.fileName, index);
+		unmatched[file.fileName] = 0;
+	}
+
+	const byCallsign = new Map<string, Record<string, string>>();
+
+	for (const primaryRow of parseRows(contents[primary.fileName] || '', primary.expectedSchema)) {
+		const key = primaryRow[joinField];
+		if (!key) {
+			continue;
+		}
+
+		const merged: Record<string, string> = { [joinField]: key };
+
+		for (const file of files) {
+			let rows: Record<string, string>[] | undefined;
+			if (file === primary) {
+				rows = [primaryRow];
+			} else {
+				rows = indexes.get(file.fileName)?.get(key);
+				if (!rows) {
+					if (file.fileName in unmatched) {
+						unmatched[file.fileName]++;
+					}
+					continue;
+				}
+			}
+
+			for (const field of file.expectedSchema.fields) {
+				if (EXCLUDED_JOIN_FIELDS.has(field) || field === joinField) {
+					continue;
+				}
+				const name = `${file.fieldPrefix || ''}${field}`;
+				const value = file.multiple
+					? rows.map((r) => sanitizeValue(r[field] || '')).join(MULTI_VALUE_SEPARATOR)
+					: sanitizeValue(rows[0][field] || '');
+				if (!merged[name] && value) {
+					merged[name] = value;
+				}
+			}
+		}
+
+		const callsign = merged.callsign;
+		if (!callsign) {
+			continue;
+		}
+
+		const current = byCallsign.get(callsign);
+		if (current && current.license_status === 'A' && merged.license_status !== 'A') {
+			continue;
+		}
+		byCallsign.set(callsign, merged);
+	}
+
+	const lines = [fields.join(JOINED_DELIMITER)];
+	for (const record of byCallsign.values()) {
+		lines.push(fields.map((field) => record[field] || '').join(JOINED_DELIMITER));
+	}
+
+	log('info', 'Joined ULS source files', {
+		files: files.map((f) => f.fileName),
+		records: byCallsign.size,
+		unmatched,
+	});
+
+	return {
+		content: lines.join('\n') + '\n',
+		recordCount: byCallsign.size,
+		unmatched,
+	};
+}
+
+/**
+ * Convert a ULS date (MM/DD/YYYY) to ISO format (YYYY-MM-DD)
+ * Returns undefined for empty or malformed values.
+ */
+export function normalizeUlsDate(value: string | undefined): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const match = value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+	if (!match) {
+		return undefined;
+	}
+	return `${match[3]}-${match[1]}-${match[2]}`;
+}
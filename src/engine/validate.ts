@@ -2,9 +2,14 @@
  * Validation engine for data integrity and schema validation
  */
 
-import type { Env, ValidationResult, ConfigData } from '../types';
+import type { Env, ValidationResult, ConfigData, DataSourceSchema } from '../types';
 import { log, HASH_DISPLAY_LENGTH } from '../utils';
 import { logValidationEvent } from './logger';
+import { getRecordSchema, getSourceFiles } from './uls';
+import { getKeyFields, parseKeyedRecords } from './records';
+
+// Number of duplicate keys quoted in validation warnings
+const MAX_REPORTED_DUPLICATES = 5;
 
 /**
  * Calculate SHA-256 hash of content
@@ -69,10 +74,13 @@ function parseDelimitedContent(
 
 /**
  * Validate header/schema match
+ * Defaults to the schema of the content handed to diffing (joined content for
+ * multi-file sources); pass a file's own schema to validate a raw source file.
  */
 export function validateSchema(
 	content: string,
-	config: ConfigData
+	config: ConfigData,
+	schema: DataSourceSchema = getRecordSchema(config)
 ): {
 	valid: boolean;
 	errors: string[];
@@ -81,10 +89,17 @@ export function validateSchema(
 	recordCount: number;
 } {
 	const errors: string[] = [];
-	const expectedSchema = config.dataSource.expectedSchema;
+	const expectedSchema = schema;
 	const delimiter = expectedSchema.delimiter || ',';
 	const hasHeader = expectedSchema.hasHeader !== false; // Default to true
 
+	const unknownKeyFields = getKeyFields(expectedSchema).filter(
+		(field) => !expectedSchema.fields.includes(field)
+	);
+	if (unknownKeyFields.length > 0) {
+		errors.push(`Key field(s) not in schema: ${unknownKeyFields.join(', ')}`);
+	}
+
 	try {
 		const { headers, rows } = parseDelimitedContent(content, delimiter);
 
@@ -156,7 +171,8 @@ export async function validateData(
 	env: Env,
 	content: string,
 	config: ConfigData,
-	expectedHash?: string
+	expectedHash?: string,
+	sourceFiles?: Record<string, string>
 ): Promise<ValidationResult> {
 	const startTime = Date.now();
 	const errors: string[] = [];
@@ -186,11 +202,43 @@ export async function validateData(
 			errors.push(...schemaResult.errors);
 		}
 
+		// 2a. Validate each raw source file against its own layout
+		let sourceFilesMatch = true;
+		if (sourceFiles) {
+			for (const file of getSourceFiles(config)) {
+				const fileContent = sourceFiles[file.fileName];
+				if (fileContent === undefined) {
+					continue;
+				}
+				const fileResult = validateSchema(fileContent, config, file.expectedSchema);
+				sourceFilesMatch = sourceFilesMatch && fileResult.valid;
+				errors.push(...fileResult.errors.map((e) => `${file.fileName}: ${e}`));
+				if (fileResult.recordCount === 0) {
+					warnings.push(`${file.fileName}: No data records found in file`);
+				}
+			}
+		}
+
 		// 3. Additional validations
 		if (schemaResult.recordCount === 0) {
 			warnings.push('No data records found in file');
 		}
 
+		// 4. Report duplicate or missing record keys
+		const recordSchema = getRecordSchema(config);
+		const keyed = parseKeyedRecords(content, recordSchema);
+		const keyLabel = getKeyFields(recordSchema).join(' + ');
+		if (keyed.duplicates.length > 0) {
+			warnings.push(
+				`${keyed.duplicates.length} duplicate ${keyLabel} keys; the last record wins (e.g. ${keyed.duplicates
+					.slice(0, MAX_REPORTED_DUPLICATES)
+					.join(', ')})`
+			);
+		}
+		if (keyed.missingKeys > 0) {
+			warnings.push(`${keyed.missingKeys} records have an empty ${keyLabel} key and will be skipped`);
+		}
+
 		const duration = Date.now() - startTime;
 		const success = errors.length === 0;
 
@@ -201,7 +249,7 @@ export async function validateData(
 			metadata: {
 				timestamp: new Date().toISOString(),
 				hashMatch,
-				schemaMatch,
+				schemaMatch: schemaMatch && sourceFilesMatch,
 				headerMatch: schemaMatch,
 				recordCount: schemaResult.recordCount,
 			},
@@ -220,7 +268,7 @@ export async function validateData(
 			recordCount: schemaResult.recordCount,
 			metadata: {
 				hashMatch,
-				schemaMatch,
+				schemaMatch: schemaMatch && sourceFilesMatch,
 				errors,
 				warnings,
 			},
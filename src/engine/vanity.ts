@@ -0,0 +1,398 @@
+/**
+ * Vanity callsign availability
+ *
+ * A pattern such as K?1?? is expanded into the callsigns it matches in each
+ * FCC vanity format (1x2, 2x1, 2x2, 1x3, 2x3). Candidates are enumerated by
+ * index so a request can resume from a cursor without expanding the whole
+ * pattern, and are checked against D1 in batches of IN (...) lookups.
+ */
+
+import type { Env, StoredCallsignRecord, VanityCandidate, VanityFormat, VanityGroup } from '../types';
+import { getCallsignRecords, mapRecordToCallsignData } from './database';
+
+/**
+ * Years a callsign stays reserved after its license expires or is cancelled
+ */
+export const VANITY_GRACE_YEARS = 2;
+
+/**
+ * Page size used when the request does not set limit
+ */
+export const VANITY_DEFAULT_LIMIT = 50;
+
+/**
+ * Largest page size a request may ask for
+ */
+export const VANITY_MAX_LIMIT = 100;
+
+/**
+ * Most candidates looked up in D1 by one request
+ */
+export const VANITY_MAX_CHECKED = 1000;
+
+/**
+ * Candidates per D1 lookup (the bound-parameter limit)
+ */
+const VANITY_LOOKUP_BATCH = 100;
+
+/**
+ * Operator class codes that may hold each vanity group
+ */
+export const VANITY_GROUP_CLASSES: Record<VanityGroup, string[]> = {
+	A: ['E'],
+	B: ['E', 'A'],
+	C: ['E', 'A', 'G', 'P'],
+	D: ['E', 'A', 'G', 'P', 'T', 'N'],
+};
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const DIGITS = '0123456789'.split('');
+
+// Alaska, Hawaii and Pacific/Caribbean prefixes are only issued for those regions
+const REGION_PREFIXES = ['AH', 'AL', 'KH', 'KL', 'KP', 'NH', 'NL', 'NP', 'WH', 'WL', 'WP'];
+
+/**
+ * Two-letter prefixes from a first letter and a range of second letters
+ */
+function twoLetterPrefixes(first: string, from: string, to: string): string[] {
+	return LETTERS.filter((letter) => letter >= from && letter <= to)
+		.map((letter) => first + letter)
+		.filter((prefix) => !REGION_PREFIXES.includes(prefix));
+}
+
+const A_PREFIXES = twoLetterPrefixes('A', 'A', 'L');
+const K_PREFIXES = twoLetterPrefixes('K', 'A', 'Z');
+const N_PREFIXES = twoLetterPrefixes('N', 'A', 'Z');
+const W_PREFIXES = twoLetterPrefixes('W', 'A', 'Z');
+
+interface VanityFormatRule {
+	format: VanityFormat;
+	group: VanityGroup;
+	prefixes: string[];
+	suffixLength: number;
+}
+
+// In enumeration order
+const VANITY_FORMAT_RULES: VanityFormatRule[] = [
+	{ format: '1x2', group: 'A', prefixes: ['K', 'N', 'W'], suffixLength: 2 },
+	{
+		format: '2x1',
+		group: 'A',
+		prefixes: [...A_PREFIXES, ...K_PREFIXES, ...N_PREFIXES, ...W_PREFIXES],
+		suffixLength: 1,
+	},
+	{ format: '2x2', group: 'A', prefixes: A_PREFIXES, suffixLength: 2 },
+	{ format: '2x2', group: 'B', prefixes: [...K_PREFIXES, ...N_PREFIXES, ...W_PREFIXES], suffixLength: 2 },
+	{ format: '1x3', group: 'C', prefixes: ['K', 'N', 'W'], suffixLength: 3 },
+	{ format: '2x3', group: 'D', prefixes: [...K_PREFIXES, ...W_PREFIXES], suffixLength: 3 },
+];
+
+/**
+ * Whether a callsign of a format is never issued
+ * SOS and the Q-signals QRA-QUZ are not assignable, and 2x3 suffixes starting
+ * with X are reserved.
+ */
+function isExcluded(format: VanityFormat, suffix: string): boolean {
+	if (suffix === 'SOS' || (suffix.length === 3 && suffix >= 'QRA' && suffix <= 'QUZ')) {
+		return true;
+	}
+	return format === '2x3' && suffix.startsWith('X');
+}
+
+/**
+ * One format a pattern can take, with the choices left at each position
+ */
+interface VanityPatternFormat {
+	rule: VanityFormatRule;
+	// Prefix choices, then the digit, then one list per suffix letter
+	choices: string[][];
+	size: number;
+}
+
+/**
+ * A parsed vanity pattern
+ */
+export interface VanityPattern {
+	pattern: string;
+	formats: VanityPatternFormat[];
+	// Number of candidates across all formats, excluded callsigns included
+	total: number;
+}
+
+/**
+ * Choices for one pattern character: itself, or every option for '?'
+ */
+function expand(char: string, options: string[]): string[] | null {
+	if (char === '?') {
+		return options;
+	}
+	return options.includes(char) ? [char] : null;
+}
+
+/**
+ * Parse a vanity pattern such as K?1??
+ * '?' stands for any letter or digit the format allows at that position.
+ * operatorClass keeps only the formats that class may apply for.
+ */
+export function parseVanityPattern(
+	input: string,
+	operatorClass?: string
+): { pattern?: VanityPattern; error?: string } {
+	const pattern = input.trim().toUpperCase();
+	if (!/^[A-Z0-9?]{4,6}$/.test(pattern)) {
+		return { error: 'Pattern must be 4 to 6 letters, digits or ? wildcards' };
+	}
+
+	const formats: VanityPatternFormat[] = [];
+	for (const rule of VANITY_FORMAT_RULES) {
+		const prefixLength = rule.prefixes[0].length;
+		if (pattern.length !== prefixLength + 1 + rule.suffixLength) {
+			continue;
+		}
+		if (operatorClass && !VANITY_GROUP_CLASSES[rule.group].includes(operatorClass)) {
+			continue;
+		}
+
+		const prefixPattern = pattern.substring(0, prefixLength);
+		const prefixes = rule.prefixes.filter((prefix) =>
+			prefix.split('').every((char, i) => prefixPattern[i] === '?' || prefixPattern[i] === char)
+		);
+		const digit = expand(pattern[prefixLength], DIGITS);
+		const suffix = pattern
+			.substring(prefixLength + 1)
+			.split('')
+			.map((char) => expand(char, LETTERS));
+		if (prefixes.length === 0 || !digit || suffix.some((choices) => !choices)) {
+			continue;
+		}
+
+		const choices = [prefixes, digit, ...(suffix as string[][])];
+		formats.push({
+			rule,
+			choices,
+			size: choices.reduce((size, options) => size * options.length, 1),
+		});
+	}
+
+	if (formats.length === 0) {
+		return {
+			error: operatorClass
+				? `Pattern ${pattern} matches no vanity format open to that license class`
+				: `Pattern ${pattern} matches no vanity callsign format`,
+		};
+	}
+
+	return {
+		pattern: {
+			pattern,
+			formats,
+			total: formats.reduce((total, format) => total + format.size, 0),
+		},
+	};
+}
+
+/**
+ * The candidate at an index of the pattern's enumeration
+ * Returns null past the end and for callsigns that are never issued.
+ */
+export function vanityCandidateAt(
+	pattern: VanityPattern,
+	index: number
+): { callsign: string; format: VanityFormat; group: VanityGroup } | null {
+	let remaining = index;
+	for (const { rule, choices, size } of pattern.formats) {
+		if (remaining >= size) {
+			remaining -= size;
+			continue;
+		}
+
+		// Mixed-radix decode, first position most significant
+		const parts: string[] = new Array(choices.length);
+		for (let i = choices.length - 1; i >= 0; i--) {
+			parts[i] = choices[i][remaining % choices[i].length];
+			remaining = Math.floor(remaining / choices[i].length);
+		}
+
+		const suffix = parts.slice(2).join('');
+		if (isExcluded(rule.format, suffix)) {
+			return null;
+		}
+		return { callsign: parts.join(''), format: rule.format, group: rule.group };
+	}
+	return null;
+}
+
+/**
+ * Format, group, call district and issuing position of a callsign
+ * sequence orders the callsigns of one format, group and district the way the
+ * FCC steps through them: by prefix, then suffix, alphabetically. Returns null
+ * for callsigns outside the vanity formats, regional prefixes included.
+ */
+export function classifyCallsign(
+	callsign: string
+): { format: VanityFormat; group: VanityGroup; district: string; sequence: number } | null {
+	for (const rule of VANITY_FORMAT_RULES) {
+		const prefixLength = rule.prefixes[0].length;
+		if (callsign.length !== prefixLength + 1 + rule.suffixLength) {
+			continue;
+		}
+		const prefixIndex = rule.prefixes.indexOf(callsign.substring(0, prefixLength));
+		const district = callsign[prefixLength];
+		const suffix = callsign.substring(prefixLength + 1);
+		if (prefixIndex < 0 || !DIGITS.includes(district) || !/^[A-Z]+$/.test(suffix)) {
+			continue;
+		}
+
+		let suffixIndex = 0;
+		for (const char of suffix) {
+			suffixIndex = suffixIndex * 26 + (char.charCodeAt(0) - 65);
+		}
+		return {
+			format: rule.format,
+			group: rule.group,
+			district,
+			sequence: prefixIndex * 26 ** rule.suffixLength + suffixIndex,
+		};
+	}
+	return null;
+}
+
+/**
+ * The callsign at an issuing position, the inverse of classifyCallsign
+ * Returns null past the end of the format.
+ */
+export function callsignAtSequence(
+	format: VanityFormat,
+	group: VanityGroup,
+	district: string,
+	sequence: number
+): string | null {
+	const rule = VANITY_FORMAT_RULES.find((r) => r.format === format && r.group === group);
+	if (!rule || sequence < 0) {
+		return null;
+	}
+	const suffixCount = 26 ** rule.suffixLength;
+	const prefix = rule.prefixes[Math.floor(sequence / suffixCount)];
+	if (!prefix) {
+		return null;
+	}
+
+	let remaining = sequence % suffixCount;
+	let suffix = '';
+	for (let i = 0; i < rule.suffixLength; i++) {
+		suffix = LETTERS[remaining % 26] + suffix;
+		remaining = Math.floor(remaining / 26);
+	}
+	return prefix + district + suffix;
+}
+
+/**
+ * Add whole years to a YYYY-MM-DD date
+ */
+function addYears(date: string, years: number): string {
+	const [year, month, day] = date.split('-').map(Number);
+	return new Date(Date.UTC(year + years, month - 1, day)).toISOString().substring(0, 10);
+}
+
+/**
+ * Availability of a callsign given its stored record, as of today (YYYY-MM-DD)
+ * A license that ended stays reserved for VANITY_GRACE_YEARS after its
+ * expiration or cancellation date. Ended licenses without a date count as held.
+ */
+export function vanityStatus(
+	stored: StoredCallsignRecord | undefined,
+	today: string
+): Pick<
+	VanityCandidate,
+	'status' | 'available_after' | 'reason' | 'license_status' | 'expiration_date' | 'cancellation_date'
+> {
+	if (!stored) {
+		return { status: 'available' };
+	}
+
+	const data = mapRecordToCallsignData(stored);
+	const holder = {
+		license_status: data.license_status,
+		expiration_date: data.expiration_date,
+		cancellation_date: data.cancellation_date,
+	};
+
+	let ended: { date?: string; reason: 'expired' | 'cancelled' } | null = null;
+	if (data.license_status === 'C' || data.license_status === 'T') {
+		ended = { date: data.cancellation_date || data.expiration_date, reason: 'cancelled' };
+	} else if (data.license_status === 'E' || (data.expiration_date && data.expiration_date < today)) {
+		ended = { date: data.expiration_date, reason: 'expired' };
+	}
+
+	if (!ended?.date) {
+		return { status: 'held', ...holder };
+	}
+
+	const graceEnd = addYears(ended.date, VANITY_GRACE_YEARS);
+	if (today > graceEnd) {
+		return { status: 'available', reason: ended.reason, ...holder };
+	}
+	return { status: 'grace', available_after: graceEnd, reason: ended.reason, ...holder };
+}
+
+/**
+ * Check candidates from offset onwards until limit results are found
+ * Stops after VANITY_MAX_CHECKED candidates; nextOffset is set while the
+ * enumeration has more. Throws on database errors.
+ */
+export async function checkVanityCandidates(
+	env: Env,
+	pattern: VanityPattern,
+	options: {
+		offset: number;
+		limit: number;
+		status?: VanityCandidate['status'];
+		today: string;
+	}
+): Promise<{ results: VanityCandidate[]; checked: number; nextOffset?: number }> {
+	const results: VanityCandidate[] = [];
+	const end = Math.min(pattern.total, options.offset + VANITY_MAX_CHECKED);
+	let index = options.offset;
+	let checked = 0;
+
+	while (index < end && results.length < options.limit) {
+		const batch: Array<NonNullable<ReturnType<typeof vanityCandidateAt>> & { index: number }> = [];
+		while (index < end && batch.length < VANITY_LOOKUP_BATCH) {
+			const candidate = vanityCandidateAt(pattern, index);
+			if (candidate) {
+				batch.push({ ...candidate, index });
+			}
+			index++;
+		}
+
+		const stored = new Map(
+			(await getCallsignRecords(env, batch.map((c) => c.callsign))).map((record) => [record.callsign, record])
+		);
+
+		for (const candidate of batch) {
+			const availability = vanityStatus(stored.get(candidate.callsign), options.today);
+			checked++;
+			if (options.status && availability.status !== options.status) {
+				continue;
+			}
+			results.push({
+				callsign: candidate.callsign,
+				format: candidate.format,
+				group: candidate.group,
+				eligible_classes: VANITY_GROUP_CLASSES[candidate.group],
+				...availability,
+			});
+			if (results.length === options.limit) {
+				// Resume right after the last candidate returned
+				index = candidate.index + 1;
+				break;
+			}
+		}
+	}
+
+	return {
+		results,
+		checked,
+		nextOffset: index < pattern.total ? index : undefined,
+	};
+}
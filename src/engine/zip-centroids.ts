@@ -0,0 +1,475 @@
+/**
+ * Bundled US ZIP centroid tables
+ *
+ * ZIP codes are placed at the internal point of their Census ZIP Code
+ * Tabulation Area (./zip5-centroids.ts), which is usually within a few km of
+ * the licensee in towns and further out in large rural areas. ZIP codes
+ * without a ZCTA (PO boxes, single-building codes) fall back to a table
+ * mapping ranges of 3-digit ZIP prefixes (the sectional centre facility) to a
+ * point near the population centre of the area they serve; those positions
+ * can be 100 km or more away and are only used where nothing better is known.
+ * Military (APO/FPO) prefixes have no entry.
+ */
+
+import type { LatLon } from './grid';
+import { ZIP5_CENTROIDS, ZIP5_CENTROIDS_VERSION } from './zip5-centroids';
+
+/**
+ * [first prefix, last prefix, latitude, longitude]
+ */
+type ZipPrefixRange = [number, number, number, number];
+
+/**
+ * Version reported for the bundled tables
+ */
+export const ZIP_CENTROIDS_VERSION = `${ZIP5_CENTROIDS_VERSION}+zip3-2026.1`;
+
+/**
+ * A ZIP code location and the table it came from
+ */
+export interface ZipLocation extends LatLon {
+	source: 'zip5' | 'zip3';
+}
+
+/**
+ * Alphabet of the encoded ZIP5 table, one 6-bit digit per character
+ */
+const ZIP5_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Decoded ZIP5 table: ZIP codes ascending, positions in hundredths of a degree
+ */
+interface Zip5Table {
+	zips: Uint32Array;
+	latitudes: Int16Array;
+	longitudes: Int16Array;
+}
+
+// Decoded on first use
+let zip5Table: Zip5Table | null = null;
+
+// Sorted by first prefix, ranges do not overlap
+const ZIP_PREFIX_RANGES: ZipPrefixRange[] = [
+	[5, 5, 40.81, -73.04], // Holtsville NY
+	[6, 7, 18.3, -66.4], // Puerto Rico
+	[8, 8, 18.34, -64.9], // US Virgin Islands
+	[9, 9, 18.3, -66.4],
+	[10, 13, 42.2, -72.6], // Springfield MA
+	[14, 16, 42.27, -71.8], // Worcester
+	[17, 19, 42.5, -71.2],
+	[20, 24, 42.3, -71.1], // Boston
+	[25, 26, 41.7, -70.3], // Cape Cod
+	[27, 27, 41.7, -71.1],
+	[28, 29, 41.8, -71.45], // Rhode Island
+	[30, 38, 43.2, -71.5], // New Hampshire
+	[39, 49, 44.6, -69.7], // Maine
+	[50, 59, 44.2, -72.7], // Vermont
+	[60, 62, 41.75, -72.7], // Hartford
+	[63, 64, 41.35, -72.5],
+	[65, 69, 41.2, -73.2], // Bridgeport, Stamford
+	[70, 76, 40.8, -74.2], // Northern New Jersey
+	[77, 79, 40.35, -74.3],
+	[80, 84, 39.8, -74.9], // Southern New Jersey
+	[85, 89, 40.3, -74.6], // Trenton
+	[100, 104, 40.75, -73.95], // New York City
+	[105, 109, 41.2, -73.9],
+	[110, 119, 40.75, -73.5], // Long Island
+	[120, 129, 42.8, -73.9], // Albany
+	[130, 139, 42.9, -75.7], // Syracuse, Utica, Binghamton
+	[140, 149, 42.95, -77.9], // Buffalo, Rochester
+	[150, 168, 40.6, -79.7], // Pittsburgh
+	[169, 171, 40.4, -77.2],
+	[172, 176, 40.1, -76.6], // Harrisburg, Lancaster
+	[177, 179, 41.1, -76.6],
+	[180, 189, 41.0, -75.5], // Allentown, Scranton
+	[190, 196, 40.05, -75.3], // Philadelphia
+	[197, 199, 39.4, -75.55], // Delaware
+	[200, 205, 38.9, -77.03], // Washington DC
+	[206, 219, 39.1, -76.7], // Maryland
+	[220, 223, 38.8, -77.3], // Northern Virginia
+	[224, 229, 37.9, -78.3],
+	[230, 232, 37.5, -77.4], // Richmond
+	[233, 239, 36.9, -76.4], // Norfolk
+	[240, 246, 37.2, -80.2], // Roanoke
+	[247, 268, 38.6, -80.6], // West Virginia
+	[270, 274, 36.0, -79.9], // Greensboro
+	[275, 279, 35.7, -78.0], // Raleigh
+	[280, 282, 35.25, -80.8], // Charlotte
+	[283, 285, 34.8, -78.4],
+	[286, 289, 35.6, -82.4], // Asheville
+	[290, 299, 33.9, -80.9], // South Carolina
+	[300, 303, 33.8, -84.4], // Atlanta
+	[304, 312, 32.5, -83.3],
+	[313, 316, 31.5, -82.3], // Savannah
+	[317, 319, 31.4, -84.2],
+	[320, 322, 30.3, -81.7], // Jacksonville
+	[323, 324, 30.4, -84.9], // Tallahassee
+	[325, 325, 30.5, -87.2], // Pensacola
+	[326, 326, 29.6, -82.4], // Gainesville
+	[327, 329, 28.5, -81.3], // Orlando
+	[330, 334, 26.1, -80.3], // Miami
+	[335, 338, 28.0, -82.4], // Tampa
+	[339, 342, 26.9, -82.0], // Fort Myers, Sarasota
+	[344, 347, 28.7, -82.1],
+	[349, 349, 27.4, -80.4],
+	[350, 352, 33.5, -86.8], // Birmingham
+	[354, 359, 34.3, -86.6], // Huntsville
+	[360, 364, 31.8, -86.5],
+	[365, 366, 30.7, -88.1], // Mobile
+	[367, 369, 32.4, -86.9], // Montgomery
+	[370, 372, 36.0, -86.6], // Nashville
+	[373, 374, 35.1, -85.2], // Chattanooga
+	[375, 375, 35.1, -89.9], // Memphis
+	[376, 379, 36.0, -83.9], // Knoxville
+	[380, 381, 35.1, -89.9], // Memphis
+	[382, 385, 35.8, -87.8],
+	[386, 397, 32.7, -89.7], // Mississippi
+	[398, 399, 31.6, -84.1], // Albany GA
+	[400, 402, 38.2, -85.7], // Louisville
+	[403, 406, 38.0, -84.5], // Lexington
+	[407, 409, 37.0, -83.8],
+	[410, 410, 39.0, -84.5], // Northern Kentucky
+	[411, 418, 38.0, -83.0],
+	[420, 427, 37.2, -87.0],
+	[430, 433, 40.0, -83.0], // Columbus
+	[434, 436, 41.6, -83.6], // Toledo
+	[437, 438, 39.9, -81.9],
+	[439, 439, 40.3, -80.7],
+	[440, 443, 41.3, -81.6], // Cleveland, Akron
+	[444, 447, 40.9, -81.0], // Youngstown, Canton
+	[448, 449, 40.8, -82.5],
+	[450, 455, 39.4, -84.3], // Cincinnati, Dayton
+	[456, 457, 39.3, -82.6],
+	[458, 458, 40.7, -84.1],
+	[459, 459, 39.1, -84.5],
+	[460, 462, 39.8, -86.2], // Indianapolis
+	[463, 464, 41.5, -87.3], // Gary
+	[465, 466, 41.6, -86.2], // South Bend
+	[467, 468, 41.1, -85.1], // Fort Wayne
+	[469, 469, 40.5, -86.1],
+	[470, 471, 38.6, -85.7],
+	[472, 472, 39.2, -85.9],
+	[473, 473, 40.2, -85.4],
+	[474, 474, 39.2, -86.5],
+	[475, 477, 38.1, -87.5], // Evansville
+	[478, 478, 39.5, -87.4],
+	[479, 479, 40.4, -86.9],
+	[480, 485, 42.5, -83.4], // Detroit
+	[486, 487, 43.4, -84.0], // Saginaw
+	[488, 489, 42.7, -84.6], // Lansing
+	[490, 491, 42.3, -85.6], // Kalamazoo
+	[492, 492, 42.25, -84.4],
+	[493, 495, 42.9, -85.7], // Grand Rapids
+	[496, 496, 44.7, -85.6],
+	[497, 497, 45.3, -84.6],
+	[498, 499, 46.5, -87.4], // Upper Peninsula
+	[500, 509, 41.8, -93.6], // Des Moines
+	[510, 516, 42.0, -95.8],
+	[520, 528, 42.0, -91.3],
+	[530, 532, 43.0, -88.0], // Milwaukee
+	[534, 535, 42.9, -89.2], // Madison
+	[537, 539, 43.6, -89.5],
+	[540, 549, 44.8, -89.8],
+	[550, 551, 44.95, -93.1], // Saint Paul
+	[553, 554, 45.0, -93.3], // Minneapolis
+	[555, 555, 44.97, -93.27],
+	[556, 558, 47.0, -92.3], // Duluth
+	[559, 559, 44.0, -92.5],
+	[560, 562, 44.4, -95.0],
+	[563, 567, 46.5, -95.0],
+	[570, 577, 44.4, -100.2], // South Dakota
+	[580, 588, 47.4, -100.5], // North Dakota
+	[590, 599, 46.9, -110.4], // Montana
+	[600, 608, 41.9, -87.9], // Chicago
+	[609, 609, 41.1, -87.9],
+	[610, 611, 42.3, -89.1], // Rockford
+	[612, 612, 41.5, -90.5],
+	[613, 614, 41.0, -89.6],
+	[615, 616, 40.7, -89.6], // Peoria
+	[617, 617, 40.5, -89.0],
+	[618, 619, 40.1, -88.2], // Champaign
+	[620, 622, 38.6, -90.0],
+	[623, 627, 39.8, -89.9], // Springfield IL
+	[628, 629, 37.9, -89.0],
+	[630, 633, 38.6, -90.4], // Saint Louis
+	[634, 635, 39.7, -92.0],
+	[636, 639, 37.5, -90.3],
+	[640, 641, 39.1, -94.5], // Kansas City
+	[644, 645, 39.8, -94.8],
+	[646, 649, 38.5, -93.6],
+	[650, 653, 38.6, -92.2],
+	[654, 658, 37.2, -93.3], // Springfield MO
+	[660, 662, 38.9, -94.8],
+	[664, 666, 39.1, -95.7], // Topeka
+	[667, 667, 37.6, -95.0],
+	[668, 669, 38.8, -97.6],
+	[670, 672, 37.7, -97.3], // Wichita
+	[673, 679, 38.5, -99.5],
+	[680, 681, 41.25, -96.0], // Omaha
+	[683, 685, 40.8, -96.7], // Lincoln
+	[686, 693, 41.2, -99.5],
+	[700, 701, 30.0, -90.1], // New Orleans
+	[703, 704, 29.8, -90.8],
+	[705, 706, 30.2, -92.5],
+	[707, 708, 30.45, -91.1], // Baton Rouge
+	[710, 714, 32.4, -92.7],
+	[716, 729, 34.9, -92.4], // Arkansas
+	[730, 731, 35.5, -97.5], // Oklahoma City
+	[734, 739, 35.3, -98.5],
+	[740, 741, 36.1, -95.9], // Tulsa
+	[743, 749, 35.5, -95.5],
+	[750, 753, 32.8, -96.8], // Dallas
+	[754, 759, 32.6, -95.3],
+	[760, 761, 32.75, -97.3], // Fort Worth
+	[762, 764, 33.2, -98.0],
+	[765, 767, 31.4, -97.3],
+	[768, 769, 31.8, -101.0],
+	[770, 775, 29.8, -95.4], // Houston
+	[776, 777, 30.1, -94.1],
+	[778, 779, 30.0, -96.6],
+	[780, 782, 29.4, -98.5], // San Antonio
+	[783, 785, 27.2, -97.8],
+	[786, 789, 30.3, -97.7], // Austin
+	[790, 794, 34.3, -101.8], // Amarillo, Lubbock
+	[795, 796, 32.4, -99.7],
+	[797, 797, 31.9, -102.1],
+	[798, 799, 31.8, -106.4], // El Paso
+	[800, 806, 39.9, -105.0], // Denver
+	[807, 807, 40.3, -103.3],
+	[808, 810, 38.6, -104.7], // Colorado Springs
+	[811, 813, 37.8, -106.5],
+	[814, 816, 39.3, -107.9],
+	[820, 831, 42.9, -107.5], // Wyoming
+	[832, 834, 43.5, -114.5], // Southern Idaho
+	[835, 838, 47.0, -116.6], // Northern Idaho
+	[840, 847, 40.5, -111.9], // Utah
+	[850, 853, 33.5, -112.0], // Phoenix
+	[855, 857, 32.2, -110.9], // Tucson
+	[859, 860, 35.2, -111.6],
+	[863, 863, 34.6, -112.4],
+	[864, 864, 35.2, -114.0],
+	[865, 865, 35.5, -109.7],
+	[870, 875, 35.1, -106.6], // Albuquerque
+	[877, 884, 33.9, -106.0],
+	[885, 885, 31.8, -106.4], // El Paso
+	[889, 891, 36.2, -115.1], // Las Vegas
+	[893, 898, 39.5, -119.0], // Reno
+	[900, 908, 34.0, -118.2], // Los Angeles
+	[910, 912, 34.15, -118.2],
+	[913, 916, 34.2, -118.5],
+	[917, 918, 34.05, -117.9],
+	[919, 921, 32.8, -117.1], // San Diego
+	[922, 925, 33.9, -117.2],
+	[926, 928, 33.7, -117.8], // Orange County
+	[930, 931, 34.3, -119.2],
+	[932, 933, 35.4, -119.0], // Bakersfield
+	[934, 934, 35.3, -120.6],
+	[935, 935, 35.0, -117.9],
+	[936, 938, 36.75, -119.8], // Fresno
+	[939, 939, 36.6, -121.7],
+	[940, 941, 37.6, -122.3], // San Francisco
+	[942, 942, 38.6, -121.4],
+	[943, 944, 37.5, -122.2],
+	[945, 948, 37.8, -122.1], // Oakland
+	[949, 949, 38.0, -122.6],
+	[950, 951, 37.3, -121.9], // San Jose
+	[952, 953, 37.8, -121.1],
+	[954, 955, 39.5, -123.2],
+	[956, 958, 38.6, -121.4], // Sacramento
+	[959, 961, 40.2, -121.8],
+	[967, 968, 21.3, -157.85], // Hawaii
+	[969, 969, 13.47, 144.75], // Guam
+	[970, 972, 45.5, -122.7], // Portland
+	[973, 974, 44.5, -123.0],
+	[975, 976, 42.4, -122.9],
+	[977, 979, 44.2, -120.0],
+	[980, 981, 47.6, -122.3], // Seattle
+	[982, 982, 48.0, -122.2],
+	[983, 984, 47.2, -122.5], // Tacoma
+	[985, 985, 47.0, -123.0],
+	[986, 986, 45.65, -122.6],
+	[988, 989, 46.9, -120.3],
+	[990, 994, 47.3, -117.8], // Spokane
+	[995, 999, 61.2, -149.9], // Alaska
+];
+
+/**
+ * Encode ZIP5 centroids for ./zip5-centroids.ts, sorted by ZIP code
+ * Each entry is the gap from the previous ZIP code (one digit, or a zero digit
+ * and three more for gaps over 63), then latitude + 90 and longitude + 180 in
+ * hundredths of a degree as three digits each.
+ */
+export function encodeZip5Centroids(entries: Array<{ zip: string } & LatLon>): string {
+	const digits = (value: number, count: number) => {
+		let encoded = '';
+		for (let i = count - 1; i >= 0; i--) {
+			encoded += ZIP5_ALPHABET[(value >> (6 * i)) & 63];
+		}
+		return encoded;
+	};
+
+	let previous = 0;
+	let encoded = '';
+	for (const entry of [...entries].sort((a, b) => a.zip.localeCompare(b.zip))) {
+		const zip = parseInt(entry.zip, 10);
+		const gap = zip - previous;
+		if (!/^\d{5}$/.test(entry.zip) || gap <= 0) {
+			throw new Error(`Invalid or repeated ZIP code ${entry.zip}`);
+		}
+		encoded += gap < 64 ? digits(gap, 1) : digits(0, 1) + digits(gap, 3);
+		encoded += digits(Math.round((entry.latitude + 90) * 100), 3);
+		encoded += digits(Math.round((entry.longitude + 180) * 100), 3);
+		previous = zip;
+	}
+	return encoded;
+}
+
+/**
+ * Decode the bundled ZIP5 table; whitespace in the encoded text is ignored
+ */
+function decodeZip5Centroids(encoded: string): Zip5Table {
+	const text = encoded.replace(/\s+/g, '');
+	const values = new Uint8Array(text.length);
+	for (let i = 0; i < text.length; i++) {
+		values[i] = ZIP5_ALPHABET.indexOf(text[i]);
+	}
+	const read = (offset: number, count: number) => {
+		let value = 0;
+		for (let i = 0; i < count; i++) {
+			value = (value << 6) | values[offset + i];
+		}
+		return value;
+	};
+
+	const zips: number[] = [];
+	const latitudes: number[] = [];
+	const longitudes: number[] = [];
+	let zip = 0;
+	let offset = 0;
+	while (offset < values.length) {
+		const gap = read(offset, 1);
+		offset += 1;
+		if (gap === 0) {
+			zip += read(offset, 3);
+			offset += 3;
+		} else {
+			zip += gap;
+		}
+		zips.push(zip);
+		latitudes.push(read(offset, 3) - 9000);
+		longitudes.push(read(offset + 3, 3) - 18000);
+		offset += 6;
+	}
+	return {
+		zips: Uint32Array.from(zips),
+		latitudes: Int16Array.from(latitudes),
+		longitudes: Int16Array.from(longitudes),
+	};
+}
+
+/**
+ * The bundled ZIP5 table, decoded on first use
+ */
+function getZip5Table(): Zip5Table {
+	if (!zip5Table) {
+		zip5Table = decodeZip5Centroids(ZIP5_CENTROIDS);
+	}
+	return zip5Table;
+}
+
+/**
+ * Location of a US ZIP code from the ZCTA table, or the 3-digit prefix table
+ * when the ZIP code has no ZCTA
+ * Accepts 5-digit and ZIP+4 codes; returns null for unknown and military codes.
+ */
+export function lookupZipLocation(zip: string | undefined): ZipLocation | null {
+	const match = zip?.trim().match(/^(\d{5})(?:-?\d{4})?$/);
+	if (!match) {
+		return null;
+	}
+
+	const { zips, latitudes, longitudes } = getZip5Table();
+	const key = parseInt(match[1], 10);
+	let low = 0;
+	let high = zips.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		if (key < zips[mid]) {
+			high = mid - 1;
+		} else if (key > zips[mid]) {
+			low = mid + 1;
+		} else {
+			return { latitude: latitudes[mid] / 100, longitude: longitudes[mid] / 100, source: 'zip5' };
+		}
+	}
+
+	const centroid = lookupZipCentroid(zip);
+	return centroid ? { ...centroid, source: 'zip3' } : null;
+}
+
+/**
+ * Representative point of a ZIP code's 3-digit prefix
+ * Accepts 5-digit and ZIP+4 codes; returns null for unknown and military prefixes.
+ */
+export function lookupZipCentroid(zip: string | undefined): LatLon | null {
+	const match = zip?.trim().match(/^(\d{3})\d{2}(?:-?\d{4})?$/);
+	if (!match) {
+		return null;
+	}
+	const prefix = parseInt(match[1], 10);
+
+	// Binary search over the sorted ranges
+	let low = 0;
+	let high = ZIP_PREFIX_RANGES.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		const [first, last, latitude, longitude] = ZIP_PREFIX_RANGES[mid];
+		if (prefix < first) {
+			high = mid - 1;
+		} else if (prefix > last) {
+			low = mid + 1;
+		} else {
+			return { latitude, longitude };
+		}
+	}
+	return null;
+}
+
+/**
+ * Inclusive ranges of 5-digit ZIP codes covering every ZCTA whose location
+ * satisfies a predicate, such as ['06101', '06120']
+ * Runs of consecutive ZCTAs become one range, so a range also covers the ZIP
+ * codes without a ZCTA between them. Beyond maxRanges the ranges separated by
+ * the smallest gaps are merged, which widens the area the ranges cover.
+ */
+export function findZipRanges(contains: (point: LatLon) => boolean, maxRanges: number): Array<[string, string]> {
+	const { zips, latitudes, longitudes } = getZip5Table();
+	const ranges: Array<[number, number]> = [];
+	let inside = false;
+	for (let i = 0; i < zips.length; i++) {
+		if (!contains({ latitude: latitudes[i] / 100, longitude: longitudes[i] / 100 })) {
+			inside = false;
+			continue;
+		}
+		if (inside) {
+			ranges[ranges.length - 1][1] = zips[i];
+		} else {
+			ranges.push([zips[i], zips[i]]);
+		}
+		inside = true;
+	}
+
+	while (ranges.length > Math.max(maxRanges, 1)) {
+		let closest = 0;
+		for (let i = 1; i < ranges.length - 1; i++) {
+			if (ranges[i + 1][0] - ranges[i][1] < ranges[closest + 1][0] - ranges[closest][1]) {
+				closest = i;
+			}
+		}
+		ranges[closest][1] = ranges[closest + 1][1];
+		ranges.splice(closest + 1, 1);
+	}
+
+	const pad = (zip: number) => String(zip).padStart(5, '0');
+	return ranges.map(([first, last]) => [pad(first), pad(last)]);
+}
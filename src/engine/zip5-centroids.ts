@@ -0,0 +1,2390 @@
+/**
+ * US ZIP code centroids (generated, do not edit)
+ *
+ * Internal points of the 33791 ZIP Code Tabulation Areas in the Census
+ * Bureau 2020 Gazetteer, encoded by encodeZip5Centroids in ./zip-centroids.ts.
+ * Regenerate with: npm run build:zip-centroids -- <Gazetteer ZCTA file> <year>
+ */
+
+/**
+ * Version reported for the table
+ */
+export const ZIP5_CENTROIDS_VERSION = 'zcta-2020';
+
+/**
+ * Encoded table, wrapped at 100 characters
+ */
+export const ZIP5_CENTROIDS = `
+AAJZCpCCw9BCpUCwSBCpeCwYDCpACwrECpNCwXBCpMCw3BCpaCxCECpaCxFBCpdCxQFCovCwUBCo4CwUBCo1CxADCpZCwyECpCCw
+1FCpACwcBCo4CwpBCpMCxVDCpLCxCFCpbCxrBCosCwpDCpTCxOCCpdCxNBCovCwuDCo0Cw5DCpZCw3BCo9CwYCCpfCwiCCpFCxND
+CowCwgCCpMCwxBCpHCwlECpaCxXCCpWCwcBCpRCwNBCpbCwrCCpCCwXCCpGCwVBCo7CwgCCpSCwnCCpQCxeBCpWCxJCCphCwaCCp
+ZCxmBCpbCxgBCpgCxhECo3CwzFCpJCx7BCotCxxBCo9CxtCCoxCyQHCowCyCBCovCxPBCovCxLBCowCxLBCpHCygBCpNCxvBCpGC
+xeDCoyCyICCpGCyECCpFCyBBCovCxGBCpRCyTBCozCxLBCo7CxIECpJCypBCo6Cx5CCpOCymBCpCCx4BCpRCytBCpACyhECpTCyb
+GCowCxuDCo-CyLDCovCxgICo8CzCBCo9CxZBCo3CySCCo6CxkCCpDCyVBCpcCyRBCpSCykCCpRCzNCCpGCyRBCpKCyKCCo5CxPCC
+pGCxyBCpOCxnBCoxCx7CCo-CxxFCo-CybDCpECxpBCo1CxWHCpSCzzSCoWC0JKCpSC0GKCoUCz7KCoVC0BBCoXC0ByCpfCx9FCpe
+Cx_BCpdCx_CCpcCyBCCpdCyCBCpdCyCBCpeCyECCpcCyDCCpaCyDBCpaCyBCCpaCx_BCpXCx_CCpZCyEBCpYCyHBCpYCyDBCpTCy
+DBCpXCyBHCpZCx8PCpZCxxBCpfCxwBCpbCxuBCpbCx1BCpUCxvDCpQCx3BCpVCx1CCpXCx4BCpaCx6BCpZCx4BCpcCx6DCpbCx9B
+CpYCx9CCpZCx-BCpVCx9CCpQCx8FCpSCyJDCpcCyIDCpZCyJBCpaCyKCCpZCyNCCpSCyOODOWCnxBDO2CoCBDO3Cn8CDO6ColCDO
+sCoIBDOjCnQBDOlCoOBDOdCobBDOtCnPBDO2CnaBDOeCn0HDOhCn4CDOkCn6EDO_CnTBDOuCnlBDOWCn-BDOiCnIBDOXCnrBDOxC
+odBDO-CnfBDOoCn-BDOZCnQBDO0Cn3BDOXCoGBDO2CocBDO2Cn0BDO5CnrBDOlCnwKDOtCnZDDO0CnpBDO_CoACDOiCoCBDOZCoQ
+DDOwCnxCDOwCnqBDOwCnwDDO5CnyCDOzCoqBDOjCoRBDPECnTBDOgCnZBDO-CoGBDOnCnmBDO2ComBDOqCn2CDOVCniCDOjCoPBD
+OjCoMBDOWCoZBDOuCoUBDOlCocBDO0CnZBDOfCnjDDO2CnwBDOdCnvDDOjCoYBDO9CnvBDO1CoiBDOeCoGBDO5CnjBDOhCndBDO4
+CnSFDOaCn1BDOdCn3BDOaCn2BDOVCn4BDOcCnzBDOYCn4BDOcCn5JDOZCn7BDOcCn9JDOZCn_BDOcCn_PDOaCn1HDOfCn9yDO9Cm
+wTDPPCnACDOWCmsBDOuCnBBDPCCm4BDPJCm9BDPACm9DDOtCmpBDOhCmsFDO7CnGBDOrCmlBDPHCmyBDOuCm1CDO2CmxCDOxCmzB
+DO1CnHBDOcCmwBDOjCm2CDPWCnDGDOlCnBBDO2CmnBDOaCm_BDPLCnKBDOZCmnBDOZCmdBDOXCm1BDOqCmwCDOvCmsCDOnCm4CDO
+vCmlBDPTCmzDDPECnHfDPPCn0dDPDCneBDPJCoeGDPVCn2BDPKCnfBDPNCnXBDPVCnnBDPDCnqBDPGCnzBDPRCnPBDPNCoFCDPSC
+nfBDPICn9CDPJCoBBDPZCnNBDPGCn8DDPOCn9BDO-CoPFDPUCoDEDPNCoTCDPBCoeBDPVCnUBDPUCoeCDPLCnnDDPACnyCDO_Cn5
+BDPLCn6CDPUCoOBDPFCoIBDPLCoHoDPKCpCKDPTCo4BDPUCpBBDPJCpaCDPFCpXCDPMConCDPICosCDPLCoxKDPNCpcBDPCCpbBD
+PCCowBDPECpIHDPGCpjCDPKCpMBDPTCpYBDPJCpUEDPGCopBDPSCpOEDPHCo5BDPTCpJBDPTCoqaDOkCo_CDO2CpVBDOUCpfBDO0
+CpMBDOiColBDOdCozDDO5CpPFDOlCosBDOVCpJCDObColBDOkCpQBDOxCo_BDOVCoeBDO2Co9BDPACpQBDOpCo4BDOaCpUCDOjCp
+GCDOUCpaCDOxCojBDOwCpTCDOeCpTBDOrCopBDOnCpPBDOgCo6DDObCo-BDO9Co8BDOkCo5BDO3CozCDOsCpNFDOWCotKDOiCpRB
+DO9CpPBDOpCoxCDO9CpGCDOaCooCDOiCpXBDOWCpVBDOVCo_BDOVCo2KDOrCpXCDO2CpFCDOoCogDDOcCpSCDOdCpJMDOrCo_BDO
+oCpABDOpCpHBDOtCpFBDOvCpFBDOnCpFBDOqCpEBDOtCpBBDOpCpDBDOoCo8BDOuCo3AABZDOwCpoBDOsCpoQDPECppBDPBCpgBD
+PACpoBDOqCplJDPCCp4BDO-Cp4JDO8CpYBDPGCpwBDO-CpwDDOtCpiBDOkCpnBDOcCpfBDOmCpeBDO3CpdDDOzCpdCDO7CpmCDOZ
+CpeBDOgCpgDDOsCpxKDOnCpvCDOuCpfBDO7Cp1CDO7CphBDO2CpqCDO0CpwXDPBCqFCDPCCqAHDPRCqELDPHCp7DDPLCpwCDPUCp
+2BDPUCpiDDPgCqPCDPfCqHBDPZCqWBDPbCqSBDPbCqLFDPXCqEBDPYCqFCDPVCqEBDPaCqCBDPTCqLFDPSCp2BDPPCpyBDPPCp2C
+DPRCpxGDPkCqTCDPKCp2BDPPCpsBDPKCqMDDPGCqJJDPNCp9DDPTCppBDPCCqOGDPLCpoBDPICqEDDO9CqGLDO-CqZBDO_CqaCDP
+BCqXBDO-CqXBDO_CqTBDO_CqdBDO7CqbFDPlCqYCDPJCqhGDPUCqRBDPcCqdBDPJCqZGDPQCqrBDPOCq0HDPLCqWBDPVCqkCDPFC
+qQEDPKCqrBDPCCqjEDPNCqTBDPhCqfBDPdCqjBDPkCqkIDPFCqXFDPICqmBDPQCq6DDPYCqfBDPFCqhMDPPCqiBDPQCqaBDPMCqg
+BDPgCqYiDOYCplCDOiCqHEDOoCqnBDOpCqCEDOnCp3CDOgCp-DDOWCp7DDOYCprFDOmCqgCDOtCqgCDOfCqyBDOSCp-CDOcCqxCD
+OiCp1BDOgCppBDOhCpwCDOcCpzFDOgCqmBDOjCqBEDOkCqsBDObCqCEDObCp5BDOcCqKJDOfCp6JDOmCp-DDOVCpwPDO0CqNBDO1
+CqPBDO0CqPBDOzCqOCDO1CqOBDO0CqNBDOyCqLBDOzCqMCDOyCqNBDOwCqLBDOxCqKBDOvCqLBDOuCqPCDOtCqMBDOwCqOBDOsCq
+LBDOyCqQBDO0CqTBDO2CqOBDOvCqJBDOsCqIBDOsCqEBDO0CqOBDO0CqHBDOzCqFBDOpCqHCDO2CqGBDO0CqKBDO3CqHBDO1CqMB
+DO0CqMBDO2CqKBDO4CqIBDO3CqLDDO7CqOBDO5CqPBDO4CqRBDO6CqUBDO2CqWDDO6CqJIDO1CqHGDOoCqSBDOrCqSBDOtCqRFDO
+-CqOEDO_CqKEDOlCqUCDOoCqMCDOkCqYBDOlCqbBDOhCqZBDOpCqZIDOzCqMEDO0CqOCDOzCqOFDOzCqQFDOzCqKAABWDOYCqQBD
+OZCqUUDOdCqPCDONCqWBDOPCqYFDOECqtCDOUCqxBDOUCqaFDOQCqiBDOcCqiCDOVCqhCDOeCqUDDOECqhBDN_CqYDDOSCqjBDOc
+CqYFDOWCqIBDOWCqMCDOXCqnBDOECq5EDOPCquCDOBCq2BDOMCqoBDOiCqPCDOdCqdFDORCqMEDOSCqRDDOYCqamDO-Cp-BDO8Cp
+8YDOxCqGBDOyCqIFDO4Cp7BDO4Cp-BDO1Cp8EDOuCp5BDOzCqBBDOvCqBBDOzCp_BDOwCp_BDOxCp6CDOvCp-BDOzCp9BDOzCp7B
+DOvCqFBDOxCp9EDO1CqCCDO6CqECDO6CqDCDO4CqCDDOvCp4BDOtCp2KDOsCp8BDO0Cp2BDOuCp9mDN3Cq9CDNvCq6BDNOCqsBDN
+oCq_BDN1CrMBDN6Cq4BDNSCrEBDNlCq5CDNzCrBBDNbCqpKDNzCq6BDNJCruCDNsCq6BDNZCrABDN3Cq3BDNxCq6CDN5CrDBDN7C
+rDBDN3CrGBDNHCr6EDNZCq6DDN3CqyEDNTCq2BDN5CqsIDNGCr3RDNuCrbdDNzCrZBDN3CrxBDNuCrVBDNxCr6CDNqCrMCDNzCrd
+BDN1CrkBDNvCrqCDN3CroBDOACr7BDN3Cr_BDNwCrFBDNyCryBDNvCrxBDNrCrZBDNvCrPBDNqCrHBDNyCr8CDOVCrvBDN5Cr7CD
+NrCrRCDOWCrkCDNwCr2BDNzCroDDOGCr7BDNvCrlCDOPCr0BDOICr2BDNzCrUCDNuCrnBDNvCrtBDNsCrZBDNtCrfCDNyCrhbDN7
+CqOBDOJCp3KDNXCqfCDN9CqECDN4CqVBDOCCqTBDNrCqhBDN1CqJBDNvCqFCDNxCqHBDNwCqCBDN0CqBBDN4CqGMDNzCqtBDNvCq
+mBDNsCqaDDNzCqeBDNpCqdBDNyCqZBDNuCqZBDNuCqTBDNjCqXMDONCpzCDORCpyBDONCp1BDOBCqFCDONCqCBDOKCqPCDOBCp8B
+DN4CqkBDOACp0GDN4Cp_CDOACqMBDOHCqIKDNoCqMBDNhCqMLDOLCpmCDNXCpHCDN1Cp0BDM-CpaBDNVCpKBDNwCp5DDNcCpSBDN
+TCpRBDOGCpNBDN6CpSBDNyCpWBDNrCpSBDNsCpjEDNmCpZBDN1CpeBDOQCpcBDN6CpLBDOPCpTBDNyCpKBDOECpcBDOFCpZBDOOC
+pSBDN3CpaBDNfCpLBDNdCpFCDNfCpuBDNZCpWBDNgCqDBDONCpkBDOLCpUBDNcCp0BDNfCpzBDNgCp5KDNnCpmFDN-CpVBDOMCpT
+BDOMCpIBDODCptBDOECpxCDOFCptBDONCpqBDOICpnGDNnCp6BDNoCp0BDNhCpGBDNfCplBDNaCpUBDOQCpaCDNpCqCBDNXCpeCD
+NcCpfBDNWCplDDN1Cp6BDNyCpmCDN3CprBDNyCpuCDNQCpFBDNeCpYBDNwCpgBDNYCpOBDOQCpiBDOOCpeCDNgCpRFDN-CprBDOC
+CpoBDN7CpsBDOACptBDN8CpqBDOACpoBDN-CpnBDN5CpoBDOBCplBDN_CpsCDN9CpvBDN5CpxBDOACpxBDOHCpgBDOACpoBDN_Cp
+gBDN5CplBDN4CphAABuDPnCpYBDPzCpwBDPbCpQBDP6CpyCDPyCp6BDQCCp6BDPpCp4EDP5CqLBDPzCpCBDP0CqIBDP2CpcBDP_C
+pXBDPuCo8BDPaCpIBDPbCpZCDPcCprBDPlCplBDPnCptBDPlCpgBDPiCpRCDPrCpPDDPaCpmCDPYCpiBDPeCpgBDPeCplGDPyCpP
+BDPbCo9FDPZCpyBDP3CqACDPfCp-DDPqCpHCDPjCo8CDPjCpIBDPhCp2ODPzCplBDP1CpjBDPwCpoBDP1CpoCDP8CpnDDPwCpsBD
+PuCpeAABpDRfCpqBDQhCpFBDQ9CpUBDQWCp5CDQjCpkBDQOCo0BDQ0CpEBDRKCpPBDQXCpdBDQYCp8BDQ6CphBDRGCpmCDQICpOB
+DQpCo-BDQhCpJCDQeCo3BDQICpxBDQhCpRCDQfCptBDRWCo7CDQtCo1BDQ7CpDBDQFCpBBDQpCpHBDQACo4BDRACpaBDQuCpkDDQ
+oCpuCDRhCpVCDQzCpiBDQ8CpvBDQTCouBDQyCpVBDQeCoxBDQPCprBDRMCpiBDQZCo4BDQJCp-BDRYCpNBDQRCp1BDQ-CpOCDRCC
+o8CDQbCpHBDQpCpYEDQSCo3CDQFCpqBDQfCpaCDQTCpABDRVCo-BDQHConBDP8CpOBDRKCo4CDQjCovBDRTCpUCDQgCo4DDQBCqH
+BDQGCqGCDRWCpRIDQMCpcCDQTCpRBDQBCpeDDQVCpnAAB8DPxCoSJDP6CoyBDPeCoDBDP2Co6BDPnCoBBDPpCopBDP2CobBDPmCo
+SBDPbCohBDP4CoWBDPyCowBDPvCopBDPhCn-BDPjCoqDDPqCofBDQCCobBDP0CokBDPnCo2DDPcCovBDPpCoJCDP8ColBDPjCodB
+DPoCn9BDPxCoFDDPdCoNAABbDR6CpEJDSLCqAEDRyCpXBDR3CpsBDSyCpuDDS2CqPBDRoCpPBDR9CqLBDSRCpoBDSACpmBDSJCpd
+BDRvCo6BDRuCpECDSVCp8CDSgCpfCDTICp6BDR2Cp2CDR3CpiCDSiCpuBDR-CpVDDQNCoRBDQCCoNBDQNCoLBDQBCoJBDQMCoeCD
+QICoWBDP8CoIBDQCCoDAACDDRqCoxBDQ4CovCDQYCoPCDQjCoRDDQwCokCDQ8CodBDQgCooBDQPComBDQoCohCDQ9CoiKDRcCorB
+DQzCoZCDRGConCDQpCoWBDR2CoyCDQZCocBDRiCoxDDRMCotCDRUCowBDRcCoxBDQsCoSBDQbConCDQ0CoRBDRcCo_QDP7CqnIDQ
+iCqABDQnCp3BDPkCqDBDRgCp2BDRlCqOBDRBCqCCDQ6Cp8BDRNCp8BDRUCp5BDPuCqHBDQHCqgDDQFCqaBDQACqcBDQKCqQBDPpC
+qHBDPqCqUDDQxCqVCDRPCqPBDPyCqWCDQZCqOBDRICqMBDQeCpyBDRjCp-BDQPCqVBDP4CqjBDPoCqCBDPuCqkCDPsCqfBDRjCqI
+BDRrCqEBDRfCqIBDPrCqNBDRNCqHBDQ6Cp2BDQgCqRBDQmCqVBDQ0Cp3BDP6CqwBDQiCqFBDP4CqXBDP7CqZBDPnCqPCDRcCqIBD
+QACqTBDPyCqlCDQ5CqKBDPlCqLCDQSCqVBDQUCqaBDQKCqkBDP2CqsBDPyCqqBDQtCqQBDPtCqCBDPoCqiBDROCqBDDQNCqfEDQ_
+CqQBDRFCp0BDQQCqDBDP1CqeBDRKCp2BDQkCqNDDRGCp_EDQxCqCDDRPCpzEDQSCqkBDQJCq5BDQDCqrBDP_CqvBDP0Cq8BDQXCq
+qBDQOCq7BDQLCqtBDQFCq0BDQFCq7BDQCCq4AABaDQqCqaBDQlCq2BDQ9Cr7CDQlCrHBDQgCrWCDRcCsGBDRdCquBDRRCqcBDROC
+r7EDRTCrFCDQ-CrwCDQ5CrtBDRBCqnBDRDCreBDRYCqnCDRICqzDDQcCqdCDRNCq2BDQvCqyCDRICrvFDRiCqaBDQ6CrKBDROCrT
+BDRmCqmBDRJCqlBDQzCq7BDQcCq_DDQfCrJBDQ9CqfBDQ5CqqBDQ_CqyBDQ5CrpBDRrCqfEDRWCq4BDQ2CqiBDRiCqyEDQzCquBD
+RDCrPBDQmCrQBDQpCrRCDRBCr7CDRICqZBDROCrmCDRNCrGBDQrCrJBDQdCquBDQvCrTCDQrCqlDDRDCr6EDQiCqnBDRACq_BDRC
+Cq5BDRUCr8BDQtCquBDRsCqwCDQVCq3BDRICquBDQ7CrVBDQ0CrCCDQzCqdBDRDCroBDRJCrgEDQ2CreBDQ1CraBDQ6CrbCDQ-Cr
+cBDQzCrbBDQvCrgBDQ0CrlBDQ2CriBDQ-CrmAABkDRgCrfGDScCqjBDR_CqkCDSACrABDR6CrVBDSJCrbBDRUCrrCDSQCrPCDSXC
+qxBDSRCrbEDRyCqgDDSWCrlCDRrCrpBDSJCqvBDRrCrSBDSMCrkBDRhCrnKDRaCrsCDRcCryBDSBCriBDSFCrqBDR5Cq2BDRiCrQ
+BDSPCrGBDRmCrWBDRvCr3BDRUCraBDSRCqYCDR2CrrCDR0Cr0CDRuCqrBDRvCq7CDRkCrDBDRyCrGDDRdCrRBDSeCq3BDSQCq5ED
+RkCryBDRxCrHBDRzCrfCDR6CrzBDSdCrLBDSACqiBDRfCr7CDR4CrEBDSGCrLCDR-CrLCDSYCrckDR7CsRLDRyCslBDRhCsSCDRy
+CsJBDRsCsNBDRwCsRBDR1CsKBDRtCsqBDSDCrxBDRpCr_BDR6CsGBDSHCr8BDRsCseBDSACsxBDR-Cr9CDRkCsJBDSBCsmBDRqCs
+QBDSPCr4DDR4CsjBDR3Cr8lDStCtrFDTTCsgCDS7CurCDTFCtlBDSxCuJBDSmCt3BDT1CvSBDTlCtTBDTfCtWBDSWCt1BDTRCuZB
+DTICuNBDSoCtcCDSBCtuBDTECtZCDT_CvOCDTPCtNBDS6CtbBDSpCuJBDSgCuCBDT9CuEBDSQCt9DDSkCtPBDS4CtPDDSUCtjDDU
+BCs9BDTrCsWBDTUCs0BDShCthEDTcCt2BDS7CtnBDS0CtjBDT2CurCDTPCtxBDTwCvvBDTaCumBDSwCtcBDTpCuLCDT3CueBDT8C
+uMBDS7CuGBDUgCtjBDTZCtmBDTaCsqEDS_Ct4BDSyCt9CDUYCvOBDSSCt9BDSwCt2BDSdCt0BDTPCuFBDSICt5CDUFCsPBDTICs_
+CDTUCtSEDTfCsgCDTjCu2BDSvCtRBDSzCt7BDTjCvRBDT0CvwBDTeCvhBDTYCuKCDTsCueBDSZCtlBDUFCu6hDRNCsJFDRiCsdCD
+ROCsdBDRJCsdBDRVCsqCDRNCssCDRaCsrBDRGCshDDRWCs7BDRHCsRDDRWCswCDRdCsjBDRKCspBDRiCssBDRWCsfCDRNCsoEDRB
+CsKBDRZCtCBDRRCstEDRNCskCDRFCsdBDROCsZBDRkCs2BDRTCslBDRyCs1BDRJCsaBDRFCsaCDRWCsXBDRUCsPaDSdCuZBDSOCv
+dBDSHCu3CDSACumCDSGCvmBDRyCuaBDR9Cu9BDSACuMCDR0CuLBDR9Ct3CDTKCwODDSjCvEBDSeCvdBDSCCvBBDRxCurBDSbCwOB
+DRvCtxBDSvCwJCDSvCv1BDSzCwjDDSWCuqBDRjCucFDSMCujCDR5CtvBDSOCvRCDRfCuCBDRyCupCDSZCvlBDSQCvyBDR2Ct4CDS
+qCweBDRsCufBDSdCvyBDSaCv-CDS6Cv4BDSLCvMCDR6CudCDR3CujCDSOCuyCDS4CwOBDS6CwaBDTQCvfBDSBCvACDTDCwVCDR2C
+t9BDRyCuSBDR2CunBDR7CuBBDSHCuuCDR0CugBDSICvFBDRnCt_CDRwCtuBDSHCuNBDRoCuUBDS8CvfFDSkCwKCDR-Cu3BDTICv0
+kDUzCvOCDVZCuPBDUGCuXBDVRCvIBDVGCu9BDV7Cu9BDVeCsoCDWCCuEBDVfCvPCDVuCvOBDWUCt3CDWfCuYBDWdCuyBDUdCurDD
+V_CvOGDWkCuiBDVZCusBDVYCvPCDVBCvIBDUsCvCBDWCCu1BDUnCu1BDVFCueBDUoCt9BDV5CuqCDVwCtXBDVlCvBDDWcCugBDWf
+CuqBDWQCtbCDUOCuhBDUQCuRCDWQCuhBDUxCulBDWTCuDCDWICutCDWQCu8BDVvCutBDVVCvD2DRlCtPCDRwCtWEDRwCtJBDR2Ct
+kBDR4CtZCDRKCtoBDRBCs9BDRmCtpBDRdCtTBDRRCs_BDRqCtQCDRdCtNBDRYCtMBDRSCtEBDRjCtLBDRyCtABDRfCtrBDRlCtEl
+DSOCsjJDSLCsvBDSmCr7BDS5CsZDDSGCtYCDSJCsIBDSPCsFCDTHCsLBDSSCtOBDSbCs1BDTACsvBDSmCslBDTRCsCBDSICsoBDS
+bCsmBDS3CtCBDSlCs-BDS_Cs7CDSeCtOEDTgCq2BDSZCsaBDSaCruBDTECtMBDSWCrwBDSHCtABDTACshBDSwCsoBDSdCscBDT2C
+rcCDTBCrdCDR9Cs6BDSrCsMBDSUCtWBDSBCtNBDSvCtGCDSZCr5BDSoCruBDSfCsGBDSzCr_DDTLCroCDSTCsDBDS2CqlBDSsCs3
+BDSnCrCBDSlCsxCDSnCtEBDS9Cq6BDS2Cs0CDR9CtJBDSHCtjBDSXCshBDSnCsZCDSYCsMBDS2CsLCDSLCtsBDTHCrRBDS1CrbBD
+SeCrdBDTiCsCBDSPCtHBDSbCtDBDSRCs4BDSDCsbDDSaCroJDQ4CoKIDQ1CoOVDQcCoHBDQ8Cn2BDRECnuBDRYCoeBDQvCnyBDQx
+CnrBDRaCn1BDQiCoABDRXCoCBDReCoRBDRfCocBDRUCn6BDRwColBDRFCobCDRQCoeBDRvCoWCDQuCoFCDRyCoqBDRgCokBDQwCo
+MBDQ7CoACDRCCoQBDQnCnrCDRMCoVBDQ0CoFBDRVCnpBDRRCn3BDQmCn2DDRDCoGCDQ4Cn6BDRCCn5BDRpCoiBDRJCoOBDQsCn4B
+DRMCoJBDQzCoCCDRJCoTBDRmCoaBDRPCoCCDRUCoPCDRmConCDRQCoVBDQ9CoDCDRjCoSCDQ4CoRBDQmCoECDQ1Cn5KDQECn_oDQ
+ECn4BDQcCn2BDQNCnwDDQGCnxCDQMCnfBDQcCnqBDQWCn7BDQcCn-BDQLCnSBDQgCnwBDQBCn7BDQGCneBDQTCoCCDP_CoBDDQUC
+ngoDPnCm_xDP-Cm7BDQPCnEBDP8CnFBDQOCnMBDQECnFBDQCCnKCDPxCmyDDPhCmyBDPdCm3BDPxCnEnDPkCnunDQFCnPBDPxCng
+BDPeCnhBDP-CneBDPkCnnBDPzCnuBDP4Cn6EDPfCnPBDPtCnnBDPhCnEBDP7CnsBDPcCn8BDP2CnfBDPyCnaCDPeCnnBDQDCnoBD
+P4CnRBDPfCnYBDPuCnuBDPoCnWmDSICm2CDSECm7BDSKCm6BDSHCm4DDSLCmxfDSKCm7BDS4CmvBDSlCnhBDSlCnrBDRmCnIBDSW
+CnXBDR3Cm0BDSPCm1BDS2CnqBDSkCnYCDSxCngCDSNCnGCDSfCnJBDSoCnPBDRtCmyBDS4CnUBDSgCmuBDS4CnKCDR4CnDBDR2Cn
+RBDSvCmpBDScCnfBDSHCnUDDSZCm8DDSrCn2BDRjCm8BDRwCm5BDSsCm1CDS4CnwBDR-CnOBDSnCnADDSpCm-BDR_Cm0BDSxCnOC
+DSyCnOBDSXCmtBDRtCnNBDS0Cm-BDSRCnWCDRkCmrBDSiCnkCDSUCnKBDSDCnCAABrDR1CnymDR6Cn-BDRrCoDGDSBCoTBDR-Cn_
+BDRmCoLBDSACoEBDR0Cn_BDSgCnzBDSfCoBBDRmCn_BDSWCn3BDSZCnrCDR8CoNCDRyCnjBDSNCnyCDRnCnrBDRpCnvCDR6CoEBD
+R0CoICDRdCnkBDRqCn9CDSJCnpBDRsCncBDRjCnZBDRgCoGBDR2CnbBDSACnqBDRoCoABDRjCn7BDSOCoBBDSGCoKBDR_Cn4TDQy
+CnVdDQbCnhBDQ_CmvBDQ1Cm3BDRFCnDBDRWCmrBDQ1Cm8BDQxCnLBDRCCnWBDQoCnaBDQWCnJDDQeCnVBDQ4CmuBDQ5CnECDQ8Cn
+hBDRYCnaBDRPCnUDDQ2CniCDRYCm6EDQkCnABDQhCnhBDQpCnQBDRECmvBDQVCm-BDRECncBDQ9CnMBDQpCm5BDQ1CnJBDRWCnMB
+DRMCndBDQSCm2BDRRCnABDRNCmrCDRACnmBDQfCnRBDQfCm7BDQXCm2BDQNCm4BDQsCnHBDRMCm3pDSACoyBDSkCoKBDR4ColBDS
+jCogCDSECpBBDSuCoXBDSXCoHBDScCoMBDSECokBDS5CopBDS5CoxCDSTCo6BDSsCoyDDSMCoZBDSaCpDCDSbCobBDSUCpJBDSWC
+oTBDSTCoXBDSKCoOCDSoCoPBDSqCpABDSnCoCDDSQCosBDSPCorCDSyCo2CDS1CodCDS1CoRBDSOCpEBDS4CoEBDSoComCDR4Coa
+EDSYColBDSbCosBDS2CoNDDScCo1BDSvCotBDSBCoaBDSwCoABDSfCoVaDS2CpTBDS9CpjBDS2CpZBDSCCpNBDSeCpQBDSICpMBD
+S3CpBAABeDN7CnbBDOBCnmIDNwCnSDDN3CnRDDOGCn5CDOUCmtBDOCCnWBDOCCnVBDORCnGBDODCnTBDNpCnoBDORCmwCDOJCnlB
+DOQCnUCDOHCoDCDOMCmsBDN1CnaBDNzCn6CDOMCngCDNpCniCDOMCmgBDN4Cn7CDN8Cn8BDN4CoEIDNvCnjBDNuCngBDNxCnhEDO
+ACnMBDONCm6BDOFCnXBDORCnaBDOECnPBDNvCnaBDOKCnPCDONCnLBDOACoCBDNuCnuBDORCmiBDOCCmfBDODCnfBDOPCoDBDOOC
+n_BDNuCn3BDOACn2CDOOCoWCDOPCnvBDOUCmkBDOLCnwBDOHCnjBDOOCn4CDOECoMBDN3CnXDDOICn2BDOACneBDOLCnaBDOTCnO
+BDODCnaBDORCnoCDODCnsBDOJCnvCDOJCnBFDN5CntCDN5CnqBDN3CnqBDN3CnkBDN6CnyBDNyCntBDN1CnnBDNxCnnBDN7CnqCD
+N2CntDDN7CnkBDN3CnzBDN4CnnBDN7CnuAABqDNzCobFDNrCoLBDN1CoLCDN7Co1BDN7CojCDNxCoRBDN6CoOBDN7Co_CDOBCo_B
+DOGConBDOACpDEDN5CooBDNxCoHBDNrCoYBDN5CocEDNqCoiBDOPCo6BDN1CogCDOFCo0BDODCoxBDOHCo9CDOSCo1BDOACo6BDN
+yComCDNvCofCDN8CoXBDN9CoXIDOMCpABDOGCofBDOGCoXBDNxCojBDONCovBDOLCoomDNPComKDNsCooBDNxCovBDN0Co6BDNTC
+oZBDNiCofBDNXCoqBDNmCocCDNaCozBDNYCoxBDNPCosKDNtCopBDNnCo1CDNaCoiBDNzCo-BDNRCozCDNMCoaCDNbCo9BDNjCon
+FDNgCovFDNbCodBDNQCoQCDNxCpDBDNwCo5BDNVCokBDNJCoXBDN1CpCBDNSCo5BDNQCo_BDNkCorCDNaCokCDNmCpBBDNQCogCD
+N2Co5CDNkCokBDNJCo3LDNOCnFCDNYCnHCDNICnhEDNPCoFBDNfCnWCDNVCn_BDNKCn7BDNmCn5BDNjCoNBDNqCnuBDNRCoABDNN
+CnEBDNRCn2BDNdCoWCDNbCnsBDNaCoJBDNkCn-CDNPCoILDNNCnqBDNZCn9BDNWCoICDNbCn2BDNOCoFBDNOCnyBDNkCnTDDNsCo
+DDDNiCniBDNiCneEDNfCnoBDNiCn5BDNiCnuCDNjCnuBDNCCnHBDNECnEGDNlCnWBDNOCm2BDNfCoDBDNUCmsBDNNCnjBDNTCnjB
+DNSCnaCDNKCoKCDNICnKBDNYCm9BDNlCnVBDNoCn1BDNiCnqBDNVCm0BDNTCnEBDNKCm-EDNcCm1BDNpCnZDDNaCnfGDNKCoAMDN
+LCnTBDNMCnTBDNICnYBDNMCnZBDNSCnSBDNNCnPBDNHCnQBDNPCnVBDNXCnVBDNJCnTFDNWCnNBDNQCnMAABPDM7Cm3BDM8Cm2BD
+NBCm3BDM9Cm7BDM_Cm6CDNBCm8BDNHCm3BDNGCmuCDNDCm_BDM8Cm_AABXDNkCnHCDNnCnIBDNjCnNBDNhCnJCDNjCnFCDNlCnHC
+DNeCnOEDNoCnPiDN0CmyBDNsCm3BDNgCmoBDN_CmqBDN3CmnBDNtCmcBDOBCm0BDN2CmdBDNwCm1BDN4Cm2DDNgCnABDNxCm3HDN
+dCnHGDNoCmiBDNxCmrBDN0CnCBDNoCnEDDNsCnIBDNkCmuBDNmCmaBDNzCmfBDNvCnKBDNvCnDDDN_Cm_BDN4CnGCDNrCmvBDNtC
+mrBDNqCm_BDODCmrCDNkCm3DDNRCmlDDNaCmlDDMyCmRDDNSCmeBDNWCmcBDNcCmbIDM0CmcEDM9CmwBDNACm0FDMwCmOBDM1CmK
+JDM8CmaKDM5CmfBDM6CmkCDMzCmgBDM1CmhBDMzCmlPDMuCmTHDNMCmaBDMvCmSCDM6CmqDDNDCmnHDM7CmvGDNLCmlBDNBCmgED
+MxCmWBDMyCmWBDM6CmTCDM1CmWBDMzCmYBDM2CmYAABeDMCClNBDMKCldBDMZClVBDMgClKBDMlCk_BDMdClMCDMCClRBDMeClRB
+DMaClpBDMgClaBDMdClYBDMfClXBDMbClaCDMKClKBDMVClTBDMUClSCDMaClrBDMbClMBDMaCloBDMIClBBDMdClrCDMgCldBDM
+JClIBDMYClUBDMSClZBDMTCllBDMXClbBDMTClcBDMMClLBDMgClCBDMlClJBDMGClQDDMXClHBDMRClNBDMQClKBDMZClSBDMcC
+lUBDMbClQBDMjClDBDMhCk8BDMXCllDDMVClQCDMXClNCDMdClABDMeClbCDMdCldBDMfClGBDMHCk0BDMGCk-CDMHClABDMFCk8
+BDMBClQBDMFClMBDMGClJBDMDClJBDMaClJBDMICk8BDMaCldBDMYCldBDMbCliBDMaClfBDMcCliBDMdClfBDMHClDBDL_ClPBD
+MSClHBDMTClOBDMBCk_BDMOClHBDMlClFBDMOClNDDMVClmBDMVCllBDMQClMCDMJClGCDMMClEBDMXClnBDMWClhBDL_ClLHDMS
+ClXBDMSClUBDMVClXBDMQClaBDMSClRBDMUClVBDMQClUBDMXClYBDMaClYBDMQClRBDMPClTCDMOClXAABXDMLClWBDMJClSBDM
+JClOBDMLClNBDMOClRBDMJClWCDMLClSAABeDMQClkCDMQClgBDMNClhBDMSClhBDMTCljDDMRCllBDMQCllAABaDMvClbCDMuCl
+HCDMrClCCDMiClcDDMmClcGDM3CktBDMtClTBDNECk3BDM7CkvBDMvClKBDM9ClFBDM9Ck7BDMsCleBDMgClTGDM0ClWCDMsClaD
+DMwCk8BDMvClQCDMvCk0BDM0CksBDMnClLCDMsClLCDMpClJCDMyClZEDMqCldCDMoClbEDM2ClOBDMsClJBDMxCleCDM3Ck3BDN
+FCkrBDNACk2BDMtClbCDMxClLFDMnClPKDM1ClCBDMsClXUDMjClXBDMkClUBDMiClZBDMjClaBDMkClXBDMoClYCDMoClWEDMiC
+lSBDMiClZBDMkClaIDMkClWCDMlClYAABNDMhCljCDMfCllBDMeClhBDMeClpBDMeCljBDMiCliBDMdCliMDMpClwBDMkCloDDMp
+ClsCDMmClsBDMnCltBDMnClpCDMpClmBDMhClrBDMgCluIDMrClqBDMoCloBDMtCljBDMcCllBDMgClgBDMxCljBDMlClmBDMtCl
+uBDMrCltBDMoCllBDMdCloCDMnClhEDMwClkBDMbClnDDMdClmBDMlClkBDMjClgBDMiClfDDMhClnEDMkCltFDMsCloBDMrCliB
+DMvCliYDLsClgBDLpCliBDLnCljBDLsClkHDLgClnBDLhCljEDLwClkBDLbClmBDLyClfBDLZClhBDLcClnBDL0ClQBDLlClXBDL
+hCloBDLmClhCDLlClGBDLdClYBDLfClLCDLyClXBDLXClUBDLzClpBDLtClXBDL0ClaBDL1ClSCDLxCliBDLqClbBDLqCllBDLmC
+lpGDLoClPBDLxClOBDLwClcCDLqClpBDLsClOCDLdClhCDLiClmBDLdClnBDLoClmBDLzCleCDLtCloCDLXCllCDLlClmlDMiCkw
+CDMgCksRDMlCkYBDMpCkdBDM6CkhBDMaCj_CDMqCkIBDM8CkWBDNICkfBDMgCkcCDMQCkZBDMSCkJBDMmCj9BDMhCj9BDMhCk3CD
+McCkhCDMhCkNCDMeCkVCDMmCk2BDMmCkmBDMjCkHCDMpCkQBDMhCkqBDM2CkkBDMoCkrBDMjCkmBDNACkSBDMgCklBDMXCkaDDMk
+CkpBDMiCkjDDMyCkYDDMZCkICDMXCkOBDMnCk3DDMcCkuBDMYCkWBDMxCkpDDMlCkhCDMdCkmCDMfCk4CDMgCkQBDM4CkLBDMUCk
+DDDMjCksQDMPClDTDMMCkxBDMKCkkBDMMCk9CDMRCktCDMYCkvBDMaCk6BDMQCk-CDMWCkkBDMMCkqBDMWClBBDMOCk6BDMRCklB
+DMSCk7BDMaClEDDMLCkxBDMUCk-FDMWCksBDMMCk1EDMdCk4KDMWCk2BDMWCk8JDMZCkvEDMOClACDMRCk4BDMPCknCDMPCkfBDM
+MCk3BDMaCk9UDKbCjhBDLBCkBBDK9CkHBDKwCkVBDKwClJBDKvCleBDK7Cj_BDKiClTBDKwCkLBDLNCkMBDLGCkhBDKyCj-CDK1C
+jfBDLBCkyBDLPCkVDDKxCkzBDKzCjuBDK1CkEBDLPCkhBDKpCjSDDK3CkHBDK3CjnBDKpCj4BDK4Cj9BDK9Cj4BDK7Cj7BDKyCj-
+BDK9CkABDK_CkEBDK8Cj9BDLGCkUBDKjCkbBDKTCjTBDKpCjoCDLMCkkBDLJCkmBDK5CkJCDK7CkBBDLLCkPCDLDCkYBDK5CkABD
+KrClRBDKyCjyBDLDCkFBDK6CkOBDLDCkOBDK6CkWBDKyCjqBDLGCkKCDK8Cj7BDLJCkZBDK0CjvBDKsCjuBDK7CjxBDLCCkqBDLI
+CkABDK4CjtBDKuCjbBDLECklBDKqCjXBDKiCjQBDKtCj3BDKaCjbBDLJCkRBDKsCj0BDLLCkJCDLICkFBDK5Cj8BDKaCjZBDKwCj
+4BDKtCkGCDK4CkBBDK3CkCBDKvCjjBDK5CjxBDKgClCBDK4CkiBDKrCkVBDK0Cj1BDK1CkMBDKlClMBDK6Cj3BDKlCkIBDKlCkSB
+DK3Cj3BDK1Cj1BDKkCjjEDLDCj4BDLCCj5BDLACj5BDLDCj6BDK9Cj9BDK_Cj8BDLACj-BDLDCj_BDLFCj-AABbDKOCk3BDJuCke
+BDKOClBBDJhCkMBDKUCk7FDJwCkWCDJeCkIDDKfCkuCDKeCkgEDKGCkwCDJ_CkmBDKgCk5BDKICkyBDJ-CkrEDJ4CkhCDKLCk0CD
+KLCkqGDKVCkzBDKZCk4BDJmCkPBDJzCkiBDKECksBDJ2CkWBDJ2CkbBDJpCkZBDJ3CkmDDJnCkLJDJkCkUKDJ-CkXgDKQCjqIDKZ
+CkOBDKFCjwBDKmCj8CDJ6CkKCDKACkKBDKMCkVBDKcCjyBDKJCkXBDKLCj0BDJ6Cj2BDKhCj_BDKMCjfBDJ7CkECDKaCkLBDJ-Ck
+JBDKeCj-BDKBCkDBDKTCkdCDKJCkBIDKLCkNBDKYCkICDKkCjzBDKcCkFBDKBCj2BDKdCkTCDKDCkHBDJ-Cj-BDKVCkRCDKUCj3B
+DKSCjnHDKVCkEBDKRCkIoDKKCk7BDKFCk2BDKECkyDDKGCk4AABfDLZCkxBDL1CknDDLWCkhFDLbCk9BDLMCkxBDLoCkzCDLVCk3
+BDLUCkmDDLUCkYCDLiCkyFDLwCkaCDLTClEBDLvCkqCDLtCkNDDLKCk3BDLpCkZBDLfCk9BDLpCktEDLsCkmCDLrCkmCDLrCkmGD
+LkCkqBDL1CkUCDLwCkoBDLTCkaBDLeCk5DDLxCkiBDL0CkGBDLoCkSBDLhCkuBDLOCktuDLeCkbBDLfCkeBDLbCkgBDLaCkeHDLh
+CkZBDLgCkiBDLZCknIDLiCkVBDLeCkfJDLhCkcCDLJCkuBDLLCktHDLkCkgqDLfCkmBDLdCksKDLQClUTDLWClbBDK_ClWBDLBCl
+UBDLMCldBDLRCldGDLTCliBDK6ClLBDLCClaBDLLClEBDK6ClXBDLIClgBDLUCljCDLKCliCDLBClbBDLCClXBDLQCliIDLVClkB
+DLDClgBDK4ClfBDLGClZCDLJClSCDLEClOBDKzClPBDLEClEqDMHCkPBDMMCkCCDMJCj6BDMBCkyCDMDCkqCDMJCkMBDLtCk3CDM
+ECk4EDLzCk-BDL7ClBDDMCClDBDL8CkjBDL8CkRBDL0CkvBDLyCkxBDL7CkBBDMQCkNBDMLCkHBDLuCk-BDMLCkPBDMBClIBDLpC
+k9BDL7ClIBDMJCkWCDL-CktBDMECkwBDL7ClGDDL-ClEEDL6CklCDMBCk2CDMDCj6CDL1Ck8CDLvCkyBDL9CkeBDL-Ck6DDLvClH
+BDMMCkeBDL2ClKCDL8ClNCDL-ClJCDMPCj1CDMBCkHCDMBCknDDL2ClFBDL6CkzDDMDCkjDDL3ClMBDL_CkzCDL1ClCCDLvClBCD
+MNCj6BDL8CkYCDMFCkdBDL-CkuLDL4Ck8BDL0Ck3CDL6Ck9AARJDMTCloBDMQClpBDMRClpBDMNClmBDMPClnBDMPClnBDMPClnC
+DMRClqBDMSClqBDMSCloBDMRCloBDMQCloBDMRClnCDMTClqBDMTClrBDMUClpBDMVClpBDMUClqBDMVClsBDMUClrBDMVClqBDM
+XClrBDMYClrBDMYCltBDMZCltBDMWCltBDMXCltBDMaCluBDMaCltBDMcCluBDMdCluBDMfClwBDMYClvBDMUClpBDMZCluBDMPC
+loBDMbCluBDMeClvEDMUCltVDMUClsEDMWClpGDMVClscDMUClqHDMTClqBDMUClqBDMUClqDDMZClsEDMTClpJDMWCltYDMUClr
+BDMUClrBDMUClrIDMVCltDDMTClqCDMTClrBDMTClqBDMTClqBDMTClqBDMUClrBDMUClrBDMTClqBDMTClqDDMUClqWDMTCloAA
+BIDMPClnHDMQCloBDMPClnBDMPClmCDMQClmTDMHClfBDMHClaBDMHClXBDMFClfBDMEClgBDMBClcBDL7ClQBDL_ClZBDL9ClSB
+DMHClcBDMFClWBDL_ClWCDMEClYAACJDMaClwBDMcClwBDMdClxBDMZClwBDMZClxBDMbClxBDMdClyBDMeClzBDMbClzBDMcCl0
+BDMdCl4BDMcCl2BDMhClyBDMfCl8BDMbCl6BDMhCl3BDMgCl1BDMfClyBDMfCl3BDMhCl1BDMiClxBDMbCl1BDMaCl2BDMZClzBD
+MgCl5aDNKCmABDMtCl4BDMvCl0BDM5CmFBDNOCmBBDM_CmMBDNDCmHCDNVCmRBDM6Cl4BDNGCluBDNZCmFCDM9Cl_CDNaCl1BDNK
+Cl2BDNHCmRBDNPCmKBDNDCl1CDMtCl2BDMyCl6BDNSClvCDNJCmKBDNMCl_BDMqCmECDMuCl7CDM2Cl8BDMwCl3CDNOCl9BDNHCm
+HBDNOCl0BDMmCmACDNNCmDBDNSCmBBDNRCmABDMnCmCCDM-Cl4BDNACl8BDNLCl3BDNECluBDNACmEBDMjCl4CDMkCl5BDMjCl6H
+DNOCmQCDM_Cl5EDNJClwBDNJClyDDM5Cl9DDMuCmIDDNCCmTBDMwCmFBDNLCmIBDNUCl4BDMqCmHDDMrCl9FDNNCl5BDNNCmHBDN
+GCmWBDM0Cl3DDM4Cl_BDM1Cl-BDNGClsBDNJCmQBDNICl8DDMvCmACDMxCl-BDMzCmBBDMtCmBBDMuCl-BDMwCl7AABeDMnCl0CD
+MoCl0BDMkCl2BDMkClzBDMrCl1BDMoCl6BDMmCl5BDMnCl7BDMpCl3AABbDMkCl-CDMiCl7BDMnCl9BDMhCmAAABgDM8ClbJDNIC
+laBDNLCloCDMzClsBDNWClUBDNiClEBDNZClQBDNMCldBDNOClOBDNhClBBDM8CluBDNNClEBDNOClpBDNACloBDNSClFBDM_ClL
+BDNGClbBDM_ClrBDNPCloCDNSCldBDM5ClXBDNcCk6BDNRCk1HDNZCk4BDNdClFJDNMClUCDM3ClgBDNVClgBDM2ClnCDM7ClpCD
+NSCk-CDM1ClvCDMxClsBDNbCkyBDMuClxBDMyClnDDMwClwBDNJCk3BDM-CliDDNSCk4BDM8ClVBDNGClXBDMuClvBDM4CljCDM-
+ClIBDNECliDDMvCltBDNAClmBDNmClEBDNJCloBDNAClSBDNKCkwBDM4CluBDNHClECDNXClYBDNBClrBDM2ClrCDNTClrCDNMCk
+yDDMQCmGCDMOCmFBDMTCmFBDMUCmFFDMOCmIKDMVCmFBDMWCmDCDMYCmDBDMaCmCGDMXCmHKDMTCmICDMUCmGIDMcCmHuDMGCmAF
+DMTCluBDMVClvBDMUClxBDMSClwBDMWClxBDMUClvDDMTClsAABcDMNClpCDMJClvBDMGClqBDMOClrBDMOCluBDMLClzBDMLCl1
+BDMGCllBDMHCltBDMPCltBDMKClxBDMLCluBDMECloBDMKClpBDMMCltBDMMClqBDMIClqBDMHCloBDMIClmBDMNClvBDMRCltBD
+MEClrBDMCClpBDMKCltBDMJClsCDMGClnBDMECluBDMGClrBDMMClnBDMKClnBDMMClwBDMFClxBDMCCluBDMIClyBDMOClwBDML
+ClrBDMJCl2KDMOClrAABpDMVCl5BDMTCl6BDMWCl4BDMXCl7BDMUCl8BDMXCl-BDMWCl-BDMUCl_BDMUCmDBDMVCmBBDMTCmABDM
+SCl9BDMRCl-BDMRCl6BDMTCl3BDMUCl1BDMVClzBDMVCl1BDMTCl0BDMSCl0BDMRCl2BDMQCl4CDMSClxBDMQClxBDMQCl0GDMOC
+lzaDMNCmCBDMOCmABDMLCmBBDMKCl4BDMPCl5BDMMCl3BDMMCl4BDMOCl4BDMNCl6BDMLCl6BDMNCl2BDMKCmCBDMQCl_BDMPCl5
+CDMSCmEBDMRCmBBDMQCmCBDMPCmCBDMJCl9CDMPCl9BDMOCl9BDMMCl-BDMOCl7BDMMCl8DDMQCl9MDMOCl8yDMTCmMGDMVCmLCD
+MDCmDBDMJCmPEDMTCmPCDMHCmDCDMICmJCDMJCmSKDMRCmMMDMfCmNDDMbCmRCDMbCmMBDMZCmPBDMQCmQBDMOCmOCDMNCmLBDMP
+CmRBDMQCmUCDMQCmSBDMICmHBDMFCmLBDMECmFBDMgCmRBDMDCmMCDMKCmJCDMMCmJBDMKCmUCDMXCmQBDMDCmSBDMLCmMCDMHCm
+MDDMMCmSBDMYCmLBDMWCmMCDMcCmMBDMLCmGBDMJCmEJDMUCmTGDMUCmMCDMHCmFAABdDMECmABDMDCl9BDMDCl7BDMCCl3DDMAC
+lxEDMMCmjBDMICmmBDMRCmrBDMQCmoBDMSCnGBDMPCm0DDMjCmUBDMLCmXDDMWCnSBDMSCmbBDMTCnJBDMWCm-BDMWCmzBDMQCmy
+BDMWCnVBDMfCnEBDMiCmnBDMWCm4CDMeCmeBDMcCmwBDMMCmlBDMgCnMCDMUCmrBDMRCm6BDMeCmsBDMcCmWBDMmCnBCDMRCmhDD
+McCnIBDMPCm7BDMfCmoBDMXCnFBDMZCnIBDMgCmiDDMZCmoBDMWCmjCDMZCm7CDMRCm3BDMUCm7BDMXCmWBDMhCmzBDMeCnABDMQ
+CmYBDMNCmnBDMJCmeEDMMCmfBDMbCnOBDMlCnPBDMgCmUBDMmCnKBDMdCm9BDMkCmqBDMRCm_BDMJCm-BDMfCmXBDMUCnNEDMjCn
+HBDMoCnFBDMnCnSBDMZCnBBDMjCm7CDMSCnEBDMMCmbBDMfCnICDMnCnXBDMdCm3BDMaCm3BDMoCnPBDMjCm_BDMbCmaBDMoCndB
+DMJCmZBDMkCm_BDMPCmuBDMRCnCBDMaCmdBDMTCmmDDMUCmYCDMWCmdBDMUCmeAABhDMlCnvdDMrColBDMlCnyBDMlCoRBDMmCnj
+BDMYCngBDMuCn_CDMsCodCDM6CoQBDMZCnkBDMbCnoBDMdCn3CDM2CoLCDMeCn8BDMmCn2BDMoCn5BDMfCngBDMZCnbBDMVCncBD
+MsCn5BDMhCnRBDMxCo1BDMZCneBDMrCoBBDNACokBDMwCoCBDMbCnzBDMZCnpBDMiCnXBDMlCoVBDMsCoQBDMxCoSBDM0CoSCDMY
+CnYBDMiCoFCDMmCn3BDMyCoFBDMaCnqBDMfCnXCDMnCoXBDMlCoNBDMbCnsBDMbCnwCDMbCnUbDPDCluBDPlClxBDPWClkBDPuCl
+XFDOtCl6CDOwCmeBDPPCmYBDPtCl0BDP0Cl1CDPTCmrBDPMClWBDPACmXBDP9ClcCDPsClxBDPuCmgBDO6CmiCDPdCk5BDQRCktB
+DPFCmGCDPZClDBDPFCkjBDOyCmTDDPPCmoBDPGClqBDOzCl0BDPVCkzCDPACl8BDPDClwBDPeCmDEDOzCl4BDPcCmcBDPcClVBDP
+MCl1CDPcCleBDPxCmqBDOyClwBDPOCliBDO5CmZBDPMCmKBDPGCmaBDPJCmMBDPKCknBDPlCl9BDPeClKBDPIClwBDPwClABDPvC
+lMBDPzClOBDPJCk-BDPoClECDP5CljBDOuCmMBDO4ClBBDPLCl-BDQBClGEDPdCmfBDO6CllBDPWClyBDPWClrBDP0CldBDO7Clz
+DDPoCmpCDPXClCBDPCCkpBDPpCmbBDP3Ck-LDO3CmFCDQjCk8CDPbCl-FDO_CmQBDPGCkNBDQFClOBDPsCmECDO_ClaBDPkCmPBD
+PGClHBDPECmPBDO9Cl9BDPACmkFDO8CmKBDO9Ck6BDO_CmNCDQOClRCDO6CmTBDPmClbBDPbCmnBDQmCkuBDPUCmTDDPBCl4BDPP
+CmEDDPEClYBDPjCl3BDPOCkvBDPoCljBDPsCl-CDPPCmdBDPuCmPBDPMCkVBDPACmBBDPTClLBDPFCl7BDPRClzBDPcClEBDPFCl
+3DDQ1Ck7BDOwCmZBDPkCk6BDO6CksBDPJCmnBDPLCmfBDP0CmJCDOtCmCBDO4CmABDOzCmDBDPICkwBDO2ClrBDPvClLDDPbCmQC
+DPgCmNBDPbCmHBDO6CmLBDPmCmVBDPPClqBDPPCk6BDPiCmGBDPaCmEBDQkClLCDO4Cl5BDPEClkBDPGCk7BDPACmdBDPPCmPBDP
+NCkgBDPTCmNEDPQCmABDPUCl3BDPVCmDBDPYCl6BDPTCl-BDPSCmBBDPRCl7BDPQCl9BDPSCmBBDPXCmALDPVCl6EDPUCl7AABMD
+PoClqBDPbClvBDPdClyBDPhCltBDPhClkBDPgClvBDPiClwBDPgCl2AABcDOPClnDDN-ClQBDOvCleBDOZCkuBDOuClECDOWClXB
+DOXCk-BDOEClkBDORClMBDOvCllBDOoClwCDOaClMBDOHClpBDO0ClYBDOCCleBDNwClBBDOqCkyBDO3ClTBDO2CldBDOpClcDDO
+fClcBDN1Ck6BDN_ClsBDOkCk2BDO0ClmBDOVCluBDORClYBDO0Ck1BDN0Ck2BDOlClgCDOlCksBDOsClTBDN6ClXBDOfCk2BDOnC
+lQBDOJClgBDOpClLCDN7ClJCDOYClUBDOPClpBDOeClSBDOuCltBDOoClEBDOZCluBDOsClaBDOfCkmBDOTCloBDOUClPBDN-Ck9
+BDOoCkkBDO7ClXBDOHClPCDOjClnBDOXClFBDOgCk6BDOHClqCDOuClABDO9ClPBDOsClgBDOAClkBDOBClhBDOqCllBDOtCktBD
+ORClnCDOZClpDDOeClBBDOOClRBDOrClsBDNvCk7BDOCClWBDOlClYBDN_CliBDODCloCDN3ClFBDOcClwBDONClaBDOjClHBDN7
+ClrBDOLClKBDOYClPBDOyClNCDOVCldDDOBCmUBDOZCmKBDOUCmSBDOSClxDDORClwBDNeCltEDNkClsBDOmCmEBDOECmABDNwCl
+hBDObCmVBDOdCmZBDNWClkCDNXCloBDOhCmLBDN0CmQBDOZCmABDNhCl0BDNxClVBDOcCl2BDNgCluBDNzCloBDOkCmWBDOlCmIB
+DNiCmJCDNkCl9BDOnCmBEDN7ClzCDNvCmECDNpClmBDNdClSBDOqCmJBDN7CmIBDOLCmYBDNuClpBDNuCleBDNhClOBDNiCliDDN
+aClhIDN4ClfCDNeCmRBDNmCmSBDOpCmLBDNrClIBDOPCmLCDN1Cl9BDNrCmJBDOQCl7BDOICl2CDOICltBDNdClYCDNWClcBDN9C
+l8CDOCCl1BDOGCmGBDNiCmEBDOWCl0CDN1CmHBDNlClXDDNqClYBDNoClzCDN6CmVCDNuCmTHDNzClxCDNwCl2BDNxClzAABhDNt
+CkiSDNdCkPBDNtCkOBDNlCk9BDNnClDBDN3CkFBDOCCkKBDOOCkvBDNyCkHDDNdCkrDDNjCkRBDN2CkrBDN1CkdCDOBCkCBDNeCk
+YBDNvCksCDOKCk9BDOACj8BDN0CkgBDNiCkUCDN7CkBBDNYCknBDN3CkoBDN5CkMBDNyCkVBDN2CkHBDNxCkmBDNwCkFCDN8CkeE
+DOKCkeBDN7CkmBDOGCj5CDNuCkZBDNwCk1BDNnCkEBDOBCkqBDN-CkGBDN_CkEBDOCCkfBDNuCk5BDNZCkUBDNSCkpEDNqCkuBDO
+MCkIBDNkCkhBDNuCkXBDNxCkqBDNYCkfBDNpCk5CDN2CkVBDNvCkrBDNjCktBDNsCkSBDN8CkTBDN8CktBDN0CkuBDNkCkzBDN-C
+kPBDNfCkIJDQTCmLCDQRCmNBDQWCmIEDQ_CmBBDQMCmdBDQlClpBDQsClgBDRMClBCDQzCmNBDQ6CmHBDP4CmmBDQ0Cl6CDQvCmd
+BDQiCmMBDQhCmiBDQLClwBDQGCmjBDQoCmFDDQgCmXBDQNCmUDDQICmHBDQYCmrBDQDCl4BDP-CmZBDQVClnBDQ7CmPBDQkCmyBD
+QVCmjBDQXCmVCDQuCmZBDQ8ClMBDQvClqBDQlCmLBDQfCmFBDQXCl9BDRVCkpCDQgCmuBDP-ClqBDRKClcBDRXClbBDQ2CliBDQh
+CmrBDRbCmABDQ3ClaBDRHCltBDRMCmGBDQEClyBDQ8Cl7BDQ_CmiBDQ5ClvBDP6ClvBDQ9ClJBDQJCmpBDP7CmCEDRICl_BDP9Cm
+QBDRMCmEBDQACmtBDQ5CmVEDQgCliFDRICmVBDP9CmRBDQpCl4BDQ0ClvBDQqCmnODSfCmdCDSaCmeHDSuCmPBDSOCmdBDSICl_B
+DSDCloBDS1CktBDStCllBDSsCk0BDS0ClXBDSdCmIBDS4CmfBDSxCliBDSxCmhBDR9CkXBDS3ClsBDSICmSCDS3ClHBDRtCkXBDR
+UCmSBDSgCmEBDShCkyCDRtCmPBDSxCl3BDSpCl2BDSsCl8BDR1CmkBDS4Ck3CDSDClYCDR7CmGBDRyCl8BDRkCl0BDSDCmXBDR3C
+lQBDRtCljEDR4CmSCDSfClyBDSjClOCDSmCluBDRiCmcBDStCkuBDS3CmTBDS3CmEBDRaCmTBDReCmRBDSfCmSCDRlCmNBDSfCkk
+BDSnCk9BDSkCkmCDSfCleBDSFClGCDSQCmUBDR0CkvBDReCmeBDSNCmhBDSKClRBDR2CleBDSVCl9BDS7CmnBDSQCk0BDSXCl3CD
+R7ClaCDSQCmCBDRuCk9BDR8CmACDSOCliDDSqCmYBDRrCmbDDR8CmfBDR9ClzBDRhCmQWDPiCiZBDPsChpDDPtChnCDPaChfBDQF
+Ch8BDQSCinBDQLCiRBDQECikBDP5CiBBDP8Ci3BDQHChnBDPwChZBDPuCixBDQUCiNBDP7CivCDQFCiaBDPICinBDQHCiNBDQOCi
+vCDQSCihBDPKCiNGDPoCipBDPZCitBDPACiFBDQFCjBDDP-CicDDP2Ch3BDPmCi5BDPACh5BDPlCiiCDPiChOBDP3CigCDPBCh8B
+DQVCh6CDPUChqBDPcCi5BDPKCh5BDQTChpCDQXCiRBDPZCiLBDPwCiaCDP9ChvBDPTChhBDP-CikBDQ1CiiBDPoCiUDDPWCiPBDP
+_CiNCDQDCiLCDPRCh1JDPNCiZBDPHCiDBDQVCiWBDPwCilEDPwCh_CDPpCiDBDQOChjBDP_Ch2BDQEChrBDQjCiIBDQbChxBDP7C
+ifBDP1ChZBDPbCh4BDPyCh0BDPvCiQBDQkCiBBDPkCiuBDQLCi5BDPSCiyCDQgChyFDQeCiXBDQPCiHCDPxCjABDQNCiBBDPNCiv
+CDPqCifCDP6ChfBDPbCiNBDQsCiSBDQLChYBDQtCiiBDQ1CiUBDP-ChUBDPeChnBDPsChSEDPrCh6BDPzChzBDQBChUBDPTCi2BD
+QVCheBDQICi7BDPYCijBDPgCiUBDPjChfCDQHCi8BDP8Ci9BDP-CiBBDPrChIBDP8ChnBDQVCiajDP4CiRBDP6CiTBDP5CiOBDP0
+CiSBDP7CiVBDP1CiQBDP8CiRBDP8CiIBDP3CiTBDP-CiUBDQBCiTCDP4CiYBDPyCiKEDP4CiKFDP4CiWUDP2CiUuDP7CiPLDQeCj
+uBDQmCijBDQZCjVBDQMCj0BDROCjZDDQNCjCBDQkCjiBDPpCjLCDQ5CjwBDPoCjrBDPjCjmBDPaCj2BDQeCi6BDPlCktBDPsCjqB
+DP3CjpBDPeCkeBDP9CjfBDPyCjwBDP4CjeBDQUCkMBDQuCjOBDPYCkOBDRVCjqBDPyCjZBDP_CkhCDRGCkABDPcCjKBDPjCkVBDP
+jCjCBDPWCjrCDPcCkEBDQpCkFBDPuCkmBDP6Cj3CDPQCjxBDQ_CjlCDQ5CjkBDPiCjNCDPXCj-CDP6CkFCDQTCj3BDQhCkjBDQOC
+joBDPhCjaCDPxCj8DDQ8CkhBDPqCkRCDQWCjRBDPgCjqBDP-CkTCDQ9CjOBDQ0CjjiDPqCjRBDQECjpBDQ-CjUCDQCCkMBDPxCkK
+BDPsCjCBDPyCjJBDPtCkrBDPPCjlCDP6CjoCDPMCjwBDQHCkHBDP-CjnBDPlCjeCDQ1CkDBDP6CjCDDQDCjgBDPwCjTDDPsCkzDD
+QJCj9CDQvCjrCDQSCj1BDRCCkmBDQuCi0BDQXCj0BDPmCkEBDQKCjWBDQLCjbJDPWCkXCDP4CkpCDQFCkcBDPsCjeBDP0CjqBDPe
+CkACDPeCktBDPVCjYBDP7CjIDDPVCjGEDPlCkRBDQJCjmBDQJCklBDQaCjHBDQ6Cj9BDQ0CjXCDPpCkXBDP9CjRBDP4CjRBDQCCj
+KCDPsCjgCDPWCjzBDQdCizBDPlCjCBDPfCjkBDQYCjiCDPTCkbBDQjCjQBDP_CjZBDPmCjzBDP_CjiBDQfCiqBDQpCj1BDP_CjoG
+DP8CjtBDQCCj1AABjDRVCipBDRdCi5BDRbCi0CDRFCibBDRLCieBDR5CipBDRyCjHDDRBCiTBDRXCi3BDSsCkdBDSNCi_BDRZCii
+BDRbCiuBDSSCj2BDRjCiDBDRWCjJBDRPCjXBDSsCj-BDRiCiUBDSFCi5BDRvCiXBDSOCkNBDRJCi8CDRcCjACDSKCjlCDRlCiZBD
+SICjSBDRaCiZBDR1CjoBDQ-CiTBDRiCiwBDRaCi5BDRyCj1BDR5CihBDRzCifBDR5CjVBDRbCi8CDR3CjXBDSECi_BDSUCkFBDRn
+CjmBDSzCkiBDRFCiKBDRLCiOBDSDCjvCDSRCjTBDS6CkoBDRrCilCDSjCjpBDQ-CiuBDSlCj0BDQ7CiWBDS2CkPCDSSCjDBDRdCj
+ZBDRuCkJBDSoCkCBDSjCkFBDSaCjTBDRrCj6CDSHCkmBDRqCi7BDQ-CibBDR0CiwBDSaCkNCDSrCkHBDR5Ci3BDSTCjjBDSDCjfB
+DRICiqBDS5CkeBDR8CkDBDRRCiXCDSECkUDDRmCkDBDRvCi3BDR1CidBDRXCiHBDSuCjzBDRiCkMBDSeCkPBDSjCkXCDSaCkEfDO
+nCjPBDOdCkZBDOVCiPBDOuCjUBDOXCh3CDOwCiNCDPICiUBDOzCkZBDOrCkcDDOlCh-BDOoCipCDOoCiuBDPBCkGBDOUCiyCDPAC
+kUBDO-CkQBDOhCkOBDOvCkLBDOZCjXBDOXCkCBDOQCj6BDO7CkUDDOdCiYODOMCjyBDOxCj3BDO_CjiBDOqCihBDO0Ci4CDO6CjU
+CDOhCkFBDOPCjpBDO8CiKCDO9CkiBDOmCjABDOyCklCDOhCigFDOWCi2BDPICj3BDOxCicEDPDCi2BDOoCicBDO-CibBDOnCjeCD
+O2CkGBDPOCkHBDPFCjqBDO5CjdBDPNCj5BDOnCiQBDOTCh9BDOiCjNBDPOCjPBDPHCjPFDPACkAFDO8CjwBDOZCjFBDOcCiHDDO8
+CjECDPRCjCBDOkCi4BDPHCkHBDO2CiODDOtCjcBDOoCjqCDO5CiwBDO1CkgBDPICjhBDPNCi_CDO0Cj_BDOkCjoCDOyCjkBDOVCi
+eGDOhCjyDDO1CjrBDO-CkJBDPCCj2BDOxCinBDO8CipBDOrCh5BDOWCjGkDOiCisBDOZCijBDOUCirBDOdCiyBDOhCimAABgDP4C
+elDDPpCemBDPsCe_BDPPCdyCDQTCeaBDPLCewCDPjCe6BDQVCejBDP8CexHDP0CfDEDPKCe_BDPOCePBDPuCeTBDPLCdyBDQTCeQ
+BDO_Ce-BDPICenBDPyCebBDP5CeZBDPSCeUBDPCCeBBDPBCeCBDPxCexBDPgCerCDPlCfGBDPoCeyBDO4Cd2BDPACenBDPqCeSED
+PVCd1BDPBCdVDDP4CeSBDPdCeeCDPrCfLBDPICecBDPzCe5BDPRCeBBDP-CfHBDPjCeZBDO8Ce4BDPLCdrBDO9CdlBDO5CdTCDPA
+Ce5BDPPCfFBDQJCegBDP3CeMBDPMCeYBDO6Cd8CDP2Cd4DDPXCeFFDPPCegBDPICdtBDPSCexBDPUCetCDPXCd7BDPrCeZFDPGCd
+_BDQFCd1CDQECeSEDQVCeyDDO3CeiBDPkCehBDQJCeyCDQGCenDDQOCePBDQCCdwCDPKCd-BDPWCd6BDPSCe4HDP8CeEFDP8Ce9B
+DQWCePBDPbCeOCDPACdyBDPHCfJBDQMCd-BDQDCeACDPFCekBDPACdcBDPECdjCDO2CdvBDPYCeiCDPECeRCDPyCfQCDPZCetFDP
+0CeAQDO9CdKBDPbCe4BDPDCd1BDPcCejBDPWCeVBDO6CeXBDQPCeHBDPFCepBDQNCd0bDPqCd_BDPoCeABDPmCeCBDPoCeCCDPoC
+eHBDPvCd-BDPrCeDBDPrCeBBDPmCeFBDPrCeGBDPqCeGBDPsCd_BDPuCeEBDPtCeHBDPvCeCBDPxCeABDPiCeFBDPfCeFBDPlCeG
+BDPyCeQBDPsCeABDPxCeDBDPkCeNBDPtCeNBDPxCeIBDPoCeNBDP4CeKgDP0CeJBDP0CeJoDP-CdwBDP9CdvBDP8CdwBDP-Cd5BD
+QACdyAABqDQMCfCCDQKCg_BDPpCfyBDPcCg6BDP8CfaCDPMCgmCDQJCffCDP8CfRBDPuCfoBDPmCgeBDPzCgaCDPNCfTBDP8CfnE
+DPwCguBDP8ChICDPXCf6CDPJCfzEDPVChAEDP_CgLFDP9CgSDDP2CgNBDPgCfvCDPlCg8GDPVCfxBDPgCg1BDQVCfeCDPeCgCBDP
+4Cf_BDQRCfsBDPoCgNBDQJCfSBDPaCgLBDPxCgCDDPuCgKBDQVCfUBDQWCfLBDPKCgvBDQMCe6BDPkCf1BDPdCfgBDPxCfbDDPoC
+gABDPpCfgBDPhCf8CDP9Cg9NDP-CgaCDPxCglBDQECgrBDP0CgJBDPUCgjDDPWCflBDP0CfjBDPRCgUBDP8CgyBDP8CfrBDQNCfz
+BDQIChFBDPLCfiCDQLCgdCDPUChPBDP6CgmDDPoCfXBDQDCgQBDPTCg2CDPGCf8BDPaCfYCDPwCg5BDPlCfkBDP6CgICDPGCfQBD
+P4CgsCDPjCfkCDPdChLBDQDChIBDPyCf4BDPcCgkBDPSCf1BDP3CfuCDPyCgkBDPWCfWBDPUCfPBDQKCg3EDQPCg-BDPUCfpBDP4
+CfRCDQHCfqBDPVCgCBDPiCgvDDPzCgREDQCCgfBDPbCfHCDQWCe_BDPICgEIDQKCgQFDPrCgFBDP4Cf3CDPUChJBDQMCgrBDQNCh
+NBDPjCfNBDPnCfjMDQECf_BDQFCgABDQFCf2BDQDCgBBDQDCf-BDQGCgFBDQCCgGBDQDCf7BDQOCf5BDQGCf8BDQECf_BDQICf7B
+DQLCf6BDQLCgBBDP_CgFBDQCCf7BDQBCgABDQHCgABDQJCgFBDP9Cf8BDQBCfzBDQDCgJBDQJCf1BDQBCf9PDQACf97DOYCdaFDO
+bCejBDOYCfSBDOSCfSBDO0CfaBDOZCdKBDOwCfLBDOiCdQCDOtCfABDOYCfKBDO2CdIBDO0CfGBDOzCdXBDOyCeABDObCdYBDOSC
+e9BDOlCdFBDOwCdkBDOVCcxCDOpCdyBDOlCe7BDOrCdLBDO5CeOCDOvCeWBDOmCdpBDOgCdjCDO9CfOBDOeCcpBDOxCetBDOVCdu
+BDOjCfIBDOmCdiBDOmCebBDOcCdVBDOlCevBDO7CfDDDOfCdrBDOgCeYCDOYCdTCDOzCdUBDOUCeYBDOSCfEBDOnCeGBDOkCdKBD
+OoCdBDDOXCeuHDOWCdBCDO3CdFBDOUCe6CDOeCd5CDOZCfJBDOnCcuCDO3Ce9BDOYCeoBDObCeLCDOhCc3BDOrCdbBDOXCd7BDOv
+CdNBDOgCdMCDOwCc7BDOWCeyNDOaCgfBDOpCftBDOnCfsBDOvCfnBDOzChYBDOgCftBDO6Cf0BDPICgNBDO6CgPBDOzCgZCDOuCg
+7BDOpCfYBDOgChABDO1CgzBDOkChWBDO0Ch-BDO9ChOBDOmCgQBDOkCgXBDOoCgmBDO8CfnBDOoCgHBDOrChbBDOYChjBDPCCgLB
+DOiCguDDOdCg5GDPFCflBDPCCg6BDOjChdBDOfCf9BDO8CgpBDPFChMBDPMCg-BDOxCf8CDOkChMBDPFCfYBDPNChXDDO7ChuDDO
+9ChwBDPDChjBDOfCgKBDO2CgXCDOTCgvBDOcChqBDPLChMBDOZChbDDOtChMBDOzChOCDOyChjCDO0ChTBDOgCgvBDOUChFBDOoC
+hJBDPECgeBDPFCgsDDOWCf3BDO9ChCBDOuCgoBDOhCfaBDO4Ch8BDPLChmBDOoChwBDPACfjBDOVCgDBDPCChbDDOnChmCDO2ChB
+BDOVChrBDO_CgxBDOSChSBDOYCfeCDOSCftBDOVCgRDDOXChWCDOcChIBDOXChPBDOZChMAABgDMECbwCDMECb6BDLqCbqBDMICb
+9BDMHCccBDMJCcXCDMOCbrBDMVCbtCDLYCcjCDMFCcqBDMICcICDLrCcDBDLkCckBDLxCbvBDLfCcVBDLvCbkBDLUCcWCDMCCcfB
+DLmCcYBDL7CbsBDMLCb4BDLmCckCDMDCcmBDLrCcACDLaCceBDLrCcbBDLuCcjCDLiCcfBDLhCcXEDMNCb8BDL_CbfBDMICcVBDL
+pCcbBDMACb5BDLnCckCDMACckBDMACbkBDMBCceBDMLCblBDLuCbsBDLsCboBDLnCcEBDMACb6BDLsCb4CDMLCbdBDLtCbzBDMKC
+bxBDLXCccBDLbCcYBDLsCcBBDMICcrBDMTCb2BDLdCcUBDMACcrDDLxCb9BDLWCceCDMRCb7BDMDCchBDMFCcgBDMHCbmBDLsCbp
+DDMCCb4BDLuCb7BDLiCclBDMHCckBDLuCcrBDMLCcFBDLbCcfBDLjCcaBDLfCcpBDMHCcJLDMCCcUBDLoCcMCDLwCceCDLxCcFCD
+L6Cb8CDLtCcfCDLwCcgEDL9CcXEDLwCcZCDLsCcaBDLrCcXDDL2CbzDDLlCcQCDLqCckBDLqCcgBDLpCcdCDLmCcjBDL2CcFBDLu
+CcjCDL8CcgBDLxCcmCDLuCcEBDMBCcBBDL_CcmBDLxCciBDLzCcoBDL6CchBDLvCck1DL4CcWBDL7CcJBDLzCcSBDL2CcKBDL0Cc
+FBDL3CcZBDLwCcXBDL1CcaBDL6CcTBDLxCcRBDLzCcOBDL2CcRBDL0CcUBDL5CcPBDL6CcZBDLwCcNBDLzCcYBDLyCcbBDL0CcSB
+DLyCcLBDL0CcdBDL1CcRBDL6CcVBDL3CcVBDL7CcFBDLwCcPBDLtCcTBDLtCcMBDL8CcMDDL1CcXBDL2CcNBDLtCcOBDL2CciBDL
+rCcSBDL_CcLBDL-CccBDL4CcqCDLpCcICDLuCcJRDL0CcVPDL1Cb-HDL0CcRIDL2CcOLDLYCb3JDKzCbgBDLNCb9BDLhCbkBDLOC
+cNBDLXCcOBDKwCcSBDKwCb1BDLkCb_DDK7CcRBDLoCb9BDLHCcLBDLSCbmBDLSCcJBDLDCcUCDKvCcTCDLLCb0BDLaCcHBDLTCcO
+BDLgCcRBDLLCcPBDK1CcTDDLDCbqBDK4CcSCDLlCbwBDK2CbuBDLhCb6CDLACcLBDLKCcFBDLCCcJBDLeCb6BDLHCcQBDKwCcJBD
+LlCb8BDK8CcXBDKvCboBDLECbxEDLCCcSBDLNCcQBDK8Cb0BDLRCcIBDLpCb2BDKwCb7BDLhCb8BDLDCb0BDLYCbpBDLYCcTBDLi
+CcKBDLJCcRCDK7Cb9GDLTCbgBDLHCbjBDLkCb1BDLgCblBDK8CbhVDK-CcpJDK_CcZBDKvCdSBDLSCcfBDLGCcdDDK6CcsBDLJCc
+YCDLOCcbBDLECceBDK5Cc4BDLGCcjBDLRCcXBDK3CdQBDLLCc9CDLPCcTBDLQCcwBDLJCcWBDLMCczBDLBCc7BDLTCceBDLGCcVB
+DLQCcbBDLCCcfBDK2CcrBDKzCc5BDLPCceCDKuCc0CDLKCcgBDLACccBDLJCcZBDK8CcxBDLLCdNBDLDCcXBDLWCcrBDLFCcmBDL
+JCcSBDKuCcgDDK6CcdBDLJCczBDLBCczCDK9CcfBDKxCdGBDK1CcZBDK4CcaBDLOCdOBDLECcaBDLBCdIBDLCCc0BDLQCcbBDKyC
+caBDLDCchBDLJCdKBDK5Cc_CDLACcsBDLQCcnBDKvCcaBDLECccBDK7CcYBDLQCceBDKzCckBDLXCctBDLHCcnCDLOCcnBDLQCcf
+BDK9CcmCDLLCctCDLGCcoBDLECcuBDLQCdECDLUCcoJDLMCdnBDLLCdcIDLECdwKDLTCduBDLcCeZBDLCCehIDLCCd8BDLaCdsBD
+KwCduBDLGCe-BDK-CeTBDK3CesBDLCCfDBDLHCezBDK6CeFBDLVCedBDK0CdcBDLNCd2BDK7CdsCDLVCdqBDK0CeNBDLWCdvBDLY
+CdtDDLHCeXBDK7CdYBDKzCd1CDLUCeaBDLSCdsCDLACdfBDKwCdsBDLOCeTBDLKCd9BDLRCdrBDKuCdpBDLRCd6BDKtCeDBDKwCd
+okDLnCc-JDLVCdKBDLnCczBDLWCc4BDL_Cc8CDLsCcrBDLgCc9BDLjCcyBDMBCdIBDLoCdCBDLoCdSCDLMCdUBDLtCc2BDLtCdFB
+DLjCcwBDLxCc6BDLrCdWBDLSCdPBDMECc8CDLRCc5BDL0Cc3BDLsCdABDLpCc3BDLrCdCBDLsCcyBDLiCctBDLiCdMBDLcCc5BDL
+eCcrBDMHCc5BDLoCcsCDLrCc3CDLSCdSBDLqCcsDDLkCdNFDLcCdiBDMICc2CDLjCdeCDLhCcnBDLoCdQBDLqCdEBDLhCcwCDLqC
+cyBDLYCdBCDL2CcxCDLxCdIBDLsCdUBDLgCc2BDMDCc8BDLdCdCBDLpCc0BDLgCdGBDLXCddBDLkCcrBDLbCcyBDL8CdCBDL6CdI
+BDMMCc1BDLTCc3BDL2CdBCDMGCdIBDLWCdUBDLZCc5BDLfCdDBDMICc9BDLmCcwBDLpCcwBDLhCdLCDLcCcvBDLkCdPBDLgCc6BD
+LdCcvDDMHCdlEDMGCdkFDMICeBBDMuCd4BDMXCeDBDMBCdaBDMICeFBDMpCeABDL3CdhBDL2CdcDDL-CdtBDMaCeKBDMECeQBDMO
+CdkBDMSCeHBDL8CdRCDMBCdVBDMMCd3BDMPCd8BDMvCdsBDL6CdjBDMRCdeBDMrCd4BDMQCdzCDMOCdPBDMECeNBDMNCeKBDMMCd
+kCDMYCd_BDMZCeBCDMkCdtBDMGCd9BDMTCeBBDMUCdmBDL8CdsCDL4CdiCDL-CdYBDMWCeZBDMACdlCDMBCdWBDMiCePCDMVCdxB
+DMJCeHBDMHCd_BDMDCeFBDMjCdnBDMrCdxBDMDCd0CDMpCd2DDMtCdmBDMbCd1BDMfCd-BDMHCePBDMJCdUBDMHCeKBDMtCdpBDM
+OCd4BDMpCdgBDLwCdeBDMkCdwBDMoCd1CDMECdSBDMuCdmRDM5CePUDNRCewCDNGCeQBDNFCeEBDM9CdwCDNJCelBDNTCdoBDNBC
+dcCDNPCecBDNQCfECDNeCe4GDM9CeGBDNGCemEDNfCeRBDNOCebBDM1CdxBDMvCeRBDM_CefCDM2Cd9CDNTCeJDDM0CebBDNaCek
+DDNPCdwBDNPCfUCDMuCeEBDM2CdhBDMxCeHBDMvCeJCDNKCevCDNmCeefDLpCd9BDLoCeBCDLnCeEBDLlCd3BDLuCd7DDLxCeBLD
+L3CdvBDLoCeSBDL8CeABDLsCdkBDLSCeMBDLxCeYBDLLCeGBDL-CeKBDLgCd8BDL4CdzBDLlCeQBDL7CeKDDLkCeIBDLcCd3BDLY
+Cd_BDLdCd2BDLyCecCDL9CeYCDLwCeHBDL3CeEBDLsCdsBDLsCeBBDLtCeaCDL5CeLBDLxCdmCDLpCeLBDLmCeKBDLdCeABDLyCd
+0BDLnCeTBDLrCeIBDL_Cd-BDLvCePCDL6CeDBDL3Cd6BDLvCeQBDLeCeJmDMjCcVBDMaCceSDM4CcaCDMxCcrBDMWCcpBDMSCcMB
+DMmCcnCDMaCcOBDMnCc0BDMgCcfBDM6CckDDMYCcLBDMeCctBDM3CcPBDM5CcxBDMcCcDBDM8CcVCDM1CcgBDMtCctEDMdCcYBDM
+OCcOCDMxCckBDM1CcxBDMwCcoBDMmCcCBDMiCcKBDMZCcSBDM7CcyBDMQCcpBDMRCcgBDMvCcKCDMPCcXCDMtCccCDMUCcDDDMPC
+cFjDMqCbzBDMoCbmDDMxCbuFDNdCbpBDNgCb0BDMoCbeBDNICbmBDNUCb9BDMYCbiBDMwCbjBDMfCb2DDMhCbgBDNBCbeCDMaCb8
+BDNNCb2BDNVCbrCDM9CcJDDNYCb6BDNjCbqBDMtCbdBDNHCcFBDNhCbfCDMbCbwBDNDCb4DDM1CbdBDMgCboBDM6CbvBDM3CbjCD
+NSCcIBDNDCbeCDNDCbmCDNICbjBDNYCb7CDNMCcHBDNNCbmBDMzCbdBDM2Cb5BDMhCbvCDM7CbgBDMlCbsBDNACbfLDM4CbvdDMZ
+CdFJDMiCdABDMXCdgBDMTCc6BDM5Cc8BDNACdRDDNPCdiBDMlCc5CDNWCdZCDMfCdaBDMrCdRBDMzCdXCDMPCdDCDMUCc-BDMPCc
+yBDMuCdYCDNBCc9BDNRCdXCDNLCdRBDMWCdACDMXCdABDNeCdmBDMwCdeCDMrCdPCDMYCdYBDMsCdXBDMXCdiCDMvCdCBDMUCdTB
+DMWCdcDDMoCdSBDNGCdHBDM5CdFBDMeCdnCDNDCdZBDMlCdHBDNVCdcCDMcCczBDMYCdSmDNZCc2KDNaCcMBDOJCdWBDNzCdlBDN
+gCcICDNoCb0BDNhCcfCDNMCc2CDNlCdMBDNpCdOBDNWCchDDNSCdJBDNsCcUBDNtCcrBDOBCdaCDNJCc8BDNQCdPBDN3Cd7BDNKC
+dHBDNrCcBFDN8CdKBDNkCc9BDNLCcXBDNXCcpBDNbCcwBDOKCdsBDNSCcxBDNuCdtDDOMCdTBDNwCdPBDN5CdwBDNdCdNBDNpCct
+GDNwCcbBDNTCdSBDNZCcTCDNPCc_BDOACdkFDNkCdHBDODCdUBDNACcdBDNBCcuBDNGCcibDOECbnBDOMCdFBDN7CcPBDN1CclBD
+OKCc_BDN3CbsBDOICcwDDOICbxBDOOCbjBDOECcADDOUCb5BDN_CdFBDONCbxDDNxCc9BDOhCcWBDNvCbxBDOSCbuBDNuCbjCDOO
+CcDBDODCcTBDOhCchCDOQCbmDDN2CcCBDN8CcxBDN-CbqBDOCCdBCDOFCcfCDN6CcDBDOMCcSBDOVCchBDOKCbhBDODCcEfDOECb
+saDOcCcHBDObCcGBDOdCcKBDObCcLBDOcCcDBDOWCcABDOeCcIBDOaCcHBDOWCcLBDObCcVBDOhCcPjDOaCcLEDOdCcINDOcCcRm
+DL_CezBDL4CewJDMBCfPCDL-CejDDMVCeqBDMECe3CDMMCeuBDMcCe1BDLiCfNBDLpCfRBDLkCfTBDMBCebBDLkCekCDMTCemDDL
+2CeeBDLjCe1CDLYCfBBDLdCfHBDLxCeoBDMECemBDLqCepBDLqCfEBDMMCeqBDMPCefBDL7CefEDMYCemBDMNCePBDLuCfNBDL0C
+e3CDLTCe7BDMdCeyBDL8CfdCDL5CfVBDLfCemBDMZCegBDLqCfICDLYCexCDMbCeqBDLmCe6CDLaCeuBDLvCetBDMfCe5BDLaCej
+BDMJCeaBDMKCfhBDLiCelBDMXCewBDLbCfABDLnCexBDLbCfQBDMNCeUCDMaCe_BDLfCfBBDLYCfFBDMSCeyCDLjCeqBDMKCfRBD
+MICe6BDLkCfQBDMLCfADDLQCfQCDLQCfJBDMTCeRBDL3CfCBDLbCfLBDLcCe2EDL1CegCDOICeNTDNoCfXEDN3CexBDOGCeWBDN8
+CeeBDOPCejCDONCeoBDN-CeuBDOLCe0BDOCCebBDNyCefBDNqCeDBDNrCeHDDN9CePCDNtCelDDN5CfBBDOECefBDOJCenBDN7Cf
+MCDOKCfKBDN4CeuBDOGCe7zDMXCfoBDMYCfmBDMZCfjRDMkCgVBDMoCfFBDM6Cf1BDMlCfwCDMrCe5BDMyCgBBDMVCfvBDMYCf2B
+DM0CfjBDM1CesCDMcCgRBDMmCefBDMxCfPBDMjCfkBDM7Ce-BDMnCepBDMtCeXBDMsCfNBDMkCfEBDMwCf3CDMtCeqBDMjCffBDM
+3CffCDMsCfHBDMtCgHBDMoCfMCDMZCfsBDMmCgGBDMmCftBDMiCgNBDMtCe1BDMlCf7CDMsCfDBDMxCfUBDMmCfGBDMfCekCDMjC
+epBDM7CfsBDMQCfcBDMfCfHCDMRCfjCDMYCfTBDM_CfUBDMpCgYCDMrCfdBDMcCgBBDMpCe7BDMRCfRBDMmCe1BDMoCfKCDMvCe4
+BDMjCgaTDN1CgcJDNyChNBDNwCgyBDNvCg1CDOBChSBDN5CfcCDN0Cg2DDONCggBDN0CgIBDNwCf1BDOLCflCDOLChSBDN0ChaBD
+ONCf6BDOLCgRBDOMCgvBDNmCguCDN6ChCBDN-Cg2CDODCgbBDOLCg_BDONCf1BDNnCgXBDNwCg7BDOOCglBDOPCfwBDONCgZBDOB
+Cf-DDOICguBDN4ChQBDOBCfwCDOGCgG0DL2CflBDLsChpBDMECfzBDMEChPBDLqCgLBDLWCgwCDMICgDBDLkChmBDLfChDCDLgCg
+qBDMKCgpBDLaCglBDLjCh3BDMHChGBDLyChNBDLRCg6BDLxCg4BDLpCf5BDLZChjBDMCChPBDLxCgdBDLlCg_BDL3Ch0BDLYCg-B
+DLwChcBDMACf-BDMFChWCDL5ChPBDLjChhBDLdChRBDLwCgCBDLiChYBDLzCgRBDL3ChqBDLlCiIBDLmCgaBDLeChqBDLmCh2BDL
+hChGBDMCCgBBDMECg8BDLuCh1BDLtCgTBDMCChbBDMJCgiBDLhCg5BDL2CfwBDLkCfZBDLpCg5BDL6CfzBDLaCg8BDL9CgYBDLbC
+hXBDL6CgFBDMDCgVBDL7CfmBDMAChGBDL_CgpBDMUCgMBDLgChwBDLPCglBDLsCfnBDLvCiABDLwCgqBDL2Cg-BDLcChLBDLmCf_
+CDLmCiGBDL4CgtBDLvCfpBDMGCgdBDLwChqBDLlChmCDMIChQBDLcCggBDL6CgPCDMMCf9CDMNCgwBDLwCiFBDLmCiCCDLoCgqDD
+LnChDBDMDCgmDDMBChcBDMDChhBDMICgCCDLiChHBDLjChGBDLjChKBDLiChJFDLlChOBDLoChHBDLjChSBDLtChTBDLfChOHDLj
+ChIAABRDLECf6BDLACf3IDLbCf6BDKvCevBDK1CfSBDLiCfwBDKvCgNBDLQCfkCDLgCf0CDLeCf3BDLZCfyBDLNCfqBDK-CgLBDL
+OCfeBDLGCfkBDKyCfwDDLICfOBDLQCfXDDLRCf9BDLGCfZCDK6Cf2BDK0CfdBDK4CgGBDK6CfLBDLWCfpBDLXCgCBDLaCgTCDLkC
+fqBDLRCf5CDLOCf4BDK0CgCCDLgCfiBDKuCgIBDLUCf5BDK_CfpBDLdCfXBDLFCgBBDLXCflCDLOCgKDDLmCfjBDK6CgJBDLVCfv
+BDKsCf0BDLaCfZBDLLCfvBDLRCgTBDK1CfABDKxCgCDDLSCfseDK-Cg-BDK2Ch3BDLBCgeBDLGCglCDLGCgjBDLECgcCDK7ChzCD
+K2ChMCDK8CheBDKvCh_BDLJChJBDLFCg7BDLFChsBDLKChXBDLYChRBDKxCgVBDKvCh0BDK6ChqBDLQCg5BDLLCgkBDK3CglCDKy
+ChVCDKwChLCDKzCg-IDLVChIBDKwCgwCDK5ChZBDK7CgbBDK1Cg6BDLPChXCDLNChcCDKvCheBDK9Cg0CDKwChuBDK9CgVCDKwCh
+aBDK-ChmEDK5ChVBDKxChcBDK5ChJBDKxChlBDLBChGBDLOChCBDLBChoCDLGChsCDLUChSBDK-ChRBDLHCgxdDLEChXBDLECheB
+DLAChZBDLIChTCDLJChgBDK9ChZBDLBChQAABdDLYCiLBDLSCheCDLKCh_BDLOCiNBDLUCibBDLcCieBDLUCiLBDK_CidDDLMChv
+EDLBCh6BDLgCiTBDK1CiHBDLWCieBDLSCh9CDLZCiPFDLKCihCDLMCiWDDK6CiDCDLMCiVBDLJCicBDK5CiZCDLQCh3CDLSCiNDD
+LaCiCCDLZCh2CDLPChmDDLPChmBDLGCh7BDLTChtCDLMCh2BDLUCikCDLSCiYDDK_CiJCDLFCiXBDKwCiNCDK9Ch-BDK7CiRCDLD
+CiJBDLjCiWBDLVChnCDLJCiREDLMCiMCDLfCiPBDLECiOCDLYCibBDLHChzCDLECiFRDLPCiBBDLJCiHBDLLCh_DDLTCiCAABfDN
+PChKBDM-Cg0SDM-CgoBDM-CgcCDNYCgNBDNsChQDDNhCgOBDNNCg0BDNfCfyBDM3ChIBDNXChmGDNJChcCDNWCgVBDNECgiCDNEC
+hmCDNECgtBDNJCgNCDMvCgbBDM7CgaBDMzChPBDMyCgMBDM5CgIBDM-ChECDNLChHCDNAChXCDNPChqCDNVCf6CDNIChaBDNeChF
+BDNOCfpBDNmCg-DDNkChUBDNfCgKCDNYCg4BDM5ChZCDNFChpCDNVCgfBDM3ChOBDNKCfaBDNBCgWWDMcChUJDM2Cg4CDMRCgkBD
+MXCgqBDNGCh7BDMuCh1FDMiCh4BDMrChgBDMpChkBDMSChSBDMfChvDDMTCg_CDMiCgsBDMNChPCDMZChyCDMWChxBDMgCgoBDMP
+ChjBDMpChBDDMVCh1BDMRCgYBDMYCg4CDMoCgzBDMgCgnBDM6ChsBDMtChPDDMpChKBDMYCh2CDMNCg7CDMhCg_BDMxCg7BDMlCh
+TBDMcCh2BDM4Ch4BDMcChkBDMVCg0BDMeCg2CDMOChFBDMrChRBDMVChkBDMPChbBDMoChhCDMZChHCDMUChbEDMeChNCDM-CiAC
+DMhCgwBDMWChbDDMxChdBDMfCgdBDMuChIBDM0ChGBDMaCh6BDMgChEMDMNCiFTDMZCh_BDMTCh8BDMCCiVBDMKCiACDMTCiZEDM
+HCiNBDMPCiUBDMXCiLCDMECiIBDMYCiLBDMXCiEBDMTCh-CDMJChuDDMNChjCDMUCh6BDMKCiDBDMXCh7BDMZCiGCDMaCiSBDMYC
+iICDMMCiIBDMUCiaBDMTCiWBDMNCiGDDMDChsCDMSCiQBDMOCilBDMJCiaCDMACh5BDMOChtBDMOCiPCDMfCiLBDMIChhCDMQCiN
+CDMCCiJCDMOCiICDMaCiLCDMGChfBDMBCiMBDL8ChgBDMHCh5BDMVCicBDMIChpCDMkCiIaDL4CjDBDMZCjJBDMdCjzBDMVCjbBD
+MDCjfCDMKCjdBDMHCjcCDMLCjjKDMYCjCBDMACjDBDMKCjVCDL-CjaBDMTCjOBDL7CjdBDMMCjNBDMXCjTCDMTCjtBDLyCjRBDMI
+CjtDDMNCjpBDL_CjMDDL8CjTCDMECjBBDMKCjSBDMQCi-BDLrCjYBDMDCjmBDL1CjNCDMhCjTBDMQCjODDL7CjKBDMWCjyBDMUCj
+kBDMOCjHBDMKCi6BDMQCjUCDMHCjGBDLzCjOBDMbCjMBDMcCjqBDLvCjVBDLoCjQCDLtCjUBDMBCjsBDMLCjGBDMSCjCBDMRCjEB
+DMACjoCDMUCjqCDMSCjrBDMSCjNBDMACjJBDMVCjMDDMaCjjBDL3CjRJDMECjVBDMFCjUBDMBCjTBDMFCjNCDMACjLDDMICjYAAB
+WDMCCjGGDMnCilBDMnCibIDMsCjJBDMSCixBDMVCi8CDMZCiXCDMmCirCDMaCioBDMrCiaBDMcCiYBDMsCioBDMwCigBDMqCilBD
+MuCirBDMqCijEDMlCjABDMkCinBDMiCigBDMcCitCDMrCikBDMcCi_CDMgCibCDMrCiiBDMeCiwBDMmCiQBDMjCiUCDMaCjBBDMd
+CidBDMoCiMCDMiCiXBDMrCiUBDMZCiuCDMWCijCDMkCijBDMlCixBDMmCiRtDMwCjyBDM2Cj5TDMvCjoBDMkCjdBDNACjpBDM8Ck
+EBDNGCjpBDM7CjrBDMqCj1BDNDCkHCDMoCjXBDMjCjYBDM1CjqBDMiCjTBDMzCjYBDMyCj5BDNRCkeBDNNCkRDDNWCkbCDM9CjmB
+DMhCj5BDM4CjjCDM6CjaBDM7CjOCDM2CjfBDM3CjWBDMkCj6CDMiCjgBDMkCjkBDM0CjgBDMuCj5BDNDCjvDDMpCjnKDM1CjiBDM
+8CkABDMwCjjfDNfCjPCDNoCj6CDNnCjPEDNaCi5CDNtCjPBDNiCi5BDN4Cj8CDN9CjwCDNmCi0BDNpCi-BDNuCjTDDNECjQBDNYC
+kABDNNCjsCDNZCj5CDN2CjVBDNqCjqCDNlCjKBDNZCjOBDNdCkCBDNYCjdBDOECjnBDNXCjrBDN_CjhBDNkCi3BDNuCjGCDNuCj6
+BDNOCjNBDNKCjgBDNuCi4BDNfCjGEDNUCjuBDNcCjJBDN3CjfBDN-CjZBDOFCjgBDNqCjiBDNbCj_BDNUCkMCDNHCjiBDOJCjjBD
+OGCjYBDNPCjeBDNUCjyBDN_CjQBDNACjeDDNyCj1BDN2CjPBDNhCi-BDNnCjcBDNhCjveDNVCjBBDNWCi9BDNTCjDCDNQCjABDNa
+CjCBDNXCjEBDNVCjECDNXCjJFDNUCi9BDNRCi6BDNaCjFAABTDM_Ci5BDM0CiHHDMyCjPCDNPCiiCDNcCh8BDNaCiuBDNgChgBDM
+9CiYBDNSCicBDNXChZCDNGCiXBDNACiFBDNuCiRBDMyCjDBDNgCivBDNVChzBDNMCieBDNXCiBBDNgCiSBDNuCieBDMvCiCBDNaC
+h6CDM_CieBDMvCiMBDNUCiYEDNKCi6BDNOCi7BDNQCi3BDNQCiwBDNNCisHDNFCikEDM_CiMBDNNCiNBDNgCikDDM2CiaBDM0Ci6
+oDNECirBDNDCi4CDNICiqBDNHCiwBDNACipBDM5CioBDNKCikBDNJCiqAABcDN_CimJDOJChuCDONCikCDN6ChkCDN2CipBDOECh
+iBDOHCibCDN6CjDBDOPCi8BDOKCi1BDN5Ci_BDNyCi1BDN_CjHBDN3Ci7CDN8CiVBDOACiPBDOMCiVBDOFChkBDNwChnBDNnChxB
+DN_Ci8DDOICiCDDONChrCDN5CjHBDN8CirBDNxCipBDN7CiOBDNqCiJBDOJCjKBDN3ChyCDODChxBDOKCiOCDN0CiEBDN7Ch8vDL
+mCj1BDLrCj6KDLoCj-BDLtCj-BDLlCjvBDLjCjqCDLtCjwDDL5Cj7BDL9CjzCDLrCjzCDLkCj-CDLoCjsCDLiCj8BDL9CjvCDLlC
+jrBDLwCkACDLzCjdBDLfCjtCDLrCkECDLiCkKCDL3CjzCDLwCjtCDLlCkDBDLyCj4DDLzCj9BDL2CjhDDLfCkFBDL4CjlFDLtCjj
+CDLqCjpCDLmCjiCDLbCkDDDLpCjfBDLxCjeCDL9Cj4CDLeCj9CDLhCj2BDLkCkRDDLjCkDVDLVCj3BDLbCjuBDLICjmBDLJCjtCD
+LVCj-BDLUCkSBDLFCjgBDLWCj-BDLKCjjCDLOCj5BDK5CjfBDK6CjZBDK7CjdCDK9CjWBDLACjmCDLTCkKBDLRCkPBDK6CjiBDLA
+CjpCDLXCj0BDLDCjmBDLPCj4CDK6CjnBDLaCkVBDLTCjuBDK9CjoBDK9CjjBDLVCjvBDLNCjoBDK-CjnCDLTCjzCDLaCj5BDLICj
+kCDK-CjlBDLbCj1CDLSCj5BDLaCkNDDLCCjqCDK-CjXBDLXCkHBDLZCkWBDLXCkUBDLXCkQBDLWCkSDDK5CjTBDK3CjZCDLACjbB
+DLBCjiCDLICjrBDLfCkSDDK_CjkCDLKCjqBDLGCjZBDK9CjmBDLTCjxBDK9CjlCDK7CjkBDK-CjpCDK-CjhBDLECjpBDLGCjlCDL
+MCjhBDK9CjfBDLOCjcDDLXCj4EDK8CjhBDLRCj1BDLICjpGDLDCjzBDLDCjzBDLECjwCDLDCj2BDLDCj0BDLECj0BDLDCj0CDLOC
+j8BDK9CjzBDK7CjpBDLPCkEBDLRCkABDLUCkCCDLPCjvBDLNCjxBDLLCj4BDLGCjyBDLGCj1BDLECj1BDLKCj6BDLGCj3BDLOCj2
+BDLLCjtBDLNCjtBDLJCjxBDLFCjzBDLHCjuBDLICjzBDLHCj2BDLHCj5BDLKCj_BDLMCkCBDLHCj9BDLOCj0BDLECjtBDLJCj1BD
+LMCj1BDLACjtBDLCCjtBDLLCjyBDK_CjxBDLCCjyBDLCCj1BDK_Cj1BDLMCj9BDLPCjzBDLGCjqBDLOCj_BDK8CjsBDLSCkGAACT
+DLMCjUJDLCCijBDK2Ci3BDLLCjXEDLNCixBDK6CjICDLBCjQBDLECixKDK7CipDDLMCjaCDLKCi8GDLMCjEBDK_CjSBDLSCi5BDL
+QCisBDLLCjLDDK7Ci8CDKwCi0CDKyCirDDLNCjPDDLECizEDKvCiZBDKzCijCDLFCinCDLECisCDLGCirDDLICi4BDK-CjPBDK3C
+i5BDK-Ci6FDLHCjICDLBCjHBDLCCjHHDK4CiwLDLVCjjCDLXCjeCDLSCjjBDLRCjdQDLYCjoDDLSCjEBDLbCjYCDLQCjmHDLpCjL
+BDLcCjrBDLaCjqBDLjCjdCDLlCjnCDLVCjKCDLRCjrCDLfCjmHDLWCjSBDLfCjsCDLWCjWBDLdCjJDDLVCjPCDLUCjoCDLiCjGBD
+LbCjADDLdCjPEDLqCjKBDLiCjUBDLeCjcBDLZCjICDLaCjsNDLcCjhCDLkCjTJDLgCiaCDLxCjLBDLyCjJBDLuCjGBDL1CiTBDL7
+CiFBDLiCixCDL1CisBDL5Ci6BDLrCjAEDL5CifCDLjCi5CDLYCi0CDL1CiyBDLcCivCDLnCjJBDL_CigDDMICiuBDL-Ci2DDLzCi
+hBDMCCisBDLqCi1BDL4Ci4CDL_Ci-BDL6CjABDLgCijBDL4CieCDLaCirBDLyCiCBDLqCjFCDLuCi3CDMCCidBDL1CiHBDLsCiSD
+DL7CiWBDL5CilEDL5CiNBDLwCisCDL6Ci-CDL8CitBDLqCiXCDLwCiLiDLsCimBDLpCioCDLsCipBDLwCilBDLqCiuBDLlCimBDL
+nCicBDLpCigBDLqCijBDLoCimAABaDKeCi-BDKiCi7BDK0CjXDDKdCjJBDKzCjACDKVCjABDKzCjKBDKrCi6CDKnCi9DDKnCi5BD
+KoCi5DDKlCjIKDKRCjCBDKXCjIBDK0CjLBDKcCjDBDKKCjDBDK1CjIBDKyCjEAABBDKsCjOBDKwCjPBDK0CjOBDKsCjGBDKvCjJB
+DKwCjMBDK0CjHBDKuCjBBDKwCjSBDK2CjRAABbDJ2CjVBDJxCjVCDJ1CjJaDI3Cj9BDI5CjHCDJJCjIBDJsCjFCDJ6CjJCDJ-Ci-
+BDI5CjvBDIwCjMBDJPCjZCDJkCjHBDIwCj_BDIyCjtBDJnCjXBDJDCjcDDJSCjIBDJFCjqBDJcCjHBDJzCi_BDJaCjQBDJ7CjCBD
+I3CjOCDJJCjzCDJVCjbCDJrCjTBDJeCjgBDJuCi7CDI6CjoBDI2Cj4BDJOCjoCDI3Cj6BDJFCj6CDI_CjGCDIvCjzCDKCCjNCDJp
+CjKBDJrCjLVDJbCg6BDJbCg-BDJYCg9BDJaCg5BDJaCg5BDJaCg4BDJcCgzBDJdCg2BDJcCg4BDJdCg5BDJfCg6BDJiCg5DDJhCg
+2BDJeCgzBDJeCg9BDJdCg_BDJZChCBDJWCg-EDJXCg5IDJTCg6EDJbCg4BDJZCg3IDJaCg5HDJaCg3FDJbCg0CDJcCg6FDJeCg8p
+DJfCgABDJGCfYDDJPCgHBDJLCgLBDJLCgRBDJDCgRDDJSCfjCDJkCfzCDI-Cf9BDJWCgMBDJRCgODDJOCgVFDJ0CgBBDJoCfeCDJ
+1CfzDDJtCfjBDJJCgGBDJRCf0EDJwCftCDJYCgEBDJcCfeDDJoCgMBDJjCgHDDJaCgQBDJaCgIDDJRCf-DDJyCf6GDJlCgUBDJqC
+gVBDJhCgODDJXCf8BDJiCgWBDJdCgUEDJqCgABDJ2CgHEDJ_Cf8BDJDCgFDDJkCfkCDJFCfoBDJICfyDDJgCgaBDJdCgZDDJiCga
+DDJ4Cf9BDJYCfyGDJZCg7QDJaCg5KDJZCg4KDJZCg4FDJZCg3FDJZCg5KDJYCg55DJdCg7CDJXCg62DJVCg7PDJXCg9CDJYCg9SD
+JZCg6HDJZCg4DDJZCg3EDJdCg7FDJaCg3EDJaCg4AABPDJZCg7FDJZCg7FDJZCg3KDJZCg5FDJaCg6FDJZCg8CDJeCg5JDJZCg3J
+DJZCg5FDJZCg6BDJaCg2ZDJZCg6KDI-ChKBDI6ChHBDI_Cg-DDIaChWBDJDCg5BDI6ChaBDIcChVCDItCg9BDIzChcBDJDChPCDI
+pChpBDJCCgyBDI2ChLBDIcChQBDIdChrBDIXChsBDIhChQBDIqChIBDJKChMBDIiChXBDIaChMBDIYChUCDIPCh-BDIiChyBDIQC
+hyCDIqChBCDIYChuCDIjChnBDI1ChUCDI8ChjBDI1CgoFDIeChEBDI0Cg8EDIaChhDDIYCh1DDIiChcBDImCh0BDI5CgsBDIpChX
+BDIlChZBDIaChLBDIrCgnCDIiChFDDIWChzDDIcCh3EDIPChrBDI6Cg6BDIxChpBDIyCg4BDI1ChkCDILCh5EDINCh2BDIrChrBD
+ITCh1BDIGCh-BDIhChyBDJDChlBDIQChrCDISChuBDIuCgzCDI7Cg-GDJxChREDJpChGBDJhChLBDJuChIBDJoChNCDJeChDBDJQ
+ChfBDJeChACDJGChrBDJjChWBDJdChYEDJkChSBDJcChRBDJdChBBDJyChJBDJsChRIDJCChqBDJRChrCDJLChGBDJFChiBDJgCh
+EDDJkChDCDJjChCBDJYChHBDJLCg-BDJRCg9BDJUChEBDJVChIBDJRChDDDJPChoDDJJCheBDJuChVDDJJChlBDJzChDDDJRChJB
+DJyChOBDJTChuBDJVChpEDJjChPBDJkChHBDJlChKBDJOChTCDJYChTCDJYChlBDJ1Cg_BDJTChnBDJMChnCDJfChBBDJhCg_BDJ
+kCg_BDJfChHBDJcChIJDJzChRSDJhCguCDJkCgyBDJiCg0BDJgCgwBDJkCgtBDJhCgsODJzCg0BDJ5Cg2EDJwCgTBDJ6CgXBDJ2C
+gRCDJ2CgcBDJ4CgSIDJtCgqBDJsCgwBDJpCgwBDJuCgzBDJnCgmBDJyCgvFDJzCg5BDJzCg8BDJ2Cg6EDJvChDCDJxChADDJ-Cgg
+BDKCCgnCDJxCgeCDJ5CglBDJyCgpBDJvCgjBDJ1CgsBDJyCgrCDJ7CgsEDJ3CgnDDJkCgzDDJkCgyCDJkCgyBDJnCg0BDJoCgyDD
+JyCgmCDJmCg7BDJoCg4BDJmCg-BDJrCg-BDJvCg9BDJtCg3EDJkCg4CDJiCg8AABZDKWCiMEDKTCiVEDKTCiEBDKLCiDCDJpChuB
+DKXChvBDKaCh9BDKaCiDCDKTCiJGDKYChWFDKdCiHBDJ5ChABDKYChaBDKVCheBDJnChkCDKkCiKBDJeChhBDJ7Cg7BDJcChqDDK
+PCiECDKAChHBDJ-ChQBDJ5ChIBDJ5ChNBDJ1ChMBDKZCh0BDKWChECDKfCh5BDKTChyBDJ5Ch0BDKqChZBDJqChbCDJsCh0BDKRC
+htDDJ1ChmBDJ0ChhKDKUChPDDKiChMBDJ4ChVBDJ1ChYBDJ0ChaBDKcCiSEDKUChxCDKhChxBDKRCh8CDKRCh3DDJ5CheDDKQChg
+JDKpChLCDKHChFBDKsChfDDJtChiDDKeChlCDJqChZBDJlChcDDKPChSDDKlChdCDJvChvGDKMChzCDKTCiNBDKWChlBDKqCh2BD
+KKChPDDKQChMEDJfChlEDJwChcCDJsChoGDKcChbBDKOChaBDKmCh8BDKdChPBDKPCh4BDKbCg-BDKlCg4CDKqCiBBDKmChnBDKL
+Ch3BDKGChLmDKBChiBDKCChjCDKNChhBDKCChoBDKGChqBDKEChYBDKKChYBDKKCheBDKIChhBDKFChgBDKJChjBDKEChmBDKHCh
+oBDKHChcBDKDChdBDKDChgBDKFChkBDJ7Ch0BDKGCh5BDKBCh0BDJ-ChuBDKAChfBDKAChqBDJ7ChiBDJ5ChoBDJ8ChcBDJ_ChVB
+DKAChbBDJ_ChhBDKBChlCDKBChkBDKLChrCDKLChwBDKGChuCDKJChlBDJ1ChdEDKGChSGDJ-ChZBDKHChmBDKLChjhDKLChiBDK
+NChnBDKCChlAAByDJjChpBDJjChxBDJeChvCDJnChpEDJmCh0AABdDKkCeMSDKkCdVBDKbCdvCDKUCdsBDKrCeIFDKrCeKBDKoCe
+hBDKkCdJBDKlCd2EDKmCdjCDKNCdeBDKgCdzBDKUCduBDKaCdOBDKfCd5BDKkCd4CDKqCeDFDKLCdNFDKeCegCDKYCd7DDKdCeRB
+DKVCdhBDKXCdwnDJPCiXGDJxCiuDDKJCiZCDJLCiFBDIyCiYEDJpCicCDJeCiFBDJ5CiYCDIpCiQBDJwCijBDJTCiEBDJWCiiBDI
+iCiZBDIXCibBDJ7CioBDJWCixCDI6CimBDJJCi3CDIdCiNBDKFCivBDJlCi0CDJeCiLBDJgCi2BDJrCiyBDJcCimCDJBCitBDJwC
+itBDKECikCDJQCiEBDIzCiIBDJzCi2BDKDCizBDJ-CiuBDJICiEBDJKCiOBDJFCiTBDJKCipCDJeCiiBDJeCiSBDI6Ci0BDJgCir
+BDJuCiKBDJHCiMBDJPCiJBDI9CilBDJLCh7BDJeCh-BDKGCibBDJ3CivBDIuCiCCDJGCh-BDIbCibBDJACicCDIdCiXBDJPCiCBD
+IvCiPBDKDCiVBDJcCiXWDKQCgbBDKUCgQBDKJCgNBDKHCgWBDKNCgTFDKDCgRBDKnCfWCDKZCf5BDKNCgJBDKKCf6BDKECf9BDKG
+CgRBDKLCf9BDKqCgKDDKmCfhBDKFCg8EDKpCgbGDKbCfwBDKhCf2DDJ9Cg5BDKACg5CDKjCfyCDKoCf7EDKdCf1EDKmCfAEDKFCg
+cBDKICgDBDKSCf3BDKfCgiBDKHCf6EDKUCgjEDKnCexBDKqCfxCDKQCgDBDKHCgiBDKLCgsCDKaCgFBDKNCghCDKYCgyBDKACgHB
+DKiCgbBDKOCf7BDKnCgNBDKdCfwBDKSCfwBDKlCgFBDKMCg_DDKoCgrBDKfCgTCDJ-CgKBDKZCgpCDKVCgaBDKCCg_BDKeCfqCDK
+FCg1BDKaCgeDDIjCjADDIfCjPGDIdCi_BDIgCjuCDIqCjyBDIdCiqDDH-CiwEDIQCioBDIdCjCCDH-CicCDIgCjFDDIKCjfBDIoC
+i7FDI1CimCDItCi3BDICCi6CDIZCiqBDIWCjoBDIkCj7HDIkCjWBDIkCjcBDIICjOCDIUCi8DDIhCi1FDI2Ci7BDIoCjvBDITCjc
+BDIDCjbBDIcCixBDH9CieBDILCi1CDInCioCDILCi6BDIqCjmCDInCjhBDIsCjOPDIQCi-LDKeCijBDKbCiaBDKdCibBDKiCiZHD
+KqCidBDKOCiyBDKNCitBDKeCiiBDKWCivCDKnCiWBDKoCiOBDKOCinBDKmCiwBDKjCiuJDKJCirAABJDJTCgnMDJPCggKDI7CgZB
+DI4CgeBDJZCgmDDJUCgaBDJWCgiBDJSCgfBDJYCgWCDJWCgYEDJLCgdCDJVCguBDJXCgpBDJaCgoBDJWCgtCDJZCgqODJGCgsGDJ
+lCgeNDJECgoWDJeCgsBDJfCglWDJZCgbBDJECgiJDI1CgTQDJNCgpBDJQCgnBDJNCglBDJKCgkTDI6CgUIDJaCgiBDJbCgfBDJeC
+ggJDI-CgiBDJECgcBDJACgZIDJZCgzBDJWCg3BDJXCgwBDJWCgyBDJYCguBDJUCgzBDJbCgwCDJZCg1CDJYCg1CDJZCgsBDJXCg1
+AABXDJSCg2BDJTCg0BDJPCg0BDJRCgxBDJUCg2BDJLCgxBDJNCg2BDJJCg2BDJICgxBDJOCgwBDJTCgvBDJSCgtCDJRCg2BDJMCg
+tAABWDIeCgLEDIfCgUBDIoCgFBDIcCgCBDIVCgPTDIHCgfFDHyCh8BDIlCfmCDH9ChnBDIICgwBDHqChPBDIECg8FDIRCg9FDIiC
+g5GDHvChLGDHzChjJDIGChgDDH8ChdBDH0Ch3DDIECg1EDHeCh3CDHmCh9DDIcCgsDDIFChlPDHnChsBDHpChYEDIfCfsBDILCg1
+CDH_ChuDDIBCgbGDIMChPJDIBChbFDIJCf5BDIMCgoDDITCggBDHyCiDDDIdCfjEDH6CgPCDHvChaDDITCf2CDIbCf8BDIqCgXCD
+IxCgIEDH4ChAHDIYCffFDH9ChTEDHhCh0CDHcCh8CDILCgQVDJ1CfHBDJyCe8BDKACfDHDJSCe8BDJ0CfZJDJqCfVDDJVCfKBDJ-
+CfOBDKKCe5CDJNCfJDDJdCfGHDJ-Ce1CDJVCfVBDJRCfKBDJtCexBDJfCfVBDJZCfXBDJhCehBDJmCe9BDJrCfTEDJNCe0CDJUCe
+tCDJrCeqBDJrCfDBDJ6CfOBDJkCezDDJfCesDDJpCfNBDJZCejlDIrCfXIDIhCfDCDIuCe8BDI3CfxBDI1CfKBDIzCfjBDIpCfGB
+DI_CfOCDIuCfpBDI1Ce8BDIwCf7CDIvCfBBDIhCeyBDI_CfiBDIsCfIBDIoCfqBDIpCe6BDI6Cf4BDIjCfWBDIkCfIBDIiCe-BDI
+fCfFBDIgCfUBDI1CfrBDIwCfGBDIoCf3BDI7CfYBDIdCe7CDJBCe7BDItCfmBDIuCf1BDI2CeyDDI_CfWBDJHCfHCDI-CfG0DIpC
+eABDIxCeCFDIrCeBDDJTCeIBDJRCd1BDImCdxDDJHCeEFDJKCd2BDIwCdnDDJVCeZDDInCebDDJDCd2BDI4CdoBDIuCeMCDI4CeD
+BDJDCeqFDInCeOBDIiCd_BDJOCeSBDIlCdlBDJCCeWBDJOCeDBDImCeIBDJICeRCDI1CeZBDI4Cd8BDI2CemCDJBCeMwDIJCehBD
+H3CekBDIBCecBDIECelEDIDCemDDIKCevJDH9CeHCDHhCd8BDITCe4IDH2CePBDIPCeSDDIZCegBDIQCemBDHtCebBDHyCeKBDIK
+Cd3BDIVCedCDIKCfEBDIECeKDDHxCegBDIECe4BDIkCfLBDHrCeADDH5CdzFDIXCfFBDH1Cd_BDH6CeWBDIWCfSDDHxCe7BDHkCd
+1DDHsCdzBDIYCexBDHsCeTCDHnCeIBDIWCfBBDIiCepBDH9Ce9CDHxCdvEDIKCeAJDIdCfMNDG_CfcCDHhCewBDHoCgMEDHtCgqC
+DHMChPEDH5Cf8GDHECh7BDHmCe-BDHpChABDH5CfuBDHGCh8CDHdCfLDDG_Cg2CDHeChcDDHOCh6DDHnCfJBDHdCfsBDHQCe_DDH
+UCh-CDHHCiFCDHxCgLDDHNCh2FDHpCfCBDHDCh6DDHiCgDBDHeCgHBDHHChqBDG2ChtBDHjCfaCDHtCffBDHOCiDCDHNCh_BDHqC
+gaBDHTCh6BDHTChzBDG5ChzDDHUCgcBDHLCiBDDHmChcCDGvChVCDG7CfOBDH0CfMBDHhChNBDHfCg3DDHMChFCDHeChQBDHZCht
+BDIACfUJDHjCfpBDHdCf0DDHkCgnCDHeChYBDHHCh_BDHVChTBDHZCgkBDHHCf6BDHSCf4BDHMCf6CDHeCgbBDH-CflCDHICiEBD
+HGCfuDDHdCe6BDHTCg4CDH4CguCDHJCh1BDHiCfuBDHDCiGIDG-CiCBDHTCfeBDHICg3BDHSCgsFDHkCf1BDHBCg4BDHwCg2BDHW
+ChjBDHOCgjDDHqCfcDDHQChXEDHbCfoBDHkChCCDHACiCFDHEChNBDHYChyEDHWCgGCDHdChiBDHVCh3BDHlCg7DDHiChiBDHYCh
+HEDG0ChaDDG-ChVEDHuCf4bDHSCgRBDHTCgOBDHTCgLBDHWCgSBDHUCgWBDHOCgNBDHQCgJBDHWCgIBDHZCgQBDHbCgLBDHXCgDB
+DHXCgLBDHICgdCDHcCf9BDHJCgNBDHPCgEBDHMCgBBDHECgOBDHXCf8MDHOCgciDHTCgPKDHbCgGEDHSCgRDDHfCjEBDHxCjQBDH
+2CjRBDGcChnCDHVCirBDHHCitBDHvCjFCDG2CikEDGYChsBDGCChMBDG5CijEDGDCiKBDGICh2BDF3CiFBDF-Ch6BDGICiFBDGJC
+iILDH7CjiBDH6CjVKDHACiiDDHPCiuEDHMCiqCDIBCjdBDHoCjABDHdCitBDH1CjIeDHeCixGDH9CjXDDHQCimDDHbCi2EDHFCin
+CDHxCjNBDHJCiwBDH1CjCBDHcCi5DDHKCivBDHtCjJBDH-CjOBDH6CjMBDHlCi4BDHcCjBCDHYCiyBDHoCjHBDHcCiyBDHQCi6DD
+H5Ci_BDH2Ci8DDGcCheCDGOChpBDGUChwBDF-ChlBDGNChxBDGRChtBDF3ChQBDFyChaCDHvCihBDHjCi-BDH1CjMJDGPCigBDGN
+CiXBDGGCiZBDGOCiaBDGQCiSBDGCCicBDF2CieCDGUCiPBDGKCidBDGFCikBDGMCiRCDGICiNQDHaCi_GDHQCizBDGNChXBDH7Cj
+IODGOCiMBDGXCiFBDGOCiFBDGTCiCCDGOCiCBDGQCiBBDGQCiGBDGNCiDBDGWCiBCDGRCiIEDGPCiDBDGUCiKFDGLCiFcDGUCiDy
+DGgChwBDGnChsBDGvChoBDGoChlBDGeCh0BDGjChsBDGZCh2BDGrChqrDGcCiBKDGcCh7BDGpCh9BDGeCiABDGjCiCBDGkCh8BDG
+iCh3BDGeCh_BDGeCh-BDGhCh-MDGmCh6JDGyChsBDG2ChnBDGxCh2BDGpCh0DDGvCh2FDGJCh7BDGICh_BDGRCh7BDGLCiBDDGMC
+h-BDGNCiCBDGKCiCAABcDG0CgaCDGyCgNCDGpCgVQDGQCfhDDGlCfcDDF2CgoBDFyCghBDGBCglBDGeCgUBDG_CgPBDHDCgBBDGx
+Cf5BDG5CgUCDG_CgbBDGECgzBDG8Cf9BDGlChEBDGhCf5BDGiCgFBDGqCgmBDGNCfrBDF8CgbBDFyCfaBDGjChNBDF6CgFDDGsCf
+yBDF5ChAFDGHCf2BDFyCfkDDG3CglGDGUChKBDGKCgLBDF_CfsCDGDCgKCDGaCfzCDFyCg1BDGzCgiBDGYCfpCDGKCg5BDFzCgAC
+DGuCg-BDGVCgSBDGqChWBDGUCggBDGuCgDCDFxCfqBDGXCg-BDGSCfxBDGdCgwBDGhCgoCDF2CfeBDGqCfqDDGMCggBDGMChKBDG
+zCg_CDG8CevIDG6CewGDF9Ce7CDF3Ce2CDFyCfLBDGACfaBDHXCeaBDGtCfCBDGlCeXBDGKCetDDFzCegDDGtCfOEDGuCeZCDHQC
+eoBDGXCelBDGSCfXEDGpCe6BDG0CeqBDGUCfKDDGeCerDDF6CfQCDGUCe8CDGnCeyBDGnCfRDDG3CeWBDGnCeJBDG8CehCDGXCeT
+BDGwCeIBDGGCeZCDG6Ce-BDGUCeZBDGACelCDGCCfGEDGZCfACDGOCeejDG3CcWBDG8CcaBDG3CcYBDGyCcYBDG2CcSBDG3CcVBD
+G6CcRBDGxCcMBDG-CcVBDHACcWCDG4CcXfDF1CbbBDF8CcuBDGECcQDDGuCbSBDGsCcDBDG2CbmBDGzCblDDHCCcnBDGoCcQBDHS
+CcwBDGfCcKCDFyCc0BDHBCb5CDGgCb4BDGpCbmDDF1CbmBDHACcZBDGACcZBDGhCcBDDF3CcDBDHFCcYBDGtCbIBDHgCceBDG4Cb
+RBDGyCb4BDGRCcIBDF-CcUBDHRCcaBDGUCbwBDGdCcoBDHDCa5CDGyCcqGDGtCckBDGMCcQCDGpCdDBDGTCbUHDGACcfIDF9CbnB
+DGtCczBDHHCcvCDG7Ca5DDHLCb5BDG-CbgBDGqCbVCDHVCb5BDGwCbOBDF8CcDBDG1CbCCDG8CbTBDGVCcyBDGhCbwBDGdCdHCDG
+nCbYBDGqCbZFDHECa-BDFyCccBDGeCblBDHECbUBDGYCcdCDG6CcFIDGaCc_BDGpCb3DDFzCcKCDG2CbIBDGCCcVDDF-Cb6DDG_C
+cyBDHKCcNBDGdCcvDDG4CclFDGlCcnBDGJCb0QDF1CY3BDF6CYzIDGFCZFBDF5CZMFDGWCX6BDGmCY3CDGLCX9BDGoCYyBDF3CXk
+DDGOCYtBDGbCY6BDGqCYoCDGtCYaCDGZCYbGDF4CZkBDGgCYuCDGnCY5EDGGCXsBDF_CX4BDGMCYVBDGPCX-CDF1CWxCDGECYNBD
+F6CYMFDGyCYsCDF5CYfCDGeCZIDDF7CXTCDGLCXpBDGPCY-DDGjCYiBDGBCYvBDGDCYeBDGeCYnBDGYCYGEDGDCXiCDGkCYJBDGX
+CZOBDF4CXCBDGKCXfBDGWCYnHDF2CYQCDF2CZwBDGcCYPIDGjCa-KDGPCaEBDGLCa3BDGTCbABDGsCaXBDGpCamBDGYCZpBDF0Cb
+NBDGcCaFBDGECZqDDGICahBDGPCaYBDGZCbCBDGJCbVBDGACaZBDGFCZZBDF5CbKCDGACapDDF4CayHDGDCZfDDGECbKEDGYCbPB
+DF5CaWCDGJCatBDFyCbDBDF_CbbCDGKCZ2GDGWCa1BDGFCZYCDF2CaDDDG2CaiCDGRCaOCDGTCZnEDGGCaWBDGFCaFCDGcCZzBDF
+9CaCCDGOCbdBDGACa9BDGXCahTDINCdrKDIMCdTBDIFCciBDIzCc8CDH3CdVBDHlCdRFDIYCdbBDHvCcpEDHoCcLEDIICdSBDIRC
+eEBDIPCdIBDIqCdKCDHyCdVCDIVCd7CDICCdEBDIACdjBDIWCeHBDIlCdODDH8CcdDDHsCclCDHqCc9HDHsCcdBDIhCdBBDIECdY
+BDICCcxEDHyCdpBDIoCczCDIZCd3CDIUCd9CDIfCeKBDH6CdeBDH5CdKBDHtCcfCDH9CddBDIACdwCDIQCdcDDIUCd0BDHtCdcBD
+ISCckBDIbCdTBDIeCd8BDIUCc5ODHACdmBDHACdeBDHJCdcBDHBCdvLDG_CdiCDGqCdcDDFzCdxBDHbCdqBDHCCeKBDG-Cc_DDHU
+CdMBDGBCdRBDGkCeABDF2CeZBDGJCc2BDGMCdIDDGQCeLCDHNCdUCDHCCd3BDGMCd7BDF3CdJBDFzCdAIDF_CdCBDG0CdZBDHBCd
+TCDHTCeHBDGoCdtBDHfCdFBDHCCdMBDGZCdVBDGGCd4EDHiCeaBDGiCdZCDGNCdhBDGBCdbDDGgCdnBDG_CdJBDGpCdPBDHKCdqC
+DHWCdbDDGWCd2BDHeCc8BDHXCdCBDFyCeVBDHeCeHFDF1CdYCDG2CdqBDGECeNBDHrCepCDF8Cd5BDG9Cd9BDF4CdhBDHUCdsCDG
+GCdpBDF0CeJBDHaCeQCDGvCZsBDGuCZqBDG_CY0BDGxCZ2BDG0CaHBDG5CaFBDG6CYtCDGeCZdDDGmCZXBDG3CaKBDG7CY_GDHHC
+ZHCDGxCZdIDGuCZ8BDGyCZIDDG3CZSBDG7CaJCDGiCZlCDGtCZSCDGnCZcFDGqCZGDDGlCZQCDGkCZ6FDGuCY8BDGzCZXsDG7CaY
+LDHMCapCDHLCaaBDG-CaLBDHRCaGDDHNCaLFDG-CaMCDHNCaODDHJCaSCDHECadCDHJCaYDDHJCaQBDG_CaRBDG6CaMBDHBCasBD
+HECahHDHFCaW2DHLCZ1HDG9CaCDDHECZhCDHACZkCDGyCZuBDHKCZlBDG-CZaBDHaCZuEDHdCZmBDHfCZhDDG5CZuBDHpCZsBDHO
+CZpCDG9CZ0BDHDCZ_DDHQCZnCDHCCZ1DDHWCZgEDHMCZlBDHNCZdBDHRCZcBDHRCZTBDHVCaDBDG4CaBBDHhCZ0BDHCCZTBDHYCZ
+ZCDHJCZ3BDHnCZyBDHFCaBCDHhCZoDDHeCZxBDHACaIBDHMCZMEDG1CZyBDHZCZ-BDHICaFBDHTCZaBDHmCZ3BDG8CZ5BDHJCZQB
+DG_CZUBDHYCZ3EDHICZtBDG7CZfBDHdCZ3BDHICZpBDHbCZfCDG3CZ1DDHCCaFBDHACZ8EDG8CZmCDG0CZnBDHCCZyDDHXCZzDDH
+xCbgJDHmCbNFDIvCclBDHvCbWCDHQCbFCDI_CcuEDIUCcABDHlCbqCDIiCcMEDH3CbUDDIhCcbBDHVCa_DDH5CbrDDHXCbtCDHwC
+bHBDImCcnBDHQCbKBDIXCbwFDHOCbSDDIWCcKDDH2CboFDHeCbIBDHICbEDDIGCbpEDHlCbhEDHcCbjCDHeCbdBDH2CbLEDHbCbG
+CDHYCbdBDHNCbnBDHYCbJBDH4CcBFDIACbgCDHeCbQJDINCaTBDIZCZeCDI9CaSCDHuCaBBDH7CaKBDIUCZoCDIzCZZEDIZCZ6ED
+IjCajCDH4CZoBDHuCZeCDIQCZuBDIeCaEDDH7CZjCDItCaVBDIPCaRCDI9CZQCDIRCZ4BDISCaRDDIXCaIBDIOCaTDDIrCasBDH4
+CaNBDItCaLCDH4CZfBDH7CaBBDIMCZ0CDIQCZlCDIECZUBDIMCZ_DDILCaWCDIYCaWBDH9CZ9BDIRCaABDH0CaBBDI6Ca0BDImCZ
+hDDIVCaADDI3CZPBDIwCZ9EDIGCaDBDHzCZOFDIHCZhBDI8CZFBDIHCaHCDIQCacBDIWCaDCDIoCaXCDIQCaWDDH7CZtJDIRCaJB
+DISCaGDDJNCZABDIYCZoBDH8CZUBDI1CZWBDIVCaKBDIjCagBDImCZfBDI3CanBDH_CZdBDIMCaaDDIMCaMBDIBCaSCDH3CZTCDJ
+JCZSBDI-CZgBDIfCaWBDITCaIEDIDCZhCDIdCaLBDIvCaiBDIOCZ9CDIPCaNDDILCaQBDHwCZ6BDI_CaqBDIOCZiBDIqCZaFDIDC
+Z3BDH7CZfDDIDCaUCDIMCZlCDIpCZ8DDI0CZdBDIgCaRBDIFCaMBDIVCaGCDIzCaYBDIQCZrDDI4CZUBDINCZgEDIHCaXBDHzCaD
+DDIlCZXDDHrCaABDIFCZsCDH1CZcCDIWCaUBDIRCaOBDJJCZHGDICCZ1IDIjCZ7BDIgCZWBDICCZUBDH5CZsBDICCZdBDH8CZoCD
+HwCZsBDH8CZ4CDIvCa3CDIzCZRBDITCZ2RDI9CZxDDJRCafBDJDCajEDJVCZYCDJOCZcCDJECZ7BDJMCZ2BDJHCZiCDJkCZJBDJA
+CZvDDI-CaVBDJYCZ3BDJcCZMGDJDCaTBDJmCZGBDJTCajBDJbCZYCDJWCZTBDJhCZKBDI8CacBDJWCaxBDJJCagCDJYCZ-BDJPCZ
+nEDJdCZuBDJOCaLJDI2CaiBDI-CaEBDJgCZDODIjCZtBDInCZwBDIkCZnBDIeCZwBDIiCZvBDIfCZ6DDIfCZgCDIlCZ0BDItCZrB
+DIpCZiBDIdCZqBDIVCZyFDI2CZtAABDDImCZpODKSCfbCDKTCfXBDKVCfiBDKNCfcGDKbCfCCDKDCfSBDJ8CfmFDKeCfjBDKKCfM
+BDKKCfIBDKaCe1DDKDCfvCDKYCfOBDKKCfWCDKFCfeBDKUCefBDKCCftCDKQCeqDDKOCeeBDKECfmEDKJCfpBDKQCfrBDKPCelCD
+J8Cfc3DIQCZMBDJDCY8BDI9CY8BDImCYtBDICCZFBDIVCY0BDIoCYRBDH8CZHCDImCZABDIFCYmBDISCYqCDIICYTBDJMCY5CDIL
+CYbDDI4CY2BDIXCZKCDIcCZBBDICCY8CDInCZJDDIQCZaBDIkCYOEDIICYsBDIfCYdCDI1CYsDDIQCY6BDIwCY7DDIXCY9BDIuCY
+xCDH4CZODDJWCZBFDIVCYRCDIKCY5CDIgCYxBDItCZSEDIbCZSBDIMCZLCDIVCZTDDIXCYgBDIfCY4CDIXCZOcDHyCZHFDHoCZaB
+DHqCZfBDHWCZTDDHhCZVBDHoCZKFDHmCZbEDHdCZTDDH2CZKBDHuCZADDHpCZWCDHrCZnCDHmCZNCDHlCZaBDHkCZVCDHxCZFBDH
+mCZDBDH0CZMFDHiCZGCDHxCZUBDHrCZKCDH0CY_BDHgCZdBDHXCZMBDHrCZDBDHuCZJBDHsCZVHDHjCYvFDH4CYrBDHjCYtCDH6C
+YZBDHmCY4BDH2CY0BDHVCY-CDHzCYlCDHwCY1CDHZCY6HDHsCYpDDHcCY4CDHhCY4CDHaCZBEDHeCZCDDH8CYqCDIlCYfBDIrCYp
+BDIqCYeBDIfCYXBDIpCYkyDIqCYduDHwCaRJDHWCaJBDHXCaPBDIOCafBDHqCaiEDHoCaCBDHyCaZCDHQCacDDHfCaaCDHcCakBD
+HVCaHBDHmCaTEDH8CazBDHkCagEDHrCaPBDIGCaoCDHqCaFBDIECahBDHUCajCDHaCafBDHtCaIBDHjCZ5BDH5CabCDHkCaCBDHl
+CaQCDHsCaSCDHcCaQBDINCauBDH6CadCDHZCaUFDIJCaoCDH1CaoBDHjCaIBDIBCacCDIHCavCDHcCaHBDHpCaXCDHnCaXCDHfCZ
+_BDHbCZ_CDHjCaWBDH-CahBDH0CaYCDHZCaETDH6CaiBDHVCaWCDH4CaTDDHyCajBDHfCaUBDHwCaYCDHnCaaCDHjCZ9CDHaCaPB
+DHgCZ7BDH_CaTBDHmCaoCDHhCaKBDHgCaRBDHLCaiGDHSCaKEDHnCaOEDH5CapCDIQCapEDICCatBDHYCaJIDHeCa4HDIACbDEDH
+_CbAEDHtCbEDDHZCarCDHMCauBDIDCbJEDHwCa5BDHsCa1BDHbCayBDHPCa1CDIHCbKDDICCbTBDHoCa9BDH2Ca-DDHgCaoODLPC
+bPbDLeCbOBDLICbJBDLaCbZBDK3CbWBDMECbZBDLqCbZBDLGCbZBDLqCbVBDLECbIBDK0CbNBDLGCbHBDK9CbJGDL9CbVDDMFCbS
+FDKwCbCBDL8CbXCDLbCbOBDLOCbTBDLTCbaCDLyCbYIDLiCbWEDLZCbUBDLcCbPaDJ7CZyDDKACZ8BDKFCZ5cDJwCZqBDKKCaRCD
+JgCagBDJkCanBDJnCadDDJdCaTBDJ5CZ_BDJqCaHDDKSCaoBDJbCakBDJqCaaBDKTCa3BDJxCZ2BDJaCaaBDJiCaaDDKjCbEEDKh
+CazBDJiCaDBDJ0CaTBDKdCbDCDJlCZnDDKZCbICDJrCZzBDKICaaFDKaCavDDJqCapCDJ3CaHBDJ5CZqDDKBCaJDDKJCZ_ODJkCb
+8BDIXCbSBDI3CbVCDIgCbPBDIgCbnCDIjCbWBDImCcIBDJaCb0FDJICbsCDI9CbjBDJVCb1EDJCCbuCDJKCb_EDJLCbrCDI_Cb7E
+DJNCbxCDJICb5BDJVCcBBDJuCcADDJcCclJDJnCcTDDJRCcgBDJgCc1DDJcCcPCDJTCcYBDJsCdLBDITCbeCDJgCdIBDI7CciCDI
+sCbeBDJdCcIBDJHCciBDJwCczBDJRCc4BDJmCdCCDI_CcUCDJjCcVBDJnCcrCDJTCcNCDJICcMCDI0CcBBDJqCciCDJbCcVCDJ1C
+cvBDIzCbtBDJjCdBCDIsCcHBDJyCc_BDJOCcWBDI1CcOCDJMCc9CDIuCbzDDKBCbrTDKMCa_BDJpCbLCDJ-CbzCDJuCa2CDJwCay
+DDKBCb6FDJUCbMCDJ7CacBDJtCbRBDKOCbTDDJnCa7BDJSCboDDKBCamBDJ-CcDBDKSCbZBDJ7CcFCDJdCa8DDKHCcOHDKJCbwBD
+J0CanEDKKCbvDDKGCbvDDJgCbtCDKRCccCDJOCbhBDKWCbPBDJwCbjGDJiCbIBDJ0CbtBDKMCbpSDKGCbxBDJ6CcaDDJ4CbxCDKM
+CcjBDJ2CbIBDJaCbWDDKBCayBDJ0CcODDKgCbQCDJ2Ca0BDKCCblCDKACb_BDKCCcvBDKBCbYEDJaCbEBDKLCb0EDJ_CcHBDKCCb
+IBDKZCbdBDKGCbwCDKECcYDDJsCbFBDKKCcnDDJbCbgBDKMCbfDDJ4CboBDJoCbbEDJ-CbDHDKQCbtmDKjCcMEDKlCcVBDKlCcTC
+DKgCcaLDKdCc1BDKWCciBDKrCb5DDKaCcjBDKlCc1JDKlCcQDDKVCctEDKqCcDBDKdCcmBDKmCcQBDKrCb_CDKmCcOBDKXCcjHDK
+TCcFFDKXCb-BDKaCcCCDKkCbkBDKUCb1FDKOCb0CDKkCb4BDKZCb2BDKVCbwCDKcCb-BDKpCbmBDKVCb3FDKnCbXBDKZCbqDDKgC
+bkBDKZCcFBDKYCbyBDKeCcCCDKnCbxBDKRCbyKDI-CbSJDIvCbJBDJVCa-EDJTCbHCDI0Ca8CDJLCbJCDJFCbdCDJCCa5BDJICa-
+DDJLCbVCDI4CbKCDJRCbXFDJKCawCDJNCasNDIbCatFDIZCaaEDIkCbJCDIaCbDFDIYCasEDIhCa3FDIQCbPCDISCa0BDIRCa_BD
+IJCa5BDIXCbHDDIQCa7GDISCajBDInCbNNDKBCecBDKECc7CDJ5CdMDDKCCd3BDKECerDDJ2CeXCDJ9Cc_BDKFCdiCDKWCeLBDKA
+CdTCDKWCeZEDKMCd1FDJzCduIDJ5CdaEDKBCdsHDKUCdvDDKcCeLCDJ1CeOCDKECeLEDJ_CeSCDKTCeSBDKRCc8DDKiCeMiDJqCe
+JBDJBCdhCDJECc_DDJACdRBDJzCepCDJkCeNCDJZCeACDJOCdEBDIxCdQCDKJCewBDJtCdyFDJxCemKDJuCdgDDJkCd2CDJRCduH
+DJ0Cd4CDJgCdlEDJpCebBDJ9Cd9DDJiCdeKDJ5CelBDJQCdbSDJVCdNCDJaCdMAAB4DEyCbkBDFfCbVCDFPCcICDFOCbLBDE5Cbq
+BDEfCbKBDElCbYCDFlCb6BDFeCbEBDFMCbcBDFVCb4BDFDCa_BDFYCbuBDFrCb6BDFBCbjBDFsCa8BDFeCcTCDFkCcRBDExCbXCD
+FpCbRKDFJCbpBDFiCbgBDFbCcKBDFaCbjCDFPCbyBDFqCcIBDFXCbXBDFoCcYCDFPCbnBDFMCcBBDFYCcBBDFoCbsBDEjCbUBDFD
+CbRuDFDCb8CDE-CbwBDFBCbvBDFICb5BDFGCbwBDE5Cb-CDFFCb0BDFBCb6RDE6Cb0AABKDE7CdEBDFLCdBBDEdCclCDEUCcfCDE
+RCdNBDEMCc-BDD2CcpDDFoCdYBDEVCdLBDFNCcxBDE6CdBCDFLCdOMDDsCclCDFMCdjCDEtCcuCDFCCcPEDEQCcHDDD1CczBDE-C
+dgBDFOCdDDDECCclBDEiCcsBDFICc6DDEMCdRBDE1CdRDDEMCdZCDFACdRBDEFCc_BDEzCcRCDE0CcMBDEvCcWCDE5CcNDDE1CcR
+KDFBCdrDDDnCc1BDE4CcXBDEzCc0BDFECcIEDFqCcpDDFiCdjBDEeCb7DDErCbwDDEtCc7BDEfCbqCDFDCcxBDFGCdaDDFsCdeBD
+DrCcSEDFJCcRBDFoCdFBDEgCdfBDExCcoBDFXCdgBDFrCdMBDEaCc1BDEoCckDDFaCcyFDECCc7BDFmCc8EDEICdiCDD5CdlIDEz
+CdVBDEICcuBDE_Cc2BDFqCdsBDEcCdJFDEuCdKBDElCcbBDEWCb1EDEjCc7BDEACckBDFTCcTBDFPCccCDEqCcGKDElCcSBDD9Cc
+VDDEwCb2CDDuCdABDE8Cc4CDFcCdRWDE_CcnCDE-CchCDFECcrBDE4CcnBDE5CcdBDFCCcjBDE_CcUBDFECcbBDFACcnBDE_Ccjr
+DFLCciuDEECeUBDEcCd9BDFHCeABDD8CekBDD9Cd0BDD9CeOBDFrCehBDE0Ce_BDFFCeLBDEvCdsBDEgCeJCDEkCeIBDE1CdvCDE
+vCdlBDEoCdxBDEdCeLBDElCd_BDERCeoBDD9CeWBDFDCeUBDEhCd4BDD7CeyBDFHCepBDEKCeFBDEVCeyCDEUCeeBDD6CfSBDD2C
+fbCDD7CfUBDD5CfjCDFZCevBDFcCewCDEYCeHBDESCeCBDFSCdsBDESCfKCDFLCesBDEiCeoBDD7CeCDDFCCe_CDFjCfTCDFpCe6
+CDEMCfEBDFgCe5BDEiCfECDETCdqBDEqCeFCDEUCd2BDFiCfCCDFcCeXDDEHCfABDD_CfHBDFkCfABDEwCeqBDFSCeABDFgCd2BD
+FoCeECDEOCe-BDEFCe2EDFMCeOBDFlCefBDFXCd7BDFpCerDDE2CehCDFYCfLCDEiCexBDEMCeVBDEPCe0BDFnCfHCDE4CetBDEo
+Ce6CDEuCdvCDEhCeZCDEWCeXBDEmCegBDEjCeXBDEeCeQBDEmCePBDElCeXBDEoCeZBDEeCehCDEpCeSBDExCeRBDEzCeaBDEuCe
+YBDErCeiBDEvCeLAABODEjCeUCDEiCeaEDE4Cd-CDE0CeHBDE8CeFBDE7Cd2CDEzCd5BDE4Cd6BDEwCeBDDFCCd-BDEsCd7AABYD
+EvCfzCDEtCfnBDE3CfoBDFNCgzBDDyChUBDElCfPBDEDChUBDE6CfyBDELChtCDElCgWBDETCfeBDD6ChDBDEwCf3BDFDCfRBDEB
+Cg0BDFqCg6BDElCgOBDFiCgkBDD0ChJBDElCfoBDFNCf1BDELCifBDEoCgrBDEQCiIBDEaCgJBDEPCgCBDEaCf_BDEMCfdBDFmCg
+DBDFsCfyCDEWCgWDDEHCgoCDFUCgEBDExCgkBDEvCggBDFtCfnBDE4CgUBDFQCfdBDFdCgQBDEgChGBDFKCgoCDFACgmBDFhCfkB
+DEUCfVBDEfCf8BDFsCgdCDFiCg1BDE5CfaBDE1CgiBDEJCggCDEWChgBDEmCgcBDFpCgpBDEFCfbBDEkCf7BDEWChGBDFsCgJDDF
+TCgdBDFjCf2BDEkCgiBDFMCgjBDEVCfuBDFFCgTBDECChuBDFnCgTBDFsCgpBDErCfpBDENCggBDEdCfQBDE1CgQBDEyCfMBDEPC
+fsBDEaCghBDD-CiHBDEuCgJCDEQCf2BDEOCg5BDFhCgBBDFCCfyBDEmCg2BDEZCfiDDEjCfaBDFYCgnMDFVCiFBDFUCg9FDD2CjR
+BDFZCioBDFcCigCDFXChuBDDtCjOBDFZCiRBDFYChMBDFdCinBDFJChNBDEoCiPBDFrChkBDFZCivBDElCh0BDFkCieDDFBChlDD
+FjChJBDDtCjIBDFrChTBDFeChYBDFQCisCDFBCiyBDFWChVBDDpCi8BDFKCh4CDFcChlBDFJCivBDE6Ci_BDFDCi5BDFqCijDDEk
+CisBDEvCi_CDFgCigBDE_ChUBDFqCiPBDEtCjIBDDbCigCDEgChSCDFFCi0BDFVCinBDFFCivBDFOChFBDEWCjTBDFmChQBDEvCh
+iCDELCjVBDFdCiaBDFQCihCDFoCh-CDEXCi3BDFkChoBDFRChiBDEpCjEBDENCjVBDE0ChCCDFOChxBDFfChEPDD2Cb7FDD9CajB
+DDgCcDCDD9CcFDDDpCaoEDDzCaQBDDtCZpBDEFCZcBDDwCZdBDEICZsBDD8CaECDENCbUBDDsCZfBDD6CbcCDD9CbMEDEECa3BDD
+rCakBDD-CaLBDD3CaaCDEECbBBDEGCaqCDEYCbkBDD7CZhBDEPCbiBDD-CZ5BDDzCZVJDDrCaVCDDuCadCDDqCafPDEICbwBDERC
+bkBDDoCZ8BDDsCZUBDDyCbQBDDuCZeBDD8CaYBDD8Ca5BDDfCbUBDECCahBDEGCbNCDEFCbWDDDsCaGCDEKCbTBDD0CZqBDEBCZ0
+BDDTCcXBDEECaTFDDyCbpBDDvCaiDDDuCakBDDBCcSBDDUCbtBDDaCbKBDDgCbJCDDtCbcBDDNCbMBDEECb0BDDbCbdCDDJCbZCD
+DrCZhBDEOCbDCDENCa3CDDFCcPBDD1CapEDD8CbnBDEWCbKCDEBCb_BDDpCcBBDDrCbvEDDECb1BDDcCa3BDDXCb6BDD-CZsBDEF
+Cb2BDEHCbkBDD3CZJFDEcCbiCDESCboBDEYCbYDDD2CZyCDDsCZxHDEZCbkBDD4CZQDDDpCblBDD7CaoCDEYCa5BDEHCZMBDELCa
+BBDD4CaBBDDUCcGDDDMCbHBDDRCbkcDDrCa8BDDpCa6BDDpCa9BDDqCbBBDDuCa-BDDnCa-BDDrCa2BDDmCa7BDDhCa6BDDlCbAB
+DDnCbGBDDxCbGBDDvCavBDDtCbKBDDzCa3BDDlCa1GDDzCbHDDDeCa-BDDnCbPRDDqCa8SDD0CbGHDD2CbABDDfCbEDDDgCaxBDD
+nCa9DDDZCa-BDDhCarCDDrCa8CDDqCa7TDDbCeACDDdCd4BDDXCd1BDDZCd9BDDQCd-BDDiCd1BDDlCdzCDDgCdwBDDlCd_BDDPC
+eOCDDZCdyBDDgCdHDDDVCeaCDCoCeLDDDzCeFCDDjCfOBDDvCdlBDD4CdKBDDVCe3CDDLCciBDDoCeXBDCyCeSBDDxCfWBDDvCef
+DDCyCefBDDeCcqBDDzCePBDCfCdnBDDgCfHBDDnCeXBDC8Cc8BDDlCeaBDDHCcxCDDZCc8BDDLCd7BDDSCffBDDtCdVBDDFCc6BD
+C9CdHDDD7CdgBDDsCeJBDDKCdsBDCtCd7BDCrCdvBDCzCdtCDCVCdnBDDPCc_BDC3CdUBDDlCfTBDDrCe0BDDlCcsBDD5CdpBDCa
+CdxCDDLCd2BDC2CdiBDDdCdDBDDnCdGBDCgCdwBDDZCdcBDDECdfBDDGCdvBDDNCclDDDNCegBDCqCdZBDC_Cd6BDDZCemBDDGCd
+nBDDmCdODDDqCd5BDDXCeSBDC5CeIBDDSCfFBDDqCdcBDDhCePBDDQCdLCDDTCfSBDC9CeQCDCNCfbCDCGCfkCDCKCflEDB_CfmC
+DCOCftBDB-CfgIDB1CepBDCjCfHBDB1CfDBDCLCewBDCNCeSBDCoCfiDDB0CfhBDCSCfiBDCMCd7BDCQCeEBDCBCeMBDChCeaBDC
+fCepBDCZCfNBDCJCe8CDCaCd9BDCNCd0CDDBCetBDCPCecBDCgCf3BDC1Ce4BDClCgGCDCuCe8BDCkCe0BDBtCfeBDCPCemBDCIC
+fMBDBxCegBDDHCfQBDCzCf7BDB7CeZBDCVCe7BDCeCflBDDCCfQCDCkCgSBDBtCfSBDBwCe5BDB7CeKBDC-CfWBDBnCfOBDC6Cfk
+BDBoCedBDBmCekBDBpCepBDBtCewCDCOCeTGDCwCfUBDB6CfWBDCFCfsVDDsCgHDDDrCf8EDDeCfqBDDjChPBDDTChQBDDKCh9BD
+C2ChPBDEACgVCDDnChbBDDGChiCDDJCfxBDDhCg7BDDUChxBDDCCfyCDDpCgeBDC_ChyBDDhCf3BDDsCgTBDDuCg6BDC5ChqBDDe
+ChIBDD5CgSBDC2ChoBDDLChHBDDKChGEDDuChoBDD-CgDBDC1CglBDC6CgKCDC5CgOBDC5CgUBDC2CgfCDDDCgVBDCvCgbEDD0Cf
+uBDDyChoBDC6ChtBDEECgBBDDHCgjBDDhChgBDC6ChVDDDhCg-CDDcCgvIDC-ChIBDDZChaBDDWCf0BDDSCgoBDDICgBBDC1ChIC
+DDLCh4BDDoCfmBDDBChtBDEBCf4BDDECh0BDC7CgtCDC4CgyBDDZCgSBDD0CgqBDDnChdCDDAChvBDEICgSEDC2Cg_HDEhCaLBDE
+XCaGCDFKCZXBDFFCZnBDE9CaNBDFNCZrCDEYCamBDEdCadBDE5CZiBDEVCZ2BDEeCaXCDFnCZpBDE6CZPBDFoCaIBDFNCZ4BDEgC
+ZvCDFUCbBBDFLCZNBDFtCavBDFECaDBDErCa3BDFVCZ4BDFlCarBDEdCZeBDFbCaIBDEnCaCBDFvCaDDDE1CbEBDFZCafBDEyCam
+BDEcCaCBDEpCZ8CDFgCaEBDE2CZTBDFPCa-BDFtCZ2BDFjCaQBDE2CZ1BDE_CZXDDFaCaXBDENCacBDFXCaNBDFBCZJBDE_CZSBD
+E-CacBDEgCZhCDE6CZOBDEUCaUBDFOCadBDE1Ca6CDE6CZTBDFuCaPBDE8CZHBDFNCaHBDEcCZ9BDEhCaBBDFkCauBDFOCatBDFL
+Ca1BDEfCZ3BDFoCaLBDESCasCDFrCaeBDFZCa6BDEeCazBDEnCalBDFSCZYCDEwCaWBDEPCavBDFfCa1BDFZCZvBDFbCaoEDE8Ca
+zBDEdCZzCDFXCZYBDFnCZ0BDFdCZ9DDFGCacBDFXCZgDDEbCYIBDD6CWkCDECCYPBDE8CY5CDD8CXdBDDvCXyBDEhCYiBDECCYsB
+DEQCYtBDDlCX7BDD5CWxBDEsCYqBDEHCYBBDEACXzBDDZCXbBDDkCYJBDEHCWwBDEBCYuBDETCXrBDDpCZCBDDzCXjCDD6CXJBDD
+wCYeDDD0CYMBDEJCYkBDDxCYiBDEBCYbBDD_CWWBDDmCW4BDEECYlBDDmCXbDDDvCYTBDE7CYpBDDbCXPBDD6CYHBDEkCXwCDEIC
+XnBDEECY4BDDjCXsBDEVCX8BDEoCY-CDEHCXYBDEbCZEBDEqCYBBDEsCYVBDEvCYyBDD4CYzBDEVCYqBDD5CYWBDD6CYNCDEZCZR
+BDEUCY1BDDXCW1DDDtCYKCDD1CYBCDESCYsBDD2CWPBDDiCX0BDDuCYqBDDdCXlBDDWCXECDEvCZBBDERCYgBDD4CXPCDDqCWkBD
+DrCY5BDDsCXiCDEVCXWBDECCXlBDEeCYUBDD3CXOBDD9CXEBDDoCYWBDD4CYVBDD7CYjJDEPCYQCDEJCYUBDEVCYQBDERCYYBDEN
+CYKAABfDDoCWTBDDWCWECDDbCWbBDDkCWGBDDdCVyDDDUCWKAABcDBbCb_CDAkCaqDDBjCZ1DDCcCbsBDCGCb1EDCkCahBDCdCaK
+BDCECatCDAvCbQCDCPCbXKDBGCbPBDCtCaBBDCSCbkBDBrCamDDB9CaKBDCDCZVBDAyCauBDA2Ca3BDB2CbkCDArCadCDBpCbKBD
+CDCbABDB7CcABDBBCbWBDAzCbyDDBiCcDBDBcCbGBDBfCajBDBrCaGBDCpCa1BDBJCcPCDCnCbFBDAtCbmCDBmCa7BDBwCbTBDB-
+CaYCDCOCaMCDCmCbaCDCCCcHBDBoCZ_CDBwCaRBDBlCaUBDCcCa-BDCECaGDDCCCbKBDCNCcFBDBxCcHBDAVCanBDAQCayTDCgCb
+4BDBNCb8CDBvCb7BDBdCZxCDBACagBDCPCZtDDBaCcOBDBLCakBDA3CaeBDBrCcXBDA8Ca8CDA-Ca7BDBFCa3EDCICaLBDBYCaSC
+DBSCbhBDCRCaCBDB_CZ5BDB6CbbBDBbCZpBDCRCa4DDAwCbACDBSCbFCDBICaMBDB0CZeEDA7CbcDDCGCZbBDA_CaOCDBBCbuCDB
+eCbwCDBtCbhBDBtCbxBDBeCbkGDBXCaoBDB6CcWBDBlCcPBDA2CbjBDBOCaBCDBmCZlCDBhCbaBDBwCaiBDBqCaeCDBnCakDDCcC
+bTCDB-CaRBDCiCZxCDCVCaiVDBuCapCDB6CaoBDBzCasBDBvCasBDBzCawBDB0Ca7BDBwCapBDBpCaxBDB1CahCDB4CaYLDB5Ca0
+CDBwCapEDB_Ca3AABIDDOCZHBDDICZYBDDUCZLDDDJCZQBDDSCZZJDDYCZKEDDQCZJBDC3CZiBDDgCY7BDDhCZRBDDTCZaBDCfCZ
+XEDDTCZYBDDZCZcBDCwCZWBDCMCZLBDDRCZRBDDLCY8BDCyCZRDDDhCZICDDRCZxBDDgCZlFDDPCZYDDDbCZBCDCaCZbCDDDCZrC
+DCUCZhBDDjCYuEDChCZDEDC_CZ-BDDSCY3DDDcCZWBDDHCZGBDCVCZKCDDKCZlBDDMCZiBDC_CZXBDDGCY9BDDBCZOBDDNCY-BDD
+RCZLBDC1CZwFDCSCY_BDDRCY-DDC8CZDNC_2CcXCC_4CcVBDACCcLBC_9CcSBDAGCcMBC_4CcQCC_4CcUBDAGCcPCC_vCcVCC_8C
+cGEDADCcGCDAFCcGEC_2CcWBC_3CcVBC_1CbrDDALCcuCDAnCccBDAjCa_CDAaCcgBDAHCbhBDAsCb9BDAaCbmBC_hCbwBC_pCcV
+BDAyCdTFDAMCcTBC_jCbdCDAmCbjBC_uCb0BDAVCcnBC_7CcpBC_wCbhBDAiCc3CC_sCcHBDAKCcFCDAYCdDDDAdCcPDC_6CceCD
+AACcmCDA3CcIBDAkCcDBC_5Cb7BDAfCbNBDARCbvCDACCbcBDAJCa-CDAcCbXCDAyCcbCDAYCbBBC_1CchBDAPCb5CDAFCb7BDAW
+Cb_BC_qCb-BDADCbNEDADCccBDARCa8IDCECchEDB9CcvBDCFCczEDA5Cc3BDBuCdoBDCuCcsEDCcCc3CDBbCcfBDByCdQBDC1Cc
+XFDCoCdABDBjCd2BDBbCdmDDBwCcqCDCMCcfEDCaCdPEDCWCcfBDB2CcqCDCNCdZBDBwCdeBDCACd3BDBkCdRBDChCdTDDCXCcIE
+DBSCdNBDBgCdGBDBPCcoEDBgCcpDDCTCdfBDA8CceBDCUCdCBDBlCeWBDCoCdJBDBnCeNBDBzCd9BDCzCc8BDB-CdJBDBZCeJCDC
+BCdaBDBLCd3BDBFCdvBDBSCd9CDBZCd9BDBNCc9BDCDCdpBDBfCeXBDBuCc7BDCqCcLBDBECdrDDBPCdyBDB6CdUBDBFCcfBDBqC
+coBDCJCdHBDChCceBDCwCc6CDC6CcfFDDFCYgEDC-CYiCDDBCYnCDDLCYhCDDDCYaCDDMCYcBDDHCYkBDDGCYqCDDLCYZDDCCCYd
+BDCjCYMDDCcCYKBDCoCX7BDCeCX8BDCkCYYBDB5CYQCDC6CX4BDC0CX2DDC0CX0BDDcCYJDDCUCYmBDCOCYdBDDICYOCDC-CYQBD
+CjCXmBDCzCY0BDCrCY7BDB-CY5DDCICY5BDDKCYuBDDWCYsCDCPCYxBDCeCYjBDCLCYJCDC9CYDBDC9CXGBDCFCYHCDDaCYRBDC-
+CYqCDDGCXUBDC4CXtBDB7CZKBDC8CX8CDCwCYfBDCwCYABDDOCYABDC7CXrBDC4CYaDDDPCXmCDCvCXqCDC0CYrBDC9CYxBDDECX
+zBDDXCYXBDCWCYABDDSCX0BDDQCXfBDDTCYnCDCmCXwBDDaCYeBDC-CXcBDCZCYyBDCwCXVDDC-CXjBDCvCYRFDDgCZ9CDDDCa1C
+DC4CaVBDDTCa6BDDZCatBDC4CcGBDDfCaWCDDACauCDC3Ca1BDDVCazCDDPCZ_BDCvCbsCDC7CbGEDC-CarCDDGCaUBDC4Cb2BDC
+8CboBDC1CarBDDJCaqCDDRCakBDDOCapIDC5Cb8BDDHCaFBDDXCaCCDDTCaX4DBHCZnCDA5CZmCDBMCZvEDA2CZnBDALCaGCDAhC
+aGEDA-CZVBDAxCaRCDB0CYxCDBMCY8DDBdCZJCDAzCaIBDAJCaUBDBACZZBDBFCZWCDAuCZWBDBgCZcCDBACZYBDBoCYrBDAVCZ6
+CDBXCY5CDBwCYSBDBBCZOBDA6CZWBDAeCaaBDBbCYzBDBfCYzCDBSCZXBDBtCZCBDAWCaUCDA_CZaCDA0CaBDDA9CZ5EDBJCZKnD
+BpCYvDC_ICbMCC_YCbIBC_MCbKBC_VCbFBC_XCbUCC_KCa7BC--Ca3BDAFCacBC_iCazDC-0Ca6BC_xCawCC_yCaTCC_MCbZBC_t
+CaaBC_jCaQBC_9CaUBDAACahCC_ACbHBC_BCamBC-5CbFBDAICa0DC_7CaKCC_kCahBC_OCbKBC_YCavDC_sCaTBC_fCbMBC_dCa
+-CC_ZCadBC_4CapBC_sCbA5DBZCVmCDB_CVjBDB5CVqDDBmCVFBDB4CViCDByCWQBDBUCWABDBMCWDBDBHCWSCDBACWHBDBlCWEB
+DBUCWUBDBuCWMCDBdCVoBDBzCVnCDB2CV3BDBOCWeDDCNCVuCDBZCVjCDBWCVmBDBdCVkBDBRCVnBDBUCVsDDBPCVyBDBcCV9BDC
+GCVuBDCECV2CDBxCV_BDBoCV5BDBqCWHBDBrCWBBDBjCV1FDBeCWKCDBQCWMBDA-CWZBDA9CWjCDBWCV1CDBoCVKCDBxCVRCDBqC
+VDCDBzCVNBDBpCVSBDBtCVVCDBFCWKBDBqCVrBDBbCVsDDB1CVZBDBzCVhCDBiCV-BDBbCVmBDBkCVOCDBhCVKBDBcCVtBDBhCVq
+DDBbCV2BDBYCVuCDBrCVJCDBtCVpBDBnCVuBDBJCV7CDBtCVxBDBzCVxEDBzCU5BDB6CU_BDCUCUkBDB5CUVBDCbCULBDBfCVBBD
+CSCVdBDBBCUCCDBWCUOBDBfCU-CDBhCUHBDCICVKBDCGCVYBDBCCUcBDBGCUPBDBFCUSCDCCCUqBDCFCUyBDBZCVACDB9CT5BDBw
+CUABDBeCVJBDBkCU6FDBuCUrCDBaCUyBDBPCU3CDB8CUzCDCbCU5CDBiCUzCDCeCVVBDB0CVFBDCJCUdCDB9CUGBDCeCVlBDCQCU
+GDDBvCU_BDBtCUXEDBkCUpEDCICULEDCQCT-DDBaCVFCDA3CUMBDCUCU3CDB9CUNCDClCVLBDBZCT-BDCZCVbBDB6CUfBDBaCUbB
+DBUCUkCDBOCUDBDCSCVEBDCJCU2BDBACUkCDBNCUqBDB8CVSBDB8CVHPDASCV0BDAnCVQBDAWCVSHDBHCVCBDA9CVPBDAzCVSBDA
+jCWMBDApCUOBDAYCVFCDAjCUuCDAQCU3BDApCVkBDAgCVoEDA0CVhBDAjCVHBDAdCUkDDApCWCBDAtCV9CDBACVfCDA-CVaCDAQC
+UQBDAOCUgHDAvCV1CDA3CVhBDAgCU6BDA7CV6BDA5CVtDDANCVhBDAaCVtBDALCVRBDAnCU2BDBHCVfDDAzCUqCDA2CU5DDBDCU4
+BDAzCVHDDBKCVOBDBGCVlBDBECVYBDA3CUpBDAmCVGBDAyCU_EDBECVsDDAuCVjBDALCVmBDAACVfCDBNCVfBDAsCVBBDA8CVFBD
+BGCVKBDAdCVZBDAKCVEBDBMCVmBDAVCVgBDBECVUBDBJCVbGDBXCVZCDBfCVZBDBbCVdBDBZCVfBDBZCVaBDBcCVZBDBVCVVBDBU
+CVQBDBWCVaBDBYCVYBDBYCVVBDBSCVaBDBUCVfBDBXCVgBDBbCVTBDBkCVfDDBbCVfCDBeCVcCDBhCVcBDBjCVWBDBpCVZBDBfCV
+gCDBTCVKBDBaCVYCDBXCVZCDBWCVHBDBMCVTBDBrCVgBDBjCVSBDBmCVnBDBlCVjBDBkCVbCDBQCVSBDBhCVkBDBoCVeDDBKCVMB
+DBuCVfEDBOCVZGDBpCVlDDBbCVYmC_kCYlJC-7CYVBC-0CX5BC-wCYXBDAACYVBC-4CZJBC_ICZwCC-5CZQDC_HCY7BC-7CY9CC-
+3CZaCC_sCY_BDARCZrBC-gCZMBC--CYABC-4CZPFDAOCYjCC-3CYrDC_SCZBCC_6CYwBC_6CZLDC-5CYOBC_gCZ-CC_ZCYkBC_dC
+Z3BC_gCZPBC_PCZMBC_ICZTBC-rCY9BC_UCX_BC_uCZbBDAKCZcBC_QCYQBC_QCZZCC_TCZeBC_aCZkDC_UCYyDC_zCZwDC_MCYW
+BC_eCY2CC-qCYZBC--CYfDC_-CYgYDCQCWTDDCLCWLCDCTCWKBDCKCWXDDCcCWrBDCdCWzBDDGCWDBDDCCVgDDCWCXhBDB9CWUBD
+B9CV-BDB5CWFBDCSCXcBDCUCXHBDC-CVeBDC3CWtCDDLCW_CDCgCWWBDCtCWWBDCGCW0BDCGCW9BDCjCWpCDCpCV_BDCbCVyBDCp
+CWrBDCxCVcBDDSCXDBDCiCXKBDC0CVRBDC5CVKBDDMCVMBDCCCWJBDCOCWjCDC8CWYBDDLCWcBDCUCW2BDB5CWYBDB7CWqDDC9CW
+1BDCcCXcBDCYCWiBDDRCVWCDCgCXSBDCKCWrBDDQCVlBDDICVsCDDMCW-BDCoCW2BDCeCWLBDB5CW7BDCICWKBDCCCWgBDDPCW7D
+DC4CWgBDC6CV5BDC6CW9CDCFCWdBDDDCW3BDCoCXDEDDACW6BDDQCWJPDClCWCBDCsCXBDDBwCXBBDBqCW_DDBmCXDBDBqCW5BDB
+yCW3CDBpCW_KDBiCXMBDBpCWYBDBcCW1BDBoCWvBDBVCWxBDCCCXgBDBACXDCDBtCXoBDBzCXOBDB4CXZBDBmCXVBDBECXxCDCCC
+XLBDCECXqBDB7CX5EDCMCXVCDBZCWsBDBCCXSBDCVCXtDDB5CXGCDBjCXgCDBHCW1FDBaCWfBDBiCWcEDBaCXrCDCLCXWBDBKCWo
+BDBECX4BDBCCXdBDBsCWqBDBcCXSBDBmCYCBDBQCXYEDBVCYAEDBaCW_BDA5CXdCDBwCWeDDBrCXKSDChCUhEDC7CU1CDC-CT3BD
+DOCU9CDDOCUkBDDNCUzJDC5CUcBDC_CUlDDDDCU0BDDMCT5BDDRCUOCDC0CUFCDCUCTyBDCoCTtCDCZCUXBDClCU5BDCsCUoBDDK
+CUPCDDACTsBDDBCUGBDC8CUVBDDPCUABDDOCUEEDCrCUZBDCiCT_DDDOCT1BDDSCU3BDDLCTmBDCqCT_CDDHCUYBDDKCUfBDDOCT
+wtDBICYqBDAZCYRCDAoCY1CDA6CYHBDAyCYhBDBECY3BDAjCYNCDAxCZFBDA7CYxBDA3CYoBDAoCZBBDAcCY2BDBaCYdBDAnCYnC
+DAiCYABDA9CX-BDAECZOBDAiCYaBDA_CYVEDAxCYGCDAVCZKDDAfCYlAABEDA4CZMDDA8CZHBDA1CY5BDAvCZLBDBACY_CDA7CZA
+DDA7CZJAABZC-mCXCBC_fCYMBC_kCXOBDAHCWTBC_eCWpBC_iCVnBC-7CWHBC_rCWVBC_DCXkCC-1CXfBC_PCXTCC_SCXBBC-iCW
+WBC_7CV3BC_mCXNBDAKCYKBC_SCXfBC_pCWyBC_ZCXrBC_bCXYBC-6CXQBDAsCW_BC_KCWaCC_hCX2BC_nCWgBDAQCWGBC_hCWLB
+C__CXDBDANCWrBDAUCW5BDARCXNBC_9CYBBC_DCWzBC-0CXqBDAaCWmBC_kCVaCC_OCVvBC_yCXRCC_qCW9BDAoCX5BDARCWUBC_
+XCWqCC_sCYUBC_wCWGBC-2CWMBC_3CWQCDABCXPBC-nCXwCC_TCWGBC_ZCVXCC-nCXeBDASCXNBDAQCXOBC_FCWEBDApCWeBC_gC
+XRBC_4CWCBC_9CXoBC_JCV1BC_UCWZBC-7CWVBC-1CWuBC-lCWrDC_MCXpBC_fCV2BC-iCXTBC_tCV4BC-iCW2CC_RCVkBDAMCXu
+BC-sCX2BC-kCWoBDA3CWlCDAlCXkBC_jCWiBC_9CXyBC_3CXfBC_ACWeBC-xCWWBC_pCWiBDAXCX4CC_wCYBBDABCVvBC_lCWqAA
+BnC_5CWmDC_9CWhCC_3CWgBC_7CWjDDADCWaBDACCWoCC_8CWkDC_xCWhBC_8CWyDDAACWSAABRC-QCZvBC-1CaKBC_bCaNCC9pC
+aGCC-6CaEBC-6CZ9BC-cCaADC_ICaEBC-YCZuBC-fCZuBC-dCZvBC-MCZjCC-1CaHCC-RCaHBC-7CZqBC-yCaSBC-HCZ_BC-ZCaS
+CC_GCaWBC9uCaPBC-oCa3BC_TCaJCC91CaCCC-RCZtAABEC-vCajDC-tCanBC-sCaaBC-mCajBC-6CaYBC-yCaaBC-qCaeBC-pCa
+tBC-iCapEC-wCafEC-mCaUCC-xCakAABQC9bCYlCC9WCYgHC97CYdCC97CXiBC-SCYlDC9jCYvCC93CY1BC-HCXxBC9WCZ7CC9eC
+aKBC9ZCZuBC9cCZ9BC9kCZ3CC9MCaCFC-NCX9BC98CX1CC9yCXxCC89CY2CC-VCYMDC9SCY8BC9lCZVBC-YCXoBC99CZJBC95CZd
+BC8vCZ2BC8wCZlBC-gCX_BC9TCYMBC91CYtBC9hCYMBC9VCZKBC91CYKBC-KCZBBC9tCY8BC9qCY-BC8wCZ5CC93CZFBC9YCaLBC
+8QCY-BC-OCY2BC9dCYZBC9LCZsBC9WCZbBC-DCYBBC9FCZaBC89CZieC98CZSCC8uCXDBC83CXCDC89CXOBC8wCXSOC9QCW5CC9p
+CXQBC9LCYIBC9iCX_BC9DCWwBC8uCWUBC9ICW9CC8yCWfBC88CXyBC8nCYIBC9DCXBCC9HCX_BC9OCXfBC8pCXZBC9iCW4BC87CW
+xBC9ZCXRCC88CXbBC9eCXwBC8tCWsCC9KCXOCC9ZCW5BC8nCXjBC8-CXjBC9pCXiwC81CXHBC9BCXRCC99CVxDC97CV6BC94CV8C
+C9_CVrCC-tCVxCC-7CV0BC-WCWcCC-LCWgCC9pCV1DC-xCVhBC84CWcBC95CViBC9JCWnFC9uCW9DC9ZCVkDC9_CWzCC-lCWDDC9
+FCWMFC-eCV_BC9mCWKDC9VCWqCC9uCXDBC-OCXODC9YCWNDC9WCWEBC83CWKGC-OCVxBC-mCV3BC9NCV9DC9XCWQDC9dCWjBC-MC
+WEBC9CCV7BC99CXKBC9lCWoDC9BCWeBC9NCVtBC-rCVZBC98CWUCC-QCW1BC9dCV7DC-eCVnBC9PCWgBC90CWbBC-FCWqBC95CWL
+BC8tCV8BC9yCWqBC9xCW3BC9vCWkBC-RCWMCC-ECXfDC_cCVFCC_HCVMBC_qCUoBC_CCU2BC_CCViBC_oCUwBC_nCUbCC_hCVMBC
+_yCUiBC_nCVVCC-8CUqBC-sCUqBDAACVEEC_iCUtBC-2CUfBC_-CUlBC_4CUvBC-uCVMBC-0CU9BC_4CU6BC_uCVOCC_hCU3BDAC
+CU3BC_rCU6BC-kCVDBC_8CUTDC_4CVKAABBC_WCUeCC_SCUhBC_fCUbBC_NCUsBC_XCUhBC_YCUmCC_fCUkAABeC7qCZlFC7XCXu
+BC8KCZLCC8ZCZYCC7zCXHLC7pCX_BC7qCYPBC7mCY1HC7LCZ_BC8cCZ8EC7ZCYDCC75CYwDC7ZCZiBC7SCY2CC8mCZQGC8RCXqBC
+8ZCXVBC7jCYhBC77CYKDC7rCY9BC8GCXKBC77CXgBC7oCYUBC7uCXmBC77CY8BC79CXlBC7yCZVBC7kCXPCC7oCZUDC7mCXoBC7y
+CYeBC7xCZiGC7eCZbBC7OCaRBC7sCaBBC7rCaHBC7rCYxBC7XCaHCC7GCaOBC8ECYqEC7ZCY9BC7ZCZ4CC7zCX2BC7jCaABC8VCY
+JBC8iCZrFC6KCZ4IC6oCaJCC6nCZzBC6lCY_BC6PCanDC6TCalBC6RCasBC6MCapFC6MCacDC6HCauBC6GCalBC6KCaqBC6LCaKB
+C7ACZ0BC56Ca0BC59CZRBC6iCZZCC6qCadBC62CaWCC6iCZvBC7ICZVBC51Ca0EC7ACaCCC67CZdBC64CZUJC6qCZxCC50CZSDC5
+0CZIBC5sCZMBC6sCaWEC57CaqBC56Ca5FC6ZCacCC6eCamBC7CCZmCC6GCZSBC6UCaABC6vCZwBC6vCZOFC62CZ1CC6zCZrBC6eC
+Z7CC6fCY9BC6sCZqCC57CZTHC8ACZrBC8CCZpBC8ACZoBC7-CZkBC8DCZsBC79CZsBC8HCZoBC8ECZmBC77CZhBC8BCZyBC72CZp
+CC71CZoCC78CZyBC73CZuBC8RCZpBC8LCZaBC8CCZWBC76CZUBC71CZZBC7wCZrBC77CZ-BC8ECZ5BC8QCZ5BC8HCaEBC8HCaEFC
+8ECaCBC73CZIKC72CZhCC79CZ5EC78CaDEC8CCZjCC7yCZ9BC7zCZvBC7uCZ1BC7nCZxHC8ACaDLC8GCZxYC8LCVmCC8TCVeBC8N
+CVdBC8DCViBC8MCVjBC8KCVjBC8QCVqBC8aCV2BC8LCVZBC8HCVuBC8cCVoBC8MCViEC8PCV0DC7FCUXBC76CUcBC7SCVBBC7VCV
+DBC8hCUyDC7yCViBC7MCUmCC8aCU1BC8NCWqBC8dCU9BC8dCVWBC76CU0CC76CWNBC8QCV-DC8NCW5DC8QCVOBC8MCWHCC7eCVaB
+C7vCWkBC7aCWsCC8ZCXDBC8UCU8BC8iCVFDC7xCVrBC7SCW6CC7pCVKBC69CW-BC8FCUvBC8ECWBmC8GCVpCC7wCTcCC7lCTlBC7
+zCTpBC70CTZCC70CTNBC7wCTRBC8CCTVBC7bCTxDC7_CTDHC8gCT2BC8UCUHCC8-CUXBC8HCUUBC81CTUBC8_CT3BC8nCTNBC8eC
+TjCC8KCUFBC8vCTzBC8nCUUBC81CSkCC8hCSrCC8MCTBBC8TCTzBC8QCSrBC88CTnCC8lCUbBC83CURBC74CTbBC9BCUIBC81CUF
+CC8jCUGBC77CUGGC8gCS8BC7NCT9DC8ECSlBC8sCUhBC7_CSzBC8YCTKBC8fCThBC84CS8BC7hCUKBC8HCTtjC8LCQ-BC8JCQ9BC
+8OCQ_BC8PCRBBC8NCQ6BC8HCQvBC8CCQuBC8DCQ0BC8PCQyCC8JCQ3BC8ICQ2CC8VCQ-MC8SCQvEC8cCRSBC86CRzCC8dCQ0BC8V
+CQ3BC9ACQxBC8rCR8DC8uCSICC8ICSIBC8TCSCCC8LCRwDC8PCR3BC8JCR9CC8GCSVLC8CCRICC8HCRSBC8pCRqBC85CRFBC8LCR
+fBC88CSNBC84CQlBC8JCRvBC8vCRWBC8jCRAGC8qCQuBC8TCSLBC8NCR_BC8TCSFDC8cCRXSC69CYnCC69CYlCC7ACYjBC7ACYcB
+C69CYeBC62CYgBC7JCYsBC68CYmCC68CYlDC7OCYXBC7KCYWBC6bCZBBC6yCYUBC7ICXxCC6nCYJBC7WCYpDC6RCXkBC6mCXuCC6
+9CXUDC7FCY9DC6gCYvFC6TCYABC60CZBBC69CYwCC7OCYIFC6uCXMFC7GCYgDC7PCZNCC7RCYeGC6pCYyCC7DCZJBC6tCYqBC6WC
+YZBC67CYNLC61CXdBC6nCYyCC6XCX7DC6gCYsGC6dCXTBC67CX5BC7NCY6CC6kCYZBC7ZCYdEC5bCaHBC6ACZtBC5ZCZ4EC5aCaN
+BC5dCaRBC5KCawDC5iCZ1BC5wCaMBC5aCaDGC5_CaHDC5_CaOBC6CCaVBC5xCaTBC5tCZoEC5ZCaKCC5jCaiDC5xCZiBC50CZ7CC
+5yCaZGC57CaWCC5lCaJEC5fCaJBC5XCaHDC5dCa0DC5mCZtCC5rCa2EC52CaNBC5sCamBC5bCaYBC5ZCaoBC5_CZ3BC5eCZ0DC5p
+CaMCC5kCaTCC5lCa4BC5oCZ8CC5lCZjBC5hCaDBC5NCbCEC55CZkFC5UCaJDC5VCaOEC5XCa7CC5gCZxDC5OCaHCC5QCaJBC5SCa
+FBC5NCaDBC5LCaIBC5PCaOBC5SCaABC5GCaFBC5WCaBBC5MCZ_BC5ICaMCC5RCaLCC5UCaYBC5TCaUBC5TCZ7BC5FCZ9BC5SCaeB
+C4-CZ8BC5JCaPCC4_CaKBC5OCaUBC5SCaZBC5DCaMBC5NCabBC5ICaWBC4_CZzBC5JCadBC5ACaaBC5JCakCC5MCZ7BC5BCZ4BC4
+-CaDCC5JCaD8C5RCbRCC4gCbSCC4iCbWBC4bCa-BC4bCbUCC4aCbMBC4UCbKBC4OCbOLC5ECbVCC49CbGDC4xCbTBC4-Ca-BC5GC
+a_EC44CbRDC4lCbJBC4nCbPCC4qCbTDC4tCbFIC4ACbRBC4PCbYBC4WCbXBC4SCbeBC44CbOBC5GCbLCC41CbBDC4DCbfBC5FCbE
+BC30CboCC3uCbqBC38CbpDC35CbIBC38CbjBC3vCbdCC3_CbjGC4JCbZZCzcCbADC1WCcCFC1OCcBBC0_Cb0CC1DCbyBC1CCb1BC
+1GCbyBC1KCbwBC1FCbvCC1HCbpBC1TCcEBC1SCcBBC1SCb9BC1RCcCBC1PCb7BC1TCb4BC1PCb0BC1TCbyBC1PCbuBC1RCbuBC1P
+CbpBC0dCbdBC0gCbeBC0hCbpBC0cCbnBC0bCbDBC0WCboBCziCbKBC0DCbnCC0eCboBCy-CZQCCzLCZ6BCzLCaSHCzTCatBCzQCa
+qDC1HCb2BC1LCb0BC1LCb4EC1nCcECC1oCcHBC1pCb7BC1sCcEBC1rCb2BC1pCb_BC1vCb5BC1mCb7BC1oCcABCztCbbBC1pCb1C
+C1uCb-DC1wCb1ZC06Cb8IC04CcDNC09CbwDC06Cb4BC06CbyBC09Cb8BC06Cb8BC03Cb8BC05Cb8BC05Cb-BC06Cb_BC01Cb5BC0
+3Cb1BC05Cb4BC07Cb7BC09Cb_BC1BCb-BC06CcBBC0-CcCBC1BCcCBC09Cb2BC0yCbyBC04CbxBC03Cb5BC00Cb1BC1BCb4CC0zC
+cABC1BCb7EC1FCcDBC02CbxBC0vCbyBC0pCbuBC0sCbxCC1JCcCBC1FCb-BC1JCb-DC01CbsBC0-CbxBC1ECb4BC1FCb7BC1KCb7
+BC0kCbjCC07CbsBC0yCbsBC04CbsBC02CbnBC0uCbsBC0oCbnBC1ACbmBC1MCb-BC1MCcCBC1GCcBBC06CboBC0yCbnBC04CbnBC
+01CbjBC0tCbnBC0hCbUCC0lCbuBC0kCbtDC0zCbhBC0zCbWCC0tCbZAABpC1cCcDDC1eCcEBC1fCcEBC1hCcFCC1jCcGBC1jCb_C
+C1eCb_BC1ZCb-BC1fCb5BC1XCb6BC1ZCcBBC1aCcEBC1bCb5CC1iCb5CC1lCb1BC1fCb0BC1fCbwBC1bCb1BC1bCbwBC1bCbrBC1
+nCbrBC1XCb1CC1WCbvBC1WCbrBC1RCbiCC1iCcDRC1iCb0lC1cCb3NC2YCcJCC2gCcIBC2eCcKBC2TCcKBC2SCcHBC2cCcHBC2kC
+cLBC2YCcGBC2lCcHBC2YCb8BC2gCb6BC2SCcBBC2RCb3BC2SCcDCC2YCcEBC2nCb_IC2FCcICC1zCb5CC2MCbWBC11CcFBC1yCcI
+BC1zCcABC12Cb_BC2FCcKBC2ECcFBC2DCcBBC2yCbcCC2GCaoBC1vCcGBC1vCcCCC1-CcIBC1-CcFBC1-Cb-DC2LCb5GC25CcADC
+2uCcDCC2OCcKBC2OCcHBC2KCcJBC2LCcDEC2MCb-CC2zCcFBC2eCbqBC2sCaYBC2GCb9BC2CCb9DC2gCbPBC2sCcIBC2uCb2CC2V
+CcMDC1-CcKBC19CcDCC1zCcFBC15CcHGC2ACbJDC15Cb_CC14Cb6FC4ACYsHC4UCYqBC4PCYqCC5aCY3BC5aCZIHC5oCZACC5CCY
+tCC45CY2CC4VCYzDC4PCY3EC4GCYjEC5tCY1CC4yCY7BC4vCYyBC4wCY2BC4tCYoBC4xCYjBC4zCYrCC4DCY6BC4nCYYBC4mCYbB
+C4WCYpGC4pCYMCC4pCYVBC4oCYfEC4aCY7CC4hCY5BC4WCY-BC4QCY8CC4JCYqBC35CYaCC4BCYgBC38CYkBC46CYuCC43CYqCC4
+KCYkBC4ECYsFC4ZCYrBC5hCZFHC4iCYsCC4SCYwCC4NCYxBC5NCY_BC35CYsEC4TCYaBC4XCYaBC4aCYaBC4TCYdBC4SCYZBC4VC
+YUCC4SCYUBC4YCYiBC4NCYVBC4dCYbBC4gCYbBC4YCYVBC4YCYOBC4LCYSBC4cCYhBC4fCYWBC4SCYiBC4eCYfBC4JCYVDC4gCYT
+BC4fCYQBC4eCYMDC4QCYVFC4ZCYRBC4aCYKCC4dCYkKC4nCYo2C4BCYJBC4JCYJBC4GCYKBC4ECYJBC39CYIBC3-CX9BC3-CYABC
+4GCX4BC4GCX_BC4DCX_BC3-CYDBC3-CYFBC4DCYEBC4GCYEBC33CYABC4MCYHcC4FCX7LC4WCX6BC4TCX5DC4WCYBBC4PCYBBC4b
+CYABC4PCYEBC4YCX-BC4SCX-BC4VCX9CC4VCX1DC4QCX4BC4PCX8BC4ICX4BC4MCX8BC4MCX1CC4JCX1BC4JCX8BC4NCX4DC4ICY
+BBC4KCYBDC4NCXzBC4RCX1PC4cCZSCC4ZCZOCC4iCZQEC4sCZMBC4lCZEBC4WCZGBC4VCZTBC4TCZPCC4cCZIIC4hCZbCC3yCZ-C
+C4GCZ4DC4MCZbEC3zCZRBC4DCZLCC4rCZxBC4aCZvBC4VCZgBC4ZCZRBC3-CZfCC39CZ5BC4hCZxDC4ECZaBC40CZ5BC4vCZBBC4
+kCZjBC4cCZtBC3OCaGBC4OCZxBC4KCaDBC4DCaIBC4JCaBBC3YCabBC4xCZ0BC4NCZtBC4GCZHFC3fCZMCC4CCaYBC4zCZXCC3mC
+aHCC3nCZ1BC3tCZeCC3eCZ6BC3fCaKBC4WCZuDC4XCZeBC4dCZmDC4WCZoGC3iCZkGC4xCZyBC41CZnBC4MCaMDC2OCZUCC2UCZR
+BC2KCZOBC2TCZgCC2ICZVBC2DCZKBC2YCZLDC2FCZZBC2DCZmBC2ICZGCC2QCZYBC2bCZXCC2ICZSBC2aCZsBC2dCYvBC2RCY2CC
+2GCY0EC18CZmCC2JCaDBC17CZREC2cCaCBC2OCZ0IC2wCZ_CC2lCYsBC2pCYsBC2zCY5CC2sCZECC2zCY-BC20CYzBC22CY8BC2i
+CZJBC2GCY8BC1-CY-DC28CaDFC1_CZgBC2KCZZBC1_CZbEC2QCZmBC2RCZuBC2MCZjBC2ICZwCC2LCZnEC2yCZDBC2oCYzBC2lCZ
+pBC21CZHHC2PCZNBC2PCZHCC2TCZDAABsC1VCZeBC1eCZcBC1jCZcBC1fCZiBC1jCZgDC1pCZbBC1oCZgBC1uCZdCC1cCZiBC1UC
+ZjBC1LCZzCC1jCZlBC1cCZ1CC1qCZkBC1vCZyOC10CZZBC11CZiCC1UCaFBC09CaIBC1BCaFBC1JCZqBC1SCakBC1vCaPDC1HCZm
+4C3cCYZBC3cCYhBC3gCYVCC3kCYNCC3gCYOBC3lCYUBC3mCYHBC3gCYJBC3hCYiBC3lCYfDC3jCYDBC3pCX-BC3lCYBCC3uCYuCC
+3uCYRBC3qCYVBC2yCYmBC2sCYpEC3cCYIBC3HCYYCC3PCYUBC3UCYZBC3QCYYBC3ZCYQBC3ZCYYBC3VCYQBC3WCYVBC3MCYZBC3T
+CYUBC3WCYlBC3NCYjBC3OCYSBC3cCYTHC3tCYNBC3aCY3PC3ICZcBC29CZNBC3BCZPBC29CZMGC3DCYeKC29CYcBC2_CY9BC26CY
+vBC25CY9BC29CY6CC3ACYyBC2-CYmBC24CYkAAB_C6BCZEIC54CYHBC5vCYGCC6KCYTBC6CCYjBC57CYTBC58CYcCC5hCYrGC50C
+YiDC55CYeBC5jCYUCC5lCYJBC6HCYDBC5rCYtCC5kCYiBC5yCYnIC5pCYYEC51CYXFC6QCZABC6MCY7BC6HCZIBC58CY1BC6LCYz
+BC6VCY4BC6FCY0DC6WCY9BC6FCY_BC6JCYpBC6UCYsCC53CY-DC5mCYLBC6SCZODC58CZEHC5_CX-AABnC5TCYjBC5KCYsCC5ICY
+dCC5HCYMBC5TCYKBC5ICYRBC5ICYVBC49CYVDC5QCYSBC5ZCYVXC43CYaBC4zCYTBC4zCYeNC4wCX-BC4wCYDBC42CYJBC4tCYGG
+C5WCYuGC4_CYFBC41CYBBC48CYLIC4cCYFCC5CCYFCC4hCX6CC4hCX8BC4gCX_BC4hCYDDC4mCYEBC4nCX8BC4rCX_BC4rCX7EC4
+ZCYDDC4cCX5HC5dCZlGC5MCZhDC5ACZbBC5XCZjOC5WCZmCC5vCZSDC5OCZ4CC5UCZWBC5eCZcCC4RCaiCC43CaBCC45CaIBC42C
+aJCC4wCaABC43CZxBC5lCZUFC5UCZRDC5TCZoCC4rCZ7BC4iCaCBC5QCZtBC5SCZ3BC5kCZQHC4wCaPCC4zCafBC4oCaRBC4oCas
+MC5tCZCBC5ICZ2BC5JCZuBC5wCZdJC5hCZZAACUC3iCbZBC3mCbsBC3hCbrCC3jCbyBC3gCbvBC3pCbmBC3SCbyBC3NCbqDC2-Cb
+eBC3PCb4PC3kCa1CC3DCa1HC3bCbrBC3aCbxBC3UCbtBC3NCbvCC3VCboBC3RCbeDC3DCbsEC3ICb2CC3HCb9BC25Cb1HDBICSHB
+DBJCRVBDA2CQ_BDAiCRpDDAECS-DDBmCSEBDAwCSeCDCQCSGDDCOCR5BDA0CRZCDAtCRYBDA7CRLIDB6CSABDAmCSXBDBoCRTBDA
+CCQ4BDAQCRXBDBMCRcEDAWCRvCDAFCRHBDArCR2BDAnCSTBC_5CR1BDAECSDDDBsCR7CDAiCR8BDBHCSPBDB3CRNBDA-CSWBDB_C
+RsCDCCCRbBDCICRvCDBECRbBDA8CRZBDBUCRSBDBeCRSBDA7CRcEDBJCRlCDBxCRuBDBSCRjBDAVCSxBDBNCRVBDAiCRIDDByCRl
+BDAsCSMBDBqCRsBDAlCRdCDAcCSpBDCECR8CDAKCRuCDCPCR-CDAHCSwCDBaCRpDDA_CR_CDBKCStBDBlCR5BDB-CRQNDAoCRLBD
+BRCSJCDAiCRhBDAaCRfBDBVCRrBDBPCRfBDBBCRRBDBMCRqBDBPCSOBDBqCSLDDAsCRuBDBLCSbBDBVCR3BDA9CRWBDBDCSWCDBL
+CRGBDBTCSlCDBfCR8CDBLCSkBDAACSbHDAVCSADDBcCSLBDA2CSDBDBYCRPBDAkCSjBDAfCSgBDAYCSWJDAwCStLC__CRtBDBhCR
+yBDBOCSACDCcCSFBDA8CSGCDA2CSPBDCLCRXBDBfCRjBDBLCRgCDANCSUBDAXCRGBDAvCSCBDAmCSFCDAdCRDPDBACRnBDBACRkB
+DA-CRnBDBFCRxBDBFCRlBDA-CRgBDA7CRnBDBCCR1BDA6CRhBDBDCRtBDA_CRuBDBFCRfBDBNCRyBDA2CRpBDBJCRsBDA_CRfDDA
+5CReBDBACRrBDA9CRvBDBBCRZCDA0CRkCDA6CRcBDA6CRpEDA_CRoBDBCCRoBDBKCR3HDA2CR1BDA4CRuBDAvCRlFDA_CRoFDA_C
+RjAACTDAeCQWDDAiCQkBDAYCQeBDAuCQljC_-CQLBDARCPdBC_1CPvBDAtCQ3CDAhCQJBDAoCPfFDAoCQPBDAcCQvDDASCQrBDAq
+CQHBDA0CQDBC_3CPUBC_wCPcBDA2CPbBDAFCP2BDARCQQBC_2CPiCDAlCP4DDAMCQEBC_gCPpDDAnCQZBDAGCQZBDA4CQcBDAkCQ
+aBDAICPYDDAWCQEBDA0CPrGDAhCQdDDAiCQ8BDAGCPmKDBeCQ2CDBqCQ1BDBlCRDkDCGCRBBDB4CRDBDBSCQQBDCFCQIBDBsCPuB
+DBMCP3BDBICQdCDB2CQJBDBeCQcBDBXCRECDB3CPiBDB9CQuBDBlCQRBDBPCQCEDBnCQKEDBwCP5BDCKCP_BDCICQcFDCACPxBDC
+VCP2BDCECQ4BDBmCQdBDBECPzBDB0CQZBDBHCPiBDB5CQYBDBuCQlBDBLCQzBDBSCQ5BDCUCQNBDChCPmCDBeCRLBDCaCQBBDBjC
+PiBDBcCQmFDBWCPmBDCTCPnBDBoCQGHDCtCRTCDCmCRXHDDQCQ9BDC9CRMCDDCCRgBDDGCRMBDCyCRgBDC6CPuCDCwCQ2BDCWCRF
+BDDNCRSBDCSCRvBDCTCReIDDDCQSCDDBCQQBDDICQEBDDMCQXGDCcCRaDDCzCRACDDJCQjBDC0CQeBDDRCRIBDDQCQuBDCvCRhBD
+CdCQ1BDCeCQkBDDFCQ1BDClCP-BDCiCQWGDC8CQOBDC9CQcJDCeCRvBDCzCRZBDCxCQrBDCrCRGBDCzCQIDDDPCPu-DDRCRpBDDR
+CTOBDC5CSKDDCtCTCBDDOCSmBDDDCS3BDChCSaBDC5CSRBDDCCRsBDDQCR9BDDBCScBDC8CS6CDCjCR6BDCjCSsBDCwCRmBDC-CR
+uBDC3CRtBDDHCSBBDCmCSSBDDLCSQCDCtCSJBDC5CSZBDC2CTKBDDHCSaCDC-CSuBDCsCStCDCmCS3BDDOCS9BDDJCRxBDC9CShB
+DCmCRxBDCyCSfZDC4CR_BDC0CSBBDCoCSECDC3CR6BDC9CR0CDCvCR2CDDACR8BDDACSGFDC6CR5IDCwCRtAABIDC7CR3FDB1CS_
+CDBzCTHBDB3CS5BDBsCTABDBpCSuBDBlCS2rDCJCSeBDCTCSpBDB1CSZBDBdCSnBDB5CSyCDB_CSpBDCECSkBDDMCTbBDCJCTfBD
+B9CTjBDCOCTHBDCOCS0BDCUCS_DDC_CTWBDCXCTWBDCgCTNDDCeCS9BDBvCSiBDCSCTlBDCUCS3BDCcCSxBDCSCSYCDCwCTTBDDD
+CTfBDCBCSRBDC4CTcCDCBCTPBDCkCTkCDCiCTIBDBnCSgBDCoCTMBDCsCTcBDB3CSZNC_UCRvCC-dCTSBC_oCRvCC_aCR_BC-ACS
+XBC-GCTLDC_GCS6DC-ZCTzBC-ICTkDC_aCSYCC_mCSPCC_qCS0BC_fCSWBC_2CSrBC-mCUKBC90CSSBC-6CS_BC-ZCRiBC_BCTPB
+C-oCR_BC-HCRrBC-CCStBC-TCSrBC-lCSoBC-RCR6BC9tCSHBC_FCTKBC-6CR1BC-hCSXBC-bCSKBC-7CSNDC-jCSSBC-xCSEBC-
+UCThBC-RCScCC_tCSIBC-6CS0BC-sCTvBC_XCSUDC_NCSwHC_GCSvCC_YCSOBC_cCSACC-yCSnCC-LCSQEC_OCTADC_fCS-BC-RC
+S4BC_vCScBC-fCTCBC-UCS8BC_PCTYFC_SCTUBC-4CTWCC_zCSEBC_lCSkBC_ZCSrIC_OCSaDC_QCSYBC-9CScBC_LCSeBC_OCSc
+BC_KCSQBC_PCSgBC_VCSeBC_KCSdBC_OCSUBC_OCSWBC_QCSfBC_RCSfBC_DCSiBC_OCSpNC_OCSaAABHDBNCTECDBGCTJCDBSCT
+NBDBVCTKBDBQCTVrDBYCTDBDAjCTGEDAeCTSBDARCTWCDA8CTUCDBHCS4CDBbCTtBDA7CT4BDBICTlBDBhCTOBDAvCTRBDAgCS9B
+DA9CS_BDBWCT2CDBaCS2BDBrCTgBDBDCT2BDAeCT4CDAZCTjBDBYCTKBDArCTnBDBjCTDBDAzCT1VC9SCTzCC9eCT1CC9YCTqFC-
+ACUHBC-ACTXBC9UCUEBC9WCTNBC9HCTOCC9WCTGBC-DCT1BC9VCS9BC9lCUNBC9JCT8BC9ZCT-BC9eCTSBC9vCSxHC9jCTGKC9KC
+TDDC9KCUQBC9OCTVBC9pCT9BC98CS-EC9nCTqBC9vCTBBC9eCTfBC90CT5HC9zCTeCC9nCTYIC9SCUMBC9lCTlCC94CUTBC99CTr
+BC9MCTmBC9dCUBZC9zCRZTC9WCSBBC9lCSFEC-QCRABC9TCRMGC9iCRQDC-bCQnBC-RCQSDC9uCQxCC9ICQ6BC9MCSUCC-GCQmBC
+9wCQnBC-TCQMFC-JCQCCC9YCSrBC9nCRABC9FCSVBC99CRlEC95CQ1HC9gCSeDC94CQbBC-DCQ9CC9kCQ9BC9vCR5BC9rCQ-BC9n
+CSBBC9NCSxDC9mCQUBC-RCQuBC-ECQUBC9JCR1TC9TCQjBC9UCQlCC8_CPvCC82CQKCC8JCPXCC7_CQKBC9ECPuBC9TCPxFC9zCP
+VDC9BCPdBC9MCPUBC8FCPdBC-UCPvBC85CPuBC8dCP-BC8mCP8BC74CPYBC9gCPUBC8JCQcCC8QCP-DC8GCQLDC-GCPiBC9nCPJB
+C9xCQQBC8QCPNBC77CQJBC9aCQlBC8PCPYBC91CP9CC75CQTBC90CPzBC8JCQnBC9dCQLBC8gCQJCC9bCPnCC8ICQHBC9ZCP0CC-
+CCPPBC8ZCP6BC9NCPrBC79CQbBC9ICQRCC8PCP5DC8eCQcBC8TCPVBC97CPnCC81CPlBC82CPqCC8SCQkBC8tCPVBC8UCQICC8qC
+QHBC9PCQFBC8QCQOBC9nCPuBC8UCPfBC9pCPcBC9YCPJBC9uCPoCC80CPNPC8mCPsBC8kCPrBC8kCPpBC8cCPnBC8jCPlBC8mCPl
+BC8kCPSBC8iCPgBC8qCPpBC8tCPoBC8rCPlBC8xCPdCC8fCPpCC8oCPnBC8qCPfBC8cCPchC8mCPoLC8qCPlZC8mCPdFC8fCPhCC
+8fCPUGC_aCROCC_TCRdRC-4CQxCC-wCQbBC-vCQ3DC-kCQ2BC-fCPtBC-5CQkEC_SCP7EC-wCQICC_SCQWCC_nCQABC-rCRTBC_W
+CQJCC_sCQYEC_DCQGBC_fCRjBC_3CRjBC-UCQaBC_GCR5BC-YCRJBC-4CQOCC_tCQ2CC_oCRfBC_QCQ3CC-vCRaCC_ECPyBC-0CP
+xBC_jCQgBC-kCRLBC_BCRABC-dCRTBC-nCQdEC_FCQtCC-7CRZBC_yCQKGC-yCP5BC--CQXBC-gCQBBC_ECRmBC_TCQkEC_yCRdC
+DAECRcBC_6CRTIC_uCT1DC_dCT5aC_dCTrCC_iCThRC_kCTrBC_3CTaBC-3CUUBC_0CUABC_4CTPBC_zCUJBDAPCT9BC_CCUcCC_
+ICT9CC_DCTyBDABCTHBDACCTuBDABCUCCC_kCThBC_hCTVBC_aCUaCC_SCUWBC_YCUQBC-4CUMDC_gCUIBC_ICULCC_hCUSCC_xC
+TmWC_SCPhDC-yCPWDC_UCPNBC-bCPYCC-_CPgCC_ACPRBC-kCPDCC-kCPMBC_ACPrDC-RCPUCC-iCPeBC_GCPhDC_TCPeAABVDFx
+CRJCDE_CS3BDE9CR5BDErCR5BDFWCRLBDE0CStCDETCSjBDD7CRxBDETCSPCDFrCSYBDFzCQGCDEzCQ1BDEaCStBDE4CRpBDF3CP
+_BDE8CQ5BDFTCS-BDFeCSaBDFtCRSBDEeCQcBDEUCRzBDFeCRHBDFPCQ6BDEaCSVDDFsCQzCDFxCQrBDFpCQ8DDEiCRyBDDzCRlB
+DFpCR9BDFwCR0BDFdCQVBDFWCQrBDFdCQrDDFACQoCDFiCS1BDFkCP8BDE2CTCBDEfCR5BDFUCQSBDE3CRGCDEsCRZCDFgCSKBDE
+vCRrCDE2CReDDFbCRtBDFjCRmBDFjCSpBDFaCR8BDFHCR-CDEuCQHBDFmCQTBDFZCRcCDFBCRIBDFuCS4CDEzCScBDE6CSABDFSC
+SdDDFECSaBDEFCRrEDE1CS8BDERCP9BDEiCQCBDErCQ1DDFACQVJDEVCTSFDFSCRyDDExCSlEDFKCSHFDEiCSXBDEkCSJBDExCSL
+BDEsCSYCDEpCSUCDE3CP1BDEwCR0CDEsCQhBDFQCR7CDEqCQTBDF1CRyBDFhCQhBDFECRRBDDzCR2BDFeCTABDFgCRRCDFyCSGBD
+ElCSlBDFuCTLBDFXCS0CDEgCSAHDECCSIFDFVCQkBDEwCTNBDE0CSDEDFdCQ1BDFvCRjCDEcCReBDFYCP7DDFYCQFBDElCRdBDES
+CR-BDFQCQhCDEHCSbBDFBCSpBDE-CP9BDF0CSiBDFGCRABDFoCR0BDFUCRlBDEmCS0BDFrCQfKDFJCRqCDFHCRpBDFDCRrBDFDCR
+hBDFKCRvBDFPCRqBDFKCRnBDFHCRYBDFHCRvBDE_CRwBDFFCRoBDFJCRrBDFJCR2BDFACRlBDFOCRvBDFDCR2BDFJCRcBDFJCRqB
+DE_CRpBDE-CRXHDFMCRoEDFGCRoGDFJCRq_DD-CTMBDDWCUaBDEACVACDECCTWBDDeCSlBDDkCVBBDD2CUdBDDyCU2BDDtCU5BDD
+eCUkBDDrCUpBDD6CTWCDDZCUXBDDUCU3BDDXCVUBDDmCS6DDEGCUbBDEGCUtBDDeCUuBDDsCS5BDDtCVEBDDYCVaBDD-CT1BDDYC
+SUBDD7CVSBDDwCSrBDD0CVKBDEQCUhBDDjCVcBDDlCR-BDDbCSQBDDzCUjBDEjCUrBDD_CUHBDD5CTdBDDWCToBDDqCUVBDD6CS9
+BDDlCUHCDDWCSkCDDaCTfBDDgCSNCDDTCT5BDDeCUCBDDwCSVBDDgCUdBDEHCVdBDEHCSwBDDrCTKBDEPCTACDDoCSQBDEACSfBD
+DdCU-BDDXCU8BDDgCUWCDD5CToBDD2CTJBDESCUFCDDpCVSBDD4CU6DDD9CUTBDDkCTaBDDjCTDBDDZCS8BDDpCT4CDDwCUJBDDb
+CTRBDEZCUoCDDpCTBCDD2CVpCDDvCTUBDD3CSkDDDdCVdDDEKCTGCDDUCTqBDDpCToBDDmCSqEDDZCT8BDDZCT_BDDXCUBBDDhCT
+2BDDbCUDBDDUCT_BDDXCT9BDDVCT6BDDUCT9BDDXCUFBDDUCUFDDDgCUABDDeCUMDDDZCTyCDDXCUNdDDZCT9AACXDFaCYoDDFWC
+YiKDFWCYjBDFgCYbBDFOCX9BDFsCYjBDFmCYzCDFvCY_UDFZCZLBDFMCYGBDFtCX_BDFdCY8CDFwCYGFDFBCYZGDFgCYJBDE6CYQ
+BDFSCY5BDFUCYVBDFtCYPDDFmCYXBDFrCYVBDFyCYPPDFxCZjBDFSCYKBDFWCYrBDFlCZaDDFkCYlBDFKCY-BDFvCZUCDFRCYQBD
+FdCZgBDFKCYqCDFeCYsHDEjCWBEDFPCV_DDFZCXEBDFJCWiBDFICVgBDFUCXfCDFACXXBDFPCVnBDFvCWEBDFCCVvDDE6CVVCDFF
+CWTBDEmCXQBDE1CUvBDFvCWdBDE4CW9BDFLCUvBDEtCXiCDFrCV9BDFxCWDBDFvCXjBDFZCVBBDFcCU6EDEgCV0BDEXCW0EDEYCV
+uBDE_CXyCDFUCX1DDEzCVMEDFyCWtBDEmCXaBDFGCV9BDFjCVLBDFWCVXBDFSCV1DDFCCW1CDFyCV0BDEmCVPBDE1CWmBDFxCXeB
+DFgCV5DDFOCVwBDFHCVABDEoCVgBDEjCVrCDEdCVcDDEmCV7CDFNCWYWDEXCV4CDEWCWCBDEjCWLCDFACWbBDFSCWRCDFICXgBDF
+KCXaBDFbCXPCDFKCXKBDFPCXCEDFLCXnBDFxCVrBDFBCWrBDE2CXQEDFiCWgBDEMCVFCDFMCV5BDE4CVCBDE1CVjKDE_CVbBDFrC
+VKCDE5CXfCDFCCVTBDEYCVQBDFjCVlBDFQCWgBDE9CV7CDFxCWVBDFYCVGBDEoCWJBDEtCU5DDFiCXqDDFQCXSBDFQCWxBDEeCWh
+BDEjCWsCDEpCWbBDFbCWQDDFrCXMBDFmCWRBDE9CWgBDFTCU8BDFtCX0BDEQCVSCDErCW0BDFHCW7BDEQCWCBDFnCWxBDEaCU-BD
+FgCXABDEQCWSDDEGCVyBDEeCWTBDE_CVDBDFZCWqCDFACXHBDFVCXWBDFwCVcKDE0CWIHDEzCV-DDE5CWCCDE2CWUBDE1CWKBDEz
+CWHBDE4CWJBDE-CWIBDEvCWABDEvCWOBDE2CWABDEqCV2BDExCV4BDE7CWTFDE0CWICDE2CVzBDEwCVsCDEsCVuEDFFCWG_DEmCN
+9BDDxCNGCDD9CNACDEZCODBDFICNgBDDsCOMDDEDCNFBDERCNxDDEMCM6BDDmCNABDDbCNLBDDiCM_BDEMCNNCDErCN6CDEDCMsB
+DE8CNmEDDmCNNBDDsCM6BDE3CNOEDEvCN1CDD1CNOBDEkCNkCDDaCN5BDEsCNcBDEVCNIBDDjCN-CDDqCOfCDDZCN0BDE_CNVCDD
+7CNWBDEmCN1CDDdCOUBDD1CMuBDD2CM1DDDZCNoBDECCM6BDFECN0BDDpCNZBDDbCOjCDEfCNNDDDcCNXBDDcCOIBDDuCNqBDECC
+NnBDEyCNzFDD6CN7BDDgCNdBDFZCNdCDFhCNdBDFNCNYXDDkCMiBDDhCMoBDDjCMkBDDeCMkBDDlCMmBDDmCMsBDDYCMZCDDfCMu
+BDDjCMqBDDeCMaBDDeCMpBDDZCM2BDDXCMnBDDgCMxBDDYCMvBDDcCM3BDDgCM3CDDkCMwDDDXCM9BDDhCMkBDDsCMlBDDqCMvDD
+DbCMpBDDbCMoBDDpCM9BDDlCM2BDDsCM3DDDcCM8BDDcCNBCDDWCM3LDDgCMuxDFECO7TDE3COtBDFQCPsBDFlCPgCDFfCO_BDFY
+COtBDFnCOuDDFOCOzBDFICOjBDFNCPFBDFcCNsBDFMCOICDE3CO2BDFKCPUBDFcCOdDDFRCNsBDFjCO1BDFXCPOJDFmCPMCDFXCO
+GBDFdCNpBDFQCOaBDFYCPkBDFmCOXBDE6COzBDFMCN6BDFeCN3BDFjCOBoDEPCObEDEaCOjFDDuCPHBDEACPmCDERCOyCDDvCOyB
+DE_COeBDE-CPWBDEzCPYCDE9CPlBDEoCO7FDDZCPUBDDqCPSBDEXCPbBDEKCPlBDE_COJCDD-CPFBDFFCP1BDD3CO1DDEiCOJBDE
+rCObBDDZCO9BDD8COsBDEsCPoBDE_CPTBDEnCOTBDE2CPFBDEQCO9CDEECO-BDErCOvDDEWCPIBDEJCO7DDEiCOiBDEACOXBDDZC
+PHBDEwCOkBDD5CPNCDDzCPSBDEdCOhBDEZCPlCDDaCPYBDEECOmBDDZCOyBDEGCPMBDFFCOSBDD7CPXBDD-CPSBDDiCPgCDEICPY
+BDDkCO1BDDhCPNDDDkCPFBDEiCPsBDD3COQBDE1COOFDErCPUBDEiCPRBDFCCOABDEoCPKBDELCONBDECCOJJDETCRSYDD-CPzYD
+DYCRlBDDoCQRBDECCRVBDDcCQFBDDgCRnBDEdCQxBDDaCRfBDD1CQ5BDDXCQ4CDDnCRoBDDeCREBDEQCQyBDEJCQeBDDbCQTBDDx
+CQpEDDiCQ3BDDbCQpCDDcCP3BDD6CRQBDDWCRDBDEICQ9BDDuCPuBDEoCQ_BDDaCRSBDDrCRTDDDXCQjBDEhCRFBDEACQzCDD4CQ
+GBDDlCQeBDEcCQ9BDDXCRzNDFPCTnCDFICTpBDFfCU2BDFJCTpBDFLCTxjDFuCT6BDFYCUIBDFbCUNBDFDCTbBDFPCTaCDFHCS3B
+DFJCTNBDFwCUNBDEhCTdBDFwCTrBDFOCTLBDFMCUcBDFRCUMBDEtCUdBDFhCUjCDE5CUpBDElCTpBDFOCTGCDFbCTaBDFNCS2BDF
+SCTRBDFSCUbCDFFCS_BDFkCTtBDFECTGBDFeCT7BDE9CUbBDEpCUPBDFpCUGBDFGCUFBDFvCTdCDFwCUhBDE2CUIBDEoCTlBDFUC
+T-BDEeCTeBDFCCTQBDEzCTxCDEZCTzCDEqCTfBDFlCTTBDFVCUUMDCgCNfCDDFCN-DDCOCMtEDCxCOJBDDGCNIDDCACLrDDCUCL3
+BDC4CMuBDCkCM6BDCICMwBDCdCMXBDCBCMbBDCTCMJCDCtCOcBDCkCL9BDCdCN0CDDHCONCDCUCLpBDDACMmBDCxCN5CDC9CNbCD
+DPCMjCDCPCL9CDDLCMXBDDLCNqBDB_CMOBDCeCL4BDCJCL4BDCNCMKBDDQCN2DDClCN-BDDJCMoBDChCOMCDDNCM6BDCRCNbDDCD
+CMyBDCuCNrCDDICNUCDC6COWBDDBCMHBDCqCMXBDCaCMvCDCrCMwCDCbCMLBDDRCMoBDDLCMvBDCNCNMBDDHCOXCDCzCMDBDCUCN
+WDDDQCMZDDDOCObCDCrCNbQDAqCLBCDA8CK_RDB7CLZBDAJCLdBDAmCLQBDAjCLACDBMCK-BDBXCLGEDBQCLYBDAYCK3BDBYCLfB
+DBWCLeDDBNCLyBDBiCL2BDBpCLzCDB1CLXEDAPCK_BDAJCLABDBsCLJCDAcCLQDDA5CLlCDAvCLuBDAlCLqCDAzCLSDDBfCLeBDA
+5CLFBDA3CL5BDBmCLfCDBcCLQBDARCLPCDB9CLXBDBtCL4BDBgCLGCDBWCL0BDBECK7BDBICLbBDBtCLbCDA2CLLCDBDCL1DDBnC
+LcUDCGCOjDDCMCOtRDBtCPEDDCkCOwCDCOCObBDCjCPYBDCaCOaBDCxCO6EDDDCPOBDDMCO4EDCnCPWBDBiCNwCDCTCOKCDCKCPK
+BDBgCPWCDDFCPJBDCZCPZBDBqCPUBDCeCOqBDB2COGBDBnCOPBDDECPaDDCQCO_BDCfCPCBDCMCO3BDB6CO7BDCkCPLBDBuCOkCD
+CBCOyBDCGCOJBDCACN3BDC_CO0BDCVCOsCDB9COmBDCUCOcBDB3CPOBDCRCN3CDCyCPXDDCFCPZCDBkCN5BDCECOpWDBYCM8MDB-
+CNmBDBjCNdBDB0CNlBDBfCNpBDBCCMqDDBkCMkBDBuCMaBDBpCNLBDAyCMpBDApCMSBDBLCNOCDB-CMlBDBjCMLBDBWCNYBDBBCM
+aKDBXCMlBDA8CMECDBBCM4BDBZCMGCDAyCMEBDBACMwBDB4CMzBDCCCNhBDBVCMUBDBtCNvBDBKCMHBDBoCMvBDA1CMSDDBvCMDE
+DBsCM0BDBjCMVBDB1CMJBDB7CMBBDB9CNRBDBoCMIBDA6CNEAABHDAgCL5BC_6CMRBC_nCL-BC_QCL5BC-8CMzCC-rCMrBC_6CM-
+BC_nCMpBC_VCMtEC_2CNZDC_4CLKCC_NCMFBC_ZCNwBC_KCMHBC-mCMFCDAVCLYBC-mCMyBDAYCMyDC_GCLrBDAXCNfCC-JCLACC
+_fCMICC-yCMaBC_PCNdEC-cCMVBDAFCMzDC-iCMcBC-YCL5DC-kCLcCC_yCLdCDANCNWCC_ICNoCC_iCNIBDAZCMcBC-WCK4BDAL
+CLrLDAcCNrCC_bCMaBC-eCNECC_0CK4BC-jCM6BDARCLwBC-eCNWBC_HCNKCC-PCNJBC93CKgUC-PCMmEC-WCLZBC_KCM9BDAACM
+pCC-uCMoBC-XCMnBC-nCLFCC-9CNRBC-tCNbBC-_CL8CC_fCLaBC_TCMXCC_6CLNBDAMCNBCC_mCLqEDASCL4BC-xCMkBC-XCNjB
+DAiCMPBC-zCMHDC_yCL5BC_QCMYBC-xCLqBDAqCNBBC_lCLWCC_4CMeBC_ACLPDC_WCLWGC_lCNkCC-MCL_BDAfCNBBC_ACMhBC_
+8CL0HC_FCMWBC_HCMXBC_HCMUBC_ECMQCC_NCMXCC_CCMfBC_QCMLBC_ICMWBC_NCMcBC_BCMOBC_PCMSDC_KCMYBC_GCMTBC-_C
+MYOC_KCMflC_GCMVDC-7CMOdC_ECO1EC_WCOnCC_KCOhCC_fCO5LC_gCOlCC96CO-BC_LCOUBC9-COqBC_gCOYBC_kCOuBC_VCOA
+BC_yCOqCC-7COaCC_GCOMDC_dCO_BC_GCNyBC_cCOMBC-zCN1BDAXCOLCDAVCO4BC_SCOvDC_ECOABDAJCOCBC-uCOSBC-nCOICC
+_4CN_CC_rCPACDAACOcBC-uCOyBC-1COICC_7CPDBC_hCNrBC-aCOlBDAMCO0BC9rCO6BC-yCOiBC_RCO_BC_lCOABC-iCOWBC-I
+COtiC9bCNxBC9lCNjEC9lCNqPC91CNEBC-kCNxBC9WCOVCC9LCOGBC8iCNKBC91CM5BC-FCNTBC9cCM-IC9-CN2CC-aCOMBC-JCN
+9DC-MCOEIC9VCOyBC85CO1DC9FCNdBC9HCOdDC91CNuCC9ZCOnBC9bCOGCC91COGBC9mCN5BC8VCNOEC8yCNTEC-CCM3BC9UCNjB
+C9rCOZBC-UCOIBC9JCM2BC96CNeBC-KCNsBC-bCN0BC9pCNSBC9cCMvSC8HCOCCC8PCN-EC8ICOJNC77CNcFC8GCNnEC8GCNQBC8
+ICOXBC8ICOPBC8SCOOCC8JCOUGC8MCOWNC8KCOvDC8MCNhEC8FCN7BC8nCN9BC8XCO_BC8LCO7BC8ICOjBC8dCOkCC8ECO4EC8KC
+NwBC75CNQBC8pCODBC8dCOBCC79CNmBC86CODEC8DCO_OC8BCO2GC99CL4cC9wCL6BC9yCLTBC9LCK3CC9hCKzCC9WCL7DC9bCLE
+DC9oCMWCC9dCMnCC9SCLZCC95CLhBC9WCMBEC9PCL5BC9yCLRBC96CMZCC9wCMvBC9ICL1EC90CK8BC9rCMLBC9_CMkBC9lCLlBC
+-ECMTBC9hCL3BC9QCMbBC-JCLZBC9TCKggDAzCO-BDA3CPNDDBHCPEZDBgCO3FDAuCN5BDA2COwBDBNCNqCDAkCO2BDBUCPQBDBM
+CObCDAuCOyBDBGCNuBDAqCNdBDBXCPHBDA2CNWDDBFCOIBDBSCODBDBACN9BDA8COxCDBJCOQBDBYCOmDDA4COdDDA5COgEDBHCP
+QBDA7CNfCDAsCOKCDBJCNwBDAqCNuBDBMCOtDDBbCOJlC9uCU8CC8qCVPCC8_CVFCC8vCU_EC9lCUhBC95CUqBC89CU2BC-WCVgB
+C8_CVrBC8wCVpEC9XCUZCC85CVVCC-HCUpBC9TCU8DC-SCU0BC9hCU7BC-PCVUDC8_CUnBC99CU1FC-CCUdDC-bCUXFC9DCUvCC9
+SCUdBC9yCVMEC98CVEBC-YCUjDC9kCVXHC-gCVNIC-MCVeBC-NCVCLC87CVfAABqDIcCUYBDHsCTtCDI8CT7BDIuCUcBDH3CUABD
+HMCUTBDIlCTuBDI1CULBDH3CULBDH6CTsBDIiCTxFDIlCUKBDH5CT1CDIPCT6BDIQCTyCDIeCTbBDIqCToFDIrCT0CDHSCUFDDIq
+CUhBDHeCTyDDHqCUVBDIaCTaEDJFCT5BDICCULBDIECTkCDHeCT0BDIuCUKBDHdCTiBDHYCTrDDIyCT7BDIfCTrBDImCUWBDIrCU
+LBDIkCTiBDHSCTtBDHjCUCBDHZCTwBDHVCT6CDIVCUHCDIXCT3BDInCT_BDHkCUHBDIvCUEBDIECT2EDI5CURBDILCUTBDIyCTwB
+DHvCUOaDIJCSXDDHlCTgBDH9CSnBDIGCTRBDH6CTbBDHrCR6EDHnCShCDH2CSsBDIKCTQBDHZCSBCDH5CS8TDHlCSbCDH1CSkBDH
+rCSGBDHoCSSBDHdCSZBDHwCSZEDH0CTYCDHYCSLDDH7CS5CDICCSSDDHtCS_BDIBCSQBDHnCS0DDH_CTWFDH9CSHBDH9CSMEDHuC
+SvBDH3CSVBDIACTABDHgCSOYDIZCTRBDIZCTPBDIYCTUBDIWCTYBDIaCTWBDIaCTaBDIWCTPBDISCTSBDIXCTNBDIYCTKBDIbCTM
+BDISCTUBDIPCTOBDITCTNBDITCTIBDIWCTSBDITCTaBDIOCTXBDIWCTeBDITCTRBDIaCTfBDIaCTmFDIOCTcBDIJCTaCDIUCTWKD
+IeCTiBDIcCThBDIYCTnCDIbCTvNDIPCTFODIICTHIDIZCTXLDINCTiIDIPCToLDHnCUzBDIhCWABDHwCWHBDIOCW8DDH6CWwGDH6
+CWlCDIZCVJEDHWCUbCDHrCUnEDIDCWZCDHgCWBBDH6CWPCDH6CVADDIBCUfEDH_CWaBDIQCU3BDIeCVxCDIeCWNBDIUCW5CDIHCW
+FCDI8CUpBDHzCVHBDIPCV1BDIGCWgBDIwCUvBDIRCWXBDIUCVrCDIzCUbHDInCVLBDIICWoBDH3CUnCDIVCWKCDHrCWdDDIfCU7B
+DHtCWUDDIBCU2CDHmCVzCDH6CWzDDHxCU8BDH9CVxLDG5CWCBDHVCVmBDHVCVjFDHBCVVKDHICVPDDHcCUvMDHDCWGDDHKCUsDDH
+WCUsCDG-CU2CDHfCVGBDG8CVrCDHICV7BDHKCU0IDG_CVgEDHDCVnBDHWCVXDDHVCUjEDHdCUeEDHlCWODDHoCViGDHICV4DDHQC
+U9CDHBCWODDHACU_NDIBCVQBDIBCVLBDIECVKBDIGCVSCDIFCVOBDIGCVNBDIACVaBDIHCVGBDIOCVSCDICCVDBDH-CVHBDH4CVX
+BDIHCVcBDH-CVPJDIDCVOKDIDCVNAABBDIXCUpAABkDGTCVvcDG1CVxFDGVCWCDDGdCVxDDGeCV8BDGpCV0DDGfCV1PDGJCV6EDF
+9CWHGDF-CVtCDGOCV8eDGOCXLCDGhCW6DDGRCXGBDGYCXoBDGdCXHCDGWCXIDDF_CWpCDGHCXNBDGdCW_CDGKCXMBDGICW4BDGIC
+XUDDGYCXlBDGLCW-CDGgCX7BDGgCWxBDGPCXVBDGICXGBDGGCXDBDGECXDJDGWCW6DDGRCXrBDGiCXCBDGGCWyCDGNCXUCDGSCXW
+FDGNCXABDGVCXvBDGACWvCDGdCW7EDGeCXyBDGBCW5CDGUCXPDDGlCW5CDGWCXVDDGJCW8BDGbCW1cDGOCWoBDGICWUDDGRCWMHD
+GWCWsBDGlCWrBDGRCWTGDGHCWKCDGUCWPEDGSCXjIDGYCWZEDGJCWcBDF0CWGBDGpCWZCDGYCWPDDGYCWSDDGSCWNEDGWCWUFDGJ
+CWoEDGsCWcCDGGCXCBDF2CWbHDG0CWpFDGACWbCDGdCWzCDG4CWzBDGVCWfBDG_CWbFDGPCWwHDGDCWSCDGRCWiEDJbCVYBDJKCW
+DBDI1CVZBDJACV3BDJlCU0BDJOCVdBDJZCVhBDJBCUKCDIyCVDBDJrCVLDDJqCVOBDJiCVQBDJtCVJBDJnCVIBDJlCVEMDJOCVFB
+DIpCViCDJNCVQBDJFCWKBDJICU_EDIpCWNBDJBCVfBDIpCWcBDJjCU_BDJMCVsBDI9CWDBDJICUaBDJHCUwCDJtCU6BDIbCWkCDJ
+dCVKBDJCCUyDDI1CWNBDI8CWWDDJkCVdEDJWCVNBDIzCV6HDJrCVQCDJuCVQBDJvCVSBDJsCVSBDJmCVUEDJpCUuDDJDCUcCDJnC
+VZBDJGCUoFDJbCU2BDJSCU7BDImCWtBDJYCVCBDJNCU1CDI-CVGBDI8CUdDDIwCYHBDIrCX_TDIsCX1DDICCXyFDIgCYGDDIaCX2
+DDIkCXJEDIzCX_CDI5CXWBDIcCXdBDIhCXmBDI0CXrCDIcCXuDDIKCXcKDIBCXmFDIdCXUCDI_CXaCDIfCX9BDI1CX-CDIFCXSDD
+JHCXjBDJBCXnEDI2CW_BDIPCXwBDIVCXxCDI3CX-GDI3CWsMDIGCX8CDHxCYaBDHtCYFKDHvCYOCDHlCX4DDH5CXsDDHoCXyCDHt
+CYRCDH-CXpEDIGCYFBDHrCYiBDH6CX_CDHsCX9EDHvCXpCDHuCX6KDHjCYbEDH1CYABDH4CX1BDHuCXwBDH3CX4DDHvCX9CDHxCY
+JBDHyCX8BDH4CYEBDHoCYACDH0CYcBDHrCX5DDHvCYADDHyCX3bDHkCWzJDHcCXLBDHWCWcDDHICWkDDHLCXPPDHtCW_HDHQCXJJ
+DHFCXGDDG-CWpBDHvCXCIDHsCWnEDHBCWiBDHjCWlBDHaCXOBDHGCXNSDHeCXFBDHMCWUEDHFCW-HDHfCWiLDHsCXHNDH_CXREDH
+1CW6nDHdCXpBDHlCXbHDH6CXLdDHPCYUCDHeCYsJDG1CYYBDG_CYmBDHfCYoDDGvCYMCDHWCYoDDG8CYgCDHHCYxCDHHCYVBDHbC
+YrBDHTCY6DDHYCYxDDG4CYWBDHXCYsCDGyCYLBDG6CYNBDHOCYoBDHDCYmDDHTCYsBDHYCY3DDHSCY_BDHBCYvFDHMCY4BDHHCYm
+BDHSCYuCDHNCYfBDHSCYzBDHCCYhBDHDCYOCDHECYZBDGyCYSBDHYCYjCDHFCY1BDHVCYrBDHOCZEDDHbCYcBDG7CYIdDHZCYABD
+HnCX9BDHVCYCBDHDCYGBDHUCYJBDG-CX_BDHbCXyFDG_CYADDHSCYDBDHVCXwDDHMCX_CDHbCX_BDHPCX3IDHJCXvBDHLCYHBDHU
+CXpDDHMCYJBDHECX_EDHLCXsCDHXCYHBDHHCX0CDHRCX4CDHHCX_CDHVCX6BDG-CYEBDHLCX8CDHeCX8CDHPCX-EDHXCYNBDHFCY
+JDDHVCYGDDHICX3BDG7CYDCDG9CYBgDG6CXSLDHBCXWBDGzCXIBDGsCWxFDG6CXLCDG8CWzBDHFCXaBDG2CXFCDG8CXhCDHCCXIC
+DG3CXOCDGlCXcEDGeCXaEDG8CXXBDHACXfFDG-CW5BDGxCXbDDGyCW5CDGyCXXDDG6CXDFDGzCXhBDGvCXbCDGxCWyBDGhCXYBDG
+oCXLCDGuCW3GDHFCXjBDG2CXlBDGrCXVBDGmCXCBDGvCXFBDGhCXNBDG3CXEaDGrCXkGDGuCYFCDG1CX-DDGrCX4CDHBCXwCDGbC
+XZCDGiCXjBDG8CXmCDGvCXwBDGzCYBBDGvCXsCDG5CX5DDHDCXpBDGtCXoBDGfCXlBDG1CXoBDGyCYFBDG2CXuBDGpCX8BDGwCX8
+BDHHCXvBDGwCYADDG4CXyBDG7CXxBDGqCXuCDGwCXnBDGoCXqBDGtCX_GDGtCX6DDGqCXzBDHDCX7CDHDCX2BDG-CX7AACLDGfCO
+pCDGcCO2RDF9CPTBDGJCONBDGqCOSBDGPCONBDGkCOHBDGOCPPCDGUCOwBDG0CPOBDGdCPKCDF9CONBDGCCOBDDGTCOcBDF_CPZB
+DGsCPeBDGhCPtBDGHCOdBDF1CO-BDFvCOYDDGYCPWBDGjCPVCDG5CPIBDGDCPSBDFsCPQBDFuCN5BDGOCOwCDGnCOYBDGACPFBDG
+kCPfBDGnCONCDGiCPBCDGZCOdBDGQCOjDDG-CPmCDGBCOwDDGUCOkCDF2CPUFDFxCPlCDG4CPTBDFuCO2CDG0CPJBDGUCO-BDGsC
+PTCDFxCOgBDGkCOjBDGZCONBDF2COlNDGiCSKCDGZCSYBDGQCSLQDF8CScCDGOCSVBDGKCS4BDGOCTbDDGoCS_CDGbCThBDGVCTN
+BDGLCTBCDGBCS8BDGBCSAGDF6CTJBDGWCTCKDF6CTmCDF9CSzBDGgCTTCDGOCSzBDGGCTKCDGcCSfBDGnCSvDDGkCSrBDGFCSmCD
+GPCTTBDGACTZDDGOCR_BDGgCSnfDF8CRkCDF-CRLCDGRCRuBDG5CSdDDGxCSZBDGKCQBDDGpCTWBDGbCQQCDGhCQlDDGTCRBDDF4
+CQlJDGOCQSCDGACRCCDF_CQXEDGQCQmMDGzCSGCDF6CQUCDGdCRZDDGzCSoCDGyCR3BDF9CQnDDGCCRUBDGCCQwHDGwCRiBDGXCR
+8BDGzCSLBDGOCRgEDGYCRKFDG2CSaBDGBCQ5PDHmCQ7CDHoCRPRDG9CRhBDGuCRPBDHaCQtBDGtCRRBDGqCRTBDG8CQ5BDG0CRTB
+DHWCQ2BDHHCRPCDG7CRICDG1CRLBDHCCRsEDGwCRZBDHTCRpBDGoCRYEDHdCRzBDG3CQ0BDGqCRACDHQCRfBDHvCRrBDHHCR0BDH
+KCRBBDH2CRhBDHPCRLCDHCCRbBDHyCRVBDHhCQ0FDHPCRxFDHkCRaBDG0CREBDHjCRtBDG-CRVBDHJCRuBDHPCQ3BDHFCQ4CDG9C
+RGCDHaCRLCDHdCRhaDHMCQACDHjCQPCDGuCQPBDHSCQPBDG4CQhBDGwCPvCDHICQmHDHsCQgLDG-CQkFDHGCQcBDHdCP4DDG0CQl
+BDHACQSBDGuCQkCDHcCQTBDGpCP-FDHDCQGBDH0CQtBDHgCQeBDGsCQZCDHWCQfBDHPCQhCDHxCQpBDHVCPuCDHsCP7BDHmCQFBD
+HLCP9BDGuCQwlDGiCVTCDGsCVMNDGyCUyCDGTCVABDGYCVKJDGuCUaFDGjCVFGDG7CUhCDHBCUvDDGfCUuJDGuCU6MDGqCUlBDG4
+CUyBDG3CVEjDGBCUQBDGGCUbaDGTCUOCDGCCVQCDGICUtBDGRCVWBDF8CVYDDF7CVREDGiCUYFDF8CVBCDF3CVWEDGGCVTwDHiCT
+ILDHUCSoBDHCCTFCDGWCTzBDHNCTYBDGGCT1BDHDCT2DDHGCSGBDG4CTUCDHgCSxCDHGCSpCDGoCT_BDG7CSuDDHZCSuBDG-CUJH
+DHXCS9BDGaCUCBDGkCTtBDGzCTnDDGxCTTCDHVCTXBDGuCTEEDG0CUMBDHMCSZDDHFCTSBDHBCUIBDGLCTpDDHKCSRCDHHCTeBDG
+7CS_LDHPCS_GDG-CTcCDHJCS_EDHRCS1AADVDLRCYLBDLOCXTBDLxCXnBDLKCX4BDLkCYtBDL2CY5BDLpCW8BDLBCYYBDLZCWkBD
+LICWmBDLmCYECDLfCYDBDL3CYvBDLmCXeBDLSCXVBDLUCXXBDLDCYEBDL6CYNCDLdCXwBDLrCYmBDLQCYTCDLFCYUBDLKCXSBDLh
+CYUBDLwCYqBDLSCW4BDLFCYfBDLYCYGBDLpCXoBDLECYMCDLbCXkBDLrCXKBDLkCYoDDLiCXAEDLNCWtBDLZCW2BDK-CYSBDLdCW
+kDDLtCYXEDLPCX4BDLTCYiBDLJCYnEDLeCWrBDLlCXQBDLJCYDCDLSCXHBDLaCXbBDLwCXTBDLqCW0BDLECX6CDLeCWEBDLaCYkB
+DLUCWFCDLjCXzCDK-CYhBDLWCXCBDLUCWWCDLgCYdBDLTCXvBDLYCXvCDLXCWsBDLSCXjQDKSCX9BDKkCX8BDKtCXqCDK7CYLBDK
+kCW6BDKpCYfCDLACX1BDK3CX4BDKWCYwBDKzCYCBDKfCXoCDKVCXTBDKxCXeBDKxCXPCDLCCXPEDK7CXYCDK4CXvBDK1CXTBDKUC
+YoBDKmCWpCDKqCYLFDKTCYBBDK0CX2BDK1CXlBDKYCYfCDK8CW5CDKfCWpBDKrCXHBDKZCY0BDKcCXKBDKxCXWBDK-CX-BDK2CYW
+BDKaCYOBDKyCYfBDKtCW0BDKLCYKBDKuCWsBDKgCX1BDKjCYSBDKbCX6BDK4CYRBDKRCYlCDKZCW4CDLDCXFCDKeCXYlDLHCXkBD
+LKCXjBDLFCXnBDLECXcBDLECXoBDLCCXnBDK-CXoCDLDCXrBDLJCXiBDLJCXnBDLHCXgBDLFCXyBDLNCXiBDLFCXjCDK2CXrBDLK
+CXsBDLJCXsBDLNCXdBDLKCXcBDLECXgBDLBCXhBDLMCXoDDLCCXvBDLECXXBDLRCXmBDLMCXxBDLQCXqBDLACXxDDLQCXcFDLXCX
+m-DMECXXIDL9CWWBDLsCWYDDMJCXoBDL4CXxBDMnCW-BDL4CYEBDLnCWJBDLmCWqBDMDCXuBDL2CX1BDL9CXPBDMRCXLBDL0CWTB
+DMLCX1BDMICWnEDMZCW6BDL8CWIBDMDCW_BDLzCWIBDLwCX4CDLkCWqBDMMCXJBDMACX8CDL9CWyBDMECXEBDL3CXSBDLnCWABDL
+zCXCBDL7CWpBDMCCWPBDL4CWiBDL2CWLCDLwCYCBDMbCXFFDL1CXgBDLhCWZBDLxCWuBDMfCW3BDLpCWkqDNVCWjBDNSCWkDDNOC
+W4BDNICXLBDNlCXACDNLCXoCDNrCXEBDNFCWiBDNZCWmCDNcCXJEDNQCXZKDNgCW-BDNTCXCBDNkCXLBDNeCXwBDNxCW4BDNNCXF
+BDNzCX1BDNFCWoBDNoCYBBDNgCXgBDNgCX7CDNXCXOBDNaCW1CDNkCXFBDNvCX3BDNlCW5CDNhCXWBDNUCWzBDNMCWmBDNfCXpED
+NtCX1BDNHCW5BDNhCXPCDNoCWsCDNICWcBDNfCWxBDNWCXsBDNlCWyBDNJCWxBDNECWzBDNoCXBBDNaCXAgDNvCVSBDNhCViCDNy
+CWRBDNgCU3BDNbCVIEDNaCWFBDNGCWSBDNKCVcDDNnCV_BDNBCWIBDNXCU3BDNoCU0BDNWCVXBDNSCVABDNuCViBDNWCWRBDNOCW
+ABDNDCV8BDNbCWeBDNLCU3BDNFCVwBDNrCWZBDM_CWWBDNNCVjBDNsCVOBDNZCWEBDNxCV4BDNPCWHBDNLCV-BDNLCVBBDNlCWfD
+DNxCWGBDNKCWRBDNlCWXBDNpCU_CDNTCVzCDNdCWMBDM_CVvBDNRCVLCDNgCWqCDNhCVqBDNuCVIBDNYCVmBDNKCVIBDNdCVZBDN
+nCWMCDNyCWaFDNWCWaBDNdCWYBDNmCVwCDNPCWVBDNnCVUBDNfCWThDNtCWuBDNtCWxBDNvCWnBDNtCWoBDNwCWvBDNrCWqBDNwC
+WsBDNyCWzBDN0CWtBDNzCWoBDNoCWlBDNtCWhBDNuCW7BDNuCWbCDNoCW1BDNvCWtDDNyCWjAABODLECZIKDK4CZyCDLHCabDDK3
+CarBDKzCZ1BDLKCasBDLICajBDK0CZUBDLDCYuBDLACZ4BDLECZ2BDKsCZ6BDLMCZwCDK8CZcBDKUCZSCDKkCY_BDKtCZCBDK4CZ
+qBDLBCZ2BDK8CZRBDK6CY9BDLOCaUCDK6CY6BDK-CYrBDLDCYyGDLFCY2BDK6CagBDKpCYoBDLYCZ0BDLICZ5EDKvCaUBDLNCaBB
+DKpCZcCDKjCZNBDLOCalBDK9CY1BDKnCY5BDLLCZiCDKrCY2CDKfCYvBDLJCZbBDLMCaADDK4CZNBDK9CZ3BDLGCaOEDK3CY-BDL
+JCaHBDK2CaBBDK_CaACDKiCYzBDK0CYsDDKrCaQBDKYCZcBDK1CaLDDK8CY_CDKvCaiJDLRCZXCDL1CZiBDLvCZLGDLbCZOBDLiC
+ZUJDLWCZIBDLaCY4CDLsCZgGDLOCY6CDLjCZyEDLdCZkBDLmCZ8DDLwCZwCDLWCZHBDLrCY2BDLpCZDBDLiCZj4DLeCa5BDK8Cax
+BDL3CavCDLTCa9BDLJCa_BDLhCaqBDL7Ca5BDLPCa_BDLtCa9CDLRCbBBDLjCbQBDKyCaxBDKvCazCDLeCbBDDMMCbVFDL1Ca6BD
+L7CbSCDLJCa4CDMACbEBDKnCa5BDL9CbFBDLCCa2BDLQCbBBDLUCbGDDLmCbNBDLZCbABDLLCa9CDK6Ca7BDLdCbHBDL0CbDBDMH
+Ca7BDKlCavBDLECbBBDLjCbCCDLSCa0BDLTCarBDLxCbNBDLrCbKIDL8CbRBDMLCa3BDLZCbKBDL4CbODDLLCaxBDMHCbMDDLYCb
+JBDLSCavBDLbCaQBDLaCa3CDLuCa2BDLXCahEDLaCatCDLWCaYCDLYCafBDLuCatCDLwCaiNDNRCYuCDNqCbVBDOCCbBGDN5Ca7B
+DNZCZHBDNeCZGFDNRCZWEDNYCaeBDNZCaEBDNSCaPBDNmCaZCDNhCaMCDNKCZOCDOGCbWCDNvCbNDDNRCY6EDNSCZGBDNhCaDBDN
+6CaxDDNHCZEBDN2CaPBDNiCakBDN1CbGBDOBCbQBDNHCYpBDNFCY7CDNaCY3BDNXCYyBDNbCY_BDNXCY7BDNLCZ6BDN4CamDDNwC
+aLCDNZCapCDNoCapBDNZCaVCDNLCZ2BDOHCbMCDNVCZQCDNbCaMCDNJCYwCDNhCa_BDNyCaXDDNRCamBDN4CaeBDN4CbXCDNvCa2
+BDNoCa5BDNwCamBDNMCaACDNTCYiBDM9CYxCDNoCZ9BDNiCbTBDNpCaGBDNtCaAEDNjCauCDNdCZpBDNcCZiBDNgCZsBDNcCZtBD
+NZCZtBDNfCZvBDNdCZcBDNiCZvBDNYCZmBDNlCZzBDNaCZdBDNiCZzBDNcCZmBDNgCZoBDNdCZpBDNbCZXBDNlCZ3BDNeCZ0BDNn
+CZ1BDNbCZyBDNhCZ3BDNbCZ5BDNoCZ4BDNeCZ9BDNVCZvBDNYCZXBDNbCZrBDNYCZ2BDNTCZiBDNSCZdBDNSCZrBDNpCZ6BDNMCZ
+iBDNSCZmBDNWCZZBDNLCZbBDNVCZ0BDNRCZQBDNSCaABDNdCZPBDNKCZuBDNUCZZBDNjCZ9BDNYCZiBDNZCZPBDNSCZ3BDNMCZoC
+DNLCZX0DMvCaaBDNMCaKBDMuCZtJDNECZZCDMnCZIBDMzCZSBDMnCZyBDMnCZREDM6CZ9CDM9CZ3BDM-CaAGDMoCZnBDNKCalBDM
+lCZ-BDNFCZiBDNNCadBDMvCY8BDNFCZ_EDM5CaKBDNECaJCDM7CaKHDMuCaBBDMvCZPCDM8CZFBDMxCZHBDNJCaVBDM6CZWEDMwC
+aKCDM6CaACDNDCZ2CDM9CaYEDMoCZfCDM1CaaBDMvCZUBDM2CZjBDM2CY9BDMmCZYCDM1CaCCDNECZPBDMyCZiEDM8CamBDNDCZs
+BDMmCY-BDNECakNDMwCZ4BDM1CZ2BDM2CZ2BDM1CZ5BDM0CZ-BDMwCZ8BDMzCZ1BDM0CZ4CDM3CZ6BDMyCZ4BDMtCaABDM5CZzBD
+MwCZ0FDMrCZ3BDMzCZyBDM2CZrEDM0CZ5IDM8CZtAABEDMvCayBDNUCa7BDNECbWBDNMCbYBDM0CbVBDMtCbDCDMgCbLCDNPCbHB
+DMxCamBDM1CaqBDMcCbZCDMVCbKCDNXCbOBDNLCbUCDM9CbNDDMTCa2BDNMCbWBDM9CbWCDMPCawBDNXCbVBDM2CavBDNECa1BDM
+cCbFBDMTCbFEDMyCbaBDM8CbHBDNECbbBDNZCawBDM6Ca_BDMUCbZBDMpCbZBDMkCbVBDM-CauBDMdCbSBDM_CbFDDMpCaqBDNZC
+a-BDM0Ca5BDMnCbOCDMkCbZBDMVCbTFDMiCa5KDNKCavBDMxCbVCDNFCbOIDM-Ca2CDNGCa-BDNECbFBDNECa7FDMiCbDBDNRCaw
+CDMaCa3JDM0CbQBDM2CbPBDM4CbPBDM5CbSBDM1CbRBDMzCbOCDM3CbKBDM4CbNBDMzCbKBDMvCbNCDMsCbTBDM2CbEoDM3CbPuD
+MkCafFDMRCZcBDMOCapBDMKCZxBDMjCatBDMACZcBDMFCZBBDMHCZ8BDMPCZvBDMhCZxBDMBCakDDMVCZoBDMjCaxBDMDCaVBDLz
+CaPBDL_CZ8CDMGCZqBDMPCaqBDMNCaFBDMKCZYBDL-CY5BDLrCZ_BDMlCaECDMoCaNBDMHCZOBDMcCaoDDL4CZFBDMJCY7BDL1Ca
+XBDMrCadBDMeCaTCDMICaNBDMNCaaBDMjCZkBDMZCZ6BDMXCZ0EDMGCawBDMiCaLBDL0CaHBDL-CZVCDMBCaLBDMSCajCDMNCZmB
+DMGCZfBDMDCY8BDMPCZ0BDL2CZ_CDMcCatBDMcCZsBDMbCZfCDMXCadBDMUCaZBDMJCaHBDMkCapDDL6CaTBDMNCZFBDMfCZWBDM
+ACaICDMECZ2BDL6CZqBDLwCaEBDLsCaLCDMoCaCCDL-CZlBDMMCaSBDMJCZqBDMFCZnBDMZCZKCDLmCaZCDL0CabCDMFCaDCDLlC
+aPDDMYCaGBDMZCaGBDMYCaKBDMbCaLBDMTCaCBDMUCaJBDMaCaABDMcCaFBDMXCaBEDMcCaIEDMdCZ_CDMiCaBBDMhCaMJDMVCaR
+AABIDMxCW6CDM3CWuBDMfCYoCDMyCXyCDM5CXHCDNFCXzCDMECYTBDNMCYZBDNFCXMCDNACWtBDMsCXlCDMaCXnCDMACYgCDNSCX
+3BDMnCXqBDNECYYBDMaCX8BDNDCXyCDM9CW8DDMPCX4DDNECXeBDMuCYZBDMVCYuBDNSCYRBDMXCY3BDNFCXFBDMJCYyBDMNCYfB
+DMrCXKCDNMCYLBDNDCYBCDMZCXXBDMwCYEBDM3CYhCDMyCXGBDMmCXxBDM3CYPBDMXCXyBDNCCYOCDMuCYnCDNECXVDDMLCYoBDM
+rCYDBDMkCY0BDM7CXmDDNWCYBEDMpCYjBDMhCYHDDMnCYUCDMvCYyBDMfCXwBDMnCXWBDM4CXTEDMkCX5CDNFCYiBDM1CYBLDMUC
+YVBDMUCYVBDMWCYTBDMKCYLBDMWCYZBDMUCYPBDMRCYUAABeDJyCU5BDJ4CU0BDKfCUxCDKZCVjGDKPCVOCDKNCU_BDKFCVJBDKJ
+CVIPDJ-CU0CDKWCV_BDJ2CU0BDKICVnCDKQCVqDDKFCVoBDKHCVhBDJ5CU6BDKcCVWCDKUCVXGDKQCVbBDJuCU-BDJyCUyBDKHCU
+xBDKQCV3BDKSCVNBDKVCU2GDKUCVICDKdCVDBDKJCVrBDKbCVqBDKVCVQBDKZCV8BDKGCVXBDKfCVIfDJGCWbBDJmCVsBDJtCVyC
+DJLCWnBDJfCV6BDKBCWCEDJ4CVjBDJPCVyBDKMCWBCDJRCWdDDJ1CWIBDJYCWABDJTCV3BDJXCWJBDJ7CVzBDKHCW9HDJbCWABDJ
+PCWDBDKGCWoBDJ0CWrCDKHCWuFDJ9CVnCDJ5CWUCDJGCWmCDKDCWUBDJ5CViBDKBCWLCDJ1CVpCDKHCV0BDJWCVtBDJqCWIBDJoC
+WZBDJRCVrBDJfCVpBDJ2CV4BDKGCWfBDJwCVyCDJ_CV5CDKbCWVCDKUCWfBDJOCWVBDJVCWXBDKXCWjCDJlCWUBDJrCW9CDJ0CVh
+CDJsCV9BDKSCWQZDJvCVOBDJvCVLBDJtCVGBDJvCVGBDJxCVQBDJyCVRBDJyCVVBDJzCVVCDJ0CVEBDJ0CVTBDJ2CVWBDJwCVLBD
+J8CVSBDJ4CVQBDJ1CVOBDJ_CVMBDJxCVNBDJzCVMDDJ1CVJBDJ4CVLBDJyCVIBDJvCVWBDJzCVZCDJzCVPBDJrCVZBDJ9CVLBDJ3
+CVMBDJwCU9DDJ5CVYBDJ3CVTBDJvCVDBDJ4CVGBDKBCVLBDKACVYBDJ8CVdBDJ3CVeBDJvCVfBDJqCVkBDKBCVSBDJ6CU-BDJ0CU
+-BDKACVfCDJ_CVEBDJ_CVBDDJqCVfMDJyCVOiDKrCV-BDLxCVrBDLdCU-BDLGCVLBDKkCV3BDL2CVtBDKeCWcBDLVCVSBDK4CVXB
+DLrCVABDKjCU-BDLNCV3CDKuCWWBDK6CVeBDK0CWRBDLaCV-BDLVCVdBDLACWGBDKvCU8BDK7CU7BDK-CVfBDK5CWHBDK2CWABDK
+pCVVBDLWCV3BDKjCVYBDLUCVOCDKlCVLBDLSCU_BDLICUyBDLhCVfBDL0CV7BDKkCWaBDL0CVmBDLGCVWBDK5CVKBDLJCVeBDLtC
+V7BDK7CV-BDKjCVkCDLDCV_BDKuCVYBDLGCU5BDK9CU0BDLpCU-BDLHCWGBDLoCVHBDLqCVOBDLNCU2BDLlCV8BDK_CVYCDLYCVp
+CDLHCVPBDLNCVdBDLpCV3BDLECVXBDLlCVBBDLgCVYCDLkCVwDDK4CWjBDLDCWpBDKhCV9BDLCCVvBDLJCWQBDLLCVsEDK-CVqBD
+K-CVPCDLgCVNBDKtCVMBDK-CVDBDLECVfBDKsCWLBDKnCWJCDK0CWLBDLpCVQBDLOCV9BDLeCU0MDKwCVrBDKwCVxBDKzCVxBDKz
+CVqBDKzCVoDDKsCVtBDKvCVwEDK4CVrBDK4CVmBDK1CVmBDKtCVkCDKrCVvBDKsCVzDDKwCVtBDK5CV2CDK0CVhCDKuCVmBDKoCV
+wBDKsCV4BDKwCV4BDKuCV3BDK2CV7BDKsCV9BDKyCV6EDKqCVpBDKnCV2JDKmCVoJDKgCVwBDKlCVvKDKuCVugDLBCWTBDLICWKB
+DLFCWXBDLDCWOBDK-CWYBDK_CWQAABfDKDCXoLDJ5CXIBDJnCXzBDJdCYsCDJKCXHBDKACXUBDJZCWmBDIuCYbBDJgCY5BDJvCYL
+BDKHCYXBDJACYtBDJ1CXBEDKLCXRBDJCCX2BDJGCXbBDJSCYuDDJ2CYXCDI6CX2CDI4CYFCDJmCYGCDJpCXfCDKRCX1BDI5CYTBD
+JsCXEBDKCCX_BDJcCXjCDJKCW6BDKBCYYBDJTCXcBDJZCX2BDKJCYiCDJYCYNBDJUCXMBDJMCYfBDJBCYIBDJjCXABDJpCXZBDJP
+CXtBDJKCXZGDIyCYkCDJhCXLBDJ6CYFBDJ4CX3BDJYCYiDDJQCX8BDI9CYiBDJiCWrBDIvCYRBDKCCXKBDJRCYDCDJBCXRBDJdCY
+aBDJlCYjCDJJCYSCDJzCXiCDJwCYSBDJRCWvBDJKCX6BDJ0CYjBDI8CYbBDJdCWhBDKBCYgBDJXCXnCDKDCZBJDJ4CYzBDKPCZPD
+DKECZvBDKhCZtBDKSCY2DDKMCY7BDJtCZQBDKdCZyCDJ7CZaBDKKCZcDDKlCZ8CDKOCZwDDKYCZCCDKkCaYBDJ9CZQEDJ3CZhBDK
+UCZABDJsCYvBDKBCZjBDJsCZZBDKbCZ7BDKhCaLBDKgCZ_EDKPCaBKDJmCY7BDKPCZADDKQCYxCDKECYuBDKaCaeBDKOCaSBDJvC
+ZDBDJjCZbBDJjCZSBDJzCZaBDKQCaRCDJtCY4BDJ2CZGCDKHCZTBDJkCZLBDKJCY7CDKVCZABDJ2CZYBDKLCZoCDKWCZqCDKXCaG
+BDKbCaSMDMVCV9DDMPCV6BDMRCVwBDMLCVzBDMZCVvBDMbCWDBDMcCVtBDMWCWTCDMMCWTBDM_CU3BDMiCWoBDM8CWGBDMsCWVBD
+MgCWMCDMGCVmBDMbCV4BDNDCVIBDMACVEEDL0CVPBDMsCViBDL4CU8CDMjCV2BDM3CVnBDMlCU3BDMbCVdCDMTCWeBDMXCWkCDMS
+CVQCDMvCWjBDMgCWbCDMXCWtBDMjCVjBDLpCVaBDLxCU1CDMuCV4BDMtCVTBDMOCWIBDMvCVECDMrCVsBDMUCWFBDM1CVGBDM3CW
+ACDM3CWUBDMNCWVBDLwCVMBDM1CVVBDMLCVMBDMjCVTBDM2CVyBDLvCVbBDL5CVJBDMiCWuBDMpCWPBDL2CVZBDMACWFBDL5CVjB
+DM_CWgBDM4CVZBDMXCU8BDMuCV6BDMlCVeBDMoCWHCDM5CVIBDMzCU2BDMnCWWBDMMCU8BDLwCVCBDL_CV4BDMBCVZBDMsCVCBDM
+PCVbBDMECV3BDM7CWkBDMqCWzBDMfCVGCDMgCVxBDMUCVRBDMACVxBDMFCWGBDMcCWiBDMRCU1BDMYCUzAABmDLhCTaKDLVCTQBD
+LXCTeBDLNCTXDDLSCTYBDLPCTfNDLZCS2BDLcCS3BDLFCSmBDLGCSvBDLWCSzBDLbCR0BDLmCTJBDLECS-BDLFCS2BDLtCSZBDLB
+CTJBDLmCSHDDLdCTNBDLlCSpCDLkCS9BDLDCTLBDLmCSiBDLdCSVBDLOCTIBDLMCSKDDK9CTCBDLFCTfBDLqCSSBDLsCR3CDLOCS
+_CDLOCSyBDLjCTUBDLGCTSBDLyCR7DDLuCStBDLWCShBDLrCTaBDLTCR7BDLlCSxCDLMCSnBDLKCSXBDLtCS9BDLGCScZDLICR6B
+DKpCR7BDKmCTgBDKwCRnBDKXCSjBDKsCSvDDKbCTBBDKaCSTBDK6CSSBDKkCSaCDKuCTjCDK1CTeBDKmCSDCDKXCRpBDKoCR0BDK
+xCSBBDKwCSQBDKJCS9BDKYCR4BDKiCTEBDKsCT8BDKmCRuCDKnCTIBDKTCS0CDKgCT9CDKlCRfFDK0CTPCDKiCSmBDKgCStBDKnC
+TbCDKeCTjBDLFCR6BDKyCTsBDK8CSBBDKbCTgBDKSCSODDK6CTPBDKuCTxBDKVCTrBDKbCSDBDKeCSTCDKHCSdBDKnCTWBDKcCS9
+BDKtCTBBDKCCSsBDK5CR4BDKPCR9BDK8CSJBDKpCSRCDKdCRiBDKZCRYBDK3CRmBDKgCTxCDK2CRXBDKZCTPEDKfCR6BDKJCSnBD
+KSCTZBDKlCScBDKcCSxCDK9CTcPDKxCStBDKyCSoBDKuCSuBDKxCSoBDK3CSrBDKwCSoCDK2CSnGDKzCSbCDK7CS3BDKnCSlBDK1
+CSuBDKyCS0BDK7CStBDKqCSgBDKzCSiCDK0CSeBDKuCSoBDK4CSzBDKnCSrBDK5CSkBDKzCS6CDKsCSXDDK1CSXBDK4CS7BDK-CS
+7BDKnCSxCDKsCS4BDK_CSsBDKtCScJDK-CSyEDK5CSdCDK_CS3DDKlCS6BDK-CSmIDK-CShKDK9CSaCDLBCSqKDLBCSoLDNxCRXB
+DNQCRIBDNRCQkBDNpCRPDDNUCQzDDM-CQ9BDNbCQhBDNtCQnHDNgCQqBDNpCQiBDNjCQiBDNjCQmBDNnCQnBDNmCQiDDNtCQiNDN
+SCRrBDNLCQ_BDNgCQ8DDNhCRyBDNcCRzBDNLCRTBDNLCRiBDM3CQqBDNpCRwGDNGCQqEDNxCRhFDNoCSCBDNBCRrCDNnCRCDDNwC
+R9CDNYCQlBDNACReBDNdCQnBDM-CQkBDM_CQxCDM8CQpCDM-CQzBDNaCRsBDNaCRUCDNaCRIFDNWCRgBDNjCRcBDM-CRPBDNfCRD
+BDNwCQiIDNqCQyBDNpCQ6BDNmCQvBDNlCQ6BDNpCQrBDNmCQzBDNjCQvBDNjCQ0BDNcCQzAABbDNCCSfBDNGCS6CDNKCStCDNaCS
+nBDN0CTKBDM8CS7CDM4CTFBDNCCSNCDNQCSLBDN0CS6CDNwCS9BDNrCS4HDNLCS3CDNkCTECDNoCTOCDN2CSrBDNQCSEBDNVCR5C
+DNJCR6CDNfCSaBDNaCSZBDNNCTKBDM8CS1BDNvCTWCDNUCTFBDNhCTZBDNqCSrBDNxCSpFDNZCS4CDNzCSIBDNcCTHBDNkCSOBDN
+NCTYBDNyCSgFDNvCSxBDNBCTYBDNQCSXCDNxCTiCDNWCTTDDNBCSsBDNlCTlBDNVCSRBDNiCSxBDNcCSHGDNBCTFCDNICTHIDNCC
+TMFDNhCSoGDNvCSfMDNtCSdBDNpCScBDNvCSjBDNyCSdBDNwCShCDNuCSVFDNyCSfEDN0CSYHDNzCSkCDN1CSgAABADNQCTxBDMa
+CTeBDNtCUbBDM2CT_BDNgCUWBDNOCUZEDNPCUDBDMKCUjDDMQCUKHDNWCUpCDNFCT7CDM7CTtFDNaCUNBDMXCUSBDNRCTdBDMbCU
+iEDN0CUlBDNMCUNCDMECUgBDNCCUhBDNjCUoBDNCCUrCDMnCUbBDN1CT6BDNlCUMBDNFCUMCDMgCTqFDNZCUAEDMECUKBDNPCTlB
+DNrCT2CDNKCUDBDNBCTeBDNDCUZBDMPCT_BDNaCTjDDMbCT8BDNxCT-BDMQCUlBDMqCUoBDM1CUfCDN1CULBDMfCUNBDMECUMBDN
+kCUZCDMHCUBCDMpCT4BDNeCT1BDNMCUoBDNhCUBBDMzCTeBDNHCUlBDNmCUICDMcCUDBDMMCTwBDNZCUaBDNaCTvBDNkCT7BDNOC
+TqBDM5CUqBDMmCUGBDMkCUADDMzCULBDMzCUTBDMxCUEBDM2CUQBDMxCUTBDMwCUNBDM2CUKBDMsCUGFDMxCT9BDM2CUWBDMsCUX
+CDM6CUCBDMpCUPGDM8CUPKDM7CUYKDNBCUR4DL9CSnBDL0CSvIDMwCS0BDMHCS-CDL6CSGBDMHCSvBDL4CSRCDMHCSICDMDCTFBD
+L2CSGCDM6CSNBDMFCR4DDMhCSzCDLxCTYBDL_CSIBDLxCTjBDMnCSeBDMECSdBDL4CTiDDL4CS_BDLyCS0BDLzCThBDMrCSQBDMN
+CTXBDMbCTWCDMpCTICDM4CSRBDMwCTTBDMUCSTDDMhCSUBDMnCStBDMECTdBDL8CTbEDLvCTqBDMaCSsBDMFCStBDM8CSEBDMVCS
+lBDMrCTPDDLyCSuCDMOCSlBDM9CSBCDMUCSyBDMKCSoDDMnCS_BDM0CSfDDMeCSFBDLzCScBDMoCTSCDMxCTECDMLCTJBDMoCR-B
+DL5CTKBDMBCTPBDMgCShBDL1CTsBDMiCTTBDMHCTpBDMWCTJCDMLCSfCDMyCR2CDMCCSVDDJqCUgCDKcCUtDDKBCUHEDKWCUrBDJ
+XCUWBDKPCUeEDKJCUnBDJeCUKBDJjCUSCDJSCUkBDJhCUNBDJ5CUhBDJrCT2BDKUCUIBDJzCUpFDKOCUPBDJxCUNBDJsCUWBDKAC
+UKBDJ4CT7BDKDCUmBDKLCUFBDJ1CT7BDJVCUrCDJdCUlBDJ7CUUBDJmCUCBDJPCUSRDKBCUpqDJMCTMCDI4CTyCDIuCTCCDJBCSe
+CDIKCSjBDIvCTdBDITCSpCDIdCSxBDIiCSiBDIhCR6BDILCS7BDIeCSIBDIlCTEBDIuCSlCDIfCS6BDIdCSJBDIlCS4BDIuCSaBD
+I3CTODDIfCTPBDIhCTWFDIFCSxBDIXCS7BDIPCSNBDJECTiCDImCSTBDI3CTfBDIGCSkBDIvCTOCDIhCSZCDI8CTnDDIcCTHKDIQ
+CSzBDIgCSuBDI3CTrBDI3CTYBDIpCSuBDIyCS4BDIfCSnBDI9CSvDDJFCTICDIoCTPCDIXCSIBDIkCSBCDI7CTNYDJzCS4CDJ7CT
+JRDJYCSzDDJqCTsBDJZCUFBDKQCT6BDKACTFBDJXCTbCDJRCTGBDJPCTdBDJaCTrBDJvCTNCDKKCTPBDJmCSqBDJzCTTEDKDCTsD
+DJDCTsBDJ6CTWCDKCCTQBDJqCTDDDJRCT4KDJUCSkDDKDCT7BDJiCSfBDJlCTdFDJUCTUCDKNCTeBDJsCTSBDJhCS_GDKCCS9BDJ
+PCStBDJjCTfBDJ1CThTDLVCT3BDLjCT2BDLgCTuBDLbCT1BDLdCTzODLjCUBEDKuCUrBDKpCUbBDL_CUfBDK3CUKDDKzCUaBDKiC
+UMDDLTCToBDK1CUHBDLwCUHBDK0CTwBDLqCT6BDLCCUUBDLaCUPBDLFCUnBDLpCTpCDK8CTuBDK9CUWBDLBCULCDL3CT6DDK-CTo
+BDK0CT3BDKiCUjBDLMCUJBDLMCUjBDLLCTpBDKvCUNBDLOCURBDL_CT_BDLJCUCBDLICT2BDLBCT3EDK6CUCBDLQCT1BDLaCUJBD
+L7CUOBDK1CUOBDLyCUgCDLqCUMBDK3CUnGDLlCUXBDLvCUqBDLgCUkBDLYCUBBDK_CTlBDK3CTvBDLOCT1BDK4CT-BDLJCTwCDLd
+CUrCDK_CUiBDLECUcBDLZCUdCDLbCToFDJuCSMCDJtCR7BDJ6CR9BDJ1CSEBDJ2CSECDJ7CSJMDJcCSBBDJWCSLDDJmCRgDDJ8CR
+TCDKACR7CDJ9CRcBDIxCR4BDKICR4BDJlCSBBDJ_CSaBDJfCSRBDJHCR0BDJ0CRCDDJoCRDCDJhCRMCDJvCRBBDJJCSFCDJ2CSgB
+DJeCRVCDJZCSDBDJACSPBDJeCRrBDIzCSLBDKDCRYBDKTCRzBDJbCReBDJrCSFBDJvCRtBDJ_CRpCDJgCR3CDKCCR3BDJqCRQCDJ
+NCSWBDKBCSRBDJACR8BDJSCR4BDJyCRTeDJCCRDLDJOCQ0BDIeCRxBDIPCR9BDISCRyBDJNCQqDDI7CRWBDH6CR1BDIpCRwBDJYC
+RoBDISCRRBDIwCQWBDICCSACDIvCRpBDJVCQ6BDJXCRNCDIECRjBDIWCRiDDJWCQ1CDILCROEDIYCRPBDIeCRXEDIqCRbEDIHCRc
+BDILCR_BDILCRVBDJCCRdEDI5CQyBDJACRPDDJWCQoBDJTCRXCDIwCRKDDIuCQ1BDJMCRKFDJKCQ0BDH7CSABDIhCRoBDISCR8BD
+IPCRnBDJYCRBBDILCRdBDIkCRrBDJCCRsDDIZCQ6BDIbCREBDIECRzCDIDCRoCDIiCRKBDI_CQiFDJWCQ9BDJACQ2BDInCQ_DDIF
+CQ7JDIGCQsBDIDCROBDITCQOBDIPCQqCDH9CRZBDIXCP5DDITCQzBDH5CP6KDH7CQxBDILCP6CDIRCQFBDH6CRCBDH0CRKCDIOCR
+EBDIGCQGBDITCQbBDIwCQkIDIZCQdBDIjCQnFDIZCQtGDIeCQzFDIcCQLBDIqCQYEDIiCQaNDIcCQuZDH9CQbCDIDCQaBDICCQeB
+DH4CQTBDH7CQcBDH8CQgBDH9CQkFDIGCQUFDIKCQfAABNDKHCQrBDKTCQ1BDKWCQtBDKbCQzCDKTCQsCDKTCQrWDKnCQgBDK8CQ6
+BDKICRWBDKYCRICDKlCRDBDKjCRJBDJgCQuCDKNCROBDKACRJBDKoCQnDDJ3CQ9BDKJCRBBDK2CQjBDJoCQ6BDJ4CQcBDJ8CQoBD
+KdCQ7CDKaCRNBDK1CQrBDJ3CQ2CDKYCRLBDJ-CQ-BDK8CRDBDKsCQzBDJrCQbBDKyCQyBDKeCQmCDJmCQtBDKACQ0CDKNCReBDJ_
+CQiBDKJCQlBDKLCQ2BDKvCRDCDKkCQ4BDKrCQgBDKXCQmDDJ4CQuBDKgCQqBDKVCRBBDJtCQrCDKiCQnBDKXCQkQDLyCRfDDL0CR
+gBDLyCRsBDL4CRVBDLyCRdCDLoCReHDLGCROBDL3CQkBDLmCQ_CDL-CRlBDL4CQvBDMgCQxBDMFCRaBDL5CRsBDMgCRuBDMWCR8C
+DLACQlBDMLCRdBDLgCRuCDLVCQqBDLMCReHDLUCRuBDLuCRrBDMNCQoBDMyCQ4BDMFCQyCDMqCRhCDMWCQ3BDLOCRGBDMYCR3BDM
+XCQoBDLECQ2CDK-CRmBDLbCRhCDM1CRgBDLYCRFBDMeCReBDMXCRtDDMpCQoBDMnCQ2BDLDCRcBDK9CQrBDLbCRUBDLECRtBDLcC
+RFBDL3CRIBDL9CQ8DDLMCQkBDL0CQ7CDMUCREBDMrCRJCDMTCRdBDLhCRaBDLcCQfBDLlCRrDDL7CQ_BDLUCQ9CDK9CRPBDLOCRO
+BDLkCQnBDLoCRPBDLnCQrBDLaCRMBDMUCRRCDMLCRwEDPQCYOBDPuCXsBDPtCXgCDPmCXtBDP8CYDDDPGCXOFDP3CXrBDPACXhCD
+PGCXVEDO_CXpBDP2CX4BDPWCYGCDPECXKBDPGCXpBDPuCYDBDPKCYKCDO-CXaCDQBCYMBDO-CXHBDPCCXHBDPICXtBDPMCXtCDPM
+CXqBDPVCYRBDPrCYYBDPuCX3BDPUCXtBDPMCXwBDPRCXrBDPLCX2CDPTCX7BDPaCX4BDP4CYPBDPfCX4BDPVCX1DDPdCYTFDP9CY
+XBDPyCYaCDPlCX4BDPmCYEBDPcCYFBDPlCXgBDPDCXqBDPBCXWCDO_CXWBDPACXTBDPDCXaBDPCCXRBDPECXUBDPvCYQBDO-CXNB
+DPCCXNDDPmCYRBDO_CXuBDPBCXuBDPFCXvBDPICXYBDPICXSBDPMCXYDDPECXmBDO_CXlCDO_CXeBDPDCXeBDPECXiBDPZCXfBDP
+eCXfBDPcCXsBDQACX1BDPMCXSDDOqCXPCDOqCWPBDOqCWcBDOxCWeDDOmCWbBDOtCWdCDOiCWzDDPJCWYCDPDCWWBDOVCW7BDOvC
+V9CDOuCXUCDOsCXSCDOuCXLBDOsCXKBDOxCXRBDOyCXIBDOwCXKCDO0CWJBDONCWhCDN6CWzBDObCXGBDOwCXCCDO_CV5BDOdCXU
+BDO9CWTBDOECWqBDOtCXECDO-CWPBDN3CWlBDOACW2BDOoCXSEDO1CW-CDO6CW_CDO4CW_DDN-CW4BDOgCV9BDOSCWtBDOYCWgBD
+OHCW1BDOMCW5CDOdCW8BDPCCWmBDOPCXHBDO7CWwBDO5CWuBDO-CWFBDO1CWvDDOXCXPBDOoCW9CDOeCWRBDN8CWqBDO8CWiBDOU
+CXKBDOnCXJCDN7CWqBDOdCXOBDOrCW8BDOxCW-BDOtCW_BDOxCW0BDOtCWzBDO5CWWBDOdCWoBDOcCWrBDOlCXUBDOhCXPCDOkCX
+PCDOjCWkBDOsCWpDDOzCXeBDO1CXcBDO6CXZBDO1CXWBDO7CXmBDO2CXZBDOzCXjBDOzCXbBDOvCXYBDOyCXXBDO2CXfBDO5CXeB
+DO4CXkBDO1CXlBDO2CXpBDOxCXcBDOsCXUBDOrCXXBDO7CXLBDO-CXWBDO7CXVCDO3CXLBDO5CXqBDO8CXrBDOxCXfBDO3CXRBDO
+0CXOBDOpCXWBDO2CXsDDOwCXeBDO7CXgBDO7CXRBDO6CXvBDO-CXSBDO4CXWBDO2CXHBDO6CXGCDOlCXABDOxCXg6DPGCXIBDPKC
+XGCDPLCXNCDPYCXVBDPSCXYCDPSCXRBDPJCXdCDPICXjBDPMCXkBDPNCXfBDPTCXkBDPVCXeBDPQCXfDDPNCXCCDPGCW-BDPJCW-
+BDPLCW9CDPVCXMBDPQCW7BDPRCXABDPVCW9CDPCCW7DDPCCXBBDO-CW7BDO-CXBEDPTCXHBDPPCXHBDPQCXJEDPYCW5CDPdCW8CD
+PaCWvDDPRCWdDDPRCWpBDPSCWjCDPYCXIBDPbCXKCDPeCXJBDPdCXUEDPkCXWDDPkCXRBDPlCXIDDO_CWwBDO_CW2CDPDCW1DDPK
+CWhBDPICWpBDPKCWxBDPSCWvDDPSCW0EDPHCW1DDPECWtIDQXCYGJDQtCXqBDPtCWvBDP7CXSBDRECXkBDPmCV4BDQPCWTBDQKCX
+mBDQOCWGBDPfCWDBDQgCYGBDQGCWeBDQECW9BDQOCYHBDP4CWxDDQnCXdBDQqCX_BDPuCXVBDPqCWABDPcCWaCDROCXnBDP8CWOB
+DQ2CYLBDQNCXABDPoCWMBDP_CWmBDPrCW0BDPsCWlBDPwCW7BDRECYBBDPgCWoCDP6CXfBDRTCXlBDP5CXCDDPzCWGBDQNCYSBDP
+hCWSCDQXCXhBDQICX3BDPuCXHBDQ3CX8BDQHCWLBDQBCWgCDQACWCBDQHCXPBDPlCW6BDQFCWwBDQJCW6BDQyCYBBDQQCX3BDRaC
+XmBDRSCX6BDQgCYQBDQ-CX8BDQeCXzBDQnCXoBDPuCWSCDQ3CXrBDPuCV9aDP1CWfBDP0CWdBDP5CWaBDP7CWfBDP7CWmBDPxCWc
+CDP3CWoKDPyCWoKDPxCWiDDP1CWVAABFDQbCWLBDQeCWDBDQiCV9BDQmCWDDDQfCWHCDQbCV4BDRmCVtBDQzCV2BDRMCVUBDRTCV
+wBDQNCViBDQeCVRBDQHCV1BDRJCU4BDQ-CVIBDSqCV-BDRFCVaBDSgCV_BDRICUnBDQoCVzBDReCVSBDRdCUsBDQeCVqBDSGCU1B
+DRBCVgBDR3CUyBDR5CUzBDQ5CWABDRJCUaBDRTCUjBDRACV8BDR_CWBBDSTCVjBDQdCVeBDQeCV-CDQuCVeCDQ6CVoFDSZCV3CDQ
+DCVqBDRJCV_BDRxCVDBDRJCVqBDSJCVDBDSICV0BDQRCVwBDR7CVSBDQ7CVWBDRWCWGBDRfCV7CDR4CVoBDQcCVWnDQvCWsCDReC
+WgCDSeCWiBDQwCWECDQsCWPCDQsCWBKDRHCW9BDSoCXDBDQXCWQBDQlCW-BDQiCWHBDRSCXPBDQxCXTBDQTCXSBDSiCWSBDQmCXT
+BDR7CWzBDRICXVBDQxCWVBDQpCWpBDQYCWZBDQ3CXJCDSPCWdBDSPCXCBDR9CWQBDSaCW_BDQcCXSBDSgCW3BDSECWOBDQXCXABD
+SQCW0BDQOCWuBDQoCWYBDR5CWeBDRdCWKBDSECW1EDQ9CXMBDRDCXLBDRvCWDBDQjCWgCDQ9CW9BDQUCXLBDSLCWLBDSoCWyBDRx
+CWnCDRnCWcBDRjCWOBDQ1CW2BDQZCWqCDRxCWTfDQaCU8FDQHCVOBDQDCVYBDPjCVTBDP8CUCCDQGCUqCDPJCUrCDPjCUCBDPdCW
+EBDP1CV8BDQPCUmBDPGCVjBDPmCVFBDPQCU_BDPkCU0BDPcCVSBDPYCVQBDPZCVPCDPDCU-CDQcCUaCDP-CVbBDQdCUyCDQBCUZB
+DP2CU1BDPTCV4BDPbCUzBDQGCUCCDPcCVaBDP_CVoBDPQCVKBDPKCWICDP_CUrBDPzCUWBDQPCVGBDPoCVcBDPgCUPBDQgCUDBDP
+vCUiBDQXCUXBDP-CU7BDPKCVTBDPUCWKBDQICU3BDPkCVwBDQyCUwBDQvCUzBDP5CUkBDPZCUkBDQNCVJCDPWCVZBDP9CUSBDPzC
+VaBDP1CVtDDP_CUeBDQECU9BDPgCVqBDP1CUtBDQHCVFBDPmCUiBDPRCU3BDQcCUsBDQ7CUyBDP1CVGBDQiCVGBDPtCUICDQqCU9
+BDQJCUXBDQMCUNBDQeCUMCDQTCURBDQRCUvBDPdCUfBDQcCUlBDPQCVvBDQ5CUdBDPtCUxBDPVCVkBDQoCUmBDPWCUPJDPfCVFED
+PWCVLBDPTCVHBDPaCVMDDPaCVHCDPZCVAQDPZCVIAABEDOqCTkBDOkCTkCDOzCTkCDOuCTdBDOuCThBDOqCTfBDOuCTWBDPFCTFB
+DOaCUFBDOzCT6BDOuCSuBDOvCURBDOsCUFCDO3CUIEDO-CUXBDObCSTCDOlCTeCDO2CS8BDOzCSxBDOACUKBDOeCUTBDODCT6BDO
+GCS6BDOHCToBDOnCUTBDOnCT7CDOHCUZBDOxCUDBDOkCSYCDONCT8CDOCCTZBDOtCSdCDOaCS4BDPECT1BDOQCSsBDOrCTrCDPCC
+UDBDOiCUEBDOcCT8BDOtCTzCDO1CTGBDO4CSxBDOiCSmBDPQCT-CDO6CT0BDODCTKCDO5CSqBDOmCSzBDOeCTIBDOTCT6BDOSCTM
+BDOsCUiCDPGCTdBDOnCTOBDORCTuBDPJCUPBDOwCTmBDOICTvBDO7CUoCDO_CTTBDOoCTBBDO-CThCDOKCUoBDO2CTuBDOiCSRBD
+OVCSKCDOcCTYBDOiCTyBDOQCUFBDO5CSjBDN_CTvBDOZCUgBDOOCTbBDOVCURBDOHCTDBDPQCUbBDOcCTrBDOgCSgBDN7CTZCDOK
+CSIBDOLCSfBDOLCSSBDOMCSUCDOKCSBBDOACSOEDOSCSbBDN8CS1BDN8CSGCDOECR5BDOBCR1BDN6CRvCDOECSBBDN_CShFDOFCR
+-BDOTCSTBDOQCSEBDN-CR8BDN-CRzBDN5CTGAABHDOvCVSBDOrCVXBDOmCVYRDOQCVeBDOGCV6DDOsCU1DDOLCUzBDN9CWMBDOPC
+WRBDOZCVqCDN2CU-BDOWCVbBDOdCVbBDOCCVsBDOYCWGBDOhCU_BDOGCWVCDOrCVuBDObCVEBDOFCVCDDOeCUvBDOcCVOBDOACVe
+BDN4CV_BDOTCVTBDOSCVBBDO-CVXBDOUCUzBDOMCVlBDOnCVgBDN5CUqBDN3CVrCDOWCU-BDO2CVmCDOgCVnBDOMCVRBDOgCVuBD
+O9CVIBDORCVuBDOACVJBDN4CWcBDODCWHBDOtCVGBDODCWgBDN_CVTBDO3CVdCDOBCU0CDN7CWWBDO3CVRCDN6CV2DDOTCVYBDOk
+CVIBDO2CU7BDO-CVrBDORCWHBDOSCV5BDN1CVVBDN5CV1MDPxCTsBDPiCT0BDQPCTGBDRPCTFBDQ_CUNBDP7CTjBDQ6CTsCDRACT
+EBDQnCUXCDQ5CTODDPgCTSBDPfCTlCDQLCTKBDQLCTnBDRACT_BDP7CTYBDQYCT5BDPZCTNCDPcCT-BDQNCT8BDQUCTHBDPPCTQB
+DQdCTrBDQMCTSBDPvCT5BDQyCUEBDPWCTuCDPbCTZBDQnCTwBDQeCTUBDRBCTgBDQVCTqBDQyCURBDQACTrBDQ5CT8BDQSCTnBDP
+LCThBDQDCTVBDQvCTyBDQTCT5BDPVCTfBDQuCTR0DPyCS8BDRSCS2BDQCCTGBDP6CS9BDRPCSlBDPQCSjCDPJCSsBDP8CSiBDRbC
+SpBDRjCSeBDQjCS9DDQDCStCDP1CSpBDPoCTPBDPUCS6BDQ8CScBDQwCSxCDPaCSwBDPjCSrBDQhCStBDPmCTDCDPsCTICDP1CTC
+BDRUCSPDDPdCSjBDP2CTIBDQ5CSJBDQiCSSDDQMCSfBDQGCSbBDQMCSqBDQKCSgBDQGCSkBDQRCSbBDQqCSSCDP9CSxBDRDCSRBD
+PACSwBDQJCS7BDQnCSfBDPSCSmBDRTCSbBDQxCSSBDP9CSjBDQXCSpBDRTCStBDQ-CSuBDPtCSpBDQaCSXDDPkCS6nDPwCTaBDPy
+CTVBDP0CTcBDPvCTfBDPtCTaBDPnCTdBDPqCTXDDPoCTlHDPqCTUGDP2CThJDPwCTNKDP4CTRCDPtCTmCDPnCTa1DRwCTmKDS6CU
+eBDSuCUGBDSLCSjBDSFCStBDS4CUHBDSSCSvBDSYCS1BDR2CThBDR1CS5BDSMCTXBDSuCTPBDTECUBBDRPCTXCDSDCTGBDRwCSbB
+DTHCT4BDSWCShBDS0CT1BDSsCSzBDRQCUCBDRwCUfBDSQCUJBDRtCSbBDSXCSlBDSxCS8BDSYCTVBDR1CTQBDRJCTzBDSgCSzCDR
+OCTOBDSYCTJBDRjCTABDR9CS1BDSgCUYCDS8CT6BDSQCTnBDSiCTDBDSACURCDS5CTUBDS9CSqBDRaCTxBDReCTWBDRuCUKCDSzC
+UZBDRvCSjDDSCCT1BDSxCTCBDRiCUPCDR7CUjBDSACTVCDTICTeEDTBCThBDR-CShBDSsCT_BDROCTmCDRMCUMBDSZCUECDS7CTb
+BDSOCS_BDSkCTXBDSeCTWBDStCTmCDRlCTwBDRtCTBBDSmCT1GDSbCTrFDUGCU2EDTfCVSBDToCUyBDTFCW0CDTACVvBDU8CVuCD
+TRCUbBDTSCUrCDVICU7BDTvCU1BDTnCU7BDUECUsBDUfCVgBDTYCUDBDT1CVSBDTmCUpCDVBCVZBDUfCWBBDUgCWmBDTKCURBDVH
+CUaBDTMCT_BDTACUpDDSnCU3CDS8CU9BDUpCVyCDSdCVECDTwCUdDDTXCWLBDS7CWiBDUiCVLBDTCCWFBDSsCWlBDVFCULBDTmCV
+GCDS6CVVBDU6CVWBDS-CWWCDT8CUtBDSpCVkBDUSCVBCDTmCV2BDUlCUrCDUsCUACDTmCUtBDTeCVmBDSzCW5CDVgCUQBDT1CUqB
+DTdCUmEDUxCViBDUJCVQBDTTCWgBDTZCW0CDTjCWQBDU1CU7BDUbCUzBDT6CTmBDVKCVjBDU6CVTEDU6CVRDDTsCVECDU1CUXCDT
+MCVGBDTXCUhDDTWCVGCDUZCPuBDUMCPoDDWoCPIBDVNCReBDUCCQ3BDVyCP_EDT3CQiCDVZCP1BDUzCP1BDU8CRdBDUbCSGBDUeC
+QxCDUzCTbBDTwCQWBDVLCRSDDVECRXBDVACRPBDUyCTnCDUJCRGCDUmCQLCDU7CQ3BDUdCQNBDUGCSABDU0CTCBDUTCRMBDUjCTS
+BDVcCSpBDUxCSzBDU7CQiGDUCCQUBDTiCQUBDVLCQHDDULCQCBDVFCTRBDUoCSVBDVYCQnDDTSCQdDDVZCPeBDVICRvBDT5CQdBD
+UQCR3CDVKCQaCDVTCToCDUTCP8BDVKCQeBDUiCRMBDUPCQjBDUHCQlCDUMCPyBDUwCQNBDUbCRgBDVCCPqBDUrCQ-BDUnCPrCDVJ
+CS3BDVKCSUBDVCCRABDUCCQjBDTjCQLEDU2CRSBDUKCQFBDTaCQXBDUKCRMBDUxCR2BDUBCQtFDWhCPJBDUlCPKBDVCCPACDWPCO
+pDDVsCO4CDVfCNXBDVSCMiBDVSCN5BDWcCPDCDUmCOxBDWCCO1BDWgCPMBDWwCQBBDVTCPFBDUuCPSBDWNCO2BDWQCO_DDVWCNnC
+DUjCO5CDVwCOCBDWYCO2BDWWCOwDDWVCPEBDUyCOlDDVVCMbEDWeCPGDDWTCPOBDVpCPPBDVJCNPBDVrCOMCDWrCPjCDVmCOiBDV
+vCNhCDWFCOrDDVyCOuBDVPCMoBDVnCNyBDVNCOqBDV0CPjBDWJCOwCDWACOaCDVTCOPBDVSCMzBDU5CN3BDVUCO0BDVnCNNeDNPC
+HQBDNfCFXBDNpCGUCDOdCH5BDPDCHUBDN8CHABDMLCHVBDNsCHOBDOTCHBCDOTCG7BDORCG6BDOVCG3GDNXCFNBDN0CHDBDNWCEz
+BDN1CG9CDN4CE8BDOCCFrBDNcCIxBDN9CHtBDN_CFgCDOUCGKBDNvCHGBDNQCGtBDPGCG7BDN0CHOBDOZCGnCDNgCGiBDN_CGXBD
+OhCGOBDPPCHjBDNhCE9CDNACIFCDOFCHIBDNcCHNBDNfCFkBDMvCHeBDOgCFmBDOeCHuBDMICHQCDNxCHlBDOECHgBDOSCHeBDM-
+CHvBDOCCFTCDMUCHcBDNcCGsBDNECHkBDNyCGeBDOaCGCBDMFCGvBDN8CGBBDMNCGkBDMnCHNBDNgCGVBDNZCGBBDPRCHKBDNbCG
+MBDN7CHIBDMfCGQBDOxCHEBDNnCFECDOKCIKXDPTCG9BDOpCHUBDMYCG_BDNdCI5BDOcCG8BDOECIPBDOUCGCBDMaCGbBDN5CGsB
+DOACE1BDNxCGsBDN1CIZDDNwCFgBDM-CH-BDNwCFJBDNaCHWBDNLCICBDOJCH-CDOuCHdBDMbCHJBDOFCHABDNOCHCBDPDCHiBDN
+6CHnBDOCCF6BDORCFyBDOuCG5BDNyCG0BDO3CG4BDMQCGQBDOKCG5BDN3CIGBDNbCJDBDNpCIEBDNKCHxBDM_CHYBDMHCGZBDODC
+IBBDORCISBDNOCIQBDMRCGyBDNACHLBDNwCF_BDMGCHFBDOiCH8BDM7CGOBDM5CH-BDM0CHLBDONCGqBDNlCIPBDOiCHVBDNBCGE
+BDOGCGsBDN2CIoBDOVCIGCDNRCGyBDOACHUBDOJCH2BDNCCHkBDNeCFtBDMdCHdBDNICHRBDN3CGTBDN7CHgBDNuCHZBDNhCHwBD
+NmCIrCDOMCIZBDMvCGabDOTCHQFDOpCHoBDNXCIgBDNzCH4CDNACG2BDNaCG1BDOUCGRBDMvCGwBDNbCH2CDNyCF1BDOiCF_BDNP
+CGkBDNWCIGBDOACGMCDNCCGcBDOhCGUCDNSCHhBDN8CG2BDPLCHRBDNlCHjBDNSCGuBDOuCHPBDOoCHABDNkCH_BDNpCGDBDOFCH
+qBDOJCGCBDOiCHLBDNjCHXBDMoCHqBDOeCHoBDNKCGtBDNLCGzBDNkCIbBDOCCG2BDOBCG7CDOtCGuBDOSCHrBDOjCG_BDOsCGiB
+DNcCF1BDNlCIJBDNaCHcCDMrCGSBDNaCI_BDNGCIFBDM-CGmBDOmCH1DDNbCGgBDMeCGqBDNoCGkBDMhCG1BDNiCGxBDNkCGrCDN
+VCI8BDOqCH7CDPACHGBDM1CHiBDNNCGTBDNSCFCBDMwCHBBDOCCGgBDN6CF2BDOgCHefDNmCG-BDNrCG5BDNoCG5BDNmCG4BDNuC
+G-BDNoCG9BDNjCG-BDNpCHABDNqCHFCDNnCHABDNhCHDBDNhCG6BDNrCGzBDNsCGqBDNoCG1BDNpCGsCDNnCHLAABKDQDCHoTDPh
+CHOBDPkCG-CDQACGrBDQcCGeCDQeCH6BDPkCHmBDQCCHVCDPyCGcBDPaCHXBDQKCGsBDPtCH3BDQOCHPBDQECITBDQOCG3CDP_CG
+-BDPuCG9BDQVCH1BDPaCHmDDQSCHWCDQVCHPBDPtCGsBDQXCHkBDP0CHFBDQeCHIBDQaCGPBDPeCHXBDQYCG7BDQbCIWBDQiCIfB
+DQRCHmBDPrCHLBDQECH7BDQiCHjBDQLCIbBDQTCIODDQNCH0BDQlCGhBDQbCIqBDQJCH1BDP3CIBBDP0CHoBDPbCHFBDQECIIBDQ
+dCICBDQjCG5CDPoCHnBDQhCIUBDPzCHbBDQdCGuBDPuCHTBDQNCGSCDQACHMBDP_CGYBDQMCGhRDPBCGFJDPcCE1BDP8CGCDDQeC
+FpBDP2CE_BDPOCGKBDQTCGBBDPDCFyBDPqCF9BDPhCFwBDOzCGOBDQHCGFBDO1CF7BDPLCF0BDPaCGxCDPxCFJBDQCCFiBDPYCGE
+BDOrCGUBDQhCFbBDO-CGYBDPRCGhCDO9CEkBDQACFSCDOsCFtBDQMCFuBDPMCFEBDPXCFrBDPeCGeBDOrCF5BDOpCGHBDPgCGQBD
+PkCFRCDPXCGCDDPACFNBDO-CFqCDPlCFECDQiCGEBDO0CGUBDPmCGIBDQJCF4BDPwCGOBDO6CFDBDPwCFYBDPFCFjCDPmCE0BDO8
+CF4BDPECEsBDPPCE0BDO4CGLBDPqCFzBDPPCFeCDPoCFaBDPYCFSBDPICFSBDPgCEiBDPmCGaBDQTCFhBDO3CFZCDPkCFhBDPfCF
+7BDO7CE1CDPsCEmBDO5CFtCDPRCEkCDQdCF6BDPUCGTBDPZCEiBDPSCE-BDPLCGUBDO-CGqCDPyCFrBDP8CFuBDPKCGqCDPJCH2B
+DPaCIPBDQHCIyBDPMCIGBDPkCH5BDPbCJ_BDPMCJ5BDPLCIABDOnCIPCDPiCIFBDOtCI5BDPFCIvDDP8CIeDDPgCIeBDQECIlBDO
+pCIEBDPTCI_BDPFCJLBDO_CIeBDPbCH9BDPKCJPBDOzCHzBDQPCI5BDPRCJZBDPwCJLBDPpCJBBDOYCIaBDPUCHvBDO6CJLBDOkC
+IaBDPpCIPCDO0CIRDDPLCJoBDO8CIOBDO0CIyBDPACJqBDP2CI0CDPRCIuBDO9CJXBDPSCIFBDPOCKCBDOwCJMBDOqCIbBDPxCIH
+BDO5CKLBDPdCJrCDOyCIdBDPvCIqBDP-CI_BDPKCIgCDPVCJmCDPXCJZBDPKCITBDPlCIuBDO_CJJBDPVCJJBDOyCIjBDPUCIiBD
+PRCJ0BDO7CH1BDPFCIZBDPkCJUBDOkCItBDPgCJEBDPdCI0DDO8CIEBDPeCJfBDO9CJ_TDO6CI-BDO-CJBBDPHCJDEDPACJEAABe
+DM0CFwdDMuCGFBDMnCGCCDMLCFSCDMPCFyBDMHCFmBDNCCFTCDMxCFGBDMXCFoBDMtCFLBDMwCFqBDNECE_CDMaCF1BDNLCFeBDM
+6CE2BDMXCFMBDNJCFvCDMjCFiCDNECFLBDMMCGDDDMlCFABDNBCFvBDMzCFcBDMGCF1BDMjCF-BDMZCFXBDMdCGGBDMpCE2AACJD
+PkCCZBDPWCEUBDPzCDRBDO2CDYBDPYCEKBDOvCD3BDO4CC9BDPhCC1BDPvCD9BDOaCDWBDPsCCdBDPbCD8CDPfCDtBDOyCDIBDO_
+CDjCDO9CDwBDOsCDsBDPECELCDPyCDfBDP1CCiBDPPCC2BDPCCD8BDOqCDJBDPxCCvBDPMCDRBDPpCD-BDPCCC9BDPgCC9CDPsCE
+bBDOgCDlBDPeCDkBDPxCC9BDPjCD0BDPWCCwBDO9CDLBDOTCDJBDP2CDIDDOvCDYBDPiCDKBDPwCDwBDPuCEPBDPHCDgBDPPCD0B
+DPgCDVBDOlCDUBDOvCC1BDPCCEXBDO2CCuBDOlCC2BDOoCDUCDPzCEECDOUCDwBDPKCDrBDPWCCbBDOdCC9mDPBCCpCDPECCjBDP
+FCCoBDPDCCrBDO-CCxCDPJCCtBDPNCChCDO6CCpAABaDQGCDddDQYCCwBDP_CDqBDQSCDjCDQHCDOBDQRCC6CDQWCDQBDP7CDbBD
+QICDBBDQTCCiBDQhCCiBDQfCCuBDQgCDaBDQMCDXBDP8CD4BDQfCDABDQHCCuBDQICDyBDQdCDrBDP9CC7zDQDCEleDQYCEnCDQC
+CE0BDQcCFIEDQJCEUCDQMCEkBDP2CEwBDQNCFOBDP2CEnCDQeCEIBDQHCEHBDQeCEUDDQTCD4BDQUCEiDDQdCD-BDQbCEmCDP6CE
+XBDQBCE_CDQfCErDDQfCE5BDQSCE4BDQTCFPBDPwCE0jDOWCFBdDOZCExBDOyCERBDOHCEmBDOrCFADDOjCE0DDOYCD5BDOHCFHB
+DObCEUBDOTCEQBDOXCFSBDORCE3BDOxCEFBDN6CEhBDN0CEhBDOlCEVBDOrCFPBDOwCEyBDOjCFSBDOcCFKBDOqCFhBDOECEhBDO
+HCEuDDOxCEcBDOUCFYBDOdCD7BDOhCEFBDORCFgBDOHCE9CDOZCEgBDOpCEqBDOXCEpiDNDCDcCDNCCDmHDNJCDYKDONCEGBDNdC
+ESCDOICDJCDNDCEKBDNRCDdBDOACESBDOHCECBDOCCD0BDN7CEJBDNnCErBDM6CEpBDMwCEOBDMwCDsBDNDCEnBDNSCEPBDNtCEW
+DDMuCECBDM6CEKBDNYCDhBDNuCEtBDNLCEqBDOBCDPBDNsCDnCDNMCD0BDM_CEFBDNxCDdBDMrCD5BDNdCEpBDNVCD9BDM7CDwBD
+NkCDYBDNsCDMBDN1CDPBDOICDcBDNaCD0BDNLCEMBDMtCDjBDN1CEDBDNlCD5BDN9CDYBDNsCEABDMuCEdEDNhCEFBDM6CD2BDOO
+CDjBDMqCErCDNECD4BDNSCDtBDNaCEgBDN0CEMBDN4CDsWDMSCERdDMECEhBDMDCEzBDMTCEvEDMLCEcBDMGCEoBDMcCEZBDMQCE
+FBDMHCDyFDMgCEKBDMTCFBBDMFCERBDMSCDkBDMdCD_BDMMCD9BDMKCExBDMVCD2BDMgCDwBDMbCDmCDMSCElAAFZDPHCLjBDPEC
+LbBDO7CLlbDOfCLtBDOpCL3BDOtCLUBDOsCLECDPTCKyBDO_CKiBDONCLpBDPLCKMBDPGCLSBDPCCK2BDPDCKqBDPUCKgBDPjCKZ
+BDPdCKkBDO9CLLBDO8CLDBDPxCKiBDPaCKqBDPpCKwBDPNCKjCDPaCK4BDPNCLIBDOvCLpCDPMCK9BDPBCKXDDOaCLkEDOZCMJBD
+PKCK6BDPUCLICDO6CLXBDOWCL9BDOYCMTBDO0CLyBDPsCKeBDPOCLWBDObCL6BDOhCL4BDPWCKRBDPiCKMBDO4CK4BDOtCLgWDQZ
+CJ3fDQJCJnBDP_CKCBDQjCI4BDP2CKCBDQZCJVEDQhCKPBDPtCKEBDPjCJ0CDQCCJkCDQGCKvBDPuCJkEDQXCKqDDQACJPBDQdCJ
+CBDP5CKVBDP2CKsBDP4CKxBDP8CKfBDQjCKhBDQBCJ4BDP_CKNBDQKCJWBDPlCJpBDQTCJhBDP7CJmCDQICJlBDPmCKCBDQLCKmB
+DP7CJbBDQPCKUDDPzCJyaDNNCKNBDOgCKEBDN9CJrCDOcCKnBDOPCJrBDOZCLVBDOECJGBDOHCJWBDOxCJhBDN3CIzBDObCK7BDO
+kCJ4BDOjCKRBDOHCI3BDOECLCBDOYCI3BDOuCKOBDOoCKZBDN1CJgBDNsCI_BDNmCI-BDO5CKkBDOgCJDBDORCI_CDOFCKLBDOGC
+J1BDOeCJPCDNQCJaBDN8CI9BDOVCJ_CDNmCKPBDN1CJsBDOyCKrDDNrCKSBDNyCKIBDNuCKODDNvCKRBDNtCKIBDNgCJ8BDNPCJm
+BDORCJLCDNzCJLBDOkCKtBDOGCKhBDOLCLXBDOCCLICDOHCJPsDN7CJYBDOXCKMDDOSCKiBDOFCKrBDN7CJqBDNlCJQBDOdCLPBD
+OmCKwCDORCKrBDOqCJWBDOKCKXBDOQCJjBDNjCJXBDN5CKFBDOFCJqCDOQCK1BDOeCLGBDNxCJ4BDOOCLJBDOWCJzBDNmCJnBDO3
+CJ4BDNcCKKBDOXCKBBDOzCJuBDOzCKSCDOaCJrBDN8CKTBDN1CJmBDNbCJbBDOXCKYBDOECK2BDN-CJ9BDOJCIlBDNzCKABDOaCJ
+7BDOUCIoCDOtCKABDOmCJrBDORCJYBDNzCJDBDOPCI5BDOhCJfCDODCJwBDOtCJ2BDNKCJ8BDOICJhBDNaCJNBDNbCJvCDNxCKkB
+DNPCJzCDNsCJeBDOWCLEnDOOCKCBDOSCKCBDONCKLBDOICJ_BDOOCJ5GDOVCJ7AABaDMwCI1dDMrCJCBDMvCIOCDMtCJRBDNHCIc
+BDMeCJkBDMoCIjBDMRCI3DDM8CJyCDMGCJaBDNACItBDMPCIFEDM1CIrBDMGCICBDNLCI8BDMaCJWBDMbCIpBDM7CIfBDMlCJIBD
+MICIOBDMuCJnBDMuCJjDDMdCJHBDNCCIzBDNHCJHBDM9CJECDMSCJnBDM5CItBDMlCJZBDM-CJHBDMqCH3BDMNCJRBDMfCINBDML
+CIbBDMHCJnBDMZCIACDNCCJVBDNHCIeDDM3CJXBDMYCH2CDMYCHtBDMJCJIBDM_CJhBDNOCIyCDMeCJQCDMLCHuBDNMCJNCDMVCI
+VBDMcCIfBDNJCIiGDMeCK3SDL8CKLBDMOCJ0BDNBCKPCDMdCKiBDMRCKiBDMKCKLBDMICJ7BDMKCKgDDMZCJ_BDMWCKHBDLzCKYD
+DMrCJ4CDMuCK1BDMYCKsBDL9CKUBDM2CKoBDMrCKJDDMwCKaBDMjCKcBDMzCLCBDM5CKNCDMcCKHBDMnCK1BDMeCJzBDM2CKNBDM
+8CK1BDM6CKBBDMdCKvBDMSCKWBDMVCKQBDMOCKtBDM5CKYBDMrCKmpDOOCMPTDNnCKzBDN4CLIBDNlCL5EDNeCLaBDOLCMHBDNaC
+LfBDN8CLeBDN6CMGBDONCL3BDOFCMPFDNGCKfBDNHCKeBDNRCKfDDOACL0DDN0CLbBDN0CLlBDNoCLNBDNvCLxBDNPCK3BDOKCMA
+BDOACLiBDNHCKxBDNrCMBBDNOCKsBDNcCKZBDN1CLyBDN8CMEBDN2CL8BDNaCLXBDNjCK9BDNYCK-EDN0CLRBDNbCKmBDNlCL-BD
+NyCMBBDNpCLTCDOSCMOBDN2CK1BDNqCLdBDOHCLsCDNmCKpBDOBCLSBDNoCLDXDNgCLvBDNdCLoBDNiCLwBDNhCLkCDNnCLpBDNp
+CL0AADCDQxCPqBDQiCPNBDQJCO8BDQmCP8BDP6CPmBDQyCO7BDP_CPpDDQxCPVBDQ2CPnBDQTCPtBDQtCP_BDRbCPeBDRPCQFBDQ
+TCOoBDQICPXBDP5CPJBDQ6CPSBDRKCPvBDQlCPvBDQLCPkBDRCCPlBDQVCP3DDQUCPLCDQDCPOCDQ0CP4BDQhCOyBDQMCPXBDQVC
+OyBDQbCO6BDQGCO2BDQTCPgBDP8COhBDQZCOpBDQpCPdCDRUCPzCDQ-CQGBDP6CPhBDQECPgBDQOCOxBDQtCPCBDRNCPTBDQnCO5
+BDQECPkGDRDCPYBDP_CPHBDQRCO7CDRTCPkCDRUCQECDQ4CO3BDP_CO_DDP_CPFBDQyCQDCDP8CPVBDQ_CPwBDQfCP8BDQsCPxBD
+QPCPbCDQUCPBBDRFCPcBDQdCPxBDQ7CQLCDRGCQICDQ9CP-BDQVCPVCDRfCPSBDQCCPZBDQiCPfBDQmCPFBDQJCP1BDQ1CP2BDQC
+COnBDQbCPgCDQMCPvBDQNCOpBDQaCO7EDPoCPaBDPHCPsBDPSCPUDDPiCP2CDPvCP-EDPNCOlBDPSCOtDDPwCO_BDPpCO_BDPgCP
+GBDPYCO7BDP5CPnDDPHCO4BDPfCPwBDPwCPKBDPFCPPBDPuCPwBDPuCPrCDPpCPvFDP1COtCDPVCPkBDPOCQBCDPICP7BDPICQBB
+DPOCP4CDPxCPgBDPICPDCDPoCPOBDPnCPjBDPxCPmCDPuCPIBDPoCP6CDPpCO1BDPGCPLBDPECP7JDPZCPZBDPKCPkCDPICPgCDP
+rCP-EDPQCPHBDPWCP3BDP3CO0BDPDCPjCDPECPYBDPWCPsBDP1CPLBDPECOzBDPgCPdBDP2CPcCDP2CPTBDPuCPTBDPhCOmBDPKC
+O5BDPECPeDDPDCO_HDP5CP7BDP4CP5BDP2CP3BDP5CP3BDP8CP3BDPyCP6BDP4CPzBDQBCP1BDP7CPzBDP8CP8BDP7CP5BDP5CPw
+BDP2CPvBDP0CP2BDP9CPyBDQECP5BDP_CPxBDP0CPxBDPxCPxBDPvCP2BDP8CPtBDQECPxBDQECPsBDP_CPsBDP5CPsBDP0CPsBD
+PxCPsFDP4CP3CDPxCP98DP2CPyAABrDPgCQCBDPUCQCBDPcCQCBDPZCQBBDPZCP-AABfDPMCOEBDPZCNgBDQCCMsBDPYCM3BDPSC
+OeBDQECMLBDPyCMxBDPnCNSCDPaCMIBDPHCOBEDQACNCBDPgCM1BDP6CM5BDQMCLsCDPMCNoBDPkCNkBDPICM-BDPyCOJCDPGCOb
+BDPxCMGBDP5CN5BDQACNMBDQMCNXBDPVCMdBDP6COCBDQNCNrBDP0CMYBDPmCODCDPcCNxBDPTCN3BDPrCOZCDQKCMLBDPJCMlCD
+P6CMFBDPoCMxBDPaCOIBDPRCORCDPVCN_BDPyCOjBDPHCNbBDP8COUCDPrCMKBDPrCL8BDQUCNUBDQMCMPBDQWCOgBDP0CNwBDQF
+COEBDQHCNCBDQcCNLBDQACNWBDPeCOTCDPkCMXBDPNCNLDDPzCL8BDPZCNOBDQQCNpBDPwCNBBDQGCL6BDPiCNLBDPtCNlBDPPCN
+1BDQTCMiBDQTCM_BDQSCOZBDPmCMCBDQaCL-BDP2CMqBDQNCM7BDQQCMLBDPFCOoBDPJCMRBDPKCMyBDQHCMgBDPtCN2BDQICN3D
+DPzCNSBDQGCOPDDQGCNeBDQJCNqBDPRCM2AABoDP8CNmBDQCCNpBDP7CNeBDP8CNjFDP1CNjCDP4CNlBDP-CNtBDP6CNlBDP7CNs
+BDP7CNYBDP-CNxBDP5CNZHDP7CNiAABCDP8CNhJDPsCK9BDPhCLPBDPICMEBDPoCLNBDQCCLkBDPZCLMBDPOCL5BDPQCLtBDPzCL
+pBDPiCLEBDPGCLzBDPKCLsBDPkCLgDDPyCLSBDPuCLHBDPbCL3CDPWCLiBDP5CK-EDPsCLtBDP_CLMBDP5CLWAABKDQsCNcJDRNC
+M7BDQVCNnCDQlCNDDDQiCObDDQ9COiBDQ3CNQCDQoCOoBDQtCN-BDQkCMOBDQVCOGBDQ3CN2CDQeCN8BDRACMLBDQ5CNaBDQ-COZ
+BDQeCOGBDQuCOYBDRWCM6BDQvCOFBDRLCNFBDQbCMZCDQ5CN-BDQvCM9BDQuCMaBDQiCMXBDQbCMkBDQ5CMvCDQ8COKBDQ_CN-BD
+RCCMkBDRCCNqBDROCMaBDQbCM0BDRCCNRBDRBCNeBDQrCNtBDQcCNkBDQqCOKDDQpCMoBDQfCN0BDQiCMuBDQ4CMOBDQzCOmBDRP
+CNZBDQ3CNBDDQ0CMQBDQmCNugDTdCI5BDS4CI7BDSmCIzBDTaCJTBDTTCJJBDT3CIfBDTPCI9CDTfCImCDSgCIyCDTECJJBDSZCI
+nBDS5CIzBDS6CIbBDTICIsDDTXCIeBDShCIZBDStCIjBDS5CIpBDTuCIgBDTKCIcBDTTCIrBDS0CJMBDS3CJE2DTDCIVTDSnCPoB
+DTuCPvBDT8CO8BDTnCPVCDSJCPCBDSeCPCDDRqCPoBDSpCPKBDTBCPrBDRyCPRBDTVCPlBDSBCPnEDT5CPcBDUMCO3BDUTCPPCDR
+tCPgBDSzCPNBDT2CPIBDR1CPtBDSoCPVBDSuCOfBDRlCPcBDR3CPYFDSzCOxBDRzCPOBDSkCPWBDTdCPHBDS4CPoBDR1CPRBDShC
+PwCDTECQOGDTRCPEBDS5COhBDUFCPxBDSRCPBBDSyCP4BDSvCPeBDSNCPcBDT5CP2BDTBCQDCDTPCQABDRkCPmBDTKCPhBDSaCPV
+DDSMCPQBDSmCOxDDRqCPUBDSOCO2BDSgCPmCDSYCPvBDS_CPEBDTaCOxCDThCP5DDR5CPeVDSXCQjBDTFCRGCDSkCQXBDSVCQVCD
+RgCPyBDR8CQEBDS-CQ5BDTVCRQBDTMCRDBDTHCQ_BDSeCQfBDRsCQNBDRvCQEBDSECQbBDSPCQMDDRhCQMHDR0CQEBDR0CQTBDSQ
+CQCBDRoCP4CDRZCP4CDTOCRKBDSsCQvGDRuCQZEDRbCP6BDThCReBDRsCQF2DSICPuBDSLCPyBDSOCPrBDSJCPpDDSHCPsEDSICP
+7CDSSCPkAABYDS5CNFCDS-CNXCDS5CMMBDSBCNuBDSNCNwBDS_CNsBDTICN7BDSOCMlBDTCCMlBDSaCMrBDR1CMZBDS4CN6CDSwC
+ORBDS_CNLBDTRCOOCDSVCMFBDSyCMLBDS6CL7BDSSCNhBDTZCN5BDS9CMGBDSzCMoBDSqCNyBDToCN8CDTKCOXDDTTCLXCDTgCNg
+BDSNCL9BDSmCLpDDSpCNlBDSYCMdBDTgCNKBDSVCNBDDSjCL5BDTHCLgBDS1CM5BDSYCMUBDS8COIBDTQCL_BDTSCM9CDSUCM0BD
+SlCNIBDSOCLpBDRvCMyBDSKCNtBDTlCMQBDS3CLzCDTjCOLBDTuCN1BDTBCOKBDTkCOYBDR_CMHBDSBCNWCDR7CM1BDTZCMaBDS1
+CNiCDSZCNpBDSvCNOBDSICM9BDSxCNYDDSjCMHBDTBCMNBDSMCNLBDSPCNZCDSoCMgBDTjCN2BDSgCOHBDTvCNCBDSsCMFBDSGCM
+oBDTdCL_BDTTCOlCDSeCLXBDR6CNCBDR_CMsDDTACLpBDSnCN6CDT-CNpKDUGCOeBDUpCNKBDT2CMaBDUjCL2BDTvCL3CDUsCLLC
+DUlCNyBDTyCOTBDUYCNzDDUPCMBBDVLCMRBDTxCLSBDUtCLoCDUACNJBDTxCLgBDUHCM_DDVDCMSCDVDCMGBDTxCLsBDUeCMvBDU
+NCNSBDUvCNnBDTzCOuBDUYCOlDDUtCM3BDU9CLdBDU1CMdBDUTCM5CDVDCMOCDUZCMLCDUmCOGBDUJCMHBDTxCMIBDU1CNBBDUZC
+NaBDVSCL3BDUkCNVBDUnCNhBDUMCOEBDTqCLHBDT4CMsBDU8CL5BDTnCOxCDUcCNJhDRFCK2CDRKCKrHDR9CJxBDSFCLJBDRxCKS
+BDRgCMwBDROCLJBDRzCLaBDR3CKvCDRUCMLBDRACLbCDQ1CK8BDRzCJ3BDQ9CLBBDQiCK3BDRlCKPBDQKCK_BDRpCKtBDQZCLBBD
+RpCKEBDRkCKfBDQRCLVBDQsCK1CDQuCL-BDSACK_BDRYCKuBDRMCMNBDRDCL_BDQxCLsDDRnCLABDRrCLpBDRcCK-BDQUCLLBDRg
+CMfCDRICLpCDRPCKuBDQ8CLvBDQkCLbBDRGCLLBDQPCLJBDQZCLcBDRXCLYBDQICLNBDQ4CKxBDR1CK6BDRXCL1BDReCKVDDQlCL
+oBDQpCLLBDRpCL7BDQ3CLSCDRPCK8BDRICL4fDSjCKRCDSrCKQRDSpCKYBDSXCJYBDSfCK6BDSVCI2BDTHCKUBDTDCJhBDS2CLBB
+DS3CK0BDTbCKEBDS3CKdBDS-CJ8BDTfCK7BDTKCKzBDTYCJvBDTFCJVCDSVCJoBDSgCJiBDSTCKTBDSuCJ-BDSjCJPBDSVCLGBDS
+kCKpDDTVCK4BDSPCLSBDR_CKSBDTECKqBDS3CJWBDSYCJEBDStCJnDDSDCLbBDSSCKABDSHCJmBDTUCKQBDSQCKuBDSKCJUBDSCC
+KvBDSWCJOBDTWCJgBDTOCJsDDTeCLSBDSrCJGBDS5CLLBDSLCJJBDSPCKfBDS0CLXBDTECJrBDR_CKmcDUSCJmEDTlCJeBDVXCLT
+EDTqCI5CDTjCJsBDT-CJeBDV2CLODDUACKPCDTsCKmBDVYCKMBDU2CKzBDTkCJ_CDTsCIqCDTuCJOBDVwCK5BDUQCKnBDT1CJYBD
+UrCJJCDVACKiDDUACKrBDVNCJMBDT_CI8BDU5CJ1BDVECK1BDUHCIbBDT5CJ2BDVRCJtBDUiCKnBDVuCKuBDUMCJSBDVGCLgBDVa
+CKcBDTwCK6BDVQCJ8BDV-CLvDDT2CIyBDVhCKBBDVGCLVBDVLCK5BDT3CKIBDTwCIyBDUtCJvCDVcCLoBDUNCK4CDVcCJ0BDVsCK
+fCDUOCKwBDTxCJ8CDUDCJ2BDUHCJgBDUJCI5BDVDCJ-BDVZCJmBDUdCJ_BDUPCKSEDVbCJTIDUdCJtBDTmCJPCDVmCLHCDUUCI_C
+DTpCKWBDUNCLQFDReCO6BDRTCO6CDRaCOyFDR0CNnCDR0CPKCDR6CPIBDRzCO-BDRwCPMGDR2CNSBDSPCOmBDRYCOPDDSWCOKBDR
+iCOvBDSjCOYBDSYCOmBDRbCNVBDRzCOtBDRICOyBDSaCOpCDRCCPFCDQ8CPIDDRuCOcBDRICONBDR2CO6BDRkCNTBDR4COxBDSRC
+N-BDR6CN9BDRsCOqBDSmCOXBDSJCOVBDSaCOUCDRsCPOEDRqCO7EDRSCN2BDSBCOkBDSJCOJBDRdCOjBDRQCOmBDRpCOIBDRtCNa
+BDRlCOOBDRJCN-CDRfCOCBDRKCOdDDRCCOvDDSGCN7BDSnCOVBDRLCO6BDRXCOjBDR4CN_BDRfCNvBDR4COSBDRrCN2BDRgCO8BD
+RkCOlPDSyCIOCDS9CISCDTkCHmBDUGCHoBDUdCHwBDT1CHgBDSICIJCDTeCHjBDToCIRBDTfCIHBDTNCHwCDSqCIDBDT_CHQBDSB
+CH-BDSBCHjBDSSCHXBDR2CHhDDSXCHuBDTWCH6BDSMCI-BDSBCIjCDT8CHoBDURCHwBDSVCIABDT3CH9BDSfCIKDDUTCHwBDUhCI
+RBDTNCH-CDTrCHgBDR_CI_BDS7CIHBDS2CITBDSYCHgBDTkCINBDSECHTBDTQCIOCDRqCHkCDUaCHaBDRvCHQBDR7CH1BDSRCHZB
+DSvCH8BDTvCIABDSHCHqDDReCHlDDUQCIGCDSPCH6BDSLCIqCDSiCH2BDUCCH_BDTlCHeBDSqCH8BDUuCImBDTYCINBDTjCIYBDS
+xCH4BDSrCH5BDSqCH0CDTmCH4BDT_CHmCDTDCIMCDTqCIYBDSbCIACDRwCHTBDSMCHWBDSTCIZBDTBCIACDTdCHyJDS3CHzBDS1C
+HwBDS4CHwBDS3CHsBDS1CHrBDS4CH3BDS1CH0BDS6CHrBDS-CH5BDTFCH8BDSxCHpBDTECHpBDS9CHtBDS5CHoBDTDCIBBDSzCHr
+BDS8CHzBDSxCHyBDS2CH7BDSwCHtBDStCHsBDSoCHoBDSoCHuBDSjCHoBDS0CICBDTECHuBDTECH0BDS7CIABDSwCIHBDS5CH0UD
+SxCHsFDS3CHyAACSDTUCG6BDTVCGMBDTZCHRBDTVCHiBDS4CHRBDShCHfBDSUCGNBDTlCGoBDTiCGzBDSkCFABDTHCHKBDSfCF1B
+DTNCGnBDSmCFbBDSfCG3BDTNCHVBDSuCHFBDSpCG8BDTrCGdBDTkCGPBDTFCGFBDSlCGtCDTBCFtBDTECF4CDTQCHNBDS_CGrBDT
+aCFgBDTdCHDBDSyCG_BDSMCFSBDSQCFCBDSOCGFBDSNCFhBDSlCGFBDSmCHhBDSbCGYBDSgCGcBDTECHDBDTMCG6BDSiCFOBDSzC
+HSBDSuCHRBDS0CHMBDSwCHMBDSrCHOCDTCCGRBDSyCFxCDSZCHBBDTdCF4BDSxCGSBDTFCFgBDS8CHBBDTGCG5BDTUCGYBDS9CG3
+BDS0CGgCDTaCGnBDTACGgBDS2CG4CDSbCGBBDSyCGaBDSiCGiBDTJCHPBDSmCGVBDT2CHBBDScCHTBDTFCG0BDTOCHCBDSxCGzBD
+TRCG4CDSkCHYBDSiCHJCDS1CGEBDTaCGECDS2CG9BDSiCFnBDSuCG6BDSuCGuBDS3CGnBDTaCFsBDTDCGaBDS4CHGEDS4CGSBDSO
+CFzBDSqCGeBDTqCHBDDS7CHhBDS6CHhBDS5CHgBDS4CHiBDS5CHeBDS2CHmBDS2CHjBDS2CHfBDS1CHgBDSzCHcBDS8CHeBDS_CH
+eBDS8CHkBDS6CHmBDS5CHiBDS3CHaBDSzCHkBDS-CHkBDSzCHfBDSsCHgBDTBCHjBDS9CHaBDSwCHgBDSzCHaBDStCHlBDS4CHWB
+DS8CHWBDTCCHWBDTCCHaBDTCCHeBDSqCHdBDTGCHjBDTMCHdBDTMCHjBDSvCHaBDSzCHWBDSqCHaBDSqCHVBDSvCHXCDS9CHRBDT
+BCHRBDTICHaBDTHCHeBDTICHWBDTACHLBDS8CHLBDTPCHeBDTOCHqBDSvCHlEDS5CHkBDS6CHkAACSDWcCKfBDWkCJnBDW7CKvBD
+XmCLsBDXjCNKBDXkCMmBDXCCKSCDWBCJ1DDXTCLhBDW9CLFBDWnCKeBDXPCLTBDWdCJ_AABWDWACIgBDXNCIVBDU2CIVBDWzCJFB
+DXHCJhBDVXCIgBDW6CI-BDWsCHXBDXFCIaBDVyCIbBDU8CIsBDW1CIUDDWkCHiBDWLCI5BDVeCIvBDW6CIKBDVrCIrBDWaCG4BDW
+gCHRBDXYCIKBDWVCI7BDYLCIrBDVhCINFDXoCJ5BDXJCJHBDVnCI8BDWrCIuBDU1CH7BDWACIECDWeCIeDDWyCI6BDWVCHuCDWbC
+HJCDWmCIBCDWDCHABDVMCI0BDW5CJkBDWrCIdBDV_CHjBDWsCH0DDVGCIkBDVVCIBBDW3CIYCDVgCHiDDWlCJJBDWlCHfBDWOCIW
+CDVNCITBDW6CIeBDW0CHqCDX0CIGBDXzCHyDDWiCHsEDV7CIzBDVkCIcBDXICH1BDXXCJLBDVJCIEBDWKCHrBDV8CGzBDWkCHWBD
+VoCHxDDXXCI6CDXACIwBDWQCHgCDU-CIIBDXhCJ0BDVZCI8BDVoCH_EDVsCJYBDWHCJZBDV9CJmBDVwCJXBDVtCJTBDVqCJPBDVk
+CJICDVsCJFBDV0CJKBDVxCJZCDV0CJMAABXDRgCIuBDRVCItBDRaCI0BDRTCI4BDReCIrBDRiCI3DDQsCIXBDRlCJjCDQ4CH9FDR
+MCH0BDQ-CILBDQyCKmBDRZCIiBDQyCKUBDQsCJqBDRJCJOBDRcCH6BDRPCKWBDQ-CIZBDRbCIJCDRWCJSCDQnCKdBDRnCJCBDQ1C
+IbBDRYCJFBDQ_CJTBDQ7CImDDQrCJYBDROCIPBDQ8CKhCDRCCKKBDRXCIYBDRzCJbBDRyCIBBDRGCKfCDQ6CJnBDQ-CH_BDQpCIw
+BDRSCJwBDQpCH_BDQsCJ2BDRhCIWBDR1CIrBDRxCJCCDRkCJ0BDRmCIqBDQxCIwBDRACJvBDRqCIdBDRoCJQBDQyCJTCDRDCItBD
+SACJXBDRgCJsBDQwCINBDRGCJ4BDRXCJbBDRFCITBDQuCKDBDQ4CI8BDRKCIwBDQrCIfCDRQCJlCDR8CJbBDRGCIHBDR1CIPCDRo
+CIGCDRXCKFDDQ9CJGBDRyCI2BDR4CIcJDRlCGaCDRuCGPEDQ2CHcCDQ2CHFBDRNCGGBDSUCGvCDQyCGOBDQuCGqCDRACHaBDR3CG
+qCDRkCE_BDQxCHHBDR1CF4BDRdCFEBDRBCGXBDRmCGoBDQ_CGgBDRNCHfBDQoCGMBDRvCG0BDQoCHGBDR4CFcBDQzCFqBDRCCHDB
+DQtCGeBDRbCGGBDRGCHhBDQrCHmBDRZCGUCDQ2CF4CDRoCFjBDRECHMBDQ1CHmBDSQCGcBDRACHnBDRVCHhCDRhCG1CDRyCGdBDQ
+qCG1BDR5CHECDSECFzBDRlCGABDRfCFeBDR_CG0BDSECGhCDRRCFsCDRdCFvBDRtCGqCDRRCGhDDRLCGrBDSBCHGCDSNCHCBDROC
+HIBDR3CFpBDR5CGEBDQ-CFsDDRZCGwCDRgCGmBDRXCFZBDR8CGUBDRtCEnCDR1CFPCDRwCE2BDRHCFqBDQtCHOBDRTCGBBDRPCG3
+CDReCHIDDRwCHABDQ8CG1BDRDCGGDDRMCEnJDQyCDVBDQ0CE_CDSACDBBDRXCD5BDRtCDZBDQyCCqBDQoCDvBDRSCExBDQ7CEGBD
+RUCFJBDQpCFeBDROCDUBDRhCD5CDRdCD9CDQrCFMBDRMCDFBDQpCDMCDRKCD7BDRsCDoCDRDCC5CDSKCCnBDRGCEVBDQqCCqBDRi
+CC-BDRPCCrBDRNCDkBDSHCC5BDQzCE0BDRICCpBDReCEjBDQuCDGBDRACDKCDR2CCxBDQzCEgBDRbCDXBDRvCEYBDRHCDOCDRBCD
+VBDQ2CC5BDSACDVBDQzCDIBDRSCE6BDRHCFHBDQ7CEUBDRICFVCDRdCCvBDQ9CDuBDRsCEOBDQrCELBDQxCDkBDR5CDPBDRoCDGB
+DQ3CFMBDRZCDmBDQpCC4BDRaCEVBDRyCD0BDRCCFQCDR1CDDCDRxCEGBDQ4CFZCDRbCEJCDRECDiBDRbCDIBDQyCD6ODTGCEwGDT
+vCDJBDTVCDQBDTJCFHBDT0CCYBDT3CCLBDTJCCwCDSVCEUBDTcCD7BDS2CEuCDSrCDWBDT4CB-BDShCCzBDT0CC9BDS7CEQBDSkC
+DiBDR-CEtBDToCCkBDTlCDwBDTZCC_BDS3CFTBDSTCDsBDSnCErBDTYCDoBDS1CDMDDUDCDOBDT-CCoBDSWCEJCDSKCDZBDT0CCg
+BDSoCD7CDTNCFTBDTsCDmBDScCDwDDULCDCBDTcCDaCDTKCE8BDTOCEVBDS4CFBCDR_CEKBDS-CC7BDS5CCoBDSECDpCDS4CEECD
+TICDdBDSCCD_BDSTCDSBDS8CDtBDSCCE9BDT2CDXDDSQCE3BDTUCELCDTcCE2BDUWCC4CDTUCCxBDSlCE1BDTfCCqBDTSCEjBDSX
+CC_BDS3CEkBDS_CEeBDSNCEmBDSlCEfBDSnCERCDSICETBDTUCE6BDTdCEeCDSWCDKBDSKCEGBDSCCEaBDR3CEfBDTACDfBDUPCC
+gBDSYCD9EDTtCGACDT1CGCBDTxCGSDDT7CFdBDUTCENBDUoCDjBDT7CFrBDUWCDaBDTqCE3BDUKCHFBDUNCFtBDUeCD5BDTvCEmC
+DURCFVBDUhCEeBDTrCFwBDT2CFxCDT7CDsBDUxCDaBDT0CE5BDUkCDxBDUHCD3BDUbCFkBDUDCGhBDUHCGwBDUACFVBDUdCEBCDT
+1CESBDT4CFCBDUOCFMCDUgCGpBDUOCDiBDUICFtCDUyCHXBDUMCDtCDUhCFyCDUdCFCCDUECEABDU_CHlCDT8CFHBDUMCG9BDUmC
+EYBDUaCEbBDT7CFPBDUBCGsBDUQCHPBDUqCG5BDUVCEqBDUwCETBDTkCFRBDUCCG7BDUiCGRDDUICGGBDTqCFgBDTrCF2CDTnCFY
+CDUSCGBBDT1CF4BDUCCF9BDTuCFVBDT8CGBBDUFCE1BDT8CGQCDT0CD-BDUXCFcCDUNCFfBDUBCEfBDUrCHIBDTwCGACDUMCErMD
+VACGLYDVCCF8GDVRCG8CDV_CFTBDVCCE7BDVxCFjCDU5CEuBDUuCFGCDUuCE4BDVaCGaBDVkCGOBDUxCFeBDVMCGjCDUtCEqBDVp
+CGkBDVvCGQBDUyCF-BDU4CGoCDWACFrBDVACEiCDVMCGYDDWYCE0DDWbCFDDDVtCEqBDVWCGNBDVMCFaBDWBCFFBDVRCF5BDVuCH
+DBDWHCErCDVaCF2BDVECFpBDVoCFwBDUoCFhCDVgCE0CDVLCFJCDVOCE6BDVOCElCDWPCFoRDV0CDhJDWoCCcBDV0CDODDVhCClB
+DU_CDvBDWwCDTBDW7CCYBDVRCEbBDWUCCgBDU9CCeBDWECDaBDUtCCpBDXECB_BDU2CD2BDVjCCFCDVFCEVBDVUCDiBDV4CCKCDU
+fCDSCDVICDCBDVPCDPBDXICDMBDWICCbBDU8CDHDDW6CC1BDWVCDCBDW9CDrBDU9CCuBDVsCD3BDWsCC4BDWOCCIBDV5CCZBDWpC
+CFBDV1CCxBDWfCCGBDVACEHBDWDCC5BDVLCCSBDV5CDECDXGCDcBDWiCDgDDV0CCHCDV2CCDBDV3CCECDUlCCwBDWdCD4BDVXCEP
+BDW6CCCBDWMCDhBDV8CEPBDVLCD-BDVdCDIBDVdCD-BDWYCCJBDWICEJBDVQCDqCDV-CD0BDVOCCuBDVqCCUBDWyCCECDUgCCnBD
+WaCC4BDWNCC3BDVACDhBDVgCDeBDU1CECBDWZCDrBDUjCDBBDWOCDeBDW5CDPCDVXCCQHDW3CFGUDWsCELCDYkCFcDDWqCGJBDX7
+CGTBDXKCHHBDYbCGHBDXOCFlDDWkCFmBDXICEMCDWrCGnBDXCCGoCDXgCHGCDWYCF-DDXSCEBCDXSCD1BDXJCFaCDYdCHsBDXoCF
+gBDWxCD2BDXLCEdBDYECHDBDYTCGcBDWCCGBCDW9CG8BDXzCGfBDW7CGTBDXnCGFBDXYCGLBDV2CGnBDW3CFsDDXrCFGBDXMCE3B
+DYmCHZBDYNCHnBDXXCFBBDXiCESBDWLCGYBDY1CElDDW4CEgCDWwCEoCDXGCGdBDW7CF-CDXOCFNBDXbCDuBDYACFjBDY2CE9CDX
+VCGoNDX0CC8JDX-CBsBDZKCEuCDYLCB_BDY3CDPBDXVCDVBDXOCCYEDYgCB2BDXlCBxBDXmCCPBDXUCB_BDYVCDrBDX2CDtBDYwC
+C6BDYLCENBDY2CBuBDYrCCVCDZDCBlBDYiCChBDYoCB2BDY1CCUBDZDCCQBDXLCC7BDYRCDPBDYLCCuEDXhCDhCDX_CBgEDXgCDP
+CDXdCCyBDY5CDoDDXmCC9BDZJCBgBDZCCD8BDYYCB2BDYXCCaBDYfCDIBDYACCjBDYlCDuBDX5CCGBDY5CESAADuDP0CCOBDR1CC
+MBDQ_CCEBDP8CCBBDQvCCVBDR4CCBBDR4CCCDDPhCB-CDQvCBQBDQQCCSBDP_CBwBDQfCBvBDRMCBwBDRbCB-BDRECBuCDQ4CB-B
+DQPCBuBDRKCCGCDRXCCMBDPYCCLBDRxCCeBDQHCCcBDReCCUBDQVCA9BDQ-CCaBDPoCBZBDQeCCMBDQxCBwBDQACCaBDQ1CBkBDQ
+PCBdBDP-CBTBDPKCCWBDQWCB5BDP6CAxBDQ8CB4BDRVCBeBDQeCBNCDQJCA3BDPwCBNBDQoCBWBDQ-CBYBDPECCdBDRoCBqBDRuC
+BJBDQRCAlBDQdCBeBDRkCBSBDQ3CCGCDRiCBwBDQ-CBEBDQACAgCDRwCBoBDPlCANBDPtCAoBDQiCB5BDROCCTBDPzCAVBDP5CA9
+BDQtCCeBDPkCBtBDQGCBbBDRzCBwBDPzCBXBDP1CBmCDRYCBvBDRVCBIBDQTCCFBDPsCA_ZDQqCCLBDQwCCKBDQoCCGBDQnCB9BD
+QwCB-BDQkCCKCDQqCCQHDQpCCFAABQDQoCCGEDS2CBjLDR-CBeBDSRCCaBDSICBYCDTaCCbBDTFCApBDSZCCVBDTZCAcBDSGCB0B
+DSVCBACDSfCBtBDUNCBcBDSwCAjBDSnCCHBDTiCCHEDR-CAyBDT6CBEBDSLCBEBDSVCB3BDTDCBMBDS7CAxBDSoCCeBDSvCB6BDT
+vCBNCDSeCBWBDSlCBIBDSzCBACDSxCB0BDTBCCNBDUDCA-BDSSCBZBDR-CBHCDTYCBzBDTQCCTDDURCBxBDTVCBYBDTuCBpBDSwC
+APBDS8CCYBDUQCCIBDTzCA6BDT_CBlBDTKCBrBDTHCB_BDS7CCCBDTZCBjCDSRCCLBDTSCCABDURCBLBDSkCA2BDTHCA8BDTdCBQ
+BDTbCA0CDSECCSCDSZCAoBDTmCB5WDQ7CAEKDQ1CAgBDRrB_iBDQSB_lBDRdCAKBDPzCAECDQCB-nCDQpCA8CDRLCA2BDSYCAMBD
+RoCAkBDR2CADBDRHB-FDDQgB_cBDPyB_5BDQOB_4BDQjCAEBDQrCAqCDQqCAIBDP7B--CDRYCAeCDRlB92BDRDCAXBDRhB-YBDQM
+B_CCDQhB_KBDSSB94BDRxB92CDSXB_jBDRbCAyBDR_B_0DDR9CAZBDQHCAYBDRCB-rBDQDB_VCDRgB_eBDROB_5CDPzB_dBDSHB-
+dBDQ4B_uBDQfB_KBDRFB96BDQbCANBDP7B_WBDQ_B_ZBDQeB-pBDRGB-TBDSEB-OCDSNB-wBDQ_CAwBDQsB_YBDQKCAODDRzB_TB
+DP3B_qBDR_B-_BDReB_EBDQ8B_BBDSCB_XBDRdB_qBDSLCAIPDTsB_TTDTYB8yBDUICARBDTmCAPCDS-B_UCDUFB_XBDTsB_oBDT
+pB9gBDTMB_qBDUPCAkCDUACAFBDT8B_oBDTNCABBDTLB-tBDSsCAABDULB9mBDTDB-VBDTdB_-BDStB_uBDUPB_VBDTCB8wDDTrB
+_9BDUTB_5CDT5B95BDUFB_2BDTRB9RBDToB-qBDTxB9OCDT5CAgBDS9B9gBDUEB-kBDUUB-VDDTYB_FBDTMB_cEDTLB_FBDTQB92
+BDSsB-SBDTtCAiBDSuB_PBDSwB-vBDTkB-EBDTnB81BDS7B91BDTZB_sBDTSB9mBDSfB_KBDS_B_6CDTaB_cCDT-B_EUDSNB8hTD
+StB8tBDRDB7LBDSLB9EBDQNB-MFDQGB9YBDQLB9sCDRVB8PBDR8B8HBDQXB96BDQsB9jCDSCB9XBDSSB7VBDQAB-UCDSGB9nBDQv
+B9JCDQ_B6oBDRMB9QDDQlB6yBDRpB9pDDQHB6VBDRyB7GBDSHB6bCDQRB79EDRRB74BDQgB7HCDROB7gBDQXB8WBDSiB8_CDQTB7
+TBDRlB6VBDRMB82BDRKB9tBDQNB7nBDP4B-bBDQCB7SCDQBB61CDRPB8jBDQoB6aCDQuB7xBDQRB83EDQlB86BDQsB8aQDTeB8cT
+DTiB5CBDUJB7UBDScB6jBDS-B6bCDS6B7ZBDS8B5nEDTdB7sBDT3B8iBDUPB88BDToB6nBDUJB6FCDS_B6wCDUTB5hBDUAB7vBDU
+JB4yBDUWB69BDULB75CDTsB5vBDUXB6UBDUAB86CDUZB8gBDTtB4jBDUPB4RBDTsB4RBDTKB78EDTmB7RBDTwB7xBDT_B8IBDUVB
+7TBDUPB6nBDTXB7eoDRkB4ABDRbB3qBDRYB4QDDRoB4KIDQVB6BCDP9B5kBDS1B26BDRpB3vBDRvB4VBDTyB3ZCDQgB4VCDT1B2w
+BDRRB4pFDQ9B3TCDR5B3PDDQRB2_CDSQB5EBDQ4B4EDDSBB3lDDRDB4RBDRZB3FCDQZB3gBDSTB53CDQvB59BDRLB3pBDQfB5kCD
+RyB27BDUTB3xBDQMB5ICDS7B4uBDRvB3cBDSxB3zBDRvB4pBDSjB3WBDQAB37BDQOB4rCDQYB4CBDRmB4_CDRxB33BDP8B43CDQk
+B5DBDQvB3ZCDRhB54BDTUB3hDDSRB3IBDRBB5ICDQNB4CBDSGB23CDSAB4BCDSbB42BDSWB4ACDRiB5kBDRxB5KBDSUB5TBDSNB3
+aBDQAB5PFDSKB29AADKDVNCCGBDWBCBECDWHCBRBDWJCBxBDWOCBYBDWHCA-BDU_CBsBDWlCBUCDV9CA2BDV-CBbBDUmCBJCDVbC
+B-BDWpCA-BDUkCAXBDVLCB3DDVqCBkGDVfCAtCDWQCBFBDUjCCNBDVtCApBDUoCArBDVLCAQCDWdCBBBDWTCBwCDWdCBtCDUzCAo
+BDUkCB1BDWBCBwBDUdCA2CDWrCBqBDWkCAjBDVnCB5BDWYCBWBDVjCAJCDVgCBqBDVfCBQBDUlCBaBDVKCApCDWcCAPBDVLCBRBD
+UyCBvBDVzCBeBDU7CBBBDU7CB3BDVgCAYBDWACAcBDWSCAtBDWYCAfCDUnCA6BDVXCBCBDU4CAYCDV-CAoBDV9CAHCDU2CB4BDU8
+CCHBDU7CCTBDVUCBuBDV3CByBDV3CBHCDU_CBeVDV9CB9BDV2CB-BDVvCB8BDV6CCAAABgDXbCBeBDXgCBkBDXlCBbBDXkCBHBDX
+jCBEFDYRB_9CDXKCAICDXhCA6CDZACBACDW_CBmBDW0CB4BDY4CAiCDYmCAoBDW4CBqBDX5CAOBDYlCBWCDYfCATBDXbCBJBDYbB
+_wBDW1CAaBDX8CAZCDX8CA1CDXxCA8BDYwCA6BDYSCBEBDY2CBEBDZEB_EBDXECA8BDYvCAmCDYbCAoBDXzCAqFDY6B_nBDYDCAG
+BDXjCAmDDXRB_5BDZMB_lBDXwCBYBDW1CBPBDXpCBKBDXqB_8BDYoCADBDYACBMBDYsCAUDDZICAxBDXoCAXBDXQCAtCDYuB_4BD
+YPCAdBDZDCBPBDXpCAKBDYGCAqBDW1CA7BDXJCBhBDYmCA-BDXBCAaBDXSCBgDDY-B_KBDZCCAOTDX2B-vJDYhB9tBDYpB_QCDX5
+B88DDY8B9UBDYnB98BDY-B8YDDX8B_pCDY8B-sBDYYB-OBDYFB-YCDXyB_PCDY-B85BDYTB_YBDYoB-bBDXsB9XDDXlB-iDDYdB_
+JBDZJB-ECDXRB9MCDYGB9bBDXqB_mBDYHB_iBDYFB95CDXjB9wDDXyB-FBDYuB-yBDYoB9pCDYiB_gBDXHB-dBDXiB-OEDXPB_iB
+DX_B-eBDY1B91CDY8B-NBDYpB9NBDZAB9sBDYAB89BDZIB9TBDXnB-xCDZGB-jCDXWB-aDDYXB-xCDXeB-2BDXXB_WBDXXB-9BDY
+IB-4CDYkB8lBDYXB9jBDYIB9oPDV4B-7BDV4B_DDDV7B_CIDUfB-DCDVEB_XBDW7B_kCDWuB9kCDWKB-yBDWwB-cBDW_B97BDWvB
+9RBDV4B-bBDWxB_8BDWaB_OCDVxB9ZBDWYB_3BDW3B8mBDVTB_WCDVFB_ADDUoB_OCDXHB9rBDUdB-1BDU8B-UBDUyB_jBDVXB-S
+BDWyB_EBDW0B8yBDW8B-6DDWjB_0DDWxB9DBDW6B_xCDVaB-pBDWiB-_BDU5B-pCDVFB_rCDU_B-EBDVhB_1CDW1B8RBDXBB_LCD
+VdB_jBDV3B-DFDVgB_HCDUqB_6BDWTB9vBDWXB-kBDWaB8MBDWUB9ZBDWNB_0BDV_B_uBDV9B_eBDV3B9KBDVjB95BDWpB_aCDWs
+B99BDV2B9nBDWWB89CDVGCABCDWUB_eCDWWB8mBDU7B9oBDWSB-FBDVtB_VEDVxB76CDV7B71BDVqB78BDVyB7yPDVjB6jBDWHB7
+9CDWfB6OBDVeB85EDVAB8EBDU-B6iBDWRB7MBDW-B7EBDV1B81BDVHB6MCDVQB7DDDUoB7-CDXCB6TBDWmB50BDUkB9BCDVTB8bB
+DWnB6gEDVOB9GDDU4B8jCDVsB7hEDVyB8LBDWzB77BDVhB8hBDVRB9iBDVEB53BDV6B6wBDU7B66BDW2B63BDVaB7lCDUqB7cBDU
+7B7IBDVGB7pBDWhB6zBDV3B8eBDUsB8sCDW7B7nBDWwB7HBDWkB7XCDWWB72BDWfB5-BDUlB9TUDV7B4lTDVTB3yBDWQB22BDV4B
+37BDUwB3qCDWgB5lBDWqB48BDWbB35DDV9B4_BDVwB6IBDVjB2zCDWwB3wCDWrB5VCDV8B50BDUnB43BDWxB4dBDVjB5HBDWYB4l
+BDU2B20BDWRB5VBDV_B3dBDVHB5bBDVUB4aCDUuB4eBDVMB46BDU6B3KBDV7B5gBDUpB4HBDVuB3CBDVtB4RBDWAB5KtDX2B67CD
+YIB6-BDYRB68BDYSB65CDYBB6-DDXbB8pBDZFB7BBDXlB8JBDYcB8DDDXUB7VCDYFB6MDDY6B5fBDYBB6qBDXPB8ECDYYB6YCDY-
+B4oDDY-B31BDYVB7eCDX6B6hBDYbB58BDXcB6sBDXhB8YBDZDB5QDDYXB7GBDYEB7tDDX0B8FCDYvB5vCDYqB8ACDYlB60CDY6B4
+8DDYnB4ZBDXlB6LBDXJB5ABDXRB83BDXYB7DBDYuB7OBDY3B6oBDYrB7iBDXmB4-CDY_B4QDDYBB7aBDYHB5gBDXbB5oBDXxB56B
+DZIB45BDYiB42CDXLB6GBDYBB46CDXTB7lBDXZB6RCDXrB7PBDZGB6WBDZAB70BDYMB5OBDYHB7SCDY0B6LBDYJB8QBDYfB7vBDX
+rB7hCDXlB71BDY_B7XBDYDB4pBDYoB4EGDYAB3HdDYkB3mBDXZB3TCDZBB3gCDXOB3nDDXRB26FDX_B3uBDZBB3JBDYoB24CDXdB
+4dCDYHB4EDDYOB4bBDXuB3LBDXXB4FCDYkB3LAACRDTxBuGBDUiBvdBDTtBzUDDUYBwXBDTNBupBDTEBu0CDUdBxmBDUYBtdBDTc
+BypBDTqBu0BDTMBvdBDUpBvNBDTqByJCDURBsaBDT7BukBDTHBtOCDT1BxqCDU8BwzBDTFByiBDTtBvSBDTWBr-BDTaBt1BDTkBv
+QBDTFBscBDTuBxfBDWGBvaBDUEBtyBDUCBw2BDTaBwlBDVOBtkBDUSBwLBDU2BxvBDVlBxnCDTuBu_CDTzBykBDT8BvXCDVEBvBB
+DT2BshDDTWBxUCDTrBtJBDVMBstBDVjBw3BDUrBtrCDURBvBBDWDBw4BDVTBwZCDTmBtmBDTLBzSBDT9Bu_BDUUBwtBDTXBsVBDT
+eBvtBDUdBumBDTFBuEBDUFBuCBDTgBuqBDTVBt9BDVVBvpCDVEBueBDTlBwvBDU8Bx9BDWcBxJBDVKBuLBDUmBv8CDS-BtaBDURB
+s7BDVYBxMCDVABtFBDUmBsWBDWSBwJBDUtBwaBDTFBxkMDT5Bv-BDUJBvmDDUVBvuBDUNBvZAABfDX2B0NKDYuB2NBDX-B2iBDX7
+B1XBDWiBzkBDW4Bz_CDW-B2YBDXwB1_BDYhB2gCDXeB2gBDYuB08BDXfBzTCDYDBzrBDYLB17EDX1ByYBDYQByyJDY8BzQBDYWBx
+_BDYRB2EBDXQB1sBDYmBzKDDYcB18BDYBBzPCDY8ByqCDZHB1cBDYyBz2BDYzB1wBDYAB08BDZDB15BDYzB1SBDYiB1uBDXIB1CB
+DY-BzcBDYdBxaBDW1B1-BDY3B0ZHDXBB2nDDYHByKBDXZB0iBDZAB2gBDZJB03ZDVEBz1KDTMB15BDWIBzOBDU6B2ZBDTDB0hBDW
+xB1ZBDTfB1FBDTeB0YBDW2BxRBDTlB2fDDWJByjBDUYBygBDUJB13CDVtB1aBDU4BykDDWQB1kCDTjB1qBDU8BzVDDVDB1RBDWtB
+yWBDVgB0MBDWbB0xEDT-B0hBDVEB10BDUSB03CDVKBzDCDVxB0aCDUIB0FCDWAB2VBDUyB2GvDW3BrYDDXDBrTBDWhBrWFDW2BpP
+BDZBBoEBDWiBsCCDW5BraCDXsBq_BDYfBosBDVwBtmBDXlBpwBDXcBr0BDWLBqvBDXXBpfCDWnBtNBDX7BqaCDYyBpNDDWvBtuCD
+X4BpZBDXcBqvBDYuBn5BDYiBqMBDXCBqEEDXMBrkBDVzBu1BDXhBsXBDW8BqhBDYpBrOCDXFBtJBDWhBsrBDYCBo7CDW7BsOBDWr
+BuVBDV5BtSBDVhBt4BDY1BqRCDYDBrQBDWSBudDDXvBslBDYXBrfBDWPBtjBDWJBsBBDV0Bt-BDV-BsRBDYwBqnBDXvBpoBDXNBq
+1BDWXBsUCDWvBvTBDWmBrfCDYdBqvDDWwBqTCDWHBs5BDWZBrtCDY-BqfBDWyBqrBDZIBq-BDWvBq7BDYKBpqBDW_Bq0CDXCBulM
+DYtBtuTDXsBtfBDYHBtdBDYgBr2BDYdBuoBDX2Bv4BDYoBs-BDYVBvaBDXsBvRBDYmBstBDY4BvcBDYkBsSBDY2BsJBDYjBtQDDX
+iBujCDY8BwhBDXrBwwCDYkBsgCDY6Bv-CDY4BxMBDZGBreBDXeBvqBDYuBu92DVVBp8BDVpBqZVDVbBqMCDVcBqMGDU9BppBDUxB
+qQBDVyBpuBDVMBqNBDVYBqjBDVeBqFCDVEBqNBDWXBpFBDVtBprCDU7BsMBDUtBq6BDVKBrIBDVlBrvCDVOBqzBDWMBp81DUjBpi
+JDTBBqIBDUpBoeCDViBpSBDUdBrnBDUBBr9BDTZBrNCDT8BrjCDS2Bq5BDURBqeBDVDBpFCDSaBpABDTDBo9CDUMBo9BDVTBplBD
+TcBqzBDTRBrnBDVaBpEBDTuBpLBDVWBowCDT9BqfBDTeBoKDDSaBp8BDTuBqjBDUJBrPCDT4BpECDT4Bq3BDTiBomBDUCBqUBDUl
+BpKBDTpBqJBDUYBpMBDUBBpyBDUYBq_CDTwBpsBDTXBqWBDUxBo9CDSoBrhBDURBp_BDUIBq5BDT2Bn0BDUbBoLnDV1BnHBDV6Bn
+QBDVuBnNBDV4BmuEDWABm_EDV2BnKIDV6BmLBDWZBnGCDWBBnwBDWtBmzBDVeBnrBDWyBnmBDUVBm_BDVBBnMBDUHBm2BDWvBk2B
+DWeBmjBDVlBoTBDVhBnBBDWMBmyDDVWBoQDDUxBm9BDVBBmyBDWlBk4BDV1BorBDXoBkGBDXJBmRBDWTBmVBDVoBmjBDXLBmDDDV
+3BnUCDXsBkVBDWgBoVBDXABm8BDWqBl-CDU9Bn9BDW4Bl4BDXMBm1DDWiBm2BDW5Bm8BDWlBnIBDWmBlYBDWrBksBDWaBn2CDVUB
+nCBDUVBnaBDWOBltBDXGBlJBDXVBkoBDVKBmoaDX_BmgJDXWBmwBDXaBnUBDYUBm3BDYTBnMBDXcBmqBDXWBmfBDYHBnqBDZFBlw
+BDY2Bl8BDYOBnCBDXoBmLCDXoBmyBDYDBlFCDXsBl1BDYLBnIBDYgBmBBDY4BmrBDXgBmfBDY_BlXBDXgBmvBDXtBmwBDYwBl7BD
+YoBlrBDYpBkRBDX7Bn9BDYUBmWAABBDO_CPnCDObCPyBDOWCPxCDOSCPwBDOXCPuCDOfCPgCDOrCPRBDOmCPYBDOnCPPBDOhCP8B
+DOVCP7CDOOCP7CDO3CPfBDOjCPaBDOeCQIDDOXCQDBDOZCQADDOWCQGBDOyCPrBDO1CP2CDO6COzBDO-CPFBDOjCQDFDOlCQDBDO
+1CPhBDOsCPcBDOZCQNBDOtCP-BDOoCP-BDO6CPpBDOkCPrBDOtCP1CDOxCPTBDOzCPaCDOUCQFDDOXCP3EDOrCPsBDOnCP0BDOdC
+P_CDOwCP-DDObCPqBDORCQABDOkCP4BDOaCP3BDO_CPQBDO5CPRBDOzCPmBDOdCPtBDPBCP5BDOTCQLBDOUCQIEDO9CPZCDO8CP1
+BDOrCPiBDOzCP-CDO4CP_BDOvCQABDOhCP0BDOdCP5BDOYCQMCDOaCQJDDPACQBBDO4CPLBDOwCPCBDO-CP9CDOJCPvBDOhCPRBD
+OOCPbBDOECP8CDOMCP2BDOSCPeBDOLCPmBDOVCO6BDObCPTBDORCOcBDOICOrBDOJCOQCDOGCOkDDObCPSBDOBCPABDOTCPYDDOU
+CPRBDOSCPICDOGCP2DDORCOPBDODCQCBDOKCP8CDOOCPiBDOECPOBDObCOtBDObCPKBDODCPqCDOICPoBDOYCO9BDOCCQABDOhCP
+EBDONCPuBDOACO8BDOYCOjBDOaCOZCDOECPuCDOHCOWBDOICO2BDOoCOxBDOECQABDOBCP7BDOCCP-BDOkCPQBDOOCPqDDOGCP-C
+DODCP6BDOFCP5BDOICP6BDOGCP8EDOVCPkCDOJCQABDOOCPnBDOVCPqBDOJCPSBDOLCPJBDOMCP9BDOPCPRBDORCOuCDOmCO8BDO
+ECPyCDOKCPHBDOLCPXBDOFCPbCDODCPlBDOICPjBDOACPkBDODCPgBDOMCPyBDOWCPcBDORCPmBDOTCPlBDOXCPnGDOVCQPBDOTC
+QPBDOVCQMFDOVCQRAABdDOFCQEBDOFCQFCDODCQFBDOFCQCAABgDNPCQXBDN_CQFBDNlCPkBDNfCPaCDNtCQQBDNDCPWBDNHCPaB
+DNpCQdBDNXCPbBDNfCQZEDNyCQGBDNJCPUBDNXCQZBDNtCQKBDNrCQYBDM1CPGBDNVCPoBDNiCQQBDNbCQABDM8CPPBDNiCQXBDN
+pCQTCDNoCQPBDNlCQQBDNkCQSBDNfCPdBDNiCPtBDNeCPsCDNjCPjBDNdCPkBDM8CO4BDNlCQdBDNwCPyBDNyCPoBDNnCPrBDNTC
+P0BDNeCQJBDNECPIBDNrCQKBDNrCPmBDNdCPQBDNiCP7BDNWCQGBDNRCPFBDNfCP0BDNpCQJBDNzCQJCDN2CQDBDN1CQLBDN0CQB
+BDN3CQBBDN2CQHBDMsCO6BDNgCQPBDNrCQABDNuCQFBDNvCP-BDNyCQBBDNcCQQBDNoCP7BDNOCQDBDNrCQPBDM9COwBDNcCQLBD
+NsCQNBDNoCQYBDM_CPUBDNbCQVBDNlCQYBDNlCQFBDNjCQKBDNDCO7BDN0CP8BDNJCPlBDNxCQFCDNYCQNDDNkCQBDDNwCPiBDNo
+CP0KDN6CQCBDN7CPWBDNzCPWBDN3CPYBDN5CPSBDN4CPLEDOACPRBDN4CO5BDNyCPEBDN_CP_BDN8CP0BDN9CPuBDN4CPvBDN2CP
+sBDNoCOUBDN6CPYBDN7COtBDN8CP3CDOACP1CDN6CP9BDN_CP8BDN2CP3DDN8CORBDNqCOhBDN7CPoCDN9CQCCDNoCO5BDNkCO0B
+DN1CPOBDN-CPOBDN4CPiBDNfCO7BDN9CPNBDNvCPQBDNpCPaBDNwCO6BDOACQCCDNtCOxBDNeCOmBDN6COYBDNhCOrBDNvCOpBDN
+_COIBDN6CPCBDN-CPdBDN4COjBDNZCOjBDN8CP6BDN7CPzBDNpCPFBDN3CPyCDN7CPbBDNzCPcBDN1CPjUDNuCPZBDNmCPZPDOFC
+QWBDOECQVBDOECQVBDOECQVBDODCQWBDOECQUBDODCQTBDOBCQRBDN9CQSBDOGCQUBDOFCQWBDOECQPBDOMCQTBDOICQTBDN8CQY
+BDOACQWBDNzCQcBDOLCQOBDN2CQXBDN2CQTBDN6CQUBDOGCQQBDOBCQMBDOECQMBDONCQOBDORCQRCDNxCQWBDN6CQNBDONCQIBD
+OPCQDBDN9CQNBDNuCQcBDOLCQDCDN6CQRBDN6CQYBDN6CQHBDOICQIBDONCQSBDOLCQJBDOGCQSBDNyCQSBDOECQIBDORCQPBDOP
+CQIBDOICQOCDN4CQcCDOGCQKBDN3CQNBDN-CQXBDOFCQUBDNxCQOBDONCQBBDOKCQTCDOPCQNBDOPCQSBDOECQUtDOMCQCBDOICQ
+DFDORCQLCDOTCQDAABZDNvCQKBDOACQIBDN0CQOWDNtCQVAABKDM3CP6JDMzCQEBDMgCPyBDMpCQYBDM7CPqBDM-CP-BDM7CP-CD
+MxCPcBDMDCPtBDMrCPYBDMvCPSBDMRCPSBDMtCP4CDMACP7CDMBCQDBDMmCPzBDMTCP_BDMgCPTBDMbCPvBDMhCQZBDL3CQEBDL2
+CPVBDMoCPNBDM9CPeBDL2CPMCDMVCPyBDMBCQGBDNFCQUBDMwCPnBDL3CQSDDMcCQYBDMjCPcCDL8CPoBDLuCPlBDNFCP8BDMkCQ
+KBDMACPXBDMHCQPBDM7CQWBDMPCPyBDMpCQMBDL0CPiBDMzCQZBDMXCPeBDL0CP7BDM3CPaBDMHCPdBDLtCQTBDMvCQKCDMTCQaB
+DMGCQaBDMMCPkBDM3CPhBDMXCQKDDL-CQSBDMQCQKbDO_CMdFDOCCN4BDOkCNRBDOpCOcCDOdCNxBDO3COWBDO4COkBDO2CNMBDO
+NCMzBDOQCN4BDOkCORCDO6CNUBDO8CNjBDObCOCBDN_CNcDDO8CNuBDO_CLwCDOxCNABDOuCMWCDOcCNRBDN_CNsBDOwCNMEDO5C
+MCBDN7CNABDOrCOmBDOlCNdCDOrCMJBDNxCNUBDOXCOCBDOwCMxCDOaCM7BDOfCNkBDO2CM4BDOVCOLBDO8CNDBDOOCNABDObCOM
+BDOcCMqBDOWCNfDDN_CNmCDO9CMuBDPACNOBDOQCNqBDOpCM4BDOwCNqBDOPCNRBDO4COcCDOvCNdBDOLCOFCDO6CNdBDN0CNGBD
+O8CN-BDO6CONBDOcCMcBDO_CMOCDOoCNpBDOhCNDBDO9CN2BDPACOOBDOBCNCDDOcCN5BDOyCMlCDPACMpBDOrCNyBDO_CM6CDOH
+CNVKDOzCN9BDOnCN8BDOyCODBDOpCOEDDOtCOMBDOqCOMBDOjCOGCDOyCOMBDOoCOOCDOvCONBDO0COKAABWDNcCLudDN1CMTBDN
+BCLgBDNXCLfBDNJCMLBDNWCMxBDNUCMmBDNfCMEBDNOCLSBDNICMXBDNdCMBBDNWCL8BDNdCMIBDNzCMLBDNqCNIBDNgCMBGDNuC
+MdBDN1CMhBDOACMbCDNbCMZCDNkCMABDNnCMSBDNgCMxBDNTCLMBDNECLPBDN2CMxBDNICMFBDNHCLsBDNUCLsBDNcCL3FDN_CMs
+CDNFCLDBDNQCMABDNRCMMBDNpCMJBDNMCLuBDNpCMvBDNmCMHBDNNCLfCDNKCL0BDNeCL_BDNnCM9BDNUCLdBDOPCMgQDNUCOEJD
+NyCNpBDMwCOaBDNXCN1BDMzCOtBDNKCNIBDNJCNnBDNGCN_BDNXCN3BDNzCOEBDMuCOmBDNQCN7BDMpCOOBDNLCNtBDNYCNkBDN5
+CNjBDNDCOfBDNFCN1BDNDCNuBDNfCNeBDNSCN3BDNiCNwBDN3CNwBDM_COOBDMrCOXBDM7COCBDM8CN1BDM3CN3BDNZCNuBDNbCN
+JCDNGCNzBDNPCOrBDNiCOECDNVCM5BDNICM9BDNfCNECDNJCOIBDNjCNgBDNRCOZDDNyCONBDNNCN-CDNTCNgCDMqCOIBDNQCNxB
+DNNCO0BDNVCM_BDNPCN2BDNFCN6BDM5CObDDNqCNyBDNGCNYBDMqCN9BDNBCOIBDNeCOKBDNbCOEBDNVCOMBDNjCNoBDMwCN0BDN
+iCNQBDMzCOIBDN0CN8BDNSCNPWDMnCMBBDMmCL_IDMXCL-BDLwCL2BDM0CLuBDM_CMDBDM5CMZBDMJCL-BDL6CLwBDMVCLyBDMdC
+LRBDNACMcBDL_CLRBDM_CNLBDL_CLzBDMhCL2BDM0CNMBDMUCLABDM4CNFBDL6CMVBDMlCMdCDMmCMJBDMECMLBDMJCMZBDL_CMX
+BDM9CMkBDMsCLvBDMeCMSBDMdCLFBDMDCLnBDMvCMFBDLoCLtBDLpCMMBDM2CLMBDNGCMuEDMfCLcBDMlCMQBDM2CMqBDMBCLGBD
+MmCMuBDLgCLmBDMtCLcBDMMCLABDL0CLoDDMWCMWBDL7CL-BDMQCLVCDMjCLnDDNBCL4BDM3CL4BDMzCMQBDNGCMBBDMoCLNBDMF
+CL1BDMOCLVBDM2CMCBDMPCLnBDMSCMBBDMECLdBDM1CLVBDL6CMJBDMUCLcBDMsCNMBDMRCLNCDLvCMABDM0CM1BDLmCL8BDMuCM
+hBDM_CLuCDMvCMIBDMlCMlBDM_CMOBDMxCNEKDLfCMJPDMeCN_BDMaCM3CDL2CMfBDL-CMmDDMjCNWBDL5CMlBDMdCNJBDMkCNOC
+DMWCNEBDMWCMuBDMPCNyBDMMCMkBDLrCM7BDMDCM4BDLxCNKBDMCCNYBDMNCM9BDM4CNdCDMACNABDMtCNnBDMqCN1BDLuCMbBDL
+yCMqBDMOCMRBDMfCNpBDL1CM7BDMBCNEBDMZCNiCDMFCNgCDMaCNUBDMGCMlBDL-CNOFDMkCM-BDM_CNiBDMZCN3BDMgCNaBDL5C
+MjBDL6CNKBDMwCNZCDLtCMyBDL7CNcBDMMCMyBDMjCNsBDMOCNiBDMYCMkeDMMCNPBDMPCNSBDMPCNLBDMMCNNBDMOCNPBDMHCNH
+DDMICNQBDMPCNWDDMUCNQBDMTCNJBDMTCNTJDMOCNPAABMDL4CONDDL3COSBDL8COFPDL_CO-BDLrCNsBDLyCOxBDLiCNwBDLpCO
+7BDMGCOABDMRCOpBDLXCORBDMCCOyBDMHCN2BDL9COnBDMFCPABDL9CN3BDMGCNrBDLuCNXBDLdCOfBDLwCOcBDL2COnBDMTCOJB
+DMRCO8BDMhCOaBDMUCPIBDMICNxBDMgCOiBDMSCOYBDLoCOPCDLyCNgBDMGCOMBDLRCOABDLUCOaBDLdCNuBDLqCOkBDMHCOhBDL
+pCN8BDL9CNqBDLLCOQDDL0CNqBDMhCOJBDL9CORDDMgCOxFDMhCPIBDL0CO9BDMPCN9BDLvCOGBDMBCPLBDLzCN4BDMJCPKBDMBC
+OZBDLgCORBDLfCODXDLTCPbBDLUCPhIDK_CP4BDLmCQWBDLdCP3BDK_CO3BDLfCQbBDLTCPLBDLACPwBDLMCQMBDK9COoCDLTCPY
+BDLTCPUBDLVCPSIDLJCOnBDLfCQEBDLVCQVBDLSCQTBDLXCQRFDLVCOwBDLmCPSBDLLCQCBDLgCOtBDLoCPLBDLWCP9BDLtCPIBD
+LGCQXBDLnCPvBDLnCQOBDLJCPzBDLBCQKBDLFCPEBDK-CPpBDLfCPGBDLcCO7BDLACOuBDLLCO2BDLUCQABDLVCQIBDLXCP0DDLn
+CP0BDK-CPUBDLGCPhBDLmCQEBDLnCPgEDK-CQWBDLbCPyBDLBCPKBDLVCPsBDLNCPVBDLSCPGBDK-CQABDLHCPoBDLgCPhCDLFCP
+XCDLTCOlBDLLCQUBDLRCO_aDKnCPSBDKqCPBBDKYCPsBDK3CPBBDKjCOkDDKsCP7CDKyCPiBDKXCPhEDKzCQSBDKsCOcDDKSCO-B
+DK2COxBDKoCPjBDKfCPLBDK0CP9BDKbCP6DDK0COnBDKtCOuBDKUCPKCDK0CQDBDK0CPoBDK1CPwBDKmCPuBDKgCQOFDKmCP-CDK
+gCO1CDK0CPTCDKeCQZBDK6CPiBDKQCOzsDJYCNBBDJeCMbEDJqCLkDDJtCM8BDJcCMjBDJxCN2BDJoCMZBDJgCLvBDJoCMtBDJ5C
+NWBDKCCL-BDJrCNnBDJbCMgBDJmCNgCDJiCMqBDJkCMHBDJvCM-BDJYCMfBDJTCMvBDJPCMoBDJ8CLwBDJgCMFCDJzCMYBDJvCLy
+BDJwCNvBDJyCM4BDJLCMrBDJgCMQBDJcCLtBDJlCL5DDJHCMeEDKJCMUBDJ-CLjBDJZCM4BDJwCLpBDJNCMaBDJyCNcBDKQCLvBD
+J4CNkBDJvCMIBDKECLlBDJ5CMFCDJ2CNJCDJhCNABDJBCMXBDJECMaBDJPCM-BDJJCMsBDJ4CMZEDJdCMqCDJtCNCFDJgCNHBDKC
+CNuBDKGCN1BDJnCNZBDKUCL3BDJvCMbBDJyCOCBDJ-CMSBDKVCMIBDKHCN4BDJUCMiBDJsCM8BDJjCNRBDJRCMhBDJlCM8BDJwCN
+bBDJDCMXBDJqCNPBDKOCL9BDJqCM4BDJ8CNpBDJWCMhCDJeCM3BDKKCMKAABnDJACMaCDI8CMgBDI_CMeBDI8CMcBDI5CMXBDI6C
+MbBDI8CMoGDImCNQBDIzCNQBDI_CNQBDIRCM4BDI0CNdBDI8CNgBDIwCMoBDIzCMyCDI2CMiCDI2CM3BDI2CMoEDJACNXBDJBCNr
+BDI_CMnBDH6CM9BDJECMqCDIrCMTBDIUCNTBDIFCNWBDI0CMYBDIyCMWBDIBCMzBDIKCMuBDIqCMzBDIUCMUBDI1CNSBDJZCNhCD
+IfCMpBDJMCNJBDI2CNyDDJOCNuBDI9CM6BDIfCM-BDIXCMRBDIcCNDBDIuCM-CDIuCMeBDIBCMoBDJeCNyBDIgCNkBDIgCMyBDIz
+CNIBDIwCNKCDIcCNWBDI8CMwCDIsCNYBDIACNOBDJPCNSBDIJCNkBDJRCNVCDIKCMdBDIUCMpBDINCMaBDHxCNLBDJHCM-BDIkCN
+FCDJWCNtBDInCMnBDIMCNECDH_CNHBDI8CNBDDIVCNIBDI-CNGBDJGCM1BDIbCMJCDIFCM7BDIfCMZDDLBCKdEDLBCKiGDLeCLKB
+DKrCLCBDLoCKtBDKxCLPCDLgCK_DDLXCLfBDLLCK8BDLxCK6CDK0CLlBDLICLHBDLNCK0BDLyCLXEDMBCK3EDLwCKrCDL3CKzCDL
+ICKsBDLVCLABDKtCLfBDLzCKmCDKqCKrBDLaCLWBDKqCK5BDLWCLKBDK7CK7BDLbCKfBDLZCKxCDLTCKpBDKdCLnBDLFCLcBDL8C
+KiBDKNCLaBDKfCK8BDKpCLRBDMDCKqBDLMCKvBDK2CKqBDKVCLqBDKyCLcBDKfCLbCDK0CKzBDKTCLOBDLmCLRDDKYCLDDDLgCKg
+BDLxCLNBDLICLSBDLTCKbCDK_CLpBDLjCKcBDLgCKxVDJwCO4JDI2CQLBDJrCOnCDJyCQABDJ1COdDDJGCQHBDJmCOPBDI_CPyBD
+KBCPwBDJLCP2BDJ7COXBDKSCQaBDJjCPFBDJUCPmBDJZCOuBDJXCQTBDJ-CPiDDJ7COMBDJxCPiBDJvCQMBDJUCPQCDJ2CPWCDKF
+COZBDJKCQUBDKLCPWBDKLCQOBDKCCP_BDJgCOxBDKACOnBDJ1CPPBDIxCPbBDKDCPEBDJhCPeBDJkCP5BDJHCPnBDJhCQXBDI7CP
+vCDJjCQIEDJnCObBDJdCPtBDI8CQLBDJ3COsBDJ8CPBBDKACO1BDJkCQCBDKHCOwBDJJCP_BDJxCPEBDKACPVBDKHCPPCDJgCN_C
+DJmCO3BDKSCPsBDJYCPrBDI1CPuBDJ7CQUBDJ2CQKBDJoCPRBDJkCPwBDJxCPuUDLBCOfJDKZCOJCDLWCN3BDKsCN9BDKxCOHBDK
+6CNnCDKfCNhBDLNCN4BDLBCNkBDK2CNeBDK1COTBDK3COHBDK4CORDDK-CONEDKcCNKBDKnCNmBDKyCOOBDKRCNNBDKZCOgBDLBC
+OPBDKjCNLBDK5CODBDKICNYBDK7CNzBDKeCNiBDLECNnCDLFCN9BDKrCOPBDKxCNmBDKPCNfBDKxCN0BDLGCNwBDKxCOZBDKiCON
+BDK5CN8CDJ_COBBDLCCOYBDKSCN3BDKTCNmBDKMCOBBDKfCNVCDKCCNQBDK7CNZCDKsCNaCDKOCOgCDKlCN5BDKcCNvCDKeCNfBD
+KKCOQBDKICNGBDLDCOFcDKvCMkJDKaCL7BDK8CMABDK-CMiBDLGCNJCDKfCNBCDLYCMXBDLJCMADDKtCL0BDLGCMGCDLYCMFBDK-
+CNGBDKACM0BDLOCMdBDKyCMABDKoCNEBDJ_CMfBDK3CMFCDLeCM1BDLJCNfBDLmCNdDDKhCMgBDLMCL3BDKPCM8CDLRCNEBDLgCN
+eBDLlCMiFDKICMiBDKuCMSFDLZCMpBDLWCNnFDKnCM5CDKaCMHBDLdCNEBDK2CLzBDLQCNWBDKVCMpBDKdCMQCDKuCMyBDLZCNVB
+DKMCM8BDLSCMrBDKQCMmBDLLCM1CDK5CM0EDLWCLyBDLmCNNCDK_CNRBDJyCMpDDLCCMwBDKZCM_BDKXCM_BDLECMRBDKeCMuBDL
+ECNYBDKiCL4BDKiCMSGDK0CNLBDK2CNMBDKwCNNBDKxCNICDK0CNKBDK6CNLEDKxCNDBDKvCNSAABZDIzCN-CDItCNvDDInCPnBD
+JLCOTBDIfCN5BDIcCPOBDIVCOmBDInCP6BDIBCOUCDImCOnBDIuCPzBDITCOUBDH7CPABDImCPzBDH9COMBDIZCPYBDIHCPjBDH9
+COHBDI0CPEBDJDCPOBDIACOGCDIRCPrBDITCO0BDIACO_BDIsCOPBDIXCN2BDIBCNzBDIiCPfCDILCPQBDIJCOfBDIlCPMBDJWCO
+lBDJCCO_CDHyCOMBDIvCPJBDImCPcBDIZCPrCDIPCOaCDIrCN7BDI6COjBDIxCO1BDIrCOuBDIjCP9BDI0COVBDJMCOeCDH7COcC
+DJRCO_BDIHCO6BDIECOnBDIECPrBDIWCPSBDIqCP-BDIhCOWBDH9COECDH3CPmBDJECPZBDH8CPUBDJACOHBDH0CPVBDIbCOgCDH
+4COOBDJMCOABDIcCN5BDInCN4BDI6CO-BDJNCPMBDJXCOXBDJACOTBDJACOABDIRCOCBDIJCOIBDJWCOGBDImCO7BDITCPLBDINC
+N1BDIuCOeBDH3COmBDICCOIBDJRCOEBDIvCOJBDIVCOIBDIfCO4BDH1COVBDIJCOVBDIjCOGBDI-COwCDHmCN3BDHfCOBBDHfCNw
+CDHUCNnBDHKCN6BDHyCNaBDG7COaCDGrCO7CDHMCOJCDGgCN4BDHqCOABDH6CNSBDHhCOvBDHrCODBDHQCPiBDHTCN1BDHsCOEBD
+HaCOfBDG-COIBDHuCN4CDHBCN_BDH6CNzBDHMCO3CDHxCPEBDHQCPUBDH1CN3BDHpCOKBDHjCPMBDHwCOwDDHCCO5BDHTCOOBDHl
+CNeBDG0COPBDHcCNdBDHACOlDDHiCO8BDHRCPDBDHuCOJBDHvCN-BDHnCNUBDHvCOTBDHGCNqBDGxCObBDHiCPVCDG4COTBDG7CN
+hBDHZCN-BDHjCOVBDGzCOoBDG-CNzBDGkCNqBDGlCN7BDGpCN1BDHpCO8BDHpCNpBDHWCOmCDGqCNrBDGyCOBCDHSCOeCDHqCOgB
+DHcCNnBDGyCN3BDHxCO6CDHtCPZDDHGCPLBDH2COCBDHnCPhBDHLCOrCDHaCOuBDGzCNvCDGzCNkCDG4CN-CDH3CNpBDHGCOYBDG
+uCN8BDH-CNRBDHPCNeBDHzCOGGDJACLnFDIrCMBBDI9CLwBDIjCL7BDIpCK1BDJBCKlBDIoCLdBDIkCLnBDJCCLyCDIXCMCBDILC
+LvBDI5CLxCDIbCLiCDIxCLqBDIyCL6CDIOCMBCDIOCLdBDJRCMFCDJQCMNBDJVCMLCDH-CMDBDIqCKkBDI6CLlBDIxCLUBDI5CLp
+BDIdCLbBDJOCMCBDJJCL7BDJNCL9BDJNCL6CDIUCL3BDIaCMBBDIwCLzBDIaCLuBDImCLuBDInCL9BDIlCMECDI1CLUBDIoCKvED
+IaCLQBDIbCLXHDI5CKsBDIwCLiBDIdCL-BDIPCLWBDIlCLWBDI6CLbBDJJCMBDDIhCLGCDIbCK6BDIVCK8EDIqCLCDDIBCL6BDI3
+CL2BDIuCLQBDI2CK_BDIkCKdKDI_CMVBDI_CMVBDI_CMSBDI9CMTBDJACMHBDJACMTBDJCCMTBDJACMPBDI6CMLBDI_CMNBDI4CM
+PBDJCCMMBDJCCMPBDJGCMEBDJECMQBDI6CMNBDI_CMHBDI7CMRBDI7CMFBDJFCMOBDJHCMKBDI6CL-BDI3CMHBDJACMDBDI0CMLB
+DI3CMCBDI1CL-BDIxCMBBDIuCMIBDJCCMIBDI-CL8BDJECMCBDJECMJBDJKCMFBDJLCMKBDJKCMOBDJLCMTBDJQCMVBDI9CMLBDJ
+KCMIBDJCCL6CDI9CMIBDI-CMFCDJGCL4BDJFCMSIDI_CMTAACSDJWCL6CDJKCLyBDJHCLjaDJ-CLZCDI8CLPBDJoCKkBDKDCKxCD
+KFCLLDDKFCKhCDJCCLXCDJzCLVBDJ7CLDBDKACKLCDJrCLbBDJPCLJBDJiCK1BDJaCKhBDJWCKlBDJ9CKCBDKRCK5EDJBCK6CDJ0
+CKiCDJgCKMBDJeCLOBDJZCKWCDJHCLRBDJWCLfBDJNCLYBDJLCLfBDJeCLaEDJdCMBDDJQCLrBDJvCK6CDJkCLEBDJRCK4BDJjCK
+rBDKDCKTBDJQCKxBDJtCKNBDJQCLSBDJXCMSBDJ2CLCBDJYCJ4BDJkCLbBDJQCLALDKpCKVdDLvCKPBDKvCJBBDL6CJhBDKXCK4B
+DK_CJlBDLcCKKBDKWCKOBDKsCJIBDLFCJ_BDK0CJuBDLFCJ6BDKUCKkCDKmCJtCDLwCJ8BDLWCJgBDLRCJpBDLKCKOCDKnCJRBDL
+ACJLBDLRCJ2BDL5CJuBDLACKDCDKlCJ7BDLZCJ9BDLHCJeBDKeCKeBDLJCJLBDK0CKMBDKOCJ-BDK5CJ2CDL9CKABDLjCKGBDKlC
+KpBDKoCJeBDK3CJcCDLBCKSBDLxCKKBDLhCJ3BDLrCJrbDLZCIldDK_CI0BDLmCJIBDKxCInBDLcCI5BDKuCIfBDMCCIdBDL5CI8
+BDLWCJQBDLDCIcBDLBCITBDLSCI4BDL6CIhCDLrCJfBDLgCILBDLiCH_BDLqCIuBDLWCJCBDL-CIvBDLKCIvCDL6CIWBDKvCIzDD
+L5CJNBDLaCHxBDLGCIIBDKvCIVBDLgCITBDLtCHwBDLxCIrCDLmCJZCDL4CIBBDLLCIBBDLxCIaiDHuCLyTDHCCLnBDHLCLvBDHr
+CLNBDHgCLNBDHoCLpBDHUCLEBDIHCLhBDIECMPBDH5CLzBDHCCKsBDIDCLgBDHnCLZCDHICLCDDG5CLuBDHjCL0BDGxCLCCDHoCM
+DFDHSCMHDDHuCLiCDHZCLpDDHyCLtBDHNCLSBDHDCMVBDHYCLZEDH4CLhCDHSCMjBDHbCLnBDH4CLNBDG5CLUFDH2CMYDDHwCMpB
+DIECLmBDG7CLjaDG9CNRCDG3CNWbDGlCMwCDHXCNSDDGaCM9BDGkCNYCDGlCMsBDHACM8BDGuCNICDGsCNfBDHQCM6BDGvCNEBDG
+2CNKBDHjCNHBDHUCM6BDHeCNPCDGrCMYBDG4CMbEDHICNMDDGvCNVCDG2CMyDDGiCMXBDG9CMrCDHICM3BDGgCNPCDHRCNBBDHXC
+NGBDGkCNFDDGlCM_BDHjCM0FDGuCNaBDHRCMvBDGoCMkBDHZCNIBDGbCNGBDG3CM6CDGoCMbODGSCNOTDGKCNrBDE9CMQBDF6CMo
+BDGRCNfBDGcCNXBDGVCMtBDFLCM3BDFSCMyBDGDCNHBDE8CMJBDFGCNHDDF5CNDBDGTCNxDDFlCMpCDE9CM7BDFLCM0BDGFCMqED
+F_CNtBDGLCM8BDFkCMlBDFkCMzBDFGCMpBDGKCM-BDFSCNEBDFdCMmBDE-CM1CDE_CMiCDFOCMjDDF8CNRCDFzCNIBDFwCMqDDFt
+CNPBDGDCNVBDGNCNHBDF1CNaBDF2CM4DDFjCNKBDFwCM7CDFFCMYBDFACM3BDFqCM6BDFcCM7BDFZCMlCDGUCN2TDGFCL7fDF9CM
+QBDFsCMdBDGwCMDBDF8CLMBDGJCMbBDGXCLdCDF8CLjBDGFCMRBDGQCKyBDFvCK9BDGLCLYBDGnCMEBDF4CLxFDG2CL_BDGnCMOB
+DGdCLoBDFzCLoBDFxCL5BDF0CLkBDGxCL0BDGqCLjDDGYCMbBDFxCMMBDGMCMMCDG0CMABDGZCLCBDGZCMOBDGWCL3iDJuCHGKDJ
+gCGRBDJPCFhCDJlCF-BDJmCF6BDJvCGDBDJ4CGVBDKRCFQBDJOCGlBDJhCHABDJvCG9BDJ4CG5CDKFCGBEDKBCFFBDJlCGCBDJYC
+FkEDJWCF6BDKBCGrBDJ4CGeBDJpCGzDDJICGZIDKQCF0CDJwCFvCDJrCFrBDJvCFqBDJwCFsBDJpCFwBDJvCF5BDJrCF4BDJ1CF5
+CDKJCFzBDJPCGQBDKSCGGBDJbCF1BDJiCF2BDJfCFwBDJyCGKBDJzCGoBDJ-CFxCDJZCGJBDJnCGpBDJ8CF6CDJsCGRBDJkCGJBD
+JiCGdBDJ6CGKBDJHCFpBDKICFJBDJMCF-BDJbCFvBDJWCFvBDJQCFrBDKLCGRBDKGCGcBDJaCF9CDJ1CGGBDKLCFgBDJMCGICDJ6
+CFHBDJPCGzDDJ4CHEBDJvCGZBDKTCE_DDJuCFcBDJtCFcDDJvCFdBDJvCFfCDJsCFdBDJrCFfBDJnCFfBDJqCFdBDJoCFcBDJlCF
+cBDJgCFcCDJzCFeBDJ0CFkBDJ5CFfBDJ5CFlBDJyCFlDDJvCFkBDJvCFiBDJvCFnBDJtCFmBDJtCFiBDJrCFjBDJpCFmBDJnCFiB
+DJgCFfBDJiCFiBDJlCFqBDJdCFnCDJlCFvBDJdCFiBDJhCFpBDJhCFwGDJYCFcBDJYCFfBDJVCFhCDJXCFpBDJ1CFZBDJ6CFZBDJ
+6CFQBDJ_CFPBDKACFZBDKACFfBDJ_CFkBDKACFpBDJ7CFoDDJ0CFrCDKGCFTBDKFCFZBDKECFeBDKECFkBDKECFoAADqDKjCFQBD
+LhCF4SDL5CF7BDK_CE7BDK9CFnBDLbCFDBDLiCGVCDL8CGmBDLTCFDBDLyCErBDKuCGBBDK4CFfBDL9CE0BDLiCFWBDLgCFUBDLi
+CFOCDK5CFTBDLWCEQBDLYCFvBDKYCFNBDKfCE9BDLvCF9BDL6CGXBDKuCFXBDKVCFXBDL-CElBDLoCEMCDKgCFFBDLMCE2CDLHCE
+fCDLqCFpBDKhCFdBDLaCEzBDL5CFxBDLYCFUBDL7CGJBDLBCFXCDL7CFHCDLOCFoCDKbCF7BDLZCEpBDLvCGGBDLqCFABDLBCF0B
+DLZCEdBDLjCGFCDLGCEsBDKvCFyBDL0CFZBDL1CFFBDKeCFrCDLqCFVBDLNCFRBDLrCGjBDL1CD8BDLMCFEBDKcCEyBDLDCFGBDL
+-CFbBDLmCEqCDLfCFhBDKuCFlBDL1CEQBDKUCFiBDKjCF6BDLHCFbCDL6CD2BDLBCGCBDL-CEVBDLwCFuCDKxCFECDKvCFDBDKpC
+E9BDK5CFGBDKzCFIBDKuCFOAABeDK1CHCTDK9CGPCDKVCHGBDKTCHbBDKeCGuBDKuCGsDDKzCH3CDLMCHsBDK4CIIBDL3CGvBDKI
+CHMCDLDCHRBDLVCGaBDKeCGgBDKiCG-BDKMCHmBDK-CGeBDLYCHUBDLZCGoBDKhCHXBDKuCGbBDLmCHcBDLSCHdBDLLCGbBDLHCG
+tBDKxCGPBDKkCGTBDKyCHqBDLKCHSBDK-CHpBDK5CGuBDL1CHiBDKoCG3BDLVCGDBDKmCIEBDKyCHfBDKeCHyBDL-CHIDDKvCG7D
+DLwCHaBDKICG2CDLNCGKBDKZCGTBDL-CHjBDLtCHBBDLFCHsCDKlCH5DDLgCHCCDKlCHnBDKbCHKBDLPCHADDKvCG-CDK1CHXBDK
+8CGJMDI-CF3TDIoCF2CDIcCFhBDIkCFgBDIPCGXBDIxCFzBDI1CGgCDHiCFkCDIaCF8DDI6CGpBDJBCFgBDIlCGzDDH2CG7BDIzC
+GOBDIXCG2BDHuCFgBDIzCFiBDJCCGDBDHxCGaBDIPCFlBDI8CFmBDI6CGHBDHACGOCDH4CGNCDIHCFgDDG-CF5BDHaCGWDDHQCF9
+CDI9CG4BDHTCFmBDIOCG1CDIACFsCDHmCGECDHNCFhBDIcCGZBDHpCFqBDHvCF3EDIECG4CDH4CFoBDIJCFwBDIGCGTBDH-CGqCD
+IACGNBDHeCGBEDIqCGWCDH4CGCLDGnCFmDDGeCFlaDGzCFvBDF6CFqBDG-CFfBDGvCGLBDGvCFfBDGrCFsBDGvCF8EDGeCF2BDGk
+CFvBDGHCGNBDGBCFrBDGTCGADDFzCFsBDGvCGYBDG1CFrBDGOCFwEDFvCFsBDG-CFlBDFvCF_BDG1CFsBDGSCFjBDGsCGNCDF-CG
+JBDGmCGMBDFwCFeCDGMCFeBDGPCGIBDGACGBBDF9CFbCDGuCFoDDGdCGTBDGDCGTAAB_DIcCJgJDJPCJIBDIoCIZCDIbCJ5BDIgC
+KGCDI4CJoBDIJCIvBDI-CIoCDIBCISDDJBCI4BDI_CJ3BDJDCIaBDIgCIoGDIjCI6CDI4CIOBDIkCJlCDIYCILCDJHCJCBDIjCJE
+BDI_CKTCDI-CJWDDJOCIwBDIPCImBDIlCJcBDIUCIdBDI0CIbBDIuCJ0BDIICIZBDI2CI7BDIwCJlEDIbCJTBDJGCJrCDI7CKFBD
+IyCKCBDJJCJXBDIoCIxBDINCIdBDIjCKTBDJKCJ7BDJTCIkBDJMCKHDDIbCIXCDIwCIxBDIYCJHBDImCJNBDJNCJyBDImCH4BDIQ
+CIVBDJACJiBDI_CISBDIWCI2BDIPCI0BDIsCIKBDIpCJYQDIyCJTIDI5CJEAABcDJaCJIBDJmCJCBDJaCI4MDJfCJABDJgCI_ODK
+BCIcBDJmCJpBDJ0CJ4BDJbCIYDDKRCHzBDJNCIRCDKZCI2BDJ6CJTDDKACI9BDKUCIeCDKJCH9BDKkCIxBDJyCIeCDJnCIMBDJVC
+JiDDJ5CILBDJuCJKBDJwCIyBDKBCIrBDKZCJSBDKUCIoBDKfCI4BDKSCIEBDJgCJkBDKRCJKBDJtCJ_BDJ4CJrFDKNCI5EDJmCIb
+BDKRCJhBDJVCIACDKGCI3BDJjCIpBDJ7CJ5BDKTCIRBDKKCJwBDKXCJxBDJ3CJCBDJ_CJgBDKXCHmBDJYCIsODJGCHmEDJJCHFPD
+JrCIBBDJsCHPBDJhCH_BDItCG-BDIKCH7BDIsCHpBDIRCHuBDJiCHMCDI8CIABDJ6CIBCDI-CHTBDJaCHcBDJUCHjBDIzCHcBDJP
+CHEBDJPCHRBDIkCHdBDJ3CHXBDJtCHqEDKECHoBDI2CHvCDJiCH3BDJHCH9BDJ7CH3BDJBCHyBDJjCHWDDJACIHBDIWCHXFDI0CH
+JpDH2CJ3IDH7CJ2bDHaCJkCDGVCKSBDHeCK7BDHYCKxBDIKCK0CDINCJXBDHCCJbCDHtCKpDDHxCKTDDH9CJFBDILCKZDDHqCKxB
+DHuCJbCDIDCJWCDHhCJeBDHgCJuBDHxCISBDGvCJqCDGxCKdCDG1CJ0CDHTCI4DDHjCJRGDG-CKEEDG6CJkBDHACJJCDIKCJBPDH
+JCKOcDH5CJhFDHiCJGBDIHCKpBDHhCIfFDHcCJ4BDHOCJsBDHJCJDFDGdCJ9CDHwCJmCDHOCJPDDHACJ2BDHwCI4BDHQCJSCDICC
+KHBDHYCKSEDGzCJkBDH2CKsBDHtCK0BDHxCIqDDHJCJXBDGvCKEJDIMCJ1CDIUCJnBDHvCJGBDHvCJTCDHyCKZCDGZCKnBDG0CJx
+BDHcCH-BDH-CIlKDHRCHBCDHRCGmBDG3CHABDGbCGyBDF-CKgCDGSCIdBDFtCJOBDGgCHHBDFvCHXBDGxCHGBDHcCHVBDGBCIGCD
+F7CHjBDHICHbBDGECI7BDGoCHVBDGeCIACDHcCHxBDGDCGhBDGBCHEBDF7CGqBDFzCJVBDFxCH5CDGRCH8BDGMCHlBDGcCHSBDHO
+CIOBDGSCHGBDICCHpBDHRCG0CDGGCJNBDGLCI_CDHiCHDBDFuCGvDDHPCH4CDG9CG2BDF9CGXBDHFCHrBDHaCG-BDHtCHQCDGpCI
+BBDGMCHuBDGeCGiBDF0CI2BDGHCHNBDGMCH6BDFvCG8CDG8CJFBDHKCGpBDHGCInBDHbCHjBDGwCG-CDFxCI8BDG7CItBDH5CHfB
+DGUCHeDDFwCHmCDHrCG_BDGVCHLBDFyCIkDDFxCHzBDF4CH-BDFvCHNBDHGCGaDDHnCHtBDF3CHQCDF5CJ_BDGqCJXBDFzCKqCDF
+2CKDKDGhCIvCDGpCIlBDGlCG-BDG8CIGBDGzCGoBDGTCGhCDHNCHSBDGuCJEBDGnCGrBDHFCIWBDGgCHcBDGBCInCDGiCI2DDGXC
+IABDGaCHnBDHXCIPBDGXCGTBDHwCHcBDHHCHiBDF2CHkBDHpCHeBDGQCHaBDFuCIoBDF2CGCBDF5CHvBDH5CHqBDFtCILBDGICGd
+BDIECHLCDF_CHZBDGqCHLBDFrCHhBDF_CHsBDGICI4BDGpCHzCDF2CIHBDFsCGaBDGqCIRBDF0CHCFDG9CGoBDGbCH2BDGMCHgBD
+GICIhBDGmCGcBDG4CHyCDGFCH3BDF2CJEBDFuCIYBDF8CIeCDHtCIBCDFuCJFBDHxCHsBDGUCJFBDGUCGsBDHGCHFBDGFCHoBDF0
+CGWBDGDCIsBDH5CHLBDF-CJuCDFsCJiBDFtCKpBDH-CHWCDHACHSCDHjCIGBDGBCJCBDHjCGpBDH9CIABDIHCIGBDGJCJ_BDGOCJ
+rBDF-CJVBDFyCKSCDGbCJiIDGxCHeBDGxCHZBDG4CHfBDGrCHjCDGxCHeBDGtCHcCDGtCHpBDGoCHdAABXDGwCHgAABpDKbCEmED
+JPCEcBDJyCE6BDKsCEiCDIJCE0CDJrCE8BDJJCFSBDIXCE1BDIICEMBDKTCEeBDKqCEZBDJgCE3CDKGCEpBDJMCEzCDKXCENBDKw
+CE_BDJZCEsBDIoCFBBDKICE8DDJSCE6BDJTCE_BDIcCEYBDIkCEnCDK7CEbEDIKCEkBDIkCFOBDKgCEVBDIqCEsBDJ9CE9BDJnCE
+fBDJfCEaBDJaCEfBDJZCERBDJ_CE2BDJiCERBDJnCEJCDJlCEvBDI6CFVBDJ5CEgCDIPCFECDKaCEACDKOCETBDJZCFABDJUCFKC
+DIwCE1CDJ4CETBDI-CEYDDJ5CEHBDI5CFBBDIgCE3BDJtCEOCDIUCFUBDI_CEICDIwCEaBDI2CEoBDIpCEbDDJJCFFCDJRCFXBDJ
+vCEsBDK1CEmBDKGCEGCDKzCE3BDIRCETBDJFCEpBDIVCEDBDLECESBDIsCEICDKFCEbEDJwCFZBDJvCFTBDJqCFZBDJzCFTBDJtC
+FYBDJrCFSDDJ1CFFCDJsCFJBDJvCFLDDJzCFbDDJuCFbqDJqCFbqDJmCFVBDJmCFRBDJjCFUBDJnCFZBDJgCFaBDJgCFYBDJkCFZ
+BDJaCFZBDJdCFSBDJdCFYBDJgCFUBDJaCFSBDJgCFRBDJgCFOBDJlCFOBDJlCFKBDJlCFGBDJfCFKBDJgCFGBDJVCFRCDJWCFVBD
+JWCFaCDJnCFCBDJhCFBYDJcCFWAACWDJdCCxBDJbCDgBDK9CC1BDK6CC_CDK9CCmBDJ7CC9BDLDCDSBDJcCD8CDKkCCQBDK_CCCB
+DJNCDcBDJTCDvBDKpCDCBDKZCDeBDKmCDMBDKACDXBDKICD4DDKFCDIBDJVCDEBDKnCEMBDK1CDsCDKmCCkBDKoCDXBDJtCD_CDJ
+RCDQBDKVCDICDK6CD9CDKTCDuCDK4CCdBDKmCD-BDJ_CDwBDJhCCABDJtCCBHDKLCB6CDI8CDxyDJpCC4BDJyCCbBDJ_CCKDDJ4C
+CWBDJpCDNBDK6CCQBDKFCDmBDIyCD3CDJ5CD-CDJxCB4BDLCCDuBDKiCDsBDJvCCKBDLFCCZCDKNCCTBDKTCC5BDK7CDWBDI-CDh
+BDJPCEBCDJqCDABDKvCDwBDI8CD-DDKDCB8BDK2CEOBDJ0CDVBDK8CDgBDJ_CClBDJ6CDJBDJLCDsBDK5CDMBDJyCDgBDKUCDTBD
+LGCCuBDJlCD-BDJACD4BDKpCC1CDJZCDrBDJ7CCyBDKnCCEBDKOCCkBDKmCDiCDKfCD1CDKVCCBxDJqCDxBDJoCDrBDJlCD0BDJq
+CDsBDJoCD0BDJsCDyBDJiCDyBDJiCDgBDJmCDuBDJoCDwCDJlCDgBDJpCDaBDJrCD2BDJxCD2BDJyCDpBDJfCDvCDJnCDuBDJnCD
+sAABPDHvCFMJDHTCD2BDHcCFTBDHUCFRBDGgCFJBDHcCDuCDH6CEwBDHiCDwDDHdCEGEDG_CFCBDGsCE-HDHsCEhBDHXCEbBDHZC
+FGBDHQCFQBDHTCDeCDIBCFQBDGpCFWBDHLCEPBDHkCFWBDH4CERBDHPCFADDHfCE5CDHsCEIBDH5CEKCDH5CEXCDHACEyBDIACE_
+BDH3CEjBDHTCFYBDHFCDuBDICCD5CDG_CFaBDH3CD7BDHDCFRBDHKCFSEDIICFRCDHyCE_BDGkCFQBDHNCElBDHmCEhBDG2CFHCD
+HiCElBDHLCECBDHrCDSBDGcCFEBDHvCE3BDHZCEuBDG5CFPBDG4CE7BDH0CDrSDIpCC6dDI8CDHDDJGCC8BDJWCCiBDI1CC1DDI4
+CCABDIWCDpBDIICB4CDICCCOBDIWCCGCDIeCCdBDJACChDDJYCCUBDIpCCJBDIWCB0BDIHCDaBDIACC4BDIZCDRCDIoCDjBDIKCD
+1BDIvCB0BDI4CBwBDINCC_BDIkCBrBDIPCCYBDHvCDIBDIjCDSBDIVCC1BDIRCBiCDI2CDSBDIvCCcBDH5CDSBDIkCD3BDJQCCEB
+DI9CCNcDKcCAsdDKqCA7CDKyB-rBDKoCB5CDK3CAsBDLAB_qBDKgCBSBDKfCBABDK5CASBDK0CA_BDK3B_bBDKzCAIBDKnCBvBDK
+4CBPBDK9CB4BDLFCBsCDKgCAXBDKkB_zCDK6B-gBDK4B_MBDKoCBgCDLGCBMBDK0B_yCDK9CBaBDLACA3BDLCCBCBDKpCAeBDKgC
+BhBDKkCAHBDLBCAdCDKyCAgBDK2B-5BDK4CBmCDLDCAGfDHoCAsBDHiCBhBDGmCACBDG4CAgBDGjCBsDDHNCCFBDGzB_tBDHeCBu
+CDHeCCYBDHCCBRDDH1CA4BDHvCBhBDGjCAXBDG7CCCBDIBCAoBDHqB-tBDGkCAtBDG_CCVBDGnCCfBDHcCAeBDHPCA7CDHMB-mBD
+GtB-IBDHrCA1BDHFCAsEDHdB_hBDG5CAUBDHVCBWBDGoCCMBDHRCBvCDIFCBfBDHyCCCDDHxCCwCDHcCDLCDGtCAXBDHfCAoBDGl
+CBYBDHeCAzBDIZCBJBDHWB-EBDHqCBYBDICCA4BDGjB-6BDG8CACBDHeB-aBDHSCBIBDGkB_iBDIOCBBBDIiCBVCDHMB_TBDHpB-
+8BDHrCBRBDHaB_8CDGjB_RBDGxB-vBDHSCCRBDInCBMBDHfCCGbDHrCA-BDGfCCABDG3CA0BDG3B_GBDGyCAoBDHKCAgBDIUCA2B
+DHuCAnBDHUB9zBDHLCBWBDHaCAOBDHJB_eCDIHCBPDDIHCBJBDHMCAXBDG0CBaBDHLCBHCDHaCClBDH7CBsBDHbB-7DDGsB9zEDH
+HCBxBDHxCCWBDHWCBhBDHMB_FBDH3CA_CDHbCC5BDG2B_eCDGkCBICDHJB_9BDG8B-nBDHuCBsCDHCCBiBDHzCBNCDHSCAtBDGfB
+_0BDIOCBSBDG2CBDCDH8CBgBDG3B-WBDG1CBwDDHHB_prDHhCBLBDHiCBIBDHoCBIBDHnCBCBDHiCBWBDHfCBVBDHiCBQBDHdCBB
+BDHcCBXBDHfCBMBDHiCBABDHfCBIBDHjCBMBDHaCBABDHZCBNBDHaCBIBDHfCBQBDHpCBMBDHnCBQBDHcCBSCDHmCA6DDHpCBWBD
+HbCA6BDHqCBaCDHgCBbCDHcCBcDDHhCA6ZDHkCBPpDGxCDodDGsCEVCDGgCEcBDGgCDdBDGeCC-BDG3CD_BDGjCEtBDGhCD4DDGi
+CDtBDG-CEJBDGiCEQCDG5CDVBDHBCC8BDG8CCjBDGrCDVCDHOCC0CDGqCD7BDG9CDHBDG7CCwBDGxCELBDGfCDPBDGuCElBDG-CE
+bDDGgCDFBDGqCC6CDG9CDsBDGgCDilDJTCArJDJgCBWGDJDCA0BDKPCA1BDJ2CADCDKMB__CDJnCAwBDJhCALCDJOCARCDIyB_gB
+DImCBCCDKeB_cBDJfCBrBDKFCBaEDKACAjBDKXB_QBDIyCBRBDJMB_yCDJYCBiBDJBCAeBDImCA3BDI3B_8BDKJCAaBDKSB_nBDK
+TCBvBDJCCBEBDJECB2BDI_B_aBDJGCBfBDJ8B_jCDJGB_9BDJnB_4BDI8CAoBDInCAJBDJ1CBNBDI8B_lBDImCAmEDI4CASCDKFC
+A9BDJyCAmBDKSCBSCDJcCA5DDKKB--BDKgB_CBDI7CBmBDI2CBACDKLCANCDJhCBEBDJlB_hBDJnCBSBDI4CBYBDJkCAXBDKEB_W
+CDJ1CBmDDJQB_cBDImCASBDJSCBwJDH-CAPBDINCAPDDIDCANFDH_B_zBDIrB-fBDIYB_mBDItB9uBDHyB_0BDI8B85BDInB9fCD
+IoB8vBDH6B-aBDI7B-RBDI_B9dBDIMCAhBDITB9rBDImB_iBDI5B_QBDIeB_SDDIIB-LBDIjB-4NDH1CAcBDI5B-9BDISB_HBDIW
+CAaBDH6B91BDI7B-DCDISB-XCDHyB-MBDJBB-EBDIlB_2CDI8B9wBDH4B-oCDIlB92BDIoB9GBDILB_-CDHxB9sBDI1B-qBDI8B-
+gBDH7B_-BDIaB-nBDICB_oCDHrCAMCDJFB9IBDIaB_fBDIXB98BDIoB-KBDIEB-4CDH9B_NBDITB_wCDH_B_fCDHsB_ZBDJEB8wR
+DJXB-CUDK3B-XBDK-B9bBDKQB-pCDKLB9fBDJYB_ABDJcB-PBDKjB-kBDKqB8sCDJlB84BDKFB9qCDJSB_MBDKgB8TCDJeB9pBDK
+jB-zBDKiB-EBDJaB-fCDKJB9RBDKkB8jBDKkB-VBDKgB9LBDKiB9pBDLCB9vBDJtB_OBDJyB_DBDKJB82BDJ5B-gCDK_B8rBDK4B
+9FCDJiB9ZBDJ5B9nBDJwB-rBDKEB8_BDJIB-VBDK2B-CCDJ5B-DBDK2B9qBDJVB-wCDJHB-DCDKSB-CCDJXB-WBDJjB9JBDJ1B-3
+BDJZB-aBDKNB-baDKLB7XdDK1B7RBDKxB6mBDKJB65BDKFB6pBDKaB7nBDKHB6PBDJVB8TBDJtB8PBDJkB7_BDK8B7vBDKIB8cBD
+KLB54CDKLB7EBDK6B7iBDK1B65CDJoB7WBDJrB7qBDK3B8ICDJwB8cBDJjB8pBDKPB71DDK0B6IBDKbB8CBDJaB6ODDJfB6nBDJU
+B54CDJXB7MlDHlB86eDGvB9UDDHRB9mBDH_B8hBDIEB55BDHTB78BDIGB7PBDIvB8UBDGhB9FBDHbB8pBDHTB9XBDHlB9GBDHCB8
+sCDIDB7yDDIQB9bBDI_B8ABDIJB7aCDH1B8LBDIKB9ABDHSB6WCDH_B6lCDG0B7zBDICB6-BDIvB61BDHNB59BDI5B7HBDGuB8gB
+DHIB9DCDHVB8SBDHuB75BDG1B8IBDHRB7aBDIxB7kFDHyB9aBDHTB7sBDIAB6LBDIvB6NBDHYB68CDHsB9MTDGmB7mxDGiB6FBDG
+sB67BDG5B7QBDGyB6HBDGuB6evDNNCBxBDNeCCuBDMzCCqBDORCCSBDM6CDbCDNRCC-BDNiCC_CDNGCDDEDNICBwBDNTCCPBDMuC
+DGBDMyCCOBDNKCCSBDN6CCqBDONCC2CDNICC3BDNbCDOCDNYCCfDDM3CC2BDNuCC1BDOwCCiBDNsCCbCDM5CCcBDNZCC5CDNTCBx
+BDMqCDDBDOLCClBDObCCuBDNJCCGBDNECCfBDM1CCkCDNjCCjBDN_CCfBDM4CDLBDObCCHBDMqCDWCDNKCB8FDOVCChBDM6CDaBD
+NuCCIBDMsCC4BDMyCDACDN9CC6BDOkCCMBDN0CCeBDNPCCtBDM0CB7BDM-CCSBDOgCCfBDNUCC7BDNECCwBDNACCABDOoCCgBDNp
+CCeBDNECCmdDNGCDXCDNKCDQBDNECDUBDNECDQBDNBCDVBDNECDXCDNKCDbBDNKCDUBDNSCDTBDM4CDZBDNGCDLCDNKCC_BDNBCD
+QBDNGCC-EDNQCDLBDM2CDVBDNECDLDDNBCDLBDM-CDJCDNDCC8BDNGCDUBDNHCDQBDM3CDQBDNKCDLBDNBCC9BDM9CC-BDNBCDEB
+DM8CDDEDNRCDGCDNDCDEDDM-CDUFDNRCDQCDNHCDFDDM-CDRHDNKCDFODNHCDVEDNGCDPBDNGCDWAAB2DL3CCcCDLiCBCBDMhCCq
+BDLtCDeCDMXCDBCDLNCCXBDLhCCFDDMWCBRBDMuCBqBDLgCA2BDMtCAvBDMLCCeBDLYCCPBDMmCAgBDL4CDVBDLwCDuBDLpCA1BD
+LVCCrBDL_CCzBDLJCAgBDLkCAoBDLJCAuBDL3CB8BDL6CC_BDMPCBKBDL3CCJBDLpCCnBDMGCBxCDLmCAbBDMpCCLBDLSCDhBDLn
+CBTBDMRCB5BDLVCAiBDLvCB0BDLSCBxBDMGCBfBDMBCCoBDLMCDOBDMKCDLBDMZCCmBDLmCDEBDMbCCyBDLLCBjBDMJCBBBDLXCB
+VCDMICAyBDLUCD7CDLnCCZBDL9CCTBDMHCBQBDMnCBwBDL6CAwBDLXCBCCDMcCBVBDMGCAiBDMqCClBDMwCBEBDL_CB_CDLWCA0B
+DMUCAeBDMECCUDDLMCA7BDLZCDWBDLeCBqBDLwCDOBDL9CDdBDLgCCnBDLQCCgBDMECDOTDMTCAyBDMjCB6BDMkCC_BDMGCCEBDM
+UCBlBDL6CBGBDMkCC2CDMjCDVBDMICDcDDMdCDNBDLoCDuBDLOCB-BDLxCA-BDMRCDHBDMNCCqBDMECCdBDLQCC9BDL5CDqBDLvC
+CLBDMZCBwBDLmCBqEDMpCB_BDLOCBHBDMMCCNBDLPCEICDLNCDqBDMjCBgCDLzCAiBDLhCD0BDMHCCGBDMsCBXBDLNCBrBDLeCC3
+BDLgCDnBDL1CCsBDLxCAyBDLwCBjBDMJCC_BDLcCDJBDL_CDMCDLsCC5CDLwCAXBDLwCBKBDMNCCzBDMaCDaBDMjCBOBDLYCDtBD
+LfCCfCDMiCBBBDMUCCdBDMnCCcBDMgCDDBDLxCBZBDL5CBqBDLPCCQBDMfCAwjDMWCCKBDMaCCNBDMdCCOBDMaCCSBDMWCCQBDMe
+CCTBDMaCCJCDMZCCPCDMSCCJCDMlCCPCDMSCCQBDMlCCUDDMZCCXBDMeCCJBDMXCCEBDMRCCEBDMjCCBCDMRCCWBDMdCCdBDMaCB
+-DDMjCCJBDMYCB84DMaCCKNDNZCBETDN0CADBDNdCCQBDOIB_UBDNYB_-BDNPCBVCDM9CBtBDNjB_3BDNCCAYBDNzCBfCDNxCBIB
+DNECBfBDNzCB2BDNTCA5BDM0CBqBDORB_5BDN-B_IBDNSCAHCDNaCAfBDN2CBqBDNxCA5BDNzCBSBDNyCApDDNgCAtBDNUCCCBDN
+fCCBCDNDCAzBDOCB__BDNkCA6BDMzCAeBDNtB_uDDNACBPBDNjCByBDNlCAVBDNdCBjBDNBCBCBDNLCAmBDNyCCBBDNzB_eBDM3C
+AvBDM4CBNCDM0CBUgDOSCBAJDO9CB7BDOjB-gCDPGB-nBDO1B9yBDONCAvBDOJCB-BDO2CBWBDPTCAnBDPxB_QBDOyCAHCDPtB-x
+BDOtCBWBDPPCAUBDOkB-6BDOiB_zBDPECBYBDO3CBzBDPACARBDPdCA3BDO5CCfBDPBCBvBDOsCCIBDO7B-4BDOfB_bBDPaCBHDD
+PPCBSBDOfCBOBDO0CCVBDOzB_WBDO_CCSCDO-CBkBDPhB_cBDO3CA6BDOACA9BDO-CA8CDPVCBuBDOSCAlBDPlB9zCDPtB-XBDOi
+CAKBDPRCBzBDN6CAeBDPbB-BBDPXCAVBDOSCAMCDPEB_NBDO4B_xBDOyCAvBDO7B_fBDOkCA2BDOQCBlBDOvCAaBDPICCEBDO4CB
+ICDO0B_8BDPhCBRCDO-CCjBDPmB_DBDPoB9TBDOLCBXBDPPB-XBDOTCAYCDPQB_6BDOqCB3BDO7CCIBDPCCA0BDOlCBpBDOACCHB
+DPGCAKBDOhCBZBDOQCByBDPZCBiJDMnB_qCDMoB_fHDMeB_ZCDMjB-IBDNyB9OBDNLB97BDNXB-UBDM9B_7BDNHB-5BDMaCAHCDM
+3B_CBDORB9YBDNTB9lBDOMB-UBDMtB_KBDNGB9DBDM8CAGBDMwB_2BDNkB-LDDM3B_SBDMVB_jBDN7B84BDMtB9iBDNNB_KBDMPB
+9-BDNvB-dBDNBB_GCDMUB-wBDMUB_4BDNmB_TBDMjCAUBDMxB-eBDMQB-TBDMyCAUBDMSB-iCDMOB-aBDMbB9aCDM9B-WBDNJB-m
+BDMtCAIBDM9B-DBDNeB9SCDMpB9-BDNaB-2BDM5B9UBDMOB-KBDNoB-qBDMVB9vBDNGB_wBDMiB_2BDMpB-XDDMsB-wBDMdB-UBD
+M6B-zBDM1B_nBDNEB_bBDNrB95BDNgB_DBDMbB-9CDMqB9xBDOGB9xCDNXB-ABDNYB_hBDMaB_OSDMDB_jTDLXB-CCDLqB9KBDLt
+B91BDL6B-YBDLzB_dBDLTB9QBDL6B9lBDLkB_LBDLXB-bBDLkB_eCDLmB--BDL8CAEBDLqB_5BDLuCAMBDLnB9WBDMBB9OBDLyB_
+8BDLTB-oBDL-B-LBDL3B_tBDLSB_oBDLLCATBDMIB__BDMAB-7BDLTB9BBDLmB-fBDLqB89BDLzB99BDL2B_GCDLQB_ECDMFB_xB
+DMDB_SBDMHB_DBDLjB_vBDL9B9xBDL5B-sBDLQB-WBDLdCAEDDLgCASCDLYB91BDLhB9lDDLTB_TBDLUB-LBDLSB-4BDL0B_QBDL
+VCAVBDMGCANBDMEB9dBDLPB9lBDLPB_-BDMECAXBDMMB_vBDLlB-vBDLpB-QTDLhB7-TDLXB8mBDLWB6mBDLqB8tBDL4B6CBDLgB
+7qBDMGB8NBDLLB8XBDL6B6oBDMIB87BDMMB8oBDLaB6ACDMCB7WBDL_B6XBDLhB8VCDLLB8iBDLaB6zBDMFB72BDMPB8ZBDLrB7Q
+BDLaB6UBDL4B8aBDLVB7CBDLVB7aBDL3B63BDLPB823DM7B7vTDNXB8oBDNiB6PBDM2B5vBDMwB8bCDNnB4iCDM3B6ABDNDB25BD
+M5B5SBDMiB9EBDNWB4UBDMZB7bBDNCB3lBDMZB63BDOeB8lDDMsB8uCDMcB6PBDNKB4aBDOHB8iBDM_B7aBDNOB6eBDNFB3QBDNP
+B6FBDNlB5uBDNxB47BDNCB40BDMaB6mBDM1B8OBDOXB7NBDM0B6ZBDNaB5VBDM_B61BDNIB3xBDONB8wEDOgB7yBDM5B4SBDNlB8
+KCDM7B7LBDOTB8CBDNoB7bBDMTB56BDMaB7KBDMYB72BDMhB85eDPVB8DJDO3B9OBDPkB68BDPyB7wCDO9B82CDPvB7bBDOrB9cB
+DPdB6fBDPXB7ZBDPsB8vBDPQB8hAABQDOdB4feDOGB4VCDOVB57BDN-B33BDOSB5qBDNrB4DBDPoB4WCDPKB3oBDOfB5kBDN2B3Q
+CDPTB6BCDNnB3NBDPPB3FBDPLB40BDOxB3_CDOMB6QBDOcB5PBDN8B2zBDN3B3qBDO2B3uBDN6B3gBDOFB3nBDObB3HBDOYB2yCD
+PaB5HBDOaB3bEDPvB5KBDOXB6iBDPhB30AAJ6C7eCMXBC7hCMYBC7gCMTCC7gCMbBC7hCMVYC7OCL8BC7aCMKBC7bCMoEC7ACMbB
+C7ECMkBC6dCNkBC7UCMCBC7GCMwBC6dCNdCC7cCMsEC7dCMFCC7jCLwBC6iCNQBC7nCLoBC7nCLjBC7YCMjDC7VCMlBC7cCL6BC7
+TCMiEC7fCMODC7jCMPCC7DCMeBC7wCL8CC7PCMJBC7lCLiBC7NCMaDC7ZCMwBC7lCLnDC7gCL_BC7TCL-CC61CNBBC6vCM4BC7nC
+LvBC7OCNABC7kCLRBC7fCMIDC7dCLiBC6NCN2BC7WCMyCC7YCMTSC7cCMgBC7aCMgBC7aCMlBC7YCMeBC7dCMiBC7dCMlBC7aCMb
+BC7eCMfCC7cCMYBC7hCMiBC7bCMTBC7hCMeBC7bCMeBC7iCMmBC7jCMrBC7kCMtBC7oCM7BC7aCMhBC7XCMsIC7bCMhJC7jCMhPC
+7bCMgAACKC7NCLdJC7LCLYdC7WCKyBC6_CK6BC7jCK8BC7BCKsBC6zCLwBC6kCLpBC6uCMQBC7rCLCGC7ACLKBC6gCLiBC6nCMGB
+C7BCL8BC67CLHBC6WCMVBC6RCMlBC7BCLaBC62CLXDC6vCLiBC68CLkIC7KCLFBC64CMJBC64CL2BC7CCLzCC6qCLzDC7HCK6KC7
+VCLBBC7gCK-BC7CCKkBC7gCLEBC7BCLqBC7CCLSCC6jCLVEC8VCL6BC8UCL5BC8RCL3RC8SCMuCC8qCL3EC89CM2BC8qCMxEC8eC
+MrCC8OCMaCC8YCMdBC8zCLzBC8eCMTBC80CMeDC82CLdBC8mCMHBC8fCLyBC86CL3BC8FCMzBC8fCMEBC8KCMTBC8ECMkBC77CLl
+BC8-CMOBC8XCL4BC8KCNBBC8lCLaBC8ECMEBC8VCMIBC8vCL2BC8VCMdBC76CM9CC7-CM4BC73CNFBC8GCLuBC8iCMyBC8WCMzBC
+84CL1BC8ZCL2FC8ICMieC74CJhCC7xCJbDC70CJYBC78CJdBC7wCJdCC7VCJNCC8KCJoBC7WCJqBC7RCKMBC8NCImBC8FCJCBC79
+CJ1BC7tCJnBC7oCJpBC8BCJdCC7HCKYBC7TCKPBC8YCJABC8JCJKBC71CI6CC7UCJkBC70CJQCC73CIuBC8PCIaBC7WCJdBC7xCI
+zBC8PCI2CC75CInBC7NCKTDC8KCJcBC7hCImBC8CCIuBC7XCKCCC77CIdCC7LCI2BC7lCINBC8UCJNBC8OCJiBC7kCKCCC8fCIvB
+C7pCJSBC7zCImCC7qCJYBC7uCItBC7aCJuDC7jCJ7HC8VCJVFC7bCJQBC8uCI2BC8XCJoBC73CJGCC8kCI1BC76CIWBC7wCJ2BC7
+6CJUBC8HCJVBC84CI3BC8pCI8DC8kCJcCC76CINBC7oCJeJC73CHmEC7tCHhCC7kCHpCC7yCHnCC8DCHoEC75CHwOC73CHmBC7jC
+H2BC7RCHDBC7UCIIBC8LCHVBC8wCHkDC8nCH_BC80CITBC9CCHKBC8FCIEDC7GCISBC8vCIBBC7ZCHNBC7rCIDBC75CH6BC8TCIH
+CC73CIEBC8ZCIABC8dCHjBC8jCHEBC8lCIJBC8fCIYBC87CIDBC8SCHuBC8UCH4BC88CHgBC8ZCHOBC8DCG7BC8wCH7BC78CHTCC
+7sCHPDC7yCG_BC74CHhlC8dCLNEC8ECKpBC8UCLtBC9BCKICC8bCK3BC8xCKCEC8ECKmCC72CK8BC81CLJBC7mCLUCC7tCLGBC8L
+CLODC8bCKiBC8xCK7CC8gCKJBC79CLYBC71CLECC8fCKiBC73CLMCC8cCLHBC7_CKYDC7jCLbBC8YCLlDC83CKBBC8yCKvBC8fCK
+XBC8OCJ1CC8cCKaBC8gCKABC8JCLdBC8bCKPBC8UCKDBC8FCKPCC8nCKJBC8mCKUBC9BCLABC8aCKWBC7lCLeBC73CKlDC8QCKjC
+C7_CLKBC8hCLFCC8MCKWBC8cCKfBC71CLcBC82CKfBC76CK7BC8qCK8BC7wCLWCC7-CKxCC8_CKRBC8jCKaCC8YCLWBC8aCLJBC9
+ACKYBC7tCKyBC8-CK8CC8hCK0KC8NCKxBC8NCKyBC8JCKzCC8RCK0BC8NCK4BC8YCKvBC8ICK2BC8HCK9BC8DCK7BC8WCK3BC8SC
+K5BC8VCKwBC8RCK-BC8OCK9BC8LCLBBC8GCLGBC8WCK_BC8PCLDBC8FCKwFC8NCKxLC8HCK8AAClC_jCIFBC-0CHxBC_nCH5BC_y
+CGmCC_xCG6BC_MCGXBC_LCH_BC_iCGjHC--CHwCC_6CHRBC-sCHdCDAJCHPCC_WCHUBC_ZCHmDC_BCG3BC_ZCH0BC_8CGpBC-6CG
+tBC-pCIGBC-xCGsBC_UCGYBC-6CHeDC_YCHLBDAGCH1BC_TCHfBC_2CH8DDABCGjBDAHCGkBC_KCHsBC-5CGeBC_GCGhBC_8CILB
+C-pCGbCC_ICHMBC-qCG6DC_sCHfFC_oCGZBC_zCGaCC-fCHJBDADCG3BC-UCHKBC-bCHoBC_lCHOBC_ECHeBDAJCGZBC-wCH9BDA
+ECHPBDAGCHdBC_bCHdCDALCHMDC_ECGsBDAICIPDC_8CGaTC_bCGxCC_ZCGvBC_YCGzBC_WCG1BC_PCGyBC_jCGmBC_UCGtBC_XC
+GrBC_aCG9BC_hCG2BC_VCG7DC_CCHEDC_PCGsBC_ZCGfKC_PCGfAABIC_eCJVBC_QCJaBC_iCJeGC_dCJZDC_dCJZGC_LCJ1BC_J
+CJ_BC_-CJpCC_7CIeBDABCKACC_bCI9BC_BCI0BC_dCIxCC_nCJqBC_ACKJCC_RCKSBC_JCLLBC_pCI_BC_tCIdCC_jCKUBC_MCI
+6DC_2CI9BC_3CKbBC-jCJyCC_dCIYCC_DCIYDDAICKLBC--CIcCDAMCKkBC_5CKsCDAHCIZDC_CCJvBDADCJJBC_2CJ_CC__CKZB
+C_kCJ3CC_vCKUCC_LCIWBC_UCJ1BC_ZCIgCC_dCIfDC_bCIOBC_iCK0BDAGCIpCC_ZCJuBC_wCJWCC_LCKtEC_pCKtFC_hCJPBC_
+QCJLDC-3CJ9GC9fCIxBC9YCI7BC9gCIpNC9hCJ4EC9PCJ2CC83CJOBC9fCJLCC9GCI-BC-RCKJBC9CCJdBC9oCJNCC9PCJIBC9dC
+JZCC87CJZBC-HCKKCC-rCKJDC9FCJmBC-QCJzBC9KCJQBC9_CJSBC94CJqCC8pCJiBC9QCI7EC9LCJaBC9WCJkCC8dCJ3BC9sCJ5
+BC9KCJwBC80CJdBC-0CKmBC8oCJvBC9kCI1BC9kCI9CC86CJkEC-jCKhBC84CJDBC-cCKABC8-CJvCC-HCJHCC9qCKJCC-YCKVDC
+-iCJ9XC-TCJmCC9ZCHPBC-PCIVBC9tCI4BC-NCHJBC94CIvCC9jCIbBC-kCITBC-fCHzDC-XCH6BC-rCJSBC96CIGBC93CIfBC-2
+CJbBC-UCGzDC-wCIeBC-ACIpBC9WCIaBC-dCJtBC91CHOBC9qCIHBC-BCHzBC9sCHRBC9LCIrCC-PCIxBC9ECIgBC9wCICBC-rCJ
+RDC9OCIIBC9mCHXCC-jCJRFC9UCHrBC9tCIPCC94CHGBC-SCHUCC9-CIBCC-JCIKBC9sCH9BC-CCIABC-OCHzCC9MCHmCC9QCHeB
+C-HCGyBC8xCIfCC-bCJMBC9aCIVBC98CI5BC90CHuBC-JCHhDC9VCIRBC-vCI1BC9gCH7BC9YCHwEC-aCI9BC-bCJEDC-dCIeCC9
+VCIsBC-DCG6LC-PCHyAABoDCCCJrBDCLCJTBDB8CJXbDBJCKtBDBGCJGEDAZCJgDDBACKUBDBlCKOBDAYCKrCDAzCJsBDByCKKBD
+B6CJ8CDAhCJ2BDAwCJVEDAtCJCBDBlCJABDAxCKoBDBKCKfBDBLCJ7DDAtCKLBDB-CJ2BDBYCJMBDAbCKRBDBdCKRBDAjCKZCDBp
+CJSBDBWCKqBDBqCJwDDBXCKcBDBICJWDDBfCKyBDBJCJmBDARCKMBDBYCKTBDByCJxXDBGCIOTDBaCIgBDBlCHnBDBUCHrCDAtCI
+rBDB0CIqBDBQCH9CDBxCHxCDAgCIhKDAUCHrCDBfCIzBDBlCHyBDA-CIwBDA-CI5CDARCJJBDBmCI1BDATCIOCDA1CITBDAzCHpB
+DAjCHqFDArCIFBDAsCIeDDAuCITBDBnCIQBDA3CH3BDAaCI_BDBVCIuEDAzCHdCDBfCHvdDBKCG_TDBbCGACDBPCGJBDBfCGMCDB
+kCHEBDAVCG0BDAzCHTEDBZCGnBDB0CF0BDB9CGWBDAXCGcBDBQCHPBDBTCFxBDAlCGnBDBNCGtBDApCGyCDCACF2BDBlCF7DDAsC
+G8BDBoCGMBDBoCG9EDBiCGeBDBvCGnBDBHCGeBDA4CGjBDBiCGyCDBcCHaBDBHCHiBDBUCGgBDArCHLBDAWCHKBDBaCGzCDA_CHf
+BDBWCGJBDBjCFyjDClCH_IDCwCH9EDCdCHyIDCJCHTBDByCHTBDB5CH2GDCOCHsEDCZCHYCDCXCGxCDCYCFyDDBxCHKBDCJCIABD
+CGCH9BDCRCHBBDCICF4BDCiCFyEDC1CHnBDCKCG0CDCMCGqBDCuCGDDDCtCHvBDCoCHABDB7CG6BDCJCGfBDCfCG3BDCsCGoBDB1
+CHYCDCaCHkBDCxCGyDDCkCHfBDCzCG9BDCzCHLBDCOCGVBDCXCGABDCNCF6ZDB9CH3BDB9CH2CDDaCIHBDCzCIqBDCWCKbBDCXCJ
+uBDEKCK9BDDsCKgBDDUCJiDDDzCKQBDCiCIxBDDeCJnBDECCI7BDD_CK5BDChCIlBDDSCIhBDDJCKdCDCvCIaBDEDCKVBDDGCKuB
+DCtCIvBDDQCJaBDC7CJ6BDDZCH8BDCkCKkBDD5CImBDEKCI1BDC3CKoBDD_CIcBDEQCIsBDDbCI8CDDZCIwBDDcCIyBDDVCKpCDC
+dCKsBDD4CI4BDDRCKPBDC5CKVBDCLCKkCDEZCJPBDDdCJYBDCoCJmBDDrCJLBDCHCK5DDEjCJABDDiCJ2BDC2CJJCDB6CKhCDB9C
+I_BDDtCI7BDDjCKiBDDcCKLBDD0CJDCDD0CIRBDDACKGBDClCJDBDDSCJ8BDEMCJPBDDiCJ8BDClCK2BDDVCIaCDCkCJ3BDCVCKD
+BDDbCK5BDEUCKlBDDLCJSDDCXCJNBDD_CIMBDD6CKBBDDsCKBBDCtCJfBDB-CIbBDD5CJxBDDBCJpBDCsCINBDEQCJGLDDKCJRCD
+DrCK1BDDiCJxBDCrCI6BDCTCIOCDDRCIrBDDiCIqBDC5CK6CDDjCITBDDsCJTBDEOCKtBDDGCI4BDC8CJGCDDACJHBDC-CJSBDDE
+CI_BDDECJCBDDKCJIBDECCJ1BDC9CISBDDuCKsCDDbCIRBDDOCIFBDDlCIjBDCPCIgBDCPCIpBDEWCJaBDD8CJNBDCcCJNBDB6CK
+UBDCuCKhBDDICIlBDDsCJdBDD2CJcCDD4CKRBDCWCKxBDEICIaBDCzCJZBDDrCJ6HDCPCI4CDCUCJiBDEWCJADDDxCIcBDDvCInD
+DCcCKPFDEOCKVBDB3CKuBDCbCIfBDCbCJjBDD7CKtBDCpCKaDDDeCJLCDCSCJ4BDDTCJvCDDoCKHBDEGCJtBDClCJLBDDkCIzBDC
+bCJXBDCsCJNQDDDCJDCDC7CJEBDC6CJHCDC4CI8BDC7CI9BDCvCJHBDC-CI-CDC0CI-BDC3CItBDC7CI2BDC_CI2LDC_CIuEDC-C
+I7AABKDDhCMWKDC4CLOCDEJCMaCDEuCMyFDDBCLyCDDbCLXCDD7CLZBDD1CMPBDDgCLNBDDsCMHBDBxCK5BDESCMrBDEPCMUBDDw
+CL5BDDeCMKBDCNCLQCDDTCLdDDD_CMaBDD-CMOBDDQCLABDDICLbBDCdCLlEDDcCL4BDD6CLFBDDOCL-CDEGCMbBDEYCMeBDCyCL
+fBDCQCLEBDEUCMJBDCeCLTDDEjCMzBDDWCLgBDC7CLaEDDpCMVBDEMCL-BDClCLJBDCCCLCBDDBCLCBDCeCLZBDEXCMiCDDRCLJB
+DDxCLrBDCoCLUCDDdCMJBDEYCMGCDB3CK_EDChCLABDD6CMSCDECCMDBDD0CLbCDCVCLQBDCnCLkBDEYCMNBDDRCK6CDDaCLrBDE
+PCMmBDDrCLVFDEnCLuDDEiCLZBDEuCLnFDEzCK6BDEfCLuBDFFCLjBDFWCLWBDEoCMDBDFFCKyBDE0CLaBDEwCLzCDEeCMFCDEiC
+LGBDFiCL0CDFfCLfBDFPCLdBDEqCMkBDErCLJBDEeCMSBDEFCLKBDFaCMXBDETCK8BDELCLfBDE7CLABDFOCK0BDFXCLxBDFQCL4
+BDEnCL6BDEyCMRCDE3CKqBDFkCMBBDEnCMVBDFKCMABDFjCLTBDE2CLBCDEvCMHCDFJCLWBDFACL0DDFXCLlBDFhCMUBDFYCK_BD
+FlCMHBDFBCK9BDE_CK0BDFTCKmBDFbCK1BDFTCMNBDFfCLcCDFlCMZCDE8CKjBDEoCLkCDEzCKnBDFnCLjBDEmCK4BDEPCLxBDEe
+CKzDDE9CLMCDFnCK_BDETCLODDFTCKgTDEjCKDLDFOCJ5BDFPCKDCDFUCJaCDFHCJlCDFFCJOBDFgCJ8BDEzCKOBDEkCKVBDETCJ
+wBDEoCKlCDEsCJ3BDEeCKABDFQCJUBDFVCKLBDESCJjBDFXCJRBDFBCKJBDE2CJHBDEPCJ6CDFGCJ3BDFlCJJBDFlCJWBDFZCJ8B
+DEwCJpCDFWCKVBDECCJgBDFgCJNCDEOCJmEDEbCJ2DDEaCKUBDFkCKMBDEhCJtBDE5CJjEDEoCJYBDExCJzBDEdCKdCDERCKXBDF
+OCJpBDFNCJaBDEmCJoBDENCKGBDFACKWCDEUCKNBDEuCKnBDFACJ0DDFbCJuBDE7CJ9BDFnCJuBDEoCKYCDELCJjCDFhCJhBDFHC
+JvBDFKCJfCDFOCJyODFQCHzKDFRCHcEDFYCH7BDFbCHFBDE6CI5CDFdCIlEDFmCJDBDFACHYCDFYCIpCDEoCHgBDEeCInBDFmCIE
+BDFnCGzBDFdCGyBDFGCIJBDFPCIpBDFYCIwBDE3CIYCDFZCHUBDE6CIuBDE4CH2BDE4CHnBDFdCIqCDFhCH_BDEkCImDDFBCHsCD
+EqCIbBDFfCIwCDFaCI5CDEvCH4DDFHCJACDFoCHWBDFjCIkBDFjCHqBDEyCI_DDEzCHfCDFiCITBDE-CIJBDE2CHXCDFVCIMDDE4
+CIQCDFSCIaCDEeCIQBDEsCI_CDFGCIXBDExCHwCDE-CH9BDEQCIABDFVCIfODE3CGPCDFECGUBDFDCF6IDFgCGCBDFWCF8BDFnCG
+CBDFnCF6CDEoCFvBDFSCGCBDFdCF6CDEiCGuBDFaCFpFDEvCGfCDEjCFpBDE7CF9CDFjCGcCDFTCFrCDFhCFpCDFICGjBDFjCF3B
+DFCCG6CDE4CHICDE0CFsBDFRCGOCDFdCFeCDErCFsCDFmCGMBDEnCHEBDExCF3DDFYCGZCDFWCGKCDEoCG2BDFJCFqBDFKCGBCDF
+KCGSEDFnCFnBDE8CFmEDE6CGoBDExCGKCDEvCG5ZDDwCHuBDD0CH0TDECCG1CDDtCIHBDDhCHSCDDhCG1BDDHCG9BDDNCHHBDDeC
+HqBDEICHJCDD_CG5BDDVCHKBDDlCHoBDDvCHZCDEICHyBDDJCG4BDETCHkBDECCG-BDDHCGuBDDdCHCBDEOCIGCDD4CHWBDEECHb
+BDD5CHhEDDuCHQBDEXCHFBDDVCHlBDEaCHRBDDtCG5BDEhCH2BDDGCHcBDDpCH4CDDRCHPDDD5CHJCDDzCHFkDD5CFvCDD3CF0BD
+D-CFyBDDuCGADDDzCFvIDDvCFzFDECCGFCDDzCF7DDC3CGWBDDcCGeBDDxCGfCDD_CGLCDEQCFyBDD1CGXBDEZCF8BDEFCGLBDDn
+CGCBDDhCFxBDDUCFyCDDgCF-BDD3CGICDDmCGtBDDYCGABDDeCF0BDEVCGKBDELCGUBDEaCFxBDEMCGrBDC_CGiBDDyCGjBDENCF
+6DDERCFsBDEDCF1CDDLCGJBDEiCGSqDDrB_eBDDQCAiBDEXCA6BDDlCAcBDDZB_wBDDLB_gBDEZCBLBDEHCAsBDDxB_jBDDeCApB
+DDFCAhBDEXCAxBDESCA6BDEPB_5BDDbB_MBDEjCAnBDDNB_-BDDZCAOBDDpCBABDECCBSBDD0B_FBDESCAJCDD5B-3BDEdCAzBDD
+sCBQBDE1CBUBDE2CAtBDDLB_zBDCfCBZBDDXCAtBDCYCBnBDDzB_QBDEaCBBCDEHCAMCDDgB_bCDEVB_iBDDXB-wBDDqB_vBDEdB
+_gBDErCBBBDEHCBeCDECB_oBDEGB_RBDEOCBPBDEyCBSBDDXCBTBDDDCAwBDD4B_fBDEYCBYBDCxCAQBDFJCAvBDDDCBBBDEmCBV
+BDD1CADCDFbCBqBDDWB--BDE-CBBBDD6CAhBDDuCAvBDEGCBLBDDLCARBDDiCBQBDDtCA-BDDrCBBBDDsCBDBDDpCA6BDFICBFBD
+DDCBRBDC7CBVCDFWCBRBDEXCAhBDDpCAHBDDWCA_CDC-CASCDEJCBJCDChCBvDDDvCAcBDD8CAMCDDhCABBDDfCA5CDDLCBPBDEH
+B_ABDD8CArBDCvCBcBDEICAfDDEDCA4BDEFCA4BDEECA6BDEICA6BDEECA2BDEECAzBDEBCAzBDD_CA4BDEBCBFBDEICA8BDEICA
+zCDEOCA4BDEACBABDELCA0BDEDCA-BDEICA3BDD-CAzBDEOCAzBDEICBABDEICAvFDEECArBDEACAqBDD_CA8BDECCBJBDEOCA9B
+DEKCAsCDESCAzBDD8CBBEDD7CA3CDEICBFBDERCArDDD-CBDEDD7CA7BDD8CBLBDENCBCIDD7CAyBDD2CA8CDEOCAsDDD4CBHEDD
+6CArBDD1CA1DDD2CAtGDD_CArAADeDCFCBhYDCeCAzFDBmCBICDCJCCmBDCwCBCBDCuCAyBDCUCA7BDCNCBoBDCVCBDBDCMCA6BD
+BqCCGBDBsCB3BDBjCBABDCQCAnBDCACBOBDCfCBFCDB5CCCBDCJCB7BDBrCBhBDBvCCaBDCLCCaDDBzCBRCDCHCCEBDB7CAuCDCT
+CBNBDBZCBeBDCOCCNBDCUCClCDB8CBBSDCbCA3GDCfCBABDChCA0DDCfCAqKDCoB_rCDC0B_XCDCpB_XCDC5B_ZNDCLCAKBDCvB-
+ECDCyB-HDDC_B-JBDCqB_KBDCYB_HBDCSCANBDCJB-fBDCEB_TBDCvB9pBDCiCAVEDCfB9gBDC-B_iBDCeB-IBDCfB_QBDC_B_2B
+DCYB-qBDCfB_hBDCyB9ZCDCGB_ABDDRB98BDCFB_7BDCwB-VBDC2B9KBDCPB-wBDCvB-8BDCRB_CBDDEB9nBDCiB-nBDC5B99BDC
+5B_WCDC5B-qBDCnB93CDCDB_gCDDFB-kBDByCATBDCuB-rBDC7B_3BDCKB_yBDBqCAeBDCjB-ZBDDLB9HBDCVB_nBDB-CAMcDEFB
+-pTDESB-hCDD8B-kCDD4B-TBDEZB-RBDEAB-HBDDoB93BDETB9eEDDvB-tGDEpB9UBDEeB-oCDDvB-QBDEmB9JCDD9B95BDDlB9N
+BDEmB_KBDEAB-VDDEUB96BDDXB-dDDEqB9_BDDSB-LDDEzB_ABDEsB-qBDETB9JBDDlB-iBDD0B9iBDFCB-vBDDlB-MCDD-B9IBD
+E5B-gBDDqB9CBDEfB--EDDZB9kcDFjCAdCDFkCALCDFaCASLDFpB_RBDGMB-6BDFNB_3BDGYB_uBDFLCAVCDGTB_lCDE7B_DCDFz
+B_VBDFoCAEBDGBB_gBDFfB_bBDFXCA2BDF4B_MCDFRCAnBDE2CAXBDFUCACBDFaCAoBDFWB_OBDFkCA0BDFrB_7CDFvB_tBDFCCA
+QBDFwCAJBDEzB_rCDF9B_GBDFPB_mCDF-B_4BDEpCAODDFwCAWBDFeB_-BDFGB_MBDE2B_9BDFUCA_BDGVB__BDGOCAlBDFeB_3B
+DF8CAFBDEbCAKBDFCB_nBDEpB_0CDF5CAYCDFdB_tCDE9B_WBDGQCAMBDEqB_eBDFRCAQcDFpB97fDE9B9fCDGNB9rBDE1B-ODDF
+QB-wCDFgB9kBDFvB9mBDGKB-OBDFgB9RBDGSB8wEDF3B88DDFxB9WBDFoB-YBDFQB-UCDGPB9PCDFTB-DBDFJB9HBDFGB-HBDFuB
+-0pDGDB7UeDFzB7wBDF9B8NBDGCB4-EDFxB4sBDGVB8GBDGGB6NDDGCB6qCDFyB7SBDGLB7FBDGWB4oBDGMB5nCDF0B55BDGNB7n
+BDGWB7XJDFpB6NpDFpCDKBDFwCDCBDGBCDJDDF_CDaCDEwCDcCDElCCsBDE2CDjBDE9CDjCDE9CDyBDFKCDsBDFvCEHBDFfCD5CD
+FUCD4BDFRCCmBDFeCDfBDGVCDSBDE0CCFDDEcCCCBDGJCD3BDEjCCcBDGKCDbBDE2CCXCDFNCB2BDEzCDPBDFPCCYBDFgCCqBDFI
+CEBBDE4CDSBDFICCYBDEuCC4CDEyCDKBDGQCD9CDFACCqBDFOCCKBDEfCCXBDEpCDNBDF9CDzCDE_CDJBDF1CDUBDE_CCXBDFjCD
+rBDFUCCvBDFUCDiBDGICCvCDFcCCEBDE1CBlBDFSCC3BDFtCDbBDE8CB2BDFHCC8DDE3CC_CDEvCCWCDFgCDHBDEiCC2BDGYCD2B
+DFWCDPBDFACBmBDFJCBkCDFECBlBDFFCBkBDEeCCOBDFuCDpBDFKCCiBDFlCDcBDGQCDpBDFtCCvBDFDCCISDFICDQBDFHCDVBDF
+CCDUBDFLCDRBDFDCDNBDFGCDlCDFLCDVCDFHCDaCDFFCDVBDFMCDZBDFLCDgBDFRCDaCDFGCDRBDFHCDSGDFQCDOBDFJCDLBDFHC
+DfBDFFCDdBDFQCDUBDE9CDJBDE9CDOBDE8CDcBDFDCDkBDFCCDYBDE-CDWBDE6CDXIDFCCDbBDFCCDeZDE9CDVAACCDF8CEcdDFk
+CEaBDF5CE5BDFvCEUBDGHCEsEDFGCESBDFSCFRBDGVCFABDFnCEyCDFjCE6BDGCCFGBDF0CFOCDFkCFNBDFMCFJCDFrCExBDFnCE
+vCDFGCEhCDGRCFAEDGUCFABDFJCFDBDGaCFEBDFXCEVCDGYCFRBDFMCE5BDFVCEuBDFeCExBDFiCEpBDFNCFDBDGUCEgBDGDCFUf
+DEcCEGCDEYCEVSDEgCDMBDEUCDvBDEUCEeCDDlCD2BDEBCD_BDEYCE_BDELCDzBDEzCD1BDDhCDzBDECCDWBDDwCDzCDEiCEhBDE
+PCErBDElCDuBDEACDXBDEHCDoDDE2CElBDDgCDiDDETCDhBDEpCEUBDEVCDPDDEQCEFBDEcCEzBDFECEtCDEoCEBBDD4CEZBDEbC
+DRBDE5CFEBDEsCD5BDEICEDBDEGCDUCDDwCElBDEhCD9BDEyCE3DDE1CENBDESCD4BDEHCEUBDEECEjBDEnCFBBDDtCEaFDE4CEZ
+YDDSCDlUDCyCEqBDDICDwBDCJCD4CDCRCDKDDC2CDrCDCbCCaBDDICC5CDCFCC8BDCuCCsBDCgCCkBDCqCEKCDCpCC3CDCpCDtDD
+CUCEODDDFCD6BDDBCD4CDCoCE_DDDfCEbBDC3CDXBDDNCDsBDCJCDUBDCeCC8BDCXCDuBDCiCEjCDCxCDoBDDhCEKBDCPCEVBDDR
+CEtCDDCCDiCDCdCESCDCgCDYBDDGCDGBDC4CEvBDCvCClCDC0CEaCDCzCDMBDC5CFCBDDLCESXDF-CBdDDF-CBuaDFqCBABDGICB
+OBDGWCBKBDF_CCCDDGKCA4BDF0CCQDDFxCArBDGJCB6CDF6CAyBDFwCBiCDGKCBABDGUCBtDDFoCCIBDFnCBcBDGOCCQBDF5CBKw
+DBxCCqTDBfCCrBDBkCDABDCWCE-BDBvCDOBDCSCFCCDBqCC_BDByCDeBDCACFGBDB_CC3BDBnCClBDBjCCWCDBeCCgBDB5CFiBDB
+6CEaBDBnCE1BDBzCE-BDBmCEICDBZCFcBDBcCCzCDBxCEBCDBiCFGCDBYCCwBDB9CCfCDBvCEzDDBnCCbBDCDCEoBDB8CEmBDB4C
+EPDDB2CDsBDCACEQBDBxCEgDDB5CEuCDB5CE3jDD0CBvDDD7CB0QDDACCIEDEtCB5BDDCCCpBDDWCB3BDDOCCuCDEGCChBDDiCCO
+BDDJCBpBDEnCBrBDEOCCnBDEaCB4CDCcCCRBDD2CCiCDDsCDLBDDzCCDCDCuCCSBDCyCCHBDDICCVBDDtCDcDDDcCCuBDDSCCGBD
+DfCDFBDD_CBkBDDgCBrCDDfCCDBDEHCB1BDCYCB-BDD2CBYCDECCCwBDEJCCXEDEGCCJBDCtCB-BDDbCB7BDDRCCaBDDwCCQBDEP
+CCFCDCsCCZBDC9CBtBDDrCBuCDErCBwDDDUCBlCDD6CDEBDEbCBkCDDqCC3BDDmCCcRDDyCFmBDDtCFpcDDmCFKBDEZCFJBDDjCF
+iDDDQCE9BDD8CFPBDDCCFdCDC5CFZBDDPCFZBDDvCFABDDJCE2BDDeCEqBDDhCEzBDEOCFGBDD8CFrBDDTCFkBDEDCFfBDC0CFLC
+DDlCFWCDDYCFfBDD9CFnBDEGCFMBDDeCFLBDCkCFWCDDvCFaBDElCFXCDEKCE6BDCZCFgBDFDCFWBDE4CFZBDDJCFBjDAICB8BDA
+VCCTEDAICB2BDANCB2CDAuCCFBDAQCB4DDAXCCLGDAICBtBDBZCCTBDBVCCgBDAOCBgBDASCCHBDAUCB_BDAVCCGDDAPCBmEC_-C
+ClBDAeCB8BDAYCB8BDAdCCCBDAZCB1CC__CBuBDAACByBDAFCCSBDAACCPBDADCCNBC_-CCWBDAICCPEDAJCCWCC_1CBrBC_xCBt
+BC_qCBpCC_lCBpCDAUCB1BDARCBvBDA5CCGCC_4CBxBC_7CBvBC_9CBwBDADCBsCDAXCBrCDAOCBsBDAeCBxBDAcCCUBDAbCCKBD
+AlCCRBDAfCCKCDAPCCNBDAOCCGBDBcCCHBDAUCBmBDAkCB_CDAKCCGBDAHCCJBDALCCNFDAHCCkBDABCCaBDAGCCaBDBICCZCDBN
+CCKBDAPCB_BDAOCCTEDANCCbDC_DCCKBC-xCCQBC_cCDcBC_iCBvBC_DCCrEC-sCCuBC-wCCcEC_mCCkBC_kCB6BC_qCB1BC_vCD
+eCC_ICCVFC_ICDTBC_eCCSBC_yCCjBC_uCDlFDAGCCqCC_mCCCBDATCC6CC_nCB1DC_oCDvBC_oCCLBC_hCC3BC_MCC4BC-zCC7C
+C_hCCFBC_TCDKBC-0CDNBC_1CCSBC_5CCRCC_UCCMBC-5CCsBC_cCB_BC-_CCgBC_ECDFBC_WCCjBC_XCCoBC_kCCaBC_0CCzBC_
+yCDACC-5CDEBDAUCCyBC_NCCABDANCCjBC_MCB0CC_uCDRDC_lCCNBDASCCoHC_wCCSBC_wCCYBC_4CCZHDAGCCxMC_3CCABC_2C
+CABC_yCCABC_4CCBBC_8CCABC_7CCDBC_3CB-BC_zCB8BC_9CB9BC_1CCFBC_yCB1BC_2CB4CC_7CCGBC_zCCEBC_vCCCBC_vCCM
+BC_8CCKBC_5CB_BC__CB4DC_3CCFBC_vCB8BC_-CCBBC_2CCCBC_1CCLBC_6CCMBDABCB5BDACCCBBC__CCFBC_qCB8BC_uCB5BD
+AECB3BC_7CB7BC_tCByBC_qCB5BDAACCJCDAFCCBBC_rCCECDADCCGBDAFCB8CC_3CCDBC_5CB4BDAJCCABC_oCBwCDAECCDBDAM
+CCBBC_rCCTBDAGCCAHDACCBnJC_2CCARDAMCB8AABnC_5CB8LDAfCDFBDATCDHFDAcCCgCDAwCCcBC_3CD0BDBjCD0BDBcCEnBDA
+4CDABDBKCClBDA6CDsBDBICETBDA4CEmBDBFCC_CDATCDsBDBOCDrBDAaCDYBDApCC8BDArCCpCDBNCEzCDAnCDYBDAoCDbCDANC
+EGBDAzCDxBDAWCDkBDA2CESBDA-CEXBDBWCEaBDAmCEGBDBKCDJBDBDCC0BC__CDpBDA3CD0BDAeCCtEDBKCDaBDBZCDEBDAsCDl
+BDA2CDVBDA0CEGBDAICEnBDA0CC4BDANCDXBDAoCCYBDAiCE2CDAeCEfCDBBCCMBDBOCD4CDBKCEDGDA_CEMBDA0CDiBDBHCDkBD
+ASCEPBDAACDdBDBeCEDBDAECDFBDA9CC2BDBTCC4BDBBCDqBDAdCERBDBLCCvBDAOCEgBDAsCEPBDAdCD3EDBXCDqBDAuCEkBDBa
+CDQBDBACCfBDA4CCxBDA9CCoBDBICDRBDAaCEpBDAECEaBDA4CCZBDAwCDJBDAECD6EDAxCGKCDBACGKvDA-CE_BDAYCGCDDBGCF
+KBDAGCGKBDAbCGSCDAmCFDBDA-CFXBDAgCFzBDBACF8BDAGCF_BDAPCFxBDABCF_BDAHCGRBDAbCFnBDAsCF4BDAfCFdBDA4CGMB
+DA6CFsBDAhCFLBDAjCGLBDAvCGBBDAtCFhbC_bCFQBC_UCFYBC_QCFRBC_bCFFBC_jCFRZC_9CFfBC_CCFrCC-2CF9FDAOCFPBC_
+ECGHBC_vCFUBC_OCFeBC_MCGGBC-pCF0BC_3CE0BC_sCFACC_cCE4DC_bCFhBC_rCFkBC_ACFPCC-xCFFCDANCFfBC_3CF5BC-5C
+E-BC_bCGPCC_oCGJBC_OCFBFC-nCFEBDADCFUBC-rCFhBC_gCFuBC_ZCF5BC_XCF6IC-pCFQBC-jCFUBC_CCE5BC_7CFOBC_ECE6
+CDAJCE6BC-zCE4CC-7CE4CC_HCFhBC_XCGMBC_dCFCBC_oCF2HC_ICEWBC_MCEVBC_ACEUBC_QCEHBC_OCEsBC_XCEXBC_GCEjBC
+_RCEfBC_HCENCC_KCEYnC_DCEsBC-vCDYBC_BCDkCC_RCDzBC_oCEsBC_FCD6BC-zCERBC_DCEABC-sCEKBC-VCFCCC--CELBC-s
+CEABC-eCEmBC_oCEdBC-jCEbEC-4CD0BC_dCEJCC_sCEHFC_GCDtBC-aCEEBC-nCErCC-vCD5BC_6CEKBC-bCE3BC-QCEiDC-WCE
+8BC-zCErBC_dCD0BC--CEeBC_XCEpJC-OCD9CC-cCDwcC9zCDPCC9fCDgCC9gCEDDC90CC5BC-CCD8BC-SCDHEC95CEKBC9NCEsB
+C9nCC-BC9mCEoBC-RCCvBC9sCEEBC9SCDWBC9NCECBC9ECDuBC-jCDjCC98CDeBC9YCEbCC9qCEmBC-dCC3BC-CCC3BC-ZCDbBC9
+ACETDC9KCE4TC-TCDbCC-SCDYPC9iCFYCC9pCFNBC9lCFEVC-BCEuBC9cCE4CC8jCG1BC9bCGFBC9mCGUBC9OCGZBC9KCG-BC8XC
+GrBC86CFMBC-MCGEBC8_CFdBC90CFwBC8-CF1BC9GCFICC9XCFMBC8zCFuBC-GCE_BC9nCFxCC-VCFkCC9fCG0BC9bCFlCC89CGS
+DC-eCGTCC8kCGaDC93CGoBC87CFDBC98CFmBC-CCFXCC-DCFKBC-NCFZBC8zCG1CC9dCGdBC9xCE_DC92CGMBC-LCGeBC-kCGABC
+-dCFuBC94CE5BC9LCGtCC8rCFxBC9NCF1VC_nCBcBC_mCBjDC_4CBkBC_3CBiCC_sCAtBC_SCBYBC_wCBkBC_zCBkBC_0CBeBC_w
+CBcBC_tCBjBC_tCBeBC_tCBZBC_qCBcBC_qCBjCDACCA0BC_9CBfBC_7CBdBDAQCAwFC_dCBNDC_LCBLCC_FCA4BDABCBdBC_hCA
+rBC_hCBCDC_-CBjBC_6CBiBC_ACB8CC-8CAgBC_TCA2EC_RCAcBC_WCAlBC_DCBdBDAGCBkBDAKCBHBC_6CBaBC_-CBaBC-4CBdD
+C_XCBBBC_PCBLBC_oCBWBC_aCBYCC_hCBeBC_HCBoBC_XCBtBC_uCAIBC_4B_6DC--CAqBDANCA9CDAWCAkEC_ECAlBDAVCA-EDA
+JCAjCC_TCBjBC_-CAnBC_zCAdBC_rCAdBC_9CASEDAHCBdBC-9CBDJC_0CBLBC_zCBRBC_xCBMBC_wCBRBC_6CBIBC_yCBGBC_3C
+A4BC_uCBFBC_vCBKBC_2CBOBC_zCBWCC_1CBDBC_sCBLBC_wCA_BC_4CBRBC_3CBZBC_tCBSBC_1CBaDC_mCBEDC_pCA5BC_2CBB
+CC_vCBICDAACBJBC_rCBCBC_pCBGBC_oCBLBC_8CA9CC_-CBPDC_mCBQIC__CBTHC_6CBnJC_2CBJNDAJCBOCDADCBBBC_8CBWCD
+ABCBXTDAiCBdCDAhCBdCDAfCBfCDAiCBaBDAhCBmBDAjCBhBDAbCBiPDAxCApBDAXCBaBDAnCBtBDBKCACCDBACAPDDBCCB3BDAo
+CA5EDA8CBJBDA_CAyBDBOCBaBDBNCBaDDAFCBQBDBeCB6CDAWCBJBDAFCBVBDAoCBOBDBLCBUBDBOCAnBDBPCBGBDBLCBNCDBdCA
+kDDAxCBzBDAgCBNCDBbCAMBDANCBWBDA-CBABDBXCB8BDBUCA2BDAxCBXBDAxCBEBDBLCCDCDA6CAgBDA7CB1BDA6CBfBDBWCByc
+DBnB_YBDBjB_YDDBxB_hBDBrB_TCDBhB_SBDBmB_SBDBdB_TBDBtB_VoDBEB_CDDB5B_JDDB4B_2DDBkB-wDDA_B9wBDB-B-jBDB
+YB_zBDBTB-7BDBtB_BDDA6B-uBDA8B9jBDAkB-rBDCAB-XBDAuB-8DDBxB_uCDBPB_XBDBIB-PEDB-B-EEDAsB9kBDA_B_YMC_DB
+_zBC--B_yWC_4B-vCDAcCAYBDAZB_gCC_0B_FBC_4B-OBDAqCAVBC-YB-6BC_HCAHCC--B-yBC-bB_yBC_OB-iCC_mCAPDC-dB_L
+BC-zB-PBC-0B_OBC_HB_SBC-vB_kCC_PB-5BDACB_oBDASB_HCC-QB_gBC_iB_mBC-_B_CBC-WB_jCC-iCAFBDAiB_1BDAoB_hBD
+ArB_WCC_cCAFBC_WB_eBC_iB-UCC_TB-_DC_KB-QBC_aB_FBC-zB-mBC_lB_2CC-kB-6BC_rB_XBC_MCAQFDAMB_CCDAcB-IBC_y
+B_qCDANCADBDAJCASDDAICAEBDASB-gKC9MCBTBC9OCBDCC9SCBHHC8wCBCCC9KCA6FC81CBeBC9DCBpBC83CB0CC9aCALBC8wCB
+RBC9fCBYBC9zB_2CC80CAcBC9wCAfCC8nCBCBC-JB_1DC84CBGDC8yCAwBC-DCAQBC9NCAICC9PCAjBC9DCAmBC9QCAsBC9lCAnE
+C9JCAsBC9GCAZBC9OB_uEC9BCBGCC8mCB8BC9hCBECC9MCAvCC9vCA2EC-FB_lBC93CAIBC8fCBpCC8-CBWBC9MCBxBC8_CAwCC8
+yCA6BC8aCBFDC8dCBaBC8WCBUBC9YCBURC90CAjBC90CAlBC90CAjBC9yCAiWC-bCBjBC-WCBUBC-_CCABC-GCBwCC-0CCIBC-yC
+BFBC-sCBvBC9TCCPBC9nCBWBC-nCBvBC9jCBlBC-KCBLBC-VCAzBC-MCCOBC-5CBPBC-RCAgBC98CBABC-bCCOBC-KCBlBC-sCCB
+BC92CCbBC9xCBYCC-pCBfDC-ZCB_BC-oCAUBC-mCB6BC-6CB5BC-0CAyBC9iCCTBC-MCBqBC9rCBbBC9WCBmBC9wCBEDC-iCB3BC
+9jCB8DC98CCABC-hCAkBC-sCB3BC-GCChDC-2CBtBC-nCA3CC-PCB3DC-cCBwCC-FCCFBC-kCCWBC9XCCABC-gCCkBC9xCB1DC9m
+CBrBC-OCCaBC9pCCfCC-GCA5BC-yCAdBC-RCBiBC-kCBLBC-VCCkIC97CBeDC9-CBgBC-DCBkBC9yCBkBC97CBcBC-DCBWCC96CB
+YBC93CBdBC95CBSAABWC97CBgDC-OB-eBC-MB-vSC8uB-gBC-OB9FCC-JB-TBC8-B_ZBC9OB99CC95B-WBC-pB-HDC8sB-oBC9AB
+-9CC-cB90CC9uB9pBC9ZB9LEC81B8yBC88B-aCC9xB_WBC96B9zDC80B9sBC8PB9SDC9oB92BC9fB_jBC8YB9vCC8lB-JBC-hB-r
+BC9ZB9nBC85B9OCC-AB8sBC9tB9dCC98B-9BC-ZB8xBC9wB9HDC87B-mBC-AB_TBC9fB-lBC9mB-VBC93B9_BC8QB80BC-AB8-CC
+9UB-8BC-GB-HCC9wB_oCC-UB9dCC-JB9rBC82B-yCC9HB-UBC-BB9kCC-JB-7LC93B7_BC96B74BC90B8UBC9hB8WBC92B8gDC9v
+B8YBC9wB8RVC9PB7QCC9XB6kBC-cB8kBC-BB78BC9LB8WBC85B7-BC9rB8xCC9fB8FBC9wB8zBC9dB7qCC8PB68CC-bB8EFC8MB8
+IBC-UB7WCC-NB8gCC9iB8yCC9pB8hBC-EB70sC7ICEPBC7HCERBC7ECEQBC7ECEKBC7GCENBC7JCELBC7MCEKBC7MCEPBC7HCEQB
+C7GCEVBC7ECEZBC7MCEdBC7fCEFBC7ICEjBC7SCEWBC7BCEbBC7PCEJBC7HCELBC7JCEVBC7CCEQBC7PCEOBC7ECEUBC7JCEBBC7
+BCEJBC7MCETBC7GCEHBC7PCEXBC7ICEaBC7DCEMBC69CD9BC7fCERBC6_CESBC65CEhBC6-CEFBC7CCD-BC7VCENBC7YCEIBC7XC
+ERBC7UCD_BC7SCD5BC7GCD8BC7NCD6BC7XCEiBC69CEJBC7FCEJBC65CENBC66CETBC7PCElBC7WCEZBC6-CEOCC63CEGBC7ACEM
+BC7MCEDBC7HCEFBC7GCEDBC60CEqBC65CEoBC7aCEMBC69CEYBC62CEnBC7GCEABC7YCD-BC7ZCD4BC7cCECBC7bCEHBC7hCEDBC
+7fCEABC7eCD7BC69CEABC7CCD5BC7gCEMBC7BCEABC66CEZBC7SCEOBC7HCD0BC7RCEcBC7KCD4BC7OCEABC7DCEEBC7ECD0BC7B
+CDzBC7PCDyBC66CEDBC7YCEDBC7BCEWBC7UCEHBC63CEdBC7hCEIBC7RCEIBC7PCEFBC7SCESBC7JCDuBC7XCDyBC7ACEECC7FCE
+KBC6_CD5AABpC7ECESAABhC7_CEJBC72CESBC8GCEOBC8BCEBCC79CEVKC7_CDvCC8MCD9CC8xCD8GC8SCFGBC8DCE7BC8JCEhDC
+8eCEiDC8uCEPBC8bCE8BC7nCEpCC7hCEYBC7lCEeBC8iCD_BC8mCD8BC8qCD8DC7lCEkBC7fCEiEC8xCE9BC8oCFGDC71CD0BC7w
+CDpBC8PCDrBC7wCEiBC8WCEIBC8tCEWBC81CEoCC7wCDxBC8ACDfBC8tCEfBC7rCEZCC81CENBC8NCFEBC8KCFOCC8RCE2BC77CE
+gBC7mCEOBC8HCFYBC7pCD5BC8MCFUBC7mCDxBC8QCEOBC7kCD_BC7uCEFBC7yCECBC70CD9CC73CECBC7zCEJBC7qCEQCC7mCEFB
+C7sCEAHC7aCEaFC7CCEGFC69CDlBC6_CDtFC60CCiCC5yCDbBC52CDtCC6qCDUBC7fCC3BC5vCC3BC6TCDYCC55CD6BC7PCDRDC7
+sCC2CC5bCDABC7gCDxBC6WCDxBC6JCDiBC6ACC5BC7bCDqBC6wCCwBC6wCDEBC6hCC3BC6QCC1DC5xCDBBC7CCDZBC6oCCeBC6gC
+C-BC6ZCDmBC7qCDKBC7pCDRBC7mCDiBC6mCDHBC7QCDrBC7HCDqBC6qCDNCC6TCDOBC6zCC4BC6JCCjBC51CDHBC5eCDVBC54CC3
+BC6xCD_BC6kCCqBC6jCDnDC66CDWBC5fCC5BC7LCDPBC6TCC-BC6KCDfBC6tCDuBC6xCCbBC6zCDeCC7LCDGBC7JCC9BC6vCCNBC
+7ACDTBC66CD7BC66CD3BC61CD0BC6FCDnBC6rCD7BC6FCDaBC5mCDdBC7pCDXBC68CDKBC6MCDvCC6aCDGBC64CEAEC7RCDhBC7G
+CDiEC68CDyEC7ACEgBC7BCEkBC69CEhBC69CEmBC7ECEhBC66CEuDC6fCErBC6iCEbDC7BCFZBC6NCEHCC6gCEmBC6vCE1BC72CF
+eBC7GCE0BC7NCE4CC7JCFBHC7LCEpBC6ACEMBC7ZCEuBC7pCFcBC6SCEVBC7lCE8BC7BCEoCC7dCFkBC6pCExCC5-CETEC6yCEFB
+C6vCEhBC7GCEcDC6bCFLBC6YCFFDC6UCE8BC6bCFKFC7TCFdBC7tCFOBC7PCEvBC6aCExBC73CFWBC6yCExBC6BCEFCC6hCE1DC7
+BCEuCC6uCErCC7oCFNCC6WCEaBC6tCEQCC7SCFBBC60CEYBC7hCFWBC6hCEHBC6zCERBC8BCFjBC62CEwBC6-CEdDC6iCE8BC6kC
+E0GC7PCFSBC6yCEnNC7hCGpBC8ICGeBC7jCF0BC7_CGxBC8ECGRBC8ZCGDBC6xCFpCC7bCGgDC7SCF7BC60CFvBC8kCF9BC8FCFx
+CC7fCGXCC7eCFtBC7nCGlCC70CGsIC7UCGeCC7cCGjIC6oCFWBC7eCGdEC7DCGeBC8KCGHBC73CGFCC7xCFtBC8hCGKBC7KCFzBC
+7yCGWBC8TCFvBC8aCFwBC7LCFvkC7nCGNBC7pCGLBC7rCGNCC7XCGGBC7qCGHBC7lCGHBC7vCGJFC7nCF-AABYC8gCCsBC8iCCwB
+C8kCCpEC8kCCgBC8wCCxWC8VCDQBC8pCDZCC71CCnCC7zCCVBC8WCCMBC9FCCMDC8dCCwDC8eCCuCC8YCC0HC8LCCEBC8DCB8CC9
+TCDGBC9NCCnBC8vCCECC84CCcCC8oCDFCC8HCCYBC9ACDbBC9ZCC8BC8RCC7BC8qCCXBC8FCDLDC9KCDFBC84CDHBC8aCDkCC8aC
+DWBC8cCDeCC8RCClBC8KCChBC79CC9CC87CCqTC5pCBtDC50CBrBC5iCBmtC4xCB2BC5YCB1DC6GCBODC6ACCIDC5ZCBTBC5tCCq
+BC5_CCeBC5ZCBDBC6iCB9EC50CB7BC5mCCPBC5tCClBC5rCCcCC5NCBwBC5yCBPBC62CBkBC52CBfBC5cCCABC5dCCWBC5VCCSDC
+5ECCfBC4-CCKBC6rCBZCC6sCCABC6fCBkBC5sCB4CC5ICB0BC5nCCUCC5uCBCBC6OCA9BC6QCBjGC4vB-OBC6YB--BC7DB-aBC7S
+B_SBC52B-1BC7SB_CBC5IB_fBC5hB_uBC6hB-vBC7XB-fBC5pB-_BC5lB_bBC7eB-uBC5AB-ZBC7GB_HBC6OB-pBC5iB-PCC4aB-
+JCC5EB-1BC4wB_3BC66B-8BC7gB9zBC7oB-HBC5jB_QBC7eB_TBC7kB-UBC7WB-RKC6bB-1BC3nB9yBC3sB92CC3tB-GBC39B-NB
+C4HB9gBC3bB99EC6FB_WCC6RB-6DC7PB-DBC6yB-qBC6AB-iBC7rB9oBC6PB-0CC5yB-XBC5jB_0BC7BB-tBC50B_dBC6EB_IBC6
+tB-vBC2-B-ACC6PB_FBC7VB_fBC5HB_0BC45B_NBC6UB_KBC7aB-5BC5TB_tBC2tB-XZC6fB_wBC5CCAlCC5MCAgDC5RCAyBC61B
+_yBC6sB_rCC5_CAiBC6PB_hBC53B_7BC6JB_0CC6GCAiBC52CAQBC5vCAOBC5gCARCC6fB__BC6qCAlBC65CAEBC60B_5BC5NCAL
+FC7BCABCC7IB_1BC7UB_vHC6bCAgBC5zCAuBC5OCAbBC6WCAXBC53CATBC5ZCAJBC5UCAYBC6DCAABC6yB_qCC6yB_sBC5vCAlBC
+6nB_0CC6zB_uBC6yCAOEC6TCAxBC6VCARBC6ZCADBC5SCAdBC7JB_cBC56CA4lC6rB_TBC6nB_aBC6mB_aBC6kB_VBC6mB_XCC6m
+B_TBC6oB_aBC6tB_aBC6kB_aBC6eB_PBC6qB_XBC6wB_UBC6fB_YBC6oB_YBC6yB_XBC6yB_eBC6tB_gBC6oB_iBC6lB_gBC6aB_
+YBC6gB_hBC6bB_hBC6bB_RBC6jB_TBC6iB_PBC6jB_IBC6qB_PBC6vB_OBC6zB_QBC62B_SBC63B_YBC60B_kBC6qB_cBC6eB_cB
+C6jB_KBC6mB_PBC6rB_KBC6wB_kBC6xB_MCC6fB_LBC6hB_NBC6sB_lBC6jB--CC62B_fBC63B_TBC61B_LBC6uB_GBC6qB_EBC6
+eB_DBC6rB-5BC6xB-_BC69B_FBC66B_JBC69B_OBC67B_XBC67B_eBC7CB_XBC7BB_gCC6dB_pBC6QB_VCC69B_mAABAC4ACAPCC
+38B_7EC4RCBbCC2mCAjBC4ECAcBC4kCBYBC3uB_ZBC32CAABC3zCAfBC3sB-zDC3tCA7CC3ZB_rCC33CAhBC4WCAnBC2oB_wCC3H
+B_zCC4RB_PBC4fCBoBC4RCBOBC2mB-1BC25B-9BC4JCBYBC3gCAXFC4jCAcBC3fB-bBC4SCAvBC3nB-dBC4ZB_-BC4CCBfBC4NCB
+OBC3cB_3BC3ZB_YBC44CBcCC3TCAeBC4CCAiCC4jCBnBC4fCAOBC39B_ZBC3ACAYCC4gCA1CC4xCArBC4ZCBJBC4qCAlCC4rCBJI
+C4ECBEBC4JCBACC4BCBEBC4BCBABC4BCA4BC4FCA_BC4ECBABC4HCA5BC4ICAxBC39CBFBC36CBJBC35CBDBC32CBHBC32CA6BC3
+_CBABC3-CA9BC3bCBLBC36CBRAABSC1mB_wCC1gB_vBC1sB_wMC1eB_8EC1MCA1BC1KCBMFC1QCA_JC1pCAjBC2QB_cBC1hCACBC
+11CALBC1sB_2BC2HCAJBC19B_sBC17B__BC1uCAHCC2LB-XCC1uB_CBC1sB_GBC2BCAFBC1qCAqCC1jCAhFC1bB_vBC1tCAGBC1f
+CAZBC1rB_XBC1_CAQBC1sCATBC2TB_vBC2TB-XBC1oB_QBC1eCBFBC1UCAiCC12CAhBC1hCARCC1kB_kBC1uB_qBC1vB_jBC1TCA
+1BC1wB_aBC1gB_1BC1UCBNBC1ZCANBC2CCAhCC2FB--BC1tCA9BC2JB-lBC2AB-cBC1bCArCC2aB_gBC1fB_4BC2CCAsBC2QB_RB
+C1WCAXBC1sCAaBC1zCAbBC1vB_SBC1aCAIBC1rCBQBC2GCBCBC1mCAJDC7tCBLDC8tCADBC7pB_aBC8yB_XBC89CAOBC8rB_bBC7
+oCAYBC8wB_sBC7pCA6BC8TCAaBC6lCAxBC8OCBFBC7ZCA1BC7vCAwBC8RB-TBC7rCAFBC73B_6BC8CCBIBC7KCAeBC7cB_yBC79B
+-xCC8iCAuCC8iCAeBC6sCA_CC8CB-FBC7BCA9BC8qCAgBC8YCA2BC70B_SBC8AB_eCC6-CAdBC8iB_aBC7fCAaBC8YCARBC8mCAO
+BC8kB_BBC7TCApBC8NCALDC7BCAsCC7-CBWCC7tCAWBC8CCA4BC8ZB_zBC7OCAYBC7WCAbBC8VB_iBC64CAuBC71CBfBC8MCAxBC
+7ECAgBC7aCBABC8KB_pBC8TCArBC8XCAsBC7UCAKDC8MB_8BC7ICAXBC72B_JBC84B_XCC8jCAwBC8LB_BBC7kB_4BC6fCAxEC8W
+CAkUC77CAiBC76CAlBC79CAfBC74CAfBC79CAiHC78CAjFC8RCAhCC7uCApCC77CAoBC79CAlBC7-CAnBC79CAuBC73CAvBC8LCA
+YBC8LCAkBC8NCAnBC8OCAgBC8ECAYBC8DCAfBC8GCATBC8ACAUBC8GCANBC77CAVBC75CANBC7yCAMBC7_CAJBC7yCATCC73CAlB
+C74CAqCC7yCAjBC71CAcBC7-CAbBC7sCAiBC7wCAaBC72CAWBC8MCAdBC7_CAkBC8BCAmBC8GCApBC8ECAsCC8ACAiBC8DCAjBC8
+HCAlBC8ICAgqC6gB9KBC6LB9IZC5DB9cBC7QB8_BC5xB9qBC5MB90CC6lB8ZBC7BB9DBC5OB9NCC44B9lBC7ZB7ABC6xB9dBC5fB
+9aBC7FB7jBC7QB6tBC68B7bBC6eB7xHC6ZB-DBC72B6ABC52B8pIC5AB8pBC6lB-UJC6XB9nBC7WB6eBC5zB9MBC7OB9bEC53B8D
+CC69B9dBC7bB8kBC6iB9yCC6_B-EBC68B9xBC7QB9sBC6MB-RtC7kCCkBC7wCCIBC7MCCrBC7CCCXBC7CCCmDC7NCCJCC7aCCOBC
+7FCBcBC7wCByBC7CCCUBC7gCCfBC7YCB3BC7zCCCBC8MCBmBC8ACBuBC7RCBkBC7WCCgBC66CB8CC7QCBIBC7kCCKCC7BCBzBC7h
+CBaCC7CCBODC6_CCHBC7YCBpmDDxB4nBDDoB7zBDEUB84CDFfB8MCDEXB6zBDEaB6yBDClB4gBDEBB5qBDEUB8rBDDgB5tBDE8B5
+4BDEwB8fBDDPB6CBDDSB6BCDEbB5WBDDSB61CDBuB55BDFCB47CDFkB8bBDDPB5kCDCiB5WCDEuB51CDCIB5LBDCNB6DBDFXB7eB
+DFeB8wBDC0B4qBDEPB6mDDDsB7PBDFWB6hBDB0B5_BDC6B6DBDCVB5rBDEqB5TBDDKB5FBDFGB81FDFkB5iBDCUB6QBDCZB4-BDD
+_B7yCDFOB8qBDDoB8CBDEPB59BDEkB73CDEIB8TBDE3B6nBDCkB5sBDCCB5sBDEIB7mBDEGB7ZCDD1B6wCDFQB7xCDCBB6SBDBsB
+59FDEaB6lBDDpB8nBDEaB7HBDFOB7IBDCGB5bBDErB6pBDFSB51BDC6B5FBDFFB6OBDFYB4cBDCqB6XDDDHB5uBDDzB5FBDFTB7Z
+BDDEB6pBDDIB8sBDECB8sBDD_B7LBDDjB5iDDDpB6IBDDoB6HBDDmB6MBDDoB6NCDDoB6DBDDrB6NBDDyB6YBDDlB6DBDDjB6FBD
+DqB6VHDDfB6SBDDfB52CDDlB5_DDDuB5zAABNDCYB8eTDBZB70DDCHB8QCDCJB9xBDDMB7cBDBjB9ZCDBPB72BDC3B87BDBqB7VC
+DCiB8PBDCGB7jBDBqB7CBDBIB8iBDDGB79CDCyB70BDDIB70BDCCB61CDBZB7ZBDB2B7xBDC0B8QCDCYB9-BDBqB8qCDBlB6gBDD
+OB8TBDCPB9UDDCTB7XBDBkB7tBDCdB6-BDCIB6-BDCUB8TCDCdB7pyDBiB6EBDByB5ZBDBdB5oBDBLB4RCDAZB5aGDBOB7HBDAFB
+4eBDBlB4uBDCZB4bBDB6B5jDDBUB6XBDAOB7CBC_rB57FDBIB5QDDBlB5VDDACB5XBDBNB6lBDBiB4TBDAuB5XBDBNB4lBDCDB4o
+DDBVB6JBDAGB6OCDBaB49CDAdB4fBDAoB66BDBNB6zBDA2B5lBDAEB5CBC_tB4wDDBTB5zBDA5B6dCDBBB6XBDBHB5nCDBqB5oBD
+A4B7jBDBuB4yBDA2B5GBDAcB6IDDAlB44BDAFB5rBDAPB5LBDA-B43BDBWB5XBDArB6PBDA7B52BDAsB6BSDBHB6HBDBGB6IBDBM
+B6QBDBBB6NCDBHB6EBDBEB5vDDBFB6DBDBFB6GBDBDB6GBDBDB6DBDBDB6ABDBSB6CBDBIB56HDA4B6GBDA7B5-AABNC_yB9LBDA
+eB8mBDABB9eBC_HB-BBDBEB9QBC-0B8fCC_DB9RCC_DB9wBC_TB7BBC_IB7jFDAAB7DBDArB71BC-sB9eBDAAB8zBDAYB9lEC_qB
+9RBC_pB70BC_kB7SBDAcB8GBDA4B9RBC-yB9WCC_RB75BC_9B9tBC_zB8qBC--B8QBC_XB8-BC_EB8qBC-mB9eBDAwB9LBDAbB85
+BC-3B9TCC_wB8aBDApB9OBC_SB8HBDAAB8PBDAgB9JBDATB9JBDACB7jEDAGB9PDC_ZB8ZEC_rB8rBC_bB8uBC_AB9NBC_SB9JCC
+_OB7SBC-4B81BC-nB9CiC_hB9kBC_KB9hBC_JB9HCC_TB9WBC_MB9SBC_SB9QAABcC_WB9dCC-nB5wCC-mB5rCC-yB5yBC-ZB57B
+C-sB5kGC_aB6RBC_HB44EC9DB3LBC9yB3sBC-8B6qBC--B6nJC9XB4PBC9wB4-CC-zB63BC8kB2yBC8vB4jDC_zB6tBC-RB6pCC-
+pB43BC9oB4jBC9cB4pBC85B6BBC-XB4PDC_PB6aBC_CB6JDC9PB5lCC-WB3jBC95B54BC95B4gCC-pB5XBC-UB45CC-aB5VBC-hB
+5UBC-VB5LBC-cB5JBC-eB5eBC-MB5SDC-IB45BC-ZB25CC9sB3aEC-SB5ABC90B4EBC9eB57CC9IB3SBC8dB6PBC-7B6EBC_JB5z
+CC9kB22DC-AB4WBC-RB35gC-mBysJC71B3VCC8EB3TCC6OB36BC-iBysBC99BzTBC-yB08BC91BzYBC9uB0MDC7hB4RBC7TB2HCC
+69B2IBC6jB2xBC-PB06BC7sB5QBC99BzOCC9gB0yBC6gB3WBC9vBziBC8fB1zBC89B1auC-QBy4BC-SBy2BC-TBy8BC-ZBy6BC-R
+By9BC-VBy-BC-LBzHBC-XBzEDC-iByyBC-ZByzDC-PBzDBC-bBzBCC-ZBzDCC-WBy6CC-VBywCC-eBy_BC-VBzDCC-FBzNBC-IBz
+cCC-VBy5CC-bByrCC-jBy9BC-RBzHBC-RBzKCC-ZBzmAABADKzB1BBDK3B1GBDK1B1ABDK5B0_CDK7B04DDKuB1aBDKuB1hBDKqB
+1cBDKmB1jBDKmB1cBDKjB1hBDKfB1oBDKqB1iBDKqB1rBDKyB1sBDLBB1FBDK9B1BBDK6B1hBDLGB1LBDK4B1UBDLBB0uBDLJB1C
+BDLDB08DDK3B1IBDK7B1ICDKxB1CMDKvB1c4DKNB22BDKtB2EBDKzB2nBDKCB1eBDKkB2zBDJ3B18BDKNB13BDKQB1bBDKJB1VBD
+KlB1LBDKhB1YBDKdB1aBDKkB1PDDKEB1pBDKMB2JBDJ3B1YCDKfB1LBDKhB1RBDKeB1RBDKiB1FBDKZB1XBDKVB1GBDKaB1QBDKZ
+B08BDKcB1EBDKbB1LBDKZB1UBDKUB1LBDJtB1aBDJvB1WBDKUB1iBDJ9B08BDKzB2UBDKrB11BDKYB1tAABADKvB1MBDKtB1OBDK
+tB1KBDKwB1QBDKtB1RBDKwB1UCDKrB1PBDKoB1QBDKxB1KBDKxB1HCDKuB1FBDKuB1ABDKzB1QCDKtB1PBDKqB1IBDKtB1UBDK2B
+1LBDKnB1TBDKqB1MBDKpB1VCDKrB1DBDKnB1CBDKpB07BDK5B1QBDKsB1XBDKnB1XBDKpB1DBDK-B1SBDK_B1MBDKlB1DBDKlB1I
+BDKkB1WBDKyB1YBDKzB1dCDLBB1RFDKrB1TBDKqB1YCDK5B1qLDK7B1MEDKuB1NCDKzB1WYDKuB1NDDKvB1NBDKvB1NHDLNB04BD
+LLB0pBDLFB03BDLMB0vBDLGB0zFDLIB0yAABbDKsB00CDK3B0sQDKtB04BDKEBzcBDKSB0aBDK6B0WBDK5ByxBDKTBzoBDKHB03B
+DK8ByFBDKzB0YBDMcByLCDL8By-CDJ7Bz4BDKWB0uBDMiBzMBDKdBzvBDKyB0MCDKuBz8BDKjB0gBDJxBziCDLABzzBDKWBzXBDK
+jB0DCDLYBzvBDLmBz6BDKUBz5BDJdBz9CDLMBzkBDKrB0QBDKmB00BDKjB0zBDLRB0kBDKDB0HBDKlB0uCDLXBy_CDJ8BzLCDLGB
+ycCDKhB03BDLHB0WBDLdByVBDK_BzdBDLdByHBDKKB0sBDLCB0iCDL1BzYBDLAB0TBDKNB0PBDKnBz5CDLKBz2BDLHByTBDMLBzG
+BDLSB0SBDK-Bz9BDLRByKEDMCByPLDKvBzNDDLYB1CCDLZB03BDLZB1JGDLdB0PCDMHB0TBDLmB1ABDLPB1QBDL2B0mBDLNB1KBD
+LwB0PDDLTB1TBDMDB0_DDMJB1JBDL9B1IBDL8B0_CDL6B1LCDLSB1UCDL4B0dCDLpB1SBDMSB05BDMgB0mBDLuB04BDL-B0zCDLe
+B0kCDLfB1MBDLrB1aBDLSB07BDMcB0GBDL9B1bBDL9B1PCDMeB1IBDL5B1WzDLEB1fBDLFB1VBDLDB1uHDMLB11BDMGB2XBDMgB1
+eDDL_B1vFDLuB1pBDLTB1gBDL-B2EBDLlB1iBDL0B2GHDL0B1sDDLwB1hGDK9B1YCDLNB1zBDLTB1_BDLpB2FBDLkB1vBDL4B1qC
+DMUB1nBDLwB2dBDMJB1iBDLgB1fBDLWB2UBDL1B2yBDLWB2ovDLVB3CEDLjB3BPDLPB4BBDMNB5pBDL4B4ABDLbB3eDDMkB4qBDL
+KB5FBDMIB4hBDMgB2ZCDMDB48BDMrB2RBDLsB3lBDL8B5bBDKrB5gBDMZB4RBDMiB5kDDKuB3uBDMBB3kBDMUB3ABDLeB4YBDMfB
+5RBDMiB3rBDMFB5KBDMlB4CCDMfB5BBDLxB3YBDMJB38DDMLB3UBDK-B5VCDKzB3aBDLWB5lBDLTB4zqDKtB4KBDJTB5pCDKHB37
+BDKCB5MCDKEB5iBDJlB2SBDJVB1LBDJSB5NCDKjB4lBDJLB1ABDJeB05BDKLB4KBDJWB0sBDI7B1sBDKOB3mBDJfB1MBDJOB0TBD
+JkB3nBDKoB40BDJCB3qBDKnB5GBDJTB4lBDJ6B3PBDJqB0dBDJ-B3OBDJTB1TBDJvB25BDJiB1-BDJaB3HBDJMB2zBDKCB4gBDJ6
+B2uBDKCB4-EDJkB1aUDJGB1CBDKEB4rBDJcB4OBDJnB1HBDJGB2dmDJEB1eBDJTB1fBDJWB1ZBDJSB1cBDJLB1YBDJYB1eBDJpB1
+rBDJVB1jBDJRB1jBDJLB1oCDJFB1lBDJSB1pBDJVB1oBDJQB1pBDJZB1mBDJbB1iBDJdB1YBDJgB1jBDJqB1eBDJZB1qBDJdB1pB
+DJhB1oBDJNB1wBDI_B1WBDJdB1uBDI_B2IBDJSB1zBDJRB19IDJbB1uBDJXB1sMDJYB1uyDIeB16CDIcB1uBDIEB1pBDIVB1dBDI
+YB2ABDInB1gBDIpB12LDH6B1cBDHLB1zBDIqB3uBDICB2FBDIHB1TBDGzB1pBDIuB2MCDG1B3MCDGkB5FBDIKB3hDDIUB2-DDIqB
+4pDDH6B2nBDHqB01BDHxB5QCDIMB5iBDHyB4ZBDI5B4FBDG6B2LBDIBB5lCDG6B3tBDHyB3lCDH9B44CDH3B4BBDHHB1CCDIMB4e
+BDILB27BDHUB2wDDIeB20BDIrB3HBDGyB4UDDICB3LCDH1B1XCDIrB5eCDHHB4xDDIiB3YBDICB3XEDGjB2gBDGvB2HCDHUB5NDD
+HDB5PCDHbB1tBDHBB5hBDGrB1QBDIWB4dJDHLBz3TDGwBzFBDGeBxaBDG6BxOBDHFB0TBDG5BzdBDHuBzhBDGsB0pCDGkByqBDGm
+BzmBDHiBx6BDHzB0IBDHjBy-BDHJB0rDDHkBz7BDGhBxHBDGeB0NCDG6BzYBDGsBzzCDIQBz3BDHTBzaCDHdB0JBDG5Bx7BDGtBz
+pBDIKBzFCDG0B0FBDGpB0kCDHbBylBDIdBzhuDI4BzdJDJRBykBDJhBzCBDI2B0iIDIeBxUBDIkB0-BDIjBz6BDIkB0PBDJYByLB
+DJgByCBDIiB1DBDI3BzLBDJnBzMCDIoByJCDIcB0PBDIxBz7CDH9BxbBDJEBzOBDI-ByqCDI2ByrBDIyB1JBDJABy3BDIvBzhBDI
+bBxxBDIkB08EDIqBy2DDJyBy8BDILB0hBDIRB1FwDHRBwyCDGpBwwRDHkBvWBDG7BvXCDHiBwTBDHcBu7BDH4BvZBDGrBwUBDHQB
+veBDG3Bv_CDGzBvwBDHJBvFBDHiBwhCDGrBvjBDHSBvYAABCDIzBw3CDIfBwnHDJRBwiBDIZBu-CDJiBwqCDI_BxFBDJABwHCDJa
+BwaBDJYBw5DDIgBvZBDIBBv1BDIjBvuBDIuBwUBDHzBwyBDIDBxHBDJgBxIBDIpBu8BDIFBwZBDIOBvtBDINBw5BDHkBxKBDJiBx
+ZBDHzBwnAABCDJrBvpCDJnBvvBDJwBvvBDJ5BvlBDJwBvoBDJlBvfNDJvBv1BDJ0BvIBDJFBvEBDJcBvHBDKBBvXBDJ-Bu_BDJsB
+v9BDJQBvxAABKDKfBxiJDLlBvMBDJ0BylBDJpByTDDJ5ByKFDKhBy2BDKKByQCDJ9Bx0BDJ0Bw5BDMOBw6FDKSBvoBDKjBybBDKi
+ByrBDLvBvxCDKaBwZCDKyBx5BDLmBxEBDMABxrBDMLBvtBDLTBwyBDKDByvBDJwBwRCDKSBy6BDJuBwfBDKeBxPBDK-BvRBDKUBz
+LBDKvBwVCDKTBxBBDMiBxsBDJ5Bx_BDKvByjBDKAByZBDKlBzHAAFYDM2B1UEDM7B1ZCDM0B1rCDNSB1bpDNZB2VBDNoB0LBDM4B
+0pBDNEB2OBDMyB2MBDNRBzODDOfB0PBDMxB06BDNJB1-BDNdB0-CDMVBzrHDNCBz4CDNXB0VBDM9B0gIDNhB2ABDNGB2nBDN0Bzp
+BDMxB0YAABqDSMBsXLDOQB0_JDNzB1kCDOqB16BDPBB1MBDOqB1lBDO_B1qCDN4B2iBDOKB2iBDPAB2ACDNsB2PBDQFB1vBDOcB2
+JBDPiB1UBDPwB2QCDPYB1nCDPoB1NLDOgB2jCDPRB2iBDOPB2HBDOGB2E5DOOBxUJDO9BwsLDM1BxDBDOpBxNBDMvBxQBDNuBy9B
+DM7ByZCDOeBypCDOUBzdCDNUByWBDMyBxmCDOLByGBDN4ByVBDNyBwLAABBDRZBwPJDR7BwQBDSFBvwBDSnBvpCDSABt_GDS0Bvy
+BDSxBvkBDSKBv6BDS7BvlDDSMBwcCDR2BxJCDREBwOBDSvBwQBDRtBwvBDReBuyBDR7BwCBDSqBu3FDSgBvJBDSPBxHBDRPBxjBD
+Q8BvwHDSKBuRzDP3BwIJDP0BvjCDP3BukBDQzBt9BDP7Bu6BDPqBvnBDQJBvNEDPSBvgDDQdBvLAABODP7BzGDDPrByhFDPdBzVL
+DPGBx-KDQVBxlDDP2B0lCDQeBzSBDPjBzYBDPcBz2BDP6BxrBDQ-ByiBDQsBzbCDQQBxCBDQeBzMBDPkBzDCDPyBybCDP-ByMBDQ
+QBwf0DQ5B2CJDSdB2RBDSfB2ABDSNB2kCDSPB1sCDSOB0MCDRQB0PCDSoB1tBDSGB1WCDRXB2FCDSwB0GCDR5B04CDR9B2MBDRcB
+1pBDSoB02BDQ8B0SAABFDSrByOeDSbBzkBDSVBycBDSVBx0BDRyByfBDSkBzEBDSqBxHBDShBzMBDS0BxWBDS4BxzDDSRByKCDSp
+BxwBDSkByf4DNSBu-VDQCBsqBDPNBuTCDQFBtuEDNjBtkBDMoBsbCDOcBuVBDNHBsmBDNpBtYBDNwBt6BDMxBtGBDNPBs-BDM1Bt
+iBDNCBs1CDPtBt3BDNyBvTBDNyBuqBDM5BsmBDN0BvC4DQbBsZKDQvBsjBDQ8BsHBDRdBstBDQhBr3LDQvBsFAABMDOOBshJDPZB
+sDBDPiBrzBDPnBsDBDPHBs9BDOaBr4BDPrBtABDN4BshCDP5Br7BDPQBr1BDP_BrmBDOBBsiBDPiBr4BDOoBs9BDN4Bs4CDPKBr-
+BDPsBr0BDP4BsQAABJDPrBprBDPxBpsBDP3BplBDPhBpcFDPmBplBDP2Bo5BDPSBokBDPDBpZBDQgBoIBDPGBpxBDQgBo_CDPdBq
+XBDQUBqACDOyBrOBDQRBpdCDOiBrMDDR9BnHBDRoBmWBDOnBqKEDOdBqTBDOeBrcBDO6BqGBDSWBnDBDQHBqdBDOTBqmBDO2BrqB
+DPFBrQCDPDBqnCDOnBpNBDROBoxBDPnBp-BDPNBqNEDPVBp7BDRSBnOBDOhBpnBDSOBnhBDOzBrcBDQ7Bn-GDOmBrLBDQKBo8BDO
+iBqpIDO8Bo1BDOZBrOCDQXBqGCDPcBrIBDP7BpMBDR6Bl3DDOvBqUCDO0BqxCDP7BrWBDOWBqOBDOSBrGODO4BmUBDOWBl_JDO5B
+n0BDObBnsBDQXBm0BDPxBlpCDPPBlwCDO8BnaCDQcBnTBDOzBlzBDQUBlnBDO_Bn_BDPnBmuBDPLBmwCDQmBl7BDPJBmKCDPuBmD
+CDPgBlrBDQtBmwBDO6BmrBDPKBnBBDPIBnaBDQKBlVBDPZBmdCDQ-BmOBDO8BmjBDOeBoTCDO5Bm7CDOkBnSBDPRBndBDQQBm8BD
+P_Bm0BDPXBnwCDP5BmfBDQ5BmnBDQ3BmoBDPcBmAuDQqBqcBDQpBp-CDQfBqOCDQgBqXIDRKBr6GDReBrUBDRYBq9BDQ5BrWBDR0
+BpyBDROBrgBDRRBp6CDQYBqpBDQbBroBDSIBrOCDQ5BqNCDSJBrUBDRABqPBDRWBpVBDRLBrGCDRUBqoCDRFBqjCDQzBqhBDQpBq
+9BDQ8BpyBDRcBqpBDR9Bp7CDRJBqtBDQfBrQBDRIBpoBDRLBq1BDRBBrTCDQvBqUBDQxBrmFDRGBqmCDTaBnaBDT1BnKBDSIBoYB
+DSnBnpBDTmBnEBDTABnWBDS0BnxBDTDBmfgDU5BijTDVWBjfCDUXBjRBDU3BjRBDVDBjABDUGBk9BDUvBjXEDUYBj-DDUsBjoCDV
+WBi2BDU1Bj-BDVfBjLCDU6BlzBDVDBiyBDVSBjOBDT0BjgBDU7BjpBDVRBjxBDVLBjWBDVZBkVBDTbBjeBDVCBjNBDTgBjlDDUeB
+kIBDVHBkKBDUBBjlBDUoBi4vDRhBjxCDPbBkgBDQ2Bi_CDQ7Bi2DDSiBizBDTeBlfBDStBjLDDSfBj8BDRCBjZBDRSBjNCDRVBil
+DDRiBkMBDP4Bk8BDPsBjxCDQ3BitBDPrBkuBDQuBifBDRPBjzCDRMBkWBDSNBjXBDP5BlQBDQhBjfCDRPBi-BDRiBlUBDTIBkdBD
+QcBimCDQXBjABDQtBjYBDSXBjSBDQ_BjGBDR6BjGBDQ1BjVBDQcBkwBDP5BkNCDPqBi-BDQvBjBDDTTBjnBDRTBixBDQ8BiwBDRw
+BjiDDREBijBDRjBi6FDRUBkDDDQ8BjPBDRaBjhCDR9BigEDQ2BilBDTABlKJDQmBjEBDQxBjLPDQ3BjyBDQ2BjoBDQzBjjBDQrBj
+qBDQvBjtDDQrBjjDDQyBj3BDQ0BjeBDQ7BjkCDRMBlUEDQyBjsFDQwBjrAABMDXkBi_BDWgBkmBDXqBjbBDXtBifBDY7BjOBDV4B
+jbCDWkBj6BDXuBjGBDW6BjTBDXzBjwBDWGBjkBDX0Bi8BDXJBi_BDXNBixGDYcBirBDX5BicBDVyBjKBDWPBiiBDYBBjDBDZKBjx
+BDVuBjvDDWMBjdCDVXBilBDW5Bi2BDWFBi3BDXUBi-BDYABjtBDW5Bj3CDXCBjuBDYHBjMBDX8BizBDWwBjJBDVoBiiBDVpBiaBD
+YyBj2BDW1BkbBDYiBjVBDYwBilBDW6BkBBDWwBjrBDWiBimBDYIBjLCDXNBieBDWDBinBDYJBimBDV5BivBDXaBimCDX6BjKBDWd
+BjFDDYTBjOCDWSBjUBDW3BkFBDW4BjuBDXmBinBDWSBirBDVqBi2BDV1BifBDW-BkQBDXEBkUCDWyBihAAB9DLrBs9BDLzBs7BDL
+3BqwBDL5BqrBDLoBqQBDMEBqEBDLrBtEBDLLBupBDL_BqOBDMfBqgDDLmBqHBDMmBqhBDM4BqKCDMoBrfBDNCBrHCDL6BqdBDLTB
+sjBDLrBpQBDMiBumBDMtBrHBDMqBqaBDLlBtnBDLYBsKBDOKBrNBDMBBoxCDMJBsWBDLtBrhBDMqBrDBDLHBnUBDLxBufBDMOBry
+BDMuBqVBDOFBraBDL0BtrBDM1BqaBDMzBqSBDLqBqsBDLxBqdBDMSBqEBDLlBqXBDMnBtsBDMGBqbCDL6BrBBDMuBqyBDLvBstBD
+LZBtYBDLzBtZBDMcBqYBDMTBrlBDM5BqRBDLnBqtBDLjBqtBDLmBqpBDMIBrBBDMUBrUBDLuBqwBDLdBt3BDNwBrpBDL5BqWBDLr
+BtRBDM9BqLCDLtBpfBDMCBqbBDLrBp1BDLsBsZBDLrBsuBDMCBpyBDMyBqJBDL1BtoCDL3BuJCDLLBpjBDMEBqMBDLqBrQBDMaBn
+iBDMGBqTBDMCBtgBDNWBrgBDMhBqXBDMEBqUEDL_BqtBDMDBqhBDMBBqeBDMABqWBDL5BqGBDLmBqxBDMTBq_DDMUBqaBDMUBqeB
+DMYBqfBDMTBqSBDMSBqeBDMPBqeBDMKBqcBDMZBqrBDMPBquCDMUBqcBDMVBqgBDMUBqhBDMWBqbBDMPBqbBDMfBqMBDMKBqgBDM
+KBqMBDMOBqVBDMOBqQBDMGBqvCDMKBqYBDMMBqkEDMPBqMBDMJBqUJDMVBqbMDMVBqbeDMVBqaAAB5DNpBqDBDNmBqLCDN-BqSBD
+OKBqKBDN6BqLBDNcBpaBDONBqTBDNzBqGBDNOBqfBDN-BqFBDN6BqABDNRBnoBDNtBqHBDM9BqCBDN6BpjBDNLBq2BDN8BqkBDNn
+BqyBDOLBqfBDN5BqtBDN4BqjCDNdBqWBDN2BqQBDNvBqiBDODBqQBDNiBqgBDN8Bn8BDOHBp_BDOKBpsBDNyBqjBDOHBqkBDN7Bq
+BBDN-BqcBDOEBo6BDNxBp0BDOHBqWBDNrBqWBDNUBp-BDN5Bqj8DNCBqNCDNBBqbBDNHBqEBDM7BqUDDM_BqWGDNNBqTAABXDKZB
+sHKDHRBuTBDGtBuDBDJ-BrzCDJbBuZBDJxBrtCDKLBsACDKZBsuBDKOBsMBDJWBreBDJqBreCDJrBtCBDKoBr3CDKMBrsBDKrBsL
+BDIYBuUBDGiBtpBDI0BuVBDHFBsiBDGyBuhBDHxBueBDGpBtCBDKCBrjCDKeBswBDJ6BuICDKuBsn7DLfBquBDLhBqzCDLoBq6CD
+LdBq1ODJcBqYBDJpBqgBDJuBqjBDKRBq5BDKKBpVCDLCBqSBDKIBq5BDLCBqDBDKxBrHBDKDBqhBDJkBpoBDKkBqzBDLCBqbBDJ2
+BqhBDKLBpIBDJyBpuBDJIBpfBDKWBp2BDKXBqaBDKSBppCDJ-Bq9BDJxBqwBDJVBpvBDK6BqgBDKaBq3BDKZBrLBDKpBqdBDKHBp
+vCDLEBqvBDJmBqcBDLNBqxBDJWBqwBDLFBqjBDJ8BqFBDJSBqWDDLMBrKCDKQBrDBDLbBrDBDLVBq6BDJ3Bq2CDKWBqyiDI7BqkJ
+DHLBpdBDJJBqLBDIOBqSBDIhBpcBDHwBnfBDIhBq4BDH6BrICDHWBqIBDHeBpCBDHXBoPBDHpBofBDHMBn0BDISBp3BDJDBqBBDH
+SBneBDHnBq6CDKFBnRBDHCBpOBDJKBqOBDITBpEBDItBqaBDG6BnbBDIkBseBDHcBpjBDHeBqlBDGfBoTBDGyBnmBDJABp6BDIcB
+p2BDGvBp3BDHQBocBDIVBp9BDI_BqYBDGxBoSBDG0BoJBDItBq0CDIjBrCBDIsBp9BDIlBo0BDIZBo3BDH9BnWBDI9BqEBDGzBpB
+BDHmBn1BDHKBoRBDG9BpCBDH5BppBDH7BpOBDHxBo5BDHOBpGBDGrBolBDHrBqXBDG-BnGBDI8BptBDGwBotDDGqBntCDHrBoxBD
+IZBrFBDG0BoQBDIdBrxBDHbBqIDDG9BogBDGpBn9BDHEBn8BDHCBnpBDG2BnoBDGeBovGDGhBn0AADVDA5BqIBDA5BqJCDA7BqLB
+DA5BqHBDA6BqRBDA4BqDDDA_BqJBDA_BqIBDA_BqKBDA_BqGBDA_BqNBDA_BqEBDBABqRBDA_BqCBDBFBqKBDBEBqHBDBLBqLBDB
+LBqHBDBRBqMCDA5BqTBDBQBqGBDBGBqPBDBIBqFCDA9Bp_BDBLBqQBDA9Bp7BDA3BqPBDA7Bp8CDA9Bp1DDA1BqNBDAzBqFBDAwB
+qLBDA3Bp8BDAuBqPBDAqBqFDDAqBqNCDBRBqQBDBEBqDCDBLBqDBDBQBqWdDBXBp_CDBXBqHBDBeBqDBDBpBqBfDAwBrQBDAzBrB
+BDAzBq8BDAaBqZBDAEBqpBC_vBqwFDAIBrBDC_pBq6BDAFBrfDDALBsKCDAaBryBDAOBqRBDAEBp7BDAlBrDBC_oBrJBDAfBqxBD
+AcBrACC_eBrNCDAWBqsZDACBqUBDAnBrmSDAKBrHBDAIBsUBC_5BqgBDACBq1HDA3BqfBDAyBqcBDA5BqkBDA0BqlBDA3BqtBDA0
+BqsBDA5Bq0BDA0Bq1BDAyBq1BDAzBqgCDAsBq1BDA5BqnCDA_Bq6JDAsBqcBDAsBqhBDAoBqXHDAvBqjBDAxBqqCDAsBqsMDAhBq
+dBDAjBqkBDBBBqbBDA9BqYCDBCBqUBDBJBqVBDBPBqiBDA-BqgBDA6BqZBDBEBqbBDBIBqjBDBJBqbCDBiBqjBDBpBq8BDBRBrDC
+DBYBqYCDBJBqqNDA3BqXBDAzBqXBDAwBqXBDAuBqXCDAnBqhJDArBqqBDAtBqpBDAoBqrBDAkBqrDDBBBp-BDBFBp-BDBBBp6BDB
+HBp-BDBBBp2BDBKBp-BDBBBpxBDBOBp-BDBCBpqBDBSBqAKDBgBoVBC_MBpWBDAcBo5BDA2BpvBDB8BqMBDBsBnVBDAjBpWCDAlB
+mKBDA3BpyCDBkBqWBDCFBo0BDAKBoNBDBHBmkBDBHBpvBC_bBl-BDAKBo5BDAxBpnBDAkBqCBDBABpmBC-lBpIBDBqBpjBDAuBpL
+BDBnBmuBDBFBp3BDBJBm4BC_3BnbBDBSBnqBC_YBmEBC_gBmBBDBJBp0BC_tBnSBDA2Bp0BDA1BolBDBFBpjBC_tBm1BDByBn_DD
+CnBnzBDBXBpRBDCNBo8BDBGBpyBC_uBmGBDAOBm9CC_qBmhEDBtBmhCDBPBpyBDBMBpoBDBPBpsCDBeBqZBDBMBpwBDBIBprCDBJ
+Bp5BDBOBp3BDBcBpxEDBTBpjBDBIBplCDBmBo4CDA8BpxDDA9BpnBDBCBpKAABpDBEBsLdDAVBs9BC__BtuBDA1BsEBDApBuWBC_
+wButBDALBthBDAbBtZDDAuBr7BDAMBuWBDCGBrRBDAsBs5BDAHBtiBDCWBrEBDBFBrmBC_uBuBEDBDBslBC_yBuEBC_6BttBDBbB
+reBDBwBr0vC9-BrTBC-5BsvBC9vBtgCC_HBuNBC-pBtfBC91BuaBC9yBuCBC-vBtOBC-OBt5BC-EBslCC96BsvBC-VBr7BC9sBtD
+BC-KBs4BC9-Bt0BC_2BsTBC_QBsOBC9mBteBC9rBr-BC-UBrrBC_pBsKBC94BsQBC-cBt6BC9oBuDBC-pBtACC-kBrpBC-dBtGBC
+_iBsgBC-uBuqBC-BBq_BC-pBqOBC97BtHCC-MBsTBC-HBtSBC-RBqwBC99BrwBC-qBsXCC_WBtYCC-KBrmBC-CBrvCC92Br0CC92
+BtEDC_QBrNBC_SBrlEC_cBrlrC--Br3DC_KBr2BC_DBr1BC-3Br6BC-6Br_BC-6BsCBC-2Br1BC-9BsGBC--BsABC_BBr_BC-7Br
+zBC-5Br5BC_BBsEBC_ABr8CC_HBr8BC_BBr5CC-_Br5CC-6Br4BC_ABr5CC-8Br5EC-7BsQEC-vBsBBC-yBrTBC-bBrPBC_RBr5C
+C_lBrzCC_KBrwBC_PBruBC_GBriCC_BBruBC-vBrrBC-xBsLBC--BsNBC_EBsPBC_GBsEFC_XBr2BC-vBr9BC-1BroAACQDCPBtW
+BDCABtIJDB5BsuBDCZBthIDBiBuqCDA_BuvBDCQBs2BDCpBt5BDByBuZBDBZBtaBDBvBuMBDCkBsgBDCBBtbBDBzBtvBDCVBr8BD
+BtBuqBDCUBslBDCOBtABDCABtfBDCrBufBDCpBtXBDCABuTBDCbBtPBDCJBt2BDBlBtSBDC9BtV7DD4BqnCDDsBrgBDD6BrPBDDd
+Bq2GDDnBqzEDDqBqjBDEfBq0BDDOBqwBDDsBqTCDE3BrCBDGWBodBDGFBpYBDE9BqPBDCzBrhBDDJBtRDDDXBtqBDDRBtXBDEpBs
+IBDD4BtRBDDcBs8BDF8Bs-BDEhBtKBDD9BryBDGHBqiCDDLBrDBDE1BsfBDF6BrNCDEqBsyBDElBsjBDGCBsIBDFGBroBDEABp-B
+DDmBsaFDFVBqCBDGEBruBDF7BsaAAD3DCsBpmCDCiBplCDC9BpEIDCnBpjBDCsBpvBDCzBpzFDD5BpSBDCnBojBDCfBqjBDC9Bpo
+BDDCBqFBDC5BqaBDC2BqPBDCoBqFCDChBp0CDC8BqEBDCOBpSBDCQBqIBDDPBpaBDCxBqyBDDIBqeBDDsBonBDCpBpEFDCDBpwID
+C-BqlyDDfBniCDCgBmmBDCrBmpCDCWBnADDECBnGCDEBBniCDDlBmuNDDVBmRDDDwBmYCDD_BmvBDGIBnkBDDNBmkBDEWBnxBDE5
+BoxBDC6BmeBDD8BnwBDC0BnJCDDJBmSBDENBmqBDDdBmQBDEzBmcBDEvBnCBDEZBmQ5DDiBt_BDFOBt4BDEqBuuBDESBt1BDD3Bu
+iBDFiBugBDD3BuzCDFPBs9BDEeBuXBDDeBukCDGTBubBDEbBu-FDE8BtbPDGKBtlDDFiBt9CDEyBuQEDFuBuuBDGABuGCDFvBuNJ
+DFPBumAAG9DD9BzCBDCwByVCDD5BysBDDvBwgBDCgByUBDDRBxZBDDjBzACDD8BzaBDB4BzrBDFFBynBDEtBxiBDDlBxbBDDcBzW
+BDC8BzmBDFXByfBDFDBxPCDDVBwnBDDnBwsBDDLByjBDCsBybBDEXBydBDEnByqBDDSBxvBDFFByJBDCTByaBDFiByACDC-ByfBD
+DHBzkCDDMBxFBDDPBzxBDCVBzQBDFLBw2BDDdBxbCDDiBxbBDEQBzIBDDDByjBDDwBy9BDEbBymBDD8BweBDFVByMBDDtBzLBDDs
+BypBDDhBxFCDDYBwvBDEJBzDBDEOByQDDDkBzzDDDUBzKBDC6ByeBDC3BzCBDCeByiBDCnBzzBDFKByyEDDJBynCDDWB0CCDERBz
+ALDEUBzESDDeByoBDDcBynCDDeBylBDDTBykBDDVByrBDDiByoBDDbByuBDDjByvBDDfByuBDDiBy1BDDeBy0BDDoByvBDDoBykC
+DDZBywBDDUBy0DDDiBycBDDWByPBDDnBy3BDDaBy5BDDvByYUDD1ByhHDDVBySAACWDEIBvTEDD8BvXFDEfBvkBDERBvuBDD_Bv9
+BDEkBwKCDCyBvpBDEFBvrBDEOBvVCDEEBvCBDElBvJBDDbBv3BDEFBveBDECBwNCDE2BvnBDDwBvIBDDbBvRBDE7Bu5TDD7BvyKD
+DDBv3HDFFBvZBDEKBwSKDEXBvRaDGCBwOBDGIBwRIDGOBwqCDF4BxNBDFmBwkCDGLBwWBDFzBvzBDGDBv9BDGXBwRBDGUBxEBDGO
+BvCBDGGBvriDFTBvZGDFlBvEmDFYBwICDEbBz3EDESBz1BDEmBzsBDESBzdBDEIBztCDFcBy4BDFBBzqBDGUB0qBDFyB0GBDFtB0
+QBDFwBzCBDFKBy5BDFfBz9BDFsByxBDGEB0MBDGQBypBDE6B0PBDE0Bz4BDE5Bz2BDGZB0WBDF0B0aCDFHBz4BDGHByQBDFlB0JB
+DFaBzUBDFPBzyBDE3BzbDDENB0BCDFGBzOBDEFB0WBDFfBzqBDD9Bz1DDFCB0KBDEhBzKDDElBzTBDFKBzVBDFVBzsCDF-BymBDE
+XB0PBDFOB0DBDFvBzhCDGJB0UBDFWB0MBDF7B0eCDDsB0XCDD9B0KCDF2B0OBDEIB0dBDE_BzgBDE3BzmCDD3B0tCDFbB0gCDEhB
+0FCDF4BysCDF4BzoBDE9Bz_BDFBB0XBDFwB0TBDFrBzZBDFKBzpBDDwB0pAAB2DEKB1TJDFeB01BDDsB0-BDEsB07BDFJB0oBDFm
+B1GBDE5B0iDDF0B00EDFHB0wBDE-B0mBDDlB1NEDF0B11BDFWB1eBDFDB2ZBDEaB0kBDE2B0dBDEfB2_BDFJB1DBDE9B1ABDE2B0
+6EDGFB2MCDErB0gBDE1B2uCDEjB0xBDEWB2lBDFbB2ECDFyB0_BDEmB1TCDE3B1uBDEqB1RwDBpBx9TDBqBvlBDBrBwZCDCCByIB
+DBfBu-BDBrBxCCDCUBwSBDCFByMBDCIBveBDBTBvXBDCMByPBDBgByVAABFDAcByCdC_7BxhBDAEBxiCC_3BxoCDAlBxtBC_zBxq
+BC_jBxwCDAxBxiBC_oByDBC_vBxvBDASBxhBDA5Bw_6C_FBydBC_OBy6BC_EBydBC_BByJBC--ByFCC_PByGBC-WBycBC-fBvqCC
+_OByuBC_jBybIC-SBvNBC-nByYBC_4BwNBC_wBwXBC-vByqBDAXBvXBC_zBwQBC-sBykBDAJBvdBC-YBw_BC-5Bw7EC_jBwjEDAZ
+Bv8BDApBvmBC-ABv9BC_5BwsBC_5BxLBC_kBwUBC-mBx6BC_JBvaBC_DByYBC-9BygBC-2BymBDARBwbCDAMBvEBC_VBysBDACBw
+LCC_xBvWBC-YBu8FC_nBv3CC-UByxCC_vBwCHC-2ByqJC--BzLUDCiB36CDCWB30JDDMB4HBDBcB4LBDA9B3qBDBpB3yBDBlB3CC
+DCHB3SBDCUB2LBDDKB3qBDC0B2yDDCmB3TBDBTB39BDBdB3vEDB9B3zCDBnB4DCDCVB2uBDCoB4MBDCIB1eAABBDBPB1-CDApB2p
+HC_1B2aKC_HB2GKDAiB2IBC_SB36BDASB2hIC_rB3nCC_5B4ECC_0B3-GC_uB1QCC-4B3uBDAKB15BC_nB2IBC_5B2wBC-7B27ED
+ALB3uCDAZB3sBC-zB2mBC_-B3NBC_iB3xCDAqB3tBC-6B2KhDBXBz3JC_yBzkBC_5BzpBDA3B0MCDAXBz1CDBZB0nBC_-B0EBDCH
+B0ZDDC-B0fCDA9B0UBDA2B0XBC_-Bz3FC__BzeGDAtB0wBDAMBz0BDBCB0mBDAIB0sBDAeB0SBDA7Bz3BC_PBzdBDAkB1FBC_bB0
+2BDAvB0JBDAvB0WBC_0B0IBDA1B0kBC_4Bz7BC_lB0LBDA7B1CBDAdBzpBDCiB1CBC_yB0bBDAwB0JuDDbB3GJDEuB30BDDtB4CD
+DGGB2tBDFcB3yBDEEB2bBDDNB2YBDGDB3UBDGSB3eCDD1B1-BDFbB2xCDFkB3SCDEIB3nBDC-B3IDDEXB3_BDDpB2ODDDgB3yBDD
+JB1eBDFIB4EDDEFB2KAAIyDG-BlGBDE4BloBDGXBi0BDE8Bk7BDE4BlzCDF7BmxBDG5BmVCDHuBgwBDFABloBDE5BlgBDHBBiCBD
+E-BleBDE8BlrCDHiBlDBDFxBkhBDEhBkwBDFwBjWBDF4BmZBDI0BibDDF8Bl5BDEfBlIBDGJBm_CDDhBmGBDFNBlYBDFSBlTBDFO
+BlTCDGJBm5FDDvBlxBDFbBmUCDHsBmkBDIcBmfBDEyBleBDJXBiSBDEHBl3BDHoBhcBDFIBkBBDInBjYDDE2BlZCDEwBlRGDFfBj
+6BDE_BkJJDFqBkkEDE8BlcHDFSBlZDDFWBlUBDFXBlQBDFUBlZPDFJBlYBDFHBlRBDFDBlPBDFHBlZCDFKBlUBDFJBlPBDFNBlOB
+DFFBlTBDFJBleDDE-BlKCDFRBlgCDFGBlIBDFABlPBDFABlVBDFABlaBDFEBlbBDFCBlgBDE8BlVBDFfBkgEDFMBlKBDFPBlHBDF
+RBlNBDFXBlMDDFMBlFBDFCBk_DDFMBlABDE7BlPCDE3BlPBDFHBlhBDFYBlHBDFKBlEBDFJBlIBDFGBlNBDFDBlIBDE-BlGBDFTB
+lHHDFIBlmCDFCBlSDDE8BkxFDFaBk1DDFEBlWJDE3BlGBDEtBlDEDE4BlUIDFRBlkAABuDKZBl7JDKTBiOBDJ8Bm6DDJWBkkBDJ3
+Bl0BDKnBj_BDJaBliBDKQBl2BDKABllAABTDJ7BdwBDJ7BelBDOABfgBDL1BelBDKIBg9CDKnBfTBDJJBg9BDJOBecBDJmBd_BDM
+4BeOBDJrBd4BDMyBiGBDI0BfpDDMBBg0BDLqBgbBDIzBgmBDOUBg9BDIrBgmBDJkBeKBDLTBenBDNuBhEBDNcBheBDJaBf3BDJ-B
+eVBDKIBe5BDJQBe0BDKaBeJCDKgBeGBDKaBeeCDKiBeOBDKWBelBDMYBiPBDKYBdxBDKCBeSBDKoBePBDKpBeyCDJKBeuBDM4Bg3
+BDMgBg9BDJTBfJBDJkBd5BDJgBd5BDJ8Bd2BDJ_Bd1JDJaBeFkDJ4Bf_FDKZBeDBDKVBeKBDKaBeADDKqBeBCDKyBd5BDKWBeBBD
+LBBeNBDKPBd9BDKbBeEHDKUBd-CDKJBeQCDKZBd4iDKaBeCAACQDJxBeLCDJyBd9BDKABeFBDJtBeABDJ6BeOAABfDM9BkYODMAB
+koFDLzBigBDMABjWBDL5BjtBDMnBlUCDOGBmBBDOJBk7CDMSBlCCDNMBm2BDN0Bj2BDOOBjtBDL4BlDBDNVBjpBDNIBlxwDMdBm4
+AAB2DBtBgfBDBrBgfBDBsBgdBDB4BgZBDB2BgZBDB1BgbBDBzBgcBDBxBgWCDB2BgaBDBxBgeBDB3BggBDB0BggBDB0BgfBDB0Bg
+dBDBzBgVBDB1BgeBDBzBgYBDB1BgWBDB3BgZBDBzBggBDByBgoBDByBgkBDB3BgMBDB1BgLBDB4BgeBDB9BgaBDB6BgXBDB5BgbC
+DB4BgjBDB4BglBDB1BgjBDBzBgQBDB1BgRBDB3BgVBDBwBgbBDB5BgXBDB7BgeBDBvBgpBDB-BgjBDB7BglBDBvBgWBDBrBgbBDB
+qBgOBDB7BgUBDBsBgZBDB3BgTBDB5BgHDDBuBgeEDBvBgTBDB2BgcBDBwBgiBDBpBgfCDBoBgdBDBwBgZBDB1BglBDB0BgNBDB7B
+ghBDBwBgNBDB2BgPBDB8BgXBDB5BgSCDB1BgeCDB2BgKEDB7BgKCDB0BgeKDByBgbFDBuBgOBDB3BgMAABqDBtBgnJDB6BgPBDB2
+BgSBDB2BgQIDBkBghBDBlBgjBDBnBggIDBwBgRCDByBgRIDBsBgsBDBqBgrBDBoBgqDDBoBgQCDBlBgaBDBkBgcBDBmBgYBDBnBg
+VEDBiBgQBDBuBgiFDBlBgVCDBoBgkBDB0BfxCDB3BfjBDBlBgQEDBvBglCDB5BgDCDBaBgTBDBXBgTCDBfBgRBDBjBgTCDBqBglK
+DB7Bf6BDBvBgJBDBuBgLBDBrBgMIDBsBgUBDBuBgUBDBqBgXBDBqBgUBDBsBgXAABgDByBgHBDBzBgGBDBzBgHBDBzBgJBDBxBgJ
+AABgDBfBgZBDBfBgbBDBgBgVBDBjBgXBDBdBgVBDBkBgXAABfDBxBg1BDBtBg2BDBqBg5BDBpBg3BDBrBg2BDBuBgxODBhBg2BDB
+jBg5CDBhBg0HDBeBg0BDBqBg9HDBmBg3BDBnBg3BDByBgtKDBnBgwKDBvBgvKDBpBgyKDBcBg4VDBjBgwCDBjBgxBDA0BgMCDBlB
+grEDBcBgaCDBhBgpBDBhBgtCDBgBgwBDBfBgxBDBbBgYDDBcBgyDDBmBgnIDBVBgcBDBWBgZIDBXBgxCDBUBgwBDBVBgvBDBaBge
+BDBeBgeBDBiBgfBDBiBgfIDBcBgnvDBXBgjBDBXBgrBDBaBgpBDBiBgmBDBdBgmBDBfBgmBDBeBgtCDBeBgiDDBaBgkBDBZBgqBD
+BcBgsHDBaBgsJDBZBgkJDBaBgsAAChDCDBgqFDB-Bg1BDB9BgzBDB_Bg7CDB-Bg8BDCGBgkFDB_Bg4EDCFBghEDCCBgzGDB7BgoK
+DCKBgWCDCQBgeEDCFBgg3DB_BgqCDCBBgoBDCBBgsBDB-BgnBDB-BgrBDCABgvBDB8BgtRDB-BgsAABMDCBBgbBDCCBgeBDB_Bge
+BDB-BgeBDB-BgfBDCABgjBDCBBggBDCDBggCDB-BgeEDCIBgfAABXDB8BfsBDB8Bf1BDCEBf8BDCHBf4CDCFBf-BDCEBf2EDCNBf
+8FDCABgEEDCBBfZBDCUBgHDDCIBgBBDCIBgEBDCMBgAEDCIBgDBDCKBgOEDCEBgCFDCNBgNCDCRBgSBDCIBgIBDCNBgGBDCLBgKF
+DCbBgGBDCbBgKBDCHBgTCDCeBgBBDCYBf_BDB_BgBEDCFBfhBDB-BfgBDCDBfmCDB_Bf9DDCCBf6EDCDBf-GDCCBfrEDCVBf7DDC
+kBf1DDCYBgUDDCqBgHLDCCBgNBDCGBgMBDB_BgKCDCEBgLBDCEBgHFDCCBgKMDB_BgNNDB_BgHAABBDCDBgbBDCCBgZCDCFBgYBD
+CCBgVBDCBBgYAABfDCBBgTBDB_BgTCDB-BgRBDCFBgQBDCDBgRBDCBBgQBDB-BgVAABdDB-BhgBDCMBhMEDB6Bg7CDBrBhcBDBqB
+hTBDBxBhYBDB9BhVLDB6BhBBDB4BhDBDB4BhHGDB6BhiBDB4Bg0BDB3Bg3BDB1BgzEDCABhiCDCABhoBDB8BhGBDCABhJDDBzBg-
+BDBwBg7BDB0Bg5CDBuBhCCDB_BhPCDBwBhnCDB1BgqBDB1BgtEDCKBhWCDB0BhhBDB2BhZBDB3BhWBDB3BhfBDBvBhLBDB0BhQBD
+B4BhSBDB2BhNCDB3BgwDDB7BhLCDB8BgvBDB5BgvEDB6BgyEDB-BhaCDB7BhaDDByBhHBDB3Bg-BDB2BhDBDByBhCJDB5BgrCDB3
+BgpAABiC_5Bi3BC_rBibDC_sBjhBC_qBjQEC_oBiWBC_lBiXCC_mBidBC_rBihBC_mBihBDADBjBBC_oBi1OC_8BjGBC_hBiRCC_
+pBjxBC_tBiyGC_0BicBC_2BiaDC_xBiZDC_-BjRCC_rBiTMC_9BjMBC_pBjEOC_xBidBC_uBijCC_jBjBXDApBiIBDAgBjvDDAOB
+iABDAaBh9BDAWBiDBDAdBiABDAXBh-DDAIBiDFC_2BipBC_4BifBC_8BipDDASBiCBDAUBiZBDAhBiQBDAZBieBDAzBiGBDAVBiQ
+HDAPBjlBC_9BiDDDADBinODAfBh4BDA1BhxBDAgBh-BDAlBiABDAmBh6BDAyBiXBDAvBiqBDAqBijDDAKBibBDAQBitBDAiBjKBD
+AOBiJCDAeBiMBDAfBi2BC_9BicEDAMBiCDDAYBiKDDAcBiEBDAlBicBDAgBiDBDAjBiICDArBjBFDARBiKBDAABiEBDAABiEDDAZ
+BiMFC_wBiLBC_wBiQBC_zBiLBC_yBiPBC_yBiTBC_vBiEBC_yBiDBC_1BiOBC_3BiFBC_1BiIBC_5BiLCC_tBiQBC_vBiWBC_0Bi
+VBC_0BiQBC_6BiIBC_uBiHBC_6BiZBC_3BiVBDACBiIBC_-BiHBC_5BiPBC_7BiTCDADBiOBDAOBiQBDAMBiVBDAIBiPBDAHBiHB
+DACBiXBC_vBiLCC_xBiNBC_tBiJBC_sBiQDC_sBiXBC_yBiIFC__BiOCC_wBiGHC_iBifBC_qBiMGC__BiFMC_gBiXGC_iBijDC_
+1BiVTDBTBjoCDBXBjoHDBSBjfBDBZBjfJDBqBisCC_2BmRBDBqBieCDBUBmGCDALBlCDDBnBizBC_tBksCDAbBkyBDBdBjRCDBSB
+j5DDBZBlOBDBrBjMBDBhBjkBDCDBmpBC_1BkoGC_xBk0BC_2BlXBC__BkdBDB_BjkBDBOBjjBDBCBkACDB3BjCBDAuBkvBDBoBjI
+BC_xBkFBDBSBjXCDBiBjICDBTBjOCDAgBlsBDCOBmzBDCABjJCDBYBjVDC_4BkeBDA7Bj1BDAhBkMBDBfBjZBDB9BkfBDCIBj6CD
+B9BllBDARBknBDBsBi-BDABBl7BDCABjWBDCSBjNQDCxBhnDDCnBkfBDB-BipCDCpBiPBDCaBiMBDDtBjwBDD1Bi0BDDRBicCDBz
+Bh9BDCJBiwBDCGBiiBDB2Bh1BDCJBiHDDBvBiXBDCJBiNBDCJBh8CDBzBh_BDCJBiACDDHBisBDFdBieEDDLBlABDCKBieCDB5Bh
+tBDB-BhuBDB1BhtBDC_BjnBDB4BisCDCIBiWBDC8Bh6CDCXBhzBDCUBh9BDB8BiKBDDPBiCDDB1BiCCDCLBiJCDB1BiDCDCiBinC
+DCJBhjBDB5BiUEDC3BmOBDD4Bk4BDDKBjIDDCyBh9BDB-BiGCDCcBhmBDCdBhdBDBxBiMBDB3BiKCDB7Bh2BDB_Bh0BDCHBiGEDC
+FBiRCDE8Bj0BDCFBiFBDCIBitDDEmBjlCDCIBiEBDCgBhzCDCoBh5BDCiBh-CDCTBhRBDDSBirBDBzBibCDB7Bh_DDCCBiEBDB_B
+h-CDCHBh1BDB4BiBCDB7BiCBDB8Bh7EDB7Bh_AABWDBwBh3CDBkBhvBDBnBh0BDBpBhrBDBpBh3BDBvBh9BDBlBh7BDBwBhwJDBm
+BiADDBtBh7JDBLBh3CDBRBh-EDA9BiuDDBBBi_EDBSBieBDBNBioBDBVBiYDDBYBiRBDBcBi8CDBkBiGCDBoBiDCDBnBiRCDBtBi
+CEDBLBjGBDBBBh6BDBGBiNEDBfBiUDDBaBh8BDBgBiJLDBdBiaBDBcBijBDBOBiKBDBWBiLBDBTBiIBDBRBiDDDA8BiFBDBBBiRB
+DA_BiaDDBKBiCBDBPBiXGDBWBhTBDBLBhNBDBRBhNCDBRBhJEDBQBhbCDBOBhKCDBQBhJDDBMBhIBDBPBhTCDBTBhQEDA6BhZBDB
+IBhGBDBQBhBBDBNBhACDA8BhVBDBMBhYHDBJBhTJDBOBg7BDBUBg3BDBQBg3BDBUBgzCDBFBhPCDBHBhWCDBXBg5BDBGBhTBDBIB
+hJDDBLBhFBDBIBhBBDBJBhDBDBLBg_JDAxBhoBDA7BhfCDA-BhbBDBXBheBDBBBhWBDBNBhpBDBNBhkEDBXBg5FDBKBhfDDBJBhZ
+BDBJBhcCDBABhiDDBNBhHEDBXBhGCDBXBhBBDBUBhBBDBZBhNBDBZBhEBDBTBhFBDBTBg9AABIDBWBhKCDBVBhMTDBgBg9BDBdBh
+ACDBeBg6BDBfBhBBDBgBhFBDBhBhNBDBiBhSNDBpBhHCDBpBhMIDBkBhCBDBjBg_BDBkBg8CDBmBhBFDBbBg_BDBbBg6CDBYBg_B
+DBZBg7BDBaBg1PDBpBhlBDBeBhLEDBfBhHBDBaBhIBDBeBhMBDBbBhEBDBcBhQBDBkBhHJDBkBhnBDBpBhfBDBeBhjBDBiBhgBDB
+YBhsDDBmBhMBDBlBhTAAByDCUBexCDCMBe-BDCMBfEGDCHBfMCDCEBfVBDCcBeiCDCZBfhGDCPBfgBDCYBe2BDCjBe7HDCFBfCDD
+CABfGCDCDBe9BDCJBfFEDCsBfSBDCABfBBDAmBeiBDCBBfARDCVBfKDDCPBfzBDCJBfyBDCKBfrBDCOBfTBDCaBeYiDCaBeNCDCc
+BeQCDClBeHBDCaBd_CDCdBeXBDCZBeLBDCcBeHBDCdBeEGDCgBdoAABUDEqBehBDFYBeNBDDgBfjBDEvBdoBDENBgHBDEABekBDE
+uBf8BDFFBf4CDFJBdECDE5BecDDEiBfBDDEqBfQBDEtBe3BDD6BfqBDFWBfRBDDJBe-BDFWBe_BDDuBeVBDC_BfRBDEeBfuBDFaB
+eqDDFVBeWEDFMBdoBDFfBe-CDFnBfeBDEpBgGBDE7BdxBDESBgLBDDtBfdBDFkBeLBDDEBfnBDFfBfVBDFVBeBBDFYBd3BDFMBfM
+CDESBd7BDEXBfABDD5BeOBDDABewCDDPBeEBDEYBguBDE1Be1BDE2BffBDE-BfFCDEmBf2BDElBfIBDFkBf1BDEFBe4CDFOBfzBD
+FJBd-BDFGBfNBDDlBerCDEyBfOBDFkBfgBDE9BeyCDFKBeuCDD0BerBDFWBevDDEVBenDDEPBgaCDEfBgHBDFmBfLBDEcBfcEDFf
+BevBDFdBe_JDD6BfSDDD2BfSBDD7BfVBDEDBfqBDDtBfaBDELBfZBDD2BfNCDDjBfDBDD7BfIBDDlBfQBDD7Be8AABXDDsBcyBDD
+yBccDDDyBcnCDDzBctBDD0BcoBDD0BcqBDDyBcuKDDmBdACDEDBcrCDDoBchCDEoBcOBDCwBdYBDEPBcIBDDHBc6BDEEBcSCDEEB
+dABDDgBcyBDDOBcyCDCsBdKBDC8Bc9DDC9BdWBDC5BdnBDD8BcgCDDYBc-BDDYBcyBDEWBcoDDDkBcvBDFBBceBDExBc4BDEfBb2
+BDDsBdaBDDMBdWBDDFBdADDDPBc_CDCzBeKBDETBdVCDCtBdiCDEKBcnkDDbBgiEDDfBg8FDCdBghCDH1BgBBDGgBgWBDHNBgRCD
+DVBhcBDIcBe5BDD7BgHBDDzBg8DDFYBhhBDDUBhEBDDLBhJCDGOBgeBDEwBgwBDD5BhcBDHqBfBBDFpBhDBDDrBf7BDC1BgDCDC4
+BgpBDC2BhDBDC6BgRFDICBfOCDCgBg7BDChBhQBDF1Bg1BDHTBfkDDFVBhFBDCZBgyBDCrBghBDCqBg1BDCdBhDBDD5BhQBDEOBh
+YDDD2BhhCDDIBgYBDDeBgEBDEaBh9BDCVBhLSDDfBf_KDCsBhKKDHDBeLBDGjBetBDFpBfUBDG_BefBDGuBe7BDGIBduCDFqBdOB
+DFtBd-BDGlBdTBDGLBeQBDGJBeNCDGyBeLBDFqBe4BDF5BeZCDFsBetBDGTBeZBDGgBcyBDGDBfKBDGHBcxBDHMBeRBDFeBdjBDF
+2BeRBDGgBePBDFrBdlBDGFBfjCDGABdjBDFoBegCDGBBfYBDGyBfUBDGeBcYBDGaBd8BDGUBddBDGgBdtCDF7BdEBDF_BfQCDGxB
+egBDHGBeZBDGrBeWBDF3Be3BDF0BfCBDF2BegCDGMBeEBDGcBehBDF0Bd6BDG2Bd5BDF6BesCDFlBd2BDGKBemDDF1BdfCDFuBeU
+CDGhBfBBDGYBcvBDFvBeyBDGZBe0BDF6BdTBDG5BedBDFpBe7DDFlBekCDGABfBaDGDBeFBDGCBeJBDGFBeIBDGIBeEBDGHBeBBD
+F6Bd4EDGKBeIBDGMBeBJDGOBeIBDGBBeGBDGIBd8BDGHBd1CDF3BeLBDGHBeIBDGDBeOBDGEBeCCDGSBeJHDGDBeTDDGKBeJBDGF
+BeEAACgDF5BbNEDF9BbPBDGABbNBDGFBbJBDF3BbQMDE9BbZBDFvBawCDFhBa8BDFiBbMBDFzBbkBDFtBbkBDFUBblBDFABbdCDF
+MBcECDE3BcGBDF8Ba-HDFwBa7DDF0Ba1BDF0BawGDF2BavDDFzBauBDFJBcWBDF1Ba9FDFhBbsCDF2BbLoDHPBaKDDHhBZ_FDHVB
+aCEDHhBZ7BDHgBZ4DDHPBZ5BDHKBZ_BDG3BaSBDG1BaPBDHABaaCDG_BaeBDHJBaWCDHKBaUBDHBBaTCDHYBaAHDHTBZ2BDHRBZ4
+CDHCBafBDHDBagCDHFBahBDHZBZ4QDG1BaNBDHKBaQBDHGBaLBDHNBaUCDHRBaPBDHbBZ9EDHOBaNEDG9BaGGDHeBZ-FDHDBamBD
+HBBamBDG_BakCDHFBamNDHqBZ-BDHpBZ_BDHrBaABDHrBaBCDHoBaABDHrBZ_BDHrBZ-BDHnBZ-BDHsBaABDHkBZ8CDHoBZ8BDHr
+BZ8BDHnBZ3BDHpBZ8BDHqBZ6DDHqBZ2BDHoBZ4BDHsBZ9BDHlBaCDDHmBZ6BDHaBaCBDHsBZ6BDHuBaDBDHnBZ8BDHkBZ4BDHsBZ
+_BDHkBZ_YDHpBaBeDHmBaCAABxDHIBaZCDHKBacBDHEBaXBDHGBaXBDHGBabAABfDHWBaIBDHSBaHBDHSBaJBDHUBaNAABhDHpBa
+MBDHmBaQBDITBaSCDHzBbQBDHtBayBDHxBanBDI7BZ8BDH_Ba7BDILBacBDIDBbNBDINBa6BDH4BbHBDHvBbNBDI_BZqBDHvBaXB
+DH1BazBDH7BamBDH_BanBDH_BakBDH7BarCDH7BagCDIFBaRBDHtBaqCDHwBasCDH4BaKBDH8Ba-CDIcBanBDIYBacBDIbBauBDH
+VBaqCDHOBasBDHQBaxCDHfBafBDHeBalCDHbBaiBDHbBacBDHnBaeBDIBBaOBDH9BbLBDH2BacBDHQBbSBDHnBbBBDHjBanBDH-B
+aYCDHTBaeBDHvBadCDInBaVBDIZBaKBDHOBalBDH_BbHBDIrBZ_BDHzBaTBDH_BaNBDIBBavBDHdBa3BDJDBZ_BDHkBayBDIEBaV
+CDIPBbABDICBaRBDIuBZ9BDI2BZ-BDHwBadBDI3BZ4BDHkBaXBDHjBabBDHhBaYBDHgBabCDHpBawBDHpBapCDITBauBDHVBa3BD
+HXBagBDHrBa2BDIOBaPBDIKBaPBDINBaUBDIJBaLDDHzBahBDH1BakBDH4BahBDH4BanBDIoBaCCDHqBaSBDHtBaUBDHmBaWCDHo
+BaZBDHrBaQBDHtBaKBDHwBaLBDHvBaOBDHtBaQBDHvBaSBDHtBaNBDHqBaWFDHwBaQBDHrBaYCDHnBaTAABRDHzBaLBDHyBaMBDH
+zBaOBDHzBaQBDH1BaKBDH2BaMBDH2BaOBDH0BaNBDHyBaJKDHzBaPAABRDH7BaACDH8BaMBDH4BaGBDH6BaIBDH-BaGAABfDH-BZ
+2CDICBZwBDH7BZxQDH1BZ6CDIkBZJBDIiBZBBDH9BZeBDH5BZ1DDIjBZjBDIZBZIBDH9BZqBDIhBZgCDICBZjEDIMBZLBDIDBZfB
+DH6BZyBDIUBZPBDH4BZsEDIMBZxBDIHBZiBDILBZqCDIGBZ1BDICBZcBDIgBZoBDIXBZcCDIYBZwCDICBZWBDH8BZwDDIABZuDDI
+BBZmBDH6BZ3BDHwBZzFDH5BZmBDIXBZOBDIiBZKBDIBBZodDHIBanBDGdBa0BDGPBbNBDGmBafBDGtBaZBDGnBadBDG4BasCDGaB
+atCDGHBbDBDGyBbCBDG7BagDDGlBaQBDGkBaiBDGWBa-BDGeBbUDDGUBbsHDGyBaqCDGuBayBDGsBarCDHIBa1CDGpBbICDGLBa_
+CDGhBaiCDFsBcOCDGLBbYBDGmBbQEDG_BatBDG_BaqCDG_BauBDHDBasGDGbBaeCDGZBapCDGbBaiBDGfBaqBDGjBanEDG1BajDD
+GgBavCDGHBb5BDGXBbAiDG_BaxBDG4Ba5BDG-Ba0BDG9BazDDG_Ba3BDG7BasBDG2BazBDGzBa9BDGvBa4BDG6Ba7BDG9Ba5BDG0
+Ba5BDG2BawBDG6BazBDG9BawBDHBBa9BDG8BauBDG7BaoBDG4BapBDHDBayBDHGBa9BDHBBa2BDHHBatBDGyBbXBDG3Ba3CDG1Bb
+BBDGyBbABDG_BbMIDG9Ba-2DH8BbvBDH7BbrBDH9BbsBDH8BbyBDH3BbkBDIABbsCDIFBbpBDIDBbuBDH-BbtBDIFBb1DDH7Bb8E
+DIEBbZBDIUBb0BDIHBc5BDIFBc1BDItBeDBDIXBdQBDIUBcaBDIYBcZBDIVBcHBDH3BcrCDIABcXBDHzBbvBDIkBc2BDITBdLDDI
+EBcIBDIPBb9DDIMBb8CDIOBbmDDIeBczBDIZBc_BDIOBdEBDIgBdCBDITBcyCDIIBdDBDIQBccBDIPBb4BDIUBcQBDIqBdACDImB
+dBBDIRBbtrDG7BcuCDHLBctBDHgBbmBDHuBdMBDHABdkBDHUBcRCDHzBdFBDIJBdKBDHjBdnBDHGBcvBDHGBcHCDHGBcjBDHSBct
+BDGpBc9BDHfBeDBDHbBcXBDHuBcLBDH5BeABDGuBcKBDHYBcsBDHDBcWBDHMBdYBDHXBcaBDHxBc_BDHUBcVBDHgBdGBDHtBbsDD
+G0BdYBDG_BclBDIMBdnBDHvBb4BDHmBb0BDHPBdyCDG-BdHBDGzBc-EDHXBd0BDIHBdfCDHGBc-CDHfBcLBDHaBcMDDHcBcQBDHf
+BcRBDHkBcJBDHfBcXBDHZBcBCDG9BcIBDHrBchCDHBBbzBDIWBeIBDG6BdPBDHoBb_BDHlBcRBDHjBcDBDHRBdIBDH-BdNCDH_Bd
+WCDG8BcaBDIXBd0BDHmBbhBDHfBbYCDH9BdbBDHLBcYCDHRBcbBDIJBdZCDHZBbzBDHfBcyBDHTBb0BDHGBc0BDHqBepCDHqBbQK
+DItBZZCDIyBZdBDI1BZjBDIsBZlCDInBZdCDIvBZuBDJ7BX-CDJHBYlDDJmBYfCDKpBYDCDIqBZIBDKIBX3BDI6BYyBDJjBZoBDJ
+rBZpCDJSBY-BDJTBZfBDJ9BYLBDK2BYyBDKwBYgBDIuBY_BDIjBZ0BDJvBYDDDJkBZRBDIxBZNBDKQBX_CDIxBZaCDJIBY_BDImB
+Z0BDJpBZeBDIrBZRBDJTBYVBDI0BZDCDI-BZPBDJeBY4BDIzBYvBDJcBZZBDIrBZyBDJpBZKBDKyBYSCDJ-BX4BDJcBZxBDJvBZa
+BDJiBYIBDKDBX5BDJLBZxBDIvBZCBDJ3BYKBDJxBZTBDIqBY_BDJqBYRBDJRBZxBDJcBYHBDKMBY8BDKCBYsBDI1BZHBDIoBZSED
+IaBZ6EDJEBYfCDJyBYqDDJ5BZLBDIvBZCCDKtBX1CDKUBYhCDI1BZXBDJ6BZFBDJaBYiDDJJBYWEDMYBXSCDMSBXVIDLZBYKDDLl
+BYCFDMoBXbCDMcBXbDDMaBXbBDMnBXyBDL2BYABDMnBYaBDL6BXnDDOCBXTFDL6BXLBDMRBXKBDODBXRCDMBBXTCDLRBX4BDOFBX
+0CDLiBXXBDM_BX7BDMBBXYBDNnBXaBDMLBXpBDMWBXwBDMLBXJBDLqBYaBDLfBXtBDLmBX2BDNKBXiBDNLBYJCDLqBXGBDLbBX5B
+DLWBXwCDL0BXWBDMhBYMBDMXBXMBDL2BXeCDOLBXWBDNcBYTBDLsBXuBDM3BXYBDLtBXmCDMjBYBMDK6BYBCDLFBX4CDLOBXiGDL
+RBY1GDIqBcdBDJjBcCBDJbBcDBDJ8BdpBDI7BbWBDJMBaVBDJTBabBDI_BbrCDJFBbxCDImBbSBDJRBcXBDJZBcOBDIfBbWBDI3B
+a8CDI2BbHBDJEBcfBDIoBbBBDJGBbtCDI_BccBDIrBbtBDIkBaxBDJJBbbBDJJBalBDJBBbzBDIzBcrBDJCBb-BDJpBclBDIbBby
+BDJVBceBDJaBcpBDJbBcVBDI9Bc_BDJVBaNBDIiBcFBDIpBbaBDIiBcSBDIQBbQBDIiBckDDJZBa8BDI_BduCDJcBbtCDJRBb7BD
+JSBcSBDJCBbkBDJGBaqCDI3BbwDDJYBb7BDJWBbRBDJEBbmBDJKBbzBDJFBb2BDJWBb6BDJQBcIBDIoBcvBDI2BdPBDJJBchBDJT
+BbaBDIxBcXBDI8BbwBDJFBb9BDJIBcNBDJFBbdBDJfBbcBDI3BcmBDJXBbFBDJPBb1BDJNBbvBDJcBaLBDIYBbSBDJkBbpBDI8Bc
+QBDIzBcCBDI5Bc-BDIrBckBDIQBbYBDIhBawBDIqBalBDIvBcyBDIUBbNBDI_BbRBDJoBbjBDIoBb2BDI5BaiBDJFBa3CDJJBa7B
+DJSBaxBDIsBcaCDJ7BcjCDJjBcNGDJLBcrEDJsBcTBDJ4BccBDKABcwCDJyBccDDJVBdXBDJSBdmBDJlBcJEDJMBdHCDKBBdIHDJ
+UBdhBDJoBcOGDI4Bb4EDJLBb7BDJOBbnKDIhBbgBDIrBbfEDJEBcGDDJSBbwLDJGBbGjDI7BbcDDI6BbaBDI9BbfBDI6BbeBDI3B
+beBDI3BbaBDI5BbgBDI1BbgBDI_BbmBDIzBbbBDIvBbgBDI0BbgBDI7BbjBDI2BbmBDI3BbrBDIxBbkBDIxBbsBDIxBbwBDIyBbX
+BDItBbaBDI-BbYBDJABbYBDJDBbXCDJFBbQBDJBBbfDDJCBbpBDJFBbpBDJIBboVDI6BbmlDJ6BbbCDJwBbnHDKSBcdCDJkBahBD
+KjBaVBDKNBbmBDLHBb1BDKlBbmBDKQBbABDKCBbqBDKPBbxBDKRBauCDKTBcFBDLaBb-CDKUBb5BDKvBa4CDKoBa4BDKtBa3BDKb
+Bb8CDJ9BanCDLOBcVBDKKBb5BDKeBcjBDJYBaoBDKgBa8BDKcBZrCDKYBbxBDLABbJBDKeBalBDKaBcbBDJ3BcOBDJ5Bb3BDLYBc
+cBDKGBa_BDJuBb_BDJoBawBDKsBaoCDJ-Ba-BDK5BbSBDKBBaUBDK8BcABDJpBa5BDKcBa8BDKHBcZBDKQBcKBDJoBbUBDKEBbxB
+DKvBaKCDKfBbSBDKUBbjCDKQBbVBDKsBbMBDKNBajBDLBBcUBDKOBbqBDK8Ba2BDKWBbABDJ6Bb9CDJ2BbvBDK_BbXBDKBBZ4CDK
+lBcIBDJ1Ba7BDLOBcmBDLGBb_CDKIBcjBDJuBaPBDKWBaLDDJmBbPCDJsBbIIDMCBZ7BDL9BaIBDMLBaIDDM5BccBDL2BaJBDMQB
+adBDMyBcKBDMnBYsBDMyBazCDMpBbHBDNTBZaBDNfBcYBDMhBbZBDM3BaJCDMNBaABDLnBbyBDLABaNBDLqBZ7BDOHBaqBDL_BZQ
+BDNABaICDNTBYtBDMtBbeBDLCBZ3CDM-BYwBDNnBZGBDMSBZtBDNYBZsBDLMBaVCDNiBZMBDNpBZxBDNvBYeBDMXBbdBDL7BYwDD
+OJBZlCDMFBYZBDL4BZjBDMbBZCCDOBBZJBDMkBaJBDMMBZZCDNGBcABDLSBaoBDMzBbsBDNHBawBDN1BaxBDLzBa5CDLrBbbBDMA
+BafBDLtBbPBDN3BaDBDMhBasCDNMBaIBDM2Bb4BDMNBamCDMNBbeCDMEBaVBDK6BZtBDLsBa0BDLvBZKCDLQBaWCDLZBZ8EDMYBa
+1BDN2BY8BDOIBYqBDMHBZtBDL7Ba0CDLJBacBDMwBZYBDLFBarBDMVBZKBDNfBaFCDMIBa0BDN4BZmEDNaBc9CDKyBctBDNaBdjB
+DKpBdiBDKuBc6BDIpBedBDN7BdIBDLHBdmBDNEBdkBDKOBduBDOFBdfBDLbBdhBDLlBc_BDNxBdoBDNGBdDBDL9BdYBDKkBdXBDM
+wBc5BDJKBd9BDLYBdKBDK2BdABDMdBdQBDKkBdBBDKhBc0BDKbBdICDLrBdHBDK4BdMBDL_BcxCDMiBc9BDI-BehBDOABbgBDK1B
+dbBDLrBdoBDL3Bb1DDJ7BdmBDJuBdbBDJkBdmBDJ-BdtCDJ2BdhBDJ6BdXCDJ9BdqCDJXBdpFDJMBdnGDKHBdaAAIcCuFAikCCvO
+AgPBCqxAlwBCu2Af7BCt-AiWBCuAAiQBCtQAlJCCroAmrCCudAiaBCtBAlVBCvNAgACCu3Af4BCuUAihCCsQAlxBCrWAmtCCvTAg
+GDCrQAlqBCq-AlzBCsDAmTBCrqAm3BCtuAjwBCuSAioBCugAibBCtQAkyCCuEAiwDCqfAl2BCrrAl0CCrgAloBCu8AgABCtuAj_B
+Cr7Al2BCuJAipCCvJAgRBCu4Af1BCtpAkMBCrSAnFBCrIAloBCvLAgVBCvMAfwBCtBAk0BCvTAgMBCsLAl3BCu2AgHBCtrAj-CCu
+KAiSBCrLAm_BCtUAkiBCuaAieBCtMAkDBCr3AmrBCu5AgCBCvBAgLCCtLAlCBCu8Af2BCtpAjnBCrJAm2BCqbAmBBCrvAmoBCr1A
+mkCCr4AmeBCqrAmVBCq_Am7BCtTAk6BCr1AmuBCrlAmwBCuJAigBCroAm5CCrEAmtBCuSAiWDCuMAifBCs_AlDBCuUAiFBCuLAiH
+BCtSAkrCCt-Ai1BCu8AfxBCuFAiWCB2QAOdOCt8AinBCt5AioBCt3AiqBCt5AitBCuAAiqBCt-AieBCt_AikBCt-AigBCt7AixBC
+t8AirDCt5Ai3BCt5AipWCt6AirCCt6AimDCt-AieECuNAiTBCt-AikBCuAAijBCuAAidDCuIAixvChpH7bDChsH7iCChhH7XBChX
+H7VBChYH7aLChgH7SBCh1H7oVCkXH8_BCivH8JBCkFH8yxDS7Bc0BDTUBZZBDTuBZSBDTVBZ7BDTtBZYBDTxBZSBDToBZRBDTqBZ
+YBDTmBaHCDTjBakCDTSBZlBDT8Ba9BDTmBZzBDUlBYqBDTNBaDBDUWBZXBDTsBaVBDTSBZUBDTjBcABDTfBaIBDTQBaUBDTyBZ8C
+DTGBZKBDTjBZtBDTZBa7BDTaBcfBDTvBZ9BDT5BbQBDTOBZZBDTQBc2BDTlBZjBDTlBZfCDTDBcJBDTGBZwBDTrBcyBDT6BblBDT
+mBbQBDTRBZyDDTcBZyDDUhBZHBDThBa1BDT_BciBDUVBZMCDUPBZQBDUcBZLBDTgBaYBDUMBZHBDS8BclBDTzBb9CDTxBaDCDThB
+ZcBDTSBbuBDUSBYsBDT5BcwCDTcBapBDTfBZlCDTbBZbBDTJBZVHDTsBZPCDTsBaBGDTpBZzDDTnBZ8MDTFBYtBDULBXmBDUtBX-
+DDT9BY2BDT0BXrBDTXBYABDUGBYxBDUVBXlBDTYBYwBDTYBXsBDTvBZABDTPBY8BDTYBZBBDT2BYzBDT7BYiBDT0BXoBDTrBYuCD
+U0BXiBDTMBXxBDToBZGBDT1BZJBDT-BYuCDTVBY5BDTRBYoCDUDBXmBDUDBXyBDTcBZFBDUBBZDBDTqBXjBDTQBXkBDT7BXoBDTS
+BZJBDUXBX9CDTfBZRBDTvBX6DDUGBYmBDUQBXlBDUtBXpBDUBBXrBDTgBYqBDTHBXm0DTvBZjBDTsBZoBDT4BZeBDTwBZlBDTwBZ
+iBDTsBZsCDTxBZkBDTxBZkBDTzBZeBDT3BZoBDTyBZoBDTyBZsBDTvBZoBDTwBZsBDTvBZwBDT4BZiBDT2BZsBDTpBZiBDTzBZwB
+DTuBZfBDToBZqBDToBZaBDTlBZYBDTuBZbCDTyBZkCDTzBZXBDT0BZ1BDUBBZWBDTxBZoBDTwBZ2DDTsBZ1DDTtBZjTDTvBZkIDT
+sBZwBDTlBZriDS3BZDBDSyBY-BDS_BZCBDS9BY5BDS-BZLBDSsBY7EDSwBZHHDSyBZNEDSZBY2BDSXBZCCDR6BYFBDSrBZTBDSYB
+YBBDR-BZJCDR9BaLBDSZBYqBDSQBYoCDSHBYnCDSYBZQBDR8BZTCDS2BYiDDSqBXcBDSiBa0BDSSBX5BDSvBYVBDSBBZuBDSlBaC
+BDTEBYCBDR-BY4CDSaBapBDSqBY3BDSjBZBDDSNBZWCDSjBXxBDSpBaACDSjBZ4BDSmBYjBDTCBZcCDS8BXhBDSbBXdBDSSBXbBD
+SzBXjBDS-BXqBDSkBXaBDSQBYUBDS7BYxCDTCBZaBDSdBZbBDS7BZsBDSKBXiBDSGBY6BDTEBYaCDSnBXnBDS2BZgCDSoBZgBDSn
+BZqBDSvBZgBDR8BZfCDSwBXeBDSNBY7BDR8BXuBDSSBXsBDSoBZLCDSABXeCDTGBYNFDRfBY8BDRdBYtBDRcBY_BDRjBY3BDRTBY
+0BDPOBXeCDRmBY-CDPgBY4BDP6BW9BDRsBYNBDRdBatBDPxBXQBDOeBXTBDP4BX-BDPuBYvCDRqBYbBDQXBXVDDQHBXPBDQ_BY_C
+DROBZBDDPxBY_BDRoBX9BDRLBZUBDP-BYZCDQyBZiBDQ5BYjBDQ0BYJBDRiBYdBDRSBZkBDRfBXdCDQ_BXPBDPeBYZBDQNBZEBDO
+8BW_CDRyBY_BDQQBZ2BDRtBYoBDQsBXcBDPrBW7BDRJBYlBDRLBZdBDRWBXvBDRuBZWBDRVBZMBDR6BYhBDP6BYtBDP5BXfBDQkB
+XOCDRiBYRBDQlBYaBDQ-BaBCDPcBW-BDPlBXXBDQ-BXpCDPsBYaBDQNBYsBDQKBYTCDQ5BXpDDPkBW4BDReBZDBDRhBZUBDQcBYw
+BDRlBXxBDQABYLDDPtBZTCDQXBYPBDRXBYdBDRlBZ-BDRjBZrBDRZBYHCDREBZ0BDROBXeBDQVBYjBDQQBYlBDP7BYVBDPTBYZBD
+RzBXfBDQvBYsCDOtBZOBDO5BZJBDPMBZMBDOxBZYQDOhBZ1CDPPBZ9BDOaBYEBDO_BZnBDO7BY-BDPGBYiBDO2BYdDDOeBY5BDOl
+BYEBDPEBYCCDOSBX-BDOrBZXBDPeBZ3BDPHBY1BDOvBYBBDPKBZZBDOjBZWBDPeBZdCDO2BYMBDOlBYm5DO8BahCDOdBbKBDPyBa
+TQDOsBd6BDPDBbvBDO3BcLBDOkBbtBDPHBa3BDOwBbSBDPYBanBDOXBahDDOvBdJCDOUBbjBDOTBbUBDOdBa8BDOJBdTBDPSBc2B
+DO_Bd0BDQDBcKBDO7BbbBDPzBc6BDQRBc78DRYBcJBDRWBb3BDRqBbmEDRHBbbCDROBa2BDOeBgCBDSfBctBDRCBdHIDQvBfeBDP
+FBgLBDP1BfvIDSMBbLBDP9Ba2BDQlBgYBDQeBavBDSNBbqBDQbBcNBDPTBfeBDQmBbABDQkBfEBDQ3BbbCDSaBcIJDSrBdTBDRlB
+eGBDRlBdcBDRsBcNBDRlBc8CDR0Bb5CDQhBeHBDSJBa-BDR-BbzBDSuBbvoDT_BfmJDT_BgQCDT2BdXBDURBgDBDSoBhODDShBf7
+BDUIBeGBDSJBhQBDRmBfBDDTVBdcBDTfBhQBDR_BeiBDT-Be9BDT6BhGBDTxBiNCDS5BdeDDS1BgxBDS_BiFBDUWBfrBDTcBelBD
+SMBgyBDURBe3BDT1BeXBDSuBiiBDTrBg-BDT5BiwBDTuBd8BDUUBedBDSBBfeBDTYBiRCDSgBeaCDTbBgoGDSmBfIBDTgBhoCDTw
+BgNDDUYBgYCDSpBelBDSGBfCCDTEBg5BDTlBfjBDSABf5BDSnBiJDDRlBfVBDSkBd_BDUOBfFBDTwBg1BDSpBgQDDTFBfgCDUXBe
+xBDTJBhbBDSGBgiBDT9BhpBDUMBgdPDQvBiSBDPrBhrBDRzBhgBDRNBgHBDSSBhtBDQiBhLBDSCBh5BDRwBg_BDRtBh2BDPlBhpB
+DRMBgyCDQzBiABDRjBiUDDQrBgsBDRUBh1CDRfBhRAABRDWjBaOBDWjBaSBDWjBaJBDXCBaTBDXBBaXBDW7BaZBDXBBaaBDXBBad
+CDWkBaoBDXQBaUBDXYBaUCDXKBa3FDXOBavBDXUBaDBDXTBaTBDWVBbIBDWjBaEBDW9BayBDWvBatBDXYBaHBDW3BapBDXPBaPBD
+W8BanBDWpBaUBDWtBaVBDWrBaOBDXIBaVBDXMBaTCDXVBaMBDXYBaMBDWuBasBDXDBaQBDW8BaRCDWoBacBDXTBaKCDW0BbICDWe
+BaPDDW7BauBDWnBa0BDXIBacBDXHBamCDWxBaUBDW3BaVBDWzBaSBDWwBabBDW1BabGDXABa-DDWvBbnCDWtBZ5CDXQBabCDXCBa
+kBDW_BakCDXPBaiKDXaBaNFDWhBabJDXBBaGBDXDBaIBDXIBaGBDXABaHBDXGBaMBDW6BaFBDXHBaCBDW6BaJBDXDBaFBDXFBZzC
+DXEBaLDDXJBaMBDW-BaABDXJBaBBDW6BaNBDXEBaDCDXCBaFBDXBBaKDDXMBaKBDW7BaDHDXOBaGBDW-BaGCDW6BaBIDW_BaLCDW
+2BaECDWwBaHGDXBBaHBDXPBaKDDWxBaJGDXBBaHCDWxBaFCDW1BaKGDXABaGDDXOBaDBDW2BaPKDWxBaNHDXFBaJDDWrBaJBDXFB
+Z_CDXnBaVCDXiBaRBDXeBaODDXnBaSBDXeBaVMDYsBaUBDYVBZsBDYhBZWBDX-BatBDXNBbUBDY0BZ1BDY4BZ9DDYvBaABDZHBZh
+CDYgBZ_BDYaBaFCDYWBaRBDXjBZ_BDYdBbFBDYKBaGBDX8BZnBDZHBZqBDX8Bb-CDYlBZDBDY1BaxBDYrBZNCDZCBaJBDY_BZqBD
+XpBZyBDYfBY7BDXfBbPBDXuBbFBDXwBZvCDYcBapBDXWBbjBDYRBZ1BDXrBagCDXsBZ7BDYYBZQBDYuBZkBDYcBahBDZHBZ7CDZJ
+BalBDYPBbxDDXuBaZBDXxBaQBDXaBazBDYQBaCBDYLBaZBDXfBaKBDZFBaIBDYIBZpBDYKBZlBDYoBZWBDYkBZQBDZKBY-BDX9BZ
+2BDY4BbuBDYfBaaCDYhBZICDXCBbrCDXkBaqCDX_BaJCDXYBa_BDZKBaUBDXYBaeBDYuBZBGDWTBZkBDV4BbCBDXqBXIFDW_BZqB
+DXDBZoBDW9BZcCDW8BZoBDXMBZgFDXKBY-BDWTBahCDWCBapCDXlBZcBDX4BWuBDWPBZmBDV2BaYBDWoBZeBDVsBaZBDXPBXOBDW
+pBZsBDWeBZnCDWiBZqBDVcBagBDW8BZoBDWHBaMBDXrBZdBDXfBZvCDXQBZ1DDXKBZqBDXXBZzDDWfBZcBDXfBWiBDWYBZbCDW6B
+Z3BDWdBaIBDVmBakBDVaBaNBDYJBWgBDXsBZjBDWvBZvBDWJBaZBDVWBbaBDXrBYjBDXoBXyBDXZBZtBDXcBZiBDW6BZuBDWyBZl
+BDXsBZVCDXPBZpBDWYBaIBDWZBaOBDWTBaIBDWRBaOBDWOBaHBDXZBZTBDVTBa6DDXABZQBDYFBWyBDXqBY5BDXGBZgCDWSBaeCD
+WKBaBBDWZBZkCDWZBaRBDWWBaXBDXNBZvCDWkBZZCDWPBaoGDWdBZ8BDWfBZ6BDWZBZ_BDWdBZ5BDWeBZ1BDWhBZ0BDWYBZ7BDWZ
+BZ5HDWeBZ4CDWaBZ7DDWeBaABDWhBaBCDWcBaFGDWQBZvDDWNBZrFDWSBZ3BDWRBZ2EDWZBaDBDWTBZ7BDWSBaABDWRBaCBDWTBZ
+8SDWdBZyBDWbBZyBDWYBZvfDWUBZwBDWVBZ1CDWCBZQBDWMBZCBDWGBZZCDWLBZHBDWPBZRGDV_BY_BDWDBZfDDWOBZZEDWDBXxE
+DWpBZUCDWzBXhBDVcBXpBDWxBZOCDVxBZQBDVqBZOBDVfBY_BDViBaACDWOBXUBDWXBXWBDVxBYKBDVQBY1BDVgBYpCDWKBYdBDV
+VBZfCDVqBZBCDWkBZNBDVuBXcBDW6BYzCDWPBXoCDWkBXlDDW5BY-BDV5BY2BDWIBYpBDV-BZwBDWABYjBDWjBYaCDWcBXMBDWZB
+YHBDVNBZ-BDVaBZNBDWtBXjCDV2BYmBDWDBXSBDVfBZnBDWYBXMBDVWBYjDDWxBX0BDV1BZnBDVgBYHCDVvBY3BDWDBZ1BDVEBY9
+BDVUBZpBDWEBYTBDWcBY1BDVZBZ8BDVWBXwBDWkBXRBDWxBZBBDVzBZYBDVnBXgBDVMBZdBDWlBY8BDVIBZDCDV6BXVBDVRBZJBD
+V0BZ3EDUaBZ8BDUTBbwBDUmBZ_BDUNBZ1BDUKBbKBDUFBZ6BDT8BaCCDUnBZRBDUKBamBDU_BZOBDU5BYnBDUHBcPBDU8BXoCDUo
+BaWBDT8Bb_CDUdBbxBDUTBciBDVIBYOCDUMBbbBDVCBXkBDUrBZvBDUxBZbCDURBcFBDUUBZqCDVHBXeBDU0BY-DDUHBb5DDVHBX
+4BDT8BarBDVfBXcBDVZBXcBDUMBZiBDU9BYDBDVABXbBDVBBZcCDVABYcBDUDBatBDVABZzBDUbBbXBDUGBbSJDT-BZgBDT8BZpB
+DUBBZuBDT9BZmBDT6BZuBDUABZnFDUSBb9BDT5BaMBDUOBbdBDUABcRBDUbBZlBDUTBaIHDT_BZ4BDT4BZ1BDT7BZ1BDUEBZjBDU
+EBZqAABzDWvBdNBDW1BdgJDXNBdLBDX1BeDBDXpBeWBDX8BdTBDW5BdABDXuBdPBDXTBdxCDYiBeBCDW7Bc4BDXmBcyBDWmBeUBD
+WLBd9CDXSBccBDY-BeJBDWjBdeBDYGBeDBDXcBefBDXiBdiBDWlBfRBDY1Bc9BDX0BdpCDWzBdEBDWTBe0DDYFBehBDYOBe3CDXO
+BdnBDZFBe9BDWwBd2BDXpBdzBDWuBcyBDWVBeABDYeBerBDWtBdsBDWtBepBDYNBctBDWzBe4CDYrBe7BDYKBdWBDWDBfSBDXIBd
+7BDY4BfYBDWyBfICDYkBdanDVjBdOBDVcBc7BDVVBcSFDVgBciNDVLBdQBDWbBcZBDVjBcoCDWgBbwBDWDBdNEDU7Bd7CDVBBdgB
+DVIBcwBDWCBdGBDUtBdpBDVVBdgBDVvBb1BDVHBdmBDVSBdBBDWoBcIBDWaBcMBDVwBcuBDWWBcPBDVTBeRCDWLBckBDVlBcfBDU
+4BdLCDVyBdzBDVOBc9BDVDBceBDVMBdZwDXEBhhCDXgBiBBDWuBhgBDXYBh4BDXjBhpCDW2Bg_BDXrBiDCDXCBhbBDWqBiJBDXcB
+hIBDW8BhgCDXABiQBDWWBhDBDWhBiNBDXEBiVBDW8BhqBDXZBiJBDXABhVBDW8BiOCDXTBiUBDXUBhdBDXLBiPCDXLBhJBDW0BiR
+BDWtBh7BDWlBg1BDWbBiSBDXdBhQCDW4BiBBDXEBiICDWmBiFBDXeBg49DYIBg-BDVvBiDBDXOBfcCDWABgxEDYFBhWBDXpBhiBD
+V2BhvCDVaBiIBDYqBhSBDXHBeuBDXpBfaBDXFBf_BDZCBf4BDYbBh9CDZGBgJBDXJBgjBDXdBfPBDXoBfZBDWABhRBDYxBg7CDWO
+BiUBDXpBgoBDWEBiJBDYGBgvCDXpBfGBDWxBgaBDXGBfLBDVjBg9BDX3BgsBDX_BgRBDYwBiDBDXzBf3BDYwBgnCDVtBhHBDWpBg
+HCDZIBgaBDXaBgKBDXzBhjBDWaBhtBDY5Bf7BDYqBgyBDY8Bh0BDZDBiLBDWrBgUBDYHBfTBDX4BiJBDZEBhMBDWRBiEBDWlBfrB
+DY_BgaBDV6BiNCDVpBiGDDYlBf1BDYRBgrCDWQBgSBDWdBh0BDWOBhbCDXsBhGBDWFBh4CDWNBhzDDVRBiPBDYHBh9BDX2BhPEDX
+NBfxQDXGBhwBDXGBh2BDXDBh0BDXFBhxBDXKBhwBDXDBiDBDXJBh1BDXTBhvEDXHBh9EDXJBiGBDXOBiCBDXQBhzFDXABh8BDXFB
+hnbDXPBhyHDXHBh0rDVGBfZTDVABehBDV2Bd7BDUbBdgBDUzBfhBDUkBgRCDVjBfkCDU8BhFBDUuBgpBDVRBfRDDVmBgqCDVhBgM
+BDU1BfCBDUlBfKBDUxBe5DDV7Bf4CDVcBfEBDVyBfDBDUZBeSBDUjBe2BDVLBhiBDVIBgMBDVpBeOBDUuBeKCDU5Be3BDU_BetBD
+VBBe2CDUPBdMBDV5BeSCDVTBgoBDUpBf1BDU4BgqBDUqBgZBDUlBffIDVvBgXeDUpBiDBDU2Bh5BDVGBh_AABiDsSAvGBDsMAu4B
+DtkAiHBDsPAvfBDsYAvbBDsXAvLBDsIAveBDsQAvKFDsRAvDCDsIAvDBDsEAvVBDsPAu-BDsMAvEBD6CAvJLDsOAu6KDr9Av8GDd
+qAFNBDeOAJEBDkjAhJBDlpAhdBDnDAqaBDr0AdEBDrzAdWBDhMAWJBDunAX_BDpRAhWBDqHAsaBDsrAmuBDufAe6BDrlAcVCDqnA
+YnCDszAW4BDkmAhxBDkmAhmBDsXA6bBDsaAwaBDqzAt7BDogAhjCDi_Aa4BDrNAu9BDs1A1pBDsIAynBDtMAiQBDpYAhGBDsNAwA
+BDquAcEBDnmAjOBDpXAjLBDuyAX5CDiZAZ7CDtTAcCBDulA34BDr5AwoBDunA0ABDpMAcyBDu6AfFBDlEAQILDtzAfeBDpqAtBBD
+svAVtBDrvAvtBDp-AnOBDsyAetBDmnAoEBDruAbSBDq0As5BDrrAtwBDisAboBDo7AmeBDqSAY6BDmwApmFDvHAZuBDrnAdBBDqM
+AaSBDsoAvABDmdAo3BDo7AkGBDswAetBDv7AnuBDoaAg9CDq9AVdBDrUAvcBDtrAZiBDofAkHBDrcAcGBDsDAqMBDplAjdBDrNAX
+RBDfdARoBDqXAshBDrgAmLBDrwAbaCDmCAprBDnHArKBDs6AweCDqMAohBDkBAgkBDmfAjfBDtaAawBDovAchBDswAu6BDqoAoGB
+Ds5AvyBDp-AcTBDtTAjYBDtFAcoBDtpAaLBDvyAb7BDl-APIBDi-AeJBDtQAWiBDpcAsWBDqlAvqBDujAf-BDuMAXNBDtCAriBDs
+9AjyBDq8AtSBDoUAj9BDvzAbuBDrRAtsCDs3Ax6BDvCAlYBDuZAvfBDrxA0FBDpOAehBDsGAdyBDq7AbGBDrVAXPBDsPAtCBDuKA
+uPBDwvAe7BDgzAVIBDsAA05CDtVAveBDpkA_aBDrGAXtBDupApSBDg0AVCBDrtAx9BDs6AvJBDkAAgDGD16AvTBDxpAzfBDx7Aym
+BDxFAwIBDx1AzJBDwpA3MBDycA0vCDyAAxxDDySA1PCDxOA0TGD0oAqjBD3HAsOBD3JA2EBD79AkQBD0QAz4BDx-Ax-BD08AsrBD
+zuAdeCDvcAyCBDzNA1vCDwwA7bBDzgA3-BD6qAv-CDz3Aa8BDvwA2OBDybA6XBDyJAa1BD2UA3MBDxyAkJBDwPAM_BDwhAu5BDxJ
+AwXBDz1AoRBDzTAlBBD6MA4vBDxHAhKBD1SAelBD2eAYLBD1MAkGBD1xAdaBDyGAddBDyCAi3BDwPAwHBDxuAs_BDwTArCBDybAv
+3BD5mAa1BDxSAwNBD2SAaeBDxyAX_BD1DAdpBDulA7qBDxxAiLBD3UAV5BDy-AupBDymApTBDwIAO4BD0tAfGBDxMAdYBDzgAWCB
+D1IAjtBDzyAwUBDx-AyRBDvlA5DBDyeArqBDylAVVCDwEA8JBD2DA1CBD7BAfWBDzJASoBDxsAZ7BDyuAVFBD1dAijCD0xA4lBD6
+VAtVBDy6Ax1BD6wAjbKDn1BHmTDmSBHcEDnrBHQBDnZBETBDn5BFDBDoiBEbCDnSBF1BDlVBHvCDnNBEpBDlcBJJCDloBGQBDkhB
+G3EDpsBFyBDnMBFgJDoBBFkzDjmBMDCDjtBK2PDkABJ6BDjlBKOCDjYBJ6BDjDBJXBDkIBOECDjbBJhBDiyBL1BDkpBIfCDkeBLI
+`;
@@ -16,6 +16,7 @@ import {
 	archiveOldLogs,
 	getExpiredLogFiles,
 } from '../engine/log-rotation';
+import { getClubTrusteeReport } from '../engine/clubs';
 
 /**
  * POST /admin/update
@@ -578,6 +579,51 @@ export async function getDiffHistory(
 	}
 }
 
+/**
+ * GET /admin/reports/club-trustees
+ * Active club stations whose trustee license has expired or been cancelled,
+ * as of the last pipeline run
+ */
+export async function getClubTrustees(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	log('info', 'Club trustee report requested');
+
+	if (!env.METADATA_STORE) {
+		return errorResponse(
+			'Service Unavailable',
+			'Metadata store is not configured.',
+			503
+		);
+	}
+
+	try {
+		const report = await getClubTrusteeReport(env);
+		if (!report) {
+			return errorResponse(
+				'Not Found',
+				'No club trustee report yet; it is built after the next pipeline run',
+				404
+			);
+		}
+		return successResponse(report);
+	} catch (error) {
+		log('error', 'Failed to get club trustee report', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse(
+			'Internal Server Error',
+			'Failed to retrieve club trustee report',
+			500,
+			{
+				error: error instanceof Error ? error.message : String(error),
+			}
+		);
+	}
+}
+
 /**
  * GET /admin/status
  * System status and health monitoring
@@ -0,0 +1,503 @@
+/**
+ * Data distribution endpoints: export jobs, dataset releases, the changes feed
+ * and the offline callsign index
+ */
+
+import type { Env, ExportFormat } from '../types';
+import { successResponse, errorResponse, getQueryParams, log, requireBinding, textResponse } from '../utils';
+import { getLatestSnapshot } from '../engine/database';
+import {
+	EXPORT_FORMATS,
+	createExportDownloadUrl,
+	getExportJob,
+	isExportJobIdle,
+	parseCallHistoryTemplate,
+	prepareExportJob,
+	runExportJob,
+	verifyExportDownload,
+} from '../engine/export';
+import type { StoredExportJob } from '../engine/export';
+import { buildMasterScp } from '../engine/partial';
+import { RELEASE_FILES, getReleaseManifest, listReleases, releaseObjectKey } from '../engine/releases';
+import {
+	CHANGES_DEFAULT_LIMIT,
+	CHANGES_MAX_LIMIT,
+	decodeChangesCursor,
+	getChangesSince,
+} from '../engine/changes';
+import { getOfflineIndexInfo } from '../engine/offline-index';
+import { loadConfig } from '../config';
+
+/**
+ * GET /api/v1/export
+ * Start an export job writing the database to R2, or return MASTER.SCP directly
+ */
+export async function exportDatabase(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext
+): Promise<Response> {
+	const url = new URL(request.url);
+	const format = url.searchParams.get('format') || 'json';
+
+	// Validate format
+	if (![...EXPORT_FORMATS, 'scp'].includes(format)) {
+		return errorResponse(
+			'Bad Request',
+			`Invalid format. Supported formats: ${[...EXPORT_FORMATS, 'scp'].join(', ')}`,
+			400
+		);
+	}
+
+	// Call-history files take a column template
+	const template = url.searchParams.get('columns');
+	let columns: string[] | undefined;
+	if (template !== null) {
+		if (format !== 'callhistory') {
+			return errorResponse('Bad Request', 'columns only applies to format=callhistory', 400);
+		}
+		const parsed = parseCallHistoryTemplate(template);
+		if (!parsed.columns) {
+			return errorResponse('Bad Request', parsed.error || 'Invalid columns', 400);
+		}
+		columns = parsed.columns;
+	}
+
+	const disabled = await checkDataExport(env);
+	if (disabled) {
+		return disabled;
+	}
+
+	log('info', 'Database export requested', { format });
+
+	// MASTER.SCP is built straight from the database for contest loggers
+	if (format === 'scp') {
+		const unavailable = requireBinding(env, 'CALLSIGN_DB');
+		if (unavailable) {
+			return unavailable;
+		}
+		try {
+			const snapshot = await getLatestSnapshot(env);
+			return textResponse(await buildMasterScp(env, snapshot?.version), 'text/plain; charset=utf-8', 200, {
+				'Content-Disposition': 'attachment; filename="MASTER.SCP"',
+			});
+		} catch (error) {
+			log('error', 'MASTER.SCP export failed', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return errorResponse('Internal Server Error', 'Failed to build MASTER.SCP', 500);
+		}
+	}
+
+	const unavailable = requireBinding(env, 'DATA_EXPORTS', 'METADATA_STORE', 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const snapshot = await getLatestSnapshot(env);
+		if (!snapshot) {
+			return errorResponse('Service Unavailable', 'No database snapshot is available to export yet', 503);
+		}
+
+		// Identical requests for the same data version share one job and artifact
+		const { job, start } = await prepareExportJob(env, format as ExportFormat, snapshot.version, { columns });
+		if (start) {
+			ctx.waitUntil(runExportJob(env, job));
+		}
+
+		return successResponse({ ...(await exportJobStatus(job)), reused: !start }, start ? 202 : 200);
+	} catch (error) {
+		log('error', 'Export job could not be started', {
+			format,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to start export job', 500);
+	}
+}
+
+/**
+ * Refuse exports while features.dataExport is disabled
+ */
+async function checkDataExport(env: Env): Promise<Response | null> {
+	const config = await loadConfig(env);
+	if (!config.data.features.dataExport) {
+		return errorResponse('Forbidden', 'Data export is disabled', 403);
+	}
+	return null;
+}
+
+/**
+ * Refuse release and changes requests while releases.enabled is false
+ */
+async function checkReleases(env: Env): Promise<Response | null> {
+	const config = await loadConfig(env);
+	if (config.data.releases?.enabled === false) {
+		return errorResponse('Forbidden', 'Dataset releases are disabled', 403);
+	}
+	return null;
+}
+
+/**
+ * Public state of an export job, with a fresh download URL once it is complete
+ */
+async function exportJobStatus(job: StoredExportJob) {
+	const download = job.status === 'complete' ? await createExportDownloadUrl(job) : undefined;
+	return {
+		job_id: job.id,
+		status: job.status,
+		format: job.format,
+		columns: job.columns,
+		data_version: job.dataVersion,
+		records: job.records,
+		bytes: job.bytes,
+		created_at: job.createdAt,
+		updated_at: job.updatedAt,
+		completed_at: job.completedAt,
+		error: job.error,
+		status_url: `/api/v1/export/${job.id}`,
+		download_url: download?.url,
+		download_expires_at: download?.expiresAt,
+	};
+}
+
+/**
+ * GET /api/v1/export/:jobId
+ * Progress of an export job, and a time-limited download URL once it is complete
+ * Polling an idle job runs its next step.
+ */
+export async function getExportJobStatus(
+	_request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const disabled = await checkDataExport(env);
+	if (disabled) {
+		return disabled;
+	}
+	const unavailable = requireBinding(env, 'METADATA_STORE');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const jobId = params?.jobId || '';
+	try {
+		const job = await getExportJob(env, jobId);
+		if (!job) {
+			return errorResponse('Not Found', `Export job ${jobId} not found`, 404);
+		}
+		if (isExportJobIdle(job)) {
+			ctx.waitUntil(runExportJob(env, job));
+		}
+		return successResponse(await exportJobStatus(job));
+	} catch (error) {
+		log('error', 'Export job status lookup failed', {
+			jobId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read export job', 500);
+	}
+}
+
+/**
+ * GET /api/v1/export/:jobId/download
+ * Stream a finished export from R2; needs the signed URL from the job status
+ */
+export async function downloadExport(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const disabled = await checkDataExport(env);
+	if (disabled) {
+		return disabled;
+	}
+	const unavailable = requireBinding(env, 'METADATA_STORE', 'DATA_EXPORTS');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const jobId = params?.jobId || '';
+	const url = new URL(request.url);
+	try {
+		const job = await getExportJob(env, jobId);
+		if (!job || job.status !== 'complete') {
+			return errorResponse('Not Found', `Export job ${jobId} has no finished download`, 404);
+		}
+		const valid = await verifyExportDownload(
+			job,
+			url.searchParams.get('expires') || undefined,
+			url.searchParams.get('signature') || undefined
+		);
+		if (!valid) {
+			return errorResponse('Forbidden', 'Download link is invalid or has expired', 403, {
+				status_url: `/api/v1/export/${job.id}`,
+			});
+		}
+
+		const object = await env.DATA_EXPORTS!.get(job.objectKey);
+		if (!object) {
+			return errorResponse('Not Found', `Export file for job ${jobId} is no longer stored`, 404);
+		}
+		return textResponse(
+			object.body,
+			object.httpMetadata?.contentType || 'application/octet-stream',
+			200,
+			{
+				'Content-Disposition': `attachment; filename="${job.objectKey.split('/').pop()}"`,
+				'Content-Length': String(object.size),
+			}
+		);
+	} catch (error) {
+		log('error', 'Export download failed', {
+			jobId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read export file', 500);
+	}
+}
+
+/**
+ * List published dataset releases, newest first
+ * GET /api/v1/releases
+ */
+export async function getReleases(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const disabled = await checkReleases(env);
+	if (disabled) {
+		return disabled;
+	}
+	const unavailable = requireBinding(env, 'DATA_EXPORTS');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const releases = await listReleases(env);
+		return successResponse({
+			latest: releases[0]?.version ?? null,
+			count: releases.length,
+			releases: releases.map((release) => ({
+				...release,
+				manifest_url: `/api/v1/releases/${release.version}`,
+			})),
+		});
+	} catch (error) {
+		log('error', 'Release listing failed', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to list releases', 500);
+	}
+}
+
+/**
+ * Manifest of one release, or of the newest with version "latest"
+ * GET /api/v1/releases/:version
+ */
+export async function getRelease(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const disabled = await checkReleases(env);
+	if (disabled) {
+		return disabled;
+	}
+	const unavailable = requireBinding(env, 'DATA_EXPORTS');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	let version = params?.version || '';
+	try {
+		if (version === 'latest') {
+			version = (await listReleases(env))[0]?.version ?? '';
+		}
+		const manifest = version ? await getReleaseManifest(env, version) : null;
+		if (!manifest) {
+			return errorResponse('Not Found', `Release ${params?.version} is not published`, 404);
+		}
+		return successResponse({
+			...manifest,
+			files: manifest.files.map((file) => ({
+				...file,
+				url: `/api/v1/releases/${manifest.version}/${file.name}`,
+			})),
+		});
+	} catch (error) {
+		log('error', 'Release lookup failed', {
+			version,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read release', 500);
+	}
+}
+
+/**
+ * Stream one file of a release: its snapshot, patch or manifest
+ * GET /api/v1/releases/:version/:file
+ */
+export async function downloadReleaseFile(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const disabled = await checkReleases(env);
+	if (disabled) {
+		return disabled;
+	}
+	const unavailable = requireBinding(env, 'DATA_EXPORTS');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const version = params?.version || '';
+	const name = params?.file || '';
+	try {
+		const manifest = await getReleaseManifest(env, version);
+		const file = manifest?.files.find((entry) => entry.name === name);
+		if (!manifest || (!file && name !== RELEASE_FILES.manifest.name)) {
+			return errorResponse('Not Found', `Release ${version} has no file ${name}`, 404);
+		}
+
+		const object = await env.DATA_EXPORTS!.get(releaseObjectKey(version, name));
+		if (!object) {
+			return errorResponse('Not Found', `Release ${version} has no file ${name}`, 404);
+		}
+		const headers: Record<string, string> = {
+			'Content-Disposition': `attachment; filename="${name}"`,
+			'Content-Length': String(object.size),
+			'Cache-Control': 'public, max-age=86400, immutable',
+		};
+		if (file) {
+			headers['X-Checksum-Sha256'] = file.sha256;
+		}
+		return textResponse(
+			object.body,
+			object.httpMetadata?.contentType || 'application/octet-stream',
+			200,
+			headers
+		);
+	} catch (error) {
+		log('error', 'Release download failed', {
+			version,
+			name,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read release file', 500);
+	}
+}
+
+/**
+ * Changes since the release a client holds, collapsed to one per callsign
+ * GET /api/v1/changes?since={version}&limit={n}&cursor={cursor}
+ */
+export async function getChanges(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const disabled = await checkReleases(env);
+	if (disabled) {
+		return disabled;
+	}
+	const unavailable = requireBinding(env, 'DATA_EXPORTS');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const params = getQueryParams(new URL(request.url));
+	const since = params.since;
+	if (!since) {
+		return errorResponse('Bad Request', 'since is required: the data version the client holds', 400);
+	}
+	const limit = params.limit !== undefined ? Number(params.limit) : CHANGES_DEFAULT_LIMIT;
+	if (!Number.isInteger(limit) || limit < 1) {
+		return errorResponse('Bad Request', 'limit must be a positive integer', 400);
+	}
+	const cursor = params.cursor ? decodeChangesCursor(params.cursor) : undefined;
+	if (cursor === null) {
+		return errorResponse('Bad Request', 'Invalid cursor', 400);
+	}
+
+	try {
+		const changes = await getChangesSince(env, since, { cursor, limit: Math.min(limit, CHANGES_MAX_LIMIT) });
+		if (changes.resync) {
+			return errorResponse('Resync Required', changes.reason, 410, {
+				resync_required: true,
+				version: changes.version,
+				snapshot_url: changes.version ? `/api/v1/releases/${changes.version}` : undefined,
+			});
+		}
+		return successResponse({
+			since,
+			version: changes.version,
+			up_to_date: changes.releases.length === 0,
+			releases: changes.releases,
+			upserts: changes.upserts,
+			deletes: changes.deletes,
+			next_cursor: changes.nextCursor,
+		});
+	} catch (error) {
+		log('error', 'Changes feed failed', {
+			since,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read changes', 500);
+	}
+}
+
+/**
+ * Download the compact offline callsign index, revalidated with ETag
+ * GET /api/v1/offline-index
+ */
+export async function getOfflineIndex(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const unavailable = requireBinding(env, 'DATA_EXPORTS');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const info = await getOfflineIndexInfo(env);
+		if (!info) {
+			return errorResponse('Not Found', 'No offline index has been published yet', 404);
+		}
+
+		const etag = `"${info.sha256}"`;
+		const headers = {
+			ETag: etag,
+			'Cache-Control': 'public, max-age=3600',
+			'X-Data-Version': info.version,
+		};
+		const ifNoneMatch = request.headers.get('If-None-Match');
+		if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)) {
+			return new Response(null, { status: 304, headers: { ...headers, 'Access-Control-Allow-Origin': '*' } });
+		}
+
+		const object = await env.DATA_EXPORTS!.get(info.key);
+		if (!object) {
+			return errorResponse('Not Found', `Offline index ${info.version} is no longer stored`, 404);
+		}
+		return textResponse(object.body, 'application/octet-stream', 200, {
+			...headers,
+			'Content-Length': String(object.size),
+			'Content-Disposition': `attachment; filename="${info.key.split('/').pop()}"`,
+		});
+	} catch (error) {
+		log('error', 'Offline index download failed', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read offline index', 500);
+	}
+}
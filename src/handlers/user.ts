@@ -2,12 +2,124 @@
  * User-facing API endpoints
  */
 
-import type { Env, CallsignData } from '../types';
-import { successResponse, errorResponse, getQueryParams, isValidCallsign, log } from '../utils';
+import type {
+	Env,
+	CallsignData,
+	LicenseeIdentifier,
+	ParsedCallsign,
+	PrefixMatch,
+	SearchResult,
+	SequentialEntry,
+} from '../types';
+import { successResponse, errorResponse, getQueryParams, log, requireBinding, textResponse } from '../utils';
+import {
+	getCallsignRecord,
+	getCallsignRecords,
+	getLatestSnapshot,
+	mapRecordToCallsignData,
+	OPERATOR_CLASS_NAMES,
+} from '../engine/database';
+import {
+	SEARCH_MAX_LIMIT,
+	decodeSearchCursor,
+	parseSearchParams,
+	resolveCode,
+	searchCallsignRecords,
+} from '../engine/search';
+import { buildExpiringCalendar, daysUntil, parseExpiringParams } from '../engine/expiring';
+import {
+	PARTIAL_DEFAULT_LIMIT,
+	PARTIAL_MAX_LIMIT,
+	findPartialMatches,
+	parsePartialQuery,
+} from '../engine/partial';
+import { NEARBY_MAX_CANDIDATE_PAGES, isInNearbyArea, parseNearbyArea } from '../engine/nearby';
+import {
+	VANITY_DEFAULT_LIMIT,
+	VANITY_MAX_LIMIT,
+	checkVanityCandidates,
+	parseVanityPattern,
+} from '../engine/vanity';
+import {
+	findSequentialEntry,
+	getSequentialTracker,
+	projectSequentialCallsign,
+	sequentialRate,
+} from '../engine/sequential';
+import { buildCallsignHistory } from '../engine/history';
+import { suggestCallsigns } from '../engine/suggest';
+import { getTrusteeClubs, trusteeStanding } from '../engine/clubs';
+import { buildLicenseeProfile, normalizeLicenseeIdentifier } from '../engine/licensee';
+import { NON_DXCC_MODIFIERS, getPrefixTable, resolvePrefix } from '../engine/dxcc';
+import type { CompiledPrefixTable } from '../engine/dxcc';
+import {
+	formatGrid,
+	greatCirclePath,
+	gridToLatLon,
+	isValidGrid,
+	latLonToGrid,
+	round,
+} from '../engine/grid';
+import { loadConfig } from '../config';
+import { parseCallsign } from '../callsign';
+
+/**
+ * Parse the :callsign route parameter into its base license and decorations
+ * Portable forms arrive URL-encoded (W1AW%2FP) because the router splits on '/'.
+ */
+function parseCallsignParam(params?: Record<string, string>): ParsedCallsign | Response {
+	if (!params?.callsign) {
+		return errorResponse('Bad Request', 'Callsign parameter is required', 400);
+	}
+
+	let input: string;
+	try {
+		input = decodeURIComponent(params.callsign);
+	} catch {
+		input = params.callsign;
+	}
+
+	const { callsign, error } = parseCallsign(input);
+	if (!callsign) {
+		return errorResponse('Bad Request', 'Invalid callsign format', 400, {
+			callsign: input.toUpperCase(),
+			reason: error,
+		});
+	}
+	return callsign;
+}
+
+/**
+ * Echo the parsed callsign when the input was more than a bare license callsign
+ */
+function withParsedCallsign<T extends object>(
+	data: T,
+	parsed: ParsedCallsign | undefined
+): T | (T & { parsed: ParsedCallsign }) {
+	return parsed && parsed.input !== parsed.base ? { ...data, parsed } : data;
+}
+
+/**
+ * Public shape of a DXCC prefix match
+ */
+function toDxccEntityData(match: PrefixMatch) {
+	return {
+		dxcc: match.entity.dxcc,
+		name: match.entity.name,
+		continent: match.entity.continent,
+		cq_zone: match.cqZone,
+		itu_zone: match.ituZone,
+		latitude: match.entity.latitude,
+		longitude: match.entity.longitude,
+		matched_prefix: match.matched,
+		exact_match: match.exact,
+	};
+}
 
 /**
  * GET /api/v1/callsign/:callsign
  * Look up a specific callsign
+ * Portable and reciprocal forms (W1AW/P, VE3/W1AW) resolve to the base license.
  */
 export async function getCallsign(
 	_request: Request,
@@ -15,48 +127,572 @@ export async function getCallsign(
 	_ctx: ExecutionContext,
 	params?: Record<string, string>
 ): Promise<Response> {
-	const callsign = params?.callsign?.toUpperCase();
+	const parsed = parseCallsignParam(params);
+	if (parsed instanceof Response) {
+		return parsed;
+	}
+	const callsign = parsed.base;
 
-	if (!callsign) {
-		return errorResponse('Bad Request', 'Callsign parameter is required', 400);
+	log('info', 'Callsign lookup', { callsign });
+
+	// Check if database is available
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
 	}
 
-	if (!isValidCallsign(callsign)) {
-		return errorResponse('Bad Request', 'Invalid callsign format', 400);
+	try {
+		const [stored, snapshot, prefixTable] = await Promise.all([
+			getCallsignRecord(env, callsign),
+			getLatestSnapshot(env),
+			getPrefixTable(env),
+		]);
+		const dataVersion = snapshot?.version;
+
+		if (!stored) {
+			// A failed suggestion lookup should not turn the miss into a 500
+			const suggestions = await suggestCallsigns(env, callsign).catch((error) => {
+				log('warn', 'Callsign suggestions failed', {
+					callsign,
+					error: error instanceof Error ? error.message : String(error),
+				});
+				return [];
+			});
+			return errorResponse(
+				'Not Found',
+				`Callsign ${callsign} not found`,
+				404,
+				withParsedCallsign({ callsign, data_version: dataVersion, suggestions }, parsed)
+			);
+		}
+
+		const data: CallsignData = {
+			...mapRecordToCallsignData(stored),
+			data_version: dataVersion,
+		};
+		// Where the station operates from, which a prefix override can move abroad
+		const entity = resolvePrefix(prefixTable, parsed);
+
+		return successResponse(
+			withParsedCallsign(entity ? { ...data, dxcc_entity: toDxccEntityData(entity) } : data, parsed)
+		);
+	} catch (error) {
+		log('error', 'Callsign lookup failed', {
+			callsign,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse(
+			'Internal Server Error',
+			'Failed to query callsign database',
+			500
+		);
 	}
+}
 
-	// TODO: Query from D1 database when available
-	// For now, return mock data
-	log('info', 'Callsign lookup', { callsign });
+/**
+ * GET /api/v1/callsign/:callsign/history
+ * Callsigns held by the licensee and their class changes, oldest first
+ */
+export async function getCallsignHistory(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const parsed = parseCallsignParam(params);
+	if (parsed instanceof Response) {
+		return parsed;
+	}
+	const callsign = parsed.base;
 
-	// Check if database is available
-	if (!env.CALLSIGN_DB) {
+	log('info', 'Callsign history lookup', { callsign });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const [history, snapshot] = await Promise.all([
+			buildCallsignHistory(env, callsign),
+			getLatestSnapshot(env),
+		]);
+
+		if (!history) {
+			return errorResponse(
+				'Not Found',
+				`No history found for callsign ${callsign}`,
+				404,
+				withParsedCallsign({ callsign, data_version: snapshot?.version }, parsed)
+			);
+		}
+
+		return successResponse(
+			withParsedCallsign(
+				{
+					callsign,
+					callsigns: history.chain,
+					timeline: history.timeline,
+					data_version: snapshot?.version,
+				},
+				parsed
+			)
+		);
+	} catch (error) {
+		log('error', 'Callsign history lookup failed', {
+			callsign,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to build callsign history', 500);
+	}
+}
+
+/**
+ * GET /api/v1/callsign/:callsign/clubs
+ * Club stations the callsign is trustee for
+ */
+export async function getCallsignClubs(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const parsed = parseCallsignParam(params);
+	if (parsed instanceof Response) {
+		return parsed;
+	}
+	const callsign = parsed.base;
+
+	log('info', 'Trustee clubs lookup', { callsign });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const [{ clubs, truncated }, snapshot] = await Promise.all([
+			getTrusteeClubs(env, callsign),
+			getLatestSnapshot(env),
+		]);
+
+		return successResponse(
+			withParsedCallsign(
+				{
+					callsign,
+					count: clubs.length,
+					truncated,
+					clubs: clubs.map(mapRecordToCallsignData),
+					data_version: snapshot?.version,
+				},
+				parsed
+			)
+		);
+	} catch (error) {
+		log('error', 'Trustee clubs lookup failed', {
+			callsign,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/club/:callsign
+ * Club station record with the current record of its trustee
+ */
+export async function getClub(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const parsed = parseCallsignParam(params);
+	if (parsed instanceof Response) {
+		return parsed;
+	}
+	const callsign = parsed.base;
+
+	log('info', 'Club lookup', { callsign });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const [stored, snapshot] = await Promise.all([
+			getCallsignRecord(env, callsign),
+			getLatestSnapshot(env),
+		]);
+		const dataVersion = snapshot?.version;
+
+		if (!stored) {
+			return errorResponse(
+				'Not Found',
+				`Callsign ${callsign} not found`,
+				404,
+				withParsedCallsign({ callsign, data_version: dataVersion }, parsed)
+			);
+		}
+
+		const club = mapRecordToCallsignData(stored);
+		if (!club.trustee_callsign) {
+			return errorResponse(
+				'Not Found',
+				`${callsign} is not a club station`,
+				404,
+				withParsedCallsign({ callsign, data_version: dataVersion }, parsed)
+			);
+		}
+
+		const trustee = await getCallsignRecord(env, club.trustee_callsign);
+
+		return successResponse(
+			withParsedCallsign(
+				{
+					...club,
+					trustee: trustee ? mapRecordToCallsignData(trustee) : null,
+					trustee_standing: trusteeStanding(trustee, new Date().toISOString().substring(0, 10)),
+					data_version: dataVersion,
+				},
+				parsed
+			)
+		);
+	} catch (error) {
+		log('error', 'Club lookup failed', {
+			callsign,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/prefix/:callsign
+ * Resolve any callsign, US or foreign, to its DXCC entity, continent and zones
+ */
+export async function getPrefixInfo(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	const parsed = parseCallsignParam(params);
+	if (parsed instanceof Response) {
+		return parsed;
+	}
+
+	log('info', 'Prefix lookup', { callsign: parsed.input });
+
+	const table = await getPrefixTable(env);
+	const match = resolvePrefix(table, parsed);
+
+	if (!match) {
+		const outside = parsed.modifiers.find((m) => NON_DXCC_MODIFIERS.includes(m));
 		return errorResponse(
-			'Service Unavailable',
-			'Database is not configured. This is a placeholder response.',
-			503,
-			{
-				note: 'The D1 database binding needs to be configured in wrangler.toml',
-			}
+			'Not Found',
+			outside
+				? `/${outside} stations are not in any DXCC entity`
+				: `No DXCC entity matches ${parsed.input}`,
+			404,
+			withParsedCallsign({ callsign: parsed.input, table_version: table.version }, parsed)
 		);
 	}
 
-	// Placeholder response - will be replaced with actual database query
-	const mockData: CallsignData = {
-		callsign: callsign,
-		name: 'John Doe',
-		license_class: 'Extra',
-		state: 'CA',
-		country: 'USA',
-		grid_square: 'CM97',
+	return successResponse(
+		withParsedCallsign(
+			{
+				callsign: parsed.input,
+				entity: toDxccEntityData(match),
+				table_version: table.version,
+			},
+			parsed
+		)
+	);
+}
+
+/**
+ * One end of a path: a grid square or a located callsign
+ */
+interface PathEndpoint {
+	input: string;
+	type: 'grid' | 'callsign';
+	callsign?: string;
+	grid: string;
+	latitude: number;
+	longitude: number;
+	// grid: the locator's centre; zip5/zip3: the licensee's ZIP code (see location_source);
+	// dxcc: the entity's centre
+	source: 'grid' | 'zip5' | 'zip3' | 'dxcc';
+	parsed?: ParsedCallsign;
+}
+
+/**
+ * Locate a path endpoint given as a grid square or a callsign
+ * Grid squares take precedence, so FN31pr is never read as a callsign. Callsigns
+ * are placed by the licensee's ZIP code; foreign calls, prefix overrides and
+ * callsigns without a usable address fall back to the DXCC entity's centre,
+ * and /MM or /AM stations cannot be placed at all.
+ */
+async function locatePathEndpoint(
+	env: Env,
+	name: string,
+	value: string,
+	prefixTable: CompiledPrefixTable
+): Promise<PathEndpoint | Response> {
+	const input = value.trim();
+	const centre = isValidGrid(input) ? gridToLatLon(input) : null;
+	if (centre) {
+		return {
+			input,
+			type: 'grid',
+			grid: formatGrid(input),
+			latitude: round(centre.latitude, 4),
+			longitude: round(centre.longitude, 4),
+			source: 'grid',
+		};
+	}
+
+	const { callsign: parsed, error } = parseCallsign(input);
+	if (!parsed) {
+		return errorResponse('Bad Request', `${name} is neither a grid square nor a callsign`, 400, {
+			[name]: input,
+			reason: error,
+		});
+	}
+
+	const endpoint = { input: parsed.input, type: 'callsign' as const, callsign: parsed.base };
+	const parsedDetails = parsed.input !== parsed.base ? { parsed } : {};
+
+	// Prefix overrides and /MM or /AM put the station away from the license address
+	const away = parsed.prefix || parsed.modifiers.some((m) => NON_DXCC_MODIFIERS.includes(m));
+	if (!away) {
+		const unavailable = requireBinding(env, 'CALLSIGN_DB');
+		if (unavailable) {
+			return unavailable;
+		}
+		const stored = await getCallsignRecord(env, parsed.base);
+		const data = stored ? mapRecordToCallsignData(stored) : null;
+		if (data?.location_source && data.grid_square && data.latitude !== undefined && data.longitude !== undefined) {
+			return {
+				...endpoint,
+				grid: data.grid_square,
+				latitude: data.latitude,
+				longitude: data.longitude,
+				source: data.location_source,
+				...parsedDetails,
+			};
+		}
+	}
+
+	const match = resolvePrefix(prefixTable, parsed);
+	if (!match) {
+		return errorResponse('Not Found', `No location known for ${parsed.input}`, 404, {
+			[name]: parsed.input,
+		});
+	}
+	const { latitude, longitude } = match.entity;
+	return {
+		...endpoint,
+		grid: latLonToGrid({ latitude, longitude }, 4),
+		latitude,
+		longitude,
+		source: 'dxcc',
+		...parsedDetails,
 	};
+}
+
+/**
+ * GET /api/v1/path?from=K1ABC&to=W6XYZ
+ * Great-circle distance and short/long path bearings between two callsigns or grid squares
+ */
+export async function getPath(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const params = getQueryParams(new URL(request.url));
+	if (!params.from || !params.to) {
+		return errorResponse('Bad Request', 'Both from and to parameters are required', 400);
+	}
 
-	return successResponse(mockData);
+	log('info', 'Path lookup', { from: params.from, to: params.to });
+
+	try {
+		const prefixTable = await getPrefixTable(env);
+		const from = await locatePathEndpoint(env, 'from', params.from, prefixTable);
+		if (from instanceof Response) {
+			return from;
+		}
+		const to = await locatePathEndpoint(env, 'to', params.to, prefixTable);
+		if (to instanceof Response) {
+			return to;
+		}
+
+		const path = greatCirclePath(from, to);
+
+		return successResponse({
+			from,
+			to,
+			distance_km: path.distanceKm,
+			distance_mi: path.distanceMi,
+			short_path_bearing: path.shortPathBearing,
+			long_path_bearing: path.longPathBearing,
+			long_path_km: path.longPathKm,
+			long_path_mi: path.longPathMi,
+		});
+	} catch (error) {
+		log('error', 'Path lookup failed', {
+			from: params.from,
+			to: params.to,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * Most callsigns accepted by one batch lookup (D1's bound-parameter limit)
+ */
+export const BATCH_MAX_CALLSIGNS = 100;
+
+/**
+ * Read the callsign list from a batch lookup body
+ * Returns null when the body is not {"callsigns": string[]}.
+ */
+async function readBatchCallsigns(request: Request): Promise<string[] | null> {
+	try {
+		const body = (await request.json()) as { callsigns?: unknown };
+		if (!Array.isArray(body.callsigns) || !body.callsigns.every((c) => typeof c === 'string')) {
+			return null;
+		}
+		return Array.from(new Set((body.callsigns as string[]).map((c) => c.trim().toUpperCase())));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Rate limit cost of a batch lookup: one hit per distinct callsign
+ * Malformed or oversized batches cost a single hit; the handler rejects them.
+ */
+export async function getBatchLookupCost(request: Request): Promise<number> {
+	const callsigns = await readBatchCallsigns(request.clone());
+	if (!callsigns || callsigns.length === 0 || callsigns.length > BATCH_MAX_CALLSIGNS) {
+		return 1;
+	}
+	return callsigns.length;
+}
+
+/**
+ * POST /api/v1/callsigns/batch
+ * Look up many callsigns with one database query
+ */
+export async function batchLookupCallsigns(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const callsigns = await readBatchCallsigns(request);
+
+	if (!callsigns) {
+		return errorResponse(
+			'Bad Request',
+			'Request body must be JSON of the form {"callsigns": ["K1ABC", ...]}',
+			400
+		);
+	}
+
+	if (callsigns.length === 0) {
+		return errorResponse('Bad Request', 'At least one callsign is required', 400);
+	}
+
+	if (callsigns.length > BATCH_MAX_CALLSIGNS) {
+		return errorResponse(
+			'Bad Request',
+			`At most ${BATCH_MAX_CALLSIGNS} callsigns can be looked up per batch`,
+			400,
+			{ requested: callsigns.length, max: BATCH_MAX_CALLSIGNS }
+		);
+	}
+
+	// Portable forms (W1AW/P) are looked up by their base license
+	const valid: ParsedCallsign[] = [];
+	const invalid: string[] = [];
+	for (const input of callsigns) {
+		const { callsign } = parseCallsign(input);
+		if (callsign) {
+			valid.push(callsign);
+		} else {
+			invalid.push(input);
+		}
+	}
+	const bases = Array.from(new Set(valid.map((parsed) => parsed.base)));
+
+	log('info', 'Batch callsign lookup', { requested: callsigns.length, invalid: invalid.length });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const [stored, snapshot] = await Promise.all([
+			getCallsignRecords(env, bases),
+			getLatestSnapshot(env),
+		]);
+		const byCallsign = new Map(stored.map((record) => [record.callsign, record]));
+
+		const found: CallsignData[] = [];
+		const missing: string[] = [];
+		for (const parsed of valid) {
+			const record = byCallsign.get(parsed.base);
+			if (record) {
+				found.push(withParsedCallsign(mapRecordToCallsignData(record), parsed));
+			} else {
+				missing.push(parsed.input);
+			}
+		}
+
+		return successResponse({
+			requested: callsigns.length,
+			found_count: found.length,
+			missing_count: missing.length,
+			data_version: snapshot?.version,
+			found,
+			missing,
+			invalid,
+		});
+	} catch (error) {
+		log('error', 'Batch callsign lookup failed', {
+			requested: callsigns.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * Refuse advanced search filters while features.advancedSearch is disabled
+ */
+async function checkAdvancedSearch(env: Env, advancedFilters: string[]): Promise<Response | null> {
+	if (advancedFilters.length === 0) {
+		return null;
+	}
+	const config = await loadConfig(env);
+	if (!config.data.features.advancedSearch) {
+		return errorResponse('Forbidden', 'Advanced search filters are disabled', 403, {
+			filters: advancedFilters,
+		});
+	}
+	return null;
 }
 
 /**
  * GET /api/v1/search
- * Search for callsigns by various criteria
+ * Search callsigns by prefix, wildcard or licensee name with optional filters,
+ * sorting and cursor pagination
  */
 export async function searchCallsigns(
 	request: Request,
@@ -65,85 +701,602 @@ export async function searchCallsigns(
 ): Promise<Response> {
 	const url = new URL(request.url);
 	const params = getQueryParams(url);
-	const query = params.q;
+	const { query, advancedFilters, callsign, error } = parseSearchParams(params);
 
-	if (!query || query.trim().length === 0) {
-		return errorResponse('Bad Request', 'Search query parameter "q" is required', 400);
+	if (!query) {
+		return errorResponse('Bad Request', error || 'Invalid search parameters', 400);
 	}
 
-	// TODO: Implement search logic with D1 database
-	log('info', 'Search query', { query, params });
+	log('info', 'Search query', { params });
 
-	if (!env.CALLSIGN_DB) {
-		return errorResponse(
-			'Service Unavailable',
-			'Database is not configured. This is a placeholder response.',
-			503,
-			{
-				note: 'The D1 database binding needs to be configured in wrangler.toml',
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const forbidden = await checkAdvancedSearch(env, advancedFilters);
+	if (forbidden) {
+		return forbidden;
+	}
+
+	try {
+		const [result, snapshot] = await Promise.all([
+			searchCallsignRecords(env, query),
+			getLatestSnapshot(env),
+		]);
+
+		const page = {
+			query: params.q,
+			sort: query.descending ? `-${query.sort}` : query.sort,
+			count: result.records.length,
+			total_estimate: result.totalEstimate,
+			total_is_exact: result.totalIsExact,
+			next_cursor: result.nextCursor,
+			data_version: snapshot?.version,
+			results: result.records.map((stored) => {
+				const data = mapRecordToCallsignData(stored);
+				const snippet = result.snippets?.[stored.callsign];
+				return snippet ? { ...data, snippet } : data;
+			}),
+		};
+
+		return successResponse(withParsedCallsign(page, callsign));
+	} catch (error) {
+		log('error', 'Search failed', {
+			params,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/nearby
+ * Licensees within a radius of a point or grid square, or inside a grid square,
+ * combined with the search filters, sorting and pagination
+ */
+export async function searchNearby(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const params = getQueryParams(new URL(request.url));
+	const { area, error: areaError } = parseNearbyArea(params);
+	if (!area) {
+		return errorResponse('Bad Request', areaError || 'Invalid nearby parameters', 400);
+	}
+	const { query, advancedFilters, error } = parseSearchParams(params, true);
+	if (!query) {
+		return errorResponse('Bad Request', error || 'Invalid search parameters', 400);
+	}
+
+	log('info', 'Nearby search', { params, zipRanges: area.zipRanges.length });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const forbidden = await checkAdvancedSearch(env, advancedFilters);
+	if (forbidden) {
+		return forbidden;
+	}
+
+	try {
+		// The ZIP ranges are a superset of the area; keep the licensees located inside
+		// it, and read on while candidates outside it leave the page short. A page of
+		// candidates is only as large as the results still wanted, so the cursor of
+		// the last page read continues after the last candidate looked at.
+		const results = [];
+		let first: SearchResult | undefined;
+		let cursor = query.cursor;
+		let nextCursor: string | undefined;
+		let outside = 0;
+		for (let page = 0; page < NEARBY_MAX_CANDIDATE_PAGES && results.length < query.limit; page++) {
+			const result = await searchCallsignRecords(env, {
+				...query,
+				zipRanges: area.zipRanges,
+				cursor,
+				limit: query.limit - results.length,
+			});
+			first ??= result;
+			for (const stored of result.records) {
+				const data = mapRecordToCallsignData(stored);
+				const point =
+					data.latitude !== undefined && data.longitude !== undefined
+						? { latitude: data.latitude, longitude: data.longitude }
+						: null;
+				if (!point || !isInNearbyArea(area, point)) {
+					outside++;
+					continue;
+				}
+				const path = greatCirclePath(area.centre, point);
+				results.push({ ...data, distance_km: path.distanceKm, bearing: path.shortPathBearing });
+			}
+			nextCursor = result.nextCursor;
+			cursor = nextCursor ? decodeSearchCursor(nextCursor)! : undefined;
+			if (!cursor) {
+				break;
 			}
+		}
+		const snapshot = await getLatestSnapshot(env);
+
+		return successResponse({
+			centre: { ...area.centre, grid: latLonToGrid(area.centre) },
+			radius_km: area.radiusKm,
+			grid: area.grid,
+			approximate: true,
+			sort: query.descending ? `-${query.sort}` : query.sort,
+			count: results.length,
+			total_estimate: first!.totalEstimate,
+			// Candidates on later pages may still fall outside the area
+			total_is_exact: first!.totalIsExact && !nextCursor && outside === 0,
+			next_cursor: nextCursor,
+			data_version: snapshot?.version,
+			results,
+		});
+	} catch (error) {
+		log('error', 'Nearby search failed', {
+			params,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/partial?q=1AB
+ * Super Check Partial: callsigns containing a partial callsign, best matches first
+ */
+export async function getPartialMatches(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const params = getQueryParams(new URL(request.url));
+	if (!params.q) {
+		return errorResponse('Bad Request', 'Query parameter "q" is required', 400);
+	}
+	const { query, error } = parsePartialQuery(params.q);
+	if (!query) {
+		return errorResponse('Bad Request', error || 'Invalid partial query', 400);
+	}
+
+	let limit = PARTIAL_DEFAULT_LIMIT;
+	if (params.limit !== undefined) {
+		limit = Number(params.limit);
+		if (!Number.isInteger(limit) || limit < 1) {
+			return errorResponse('Bad Request', 'limit must be a positive integer', 400);
+		}
+		limit = Math.min(limit, PARTIAL_MAX_LIMIT);
+	}
+	const includeInactive = params.inactive === 'true';
+
+	log('info', 'Partial callsign lookup', { q: query.pattern, limit, includeInactive });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const [result, snapshot] = await Promise.all([
+			findPartialMatches(env, query, { limit, includeInactive }),
+			getLatestSnapshot(env),
+		]);
+
+		return successResponse({
+			q: query.pattern,
+			count: result.matches.length,
+			truncated: result.truncated,
+			data_version: snapshot?.version,
+			results: result.matches,
+		});
+	} catch (error) {
+		log('error', 'Partial callsign lookup failed', {
+			q: query.pattern,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/expiring
+ * Active licenses expiring within a window, soonest first, with the search filters
+ */
+export async function getExpiringLicenses(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const params = getQueryParams(new URL(request.url));
+	const today = new Date().toISOString().substring(0, 10);
+	const { query, window, advancedFilters, error } = parseExpiringParams(params, today);
+	if (!query || !window) {
+		return errorResponse('Bad Request', error || 'Invalid expiring parameters', 400);
+	}
+
+	log('info', 'Expiring licenses query', { params, window });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const forbidden = await checkAdvancedSearch(env, advancedFilters);
+	if (forbidden) {
+		return forbidden;
+	}
+
+	try {
+		const [result, snapshot] = await Promise.all([
+			searchCallsignRecords(env, query),
+			getLatestSnapshot(env),
+		]);
+
+		return successResponse({
+			window,
+			sort: query.descending ? `-${query.sort}` : query.sort,
+			count: result.records.length,
+			total_estimate: result.totalEstimate,
+			total_is_exact: result.totalIsExact,
+			next_cursor: result.nextCursor,
+			data_version: snapshot?.version,
+			results: result.records.map((stored) => {
+				const data = mapRecordToCallsignData(stored);
+				return data.expiration_date
+					? { ...data, days_remaining: daysUntil(data.expiration_date, today) }
+					: data;
+			}),
+		});
+	} catch (error) {
+		log('error', 'Expiring licenses query failed', {
+			params,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/expiring.ics
+ * The expiring licenses query as an iCalendar feed for calendar subscriptions
+ * Feeds hold up to limit events (SEARCH_MAX_LIMIT by default). A truncated feed
+ * says so in X-Truncated and the calendar description, and X-Next-Cursor
+ * requests the next page.
+ */
+export async function getExpiringCalendar(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const params = getQueryParams(new URL(request.url));
+	const now = new Date();
+	const { query, advancedFilters, error } = parseExpiringParams(
+		{ limit: String(SEARCH_MAX_LIMIT), ...params },
+		now.toISOString().substring(0, 10)
+	);
+	if (!query) {
+		return errorResponse('Bad Request', error || 'Invalid expiring parameters', 400);
+	}
+
+	log('info', 'Expiring licenses calendar', { params });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	const forbidden = await checkAdvancedSearch(env, advancedFilters);
+	if (forbidden) {
+		return forbidden;
+	}
+
+	try {
+		const result = await searchCallsignRecords(env, query);
+		const headers: Record<string, string> = {
+			'Content-Disposition': 'inline; filename="expiring.ics"',
+			'Cache-Control': 'public, max-age=3600',
+		};
+		let description: string | undefined;
+		if (result.nextCursor) {
+			description = `Only the first ${result.records.length} expiring licenses are included; narrow the query or request the next page with cursor=${result.nextCursor}`;
+			headers['X-Truncated'] = 'true';
+			headers['X-Next-Cursor'] = result.nextCursor;
+			headers['Access-Control-Expose-Headers'] = 'X-Truncated, X-Next-Cursor';
+		}
+		return textResponse(
+			buildExpiringCalendar(result.records, now, undefined, description),
+			'text/calendar; charset=utf-8',
+			200,
+			headers
 		);
+	} catch (error) {
+		log('error', 'Expiring licenses calendar failed', {
+			params,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/vanity/available?pattern=K?1??
+ * Vanity callsigns matching a pattern, each available, in its grace period or held
+ */
+export async function getVanityAvailability(
+	request: Request,
+	env: Env,
+	_ctx: ExecutionContext
+): Promise<Response> {
+	const params = getQueryParams(new URL(request.url));
+	if (!params.pattern) {
+		return errorResponse('Bad Request', 'Query parameter "pattern" is required', 400);
 	}
 
-	// Placeholder response
-	const results: CallsignData[] = [
-		{
-			callsign: 'K1ABC',
-			name: 'Alice Smith',
-			license_class: 'General',
-			state: 'MA',
-		},
-		{
-			callsign: 'W2XYZ',
-			name: 'Bob Johnson',
-			license_class: 'Extra',
-			state: 'NY',
-		},
-	];
+	let operatorClass: string | undefined;
+	if (params.class) {
+		const code = resolveCode(params.class.trim().toUpperCase(), OPERATOR_CLASS_NAMES);
+		if (!code) {
+			return errorResponse('Bad Request', `Unknown license class: ${params.class}`, 400);
+		}
+		operatorClass = code;
+	}
+
+	const status = params.status?.toLowerCase();
+	if (status && !['available', 'grace', 'held'].includes(status)) {
+		return errorResponse('Bad Request', 'status must be available, grace or held', 400);
+	}
+
+	const limit = params.limit !== undefined ? Number(params.limit) : VANITY_DEFAULT_LIMIT;
+	const offset = params.cursor !== undefined ? Number(params.cursor) : 0;
+	if (!Number.isInteger(limit) || limit < 1) {
+		return errorResponse('Bad Request', 'limit must be a positive integer', 400);
+	}
+	if (!Number.isInteger(offset) || offset < 0) {
+		return errorResponse('Bad Request', 'Invalid cursor', 400);
+	}
+
+	const { pattern, error } = parseVanityPattern(params.pattern, operatorClass);
+	if (!pattern) {
+		return errorResponse('Bad Request', error || 'Invalid pattern', 400);
+	}
+
+	log('info', 'Vanity availability check', { pattern: pattern.pattern, offset, total: pattern.total });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
 
-	return successResponse({
-		query,
-		count: results.length,
-		results,
-	});
+	try {
+		const [result, snapshot] = await Promise.all([
+			checkVanityCandidates(env, pattern, {
+				offset,
+				limit: Math.min(limit, VANITY_MAX_LIMIT),
+				status: status as 'available' | 'grace' | 'held' | undefined,
+				today: new Date().toISOString().substring(0, 10),
+			}),
+			getLatestSnapshot(env),
+		]);
+
+		return successResponse({
+			pattern: pattern.pattern,
+			class: operatorClass,
+			formats: [...new Set(pattern.formats.map((f) => f.rule.format))],
+			total_candidates: pattern.total,
+			checked: result.checked,
+			count: result.results.length,
+			next_cursor: result.nextOffset !== undefined ? String(result.nextOffset) : undefined,
+			data_version: snapshot?.version,
+			results: result.results,
+		});
+	} catch (error) {
+		log('error', 'Vanity availability check failed', {
+			pattern: pattern.pattern,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
 }
 
 /**
- * GET /api/v1/export
- * Export database in various formats
+ * Largest projection window of /api/v1/sequential, in days
+ */
+export const SEQUENTIAL_MAX_PROJECTION_DAYS = 90;
+
+/**
+ * Public shape of a tracked district and group
  */
-export async function exportDatabase(
+function toSequentialEntryData(entry: SequentialEntry) {
+	const rate = sequentialRate(entry);
+	return {
+		district: entry.district,
+		group: entry.group,
+		format: entry.format,
+		latest_callsign: entry.latest.callsign,
+		latest_issued_at: entry.latest.timestamp,
+		rate_per_day: rate === null ? null : Math.round(rate * 10) / 10,
+		observations: entry.history.length,
+	};
+}
+
+/**
+ * GET /api/v1/sequential
+ * Latest sequential callsign and issuing rate per call district and group,
+ * with a projection for a new licensee when class and district are given
+ */
+export async function getSequentialProgress(
 	request: Request,
 	env: Env,
 	_ctx: ExecutionContext
 ): Promise<Response> {
-	const url = new URL(request.url);
-	const format = url.searchParams.get('format') || 'json';
+	const params = getQueryParams(new URL(request.url));
 
-	// Validate format
-	if (!['json', 'csv'].includes(format)) {
-		return errorResponse('Bad Request', 'Invalid format. Supported formats: json, csv', 400);
+	const district = params.district?.trim();
+	if (district !== undefined && !/^[0-9]$/.test(district)) {
+		return errorResponse('Bad Request', 'District must be a single digit (0-9)', 400);
 	}
 
-	log('info', 'Database export requested', { format });
+	let operatorClass: string | undefined;
+	if (params.class) {
+		const code = resolveCode(params.class.trim().toUpperCase(), OPERATOR_CLASS_NAMES);
+		if (!code) {
+			return errorResponse('Bad Request', `Unknown license class: ${params.class}`, 400);
+		}
+		if (district === undefined) {
+			return errorResponse('Bad Request', 'A projection needs both "class" and "district"', 400);
+		}
+		operatorClass = code;
+	}
 
-	// TODO: Implement actual export with R2 storage
-	if (!env.DATA_EXPORTS) {
+	const days = params.days !== undefined ? Number(params.days) : 7;
+	if (!Number.isInteger(days) || days < 1 || days > SEQUENTIAL_MAX_PROJECTION_DAYS) {
 		return errorResponse(
-			'Service Unavailable',
-			'Export storage is not configured. This is a placeholder response.',
-			503,
-			{
-				note: 'The R2 bucket binding needs to be configured in wrangler.toml',
-			}
+			'Bad Request',
+			`days must be a whole number from 1 to ${SEQUENTIAL_MAX_PROJECTION_DAYS}`,
+			400
 		);
 	}
 
-	// Placeholder response
-	return successResponse({
-		message: 'Export functionality will generate a downloadable file',
-		format,
-		status: 'pending',
-		note: 'This is a placeholder. Full implementation requires R2 bucket configuration.',
-	});
+	try {
+		const tracker = await getSequentialTracker(env);
+		const entries = Object.values(tracker?.entries || {})
+			.filter((entry) => district === undefined || entry.district === district)
+			.sort((a, b) => a.district.localeCompare(b.district) || a.group.localeCompare(b.group));
+
+		let projection;
+		if (operatorClass && district !== undefined) {
+			const now = new Date();
+			const entry = tracker ? findSequentialEntry(tracker, district, operatorClass, now) : null;
+			if (!entry) {
+				return errorResponse(
+					'Not Found',
+					`No recent sequential issues tracked for that class in district ${district}`,
+					404,
+					{ class: operatorClass, district }
+				);
+			}
+			const at = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+			projection = {
+				class: operatorClass,
+				district,
+				group: entry.group,
+				days,
+				date: at.toISOString().substring(0, 10),
+				// Null until the tracker has seen issues on two different days
+				projected_callsign: projectSequentialCallsign(entry, at),
+				latest_callsign: entry.latest.callsign,
+			};
+		}
+
+		return successResponse({
+			updated_at: tracker?.updatedAt,
+			entries: entries.map(toSequentialEntryData),
+			projection,
+		});
+	} catch (error) {
+		log('error', 'Sequential progress lookup failed', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to read sequential callsign progress', 500);
+	}
+}
+
+/**
+ * Route parameter and description of each licensee identifier
+ */
+const LICENSEE_IDENTIFIER_PARAMS: Record<LicenseeIdentifier, { param: string; label: string }> = {
+	frn: { param: 'frn', label: 'FRN' },
+	unique_system_identifier: { param: 'usi', label: 'Unique system identifier' },
+	uls_file_number: { param: 'fileNumber', label: 'ULS file number' },
+};
+
+/**
+ * Look up the licensee profile behind one identifier route parameter
+ */
+async function lookupLicensee(
+	env: Env,
+	type: LicenseeIdentifier,
+	params?: Record<string, string>
+): Promise<Response> {
+	const { param, label } = LICENSEE_IDENTIFIER_PARAMS[type];
+	const value = params?.[param] ? normalizeLicenseeIdentifier(type, params[param]) : null;
+	if (!value) {
+		return errorResponse('Bad Request', `${label} must be 1 to 10 digits`, 400);
+	}
+
+	log('info', 'Licensee lookup', { type, value });
+
+	const unavailable = requireBinding(env, 'CALLSIGN_DB');
+	if (unavailable) {
+		return unavailable;
+	}
+
+	try {
+		const [profile, snapshot] = await Promise.all([
+			buildLicenseeProfile(env, type, value),
+			getLatestSnapshot(env),
+		]);
+
+		if (!profile) {
+			return errorResponse('Not Found', `No licensee found for ${label} ${value}`, 404, {
+				[type]: value,
+				data_version: snapshot?.version,
+			});
+		}
+
+		return successResponse({
+			matched_by: { type, value },
+			...profile,
+			data_version: snapshot?.version,
+		});
+	} catch (error) {
+		log('error', 'Licensee lookup failed', {
+			type,
+			value,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return errorResponse('Internal Server Error', 'Failed to query callsign database', 500);
+	}
+}
+
+/**
+ * GET /api/v1/licensee/frn/:frn
+ * Every callsign held by the entity with an FCC Registration Number
+ */
+export async function getLicenseeByFrn(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	return lookupLicensee(env, 'frn', params);
+}
+
+/**
+ * GET /api/v1/licensee/usi/:usi
+ * Profile of the entity holding the license with a ULS unique system identifier
+ */
+export async function getLicenseeByUsi(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	return lookupLicensee(env, 'unique_system_identifier', params);
+}
+
+/**
+ * GET /api/v1/licensee/file/:fileNumber
+ * Profile of the entity holding the license with a ULS file number
+ */
+export async function getLicenseeByFileNumber(
+	_request: Request,
+	env: Env,
+	_ctx: ExecutionContext,
+	params?: Record<string, string>
+): Promise<Response> {
+	return lookupLicensee(env, 'uls_file_number', params);
 }
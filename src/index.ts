@@ -10,8 +10,10 @@ import { Router } from './router';
 import { withRateLimit, withAuth, withLogging, withErrorHandling, compose } from './middleware';
 import { jsonResponse, errorResponse } from './utils';
 import * as userHandlers from './handlers/user';
+import * as dataHandlers from './handlers/data';
 import * as adminHandlers from './handlers/admin';
 import * as configHandlers from './handlers/config';
+import { resumeExportJobs } from './engine/export';
 
 // Export types for external use
 export type { Env } from './types';
@@ -60,8 +62,37 @@ function createRouter(): Router {
 	);
 
 	router.get('/api/v1/callsign/:callsign', userMiddleware(userHandlers.getCallsign));
+	router.get('/api/v1/callsign/:callsign/history', userMiddleware(userHandlers.getCallsignHistory));
+	router.get('/api/v1/callsign/:callsign/clubs', userMiddleware(userHandlers.getCallsignClubs));
+	router.get('/api/v1/club/:callsign', userMiddleware(userHandlers.getClub));
+	router.get('/api/v1/prefix/:callsign', userMiddleware(userHandlers.getPrefixInfo));
+	router.get('/api/v1/path', userMiddleware(userHandlers.getPath));
+	router.get('/api/v1/licensee/frn/:frn', userMiddleware(userHandlers.getLicenseeByFrn));
+	router.get('/api/v1/licensee/usi/:usi', userMiddleware(userHandlers.getLicenseeByUsi));
+	router.get('/api/v1/licensee/file/:fileNumber', userMiddleware(userHandlers.getLicenseeByFileNumber));
 	router.get('/api/v1/search', userMiddleware(userHandlers.searchCallsigns));
-	router.get('/api/v1/export', userMiddleware(userHandlers.exportDatabase));
+	router.get('/api/v1/partial', userMiddleware(userHandlers.getPartialMatches));
+	router.get('/api/v1/nearby', userMiddleware(userHandlers.searchNearby));
+	router.get('/api/v1/expiring', userMiddleware(userHandlers.getExpiringLicenses));
+	router.get('/api/v1/expiring.ics', userMiddleware(userHandlers.getExpiringCalendar));
+	router.get('/api/v1/vanity/available', userMiddleware(userHandlers.getVanityAvailability));
+	router.get('/api/v1/sequential', userMiddleware(userHandlers.getSequentialProgress));
+	router.get('/api/v1/export', userMiddleware(dataHandlers.exportDatabase));
+	router.get('/api/v1/export/:jobId', userMiddleware(dataHandlers.getExportJobStatus));
+	router.get('/api/v1/export/:jobId/download', userMiddleware(dataHandlers.downloadExport));
+	router.get('/api/v1/releases', userMiddleware(dataHandlers.getReleases));
+	router.get('/api/v1/releases/:version', userMiddleware(dataHandlers.getRelease));
+	router.get('/api/v1/releases/:version/:file', userMiddleware(dataHandlers.downloadReleaseFile));
+	router.get('/api/v1/changes', userMiddleware(dataHandlers.getChanges));
+	router.get('/api/v1/offline-index', userMiddleware(dataHandlers.getOfflineIndex));
+
+	// Batch lookups share the user budget but cost one hit per callsign
+	const batchMiddleware = compose(
+		withErrorHandling,
+		withLogging,
+		(handler) => withRateLimit(handler, 100, 60000, userHandlers.getBatchLookupCost)
+	);
+	router.post('/api/v1/callsigns/batch', batchMiddleware(userHandlers.batchLookupCallsigns));
 
 	// Configuration endpoints (no auth required for health and version)
 	router.get('/api/v1/config/health', userMiddleware(configHandlers.getHealth));
@@ -88,6 +119,7 @@ function createRouter(): Router {
 	router.get('/admin/stats', adminMiddleware(adminHandlers.getStats));
 	router.get('/admin/status', adminMiddleware(adminHandlers.getStatus));
 	router.get('/admin/diffs', adminMiddleware(adminHandlers.getDiffHistory));
+	router.get('/admin/reports/club-trustees', adminMiddleware(adminHandlers.getClubTrustees));
 
 	// Admin configuration endpoints
 	router.post('/admin/config/refresh', adminMiddleware(configHandlers.refresh));
@@ -120,4 +152,11 @@ export default {
 
 		return response;
 	},
+
+	/**
+	 * Cron trigger: continue export jobs that outlived the request that started them
+	 */
+	async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		ctx.waitUntil(resumeExportJobs(env));
+	},
 };
@@ -21,24 +21,27 @@ import { errorResponse, getClientIp, extractApiKey, log } from './utils';
 class RateLimiter {
 	private requests: Map<string, { count: number; resetTime: number }> = new Map();
 
-	isRateLimited(key: string, limit: number, windowMs: number): boolean {
+	isRateLimited(key: string, limit: number, windowMs: number, cost = 1): boolean {
 		const now = Date.now();
 		const record = this.requests.get(key);
 
 		if (!record || now > record.resetTime) {
+			if (cost > limit) {
+				return true;
+			}
 			// New window
 			this.requests.set(key, {
-				count: 1,
+				count: cost,
 				resetTime: now + windowMs,
 			});
 			return false;
 		}
 
-		if (record.count >= limit) {
+		if (record.count + cost > limit) {
 			return true;
 		}
 
-		record.count++;
+		record.count += cost;
 		return false;
 	}
 
@@ -58,25 +61,30 @@ const rateLimiter = new RateLimiter();
 
 /**
  * Rate limiting middleware
+ * getCost lets a request count as several hits (e.g. one per callsign in a batch).
  */
 export function withRateLimit(
 	handler: RouteHandler,
 	limit: number,
-	windowMs: number
+	windowMs: number,
+	getCost?: (request: Request) => Promise<number>
 ): RouteHandler {
 	return async (request: Request, env: Env, ctx: ExecutionContext, params?: Record<string, string>) => {
 		const clientIp = getClientIp(request);
 		const key = `rate_limit:${clientIp}`;
+		const cost = getCost ? await getCost(request) : 1;
 
-		if (rateLimiter.isRateLimited(key, limit, windowMs)) {
+		if (rateLimiter.isRateLimited(key, limit, windowMs, cost)) {
 			const info = rateLimiter.getRateLimitInfo(key, limit);
-			log('warn', 'Rate limit exceeded', { clientIp, limit });
+			log('warn', 'Rate limit exceeded', { clientIp, limit, cost });
 			return errorResponse(
 				'Rate Limit Exceeded',
 				`Too many requests. Please try again later.`,
 				429,
 				{
 					limit,
+					cost,
+					remaining: info.remaining,
 					reset: new Date(info.reset).toISOString(),
 				}
 			);
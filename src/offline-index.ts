@@ -0,0 +1,291 @@
+/**
+ * Compact offline callsign index
+ *
+ * Answers "does this callsign exist, and what class, status and state?"
+ * without a network connection. Callsigns are stored sorted and
+ * prefix-compressed in blocks; the first callsign of each block is stored in
+ * full, so a lookup binary-searches the blocks and scans one of them.
+ *
+ * Layout (integers little-endian):
+ *   header: magic "HCX1", block size u16, data version length u8, data version (ASCII)
+ *   blocks
+ *   trailer: state codes (2 ASCII bytes each), block offsets u32 (block count + 1,
+ *   relative to the first block), state count u8, record count u32
+ * Each record is one byte of shared-prefix length (high nibble) and suffix
+ * length (low nibble), the suffix, a byte of operator class (bits 0-2) and
+ * license status (bits 3-5), and a byte of state index (0 when unknown).
+ * Everything only known once all records are in sits in the trailer, so the
+ * file can be written front to back while the records are read.
+ *
+ * This module has no imports so PWAs can bundle it as the decoder.
+ */
+
+/**
+ * File signature and format version
+ */
+export const OFFLINE_INDEX_MAGIC = 'HCX1';
+
+/**
+ * Records per block: larger blocks compress better, smaller ones scan faster
+ */
+export const OFFLINE_INDEX_BLOCK_SIZE = 64;
+
+/**
+ * Operator class codes by their stored number
+ */
+const CLASS_CODES = ['', 'N', 'T', 'P', 'G', 'A', 'E'];
+
+/**
+ * License status codes by their stored number
+ */
+const STATUS_CODES = ['', 'A', 'E', 'C', 'T'];
+
+/**
+ * Longest callsign a record can hold (the suffix length is a nibble)
+ */
+const MAX_CALLSIGN_LENGTH = 15;
+
+/**
+ * Record of the offline index; codes are the FCC ULS ones
+ */
+export interface OfflineIndexEntry {
+	callsign: string;
+	// Operator class code: N, T, P, G, A or E
+	operatorClass?: string;
+	// License status code: A, E, C or T
+	licenseStatus?: string;
+	// Two-letter state or territory
+	state?: string;
+}
+
+/**
+ * Decoded index with lookups over it
+ */
+export interface OfflineIndex {
+	version: string;
+	count: number;
+	// Entry of a callsign, or null if it is not licensed
+	lookup(callsign: string): OfflineIndexEntry | null;
+	// Entries whose callsign starts with the prefix, in callsign order
+	prefix(prefix: string, limit?: number): OfflineIndexEntry[];
+}
+
+/**
+ * Encoder fed entries in batches: write header, then each encode() result, then finish()
+ * Entries must be sorted by callsign and unique across batches.
+ */
+export function createOfflineIndexEncoder(version: string, blockSize = OFFLINE_INDEX_BLOCK_SIZE) {
+	const versionBytes = new TextEncoder().encode(version);
+	if (versionBytes.length > 255) {
+		throw new Error('Data version too long for the offline index');
+	}
+	const header = new Uint8Array(7 + versionBytes.length);
+	header.set(new TextEncoder().encode(OFFLINE_INDEX_MAGIC), 0);
+	new DataView(header.buffer).setUint16(4, blockSize, true);
+	header[6] = versionBytes.length;
+	header.set(versionBytes, 7);
+
+	// States are numbered as they first appear; 0 means unknown
+	const states: string[] = [];
+	const stateIndexes = new Map<string, number>();
+	const offsets: number[] = [];
+	let written = 0;
+	let count = 0;
+	let previous = '';
+
+	return {
+		header,
+		encode(entries: OfflineIndexEntry[]): Uint8Array {
+			const data: number[] = [];
+			for (const entry of entries) {
+				const callsign = entry.callsign;
+				if (callsign.length === 0 || callsign.length > MAX_CALLSIGN_LENGTH || !/^[A-Z0-9]+$/.test(callsign)) {
+					throw new Error(`Invalid callsign for the offline index: ${callsign}`);
+				}
+				if (count > 0 && callsign <= previous) {
+					throw new Error(`Offline index entries are not sorted at ${callsign}`);
+				}
+
+				let shared = 0;
+				if (count % blockSize === 0) {
+					offsets.push(written + data.length);
+				} else {
+					while (shared < previous.length && shared < callsign.length - 1 && previous[shared] === callsign[shared]) {
+						shared++;
+					}
+				}
+				const suffix = callsign.slice(shared);
+				data.push((shared << 4) | suffix.length);
+				for (let c = 0; c < suffix.length; c++) {
+					data.push(suffix.charCodeAt(c));
+				}
+				const classCode = Math.max(CLASS_CODES.indexOf(entry.operatorClass || ''), 0);
+				const statusCode = Math.max(STATUS_CODES.indexOf(entry.licenseStatus || ''), 0);
+				data.push(classCode | (statusCode << 3));
+
+				let stateIndex = 0;
+				if (entry.state && /^[A-Z]{2}$/.test(entry.state)) {
+					stateIndex = stateIndexes.get(entry.state) ?? 0;
+					if (!stateIndex) {
+						if (states.length === 255) {
+							throw new Error('Too many states for the offline index');
+						}
+						states.push(entry.state);
+						stateIndex = states.length;
+						stateIndexes.set(entry.state, stateIndex);
+					}
+				}
+				data.push(stateIndex);
+				previous = callsign;
+				count++;
+			}
+			written += data.length;
+			return Uint8Array.from(data);
+		},
+		finish(): Uint8Array {
+			const trailer = new Uint8Array(states.length * 2 + (offsets.length + 1) * 4 + 5);
+			const view = new DataView(trailer.buffer);
+			states.forEach((state, i) => {
+				trailer[i * 2] = state.charCodeAt(0);
+				trailer[i * 2 + 1] = state.charCodeAt(1);
+			});
+			[...offsets, written].forEach((offset, i) => view.setUint32(states.length * 2 + i * 4, offset, true));
+			trailer[trailer.length - 5] = states.length;
+			view.setUint32(trailer.length - 4, count, true);
+			return trailer;
+		},
+		count: () => count,
+	};
+}
+
+/**
+ * Encode entries, which must be sorted by callsign and unique
+ */
+export function encodeOfflineIndex(
+	version: string,
+	entries: OfflineIndexEntry[],
+	blockSize = OFFLINE_INDEX_BLOCK_SIZE
+): Uint8Array {
+	const encoder = createOfflineIndexEncoder(version, blockSize);
+	const data = encoder.encode(entries);
+	const trailer = encoder.finish();
+	const bytes = new Uint8Array(encoder.header.length + data.length + trailer.length);
+	bytes.set(encoder.header, 0);
+	bytes.set(data, encoder.header.length);
+	bytes.set(trailer, encoder.header.length + data.length);
+	return bytes;
+}
+
+/**
+ * Open an encoded index; throws if the bytes are not an offline index
+ */
+export function openOfflineIndex(buffer: ArrayBuffer | Uint8Array): OfflineIndex {
+	const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 4)) !== OFFLINE_INDEX_MAGIC) {
+		throw new Error('Not an offline callsign index');
+	}
+
+	const blockSize = view.getUint16(4, true);
+	const versionLength = bytes[6];
+	const version = new TextDecoder().decode(bytes.subarray(7, 7 + versionLength));
+	const dataStart = 7 + versionLength;
+	const count = view.getUint32(bytes.length - 4, true);
+	const stateCount = bytes[bytes.length - 5];
+	const blockCount = Math.ceil(count / blockSize);
+	const offsetsStart = bytes.length - 5 - (blockCount + 1) * 4;
+	const statesStart = offsetsStart - stateCount * 2;
+	const states = [''];
+	for (let i = 0; i < stateCount; i++) {
+		states.push(String.fromCharCode(bytes[statesStart + i * 2], bytes[statesStart + i * 2 + 1]));
+	}
+	const blockOffset = (block: number) => dataStart + view.getUint32(offsetsStart + block * 4, true);
+
+	// Decode the records of one block in order until visit returns false
+	const scanBlock = (block: number, visit: (entry: OfflineIndexEntry) => boolean) => {
+		let offset = blockOffset(block);
+		const end = blockOffset(block + 1);
+		let callsign = '';
+		while (offset < end) {
+			const shared = bytes[offset] >> 4;
+			const length = bytes[offset] & 0x0f;
+			callsign = callsign.slice(0, shared) + String.fromCharCode(...bytes.subarray(offset + 1, offset + 1 + length));
+			offset += 1 + length;
+			const flags = bytes[offset];
+			const entry: OfflineIndexEntry = { callsign };
+			const operatorClass = CLASS_CODES[flags & 0x07];
+			const licenseStatus = STATUS_CODES[(flags >> 3) & 0x07];
+			const state = states[bytes[offset + 1]];
+			if (operatorClass) {
+				entry.operatorClass = operatorClass;
+			}
+			if (licenseStatus) {
+				entry.licenseStatus = licenseStatus;
+			}
+			if (state) {
+				entry.state = state;
+			}
+			offset += 2;
+			if (!visit(entry)) {
+				return false;
+			}
+		}
+		return true;
+	};
+
+	// Last block whose first callsign is not after the key
+	const findBlock = (key: string): number => {
+		let low = 0;
+		let high = blockCount - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			const start = blockOffset(mid);
+			const first = String.fromCharCode(...bytes.subarray(start + 1, start + 1 + (bytes[start] & 0x0f)));
+			if (first <= key) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return low;
+	};
+
+	return {
+		version,
+		count,
+		lookup(callsign: string): OfflineIndexEntry | null {
+			const key = callsign.trim().toUpperCase();
+			if (!key || blockCount === 0) {
+				return null;
+			}
+			let found: OfflineIndexEntry | null = null;
+			scanBlock(findBlock(key), (entry) => {
+				if (entry.callsign === key) {
+					found = entry;
+				}
+				return entry.callsign < key;
+			});
+			return found;
+		},
+		prefix(prefix: string, limit = 50): OfflineIndexEntry[] {
+			const key = prefix.trim().toUpperCase();
+			const entries: OfflineIndexEntry[] = [];
+			if (!key || blockCount === 0) {
+				return entries;
+			}
+			for (let block = findBlock(key); block < blockCount; block++) {
+				const more = scanBlock(block, (entry) => {
+					if (entry.callsign.startsWith(key)) {
+						entries.push(entry);
+						return entries.length < limit;
+					}
+					return entry.callsign < key;
+				});
+				if (!more) {
+					break;
+				}
+			}
+			return entries;
+		},
+	};
+}
@@ -13,14 +13,15 @@ import { handleOptions } from './utils';
  */
 function pathToRegex(path: string): { pattern: RegExp; paramNames: string[] } {
 	const paramNames: string[] = [];
-	// Escape forward slashes for use in regex
+	// Escape forward slashes for use in regex, after replacing parameters so
+	// a name never takes in the escaped slash that follows it
 	// Note: Path patterns are hardcoded in the application, not user input
 	const regexPattern = path
-		.replace(/\//g, '\\/')
 		.replace(/:([^/]+)/g, (_match, paramName) => {
 			paramNames.push(paramName);
 			return '([^/]+)';
-		});
+		})
+		.replace(/\//g, '\\/');
 
 	return {
 		pattern: new RegExp(`^${regexPattern}$`),
@@ -42,9 +42,410 @@ export interface CallsignData {
 	state?: string;
 	zip?: string;
 	country?: string;
+	// 4-character square of the ZIP code's location
 	grid_square?: string;
+	// Approximate, derived from the ZIP code together with grid_square
+	latitude?: number;
+	longitude?: number;
+	// Where the location came from: the ZIP code's ZCTA, or its 3-digit prefix
+	location_source?: 'zip5' | 'zip3';
 	expiration_date?: string;
-	[key: string]: string | undefined;
+	operator_class?: string;
+	previous_callsign?: string;
+	previous_license_class?: string;
+	trustee_callsign?: string;
+	trustee_name?: string;
+	frn?: string;
+	license_status?: string;
+	grant_date?: string;
+	cancellation_date?: string;
+	last_updated?: string;
+	data_version?: string;
+	[key: string]: string | number | undefined;
+}
+
+/**
+ * Callsign split into the license callsign and its operating decorations
+ */
+export interface ParsedCallsign {
+	// Input as given, upper-cased
+	input: string;
+	// Callsign of the license the input resolves to
+	base: string;
+	// Prefix the station operates under (VE3 in VE3/W1AW, KH6 in KH6/K1ABC/M)
+	prefix?: string;
+	// Call district the station operates from (4 in W1AW/4)
+	district?: string;
+	// Operating suffixes in input order: P, M, MM, AM, QRP
+	modifiers: string[];
+}
+
+/**
+ * DXCC entity and the prefixes that map to it
+ */
+export interface DxccEntity {
+	// ARRL DXCC entity number
+	dxcc: number;
+	name: string;
+	// AF, AN, AS, EU, NA, OC or SA
+	continent: string;
+	cqZone: number;
+	ituZone: number;
+	// Approximate centre of the entity (degrees, east and north positive)
+	latitude: number;
+	longitude: number;
+	// cty.dat-style entries: "VE3", "VE3(4)[4]" with CQ/ITU zone overrides,
+	// or "=4U1UN" for a single callsign that is an exception to the prefix rules
+	prefixes: string[];
+	// CQ/ITU zones by call-area digit, for entities whose prefixes do not pin the zone down
+	callAreaZones?: Record<string, { cqZone: number; ituZone: number }>;
+}
+
+/**
+ * Prefix table used to resolve callsigns to DXCC entities
+ */
+export interface PrefixTable {
+	version: string;
+	entities: DxccEntity[];
+}
+
+/**
+ * Result of resolving a callsign against the prefix table
+ */
+export interface PrefixMatch {
+	// Prefix, or full callsign for exceptions, that matched
+	matched: string;
+	exact: boolean;
+	entity: DxccEntity;
+	cqZone: number;
+	ituZone: number;
+}
+
+/**
+ * Callsign row as stored in the D1 callsigns table
+ */
+export interface StoredCallsignRecord {
+	callsign: string;
+	record: Record<string, string | undefined>;
+	updatedAt: string;
+}
+
+/**
+ * Columns /api/v1/search can sort on
+ */
+export type SearchSortField = 'callsign' | 'state' | 'class' | 'expires' | 'relevance';
+
+/**
+ * Position after the last row of a search page
+ */
+export interface SearchCursor {
+	sort: string;
+	value: string;
+	callsign: string;
+}
+
+/**
+ * Parsed /api/v1/search request
+ */
+export interface SearchQuery {
+	// GLOB pattern matched against the callsign (prefix queries end in *)
+	callsignPattern?: string;
+	// FTS5 MATCH expression over licensee name and address
+	text?: string;
+	states?: string[];
+	operatorClasses?: string[];
+	licenseStatuses?: string[];
+	district?: string;
+	expiresAfter?: string;
+	expiresBefore?: string;
+	trustee?: string;
+	// Inclusive ranges of 5-digit ZIP codes, set by /api/v1/nearby
+	zipRanges?: Array<[string, string]>;
+	// Exact callsigns, set by /api/v1/expiring
+	callsigns?: string[];
+	sort: SearchSortField;
+	descending: boolean;
+	limit: number;
+	cursor?: SearchCursor;
+}
+
+/**
+ * One page of search results
+ */
+export interface SearchResult {
+	records: StoredCallsignRecord[];
+	// Highlighted name/address excerpt per callsign for full-text searches
+	snippets?: Record<string, string>;
+	nextCursor?: string;
+	// Number of matching records, capped at SEARCH_COUNT_CAP
+	totalEstimate: number;
+	totalIsExact: boolean;
+}
+
+/**
+ * A callsign held by the licensee in a history chain
+ */
+export interface CallsignHistoryEntry {
+	callsign: string;
+	// False when the callsign is gone from the database or now belongs to someone else
+	on_file: boolean;
+	license_class?: string;
+	license_status?: string;
+	grant_date?: string;
+	expiration_date?: string;
+	cancellation_date?: string;
+}
+
+/**
+ * One dated change in a callsign history timeline
+ */
+export interface CallsignHistoryEvent {
+	type: 'granted' | 'callsign_change' | 'class_change' | 'status_change' | 'added' | 'modified' | 'deleted';
+	callsign: string;
+	// YYYY-MM-DD from the record, or the timestamp of the diff that saw the change
+	date?: string;
+	from?: string;
+	to?: string;
+	// Why the callsign changed, from the AM change flags
+	reason?: 'vanity' | 'systematic';
+	source: 'record' | 'diff';
+	data_version?: string;
+}
+
+/**
+ * Callsigns held by one licensee and the changes seen to them
+ */
+export interface CallsignHistory {
+	callsign: string;
+	// Oldest callsign first
+	chain: CallsignHistoryEntry[];
+	timeline: CallsignHistoryEvent[];
+}
+
+/**
+ * FCC vanity callsign formats (prefix letters x suffix letters)
+ */
+export type VanityFormat = '1x2' | '2x1' | '2x2' | '1x3' | '2x3';
+
+/**
+ * FCC vanity callsign groups; lower groups are open to fewer license classes
+ */
+export type VanityGroup = 'A' | 'B' | 'C' | 'D';
+
+/**
+ * Availability of one vanity candidate
+ */
+export interface VanityCandidate {
+	callsign: string;
+	format: VanityFormat;
+	group: VanityGroup;
+	// Operator class codes that may apply for the callsign
+	eligible_classes: string[];
+	status: 'available' | 'grace' | 'held';
+	// YYYY-MM-DD the grace period ends, for status grace
+	available_after?: string;
+	// Why the current holder's license ended, for status grace
+	reason?: 'expired' | 'cancelled';
+	license_status?: string;
+	expiration_date?: string;
+	cancellation_date?: string;
+}
+
+/**
+ * Sequential callsign seen in one diff report
+ */
+export interface SequentialObservation {
+	callsign: string;
+	// Position in the group's issuing order
+	sequence: number;
+	// Timestamp of the diff report that added it
+	timestamp: string;
+}
+
+/**
+ * Most recently issued sequential callsign of a call district and group
+ */
+export interface SequentialEntry {
+	district: string;
+	group: VanityGroup;
+	format: VanityFormat;
+	latest: SequentialObservation;
+	// Latest callsign of each recent diff report, oldest first
+	history: SequentialObservation[];
+}
+
+/**
+ * Sequential issuing progress stored in METADATA_STORE
+ */
+export interface SequentialTracker {
+	updatedAt: string;
+	// Keyed by district and group, e.g. "4D"
+	entries: Record<string, SequentialEntry>;
+}
+
+/**
+ * Stable ULS identifiers a licensee profile can be looked up by
+ */
+export type LicenseeIdentifier = 'frn' | 'unique_system_identifier' | 'uls_file_number';
+
+/**
+ * License held by a licensee, with its ULS identifiers
+ */
+export interface LicenseeLicense extends CallsignData {
+	unique_system_identifier?: string;
+	uls_file_number?: string;
+}
+
+/**
+ * Every callsign associated with one FCC entity
+ */
+export interface LicenseeProfile {
+	frn?: string;
+	name?: string;
+	// Active licenses first, then by callsign
+	licenses: LicenseeLicense[];
+	// Club stations whose trustee is one of the licensee's callsigns
+	trustee_of: CallsignData[];
+	// Set when a list was cut at the lookup limit
+	truncated: boolean;
+}
+
+/**
+ * Callsign found by a partial (Super Check Partial) query
+ */
+export interface PartialMatch {
+	callsign: string;
+	// exact: the whole callsign; prefix: the callsign starts with the pattern
+	match: 'exact' | 'prefix' | 'contains';
+	license_status?: string;
+}
+
+/**
+ * Existing callsign offered when a lookup misses
+ */
+export interface CallsignSuggestion {
+	callsign: string;
+	// Weighted edit distance from the requested callsign; confusable characters cost less than 1
+	distance: number;
+	name?: string;
+	license_class?: string;
+	license_status?: string;
+}
+
+/**
+ * State of a club station trustee's own license
+ * missing: the trustee callsign has no stored license.
+ */
+export type TrusteeStanding = 'active' | 'expired' | 'cancelled' | 'missing';
+
+/**
+ * Active club station whose trustee no longer holds an active license
+ */
+export interface ClubTrusteeIssue {
+	callsign: string;
+	name?: string;
+	trustee_callsign: string;
+	trustee_name?: string;
+	standing: Exclude<TrusteeStanding, 'active'>;
+	trustee_license_status?: string;
+	trustee_expiration_date?: string;
+	trustee_cancellation_date?: string;
+}
+
+/**
+ * Club trustee report stored in METADATA_STORE after each pipeline run
+ */
+export interface ClubTrusteeReport {
+	generatedAt: string;
+	dataVersion?: string;
+	count: number;
+	// Set when more clubs matched than the report keeps
+	truncated: boolean;
+	clubs: ClubTrusteeIssue[];
+}
+
+/**
+ * File formats an export job can write
+ */
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'callhistory' | 'sqlite';
+
+/**
+ * Export job state kept in METADATA_STORE
+ */
+export interface ExportJob {
+	id: string;
+	format: ExportFormat;
+	dataVersion: string;
+	status: 'pending' | 'running' | 'complete' | 'failed';
+	// R2 key of the artifact under exports/
+	objectKey: string;
+	// Call-history column template as column:Label entries
+	columns?: string[];
+	createdAt: string;
+	updatedAt: string;
+	completedAt?: string;
+	records?: number;
+	bytes?: number;
+	error?: string;
+}
+
+/**
+ * File published with a dataset release
+ */
+export interface ReleaseFile {
+	name: string;
+	content_type: string;
+	bytes: number;
+	sha256: string;
+	records: number;
+}
+
+/**
+ * manifest.json of a dataset release under releases/<version>/
+ */
+export interface ReleaseManifest {
+	version: string;
+	// Release the patch applies to; null when the patch builds the dataset from nothing
+	previous_version: string | null;
+	published_at: string;
+	record_count: number;
+	// Layout of the snapshot file
+	schema: {
+		fields: string[];
+		delimiter: string;
+		has_header: boolean;
+		key_field: string | string[];
+	};
+	changes: {
+		added: number;
+		modified: number;
+		deleted: number;
+	};
+	files: ReleaseFile[];
+}
+
+/**
+ * Entry of the release index, newest first
+ */
+export interface ReleaseSummary {
+	version: string;
+	previous_version: string | null;
+	published_at: string;
+	record_count: number;
+	changes: ReleaseManifest['changes'];
+}
+
+/**
+ * Pointer to the current offline callsign index in R2
+ */
+export interface OfflineIndexInfo {
+	version: string;
+	// R2 key of the index file
+	key: string;
+	bytes: number;
+	records: number;
+	sha256: string;
+	publishedAt: string;
 }
 
 export interface ErrorResponse {
@@ -82,11 +483,12 @@ export interface ConfigData {
 		originZipUrl: string;
 		zipFileName: string;
 		extractedFileName: string;
-		expectedSchema: {
-			fields: string[];
-			delimiter?: string;
-			hasHeader?: boolean;
-		};
+		expectedSchema: DataSourceSchema;
+		// Additional ULS files joined into one record per callsign.
+		// When set, extractedFileName names the primary file whose rows anchor the join.
+		files?: DataSourceFile[];
+		// Field shared by all files that rows are joined on (default: unique_system_identifier)
+		joinField?: string;
 	};
 
 	// Backup endpoints
@@ -134,6 +536,44 @@ export interface ConfigData {
 		ttl: number;
 		maxEntries?: number;
 	};
+
+	// DXCC prefix table replacing the bundled one
+	prefixTable?: PrefixTable;
+
+	// Publishing of dataset releases (default: enabled) and their retention: the
+	// newest `keep` are always kept, older ones are removed once more than
+	// maxAgeDays old (defaults: 10 and 90)
+	releases?: {
+		enabled?: boolean;
+		keep?: number;
+		maxAgeDays?: number;
+	};
+}
+
+/**
+ * Layout of a delimited source file
+ */
+export interface DataSourceSchema {
+	fields: string[];
+	delimiter?: string;
+	hasHeader?: boolean;
+	// Field, or fields for a composite key, that identify a record (default: callsign, else the first field)
+	keyField?: string | string[];
+}
+
+/**
+ * A single file extracted from the source ZIP for multi-file ingestion
+ */
+export interface DataSourceFile {
+	fileName: string;
+	expectedSchema: DataSourceSchema;
+	// Missing optional files are skipped instead of failing the pipeline (default: true)
+	required?: boolean;
+	// File may hold several rows per join key (e.g. HS history, CO comments);
+	// their values are concatenated with MULTI_VALUE_SEPARATOR
+	multiple?: boolean;
+	// Prefix applied to this file's field names in the joined record
+	fieldPrefix?: string;
 }
 
 /**
@@ -188,12 +628,18 @@ export interface FetchResult {
 export interface ExtractionResult {
 	success: boolean;
 	content?: string;
+	// Raw contents of each extracted file when several files are joined
+	files?: Record<string, string>;
 	error?: string;
 	metadata: {
 		fileName: string;
 		timestamp: string;
 		size?: number;
+		compressedSize?: number;
+		uncompressedSize?: number;
 		encoding?: string;
+		files?: Array<{ fileName: string; size: number; compressedSize?: number }>;
+		joinedRecords?: number;
 	};
 }
 
@@ -257,6 +703,8 @@ export interface DiffResult {
 	modified: string[];
 	deleted: string[];
 	unchanged: number;
+	// Old and new values of history-relevant fields, per modified record key
+	fieldChanges?: Record<string, Record<string, { old: string; new: string }>>;
 	summary: {
 		addedCount: number;
 		modifiedCount: number;
@@ -2,7 +2,7 @@
  * Utility functions for the Ham Radio Callsign Worker
  */
 
-import type { ErrorResponse, SuccessResponse } from './types';
+import type { Env, ErrorResponse, SuccessResponse } from './types';
 
 /**
  * Constants
@@ -29,6 +29,27 @@ export function jsonResponse<T>(
 	});
 }
 
+/**
+ * Create a text or streamed response of another content type with CORS headers
+ */
+export function textResponse(
+	body: BodyInit,
+	contentType: string,
+	status = 200,
+	headers: Record<string, string> = {}
+): Response {
+	return new Response(body, {
+		status,
+		headers: {
+			'Content-Type': contentType,
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+			'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+			...headers,
+		},
+	});
+}
+
 /**
  * Create a success response
  */
@@ -61,6 +82,36 @@ export function errorResponse(
 	return jsonResponse(response, status);
 }
 
+/**
+ * Storage bindings a handler can require, with what a client is told when one is missing
+ */
+const BINDING_ERRORS = {
+	CALLSIGN_DB: {
+		message: 'Database is not configured.',
+		note: 'The D1 database binding needs to be configured in wrangler.toml',
+	},
+	DATA_EXPORTS: {
+		message: 'Data storage is not configured.',
+		note: 'The DATA_EXPORTS R2 bucket binding needs to be configured in wrangler.toml',
+	},
+	METADATA_STORE: {
+		message: 'Metadata storage is not configured.',
+		note: 'The METADATA_STORE KV binding needs to be configured in wrangler.toml',
+	},
+};
+
+/**
+ * 503 response for the first of the bindings that is not configured, or null if all are
+ */
+export function requireBinding(env: Env, ...bindings: Array<keyof typeof BINDING_ERRORS>): Response | null {
+	const missing = bindings.find((binding) => !env[binding]);
+	if (!missing) {
+		return null;
+	}
+	const { message, note } = BINDING_ERRORS[missing];
+	return errorResponse('Service Unavailable', message, 503, { note });
+}
+
 /**
  * Handle CORS preflight requests
  */
@@ -116,11 +167,9 @@ export function getQueryParams(url: URL): Record<string, string> {
 
 /**
  * Validate callsign format (basic validation)
- * Note: This is a basic validator. It doesn't handle all edge cases like:
- * - Portable suffixes (/P, /M, /MM, etc.)
- * - Special event callsigns
- * - Complex international prefixes
- * For production use, consider a more comprehensive validation library.
+ * Note: This only accepts a bare license callsign. Use parseCallsign in
+ * callsign.ts for portable and reciprocal forms (/P, /MM, VE3/...).
+ * It doesn't handle special event callsigns or complex international prefixes.
  */
 export function isValidCallsign(callsign: string): boolean {
 	// Basic regex for ham radio callsigns
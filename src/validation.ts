@@ -5,7 +5,8 @@
  * error messages and actionable diagnostics.
  */
 
-import type { ConfigData, Config } from './types';
+import type { ConfigData, Config, DataSourceSchema, PrefixTable } from './types';
+import { PREFIX_ENTRY_PATTERN } from './engine/dxcc-table';
 
 export interface ValidationError {
 	field: string;
@@ -104,49 +105,68 @@ export function validateConfigData(data: ConfigData): ValidationResult {
 				suggestion: 'Add expectedSchema with fields array, delimiter, and hasHeader properties',
 			});
 		} else {
-			if (!Array.isArray(data.dataSource.expectedSchema.fields)) {
-				errors.push({
-					field: 'dataSource.expectedSchema.fields',
-					message: 'expectedSchema.fields must be an array',
-					severity: 'error',
-					suggestion: 'Provide an array of field names (e.g., ["record_type", "callsign", ...])',
-				});
-			} else if (data.dataSource.expectedSchema.fields.length === 0) {
+			validateSchemaDefinition(data.dataSource.expectedSchema, 'dataSource.expectedSchema', errors);
+		}
+
+		if (data.dataSource.files !== undefined) {
+			if (!Array.isArray(data.dataSource.files)) {
 				errors.push({
-					field: 'dataSource.expectedSchema.fields',
-					message: 'expectedSchema.fields must not be empty',
+					field: 'dataSource.files',
+					message: 'files must be an array',
 					severity: 'error',
-					suggestion: 'Add at least one field name to the array',
+					suggestion: 'Provide an array of { fileName, expectedSchema } entries (e.g., EN.dat, HD.dat, AM.dat)',
 				});
 			} else {
-				// Check if all fields are strings
-				data.dataSource.expectedSchema.fields.forEach((field, index) => {
-					if (typeof field !== 'string') {
+				data.dataSource.files.forEach((file, index) => {
+					if (!file.fileName || typeof file.fileName !== 'string') {
+						errors.push({
+							field: `dataSource.files[${index}].fileName`,
+							message: 'File name is required',
+							severity: 'error',
+						});
+					}
+					if (!file.expectedSchema) {
 						errors.push({
-							field: `dataSource.expectedSchema.fields[${index}]`,
-							message: `Field at index ${index} must be a string`,
+							field: `dataSource.files[${index}].expectedSchema`,
+							message: 'Missing expectedSchema',
 							severity: 'error',
+							suggestion: 'Add expectedSchema with fields array, delimiter, and hasHeader properties',
 						});
+					} else {
+						validateSchemaDefinition(file.expectedSchema, `dataSource.files[${index}].expectedSchema`, errors);
+						const joinField = data.dataSource.joinField || 'unique_system_identifier';
+						if (Array.isArray(file.expectedSchema.fields) && !file.expectedSchema.fields.includes(joinField)) {
+							errors.push({
+								field: `dataSource.files[${index}].expectedSchema.fields`,
+								message: `File ${file.fileName} does not contain join field ${joinField}`,
+								severity: 'error',
+								suggestion: 'Every joined file must include the join field (see dataSource.joinField)',
+							});
+						}
 					}
 				});
-			}
 
-			if (data.dataSource.expectedSchema.delimiter !== undefined && typeof data.dataSource.expectedSchema.delimiter !== 'string') {
-				errors.push({
-					field: 'dataSource.expectedSchema.delimiter',
-					message: 'delimiter must be a string',
-					severity: 'error',
-					suggestion: 'Use a single character like "|" or ","',
-				});
+				if (
+					data.dataSource.extractedFileName &&
+					!data.dataSource.files.some((f) => f.fileName === data.dataSource.extractedFileName)
+				) {
+					warnings.push({
+						field: 'dataSource.files',
+						message: `Primary file ${data.dataSource.extractedFileName} is not listed in files`,
+						severity: 'warning',
+						suggestion: 'Include extractedFileName in files; otherwise the first file anchors the join',
+					});
+				}
 			}
+		}
 
-			if (data.dataSource.expectedSchema.hasHeader !== undefined && typeof data.dataSource.expectedSchema.hasHeader !== 'boolean') {
-				errors.push({
-					field: 'dataSource.expectedSchema.hasHeader',
-					message: 'hasHeader must be a boolean',
-					severity: 'error',
-				});
-			}
+		if (data.dataSource.joinField !== undefined && typeof data.dataSource.joinField !== 'string') {
+			errors.push({
+				field: 'dataSource.joinField',
+				message: 'joinField must be a string',
+				severity: 'error',
+				suggestion: 'Use a field shared by all files, such as "unique_system_identifier"',
+			});
 		}
 	}
 
@@ -384,6 +404,34 @@ export function validateConfigData(data: ConfigData): ValidationResult {
 		});
 	}
 
+	// Validate release retention (optional; defaults apply without it)
+	if (data.releases !== undefined) {
+		if (data.releases?.enabled !== undefined && typeof data.releases.enabled !== 'boolean') {
+			errors.push({
+				field: 'releases.enabled',
+				message: 'enabled must be a boolean',
+				severity: 'error',
+				suggestion: 'Set to true or false',
+			});
+		}
+		for (const field of ['keep', 'maxAgeDays'] as const) {
+			const value = data.releases?.[field];
+			if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+				errors.push({
+					field: `releases.${field}`,
+					message: `${field} must be a positive integer`,
+					severity: 'error',
+					suggestion: field === 'keep' ? 'Keep at least the newest release, e.g. 10' : 'Use a number of days, e.g. 90',
+				});
+			}
+		}
+	}
+
+	// Validate the DXCC prefix table (optional; the bundled table is used without it)
+	if (data.prefixTable !== undefined) {
+		validatePrefixTable(data.prefixTable, errors, warnings);
+	}
+
 	return {
 		valid: errors.length === 0,
 		errors,
@@ -391,6 +439,190 @@ export function validateConfigData(data: ConfigData): ValidationResult {
 	};
 }
 
+/**
+ * Validate a DXCC prefix table
+ */
+function validatePrefixTable(
+	table: PrefixTable,
+	errors: ValidationError[],
+	warnings: ValidationError[]
+): void {
+	if (!table || typeof table !== 'object') {
+		errors.push({
+			field: 'prefixTable',
+			message: 'prefixTable must be an object',
+			severity: 'error',
+			suggestion: 'Provide { "version": "...", "entities": [...] } or remove prefixTable to use the bundled table',
+		});
+		return;
+	}
+
+	if (!table.version || typeof table.version !== 'string') {
+		errors.push({
+			field: 'prefixTable.version',
+			message: 'version is required',
+			severity: 'error',
+			suggestion: 'Name the table release, e.g. the cty.dat version it was converted from',
+		});
+	}
+
+	if (!Array.isArray(table.entities) || table.entities.length === 0) {
+		errors.push({
+			field: 'prefixTable.entities',
+			message: 'entities must be a non-empty array',
+			severity: 'error',
+		});
+		return;
+	}
+
+	const seen = new Map<string, string>();
+	table.entities.forEach((entity, index) => {
+		const path = `prefixTable.entities[${index}]`;
+
+		if (!Number.isInteger(entity.dxcc) || entity.dxcc < 0) {
+			errors.push({ field: `${path}.dxcc`, message: 'dxcc must be a non-negative integer', severity: 'error' });
+		}
+		if (!entity.name || typeof entity.name !== 'string') {
+			errors.push({ field: `${path}.name`, message: 'name is required', severity: 'error' });
+		}
+		if (!['AF', 'AN', 'AS', 'EU', 'NA', 'OC', 'SA'].includes(entity.continent)) {
+			errors.push({
+				field: `${path}.continent`,
+				message: `Invalid continent: ${entity.continent}`,
+				severity: 'error',
+				suggestion: 'Use one of: AF, AN, AS, EU, NA, OC, SA',
+			});
+		}
+		if (!Number.isInteger(entity.cqZone) || entity.cqZone < 1 || entity.cqZone > 40) {
+			errors.push({ field: `${path}.cqZone`, message: 'cqZone must be an integer from 1 to 40', severity: 'error' });
+		}
+		if (!Number.isInteger(entity.ituZone) || entity.ituZone < 1 || entity.ituZone > 90) {
+			errors.push({ field: `${path}.ituZone`, message: 'ituZone must be an integer from 1 to 90', severity: 'error' });
+		}
+		if (typeof entity.latitude !== 'number' || Math.abs(entity.latitude) > 90) {
+			errors.push({ field: `${path}.latitude`, message: 'latitude must be a number from -90 to 90', severity: 'error' });
+		}
+		if (typeof entity.longitude !== 'number' || Math.abs(entity.longitude) > 180) {
+			errors.push({ field: `${path}.longitude`, message: 'longitude must be a number from -180 to 180', severity: 'error' });
+		}
+
+		if (!Array.isArray(entity.prefixes) || entity.prefixes.length === 0) {
+			errors.push({ field: `${path}.prefixes`, message: 'prefixes must be a non-empty array', severity: 'error' });
+			return;
+		}
+		entity.prefixes.forEach((entry) => {
+			const match = typeof entry === 'string' ? entry.toUpperCase().match(PREFIX_ENTRY_PATTERN) : null;
+			if (!match) {
+				errors.push({
+					field: `${path}.prefixes`,
+					message: `Invalid prefix entry: ${entry}`,
+					severity: 'error',
+					suggestion: 'Use "VE3", "VE3(4)[4]" for zone overrides, or "=4U1UN" for a single callsign',
+				});
+				return;
+			}
+			const key = (match[1] || '') + match[2];
+			const owner = seen.get(key);
+			if (owner && owner !== entity.name) {
+				warnings.push({
+					field: `${path}.prefixes`,
+					message: `Prefix ${key} is listed for both ${owner} and ${entity.name}`,
+					severity: 'warning',
+					suggestion: 'The later entity wins; remove the prefix from one of them',
+				});
+			}
+			seen.set(key, entity.name);
+		});
+	});
+}
+
+/**
+ * Validate a delimited file schema definition
+ */
+function validateSchemaDefinition(
+	schema: DataSourceSchema,
+	path: string,
+	errors: ValidationError[]
+): void {
+	if (!Array.isArray(schema.fields)) {
+		errors.push({
+			field: `${path}.fields`,
+			message: 'expectedSchema.fields must be an array',
+			severity: 'error',
+			suggestion: 'Provide an array of field names (e.g., ["record_type", "callsign", ...])',
+		});
+	} else if (schema.fields.length === 0) {
+		errors.push({
+			field: `${path}.fields`,
+			message: 'expectedSchema.fields must not be empty',
+			severity: 'error',
+			suggestion: 'Add at least one field name to the array',
+		});
+	} else {
+		// Check if all fields are strings
+		schema.fields.forEach((field, index) => {
+			if (typeof field !== 'string') {
+				errors.push({
+					field: `${path}.fields[${index}]`,
+					message: `Field at index ${index} must be a string`,
+					severity: 'error',
+				});
+			}
+		});
+	}
+
+	if (schema.delimiter !== undefined && typeof schema.delimiter !== 'string') {
+		errors.push({
+			field: `${path}.delimiter`,
+			message: 'delimiter must be a string',
+			severity: 'error',
+			suggestion: 'Use a single character like "|" or ","',
+		});
+	}
+
+	if (schema.hasHeader !== undefined && typeof schema.hasHeader !== 'boolean') {
+		errors.push({
+			field: `${path}.hasHeader`,
+			message: 'hasHeader must be a boolean',
+			severity: 'error',
+		});
+	}
+
+	if (schema.keyField !== undefined) {
+		const keyFields = Array.isArray(schema.keyField) ? schema.keyField : [schema.keyField];
+		if (keyFields.length === 0 || keyFields.some((field) => typeof field !== 'string' || !field)) {
+			errors.push({
+				field: `${path}.keyField`,
+				message: 'keyField must be a field name or a non-empty array of field names',
+				severity: 'error',
+				suggestion: 'Use e.g. "callsign" or ["callsign", "unique_system_identifier"]',
+			});
+		} else if (Array.isArray(schema.fields)) {
+			const unknown = keyFields.filter((field) => !schema.fields.includes(field));
+			if (unknown.length > 0) {
+				errors.push({
+					field: `${path}.keyField`,
+					message: `Key field(s) not in fields: ${unknown.join(', ')}`,
+					severity: 'error',
+					suggestion: 'Every key field must be listed in expectedSchema.fields',
+				});
+			} else if (schema.fields.includes('callsign') && !keyFields.includes('callsign')) {
+				// D1 holds one row per callsign, so a key without it could not
+				// follow a record whose callsign changes: a vanity change under the
+				// same unique_system_identifier would be an update of a row that
+				// does not exist yet, leaving the old callsign's row behind
+				errors.push({
+					field: `${path}.keyField`,
+					message: 'keyField must include callsign',
+					severity: 'error',
+					suggestion:
+						'D1 stores one row per callsign; to key on unique_system_identifier use the composite key ["callsign", "unique_system_identifier"]',
+				});
+			}
+		}
+	}
+}
+
 /**
  * Validate a URL string
  */
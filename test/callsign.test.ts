@@ -0,0 +1,91 @@
+/**
+ * Tests for portable and reciprocal callsign parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCallsign } from '../src/callsign';
+
+describe('parseCallsign', () => {
+	it('should accept a bare callsign', () => {
+		expect(parseCallsign(' k1abc ').callsign).toEqual({
+			input: 'K1ABC',
+			base: 'K1ABC',
+			modifiers: [],
+		});
+	});
+
+	it('should split suffix modifiers from the base callsign', () => {
+		expect(parseCallsign('W1AW/P').callsign).toEqual({
+			input: 'W1AW/P',
+			base: 'W1AW',
+			modifiers: ['P'],
+		});
+		expect(parseCallsign('W1AW/MM/QRP').callsign?.modifiers).toEqual(['MM', 'QRP']);
+		expect(parseCallsign('N0AX/AM').callsign?.modifiers).toEqual(['AM']);
+	});
+
+	it('should recognise prefix overrides before and after the base', () => {
+		expect(parseCallsign('VE3/W1AW').callsign).toEqual({
+			input: 'VE3/W1AW',
+			base: 'W1AW',
+			prefix: 'VE3',
+			modifiers: [],
+		});
+		expect(parseCallsign('KH6/K1ABC/M').callsign).toEqual({
+			input: 'KH6/K1ABC/M',
+			base: 'K1ABC',
+			prefix: 'KH6',
+			modifiers: ['M'],
+		});
+		expect(parseCallsign('F/W1AW').callsign?.prefix).toBe('F');
+		expect(parseCallsign('K1ABC/KH6').callsign?.prefix).toBe('KH6');
+	});
+
+	it('should take the longer callsign-shaped part as the base', () => {
+		const { callsign } = parseCallsign('VP2E/W1ABC');
+
+		expect(callsign?.base).toBe('W1ABC');
+		expect(callsign?.prefix).toBe('VP2E');
+	});
+
+	it('should take the part with the full suffix as the base on a length tie', () => {
+		expect(parseCallsign('VP2E/W1AW').callsign).toEqual({
+			input: 'VP2E/W1AW',
+			base: 'W1AW',
+			prefix: 'VP2E',
+			modifiers: [],
+		});
+		expect(parseCallsign('W1AW/VP2E').callsign).toMatchObject({ base: 'W1AW', prefix: 'VP2E' });
+		expect(parseCallsign('VP2E/W1AW/P').callsign).toMatchObject({ base: 'W1AW', modifiers: ['P'] });
+		// Equal suffixes: neither looks like a prefix, so the first part is the base
+		expect(parseCallsign('K1AB/W1AW').callsign).toMatchObject({ base: 'K1AB', prefix: 'W1AW' });
+	});
+
+	it('should not take a known DXCC prefix as the base on a length tie', () => {
+		expect(parseCallsign('R2F/W1A').callsign).toMatchObject({ base: 'W1A', prefix: 'R2F' });
+		expect(parseCallsign('W1A/R2F').callsign).toMatchObject({ base: 'W1A', prefix: 'R2F' });
+	});
+
+	it('should read a single digit as a district override', () => {
+		expect(parseCallsign('W1AW/4').callsign).toEqual({
+			input: 'W1AW/4',
+			base: 'W1AW',
+			district: '4',
+			modifiers: [],
+		});
+	});
+
+	it('should reject malformed parts', () => {
+		expect(parseCallsign('').error).toBe('Callsign is empty');
+		expect(parseCallsign('W1AW-P').error).toContain('letters, digits');
+		expect(parseCallsign('W1AW//P').error).toContain('empty');
+		expect(parseCallsign('INVALID/P').error).toContain('No valid base callsign');
+		expect(parseCallsign('W1AW/X').error).toBe('Unknown callsign modifier /X');
+		expect(parseCallsign('VE3/KH6/W1AW').error).toContain('Only one prefix override');
+		expect(parseCallsign('W1AW/P/P').error).toBe('Modifier /P is repeated');
+		expect(parseCallsign('W1AW/M/MM').error).toBe('Modifiers /M and /MM conflict');
+		expect(parseCallsign('W1AW/4/5').error).toBe('Only one district override is allowed');
+		expect(parseCallsign('VE3/W1AW/4').error).toContain('both a prefix and a district');
+		expect(parseCallsign('K1/W1AW/P/M/QRP').error).toContain('more than 4');
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for the incremental changes feed
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as dataHandlers from '../src/handlers/data';
+import type { DiffResult, Env, PatchOperation } from '../src/types';
+import { CHANGES_MAX_OPERATIONS, decodeChangesCursor, getChangesSince } from '../src/engine/changes';
+import { publishRelease } from '../src/engine/releases';
+import { createMockR2 } from './helpers/mocks';
+import type { MockR2Object } from './helpers/mocks';
+
+const V1 = '2026-10-17T06-00-00-000Z';
+const V2 = '2026-10-18T06-00-00-000Z';
+const V3 = '2026-10-19T06-00-00-000Z';
+
+describe('Changes Feed', () => {
+	let objects: Map<string, MockR2Object>;
+	let env: Env;
+
+	beforeEach(() => {
+		objects = new Map();
+		env = { ENVIRONMENT: 'test', DATA_EXPORTS: createMockR2(objects) };
+	});
+
+	const release = (version: string, previous: string | undefined, operations: PatchOperation[]) => {
+		const count = (type: PatchOperation['type']) => operations.filter((op) => op.type === type).length;
+		const diff = {
+			hasChanges: true,
+			added: [],
+			modified: [],
+			deleted: [],
+			unchanged: 0,
+			summary: {
+				addedCount: count('insert'),
+				modifiedCount: count('update'),
+				deletedCount: count('delete'),
+				unchangedCount: 0,
+				totalOldRecords: 0,
+				totalNewRecords: 0,
+			},
+			metadata: { oldVersion: previous, newVersion: version, newHash: 'abc', timestamp: '' },
+		} as DiffResult;
+		return publishRelease(
+			env,
+			{
+				version,
+				content: '',
+				hash: 'abc',
+				recordCount: 0,
+				schema: { fields: ['callsign'] },
+				diff,
+				operations,
+			},
+			undefined,
+			new Date(version.slice(0, 10))
+		);
+	};
+
+	const publishHistory = async () => {
+		await release(V1, undefined, [{ type: 'insert', key: 'K1ABC', record: { callsign: 'K1ABC', first_name: 'Pat' } }]);
+		await release(V2, V1, [
+			{ type: 'update', key: 'K1ABC', record: { callsign: 'K1ABC', first_name: 'Patricia', zip_code: '06111' } },
+			{ type: 'insert', key: 'N1NEW', record: { callsign: 'N1NEW', operator_class: 'T' } },
+			{ type: 'insert', key: 'W1GONE', record: { callsign: 'W1GONE' } },
+		]);
+		await release(V3, V2, [
+			{ type: 'delete', key: 'W1GONE', record: { callsign: 'W1GONE' } },
+			{ type: 'delete', key: 'N1OLD', record: { callsign: 'N1OLD' } },
+		]);
+	};
+
+	it('should collapse the patches since a version to one change per callsign', async () => {
+		await publishHistory();
+
+		const changes = await getChangesSince(env, V1);
+		expect(changes).toMatchObject({ resync: false, version: V3, releases: [V2, V3], deletes: ['N1OLD', 'W1GONE'] });
+		if (!changes.resync) {
+			expect(changes.upserts).toEqual([
+				{ callsign: 'K1ABC', first_name: 'Patricia', zip_code: '06111' },
+				{ callsign: 'N1NEW', operator_class: 'T' },
+			]);
+			expect(changes.nextCursor).toBeUndefined();
+		}
+
+		expect(await getChangesSince(env, V3)).toMatchObject({ resync: false, releases: [], upserts: [], deletes: [] });
+	});
+
+	it('should key changes on the record callsign rather than the diff key', async () => {
+		await release(V1, undefined, [{ type: 'insert', key: '1001', record: { callsign: 'K1ABC', first_name: 'Pat' } }]);
+		await release(V2, V1, [
+			{ type: 'update', key: '1001', record: { callsign: 'K1ABC', first_name: 'Patricia', city: '' } },
+			{ type: 'delete', key: '1002', record: { callsign: 'N1OLD' } },
+		]);
+
+		expect(await getChangesSince(env, V1)).toMatchObject({
+			upserts: [{ callsign: 'K1ABC', first_name: 'Patricia' }],
+			deletes: ['N1OLD'],
+		});
+	});
+
+	it('should keep a callsign that moved to a new key within one patch', async () => {
+		await release(V1, undefined, [{ type: 'insert', key: '1001', record: { callsign: 'K1ABC', first_name: 'Pat' } }]);
+		await release(V2, V1, [
+			{ type: 'insert', key: '2002', record: { callsign: 'K1ABC', first_name: 'Patricia' } },
+			{ type: 'delete', key: '1001', record: { callsign: 'K1ABC', first_name: 'Pat' } },
+		]);
+
+		expect(await getChangesSince(env, V1)).toMatchObject({
+			upserts: [{ callsign: 'K1ABC', first_name: 'Patricia' }],
+			deletes: [],
+		});
+
+		// A delete in a later patch still removes it
+		await release(V3, V2, [{ type: 'delete', key: '2002', record: { callsign: 'K1ABC' } }]);
+		expect(await getChangesSince(env, V1)).toMatchObject({ upserts: [], deletes: ['K1ABC'] });
+	});
+
+	it('should page changes with a cursor pinned to the release of the first page', async () => {
+		await publishHistory();
+
+		const first = await getChangesSince(env, V1, { limit: 2 });
+		expect(first).toMatchObject({ version: V3, deletes: [] });
+		if (first.resync || !first.nextCursor) {
+			throw new Error('Expected a first page with a cursor');
+		}
+		expect(first.upserts.map((record) => record.callsign)).toEqual(['K1ABC', 'N1NEW']);
+
+		// A release published between pages does not move the target
+		await release('2026-10-20T06-00-00-000Z', V3, [{ type: 'insert', key: 'A1NEW', record: { callsign: 'A1NEW' } }]);
+		const cursor = decodeChangesCursor(first.nextCursor);
+		expect(cursor).toEqual({ version: V3, after: 'N1NEW' });
+		const second = await getChangesSince(env, V1, { cursor: cursor!, limit: 2 });
+		expect(second).toMatchObject({ version: V3, upserts: [], deletes: ['N1OLD', 'W1GONE'] });
+		expect(second.resync === false && second.nextCursor).toBeUndefined();
+
+		expect(decodeChangesCursor('not a cursor')).toBeNull();
+	});
+
+	it('should require a resync for unknown, pruned or distant versions', async () => {
+		expect(await getChangesSince(env, V1)).toMatchObject({ resync: true, version: null });
+
+		await publishHistory();
+		expect(await getChangesSince(env, '2026-01-01T00-00-00-000Z')).toMatchObject({
+			resync: true,
+			version: V3,
+			reason: 'Version 2026-01-01T00-00-00-000Z is not in the release history',
+		});
+
+		objects.delete(`releases/${V2}/patch.ndjson`);
+		expect(await getChangesSince(env, V1)).toMatchObject({ resync: true, reason: `Patch for ${V2} is no longer stored` });
+
+		const many = Array.from({ length: CHANGES_MAX_OPERATIONS + 1 }, (_, i) => ({
+			type: 'insert' as const,
+			key: `K${i}`,
+			record: {},
+		}));
+		await release('2026-10-20T06-00-00-000Z', V3, many);
+		expect(await getChangesSince(env, V3)).toMatchObject({ resync: true });
+	});
+
+	describe('endpoint', () => {
+		const call = (path: string) =>
+			dataHandlers.getChanges(new Request(`http://localhost${path}`), env, {} as ExecutionContext);
+
+		it('should return changes, or 410 when a resync is required', async () => {
+			await publishHistory();
+
+			const response = await call(`/api/v1/changes?since=${V2}`);
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { since: string; version: string; up_to_date: boolean; upserts: unknown[]; deletes: string[] };
+			};
+			expect(body.data).toMatchObject({ since: V2, version: V3, up_to_date: false, upserts: [] });
+			expect(body.data.deletes).toEqual(['N1OLD', 'W1GONE']);
+
+			const current = (await (await call(`/api/v1/changes?since=${V3}`)).json()) as {
+				data: { up_to_date: boolean };
+			};
+			expect(current.data.up_to_date).toBe(true);
+
+			const resync = await call('/api/v1/changes?since=2026-01-01T00-00-00-000Z');
+			expect(resync.status).toBe(410);
+			const resyncBody = (await resync.json()) as { details: { resync_required: boolean; snapshot_url: string } };
+			expect(resyncBody.details).toEqual({ resync_required: true, version: V3, snapshot_url: `/api/v1/releases/${V3}` });
+
+			expect((await call('/api/v1/changes')).status).toBe(400);
+		});
+
+		it('should page the feed with limit and cursor', async () => {
+			await publishHistory();
+
+			const first = (await (await call(`/api/v1/changes?since=${V1}&limit=3`)).json()) as {
+				data: { upserts: unknown[]; deletes: string[]; next_cursor?: string };
+			};
+			expect(first.data.upserts).toHaveLength(2);
+			expect(first.data.deletes).toEqual(['N1OLD']);
+			expect(first.data.next_cursor).toBeDefined();
+
+			const second = (await (
+				await call(`/api/v1/changes?since=${V1}&limit=3&cursor=${first.data.next_cursor}`)
+			).json()) as { data: { upserts: unknown[]; deletes: string[]; next_cursor?: string } };
+			expect(second.data).toMatchObject({ upserts: [], deletes: ['W1GONE'] });
+			expect(second.data.next_cursor).toBeUndefined();
+
+			expect((await call(`/api/v1/changes?since=${V1}&cursor=abc`)).status).toBe(400);
+			expect((await call(`/api/v1/changes?since=${V1}&limit=0`)).status).toBe(400);
+		});
+	});
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for club stations and the club trustee report
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Env, StoredCallsignRecord } from '../src/types';
+import {
+	CLUB_TRUSTEE_REPORT_KEY,
+	buildClubTrusteeReport,
+	trusteeStanding,
+	updateClubTrusteeReport,
+} from '../src/engine/clubs';
+import { getClubTrustees } from '../src/handlers/admin';
+import { createMockD1, storedRow } from './helpers/mocks';
+import type { ExecutedQuery } from './helpers/mocks';
+
+const stored = (record: Record<string, string>): StoredCallsignRecord => ({
+	callsign: record.callsign,
+	record,
+	updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+/**
+ * D1 stand-in returning fixed joined rows and recording the query
+ */
+function createClubsD1(
+	rows: Array<{ club: Record<string, string>; trustee?: Record<string, string> }>,
+	executed: ExecutedQuery[] = []
+) {
+	return createMockD1(
+		{
+			all: () =>
+				rows.map(({ club, trustee }) => ({
+					...storedRow(club.callsign, club),
+					trustee_key: trustee?.callsign ?? null,
+					trustee_data: trustee ? JSON.stringify(trustee) : null,
+					trustee_updated_at: trustee ? '2026-01-01T00:00:00.000Z' : null,
+				})),
+		},
+		executed
+	);
+}
+
+describe('Club Stations', () => {
+	it('should tell whether a trustee license still stands', () => {
+		const today = '2026-10-19';
+		expect(trusteeStanding(null, today)).toBe('missing');
+		expect(trusteeStanding(stored({ callsign: 'K1ABC', license_status: 'A' }), today)).toBe('active');
+		expect(trusteeStanding(stored({ callsign: 'K1ABC', license_status: 'T' }), today)).toBe('cancelled');
+		expect(
+			trusteeStanding(stored({ callsign: 'K1ABC', license_status: 'A', expired_date: '10/18/2026' }), today)
+		).toBe('expired');
+	});
+
+	it('should report active clubs whose trustee license has ended', async () => {
+		const executed: ExecutedQuery[] = [];
+		const env = {
+			CALLSIGN_DB: createClubsD1(
+				[
+					{
+						club: { callsign: 'W1AW', entity_name: 'Club One', trustee_callsign: 'K1ABC', license_status: 'A' },
+						trustee: {
+							callsign: 'K1ABC',
+							first_name: 'Pat',
+							last_name: 'Smith',
+							license_status: 'C',
+							cancellation_date: '03/01/2026',
+						},
+					},
+					{
+						club: { callsign: 'W1XX', trustee_callsign: 'N1GONE', trustee_name: 'Lee Jones', license_status: 'A' },
+					},
+					{
+						club: { callsign: 'W1YY', trustee_callsign: 'K1OK', license_status: 'A' },
+						trustee: { callsign: 'K1OK', license_status: 'A' },
+					},
+				],
+				executed
+			),
+		} as Env;
+
+		const report = await buildClubTrusteeReport(env, '2026-10-19', '2026-10-18');
+
+		expect(report.dataVersion).toBe('2026-10-18');
+		expect(report.truncated).toBe(false);
+		expect(report.clubs).toEqual([
+			{
+				callsign: 'W1AW',
+				name: 'Club One',
+				trustee_callsign: 'K1ABC',
+				trustee_name: 'Pat Smith',
+				standing: 'cancelled',
+				trustee_license_status: 'C',
+				trustee_expiration_date: undefined,
+				trustee_cancellation_date: '2026-03-01',
+			},
+			{
+				callsign: 'W1XX',
+				name: undefined,
+				trustee_callsign: 'N1GONE',
+				trustee_name: 'Lee Jones',
+				standing: 'missing',
+				trustee_license_status: undefined,
+				trustee_expiration_date: undefined,
+				trustee_cancellation_date: undefined,
+			},
+		]);
+		expect(report.count).toBe(2);
+
+		expect(executed[0].sql).toContain("json_extract(club.data, '$.trustee_callsign')");
+		expect(executed[0].sql).toContain("json_extract(trustee.data, '$.license_status')");
+		expect(executed[0].bindings[0]).toBe('2026-10-19');
+	});
+
+	it('should store the report after a pipeline run and survive database errors', async () => {
+		const saved = new Map<string, string>();
+		const metadataStore = {
+			put: async (key: string, value: string) => {
+				saved.set(key, value);
+			},
+		} as unknown as KVNamespace;
+
+		const env = { CALLSIGN_DB: createClubsD1([]), METADATA_STORE: metadataStore } as Env;
+		expect(await updateClubTrusteeReport(env, '2026-10-18')).toBe(true);
+		expect(JSON.parse(saved.get(CLUB_TRUSTEE_REPORT_KEY) || '{}')).toMatchObject({
+			dataVersion: '2026-10-18',
+			count: 0,
+			clubs: [],
+		});
+
+		const failing = {
+			CALLSIGN_DB: {
+				prepare: () => {
+					throw new Error('D1 unavailable');
+				},
+			} as unknown as D1Database,
+			METADATA_STORE: metadataStore,
+		} as Env;
+		expect(await updateClubTrusteeReport(failing, '2026-10-19')).toBe(false);
+		expect(await updateClubTrusteeReport({} as Env, '2026-10-19')).toBe(false);
+	});
+
+	describe('GET /admin/reports/club-trustees', () => {
+		const request = new Request('http://localhost/admin/reports/club-trustees');
+
+		it('should return 503 when the metadata store is not configured', async () => {
+			const response = await getClubTrustees(request, {} as Env, {} as ExecutionContext);
+			expect(response.status).toBe(503);
+		});
+
+		it('should return the report stored by the last pipeline run', async () => {
+			const report = { generatedAt: '2026-10-19T00:00:00.000Z', count: 0, truncated: false, clubs: [] };
+			const store = (value: string | null) =>
+				({
+					get: async (key: string) => (key === CLUB_TRUSTEE_REPORT_KEY ? value : null),
+				}) as unknown as KVNamespace;
+
+			const response = await getClubTrustees(
+				request,
+				{ METADATA_STORE: store(JSON.stringify(report)) } as Env,
+				{} as ExecutionContext
+			);
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as { data: unknown };
+			expect(body.data).toEqual(report);
+
+			const missing = await getClubTrustees(request, { METADATA_STORE: store(null) } as Env, {} as ExecutionContext);
+			expect(missing.status).toBe(404);
+		});
+	});
+});
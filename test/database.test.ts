@@ -3,8 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import type { ConfigData, DiffResult } from '../src/types';
-import { createPatchOperations } from '../src/engine/database';
+import initSqlJs from 'sql.js';
+import type { ConfigData, DiffResult, Env } from '../src/types';
+import {
+	RECORD_FIELD_EXPRESSIONS,
+	applyPatchOperations,
+	createPatchOperations,
+	mapRecordToCallsignData,
+	rollbackToSnapshot,
+} from '../src/engine/database';
 
 describe('Database Engine', () => {
 	let config: ConfigData;
@@ -200,4 +207,153 @@ describe('Database Engine', () => {
 			expect(operations[0].key).toBe('AA1AA');
 		});
 	});
+
+	describe('mapRecordToCallsignData', () => {
+		it('should map FCC AM fields and omit empty values', () => {
+			const data = mapRecordToCallsignData({
+				callsign: 'W1AW',
+				record: {
+					callsign: 'W1AW',
+					operator_class: '',
+					trustee_callsign: 'K1ABC',
+					trustee_name: 'Alice Smith',
+					previous_callsign: '',
+				},
+				updatedAt: '2026-01-01T00:00:00.000Z',
+			});
+
+			expect(data.callsign).toBe('W1AW');
+			expect(data.trustee_callsign).toBe('K1ABC');
+			expect(data.trustee_name).toBe('Alice Smith');
+			expect(data).not.toHaveProperty('license_class');
+			expect(data).not.toHaveProperty('previous_callsign');
+		});
+
+		it('should translate operator class codes to names', () => {
+			const data = mapRecordToCallsignData({
+				callsign: 'K1ABC',
+				record: { operator_class: 'T' },
+				updatedAt: '2026-01-01T00:00:00.000Z',
+			});
+
+			expect(data.license_class).toBe('Technician');
+			expect(data.operator_class).toBe('T');
+		});
+	});
+
+	describe('applyPatchOperations', () => {
+		it('should keep the n-gram index in step with inserts and deletes', async () => {
+			const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+			const db = {
+				prepare: (sql: string) => ({
+					bind: (...bindings: unknown[]) => ({ sql, bindings }),
+				}),
+				batch: async (batch: Array<{ sql: string; bindings: unknown[] }>) => {
+					statements.push(...batch);
+					return [];
+				},
+			} as unknown as D1Database;
+
+			const result = await applyPatchOperations({ CALLSIGN_DB: db } as Env, [
+				{ type: 'insert', key: 'W1AW', record: { callsign: 'W1AW' } },
+				{ type: 'update', key: 'K1ABC', record: { callsign: 'K1ABC' } },
+				{ type: 'delete', key: 'N1OLD', record: {} },
+			]);
+
+			expect(result.success).toBe(true);
+			const grams = statements.filter((s) => s.sql.includes('callsign_ngrams'));
+			expect(grams).toHaveLength(2);
+			expect(grams[0].sql).toContain('INSERT OR IGNORE INTO callsign_ngrams');
+			expect(grams[0].bindings).toEqual(['W1A', 'W1AW', '1AW', 'W1AW']);
+			expect(grams[1].sql).toContain('DELETE FROM callsign_ngrams');
+			expect(grams[1].bindings).toEqual(['N1O', '1OL', 'OLD', 'N1OLD']);
+		});
+
+		it('should write rows under the record callsign when the key is composite', async () => {
+			config.dataSource.expectedSchema = {
+				fields: ['callsign', 'unique_system_identifier', 'name'],
+				delimiter: ',',
+				hasHeader: true,
+				keyField: ['callsign', 'unique_system_identifier'],
+			};
+			const oldContent = 'callsign,unique_system_identifier,name\nW1AW,100,ARRL\nN1OLD,200,Old\n';
+			const newContent = 'callsign,unique_system_identifier,name\nW1AW,300,ARRL\nK1NEW,400,New\n';
+			const diff = {
+				added: ['W1AW:300', 'K1NEW:400'],
+				modified: [],
+				deleted: ['W1AW:100', 'N1OLD:200'],
+			} as unknown as DiffResult;
+			const operations = createPatchOperations(newContent, oldContent, diff, config);
+			expect(operations.map((op) => op.key)).toEqual(['W1AW:300', 'K1NEW:400', 'W1AW:100', 'N1OLD:200']);
+
+			const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+			const db = {
+				prepare: (sql: string) => ({
+					bind: (...bindings: unknown[]) => ({ sql, bindings }),
+				}),
+				batch: async (batch: Array<{ sql: string; bindings: unknown[] }>) => {
+					statements.push(...batch);
+					return [];
+				},
+			} as unknown as D1Database;
+
+			const result = await applyPatchOperations({ CALLSIGN_DB: db } as Env, operations);
+
+			expect(result).toEqual({ success: true, appliedCount: 4 });
+			const rows = statements.filter((s) => /^(INSERT INTO|DELETE FROM) callsigns/.test(s.sql));
+			expect(rows.map((s) => [s.sql.split(' ')[0], s.bindings[0]])).toEqual([
+				['INSERT', 'W1AW'],
+				['INSERT', 'K1NEW'],
+				['DELETE', 'N1OLD'],
+			]);
+			const keys = operations.map((op) => op.key);
+			expect(statements.flatMap((s) => s.bindings).filter((value) => keys.includes(value as string))).toEqual([]);
+		});
+	});
+
+	describe('RECORD_FIELD_EXPRESSIONS', () => {
+		it('should map missing and empty expiration dates to an empty string', async () => {
+			const SQL = await initSqlJs();
+			const db = new SQL.Database();
+			const expiration = (record: Record<string, string>) =>
+				db.exec(`SELECT ${RECORD_FIELD_EXPRESSIONS.expirationDate} FROM (SELECT ? AS data)`, [
+					JSON.stringify(record),
+				])[0].values[0][0];
+
+			expect(expiration({ expired_date: '03/01/2030' })).toBe('2030-03-01');
+			expect(expiration({ expired_date: '' })).toBe('');
+			expect(expiration({})).toBe('');
+			db.close();
+		});
+	});
+
+	describe('rollbackToSnapshot', () => {
+		it('should clear the callsigns and their search indexes in one batch', async () => {
+			const batches: string[][] = [];
+			const db = {
+				prepare: (sql: string) => ({
+					sql,
+					bind: () => ({
+						first: async () => ({
+							version: 'v1',
+							timestamp: '2026-10-18T06:00:00.000Z',
+							record_count: 2,
+							hash: 'abc',
+							data_path: 'fallback/last-good-data-v1.txt',
+						}),
+					}),
+				}),
+				batch: async (batch: Array<{ sql: string }>) => {
+					batches.push(batch.map((statement) => statement.sql));
+					return [];
+				},
+			} as unknown as D1Database;
+			const r2 = { get: async () => null } as unknown as R2Bucket;
+
+			const result = await rollbackToSnapshot({ CALLSIGN_DB: db, DATA_EXPORTS: r2 } as Env, 'v1');
+
+			expect(result).toMatchObject({ success: true, rolledBackTo: 'v1' });
+			expect(batches).toEqual([['DELETE FROM callsigns', 'DELETE FROM callsign_fts', 'DELETE FROM callsign_ngrams']]);
+		});
+	});
 });
@@ -139,6 +139,71 @@ describe('Diff Engine', () => {
 			expect(diff.summary.addedCount).toBe(1);
 			expect(diff.added).toContain('BB2BB');
 		});
+
+		it('should key records on the declared keyField', async () => {
+			config.dataSource.expectedSchema = {
+				fields: ['record_type', 'unique_system_identifier', 'callsign', 'operator_class'],
+				delimiter: '|',
+				hasHeader: false,
+				keyField: 'callsign',
+			};
+			const oldContent = 'AM|1|K1ABC|T\nAM|2|W2XYZ|G\n';
+			const newContent = 'AM|1|K1ABC|E\nAM|2|W2XYZ|G\nAM|3|N3QRS|T\n';
+
+			const diff = await calculateDiff(newContent, oldContent, config);
+
+			expect(diff.summary.totalNewRecords).toBe(3);
+			expect(diff.modified).toEqual(['K1ABC']);
+			expect(diff.added).toEqual(['N3QRS']);
+		});
+
+		it('should key records on callsign when no keyField is declared', async () => {
+			config.dataSource.expectedSchema = {
+				fields: ['record_type', 'unique_system_identifier', 'callsign'],
+				delimiter: '|',
+				hasHeader: false,
+			};
+			const content = 'AM|1|K1ABC\nAM|2|W2XYZ\n';
+
+			const diff = await calculateDiff(content, null, config);
+
+			expect(diff.added).toEqual(['K1ABC', 'W2XYZ']);
+		});
+
+		it('should support composite keys', async () => {
+			config.dataSource.expectedSchema = {
+				fields: ['record_type', 'unique_system_identifier', 'callsign'],
+				delimiter: '|',
+				hasHeader: false,
+				keyField: ['callsign', 'unique_system_identifier'],
+			};
+			const content = 'AM|1|K1ABC\nAM|2|K1ABC\n';
+
+			const diff = await calculateDiff(content, null, config);
+
+			expect(diff.added).toEqual(['K1ABC:1', 'K1ABC:2']);
+		});
+
+		it('should keep old and new values of history fields for modified records', async () => {
+			config.dataSource.expectedSchema = {
+				fields: ['record_type', 'callsign', 'operator_class', 'previous_operator_class', 'name'],
+				delimiter: '|',
+				hasHeader: false,
+				keyField: 'callsign',
+			};
+			const oldContent = 'AM|K1ABC|G||Al\nAM|W2XYZ|T||Bo\n';
+			const newContent = 'AM|K1ABC|E|G|Al\nAM|W2XYZ|T||Bob\n';
+
+			const diff = await calculateDiff(newContent, oldContent, config);
+
+			expect(diff.modified).toEqual(['K1ABC', 'W2XYZ']);
+			expect(diff.fieldChanges).toEqual({
+				K1ABC: {
+					operator_class: { old: 'G', new: 'E' },
+					previous_operator_class: { old: '', new: 'G' },
+				},
+			});
+		});
 	});
 
 	describe('getLastDataContent', () => {
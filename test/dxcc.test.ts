@@ -0,0 +1,104 @@
+/**
+ * Tests for DXCC prefix resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Env, ParsedCallsign, PrefixTable } from '../src/types';
+import { compilePrefixTable, getPrefixTable, resolvePrefix } from '../src/engine/dxcc';
+import { BUNDLED_PREFIX_TABLE } from '../src/engine/dxcc-table';
+import { parseCallsign } from '../src/callsign';
+
+const parse = (input: string) => parseCallsign(input).callsign as ParsedCallsign;
+
+describe('DXCC Prefix Resolution', () => {
+	const table = compilePrefixTable(BUNDLED_PREFIX_TABLE);
+
+	it('should pick the longest matching prefix', () => {
+		expect(resolvePrefix(table, parse('K1ABC'))?.entity.name).toBe('United States');
+		expect(resolvePrefix(table, parse('KL7AA'))?.entity.name).toBe('Alaska');
+		expect(resolvePrefix(table, parse('KH6XYZ'))?.entity.name).toBe('Hawaii');
+		expect(resolvePrefix(table, parse('MM0ABC'))?.entity.name).toBe('Scotland');
+		expect(resolvePrefix(table, parse('M0ABC'))?.entity.name).toBe('England');
+		expect(resolvePrefix(table, parse('UA9ABC'))?.entity.name).toBe('Asiatic Russia');
+		expect(resolvePrefix(table, parse('UA3ABC'))?.entity.name).toBe('European Russia');
+	});
+
+	it('should prefer exact callsign exceptions', () => {
+		const match = resolvePrefix(table, parse('4U1UN'));
+
+		expect(match?.entity.name).toBe('United Nations HQ');
+		expect(match?.exact).toBe(true);
+	});
+
+	it('should apply prefix and call-area zone overrides', () => {
+		const ontario = resolvePrefix(table, parse('VE3ABC'));
+		expect(ontario?.cqZone).toBe(4);
+		expect(ontario?.ituZone).toBe(4);
+
+		const california = resolvePrefix(table, parse('W6XYZ'));
+		expect(california?.cqZone).toBe(3);
+		expect(california?.ituZone).toBe(6);
+
+		// A district override moves the station to another call area
+		expect(resolvePrefix(table, parse('W6XYZ/1'))?.cqZone).toBe(5);
+	});
+
+	it('should resolve prefix overrides to the host entity', () => {
+		expect(resolvePrefix(table, parse('VE3/W1AW'))?.entity.name).toBe('Canada');
+		expect(resolvePrefix(table, parse('KH6/K1ABC/M'))?.entity.name).toBe('Hawaii');
+	});
+
+	it('should not place maritime and aeronautical mobile stations', () => {
+		expect(resolvePrefix(table, parse('W1AW/MM'))).toBeNull();
+		expect(resolvePrefix(table, parse('W1AW/AM'))).toBeNull();
+		expect(resolvePrefix(table, parse('W1AW/P'))?.entity.name).toBe('United States');
+	});
+
+	it('should use the prefix table from the configuration when present', async () => {
+		const prefixTable: PrefixTable = {
+			version: 'custom-1',
+			entities: [
+				{
+					dxcc: 291,
+					name: 'United States',
+					continent: 'NA',
+					cqZone: 5,
+					ituZone: 8,
+					latitude: 37.53,
+					longitude: -91.67,
+					prefixes: ['K', 'W'],
+				},
+			],
+		};
+		const env: Env = {
+			CONFIG_KV: {
+				get: async () =>
+					JSON.stringify({
+						data: {
+							dataSource: {
+								originZipUrl: 'https://example.com/data.zip',
+								zipFileName: 'data.zip',
+								extractedFileName: 'AM.dat',
+								expectedSchema: { fields: ['callsign'] },
+							},
+							features: {
+								jwtAuth: false,
+								canaryDeployment: false,
+								advancedSearch: true,
+								dataExport: false,
+								externalSync: false,
+							},
+							prefixTable,
+						},
+						version: { version: '1.0.1', hash: 'custom', timestamp: '2026-01-01T00:00:00.000Z' },
+					}),
+			} as unknown as KVNamespace,
+		};
+
+		const custom = await getPrefixTable(env);
+
+		expect(custom.version).toBe('custom-1');
+		expect(resolvePrefix(custom, parse('DL1ABC'))).toBeNull();
+		expect((await getPrefixTable({})).version).toBe(BUNDLED_PREFIX_TABLE.version);
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the expiring-license query and calendar feed
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StoredCallsignRecord } from '../src/types';
+import {
+	buildExpiringCalendar,
+	daysUntil,
+	parseExpiringParams,
+	parseExpiringWindow,
+} from '../src/engine/expiring';
+
+const stored = (record: Record<string, string>): StoredCallsignRecord => ({
+	callsign: record.callsign,
+	record,
+	updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('Expiring Licenses', () => {
+	it('should resolve windows in days, weeks, months and years', () => {
+		expect(parseExpiringWindow('90d', '2026-10-19')).toEqual({ from: '2026-10-19', to: '2027-01-17', days: 90 });
+		expect(parseExpiringWindow('30', '2026-10-19')?.to).toBe('2026-11-18');
+		expect(parseExpiringWindow('2w', '2026-10-19')?.days).toBe(14);
+		expect(parseExpiringWindow('6M', '2026-10-19')?.to).toBe('2027-04-19');
+		expect(parseExpiringWindow('1y', '2026-10-19')).toMatchObject({ to: '2027-10-19', days: 365 });
+		expect(parseExpiringWindow('0d', '2026-10-19')).toBeNull();
+		expect(parseExpiringWindow('3y', '2026-10-19')).toBeNull();
+		expect(parseExpiringWindow('soon', '2026-10-19')).toBeNull();
+		expect(daysUntil('2026-11-18', '2026-10-19')).toBe(30);
+	});
+
+	it('should build an active-only search over the window sorted by expiry', () => {
+		const { query, window, advancedFilters } = parseExpiringParams(
+			{ within: '30d', state: 'ct', class: 'T', expires_after: '2000-01-01', name: 'smith' },
+			'2026-10-19'
+		);
+
+		expect(window).toEqual({ from: '2026-10-19', to: '2026-11-18', days: 30 });
+		expect(query).toMatchObject({
+			expiresAfter: '2026-10-19',
+			expiresBefore: '2026-11-18',
+			states: ['CT'],
+			operatorClasses: ['T'],
+			licenseStatuses: ['A'],
+			sort: 'expires',
+			descending: false,
+		});
+		expect(query?.text).toBeUndefined();
+		expect(advancedFilters).toEqual(['state', 'class']);
+
+		expect(parseExpiringParams({ status: 'expired' }, '2026-10-19').query?.licenseStatuses).toEqual(['E']);
+		expect(parseExpiringParams({}, '2026-10-19').advancedFilters).toEqual([]);
+	});
+
+	it('should take a list of callsigns and reject bad ones', () => {
+		const { query } = parseExpiringParams({ callsigns: 'w1aw, k1abc,W1AW' }, '2026-10-19');
+		expect(query?.callsigns).toEqual(['W1AW', 'K1ABC']);
+
+		expect(parseExpiringParams({ callsigns: 'W1AW,NOT A CALL' }, '2026-10-19').error).toBe(
+			'Invalid callsign: NOT A CALL'
+		);
+		expect(parseExpiringParams({ within: 'forever' }, '2026-10-19').error).toContain('within must be');
+	});
+
+	it('should render one all-day event with a reminder per expiring license', () => {
+		const calendar = buildExpiringCalendar(
+			[
+				stored({
+					callsign: 'K1ABC',
+					first_name: 'Pat',
+					last_name: 'Smith, Jr.',
+					operator_class: 'T',
+					expired_date: '11/18/2026',
+				}),
+				stored({ callsign: 'W1AW' }),
+			],
+			new Date('2026-10-19T12:34:56.789Z')
+		);
+
+		const lines = calendar.split('\r\n');
+		expect(lines[0]).toBe('BEGIN:VCALENDAR');
+		expect(lines).toContain('UID:K1ABC-20261118@ham-radio-callsign-worker');
+		expect(lines).toContain('DTSTAMP:20261019T123456Z');
+		expect(lines).toContain('DTSTART;VALUE=DATE:20261118');
+		expect(lines).toContain('DTEND;VALUE=DATE:20261119');
+		expect(lines).toContain('SUMMARY:K1ABC license expires');
+		expect(lines).toContain('DESCRIPTION:Pat Smith\\, Jr.\\, Technician class');
+		expect(lines).toContain('TRIGGER:-P30D');
+		expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+		expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+	});
+
+	it('should fold long lines to 75 octets', () => {
+		const calendar = buildExpiringCalendar([], new Date(), 'Ä'.repeat(60));
+		const name = calendar.split('\r\n').filter((line) => line.startsWith('X-WR-CALNAME') || line.startsWith(' '));
+
+		expect(name.length).toBeGreaterThan(1);
+		for (const line of name) {
+			expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+		}
+	});
+});
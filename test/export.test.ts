@@ -0,0 +1,463 @@
+/**
+ * Tests for database export jobs and their endpoints
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as dataHandlers from '../src/handlers/data';
+import type { Env } from '../src/types';
+import { SQLITE_PAGE_SIZE } from '../src/engine/sqlite';
+import {
+	EXPORT_CSV_COLUMNS,
+	EXPORT_DOWNLOAD_TTL_SECONDS,
+	EXPORT_RESUME_AFTER_MS,
+	createExportDownloadUrl,
+	exportJobId,
+	getExportJob,
+	parseCallHistoryTemplate,
+	prepareExportJob,
+	resumeExportJobs,
+	runExportJob,
+	verifyExportDownload,
+} from '../src/engine/export';
+import { createMockD1, createMockKV, createMockR2, storedRow } from './helpers/mocks';
+import type { MockR2Object } from './helpers/mocks';
+
+const VERSION = '2026-10-19T06-00-00-000Z';
+
+const SQLITE_SCHEMA = [
+	{
+		type: 'table',
+		name: 'callsigns',
+		tbl_name: 'callsigns',
+		sql: 'CREATE TABLE callsigns (callsign TEXT PRIMARY KEY, data JSON NOT NULL, updated_at TEXT NOT NULL)',
+	},
+	{ type: 'index', name: 'sqlite_autoindex_callsigns_1', tbl_name: 'callsigns', sql: null },
+	{ type: 'index', name: 'idx_unknown', tbl_name: 'callsigns', sql: 'CREATE INDEX idx_unknown ON callsigns(data)' },
+];
+
+/**
+ * D1 stand-in: keyset pages of callsigns plus the latest snapshot, and the
+ * schema, rowid and index-key pages read by SQLite exports
+ */
+function createCallsignsD1(callsigns: Record<string, Record<string, string>>, snapshot = { version: VERSION }) {
+	return createMockD1({
+		first: (sql) =>
+			sql.includes('FROM database_snapshots')
+				? { version: snapshot.version, timestamp: '2026-10-19T06:00:00.000Z', record_count: 0, hash: 'abc', data_path: '' }
+				: null,
+		all: (sql, bound) => {
+			// Read on every query so tests can change the table between steps
+			const rows = Object.keys(callsigns)
+				.sort()
+				.map((callsign, i) => ({
+					rowid: i + 1,
+					...storedRow(callsign, { callsign, ...callsigns[callsign] }, '2026-10-19T06:00:00.000Z'),
+				}));
+			if (sql.includes('FROM sqlite_master')) {
+				return SQLITE_SCHEMA;
+			}
+			if (sql.includes('AS k0')) {
+				// Index keys: (callsign, rowid) pages after the bound key
+				const limit = bound[bound.length - 1] as number;
+				const after = bound.length > 1 ? (bound[0] as string) : '';
+				return rows
+					.filter((row) => row.callsign > after)
+					.slice(0, limit)
+					.map((row) => ({ k0: row.callsign, k1: row.rowid }));
+			}
+			if (sql.startsWith('SELECT rowid')) {
+				const [after, limit] = bound as [number, number];
+				return rows.filter((row) => row.rowid > after).slice(0, limit);
+			}
+			const [after, limit] = bound as [string, number];
+			return rows
+				.filter((row) => row.callsign > after)
+				.slice(0, limit)
+				.map(({ callsign, data, updated_at }) => ({ callsign, data, updated_at }));
+		},
+	});
+}
+
+/**
+ * D1 wrapper whose queries never answer after the first few, like a step the runtime stops
+ */
+function createStalledD1(db: D1Database, calls: number) {
+	let count = 0;
+	const answer = <T>(run: () => Promise<T>) => (++count > calls ? new Promise<T>(() => {}) : run());
+	return {
+		prepare: (sql: string) => ({
+			all: () => answer(() => db.prepare(sql).all()),
+			first: () => answer(() => db.prepare(sql).first()),
+			bind: (...args: unknown[]) => ({ all: () => answer(() => db.prepare(sql).bind(...args).all()) }),
+		}),
+	} as unknown as D1Database;
+}
+
+const CALLSIGNS = {
+	K1ABC: { first_name: 'Pat', last_name: 'Smith, Jr.', operator_class: 'E', license_status: 'A' },
+	W1AW: { entity_name: 'ARRL "HQ" Club', license_status: 'A', zip_code: '06111' },
+	N1OLD: { first_name: 'Sam', last_name: 'Jones', operator_class: 'T', license_status: 'E' },
+};
+
+describe('Export Jobs', () => {
+	let kv: Map<string, string>;
+	let objects: Map<string, MockR2Object>;
+	let partSizes: number[];
+	let env: Env;
+
+	beforeEach(() => {
+		kv = new Map();
+		objects = new Map();
+		partSizes = [];
+		env = {
+			ENVIRONMENT: 'test',
+			CALLSIGN_DB: createCallsignsD1(CALLSIGNS),
+			METADATA_STORE: createMockKV(kv),
+			DATA_EXPORTS: createMockR2(objects, partSizes),
+		};
+	});
+
+	const text = (key: string) => new TextDecoder().decode(objects.get(key)!.body);
+
+	it('should derive one job id per format and data version', async () => {
+		expect(await exportJobId('csv', VERSION)).toMatch(/^[0-9a-f]{16}$/);
+		expect(await exportJobId('csv', VERSION)).toBe(await exportJobId('csv', VERSION));
+		expect(await exportJobId('csv', VERSION)).not.toBe(await exportJobId('json', VERSION));
+	});
+
+	it('should write CSV in equal multipart parts', async () => {
+		const { job, start } = await prepareExportJob(env, 'csv', VERSION);
+		expect(start).toBe(true);
+		expect(job.objectKey).toBe(`exports/callsigns-${VERSION}.csv`);
+
+		expect(await runExportJob(env, job, { partSize: 64 })).toBe('complete');
+
+		const lines = text(job.objectKey).split('\r\n');
+		expect(lines[0]).toBe(EXPORT_CSV_COLUMNS.join(','));
+		expect(lines[1]).toMatch(/^K1ABC,"Pat Smith, Jr\.",Extra,E,A,/);
+		expect(lines[2]).toMatch(/^N1OLD,Sam Jones,Technician,T,E,/);
+		expect(lines[3]).toMatch(/^W1AW,"ARRL ""HQ"" Club",,,A,/);
+		expect(lines[4]).toBe('');
+		// The first part is uploaded last, so only one part may be short
+		expect(partSizes.filter((size) => size !== 64)).toHaveLength(1);
+		expect(partSizes.length).toBeGreaterThan(2);
+
+		const stored = JSON.parse(kv.get(`exports:job:${job.id}`)!);
+		expect(stored).toMatchObject({ status: 'complete', records: 3, bytes: objects.get(job.objectKey)!.body.length });
+	});
+
+	it('should write JSON and NDJSON documents', async () => {
+		const json = (await prepareExportJob(env, 'json', VERSION)).job;
+		await runExportJob(env, json);
+		const document = JSON.parse(text(json.objectKey));
+		expect(document.data_version).toBe(VERSION);
+		expect(document.records.map((r: { callsign: string }) => r.callsign)).toEqual(['K1ABC', 'N1OLD', 'W1AW']);
+
+		const ndjson = (await prepareExportJob(env, 'ndjson', VERSION)).job;
+		await runExportJob(env, ndjson);
+		const lines = text(ndjson.objectKey).trim().split('\n');
+		expect(lines.map((line) => JSON.parse(line).callsign)).toEqual(['K1ABC', 'N1OLD', 'W1AW']);
+		expect(objects.get(ndjson.objectKey)!.contentType).toBe('application/x-ndjson');
+	});
+
+	it('should parse call history column templates', () => {
+		expect(parseCallHistoryTemplate('call, Name:First ,grid')).toEqual({
+			columns: ['call:Call', 'name:First', 'grid:Grid'],
+		});
+		expect(parseCallHistoryTemplate('call,qth').error).toMatch(/^Unknown call history column: qth\./);
+		expect(parseCallHistoryTemplate('call:Bad Label').error).toBe('Invalid call history label: Bad Label');
+		expect(parseCallHistoryTemplate(' , ').error).toBe('columns must list 1 to 12 call history columns');
+	});
+
+	it('should write call history files of active licenses', async () => {
+		const { job } = await prepareExportJob(env, 'callhistory', VERSION);
+		expect(job.columns).toEqual(['call:Call', 'name:Name', 'state:State', 'class:Class', 'grid:Grid']);
+		await runExportJob(env, job);
+
+		const lines = text(job.objectKey).split('\r\n');
+		expect(lines[0]).toBe(`# ham-radio-callsign-worker call history, data version ${VERSION}`);
+		expect(lines[1]).toBe('!!Order!!,Call,Name,State,Class,Grid');
+		expect(lines.slice(2)).toEqual(['K1ABC,Pat,,E,', 'W1AW,ARRL "HQ" Club,,,FN31', '']);
+
+		// Each template is its own job and file
+		const custom = (await prepareExportJob(env, 'callhistory', VERSION, { columns: ['call:Call', 'zip:Zip'] })).job;
+		expect(custom.id).not.toBe(job.id);
+		expect(custom.objectKey).toBe(`exports/callsigns-${VERSION}-${custom.id}.txt`);
+		await runExportJob(env, custom);
+		expect(text(custom.objectKey).split('\r\n').slice(1, 4)).toEqual(['!!Order!!,Call,Zip', 'K1ABC,', 'W1AW,06111']);
+	});
+
+	it('should write a SQLite file with the table and known indexes', async () => {
+		const { job } = await prepareExportJob(env, 'sqlite', VERSION);
+		expect(job.objectKey).toBe(`exports/callsigns-${VERSION}.sqlite`);
+		expect(await runExportJob(env, job)).toBe('complete');
+
+		const body = objects.get(job.objectKey)!.body;
+		const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+		expect(new TextDecoder().decode(body.subarray(0, 15))).toBe('SQLite format 3');
+		expect(view.getUint16(16)).toBe(SQLITE_PAGE_SIZE);
+		expect(body.length % SQLITE_PAGE_SIZE).toBe(0);
+		expect(view.getUint32(28)).toBe(body.length / SQLITE_PAGE_SIZE);
+
+		// sqlite_master lists the table and the primary key index, not the unknown index
+		expect(body[100]).toBe(0x0d);
+		expect(view.getUint16(103)).toBe(2);
+		const schema = new TextDecoder().decode(body.subarray(0, SQLITE_PAGE_SIZE));
+		expect(schema).toContain('sqlite_autoindex_callsigns_1');
+		expect(schema).not.toContain('idx_unknown');
+
+		// One leaf page each for the table and the index
+		expect(body.length).toBe(3 * SQLITE_PAGE_SIZE);
+		expect(body[SQLITE_PAGE_SIZE]).toBe(0x0d);
+		expect(body[2 * SQLITE_PAGE_SIZE]).toBe(0x0a);
+		expect(JSON.parse(kv.get(`exports:job:${job.id}`)!)).toMatchObject({ status: 'complete', records: 3 });
+	});
+
+	it('should reuse finished and running jobs and resume idle ones', async () => {
+		const now = new Date('2026-10-19T12:00:00.000Z');
+		const first = await prepareExportJob(env, 'csv', VERSION, { now });
+		expect(kv.has(`exports:active:${first.job.id}`)).toBe(true);
+		expect((await prepareExportJob(env, 'csv', VERSION, { now })).start).toBe(false);
+
+		// An idle job is the same job, to be continued rather than started over
+		const later = new Date(now.getTime() + EXPORT_RESUME_AFTER_MS);
+		const idle = await prepareExportJob(env, 'csv', VERSION, { now: later });
+		expect(idle).toMatchObject({ start: true, job: { id: first.job.id, secret: first.job.secret } });
+
+		await runExportJob(env, first.job);
+		expect(kv.has(`exports:active:${first.job.id}`)).toBe(false);
+		const reused = await prepareExportJob(env, 'csv', VERSION, { now: later });
+		expect(reused).toMatchObject({ start: false, job: { status: 'complete' } });
+
+		objects.clear();
+		expect((await prepareExportJob(env, 'csv', VERSION, { now: later })).start).toBe(true);
+	});
+
+	it('should checkpoint a job and resume it after a step is cut short', async () => {
+		for (const format of ['csv', 'sqlite'] as const) {
+			// The SQLite header is patched into the first part, which must hold page 1
+			const partSize = format === 'sqlite' ? SQLITE_PAGE_SIZE : 64;
+			const whole = (await prepareExportJob(env, format, VERSION)).job;
+			expect(await runExportJob(env, whole, { partSize })).toBe('complete');
+			const expected = objects.get(whole.objectKey)!.body;
+			kv.clear();
+			objects.clear();
+
+			// Each step stops after its first page
+			const { job } = await prepareExportJob(env, format, VERSION);
+			expect(await runExportJob(env, job, { partSize, pageSize: 1, deadline: 0 })).toBe('running');
+			const paused = (await getExportJob(env, job.id))!;
+			expect(paused).toMatchObject({ status: 'running', records: 1, checkpoint: { step: 1, records: 1 } });
+
+			// A step stopped by the runtime leaves the checkpoint in place
+			const db = env.CALLSIGN_DB!;
+			env.CALLSIGN_DB = createStalledD1(db, 2);
+			void runExportJob(env, paused, { partSize, pageSize: 1 });
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			env.CALLSIGN_DB = db;
+			expect((await getExportJob(env, job.id))!.checkpoint?.step).toBe(1);
+
+			let status = 'running';
+			for (let steps = 0; status === 'running' && steps < 20; steps++) {
+				status = await runExportJob(env, (await getExportJob(env, job.id))!, { partSize, pageSize: 1, deadline: 0 });
+			}
+			expect(status).toBe('complete');
+			expect(objects.get(job.objectKey)!.body).toEqual(expected);
+			expect(JSON.parse(kv.get(`exports:job:${job.id}`)!)).toMatchObject({ status: 'complete', records: 3 });
+			expect(JSON.parse(kv.get(`exports:job:${job.id}`)!).checkpoint).toBeUndefined();
+			expect([...objects.keys()].filter((key) => key.startsWith('exports/.checkpoints/'))).toEqual([]);
+			expect(kv.has(`exports:active:${job.id}`)).toBe(false);
+
+			// A stale copy of a replaced checkpoint does not run
+			expect(await runExportJob(env, paused, { partSize })).toBe('running');
+			expect(JSON.parse(kv.get(`exports:job:${job.id}`)!).status).toBe('complete');
+			kv.clear();
+			objects.clear();
+		}
+	});
+
+	it('should fail a job when a patch is applied between its steps', async () => {
+		const callsigns: Record<string, Record<string, string>> = { ...CALLSIGNS };
+		const snapshot = { version: VERSION };
+		env.CALLSIGN_DB = createCallsignsD1(callsigns, snapshot);
+
+		for (const format of ['csv', 'sqlite'] as const) {
+			const partSize = format === 'sqlite' ? SQLITE_PAGE_SIZE : 64;
+			snapshot.version = VERSION;
+			const { job } = await prepareExportJob(env, format, VERSION);
+			expect(await runExportJob(env, job, { partSize, pageSize: 1, deadline: 0 })).toBe('running');
+
+			// The pipeline applies the next patch before the job's next step
+			callsigns.AA1NEW = { first_name: 'Ann', license_status: 'A' };
+			snapshot.version = '2026-10-20T06-00-00-000Z';
+			expect(await runExportJob(env, (await getExportJob(env, job.id))!, { partSize, pageSize: 1 })).toBe('failed');
+
+			const failed = (await getExportJob(env, job.id))!;
+			expect(failed.status).toBe('failed');
+			expect(failed.checkpoint).toBeUndefined();
+			expect(failed.error).toBe(`Data version changed from ${VERSION} to 2026-10-20T06-00-00-000Z during the export`);
+			expect(objects.has(job.objectKey)).toBe(false);
+			expect([...objects.keys()].filter((key) => key.startsWith('exports/.checkpoints/'))).toEqual([]);
+			expect(kv.has(`exports:active:${job.id}`)).toBe(false);
+			delete callsigns.AA1NEW;
+		}
+
+		// A new request exports the new version from the start
+		snapshot.version = '2026-10-20T06-00-00-000Z';
+		const { job, start } = await prepareExportJob(env, 'csv', snapshot.version);
+		expect(start).toBe(true);
+		expect(await runExportJob(env, job)).toBe('complete');
+	});
+
+	it('should run the next step of idle jobs from the cron trigger', async () => {
+		const { job } = await prepareExportJob(env, 'ndjson', VERSION);
+		expect(await resumeExportJobs(env)).toBe(0);
+
+		const stored = JSON.parse(kv.get(`exports:job:${job.id}`)!);
+		stored.updatedAt = new Date(Date.now() - EXPORT_RESUME_AFTER_MS).toISOString();
+		kv.set(`exports:job:${job.id}`, JSON.stringify(stored));
+		expect(await resumeExportJobs(env)).toBe(1);
+		expect(JSON.parse(kv.get(`exports:job:${job.id}`)!)).toMatchObject({ status: 'complete', records: 3 });
+
+		expect(await resumeExportJobs(env)).toBe(0);
+		expect([...kv.keys()].filter((key) => key.startsWith('exports:active:'))).toEqual([]);
+	});
+
+	it('should sign download URLs that expire', async () => {
+		const { job } = await prepareExportJob(env, 'csv', VERSION);
+		const now = new Date('2026-10-19T12:00:00.000Z');
+		const { url, expiresAt } = await createExportDownloadUrl(job, now);
+		const query = new URL(url, 'http://localhost').searchParams;
+
+		expect(expiresAt).toBe(new Date(now.getTime() + EXPORT_DOWNLOAD_TTL_SECONDS * 1000).toISOString());
+		expect(await verifyExportDownload(job, query.get('expires')!, query.get('signature')!, now)).toBe(true);
+		expect(await verifyExportDownload(job, query.get('expires')!, 'bad', now)).toBe(false);
+		expect(await verifyExportDownload(job, String(Number(query.get('expires')) + 60), query.get('signature')!, now)).toBe(
+			false
+		);
+		const afterExpiry = new Date(now.getTime() + (EXPORT_DOWNLOAD_TTL_SECONDS + 1) * 1000);
+		expect(await verifyExportDownload(job, query.get('expires')!, query.get('signature')!, afterExpiry)).toBe(false);
+	});
+
+	describe('endpoints', () => {
+		const pending: Promise<unknown>[] = [];
+		const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as unknown as ExecutionContext;
+		const call = (
+			handler: (r: Request, e: Env, c: ExecutionContext, p?: Record<string, string>) => Promise<Response>,
+			path: string,
+			params?: Record<string, string>
+		) => handler(new Request(`http://localhost${path}`), env, ctx, params);
+
+		it('should start a job, report its status and serve the download', async () => {
+			const started = await call(dataHandlers.exportDatabase, '/api/v1/export?format=csv');
+			expect(started.status).toBe(202);
+			const startBody = (await started.json()) as {
+				data: { job_id: string; status: string; reused: boolean; status_url: string };
+			};
+			expect(startBody.data).toMatchObject({ status: 'pending', reused: false });
+			expect(startBody.data.status_url).toBe(`/api/v1/export/${startBody.data.job_id}`);
+
+			await Promise.all(pending);
+
+			const again = await call(dataHandlers.exportDatabase, '/api/v1/export?format=csv');
+			expect(again.status).toBe(200);
+			expect(((await again.json()) as { data: { reused: boolean } }).data.reused).toBe(true);
+
+			const status = await call(dataHandlers.getExportJobStatus, startBody.data.status_url, {
+				jobId: startBody.data.job_id,
+			});
+			const statusBody = (await status.json()) as {
+				data: { status: string; records: number; download_url: string; download_expires_at: string };
+			};
+			expect(statusBody.data).toMatchObject({ status: 'complete', records: 3 });
+			expect(statusBody.data.download_expires_at).toBeDefined();
+
+			const download = await call(dataHandlers.downloadExport, statusBody.data.download_url, {
+				jobId: startBody.data.job_id,
+			});
+			expect(download.status).toBe(200);
+			expect(download.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+			expect(download.headers.get('Content-Disposition')).toBe(
+				`attachment; filename="callsigns-${VERSION}.csv"`
+			);
+			expect((await download.text()).split('\r\n')[1]).toMatch(/^K1ABC,/);
+
+			const tampered = await call(
+				dataHandlers.downloadExport,
+				statusBody.data.download_url.replace(/signature=\w/, 'signature=x'),
+				{ jobId: startBody.data.job_id }
+			);
+			expect(tampered.status).toBe(403);
+		});
+
+		it('should run the next step of an idle job when its status is polled', async () => {
+			const { job } = await prepareExportJob(env, 'csv', VERSION);
+			kv.set(
+				`exports:job:${job.id}`,
+				JSON.stringify({ ...job, updatedAt: new Date(Date.now() - EXPORT_RESUME_AFTER_MS).toISOString() })
+			);
+
+			const polled = await call(dataHandlers.getExportJobStatus, `/api/v1/export/${job.id}`, { jobId: job.id });
+			expect(((await polled.json()) as { data: { status: string } }).data.status).toBe('pending');
+			await Promise.all(pending);
+			expect(JSON.parse(kv.get(`exports:job:${job.id}`)!).status).toBe('complete');
+		});
+
+		it('should reject unknown formats and jobs', async () => {
+			expect((await call(dataHandlers.exportDatabase, '/api/v1/export?format=xml')).status).toBe(400);
+			expect((await call(dataHandlers.getExportJobStatus, '/api/v1/export/abc', { jobId: 'abc' })).status).toBe(404);
+			expect((await call(dataHandlers.getExportJobStatus, '/api/v1/export/..', { jobId: '..' })).status).toBe(404);
+		});
+
+		it('should validate call history columns', async () => {
+			const wrongFormat = await call(dataHandlers.exportDatabase, '/api/v1/export?format=csv&columns=call');
+			expect(wrongFormat.status).toBe(400);
+			expect(((await wrongFormat.json()) as { message: string }).message).toBe(
+				'columns only applies to format=callhistory'
+			);
+
+			const unknown = await call(dataHandlers.exportDatabase, '/api/v1/export?format=callhistory&columns=call,qth');
+			expect(unknown.status).toBe(400);
+
+			const started = await call(
+				dataHandlers.exportDatabase,
+				'/api/v1/export?format=callhistory&columns=call,name:First'
+			);
+			expect(started.status).toBe(202);
+			const body = (await started.json()) as { data: { columns: string[] } };
+			expect(body.data.columns).toEqual(['call:Call', 'name:First']);
+			await Promise.all(pending);
+		});
+
+		it('should refuse exports while dataExport is disabled', async () => {
+			env.CONFIG_KV = {
+				get: async () =>
+					JSON.stringify({
+						data: {
+							dataSource: {
+								originZipUrl: 'https://example.com/data.zip',
+								zipFileName: 'data.zip',
+								extractedFileName: 'AM.dat',
+								expectedSchema: { fields: ['record_type', 'unique_system_identifier', 'callsign'] },
+							},
+							features: {
+								jwtAuth: false,
+								canaryDeployment: false,
+								advancedSearch: true,
+								dataExport: false,
+								externalSync: false,
+							},
+						},
+						version: { version: '1.0.0', hash: 'abc', timestamp: '2026-01-01T00:00:00.000Z' },
+					}),
+			} as unknown as KVNamespace;
+
+			for (const format of ['csv', 'scp']) {
+				const response = await call(dataHandlers.exportDatabase, `/api/v1/export?format=${format}`);
+				expect(response.status).toBe(403);
+			}
+			expect((await call(dataHandlers.getExportJobStatus, '/api/v1/export/abc', { jobId: 'abc' })).status).toBe(403);
+			expect(kv.size).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,318 @@
+/**
+ * Tests for the ZIP extraction engine
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import type { Env, ConfigData } from '../src/types';
+import { extractFromZip, listZipFiles, validateFilePresence } from '../src/engine/extract';
+
+interface TestZipEntry {
+	name: string;
+	content: string;
+	method?: 0 | 8;
+	crc32?: number;
+	dataDescriptor?: boolean;
+	encrypted?: boolean;
+}
+
+interface TestZipOptions {
+	zip64?: boolean;
+	diskNumber?: number;
+}
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc ^= byte;
+		for (let k = 0; k < 8; k++) {
+			crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+		}
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a minimal ZIP archive in memory
+ * With zip64 set, central directory sizes and offsets are moved into the
+ * extended information extra field and a ZIP64 end record is written.
+ */
+function buildZip(entries: TestZipEntry[], options: TestZipOptions = {}): ArrayBuffer {
+	const encoder = new TextEncoder();
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const raw = encoder.encode(entry.content);
+		const method = entry.method ?? 8;
+		const data = method === 8 ? new Uint8Array(deflateRawSync(raw)) : raw;
+		const crc = entry.crc32 ?? crc32(raw);
+		const flags = (entry.encrypted ? 0x0001 : 0) | (entry.dataDescriptor ? 0x0008 : 0);
+		const descriptorLength = entry.dataDescriptor ? 16 : 0;
+
+		const local = new Uint8Array(30 + name.length + data.length + descriptorLength);
+		const lv = new DataView(local.buffer);
+		lv.setUint32(0, 0x04034b50, true);
+		lv.setUint16(4, 20, true);
+		lv.setUint16(6, flags, true);
+		lv.setUint16(8, method, true);
+		if (!entry.dataDescriptor) {
+			lv.setUint32(14, crc, true);
+			lv.setUint32(18, data.length, true);
+			lv.setUint32(22, raw.length, true);
+		}
+		lv.setUint16(26, name.length, true);
+		local.set(name, 30);
+		local.set(data, 30 + name.length);
+		if (entry.dataDescriptor) {
+			const descriptorPos = 30 + name.length + data.length;
+			lv.setUint32(descriptorPos, 0x08074b50, true);
+			lv.setUint32(descriptorPos + 4, crc, true);
+			lv.setUint32(descriptorPos + 8, data.length, true);
+			lv.setUint32(descriptorPos + 12, raw.length, true);
+		}
+
+		const extraLength = options.zip64 ? 28 : 0;
+		const central = new Uint8Array(46 + name.length + extraLength);
+		const cv = new DataView(central.buffer);
+		cv.setUint32(0, 0x02014b50, true);
+		cv.setUint16(4, 45, true);
+		cv.setUint16(6, 45, true);
+		cv.setUint16(8, flags, true);
+		cv.setUint16(10, method, true);
+		cv.setUint32(16, crc, true);
+		cv.setUint16(28, name.length, true);
+		cv.setUint16(30, extraLength, true);
+		cv.setUint16(34, options.diskNumber ?? 0, true);
+		central.set(name, 46);
+		if (options.zip64) {
+			cv.setUint32(20, 0xffffffff, true);
+			cv.setUint32(24, 0xffffffff, true);
+			cv.setUint32(42, 0xffffffff, true);
+			const extraPos = 46 + name.length;
+			cv.setUint16(extraPos, 0x0001, true);
+			cv.setUint16(extraPos + 2, 24, true);
+			cv.setBigUint64(extraPos + 4, BigInt(raw.length), true);
+			cv.setBigUint64(extraPos + 12, BigInt(data.length), true);
+			cv.setBigUint64(extraPos + 20, BigInt(offset), true);
+		} else {
+			cv.setUint32(20, data.length, true);
+			cv.setUint32(24, raw.length, true);
+			cv.setUint32(42, offset, true);
+		}
+
+		localParts.push(local);
+		centralParts.push(central);
+		offset += local.length;
+	}
+
+	const cdSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+	const trailer: Uint8Array[] = [];
+
+	if (options.zip64) {
+		const record = new Uint8Array(56);
+		const rv = new DataView(record.buffer);
+		rv.setUint32(0, 0x06064b50, true);
+		rv.setBigUint64(4, 44n, true);
+		rv.setUint16(12, 45, true);
+		rv.setUint16(14, 45, true);
+		rv.setBigUint64(24, BigInt(entries.length), true);
+		rv.setBigUint64(32, BigInt(entries.length), true);
+		rv.setBigUint64(40, BigInt(cdSize), true);
+		rv.setBigUint64(48, BigInt(offset), true);
+
+		const locator = new Uint8Array(20);
+		const lv = new DataView(locator.buffer);
+		lv.setUint32(0, 0x07064b50, true);
+		lv.setBigUint64(8, BigInt(offset + cdSize), true);
+		lv.setUint32(16, 1, true);
+
+		trailer.push(record, locator);
+	}
+
+	const eocd = new Uint8Array(22);
+	const ev = new DataView(eocd.buffer);
+	ev.setUint32(0, 0x06054b50, true);
+	ev.setUint16(4, options.diskNumber ?? 0, true);
+	ev.setUint16(6, options.diskNumber ?? 0, true);
+	ev.setUint16(8, options.zip64 ? 0xffff : entries.length, true);
+	ev.setUint16(10, options.zip64 ? 0xffff : entries.length, true);
+	ev.setUint32(12, options.zip64 ? 0xffffffff : cdSize, true);
+	ev.setUint32(16, options.zip64 ? 0xffffffff : offset, true);
+	trailer.push(eocd);
+
+	const parts = [...localParts, ...centralParts, ...trailer];
+	const total = parts.reduce((sum, p) => sum + p.length, 0);
+	const out = new Uint8Array(total);
+	let pos = 0;
+	for (const part of parts) {
+		out.set(part, pos);
+		pos += part.length;
+	}
+	return out.buffer;
+}
+
+describe('Extraction Engine', () => {
+	let env: Env;
+	let config: ConfigData;
+
+	beforeEach(() => {
+		env = {
+			ENVIRONMENT: 'test',
+			LOG_LEVEL: 'info',
+		};
+
+		config = {
+			dataSource: {
+				originZipUrl: 'https://example.com/data.zip',
+				zipFileName: 'data.zip',
+				extractedFileName: 'AM.dat',
+				expectedSchema: {
+					fields: ['record_type', 'unique_system_identifier', 'callsign'],
+					delimiter: '|',
+					hasHeader: false,
+				},
+			},
+			features: {
+				jwtAuth: false,
+				canaryDeployment: false,
+				advancedSearch: false,
+				dataExport: false,
+				externalSync: false,
+			},
+		};
+	});
+
+	describe('extractFromZip', () => {
+		it('should decompress deflate entries', async () => {
+			const content = 'AM|1|K1ABC\nAM|2|W2XYZ\n'.repeat(5000);
+			const zip = buildZip([{ name: 'AM.dat', content }]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(true);
+			expect(result.content).toBe(content);
+			expect(result.metadata.uncompressedSize).toBe(content.length);
+			expect(result.metadata.compressedSize).toBeLessThan(content.length);
+		});
+
+		it('should extract stored entries', async () => {
+			const content = 'AM|1|K1ABC\n';
+			const zip = buildZip([{ name: 'AM.dat', content, method: 0 }]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(true);
+			expect(result.content).toBe(content);
+			expect(result.metadata.compressedSize).toBe(content.length);
+		});
+
+		it('should fail when the CRC-32 does not match the central directory', async () => {
+			const zip = buildZip([{ name: 'AM.dat', content: 'AM|1|K1ABC\n', crc32: 0x12345678 }]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain('CRC-32 mismatch');
+		});
+
+		it('should fail when the target file is missing', async () => {
+			const zip = buildZip([{ name: 'EN.dat', content: 'EN|1|K1ABC\n' }]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("'AM.dat' not found");
+		});
+
+		it('should take sizes from the central directory for data-descriptor entries', async () => {
+			const content = 'AM|1|K1ABC\nAM|2|W2XYZ\n';
+			const zip = buildZip([{ name: 'AM.dat', content, dataDescriptor: true }]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(true);
+			expect(result.content).toBe(content);
+		});
+
+		it('should read ZIP64 archives', async () => {
+			const content = 'AM|1|K1ABC\n';
+			const zip = buildZip(
+				[
+					{ name: 'EN.dat', content: 'EN|1|K1ABC\n' },
+					{ name: 'AM.dat', content },
+				],
+				{ zip64: true }
+			);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(true);
+			expect(result.content).toBe(content);
+			expect(result.metadata.uncompressedSize).toBe(content.length);
+		});
+
+		it('should reject encrypted entries', async () => {
+			const zip = buildZip([{ name: 'AM.dat', content: 'AM|1|K1ABC\n', encrypted: true }]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("Encrypted ZIP entry 'AM.dat'");
+		});
+
+		it('should reject multi-disk archives', async () => {
+			const zip = buildZip([{ name: 'AM.dat', content: 'AM|1|K1ABC\n' }], { diskNumber: 1 });
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain('Multi-disk ZIP archives are not supported');
+		});
+
+		it('should extract and join multiple configured files', async () => {
+			config.dataSource.files = [
+				{
+					fileName: 'EN.dat',
+					expectedSchema: {
+						fields: ['record_type', 'unique_system_identifier', 'callsign', 'entity_name'],
+						delimiter: '|',
+						hasHeader: false,
+					},
+				},
+				{ fileName: 'AM.dat', expectedSchema: config.dataSource.expectedSchema },
+			];
+			const zip = buildZip([
+				{ name: 'AM.dat', content: 'AM|1|K1ABC\n' },
+				{ name: 'EN.dat', content: 'EN|1|K1ABC|Alice Smith\n' },
+			]);
+
+			const result = await extractFromZip(env, zip, config);
+
+			expect(result.success).toBe(true);
+			expect(result.metadata.joinedRecords).toBe(1);
+			expect(result.metadata.files).toHaveLength(2);
+			expect(result.content).toContain('K1ABC|1|Alice Smith');
+			expect(result.files?.['EN.dat']).toBe('EN|1|K1ABC|Alice Smith\n');
+		});
+	});
+
+	describe('validateFilePresence', () => {
+		it('should report whether a file exists in the archive', () => {
+			const zip = buildZip([{ name: 'AM.dat', content: 'AM|1|K1ABC\n' }]);
+
+			expect(validateFilePresence(zip, 'AM.dat')).toBe(true);
+			expect(validateFilePresence(zip, 'HD.dat')).toBe(false);
+		});
+	});
+
+	describe('listZipFiles', () => {
+		it('should throw for multi-disk archives', () => {
+			const zip = buildZip([{ name: 'AM.dat', content: 'AM|1|K1ABC\n' }], { diskNumber: 2 });
+
+			expect(() => listZipFiles(zip)).toThrow('Multi-disk');
+		});
+	});
+});
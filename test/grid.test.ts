@@ -0,0 +1,116 @@
+/**
+ * Tests for Maidenhead locators, great-circle paths and ZIP centroids
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	formatGrid,
+	greatCirclePath,
+	gridToLatLon,
+	isValidGrid,
+	latLonToGrid,
+} from '../src/engine/grid';
+import { lookupZipCentroid, lookupZipLocation } from '../src/engine/zip-centroids';
+
+describe('Maidenhead Locators', () => {
+	it('should encode a point at each precision', () => {
+		const newington = { latitude: 41.714775, longitude: -72.72726 };
+
+		expect(latLonToGrid(newington, 2)).toBe('FN');
+		expect(latLonToGrid(newington, 4)).toBe('FN31');
+		expect(latLonToGrid(newington)).toBe('FN31pr');
+		expect(latLonToGrid(newington, 8)).toBe('FN31pr21');
+	});
+
+	it('should keep the poles and the antimeridian inside the grid', () => {
+		expect(latLonToGrid({ latitude: 90, longitude: 180 })).toBe('RR99xx');
+		expect(latLonToGrid({ latitude: -90, longitude: -180 })).toBe('AA00aa');
+	});
+
+	it('should decode a locator to its centre', () => {
+		expect(gridToLatLon('JO')).toEqual({ latitude: 55, longitude: 10 });
+		expect(gridToLatLon('FN31')).toEqual({ latitude: 41.5, longitude: -73 });
+
+		const subsquare = gridToLatLon('fn31PR');
+		expect(subsquare?.latitude).toBeCloseTo(41.7292, 4);
+		expect(subsquare?.longitude).toBeCloseTo(-72.7083, 4);
+		expect(latLonToGrid(subsquare!)).toBe('FN31pr');
+	});
+
+	it('should validate and format locators', () => {
+		expect(isValidGrid('FN31pr')).toBe(true);
+		expect(isValidGrid('fn31')).toBe(true);
+		expect(isValidGrid('FN3')).toBe(false);
+		expect(isValidGrid('SN31')).toBe(false);
+		expect(isValidGrid('FN31zz')).toBe(false);
+		expect(gridToLatLon('W1AW')).toBeNull();
+		expect(formatGrid('fn31PR')).toBe('FN31pr');
+	});
+});
+
+describe('Great-circle Paths', () => {
+	it('should compute distance and short/long path bearings', () => {
+		const path = greatCirclePath({ latitude: 51.5, longitude: 0 }, { latitude: 40.7, longitude: -74 });
+
+		expect(path.distanceKm).toBeGreaterThan(5550);
+		expect(path.distanceKm).toBeLessThan(5600);
+		expect(path.distanceMi).toBeCloseTo(path.distanceKm / 1.609344, 0);
+		expect(path.shortPathBearing).toBeCloseTo(288.3, 0);
+		expect(path.longPathBearing).toBeCloseTo(108.3, 0);
+		expect(path.distanceKm + path.longPathKm).toBeCloseTo(40030.2, 0);
+	});
+
+	it('should return zero distance for the same point', () => {
+		expect(greatCirclePath({ latitude: 10, longitude: 10 }, { latitude: 10, longitude: 10 }).distanceKm).toBe(0);
+	});
+});
+
+describe('ZIP Centroids', () => {
+	it('should place known ZIP codes in their true 4-character square', () => {
+		// ZIP code, and the square of a landmark in it
+		const known: Array<[string, string]> = [
+			['06111', 'FN31'], // ARRL HQ, Newington CT
+			['04101', 'FN43'], // Portland ME
+			['10001', 'FN30'], // New York NY
+			['33131', 'EL95'], // Miami FL
+			['55401', 'EN34'], // Minneapolis MN
+			['58501', 'DN96'], // Bismarck ND
+			['59601', 'DN36'], // Helena MT
+			['82001', 'DN71'], // Cheyenne WY
+			['85004', 'DM33'], // Phoenix AZ
+			['94105', 'CM87'], // San Francisco CA
+			['96813', 'BL11'], // Honolulu HI
+			['99501', 'BP51'], // Anchorage AK
+			['00901', 'FK68'], // San Juan PR
+		];
+		for (const [zip, grid] of known) {
+			const location = lookupZipLocation(zip);
+			expect(location?.source, zip).toBe('zip5');
+			expect(latLonToGrid(location!, 4), zip).toBe(grid);
+		}
+		expect(lookupZipLocation('06111-1494')).toEqual({ latitude: 41.69, longitude: -72.73, source: 'zip5' });
+	});
+
+	it('should fall back to the 3-digit prefix for ZIP codes without a ZCTA', () => {
+		// The White House has its own ZIP code
+		const location = lookupZipLocation('20500');
+		expect(location).toEqual({ latitude: 38.9, longitude: -77.03, source: 'zip3' });
+		expect(latLonToGrid(location!, 4)).toBe('FM18');
+		expect(lookupZipLocation('09012')).toBeNull();
+		expect(lookupZipLocation('0611')).toBeNull();
+	});
+
+	it('should look up 5-digit and ZIP+4 codes by prefix', () => {
+		expect(lookupZipCentroid('06111')).toEqual({ latitude: 41.75, longitude: -72.7 });
+		expect(lookupZipCentroid('061111234')).toEqual({ latitude: 41.75, longitude: -72.7 });
+		expect(lookupZipCentroid('94105-1234')).toEqual({ latitude: 37.6, longitude: -122.3 });
+		expect(lookupZipCentroid('99501')?.latitude).toBe(61.2);
+	});
+
+	it('should return null for military, unknown and malformed codes', () => {
+		expect(lookupZipCentroid('09012')).toBeNull();
+		expect(lookupZipCentroid('96201')).toBeNull();
+		expect(lookupZipCentroid('1234')).toBeNull();
+		expect(lookupZipCentroid(undefined)).toBeNull();
+	});
+});
@@ -0,0 +1,166 @@
+/**
+ * In-memory stand-ins for the D1, KV and R2 bindings shared by the tests
+ *
+ * Not a test file itself: vitest only collects *.test.ts.
+ */
+
+/**
+ * Query as a D1 stand-in saw it
+ */
+export interface ExecutedQuery {
+	sql: string;
+	bindings: unknown[];
+}
+
+/**
+ * Answers of a D1 stand-in to a prepared statement and its bindings
+ */
+export interface MockD1Answers {
+	all?: (sql: string, bindings: unknown[]) => unknown[];
+	first?: (sql: string, bindings: unknown[]) => unknown;
+}
+
+/**
+ * Stored object of the R2 stand-in
+ */
+export interface MockR2Object {
+	body: Uint8Array;
+	contentType?: string;
+	customMetadata?: Record<string, string>;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Row of the callsigns table holding a record
+ */
+export function storedRow(callsign: string, record: Record<string, string>, updatedAt = '2026-01-01T00:00:00.000Z') {
+	return { callsign, data: JSON.stringify(record), updated_at: updatedAt };
+}
+
+/**
+ * D1 stand-in: statements answer all() and first() from the given functions
+ * and record each bound query in executed
+ */
+export function createMockD1(answers: MockD1Answers, executed: ExecutedQuery[] = []) {
+	return {
+		prepare: (sql: string) => {
+			let bindings: unknown[] = [];
+			const statement = {
+				bind: (...args: unknown[]) => {
+					bindings = args;
+					executed.push({ sql, bindings: args });
+					return statement;
+				},
+				all: async () => ({ results: answers.all?.(sql, bindings) ?? [], success: true }),
+				first: async () => answers.first?.(sql, bindings) ?? null,
+				run: async () => ({ success: true }),
+			};
+			return statement;
+		},
+	} as unknown as D1Database;
+}
+
+/**
+ * KV stand-in backed by a Map
+ */
+export function createMockKV(store: Map<string, string>) {
+	return {
+		get: async (key: string) => store.get(key) ?? null,
+		put: async (key: string, value: string) => {
+			store.set(key, value);
+		},
+		delete: async (key: string) => {
+			store.delete(key);
+		},
+		list: async ({ prefix }: { prefix: string }) => ({
+			keys: [...store.keys()].filter((key) => key.startsWith(prefix)).map((name) => ({ name })),
+			list_complete: true,
+		}),
+	} as unknown as KVNamespace;
+}
+
+/**
+ * Body of a stored R2 object as text
+ */
+export function objectText(objects: Map<string, MockR2Object>, key: string): string | undefined {
+	const object = objects.get(key);
+	return object ? new TextDecoder().decode(object.body) : undefined;
+}
+
+/**
+ * R2 stand-in backed by a Map: multipart uploads are joined on complete, can be
+ * resumed by id, and the size of every uploaded part is pushed to partSizes
+ */
+export function createMockR2(objects: Map<string, MockR2Object>, partSizes: number[] = []) {
+	const uploads = new Map<string, { parts: Map<number, Uint8Array>; options: R2PutOptions }>();
+	const multipartUpload = (key: string, uploadId: string) => ({
+		uploadId,
+		uploadPart: async (partNumber: number, value: Uint8Array) => {
+			partSizes.push(value.length);
+			uploads.get(uploadId)!.parts.set(partNumber, value.slice());
+			return { partNumber, etag: `etag-${partNumber}` };
+		},
+		complete: async (uploaded: Array<{ partNumber: number }>) => {
+			const { parts, options } = uploads.get(uploadId)!;
+			const chunks = uploaded.map((part) => parts.get(part.partNumber)!);
+			const body = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+			let offset = 0;
+			for (const chunk of chunks) {
+				body.set(chunk, offset);
+				offset += chunk.length;
+			}
+			objects.set(key, {
+				body,
+				contentType: (options.httpMetadata as R2HTTPMetadata | undefined)?.contentType,
+				customMetadata: options.customMetadata,
+			});
+			uploads.delete(uploadId);
+		},
+		abort: async () => {
+			uploads.delete(uploadId);
+		},
+	});
+
+	return {
+		head: async (key: string) => (objects.has(key) ? { key } : null),
+		get: async (key: string) => {
+			const object = objects.get(key);
+			return object
+				? {
+					body: new Blob([object.body]).stream(),
+					size: object.body.length,
+					httpMetadata: { contentType: object.contentType },
+					customMetadata: object.customMetadata,
+					text: async () => new TextDecoder().decode(object.body),
+					json: async () => JSON.parse(new TextDecoder().decode(object.body)),
+					arrayBuffer: async () => object.body.slice().buffer,
+				}
+				: null;
+		},
+		put: async (key: string, value: string | Uint8Array, options: R2PutOptions = {}) => {
+			const body = typeof value === 'string' ? encoder.encode(value) : value.slice();
+			objects.set(key, {
+				body,
+				contentType: (options.httpMetadata as R2HTTPMetadata | undefined)?.contentType,
+				customMetadata: options.customMetadata,
+			});
+			return { key, size: body.length };
+		},
+		list: async ({ prefix }: { prefix: string }) => ({
+			objects: [...objects.keys()].filter((key) => key.startsWith(prefix)).map((key) => ({ key })),
+			truncated: false,
+		}),
+		delete: async (keys: string | string[]) => {
+			for (const key of Array.isArray(keys) ? keys : [keys]) {
+				objects.delete(key);
+			}
+		},
+		createMultipartUpload: async (key: string, options: R2PutOptions = {}) => {
+			const uploadId = `upload-${uploads.size + 1}-${key}`;
+			uploads.set(uploadId, { parts: new Map(), options });
+			return multipartUpload(key, uploadId);
+		},
+		resumeMultipartUpload: (key: string, uploadId: string) => multipartUpload(key, uploadId),
+	} as unknown as R2Bucket;
+}
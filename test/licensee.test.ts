@@ -0,0 +1,69 @@
+/**
+ * Tests for licensee profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Env } from '../src/types';
+import {
+	LICENSEE_MAX_LICENSES,
+	buildLicenseeProfile,
+	normalizeLicenseeIdentifier,
+} from '../src/engine/licensee';
+import { createMockD1, storedRow } from './helpers/mocks';
+
+/**
+ * D1 stand-in serving one result set per queried JSON field
+ */
+function createLicenseeD1(rowsByField: Record<string, Array<Record<string, string>>>) {
+	return createMockD1({
+		all: (sql) => {
+			const field = sql.match(/'\$\.(\w+)'/)?.[1] || '';
+			return (rowsByField[field] || []).map((record) => storedRow(record.callsign, record));
+		},
+	});
+}
+
+describe('Licensee Profiles', () => {
+	it('should normalize identifiers to their stored form', () => {
+		expect(normalizeLicenseeIdentifier('frn', '1234567')).toBe('0001234567');
+		expect(normalizeLicenseeIdentifier('uls_file_number', ' 0009000001 ')).toBe('0009000001');
+		expect(normalizeLicenseeIdentifier('unique_system_identifier', '00042')).toBe('42');
+		expect(normalizeLicenseeIdentifier('frn', '0000000000')).toBeNull();
+		expect(normalizeLicenseeIdentifier('frn', '12345678901')).toBeNull();
+		expect(normalizeLicenseeIdentifier('unique_system_identifier', 'abc')).toBeNull();
+	});
+
+	it('should return null when no license carries the identifier', async () => {
+		const env = { CALLSIGN_DB: createLicenseeD1({}) } as Env;
+		expect(await buildLicenseeProfile(env, 'frn', '0001234567')).toBeNull();
+	});
+
+	it('should keep the profile of a license without an FRN to that license', async () => {
+		const env = {
+			CALLSIGN_DB: createLicenseeD1({
+				uls_file_number: [{ callsign: 'N1OLD', uls_file_number: '0000000001', license_status: 'E' }],
+			}),
+		} as Env;
+
+		const profile = await buildLicenseeProfile(env, 'uls_file_number', '0000000001');
+
+		expect(profile?.frn).toBeUndefined();
+		expect(profile?.licenses.map((l) => l.callsign)).toEqual(['N1OLD']);
+		expect(profile?.trustee_of).toEqual([]);
+	});
+
+	it('should flag profiles cut at the license limit', async () => {
+		const licenses = Array.from({ length: LICENSEE_MAX_LICENSES + 1 }, (_, i) => ({
+			callsign: `W1C${String.fromCharCode(65 + Math.floor(i / 26))}${String.fromCharCode(65 + (i % 26))}`,
+			frn: '0001234567',
+			entity_name: 'Big Club',
+		}));
+		const env = { CALLSIGN_DB: createLicenseeD1({ frn: licenses }) } as Env;
+
+		const profile = await buildLicenseeProfile(env, 'frn', '0001234567');
+
+		expect(profile?.licenses).toHaveLength(LICENSEE_MAX_LICENSES);
+		expect(profile?.name).toBe('Big Club');
+		expect(profile?.truncated).toBe(true);
+	});
+});
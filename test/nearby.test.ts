@@ -0,0 +1,87 @@
+/**
+ * Tests for nearby search areas
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	NEARBY_MAX_RADIUS_KM,
+	NEARBY_MAX_ZIP_RANGES,
+	NEARBY_MIN_RADIUS_KM,
+	isInNearbyArea,
+	parseNearbyArea,
+} from '../src/engine/nearby';
+import { findZipRanges, lookupZipLocation } from '../src/engine/zip-centroids';
+
+describe('Nearby Search Areas', () => {
+	it('should merge consecutive ZCTAs into ZIP code ranges', () => {
+		const box = (point: { latitude: number; longitude: number }) =>
+			point.latitude > 41.75 && point.latitude < 41.8 && point.longitude > -72.71 && point.longitude < -72.65;
+
+		expect(findZipRanges(box, 10)).toEqual([
+			['06103', '06105'],
+			['06112', '06112'],
+			['06120', '06120'],
+		]);
+		// Ranges separated by the smallest gaps are merged first
+		expect(findZipRanges(box, 2)).toEqual([
+			['06103', '06112'],
+			['06120', '06120'],
+		]);
+		expect(findZipRanges(() => false, 10)).toEqual([]);
+	});
+
+	it('should turn a point and radius into ZIP code ranges', () => {
+		const { area } = parseNearbyArea({ lat: '41.7', lon: '-72.7', radius: '10' });
+
+		expect(area?.centre).toEqual({ latitude: 41.7, longitude: -72.7 });
+		expect(area?.radiusKm).toBe(10);
+		expect(area?.zipRanges).toContainEqual(['06109', '06114']);
+		// Manchester (06040) is 15.6 km away
+		expect(area?.zipRanges.some(([first, last]) => first <= '06040' && last >= '06040')).toBe(false);
+	});
+
+	it('should split a ZIP prefix at the edge of the radius', () => {
+		// 06111 is 2.7 km from the centre, 06114 5.1 km and 06106 5.6 km; all share the 061 prefix
+		const { area } = parseNearbyArea({ lat: '41.7', lon: '-72.7', radius: '5' });
+
+		expect(area?.zipRanges).toEqual([['06109', '06111']]);
+		expect(isInNearbyArea(area!, lookupZipLocation('06111')!)).toBe(true);
+		expect(isInNearbyArea(area!, lookupZipLocation('06114')!)).toBe(false);
+		expect(isInNearbyArea(area!, lookupZipLocation('06106')!)).toBe(false);
+	});
+
+	it('should centre a radius search on a grid square', () => {
+		const { area } = parseNearbyArea({ grid: 'FN42', radius: '25' });
+
+		expect(area?.centre).toEqual({ latitude: 42.5, longitude: -71 });
+		expect(area?.grid).toBeUndefined();
+		expect(area?.zipRanges[0]).toEqual(['01730', '01731']);
+	});
+
+	it('should select the ZIP codes located inside a grid square', () => {
+		const { area } = parseNearbyArea({ grid: 'em12' });
+
+		expect(area?.grid).toBe('EM12');
+		expect(area?.radiusKm).toBeUndefined();
+		expect(area?.zipRanges).toHaveLength(NEARBY_MAX_ZIP_RANGES);
+		expect(area?.zipRanges[0]).toEqual(['75001', '75001']);
+		expect(isInNearbyArea(area!, lookupZipLocation('75201')!)).toBe(true);
+		expect(isInNearbyArea(area!, lookupZipLocation('77002')!)).toBe(false);
+	});
+
+	it('should reject incomplete and out-of-range areas', () => {
+		expect(parseNearbyArea({}).error).toContain('needs "grid"');
+		expect(parseNearbyArea({ lat: '41.7', lon: '-72.7' }).error).toContain('radius is required');
+		expect(parseNearbyArea({ lat: 'north', lon: '-72.7', radius: '5' }).error).toContain('lat must be');
+		expect(parseNearbyArea({ lat: '41.7', lon: '200', radius: '5' }).error).toContain('lon must be');
+		expect(parseNearbyArea({ grid: 'FN31', radius: '0' }).error).toContain('radius must be');
+		expect(parseNearbyArea({ grid: 'FN31', radius: String(NEARBY_MIN_RADIUS_KM - 1) }).error).toContain(
+			'radius must be'
+		);
+		expect(parseNearbyArea({ grid: 'FN31', radius: String(NEARBY_MAX_RADIUS_KM + 1) }).error).toContain(
+			'radius must be'
+		);
+		expect(parseNearbyArea({ grid: 'FN', radius: '250' }).error).toBeUndefined();
+		expect(parseNearbyArea({ grid: 'DM', radius: '250', lon: '1' }).error).toContain('not both');
+	});
+});
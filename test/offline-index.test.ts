@@ -0,0 +1,165 @@
+/**
+ * Tests for the offline callsign index and its endpoint
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as dataHandlers from '../src/handlers/data';
+import type { Env } from '../src/types';
+import { encodeOfflineIndex, openOfflineIndex } from '../src/offline-index';
+import type { OfflineIndexEntry } from '../src/offline-index';
+import { OFFLINE_INDEX_POINTER_KEY, publishOfflineIndex } from '../src/engine/offline-index';
+import { createMockD1, createMockR2, objectText } from './helpers/mocks';
+import type { MockR2Object } from './helpers/mocks';
+
+const VERSION = '2026-10-19T06-00-00-000Z';
+
+const ENTRIES: OfflineIndexEntry[] = [
+	{ callsign: 'K1ABC', operatorClass: 'E', licenseStatus: 'A', state: 'CT' },
+	{ callsign: 'K1ABD', operatorClass: 'T', licenseStatus: 'E', state: 'MA' },
+	{ callsign: 'N1OLD', licenseStatus: 'C' },
+	{ callsign: 'W1AW', licenseStatus: 'A', state: 'CT' },
+	{ callsign: 'W1AWX', operatorClass: 'G', licenseStatus: 'A', state: 'RI' },
+];
+
+/**
+ * D1 stand-in: the latest snapshot and keyset pages of index rows
+ */
+function createIndexD1(entries: OfflineIndexEntry[], version: { current: string }) {
+	return createMockD1({
+		first: (sql) =>
+			sql.includes('FROM database_snapshots')
+				? { version: version.current, timestamp: '', record_count: 0, hash: '', data_path: '' }
+				: null,
+		all: (_sql, bound) => {
+			const [after, limit] = bound as [string, number];
+			return entries
+				.filter((entry) => entry.callsign > after)
+				.slice(0, limit)
+				.map((entry) => ({
+					callsign: entry.callsign,
+					operator_class: entry.operatorClass || '',
+					license_status: entry.licenseStatus || '',
+					state: entry.state || '',
+				}));
+		},
+	});
+}
+
+describe('Offline Index', () => {
+	it('should look up callsigns and prefixes across blocks', () => {
+		const index = openOfflineIndex(encodeOfflineIndex(VERSION, ENTRIES, 2));
+		expect(index).toMatchObject({ version: VERSION, count: 5 });
+
+		for (const entry of ENTRIES) {
+			expect(index.lookup(entry.callsign)).toEqual(entry);
+		}
+		expect(index.lookup('w1aw')).toEqual(ENTRIES[3]);
+		expect(index.lookup('K1AB')).toBeNull();
+		expect(index.lookup('K0AAA')).toBeNull();
+		expect(index.lookup('ZZ9ZZ')).toBeNull();
+
+		expect(index.prefix('K1AB').map((entry) => entry.callsign)).toEqual(['K1ABC', 'K1ABD']);
+		expect(index.prefix('W1AW').map((entry) => entry.callsign)).toEqual(['W1AW', 'W1AWX']);
+		expect(index.prefix('W', 1)).toEqual([ENTRIES[3]]);
+		expect(index.prefix('X')).toEqual([]);
+	});
+
+	it('should stay compact for large sorted sets', () => {
+		const entries = Array.from({ length: 20000 }, (_, i) => ({
+			callsign: `KD${String.fromCharCode(65 + Math.floor(i / 676) % 26)}${String(i).padStart(5, '0')}`,
+			operatorClass: 'T',
+			licenseStatus: 'A',
+			state: ['CA', 'TX', 'NY'][i % 3],
+		})).sort((a, b) => a.callsign.localeCompare(b.callsign));
+		const bytes = encodeOfflineIndex(VERSION, entries);
+		const index = openOfflineIndex(bytes);
+
+		expect(bytes.length / entries.length).toBeLessThan(7);
+		expect(index.lookup(entries[12345].callsign)).toEqual(entries[12345]);
+		expect(index.lookup(entries[19999].callsign)).toEqual(entries[19999]);
+		expect(index.prefix(entries[64].callsign.slice(0, 7), 5)).toHaveLength(5);
+	});
+
+	it('should reject unsorted entries and foreign bytes', () => {
+		expect(() => encodeOfflineIndex(VERSION, [ENTRIES[1], ENTRIES[0]])).toThrow(/not sorted/);
+		expect(() => encodeOfflineIndex(VERSION, [{ callsign: 'W1AW/P' }])).toThrow(/Invalid callsign/);
+		expect(() => openOfflineIndex(new TextEncoder().encode('SQLite format 3'))).toThrow(/Not an offline/);
+		expect(openOfflineIndex(encodeOfflineIndex(VERSION, [])).lookup('W1AW')).toBeNull();
+	});
+
+	describe('publishing and endpoint', () => {
+		let objects: Map<string, MockR2Object>;
+		let version: { current: string };
+		let env: Env;
+
+		beforeEach(() => {
+			objects = new Map();
+			version = { current: VERSION };
+			env = {
+				ENVIRONMENT: 'test',
+				CALLSIGN_DB: createIndexD1(ENTRIES, version),
+				DATA_EXPORTS: createMockR2(objects),
+			};
+		});
+
+		const call = (headers: Record<string, string> = {}) =>
+			dataHandlers.getOfflineIndex(
+				new Request('http://localhost/api/v1/offline-index', { headers }),
+				env,
+				{} as ExecutionContext
+			);
+
+		it('should publish one index per data version and keep the previous file', async () => {
+			const first = await publishOfflineIndex(env);
+			expect(first).toMatchObject({ version: VERSION, records: 5, key: `offline-index/callsigns-${VERSION}.bin` });
+			expect(await publishOfflineIndex(env)).toEqual(first);
+
+			version.current = '2026-10-20T06-00-00-000Z';
+			await publishOfflineIndex(env);
+			version.current = '2026-10-21T06-00-00-000Z';
+			const third = await publishOfflineIndex(env);
+
+			expect(JSON.parse(objectText(objects, OFFLINE_INDEX_POINTER_KEY)!)).toEqual(third);
+			expect([...objects.keys()].filter((key) => key.endsWith('.bin')).sort()).toEqual([
+				'offline-index/callsigns-2026-10-20T06-00-00-000Z.bin',
+				'offline-index/callsigns-2026-10-21T06-00-00-000Z.bin',
+			]);
+		});
+
+		it('should stream the index into parts and hash the whole file', async () => {
+			const entries = Array.from({ length: 3000 }, (_, i) => ({
+				callsign: `KB${String(i).padStart(5, '0')}`,
+				operatorClass: 'G',
+				licenseStatus: 'A',
+				state: ['CA', 'TX', 'NY'][i % 3],
+			}));
+			env.CALLSIGN_DB = createIndexD1(entries, version);
+			const info = await publishOfflineIndex(env, { partSize: 4096 });
+
+			const bytes = objects.get(info!.key)!.body;
+			expect(bytes.length).toBeGreaterThan(4096 * 3);
+			expect(info).toMatchObject({ records: 3000, bytes: bytes.length });
+			const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+			expect(info!.sha256).toBe(Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join(''));
+			expect(bytes).toEqual(encodeOfflineIndex(VERSION, entries));
+			expect(openOfflineIndex(bytes).lookup('KB02999')).toEqual(entries[2999]);
+		});
+
+		it('should serve the index with an ETag and answer 304 when it matches', async () => {
+			expect((await call()).status).toBe(404);
+			const info = await publishOfflineIndex(env);
+
+			const response = await call();
+			expect(response.status).toBe(200);
+			expect(response.headers.get('ETag')).toBe(`"${info!.sha256}"`);
+			expect(response.headers.get('X-Data-Version')).toBe(VERSION);
+			const index = openOfflineIndex(await response.arrayBuffer());
+			expect(index.lookup('W1AW')).toMatchObject({ licenseStatus: 'A', state: 'CT' });
+
+			const cached = await call({ 'If-None-Match': `W/"other", "${info!.sha256}"` });
+			expect(cached.status).toBe(304);
+			expect(await cached.text()).toBe('');
+			expect((await call({ 'If-None-Match': '"other"' })).status).toBe(200);
+		});
+	});
+});
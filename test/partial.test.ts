@@ -0,0 +1,110 @@
+/**
+ * Tests for Super Check Partial matching and the MASTER.SCP export
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Env } from '../src/types';
+import { callsignNgrams } from '../src/engine/database';
+import {
+	PARTIAL_MAX_CANDIDATES,
+	buildMasterScp,
+	findPartialMatches,
+	parsePartialQuery,
+} from '../src/engine/partial';
+import { createMockD1 } from './helpers/mocks';
+import type { ExecutedQuery } from './helpers/mocks';
+
+/**
+ * D1 stand-in: the n-gram query returns callsigns holding every bound n-gram,
+ * the SCP query pages active callsigns after the bound key
+ */
+function createPartialD1(statuses: Record<string, string>, executed: ExecutedQuery[] = []) {
+	return createMockD1(
+		{
+			all: (sql, bindings) => {
+				if (sql.includes('callsign_ngrams')) {
+					const grams = bindings.slice(0, -2) as string[];
+					return Object.keys(statuses)
+						.filter((callsign) => grams.every((gram) => callsignNgrams(callsign).includes(gram)))
+						.filter((callsign) => !sql.includes("= 'A'") || statuses[callsign] === 'A')
+						.map((callsign) => ({ callsign, license_status: statuses[callsign] }));
+				}
+				const [after, limit] = bindings as [string, number];
+				return Object.keys(statuses)
+					.filter((callsign) => statuses[callsign] === 'A' && callsign > after)
+					.sort()
+					.slice(0, limit)
+					.map((callsign) => ({ callsign }));
+			},
+		},
+		executed
+	);
+}
+
+describe('Super Check Partial', () => {
+	it('should split queries into n-grams around wildcards', () => {
+		expect(callsignNgrams('W1AW')).toEqual(['W1A', '1AW']);
+		expect(callsignNgrams('AB')).toEqual([]);
+
+		expect(parsePartialQuery('1ab').query?.grams).toEqual(['1AB']);
+		expect(parsePartialQuery('K1AB?C').query?.grams).toEqual(['K1A', '1AB']);
+		expect(parsePartialQuery('W1?W').error).toBe('q needs at least 3 consecutive letters or digits');
+		expect(parsePartialQuery('1A').error).toBe('q must be 3 to 10 letters, digits or ? wildcards');
+		expect(parsePartialQuery('1A%').error).toBeDefined();
+	});
+
+	it('should rank exact, prefix and contained matches of active licenses', async () => {
+		const executed: ExecutedQuery[] = [];
+		const env = {
+			CALLSIGN_DB: createPartialD1(
+				{ K1ABC: 'A', W1ABX: 'A', '1ABC': 'A', K1AB: 'A', KD1ABQ: 'A', N1ABZ: 'E' },
+				executed
+			),
+		} as Env;
+
+		const { query } = parsePartialQuery('1AB');
+		const result = await findPartialMatches(env, query!, { limit: 10, includeInactive: false });
+
+		expect(result.matches.map((m) => [m.callsign, m.match])).toEqual([
+			['1ABC', 'prefix'],
+			['K1AB', 'contains'],
+			['K1ABC', 'contains'],
+			['W1ABX', 'contains'],
+			['KD1ABQ', 'contains'],
+		]);
+		expect(result.truncated).toBe(false);
+		expect(executed[0].sql).toContain('GROUP BY callsign HAVING COUNT(*) = ?');
+		expect(executed[0].bindings).toEqual(['1AB', 1, PARTIAL_MAX_CANDIDATES + 1]);
+
+		const withInactive = await findPartialMatches(env, query!, { limit: 2, includeInactive: true });
+		expect(withInactive.matches).toHaveLength(2);
+		expect(withInactive.truncated).toBe(true);
+	});
+
+	it('should check the full pattern against n-gram candidates', async () => {
+		const env = { CALLSIGN_DB: createPartialD1({ K1ABC: 'A', K1ABD: 'A', K1AB: 'A' }) } as Env;
+
+		const { query } = parsePartialQuery('K1AB?');
+		const result = await findPartialMatches(env, query!, { limit: 10, includeInactive: false });
+
+		expect(result.matches).toEqual([
+			{ callsign: 'K1ABC', match: 'exact', license_status: 'A' },
+			{ callsign: 'K1ABD', match: 'exact', license_status: 'A' },
+		]);
+	});
+
+	it('should list active callsigns in MASTER.SCP order', async () => {
+		const env = { CALLSIGN_DB: createPartialD1({ W1AW: 'A', K1ABC: 'A', N1OLD: 'E', AA1A: 'A' }) } as Env;
+
+		const scp = await buildMasterScp(env, '2026-10-19');
+
+		expect(scp.split('\n')).toEqual([
+			'# MASTER.SCP generated by ham-radio-callsign-worker',
+			'# Data version: 2026-10-19',
+			'AA1A',
+			'K1ABC',
+			'W1AW',
+			'',
+		]);
+	});
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for dataset releases and their endpoints
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as dataHandlers from '../src/handlers/data';
+import type { DiffResult, Env, PatchOperation, ReleaseSummary } from '../src/types';
+import {
+	RELEASE_INDEX_KEY,
+	applyReleaseRetention,
+	listReleases,
+	publishRelease,
+} from '../src/engine/releases';
+import { calculateHash } from '../src/engine/validate';
+import { createMockR2, objectText } from './helpers/mocks';
+import type { MockR2Object } from './helpers/mocks';
+
+const SCHEMA = { fields: ['callsign', 'first_name'], delimiter: '|', hasHeader: true, keyField: 'callsign' };
+const CONTENT = 'callsign|first_name\nK1ABC|Pat\nW1AW|Hiram\n';
+
+function diffFor(oldVersion: string | undefined, newVersion: string): DiffResult {
+	return {
+		hasChanges: true,
+		added: ['W1AW'],
+		modified: [],
+		deleted: [],
+		unchanged: 1,
+		summary: {
+			addedCount: 1,
+			modifiedCount: 0,
+			deletedCount: 0,
+			unchangedCount: 1,
+			totalOldRecords: 1,
+			totalNewRecords: 2,
+		},
+		metadata: { oldVersion, newVersion, newHash: 'abc', timestamp: '2026-10-19T06:00:00.000Z' },
+	};
+}
+
+const OPERATIONS: PatchOperation[] = [
+	{ type: 'insert', key: 'W1AW', record: { callsign: 'W1AW', first_name: 'Hiram' } },
+];
+
+describe('Dataset Releases', () => {
+	let objects: Map<string, MockR2Object>;
+	let env: Env;
+
+	beforeEach(() => {
+		objects = new Map();
+		env = { ENVIRONMENT: 'test', DATA_EXPORTS: createMockR2(objects) };
+	});
+
+	const publish = async (version: string, oldVersion: string | undefined, now: Date, keep?: number) =>
+		publishRelease(
+			env,
+			{
+				version,
+				content: CONTENT,
+				hash: await calculateHash(CONTENT),
+				recordCount: 2,
+				schema: SCHEMA,
+				diff: diffFor(oldVersion, version),
+				operations: OPERATIONS,
+			},
+			keep ? { keep, maxAgeDays: 1 } : undefined,
+			now
+		);
+
+	it('should publish the snapshot, patch and manifest with checksums', async () => {
+		const manifest = await publish('2026-10-18T06-00-00-000Z', undefined, new Date('2026-10-18T07:00:00.000Z'));
+		expect(manifest).toMatchObject({
+			version: '2026-10-18T06-00-00-000Z',
+			previous_version: null,
+			record_count: 2,
+			schema: { delimiter: '|', has_header: true, key_field: 'callsign' },
+			changes: { added: 1, modified: 0, deleted: 0 },
+		});
+
+		const [snapshot, patch] = manifest!.files;
+		expect(snapshot).toMatchObject({ name: 'callsigns.dat', bytes: CONTENT.length, records: 2 });
+		expect(snapshot.sha256).toBe(await calculateHash(objectText(objects, 'releases/2026-10-18T06-00-00-000Z/callsigns.dat')!));
+
+		const patchBody = objectText(objects, 'releases/2026-10-18T06-00-00-000Z/patch.ndjson')!;
+		expect(patch).toMatchObject({ name: 'patch.ndjson', records: 1, sha256: await calculateHash(patchBody) });
+		expect(JSON.parse(patchBody.trim())).toEqual(OPERATIONS[0]);
+
+		const stored = JSON.parse(objectText(objects, 'releases/2026-10-18T06-00-00-000Z/manifest.json')!);
+		expect(stored).toEqual(manifest);
+	});
+
+	it('should chain patches to the version they were diffed against and prune old ones', async () => {
+		await publish('2026-10-16T06-00-00-000Z', undefined, new Date('2026-10-16T07:00:00.000Z'));
+		await publish('2026-10-17T06-00-00-000Z', '2026-10-16T06-00-00-000Z', new Date('2026-10-17T07:00:00.000Z'));
+		const latest = await publish(
+			'2026-10-19T06-00-00-000Z',
+			'2026-10-18T06-00-00-000Z',
+			new Date('2026-10-19T07:00:00.000Z'),
+			2
+		);
+
+		// 2026-10-18 was never published, so the patch does not apply to the newest release
+		expect(latest!.previous_version).toBe('2026-10-18T06-00-00-000Z');
+		expect((await listReleases(env)).map((release) => release.version)).toEqual([
+			'2026-10-19T06-00-00-000Z',
+			'2026-10-17T06-00-00-000Z',
+		]);
+		expect([...objects.keys()].some((key) => key.startsWith('releases/2026-10-16'))).toBe(false);
+		expect(objects.has(RELEASE_INDEX_KEY)).toBe(true);
+	});
+
+	it('should keep the newest releases and recent ones', () => {
+		const now = new Date('2026-10-19T00:00:00.000Z');
+		const releases = ['2026-10-18', '2026-10-10', '2026-09-01', '2026-06-01'].map(
+			(date) => ({ version: `${date}T06-00-00-000Z`, published_at: `${date}T07:00:00.000Z` }) as ReleaseSummary
+		);
+
+		const { kept, removed } = applyReleaseRetention(releases, { keep: 1, maxAgeDays: 30 }, now);
+		expect(kept.map((release) => release.published_at.slice(0, 10))).toEqual(['2026-10-18', '2026-10-10']);
+		expect(removed).toHaveLength(2);
+		expect(applyReleaseRetention(releases, undefined, now).removed).toHaveLength(0);
+	});
+
+	it('should return null when R2 is not configured', async () => {
+		env.DATA_EXPORTS = undefined;
+		expect(await publish('2026-10-19T06-00-00-000Z', undefined, new Date())).toBeNull();
+	});
+
+	describe('endpoints', () => {
+		const ctx = {} as ExecutionContext;
+		const call = (
+			handler: (r: Request, e: Env, c: ExecutionContext, p?: Record<string, string>) => Promise<Response>,
+			path: string,
+			params?: Record<string, string>
+		) => handler(new Request(`http://localhost${path}`), env, ctx, params);
+
+		it('should list releases and serve manifests and files', async () => {
+			await publish('2026-10-19T06-00-00-000Z', undefined, new Date('2026-10-19T07:00:00.000Z'));
+
+			const list = await call(dataHandlers.getReleases, '/api/v1/releases');
+			const listBody = (await list.json()) as {
+				data: { latest: string; count: number; releases: Array<{ manifest_url: string }> };
+			};
+			expect(listBody.data).toMatchObject({ latest: '2026-10-19T06-00-00-000Z', count: 1 });
+			expect(listBody.data.releases[0].manifest_url).toBe('/api/v1/releases/2026-10-19T06-00-00-000Z');
+
+			const latest = await call(dataHandlers.getRelease, '/api/v1/releases/latest', { version: 'latest' });
+			const manifest = (await latest.json()) as {
+				data: { version: string; files: Array<{ name: string; sha256: string; url: string }> };
+			};
+			expect(manifest.data.version).toBe('2026-10-19T06-00-00-000Z');
+			expect(manifest.data.files[0].url).toBe('/api/v1/releases/2026-10-19T06-00-00-000Z/callsigns.dat');
+
+			const file = await call(dataHandlers.downloadReleaseFile, manifest.data.files[0].url, {
+				version: '2026-10-19T06-00-00-000Z',
+				file: 'callsigns.dat',
+			});
+			expect(file.status).toBe(200);
+			expect(file.headers.get('X-Checksum-Sha256')).toBe(manifest.data.files[0].sha256);
+			expect(await file.text()).toBe(CONTENT);
+
+			const manifestFile = await call(dataHandlers.downloadReleaseFile, '/', {
+				version: '2026-10-19T06-00-00-000Z',
+				file: 'manifest.json',
+			});
+			expect(manifestFile.headers.get('Content-Type')).toBe('application/json');
+		});
+
+		it('should return 404 for unknown releases and files', async () => {
+			await publish('2026-10-19T06-00-00-000Z', undefined, new Date('2026-10-19T07:00:00.000Z'));
+
+			expect((await call(dataHandlers.getRelease, '/', { version: '2026-01-01T00-00-00-000Z' })).status).toBe(404);
+			expect((await call(dataHandlers.getRelease, '/', { version: '..' })).status).toBe(404);
+			const missing = await call(dataHandlers.downloadReleaseFile, '/', {
+				version: '2026-10-19T06-00-00-000Z',
+				file: 'index.json',
+			});
+			expect(missing.status).toBe(404);
+
+			objects.clear();
+			const empty = await call(dataHandlers.getRelease, '/api/v1/releases/latest', { version: 'latest' });
+			expect(empty.status).toBe(404);
+		});
+
+		it('should serve releases without dataExport and refuse them while releases are disabled', async () => {
+			await publish('2026-10-19T06-00-00-000Z', undefined, new Date('2026-10-19T07:00:00.000Z'));
+			const useConfig = (dataExport: boolean, releases?: { enabled: boolean }) => {
+				env.CONFIG_KV = {
+					get: async () =>
+						JSON.stringify({
+							data: {
+								dataSource: {
+									originZipUrl: 'https://example.com/data.zip',
+									zipFileName: 'data.zip',
+									extractedFileName: 'AM.dat',
+									expectedSchema: { fields: ['record_type', 'unique_system_identifier', 'callsign'] },
+								},
+								features: {
+									jwtAuth: false,
+									canaryDeployment: false,
+									advancedSearch: true,
+									dataExport,
+									externalSync: false,
+								},
+								releases,
+							},
+							version: { version: '1.0.0', hash: 'abc', timestamp: '2026-01-01T00:00:00.000Z' },
+						}),
+				} as unknown as KVNamespace;
+			};
+
+			useConfig(false);
+			expect((await call(dataHandlers.getReleases, '/api/v1/releases')).status).toBe(200);
+
+			useConfig(true, { enabled: false });
+			const disabled = await call(dataHandlers.getReleases, '/api/v1/releases');
+			expect(disabled.status).toBe(403);
+			expect(((await disabled.json()) as { message: string }).message).toBe('Dataset releases are disabled');
+			expect((await call(dataHandlers.getRelease, '/', { version: 'latest' })).status).toBe(403);
+			expect((await call(dataHandlers.getChanges, '/api/v1/changes?since=2026-10-18T06-00-00-000Z')).status).toBe(403);
+		});
+	});
+});
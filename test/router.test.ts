@@ -72,6 +72,20 @@ describe('Router Integration Tests', () => {
 			expect([200, 503]).toContain(response.status);
 		});
 
+		it('should pass parameters followed by more path segments', async () => {
+			const request = new Request(
+				'http://localhost/api/v1/callsign/W1AW/history'
+			);
+			const response = await worker.fetch(
+				request,
+				env,
+				{} as ExecutionContext
+			);
+
+			// The callsign reaches the handler, which then finds no database
+			expect(response.status).toBe(503);
+		});
+
 		it('should handle 404 for unknown routes', async () => {
 			const request = new Request(
 				'http://localhost/unknown/route/path'
@@ -0,0 +1,107 @@
+/**
+ * Tests for the sequential callsign tracker
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DiffResult, Env, PatchOperation, SequentialTracker } from '../src/types';
+import {
+	SEQUENTIAL_TRACKER_KEY,
+	findSequentialEntry,
+	projectSequentialCallsign,
+	recordSequentialIssues,
+	sequentialRate,
+	updateSequentialTracker,
+} from '../src/engine/sequential';
+import { createMockKV } from './helpers/mocks';
+
+const noRecords = new Map<string, Record<string, string | undefined>>();
+
+describe('Sequential Tracker', () => {
+	it('should keep the furthest sequential callsign per district and group', () => {
+		const tracker = recordSequentialIssues(
+			null,
+			['KQ4ABC', 'KQ4ABE', 'KQ4ABD', 'KR1AAA', 'W4ABC', 'K4AB', 'KH6ABC'],
+			noRecords,
+			'2026-10-01T00:00:00.000Z'
+		);
+
+		expect(Object.keys(tracker.entries).sort()).toEqual(['1D', '4C', '4D']);
+		expect(tracker.entries['4D']).toMatchObject({
+			district: '4',
+			group: 'D',
+			format: '2x3',
+			latest: { callsign: 'KQ4ABE', timestamp: '2026-10-01T00:00:00.000Z' },
+		});
+		expect(tracker.entries['4D'].history).toHaveLength(1);
+	});
+
+	it('should skip vanity grants and never move backwards', () => {
+		const first = recordSequentialIssues(null, ['KQ4ABC'], noRecords, '2026-10-01T00:00:00.000Z');
+		const records = new Map([['KZ4ZZZ', { vanity_callsign_change: 'Y' }]]);
+
+		const second = recordSequentialIssues(first, ['KZ4ZZZ', 'KP4AAA', 'KA4AAA'], records, '2026-10-02T00:00:00.000Z');
+
+		expect(second.entries['4D'].latest.callsign).toBe('KQ4ABC');
+		expect(second.entries['4D'].history).toHaveLength(1);
+		expect(second.updatedAt).toBe('2026-10-02T00:00:00.000Z');
+	});
+
+	it('should derive the issuing rate and project ahead', () => {
+		let tracker: SequentialTracker | null = null;
+		tracker = recordSequentialIssues(tracker, ['KQ4ABC'], noRecords, '2026-10-01T00:00:00.000Z');
+		const single = tracker.entries['4D'];
+		expect(sequentialRate(single)).toBeNull();
+		expect(projectSequentialCallsign(single, new Date('2026-10-08T00:00:00.000Z'))).toBeNull();
+
+		// 100 callsigns in 10 days
+		tracker = recordSequentialIssues(tracker, ['KQ4AEY'], noRecords, '2026-10-11T00:00:00.000Z');
+		const entry = tracker.entries['4D'];
+		expect(sequentialRate(entry)).toBe(10);
+		expect(projectSequentialCallsign(entry, new Date('2026-10-18T00:00:00.000Z'))).toBe('KQ4AHQ');
+	});
+
+	it('should continue into the next prefix at the end of a block', () => {
+		let tracker = recordSequentialIssues(null, ['KQ4ZZA'], noRecords, '2026-10-01T00:00:00.000Z');
+		tracker = recordSequentialIssues(tracker, ['KQ4ZZU'], noRecords, '2026-10-03T00:00:00.000Z');
+
+		expect(projectSequentialCallsign(tracker.entries['4D'], new Date('2026-10-04T00:00:00.000Z'))).toBe(
+			'KR4AAE'
+		);
+	});
+
+	it('should pick the best active group a class may hold', () => {
+		const now = new Date('2026-10-19T00:00:00.000Z');
+		let tracker = recordSequentialIssues(null, ['KQ4ABC', 'K4ZZZ'], noRecords, '2026-10-15T00:00:00.000Z');
+
+		expect(findSequentialEntry(tracker, '4', 'T', now)?.group).toBe('D');
+		expect(findSequentialEntry(tracker, '4', 'G', now)?.group).toBe('C');
+		expect(findSequentialEntry(tracker, '1', 'T', now)).toBeNull();
+
+		// Group C has gone quiet, so Generals fall through to group D
+		tracker = recordSequentialIssues(tracker, ['KQ4ABD'], noRecords, '2026-10-15T00:00:00.000Z');
+		expect(findSequentialEntry(tracker, '4', 'G', new Date('2027-03-01T00:00:00.000Z'))).toBeNull();
+		expect(findSequentialEntry(tracker, '4', 'G', new Date('2027-01-01T00:00:00.000Z'))?.group).toBe('C');
+	});
+
+	it('should store updates from applied diffs and skip initial loads', async () => {
+		const stored = new Map<string, string>();
+		const env: Env = {
+			METADATA_STORE: createMockKV(stored),
+		};
+		const diff = {
+			added: ['KQ4ABC', 'KR4AAA'],
+			metadata: { oldVersion: undefined, newVersion: 'v1', timestamp: '2026-10-01T00:00:00.000Z' },
+		} as unknown as DiffResult;
+		const operations: PatchOperation[] = [
+			{ type: 'insert', key: 'KR4AAA', record: { vanity_callsign_change: 'Y' } },
+		];
+
+		expect(await updateSequentialTracker(env, diff, operations)).toBe(false);
+		expect(stored.has(SEQUENTIAL_TRACKER_KEY)).toBe(false);
+
+		diff.metadata.oldVersion = 'v0';
+		expect(await updateSequentialTracker(env, diff, operations)).toBe(true);
+		const tracker = JSON.parse(stored.get(SEQUENTIAL_TRACKER_KEY)!) as SequentialTracker;
+		expect(tracker.entries['4D'].latest.callsign).toBe('KQ4ABC');
+	});
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for the incremental SHA-256
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSha256 } from '../src/engine/sha256';
+
+async function subtleHex(bytes: Uint8Array): Promise<string> {
+	const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+	return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+describe('SHA-256', () => {
+	it('should match the known digests', () => {
+		expect(createSha256().digest()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+		const hash = createSha256();
+		hash.update(new TextEncoder().encode('abc'));
+		expect(hash.digest()).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+	});
+
+	it('should match crypto.subtle across lengths and chunkings', async () => {
+		for (const length of [55, 56, 63, 64, 65, 119, 1000, 70001]) {
+			const bytes = Uint8Array.from({ length }, (_, i) => (i * 31 + length) & 0xff);
+			const hash = createSha256();
+			for (let offset = 0; offset < length; offset += 1 + (offset % 97)) {
+				hash.update(bytes.subarray(offset, offset + 1 + (offset % 97)));
+			}
+			expect(hash.digest()).toBe(await subtleHex(bytes));
+		}
+	});
+});
@@ -0,0 +1,284 @@
+/**
+ * Tests for the SQLite file writer
+ *
+ * The writer is checked page by page with a small decoder, then end to end by
+ * opening a written file with SQLite itself (sql.js).
+ */
+
+import { describe, it, expect } from 'vitest';
+import initSqlJs from 'sql.js';
+import {
+	SQLITE_PAGE_SIZE,
+	type SqliteValue,
+	buildSqliteHeaderPage,
+	concatBytes,
+	createIndexBuilder,
+	createSqliteFile,
+	createTableBuilder,
+	encodeSqliteRecord,
+	encodeVarint,
+} from '../src/engine/sqlite';
+
+/**
+ * Read a varint at an offset
+ */
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+	let value = 0;
+	for (let i = 0; i < 8; i++) {
+		const byte = bytes[offset + i];
+		value = value * 128 + (byte & 0x7f);
+		if (byte < 0x80) {
+			return [value, offset + i + 1];
+		}
+	}
+	return [value * 256 + bytes[offset + 8], offset + 9];
+}
+
+/**
+ * Decode a record written by encodeSqliteRecord
+ */
+function decodeRecord(bytes: Uint8Array): SqliteValue[] {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const [headerSize, start] = readVarint(bytes, 0);
+	const values: SqliteValue[] = [];
+	let offset = start;
+	let body = headerSize;
+	while (offset < headerSize) {
+		const [type, next] = readVarint(bytes, offset);
+		offset = next;
+		if (type === 0 || type === 8 || type === 9) {
+			values.push(type === 0 ? null : type - 8);
+		} else if (type === 7) {
+			values.push(view.getFloat64(body));
+			body += 8;
+		} else if (type >= 13) {
+			const length = (type - 13) / 2;
+			values.push(new TextDecoder().decode(bytes.subarray(body, body + length)));
+			body += length;
+		} else {
+			const size = [0, 1, 2, 3, 4, 6, 8][type];
+			let value = bytes[body] >= 0x80 ? -1n : 0n;
+			for (let i = 0; i < size; i++) {
+				value = (value << 8n) | BigInt(bytes[body + i]);
+			}
+			values.push(Number(BigInt.asIntN(size * 8, value)));
+			body += size;
+		}
+	}
+	return values;
+}
+
+/**
+ * Write a file into memory; page 1 is left as zeros
+ */
+function memoryFile() {
+	const pages: Uint8Array[] = [new Uint8Array(SQLITE_PAGE_SIZE)];
+	const file = createSqliteFile(async (page) => {
+		pages.push(page);
+	});
+	return { file, pages };
+}
+
+/**
+ * Payloads of a B-tree in key order, following interior pages and overflow chains
+ */
+function walkTree(pages: Uint8Array[], root: number): Array<{ rowid?: number; values: SqliteValue[] }> {
+	const page = pages[root - 1];
+	const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+	// Page 1 starts with the file header
+	const base = root === 1 ? 100 : 0;
+	const type = page[base];
+	const interior = type === 0x02 || type === 0x05;
+	const cells = view.getUint16(base + 3);
+	const entries: Array<{ rowid?: number; values: SqliteValue[] }> = [];
+
+	for (let i = 0; i < cells; i++) {
+		let offset = view.getUint16(base + (interior ? 12 : 8) + i * 2);
+		if (interior) {
+			entries.push(...walkTree(pages, view.getUint32(offset)));
+			offset += 4;
+		}
+		if (type === 0x05) {
+			continue;
+		}
+
+		const [length, afterLength] = readVarint(page, offset);
+		offset = afterLength;
+		let rowid: number | undefined;
+		if (type === 0x0d) {
+			[rowid, offset] = readVarint(page, offset);
+		}
+		const maxLocal = type === 0x0d ? SQLITE_PAGE_SIZE - 35 : Math.floor(((SQLITE_PAGE_SIZE - 12) * 64) / 255) - 23;
+		const minLocal = Math.floor(((SQLITE_PAGE_SIZE - 12) * 32) / 255) - 23;
+		let payload: Uint8Array;
+		if (length <= maxLocal) {
+			payload = page.subarray(offset, offset + length);
+		} else {
+			const spill = minLocal + ((length - minLocal) % (SQLITE_PAGE_SIZE - 4));
+			const local = spill <= maxLocal ? spill : minLocal;
+			const chunks = [page.subarray(offset, offset + local)];
+			let next = view.getUint32(offset + local);
+			while (next) {
+				const overflow = pages[next - 1];
+				chunks.push(overflow.subarray(4));
+				next = new DataView(overflow.buffer, overflow.byteOffset).getUint32(0);
+			}
+			payload = concatBytes(chunks).subarray(0, length);
+		}
+		entries.push({ rowid, values: decodeRecord(payload) });
+	}
+
+	if (interior) {
+		entries.push(...walkTree(pages, view.getUint32(base + 8)));
+	}
+	return entries;
+}
+
+describe('SQLite Writer', () => {
+	it('should encode varints', () => {
+		expect(Array.from(encodeVarint(0x7f))).toEqual([0x7f]);
+		expect(Array.from(encodeVarint(0x80))).toEqual([0x81, 0x00]);
+		expect(Array.from(encodeVarint(300))).toEqual([0x82, 0x2c]);
+		expect(encodeVarint(-1)).toHaveLength(9);
+		expect(readVarint(encodeVarint(123456789), 0)).toEqual([123456789, 4]);
+	});
+
+	it('should round-trip records', () => {
+		const values: SqliteValue[] = [null, 0, 1, -2, 300, 70000, 2 ** 40, 1.5, '', 'W1AW'];
+		const record = encodeSqliteRecord(values);
+		expect(decodeRecord(record)).toEqual(values);
+		expect(Array.from(encodeSqliteRecord(['A', 1]))).toEqual([3, 15, 9, 0x41]);
+	});
+
+	it('should build table trees with interior pages and overflow', async () => {
+		const { file, pages } = memoryFile();
+		const table = createTableBuilder(file);
+		const rows = Array.from({ length: 2000 }, (_, i) => [
+			`K${i}`,
+			i % 500 === 0 ? 'x'.repeat(9000) : `{"n":${i}}`,
+		]);
+		for (let i = 0; i < rows.length; i++) {
+			await table.add(i + 1, rows[i]);
+		}
+		const root = await table.finish();
+
+		expect(pages[root - 1][0]).toBe(0x05);
+		const entries = walkTree(pages, root);
+		expect(entries.map((entry) => entry.rowid)).toEqual(rows.map((_, i) => i + 1));
+		expect(entries.map((entry) => entry.values)).toEqual(rows);
+	});
+
+	it('should build index trees that keep every key in order', async () => {
+		for (const count of [0, 1, 150, 20000]) {
+			const { file, pages } = memoryFile();
+			const index = createIndexBuilder(file);
+			const keys = Array.from({ length: count }, (_, i) => [`W${String(i).padStart(6, '0')}`, i + 1]);
+			for (const key of keys) {
+				await index.add(key);
+			}
+			const root = await index.finish();
+
+			expect(walkTree(pages, root).map((entry) => entry.values)).toEqual(keys);
+			// No page other than the root is empty
+			for (const page of pages.slice(1)) {
+				if (page !== pages[root - 1] && (page[0] === 0x02 || page[0] === 0x0a)) {
+					expect(new DataView(page.buffer).getUint16(3)).toBeGreaterThan(0);
+				}
+			}
+		}
+	});
+
+	it('should write the file header and schema on page 1', () => {
+		const page = buildSqliteHeaderPage(3, [
+			{
+				type: 'table',
+				name: 'callsigns',
+				tblName: 'callsigns',
+				rootPage: 2,
+				sql: 'CREATE TABLE callsigns (callsign TEXT)',
+			},
+			{ type: 'index', name: 'sqlite_autoindex_callsigns_1', tblName: 'callsigns', rootPage: 3, sql: null },
+		]);
+		const view = new DataView(page.buffer);
+
+		expect(new TextDecoder().decode(page.subarray(0, 16))).toBe('SQLite format 3\0');
+		expect(view.getUint16(16)).toBe(SQLITE_PAGE_SIZE);
+		expect(view.getUint32(28)).toBe(3);
+		expect(view.getUint32(56)).toBe(1);
+
+		expect(walkTree([page], 1)).toEqual([
+			{ rowid: 1, values: ['table', 'callsigns', 'callsigns', 2, 'CREATE TABLE callsigns (callsign TEXT)'] },
+			{ rowid: 2, values: ['index', 'sqlite_autoindex_callsigns_1', 'callsigns', 3, null] },
+		]);
+	});
+
+	it('should write files that SQLite opens, checks and queries', async () => {
+		const states = ['CT', 'MA', 'RI', ''];
+		const rows = Array.from({ length: 3000 }, (_, i) => {
+			const callsign = `K${String(i).padStart(4, '0')}`;
+			const data = JSON.stringify({ callsign, state: states[i % 4], note: i % 700 === 0 ? 'x'.repeat(9000) : '' });
+			return { rowid: i + 1, callsign, data, updatedAt: '2026-10-19T06:00:00.000Z' };
+		});
+
+		const { file, pages } = memoryFile();
+		const table = createTableBuilder(file);
+		for (const row of rows) {
+			await table.add(row.rowid, [row.callsign, row.data, row.updatedAt]);
+		}
+		const tableRoot = await table.finish();
+
+		const primary = createIndexBuilder(file);
+		for (const row of rows) {
+			await primary.add([row.callsign, row.rowid]);
+		}
+		const primaryRoot = await primary.finish();
+
+		// Expression index keys in index order: state, then callsign, then rowid
+		const byState = rows
+			.map((row) => [states[(row.rowid - 1) % 4], row.callsign, row.rowid] as SqliteValue[])
+			.sort((a, b) => (a[0] === b[0] ? 0 : (a[0] as string) < (b[0] as string) ? -1 : 1));
+		const stateIndex = createIndexBuilder(file);
+		for (const key of byState) {
+			await stateIndex.add(key);
+		}
+		const stateRoot = await stateIndex.finish();
+
+		pages[0] = buildSqliteHeaderPage(file.pageCount(), [
+			{
+				type: 'table',
+				name: 'callsigns',
+				tblName: 'callsigns',
+				rootPage: tableRoot,
+				sql: 'CREATE TABLE callsigns (callsign TEXT PRIMARY KEY, data TEXT NOT NULL, updated_at TEXT NOT NULL)',
+			},
+			{ type: 'index', name: 'sqlite_autoindex_callsigns_1', tblName: 'callsigns', rootPage: primaryRoot, sql: null },
+			{
+				type: 'index',
+				name: 'idx_callsigns_state',
+				tblName: 'callsigns',
+				rootPage: stateRoot,
+				sql: "CREATE INDEX idx_callsigns_state ON callsigns(COALESCE(json_extract(data, '$.state'), ''), callsign)",
+			},
+		]);
+
+		const SQL = await initSqlJs();
+		const db = new SQL.Database(concatBytes(pages));
+		try {
+			expect(db.exec('PRAGMA integrity_check')[0].values).toEqual([['ok']]);
+			expect(db.exec('SELECT COUNT(*) FROM callsigns')[0].values).toEqual([[3000]]);
+			expect(db.exec("SELECT rowid, length(data) FROM callsigns WHERE callsign = 'K1400'")[0].values).toEqual([
+				[1401, rows[1400].data.length],
+			]);
+			const ri = db.exec(
+				"SELECT callsign FROM callsigns WHERE COALESCE(json_extract(data, '$.state'), '') = 'RI' ORDER BY callsign LIMIT 2"
+			);
+			expect(ri[0].values).toEqual([['K0002'], ['K0006']]);
+			const plan = db.exec(
+				"EXPLAIN QUERY PLAN SELECT callsign FROM callsigns WHERE COALESCE(json_extract(data, '$.state'), '') = 'RI'"
+			);
+			expect(String(plan[0].values[0][3])).toContain('idx_callsigns_state');
+		} finally {
+			db.close();
+		}
+	});
+});
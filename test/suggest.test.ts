@@ -0,0 +1,78 @@
+/**
+ * Tests for "did you mean" callsign suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Env } from '../src/types';
+import {
+	SUGGEST_MAX_CANDIDATES,
+	substitutionCost,
+	suggestCallsigns,
+	suggestionCandidates,
+} from '../src/engine/suggest';
+import { createMockD1, storedRow } from './helpers/mocks';
+import type { ExecutedQuery } from './helpers/mocks';
+
+/**
+ * D1 stand-in answering callsign IN (...) lookups from the given records
+ */
+function createSuggestD1(records: Record<string, Record<string, string>>, executed: ExecutedQuery[] = []) {
+	return createMockD1(
+		{
+			all: (_sql, bindings) =>
+				(bindings as string[])
+					.filter((callsign) => records[callsign])
+					.map((callsign) => storedRow(callsign, { callsign, ...records[callsign] })),
+		},
+		executed
+	);
+}
+
+describe('Callsign Suggestions', () => {
+	it('should weight CW and phonetic confusions below plain edits', () => {
+		expect(substitutionCost('S', 'H')).toBe(0.4);
+		expect(substitutionCost('9', 'N')).toBe(0.5);
+		expect(substitutionCost('B', 'P')).toBe(0.6);
+		expect(substitutionCost('A', 'X')).toBe(1);
+		expect(substitutionCost('K', 'K')).toBe(0);
+	});
+
+	it('should list valid nearby callsigns cheapest first', () => {
+		const candidates = suggestionCandidates('w1aw');
+		const distance = (callsign: string) => candidates.find((c) => c.callsign === callsign)?.distance;
+
+		expect(candidates[0].distance).toBeLessThan(1);
+		expect(distance('W1AJ')).toBe(0.5);
+		expect(distance('W1AWX')).toBe(1);
+		expect(distance('WA1W')).toBe(1);
+		expect(distance('W1AW')).toBeUndefined();
+		expect(candidates.every((c) => /^[A-Z0-9]{1,3}[0-9][A-Z0-9]{0,3}[A-Z]$/.test(c.callsign))).toBe(true);
+		// Two confusable substitutions still rank ahead of a plain edit
+		expect(suggestionCandidates('W1SS').find((c) => c.callsign === 'W1HH')?.distance).toBe(0.8);
+		expect(candidates.map((c) => c.distance)).toEqual([...candidates.map((c) => c.distance)].sort((a, b) => a - b));
+	});
+
+	it('should return only callsigns on file, active licenses first at equal distance', async () => {
+		const executed: ExecutedQuery[] = [];
+		const env = {
+			CALLSIGN_DB: createSuggestD1(
+				{
+					K1ABG: { first_name: 'Pat', last_name: 'Smith', license_status: 'E', operator_class: 'G' },
+					K1ABE: { license_status: 'A', operator_class: 'E' },
+					K1ABX: { license_status: 'A' },
+				},
+				executed
+			),
+		} as Env;
+
+		const suggestions = await suggestCallsigns(env, 'K1ABB');
+
+		expect(suggestions).toEqual([
+			{ callsign: 'K1ABE', distance: 0.6, license_class: 'Extra', license_status: 'A', name: undefined },
+			{ callsign: 'K1ABG', distance: 0.6, license_class: 'General', license_status: 'E', name: 'Pat Smith' },
+			expect.objectContaining({ callsign: 'K1ABX', distance: 1 }),
+		]);
+		expect(executed.flatMap((query) => query.bindings)).toHaveLength(SUGGEST_MAX_CANDIDATES);
+		expect(executed.every((query) => query.bindings.length <= 100)).toBe(true);
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for ULS multi-file joining
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ConfigData } from '../src/types';
+import {
+	getJoinedFields,
+	getRecordSchema,
+	joinSourceFiles,
+	normalizeUlsDate,
+} from '../src/engine/uls';
+
+describe('ULS Joining', () => {
+	let config: ConfigData;
+
+	beforeEach(() => {
+		config = {
+			dataSource: {
+				originZipUrl: 'https://example.com/l_amat.zip',
+				zipFileName: 'l_amat.zip',
+				extractedFileName: 'AM.dat',
+				expectedSchema: {
+					fields: ['record_type', 'unique_system_identifier', 'callsign', 'operator_class'],
+					delimiter: '|',
+					hasHeader: false,
+				},
+				files: [
+					{
+						fileName: 'EN.dat',
+						expectedSchema: {
+							fields: ['record_type', 'unique_system_identifier', 'callsign', 'entity_name', 'state'],
+							delimiter: '|',
+							hasHeader: false,
+						},
+					},
+					{
+						fileName: 'HD.dat',
+						expectedSchema: {
+							fields: ['record_type', 'unique_system_identifier', 'callsign', 'license_status', 'expired_date'],
+							delimiter: '|',
+							hasHeader: false,
+						},
+					},
+					{
+						fileName: 'AM.dat',
+						expectedSchema: {
+							fields: ['record_type', 'unique_system_identifier', 'callsign', 'operator_class'],
+							delimiter: '|',
+							hasHeader: false,
+						},
+					},
+				],
+			},
+			features: {
+				jwtAuth: false,
+				canaryDeployment: false,
+				advancedSearch: false,
+				dataExport: false,
+				externalSync: false,
+			},
+		};
+	});
+
+	describe('getJoinedFields', () => {
+		it('should put callsign and join field first and drop record_type', () => {
+			expect(getJoinedFields(config)).toEqual([
+				'callsign',
+				'unique_system_identifier',
+				'entity_name',
+				'state',
+				'license_status',
+				'expired_date',
+				'operator_class',
+			]);
+		});
+
+		it('should describe joined content as header-delimited', () => {
+			const schema = getRecordSchema(config);
+			expect(schema.hasHeader).toBe(true);
+			expect(schema.delimiter).toBe('|');
+		});
+
+		it('should return the single-file schema when no files are configured', () => {
+			delete config.dataSource.files;
+			expect(getRecordSchema(config)).toBe(config.dataSource.expectedSchema);
+		});
+	});
+
+	describe('joinSourceFiles', () => {
+		it('should merge EN, HD and AM rows on unique_system_identifier', () => {
+			const result = joinSourceFiles(
+				{
+					'EN.dat': 'EN|100|K1ABC|Alice Smith|CT\nEN|200|W2XYZ|Bob Jones|NY\n',
+					'HD.dat': 'HD|100|K1ABC|A|01/15/2030\nHD|200|W2XYZ|A|06/01/2028\n',
+					'AM.dat': 'AM|100|K1ABC|E\nAM|200|W2XYZ|G\n',
+				},
+				config
+			);
+
+			expect(result.recordCount).toBe(2);
+			const lines = result.content.trim().split('\n');
+			expect(lines[0]).toBe(
+				'callsign|unique_system_identifier|entity_name|state|license_status|expired_date|operator_class'
+			);
+			expect(lines[1]).toBe('K1ABC|100|Alice Smith|CT|A|01/15/2030|E');
+			expect(lines[2]).toBe('W2XYZ|200|Bob Jones|NY|A|06/01/2028|G');
+		});
+
+		it('should count rows missing from secondary files', () => {
+			const result = joinSourceFiles(
+				{
+					'EN.dat': 'EN|100|K1ABC|Alice Smith|CT\n',
+					'HD.dat': '',
+					'AM.dat': 'AM|100|K1ABC|E\n',
+				},
+				config
+			);
+
+			expect(result.recordCount).toBe(1);
+			expect(result.unmatched['HD.dat']).toBe(1);
+		});
+
+		it('should prefer the active license when a callsign has several identifiers', () => {
+			const result = joinSourceFiles(
+				{
+					'EN.dat': 'EN|100|K1ABC|Alice Smith|CT\nEN|300|K1ABC|Old Holder|MA\n',
+					'HD.dat': 'HD|100|K1ABC|A|01/15/2030\nHD|300|K1ABC|E|01/15/2010\n',
+					'AM.dat': 'AM|100|K1ABC|E\nAM|300|K1ABC|T\n',
+				},
+				config
+			);
+
+			expect(result.recordCount).toBe(1);
+			expect(result.content).toContain('K1ABC|100|Alice Smith');
+			expect(result.content).not.toContain('Old Holder');
+		});
+
+		it('should concatenate values from multi-row files with a prefix', () => {
+			config.dataSource.files!.push({
+				fileName: 'HS.dat',
+				multiple: true,
+				fieldPrefix: 'history_',
+				expectedSchema: {
+					fields: ['record_type', 'unique_system_identifier', 'callsign', 'code'],
+					delimiter: '|',
+					hasHeader: false,
+				},
+			});
+
+			const result = joinSourceFiles(
+				{
+					'EN.dat': 'EN|100|K1ABC|Alice Smith|CT\n',
+					'HD.dat': 'HD|100|K1ABC|A|01/15/2030\n',
+					'AM.dat': 'AM|100|K1ABC|E\n',
+					'HS.dat': 'HS|100|K1ABC|LIISS\nHS|100|K1ABC|LIREN\n',
+				},
+				config
+			);
+
+			expect(getJoinedFields(config)).toContain('history_code');
+			expect(result.content).toContain('LIISS;LIREN');
+		});
+	});
+
+	describe('normalizeUlsDate', () => {
+		it('should convert MM/DD/YYYY to ISO dates', () => {
+			expect(normalizeUlsDate('01/15/2030')).toBe('2030-01-15');
+		});
+
+		it('should return undefined for empty or malformed dates', () => {
+			expect(normalizeUlsDate('')).toBeUndefined();
+			expect(normalizeUlsDate('2030-01-15')).toBeUndefined();
+		});
+	});
+});
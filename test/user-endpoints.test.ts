@@ -0,0 +1,1333 @@
+/**
+ * Tests for the user-facing API endpoints
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as userHandlers from '../src/handlers/user';
+import * as dataHandlers from '../src/handlers/data';
+import worker from '../src/index';
+import type { DiffResult, Env, PatchOperation } from '../src/types';
+import { HISTORY_BACKFILL_MAX_REPORTS, backfillHistoryEvents, recordHistoryEvents } from '../src/engine/history';
+import { NEARBY_MAX_CANDIDATE_PAGES, NEARBY_MAX_ZIP_RANGES } from '../src/engine/nearby';
+import { createMockD1, createMockR2, storedRow } from './helpers/mocks';
+import type { ExecutedQuery, MockR2Object } from './helpers/mocks';
+
+/**
+ * Minimal D1 stand-in: rows are served from in-memory tables keyed by SQL fragment
+ */
+function createCallsignsD1(
+	callsigns: Record<string, Record<string, string>>,
+	snapshotVersion?: string,
+	executed: ExecutedQuery[] = [],
+	events: Array<Record<string, string | null>> = []
+) {
+	return createMockD1(
+		{
+			all: (sql, bound) => {
+				if (sql.includes('FROM callsign_events')) {
+					// Callsigns, then the licenses of the chain when known
+					return events.filter(
+						(event) =>
+							bound.includes(event.callsign) &&
+							(!sql.includes('licensee IN') || event.licensee === null || bound.includes(event.licensee))
+					);
+				}
+				if (sql.includes('WHERE callsign IN')) {
+					return (bound as string[]).filter((key) => callsigns[key]).map((key) => storedRow(key, callsigns[key]));
+				}
+				// Partial matches: every callsign containing the bound n-grams
+				if (sql.includes('FROM callsign_ngrams')) {
+					const grams = bound.slice(0, -2) as string[];
+					return Object.keys(callsigns)
+						.filter((key) => grams.every((gram) => key.includes(gram)))
+						.map((key) => ({ callsign: key, license_status: callsigns[key].license_status || '' }));
+				}
+				// MASTER.SCP pages: callsigns after the bound key
+				if (sql.startsWith('SELECT callsign FROM callsigns')) {
+					return Object.keys(callsigns)
+						.sort()
+						.filter((key) => key > (bound[0] as string))
+						.slice(0, bound[1] as number)
+						.map((key) => ({ callsign: key }));
+				}
+				// Indexed field lookups: the bindings are the values, then the LIMIT
+				const indexed = sql.match(/^SELECT callsign, data, updated_at FROM callsigns\s+WHERE COALESCE\(json_extract\(data, '\$\.(\w+)'\), ''\) IN \(/);
+				if (indexed) {
+					const values = bound.slice(0, -1);
+					return Object.keys(callsigns)
+						.sort()
+						.filter((key) => values.includes(callsigns[key][indexed[1]]))
+						.slice(0, bound[bound.length - 1] as number)
+						.map((key) => storedRow(key, callsigns[key]));
+				}
+				// Search pages: the stored rows in callsign order after a callsign cursor,
+				// trimmed to the LIMIT binding
+				const limit = bound[bound.length - 2] as number;
+				const after = sql.includes('callsign > ?') ? (bound[bound.length - 3] as string) : '';
+				return Object.keys(callsigns)
+					.sort()
+					.filter((key) => key > after)
+					.slice(0, limit)
+					.map((key) => ({
+						...storedRow(key, callsigns[key]),
+						sort_value: key,
+						snippet: sql.includes('snippet(') ? `\u0002${key}\u0003 & <Sons>` : undefined,
+					}));
+			},
+			first: (sql, bound) => {
+				if (sql.includes('FROM callsigns WHERE callsign = ?')) {
+					const key = bound[0] as string;
+					return callsigns[key] ? storedRow(key, callsigns[key]) : null;
+				}
+				if (sql.includes('SELECT COUNT(*) AS count')) {
+					return { count: Object.keys(callsigns).length };
+				}
+				if (sql.includes('FROM database_snapshots')) {
+					return snapshotVersion
+						? {
+							version: snapshotVersion,
+							timestamp: '2026-01-01T00:00:00.000Z',
+							record_count: Object.keys(callsigns).length,
+							hash: 'abc',
+							data_path: 'fallback/data.txt',
+						}
+						: null;
+				}
+				return null;
+			},
+		},
+		executed
+	);
+}
+
+describe('User Endpoints', () => {
+	let env: Env;
+	let executed: ExecutedQuery[];
+
+	beforeEach(() => {
+		executed = [];
+		env = {
+			ENVIRONMENT: 'test',
+			LOG_LEVEL: 'info',
+			CALLSIGN_DB: createCallsignsD1(
+				{
+					K1ABC: {
+						record_type: 'AM',
+						unique_system_identifier: '1234567',
+						callsign: 'K1ABC',
+						operator_class: 'E',
+						previous_callsign: 'KB1XYZ',
+						previous_operator_class: 'G',
+						trustee_callsign: '',
+					},
+					W1AW: {
+						record_type: 'AM',
+						unique_system_identifier: '7654321',
+						callsign: 'W1AW',
+						operator_class: '',
+						trustee_callsign: 'K1ABC',
+						zip_code: '061111234',
+					},
+				},
+				'2026-01-01T00-00-00-000Z',
+				executed
+			),
+		};
+	});
+
+	describe('GET /api/v1/callsign/:callsign', () => {
+		it('should return the stored record mapped onto CallsignData', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/k1abc');
+			const response = await userHandlers.getCallsign(request, env, {} as ExecutionContext, {
+				callsign: 'k1abc',
+			});
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as { success: boolean; data: Record<string, string> };
+			expect(body.success).toBe(true);
+			expect(body.data.callsign).toBe('K1ABC');
+			expect(body.data.license_class).toBe('Extra');
+			expect(body.data.operator_class).toBe('E');
+			expect(body.data.previous_callsign).toBe('KB1XYZ');
+			expect(body.data.previous_license_class).toBe('General');
+			expect(body.data.data_version).toBe('2026-01-01T00-00-00-000Z');
+			expect(body.data).not.toHaveProperty('trustee_callsign');
+			expect(body.data).toHaveProperty('dxcc_entity.name', 'United States');
+		});
+
+		it('should derive the grid square and location from the ZIP code', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/W1AW');
+			const response = await userHandlers.getCallsign(request, env, {} as ExecutionContext, {
+				callsign: 'W1AW',
+			});
+
+			const body = (await response.json()) as { data: Record<string, unknown> };
+			expect(body.data.zip).toBe('06111');
+			expect(body.data.grid_square).toBe('FN31pq');
+			expect(body.data.latitude).toBe(41.69);
+			expect(body.data.longitude).toBe(-72.73);
+			expect(body.data.location_source).toBe('zip5');
+		});
+
+		it('should return 404 for unknown callsigns', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/W9ZZZ');
+			const response = await userHandlers.getCallsign(request, env, {} as ExecutionContext, {
+				callsign: 'W9ZZZ',
+			});
+
+			expect(response.status).toBe(404);
+			const body = (await response.json()) as { error: string; details: { callsign: string } };
+			expect(body.error).toBe('Not Found');
+			expect(body.details.callsign).toBe('W9ZZZ');
+			expect(body.details).toHaveProperty('suggestions', []);
+		});
+
+		it('should suggest existing callsigns that are easily confused with a miss', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/W1AJ');
+			const response = await userHandlers.getCallsign(request, env, {} as ExecutionContext, {
+				callsign: 'W1AJ',
+			});
+
+			expect(response.status).toBe(404);
+			const body = (await response.json()) as {
+				details: { suggestions: Array<{ callsign: string; distance: number }> };
+			};
+			expect(body.details.suggestions).toEqual([expect.objectContaining({ callsign: 'W1AW', distance: 0.5 })]);
+		});
+
+		it('should return 503 when the database is not configured', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/K1ABC');
+			const response = await userHandlers.getCallsign(
+				request,
+				{ ENVIRONMENT: 'test' },
+				{} as ExecutionContext,
+				{ callsign: 'K1ABC' }
+			);
+
+			expect(response.status).toBe(503);
+		});
+
+		it('should reject invalid callsign format', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/INVALID');
+			const response = await userHandlers.getCallsign(request, env, {} as ExecutionContext, {
+				callsign: 'INVALID',
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('should resolve portable callsigns to the base license', async () => {
+			const response = await worker.fetch(
+				new Request('http://localhost/api/v1/callsign/kh6%2Fk1abc%2Fm'),
+				env,
+				{} as ExecutionContext
+			);
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { callsign: string; parsed: Record<string, unknown> };
+			};
+			expect(body.data.callsign).toBe('K1ABC');
+			expect(body.data.parsed).toEqual({
+				input: 'KH6/K1ABC/M',
+				base: 'K1ABC',
+				prefix: 'KH6',
+				modifiers: ['M'],
+			});
+		});
+
+		it('should explain why a portable callsign is invalid', async () => {
+			const request = new Request('http://localhost/api/v1/callsign/W1AW%2FX');
+			const response = await userHandlers.getCallsign(request, env, {} as ExecutionContext, {
+				callsign: 'W1AW%2FX',
+			});
+
+			expect(response.status).toBe(400);
+			const body = (await response.json()) as { details: { callsign: string; reason: string } };
+			expect(body.details).toEqual({ callsign: 'W1AW/X', reason: 'Unknown callsign modifier /X' });
+		});
+	});
+
+	describe('GET /api/v1/callsign/:callsign/history', () => {
+		const diff = (oldVersion: string | undefined, newVersion: string, fieldChanges = {}) =>
+			({
+				fieldChanges,
+				metadata: { oldVersion, newVersion, timestamp: `${newVersion}T00:00:00.000Z` },
+			}) as unknown as DiffResult;
+
+		/**
+		 * D1 stand-in for the history tables: callsign_events rows, checked diff
+		 * reports, and every DELETE run against them
+		 */
+		const createEventsD1 = (
+			rows: Array<Record<string, string | null>>,
+			reports = new Set<string>(),
+			deletes: ExecutedQuery[] = []
+		) =>
+			({
+				prepare: (sql: string) => {
+					const statement = {
+						sql,
+						bindings: [] as Array<string | null>,
+						bind: (...bindings: Array<string | null>) => {
+							statement.bindings = bindings;
+							return statement;
+						},
+						all: async () => ({
+							results: sql.includes('FROM callsign_event_reports')
+								? [...reports].map((report) => ({ report }))
+								: [...new Set(rows.map((row) => row.data_version))].map((data_version) => ({ data_version })),
+						}),
+						run: async () => {
+							if (sql.includes('INTO callsign_event_reports')) {
+								reports.add(statement.bindings[0]!);
+							} else if (sql.startsWith('DELETE')) {
+								deletes.push({ sql, bindings: statement.bindings });
+							}
+							return { success: true };
+						},
+					};
+					return statement;
+				},
+				batch: async (statements: Array<{ bindings: Array<string | null> }>) => {
+					for (const { bindings } of statements) {
+						for (let i = 0; i < bindings.length; i += 7) {
+							const [callsign, data_version, date, type, from_value, to_value, licensee] = bindings.slice(i, i + 7);
+							rows.push({ callsign, data_version, date, type, from_value, to_value, licensee });
+						}
+					}
+					return [];
+				},
+			}) as unknown as D1Database;
+
+		/**
+		 * Rows the pipeline writes to callsign_events for two applied diffs
+		 */
+		const recordEvents = async () => {
+			const rows: Array<Record<string, string | null>> = [];
+			const db = createEventsD1(rows);
+
+			// Records are keyed on callsign and unique system identifier
+			const initial: PatchOperation[] = [
+				{ type: 'insert', key: 'KB1XYZ:1', record: { callsign: 'KB1XYZ', unique_system_identifier: '1' } },
+				{ type: 'insert', key: 'K1ABC:2', record: { callsign: 'K1ABC', unique_system_identifier: '2' } },
+			];
+			const update: PatchOperation[] = [
+				{ type: 'update', key: 'K1ABC:2', record: { callsign: 'K1ABC', unique_system_identifier: '2' } },
+				{ type: 'insert', key: 'W1NEW:3', record: { callsign: 'W1NEW', unique_system_identifier: '3' } },
+				// KB1XYZ under its new holder's license
+				{ type: 'insert', key: 'KB1XYZ:4', record: { callsign: 'KB1XYZ', unique_system_identifier: '4' } },
+			];
+			// The initial load only lists every record as added
+			expect(await recordHistoryEvents({ CALLSIGN_DB: db } as Env, diff(undefined, '2026-01-01'), initial)).toBe(false);
+			expect(
+				await recordHistoryEvents(
+					{ CALLSIGN_DB: db } as Env,
+					diff('2026-01-01', '2026-02-01', { 'K1ABC:2': { operator_class: { old: 'G', new: 'E' } } }),
+					update
+				)
+			).toBe(true);
+			return rows;
+		};
+
+		const history = (callsign: string) =>
+			userHandlers.getCallsignHistory(
+				new Request(`http://localhost/api/v1/callsign/${callsign}/history`),
+				env,
+				{} as ExecutionContext,
+				{ callsign }
+			);
+
+		beforeEach(async () => {
+			env.CALLSIGN_DB = createCallsignsD1(
+				{
+					// Reissued to another licensee after K1ABC's holder moved on
+					KB1XYZ: { callsign: 'KB1XYZ', unique_system_identifier: '4', frn: '0002', operator_class: 'T' },
+					K1ABC: {
+						callsign: 'K1ABC',
+						unique_system_identifier: '2',
+						frn: '0001',
+						operator_class: 'E',
+						previous_callsign: 'KB1XYZ',
+						previous_operator_class: 'G',
+						vanity_callsign_change: 'Y',
+						grant_date: '01/15/2020',
+						effective_date: '03/01/2022',
+					},
+					W1NEW: {
+						callsign: 'W1NEW',
+						unique_system_identifier: '3',
+						frn: '0001',
+						operator_class: 'E',
+						previous_callsign: 'K1ABC',
+						vanity_callsign_change: 'Y',
+						grant_date: '06/01/2024',
+					},
+				},
+				'2026-02-01',
+				executed,
+				await recordEvents()
+			);
+		});
+
+		it('should walk the previous callsign chain in both directions', async () => {
+			const response = await history('k1abc');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					callsigns: Array<{ callsign: string; on_file: boolean; license_class?: string }>;
+				};
+			};
+			expect(body.data.callsigns).toEqual([
+				{ callsign: 'KB1XYZ', on_file: false },
+				expect.objectContaining({ callsign: 'K1ABC', on_file: true, license_class: 'Extra' }),
+				expect.objectContaining({ callsign: 'W1NEW', on_file: true }),
+			]);
+		});
+
+		it('should merge record dates and recorded diff events into one timeline', async () => {
+			const response = await history('K1ABC');
+
+			const body = (await response.json()) as {
+				data: { timeline: Array<Record<string, string>> };
+			};
+			expect(body.data.timeline).toEqual([
+				{
+					type: 'callsign_change',
+					callsign: 'K1ABC',
+					date: '2020-01-15',
+					from: 'KB1XYZ',
+					to: 'K1ABC',
+					reason: 'vanity',
+					source: 'record',
+				},
+				{
+					type: 'class_change',
+					callsign: 'K1ABC',
+					date: '2022-03-01',
+					from: 'General',
+					to: 'Extra',
+					source: 'record',
+				},
+				{
+					type: 'callsign_change',
+					callsign: 'W1NEW',
+					date: '2024-06-01',
+					from: 'K1ABC',
+					to: 'W1NEW',
+					reason: 'vanity',
+					source: 'record',
+				},
+				{
+					type: 'class_change',
+					callsign: 'K1ABC',
+					date: '2026-02-01T00:00:00.000Z',
+					from: 'General',
+					to: 'Extra',
+					source: 'diff',
+					data_version: '2026-02-01',
+				},
+				{
+					type: 'added',
+					callsign: 'W1NEW',
+					date: '2026-02-01T00:00:00.000Z',
+					source: 'diff',
+					data_version: '2026-02-01',
+				},
+			]);
+		});
+
+		it('should return 404 when nothing is known about the callsign', async () => {
+			const response = await history('W9ZZZ');
+
+			expect(response.status).toBe(404);
+		});
+
+		it('should prune events older than the retention window', async () => {
+			const deletes: ExecutedQuery[] = [];
+			const db = createEventsD1([], new Set(), deletes);
+			const update: PatchOperation[] = [{ type: 'update', key: 'K1ABC:2', record: { callsign: 'K1ABC' } }];
+
+			await recordHistoryEvents({ CALLSIGN_DB: db } as Env, diff('v1', 'v2'), update, new Date('2026-10-19T06:00:00.000Z'));
+			expect(deletes).toEqual([
+				{ sql: 'DELETE FROM callsign_events WHERE data_version < ?', bindings: ['2023-10-20T06-00-00-000Z'] },
+			]);
+		});
+
+		it('should backfill events from stored diff reports once', async () => {
+			const report = (version: string, oldVersion: string | undefined, added: string[], modified: string[] = []) => ({
+				body: new TextEncoder().encode(
+					JSON.stringify({
+						hasChanges: added.length + modified.length > 0,
+						added,
+						modified,
+						deleted: [],
+						fieldChanges: { 'K1ABC:2': { operator_class: { old: 'G', new: 'E' } } },
+						metadata: { oldVersion, newVersion: version, timestamp: version },
+					})
+				),
+			});
+			const objects = new Map<string, MockR2Object>([
+				['diffs/diff-2026-01-01T06-00-00-000Z.json', report('2026-01-01T06-00-00-000Z', undefined, ['K1ABC:2'])],
+				['diffs/diff-2026-02-01T06-00-00-000Z.json', report('2026-02-01T06-00-00-000Z', 'a', ['W1NEW:3'], ['K1ABC:2'])],
+				['diffs/diff-2026-03-01T06-00-00-000Z.json', report('2026-03-01T06-00-00-000Z', 'b', ['N1ONE:5'])],
+				['diffs/diff-v1-2026-03-01T06-00-00-000Z.json', report('v1', 'a', ['N1LOG:6'])],
+			]);
+			for (let day = 10; day < 10 + HISTORY_BACKFILL_MAX_REPORTS; day++) {
+				const version = `2026-04-${day}T06-00-00-000Z`;
+				objects.set(`diffs/diff-${version}.json`, report(version, 'c', [`N${day}A:${day}`]));
+			}
+			// 2026-03-01 was recorded by its own pipeline run
+			const rows: Array<Record<string, string | null>> = [{ callsign: 'N1ONE', data_version: '2026-03-01T06-00-00-000Z' }];
+			const reports = new Set<string>();
+			const backfillEnv = { CALLSIGN_DB: createEventsD1(rows, reports), DATA_EXPORTS: createMockR2(objects) } as Env;
+			const schema = { fields: ['callsign', 'unique_system_identifier'], keyField: ['callsign', 'unique_system_identifier'] };
+			const now = new Date('2026-10-19T06:00:00.000Z');
+
+			expect(await backfillHistoryEvents(backfillEnv, schema, now)).toBe(true);
+			expect(rows.slice(1, 3)).toEqual([
+				expect.objectContaining({ callsign: 'W1NEW', type: 'added', licensee: '3' }),
+				expect.objectContaining({ callsign: 'K1ABC', type: 'class_change', from_value: 'General', to_value: 'Extra' }),
+			]);
+			// The initial load, the recorded run and the logger's file are only marked
+			expect(rows.some((row) => row.callsign === 'N1LOG' || (row.callsign === 'K1ABC' && row.type === 'added'))).toBe(false);
+			// The initial load and 2026-02-01 count towards the reports read, so two April ones are left
+			expect(rows).toHaveLength(3 + HISTORY_BACKFILL_MAX_REPORTS - 2);
+
+			// The next run reads only the reports left over, and then nothing
+			await backfillHistoryEvents(backfillEnv, schema, now);
+			expect(rows).toHaveLength(3 + HISTORY_BACKFILL_MAX_REPORTS);
+			expect(reports.size).toBe(objects.size);
+			await backfillHistoryEvents(backfillEnv, schema, now);
+			expect(rows).toHaveLength(3 + HISTORY_BACKFILL_MAX_REPORTS);
+
+			// Keys without a callsign cannot be read back
+			expect(await backfillHistoryEvents(backfillEnv, { fields: ['unique_system_identifier'] }, now)).toBe(true);
+		});
+	});
+
+	describe('GET /api/v1/callsign/:callsign/clubs and /api/v1/club/:callsign', () => {
+		const get = (path: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/${path}`), env, {} as ExecutionContext);
+
+		it('should list the club stations a callsign is trustee for', async () => {
+			const response = await get('callsign/k1abc/clubs');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { callsign: string; count: number; truncated: boolean; clubs: Array<Record<string, string>> };
+			};
+			expect(body.data.callsign).toBe('K1ABC');
+			expect(body.data.count).toBe(1);
+			expect(body.data.truncated).toBe(false);
+			expect(body.data.clubs[0]).toMatchObject({ callsign: 'W1AW', trustee_callsign: 'K1ABC' });
+
+			const none = (await (await get('callsign/W1AW/clubs')).json()) as { data: { count: number } };
+			expect(none.data.count).toBe(0);
+		});
+
+		it("should return a club with its trustee's current record", async () => {
+			const response = await get('club/w1aw');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { callsign: string; trustee: Record<string, string>; trustee_standing: string };
+			};
+			expect(body.data.callsign).toBe('W1AW');
+			expect(body.data.trustee).toMatchObject({ callsign: 'K1ABC', license_class: 'Extra' });
+			expect(body.data.trustee_standing).toBe('active');
+		});
+
+		it('should return 404 for callsigns that are not club stations', async () => {
+			const response = await get('club/K1ABC');
+
+			expect(response.status).toBe(404);
+			const body = (await response.json()) as { message: string };
+			expect(body.message).toBe('K1ABC is not a club station');
+			expect((await get('club/N0NE')).status).toBe(404);
+		});
+	});
+
+	describe('GET /api/v1/prefix/:callsign', () => {
+		const prefix = (callsign: string) =>
+			worker.fetch(
+				new Request(`http://localhost/api/v1/prefix/${callsign}`),
+				env,
+				{} as ExecutionContext
+			);
+
+		it('should resolve foreign callsigns without a database lookup', async () => {
+			const response = await prefix('dl1abc');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { callsign: string; entity: Record<string, unknown>; table_version: string };
+			};
+			expect(body.data.callsign).toBe('DL1ABC');
+			expect(body.data.entity).toEqual({
+				dxcc: 230,
+				name: 'Germany',
+				continent: 'EU',
+				cq_zone: 14,
+				itu_zone: 28,
+				latitude: 51,
+				longitude: 10,
+				matched_prefix: 'DL',
+				exact_match: false,
+			});
+			expect(body.data.table_version).toMatch(/^bundled-/);
+			expect(executed).toHaveLength(0);
+		});
+
+		it('should follow prefix overrides and echo the parsed callsign', async () => {
+			const response = await prefix('VE3%2FW1AW');
+
+			const body = (await response.json()) as {
+				data: { entity: { name: string; cq_zone: number }; parsed: { base: string } };
+			};
+			expect(body.data.entity.name).toBe('Canada');
+			expect(body.data.entity.cq_zone).toBe(4);
+			expect(body.data.parsed.base).toBe('W1AW');
+		});
+
+		it('should return 404 for maritime mobile stations', async () => {
+			const response = await prefix('W1AW%2FMM');
+
+			expect(response.status).toBe(404);
+			const body = (await response.json()) as { message: string };
+			expect(body.message).toBe('/MM stations are not in any DXCC entity');
+		});
+	});
+
+	describe('GET /api/v1/path', () => {
+		const path = (query: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/path?${query}`), env, {} as ExecutionContext);
+
+		it('should locate licensees by ZIP code and accept raw grid squares', async () => {
+			const response = await path('from=w1aw&to=CM87');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					from: Record<string, unknown>;
+					to: Record<string, unknown>;
+					distance_km: number;
+					short_path_bearing: number;
+					long_path_bearing: number;
+				};
+			};
+			expect(body.data.from).toMatchObject({
+				input: 'W1AW',
+				type: 'callsign',
+				callsign: 'W1AW',
+				grid: 'FN31pq',
+				source: 'zip5',
+			});
+			expect(body.data.to).toMatchObject({ input: 'CM87', type: 'grid', grid: 'CM87', source: 'grid' });
+			expect(body.data.distance_km).toBeGreaterThan(4200);
+			expect(body.data.distance_km).toBeLessThan(4300);
+			expect(body.data.short_path_bearing).toBeGreaterThan(270);
+			expect(body.data.long_path_bearing).toBeCloseTo((body.data.short_path_bearing + 180) % 360, 1);
+		});
+
+		it('should fall back to the DXCC entity for foreign and prefixed callsigns', async () => {
+			const response = await path('from=W1AW&to=VE3%2FW1AW');
+
+			const body = (await response.json()) as {
+				data: { to: { source: string; grid: string; parsed: { prefix: string } } };
+			};
+			expect(body.data.to.source).toBe('dxcc');
+			expect(body.data.to.grid).toHaveLength(4);
+			expect(body.data.to.parsed.prefix).toBe('VE3');
+		});
+
+		it('should reject missing and unrecognised endpoints', async () => {
+			expect((await path('from=W1AW')).status).toBe(400);
+
+			const response = await path('from=W1AW&to=NOT-A-PLACE');
+			expect(response.status).toBe(400);
+			const body = (await response.json()) as { message: string };
+			expect(body.message).toBe('to is neither a grid square nor a callsign');
+		});
+
+		it('should return 404 when a callsign cannot be placed', async () => {
+			const response = await path('from=W1AW%2FMM&to=FN31');
+
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('GET /api/v1/search', () => {
+		const search = (query: string, searchEnv: Env = env) =>
+			userHandlers.searchCallsigns(
+				new Request(`http://localhost/api/v1/search?${query}`),
+				searchEnv,
+				{} as ExecutionContext
+			);
+
+		it('should require a query or a filter', async () => {
+			const response = await search('');
+
+			expect(response.status).toBe(400);
+		});
+
+		it('should page through results with a cursor', async () => {
+			const response = await search('q=k&limit=1');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					count: number;
+					total_estimate: number;
+					total_is_exact: boolean;
+					next_cursor?: string;
+					results: Array<{ callsign: string }>;
+				};
+			};
+			expect(body.data.count).toBe(1);
+			expect(body.data.results[0].callsign).toBe('K1ABC');
+			expect(body.data.total_estimate).toBe(2);
+			expect(body.data.total_is_exact).toBe(true);
+			expect(body.data.next_cursor).toBeDefined();
+			expect(executed[0].bindings).toEqual(['K*', 2, 0]);
+
+			const next = await search(`q=k&limit=1&cursor=${body.data.next_cursor}`);
+			expect(next.status).toBe(200);
+			const page = executed.find((e, i) => i > 1 && e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain('callsign > ?');
+			expect(page?.bindings).toEqual(['K*', 'K1ABC', 2, 0]);
+		});
+
+		it('should translate filters into indexed conditions', async () => {
+			const response = await search(
+				'state=ct,ma&class=extra,T&status=active,e&district=1&expires_after=2026-01-01&trustee=k1abc&sort=-expires'
+			);
+
+			expect(response.status).toBe(200);
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain("json_extract(data, '$.state')");
+			expect(page?.sql).toContain('DESC');
+			expect(page?.bindings).toEqual([
+				'CT', 'MA', 'E', 'T', 'A', 'E', '[A-Z]1*', '[A-Z][A-Z]1*', '2026-01-01', 'K1ABC', 26, 0,
+			]);
+		});
+
+		it('should rank name matches through the full-text index', async () => {
+			const response = await search('name=Smith,%20Al&limit=1');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { sort: string; next_cursor: string; results: Array<{ snippet?: string }> };
+			};
+			expect(body.data.sort).toBe('relevance');
+			// The licensee text is escaped before the matches are marked
+			expect(body.data.results[0].snippet).toBe('<mark>K1ABC</mark> &amp; &lt;Sons&gt;');
+
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain('callsign_fts MATCH ?');
+			expect(page?.sql).toContain('bm25(callsign_fts');
+			expect(page?.bindings).toEqual(['"Smith"* "Al"*', 2, 0]);
+
+			await search(`name=Smith,%20Al&limit=1&cursor=${body.data.next_cursor}`);
+			const next = executed.filter((e) => e.sql.includes('ORDER BY'))[1];
+			expect(next.bindings).toEqual(['"Smith"* "Al"*', 2, 1]);
+		});
+
+		it('should match a portable query on its base callsign', async () => {
+			const response = await search('q=w1aw/p');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as { data: { parsed: { base: string; modifiers: string[] } } };
+			expect(body.data.parsed.base).toBe('W1AW');
+			expect(body.data.parsed.modifiers).toEqual(['P']);
+
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.bindings).toEqual(['W1AW', 26, 0]);
+		});
+
+		it('should reject invalid filters and cursors', async () => {
+			expect((await search('class=wizard')).status).toBe(400);
+			expect((await search('status=pending')).status).toBe(400);
+			expect((await search('expires_before=2026-13-01')).status).toBe(400);
+			expect((await search('q=K1&cursor=not-a-cursor')).status).toBe(400);
+			expect((await search('q=K1&sort=name')).status).toBe(400);
+			expect((await search('q=K1&sort=relevance')).status).toBe(400);
+			expect((await search('name=%22*')).status).toBe(400);
+		});
+
+		it('should refuse advanced filters when advancedSearch is disabled', async () => {
+			const config = {
+				data: {
+					dataSource: {
+						originZipUrl: 'https://example.com/data.zip',
+						zipFileName: 'data.zip',
+						extractedFileName: 'AM.dat',
+						expectedSchema: { fields: ['record_type', 'unique_system_identifier', 'callsign'] },
+					},
+					features: {
+						jwtAuth: false,
+						canaryDeployment: false,
+						advancedSearch: false,
+						dataExport: false,
+						externalSync: false,
+					},
+				},
+				version: { version: '1.0.0', hash: 'abc', timestamp: '2026-01-01T00:00:00.000Z' },
+			};
+			env.CONFIG_KV = {
+				get: async () => JSON.stringify(config),
+			} as unknown as KVNamespace;
+
+			const filtered = await search('state=CT');
+			expect(filtered.status).toBe(403);
+
+			const prefixOnly = await search('q=K1');
+			expect(prefixOnly.status).toBe(200);
+		});
+	});
+
+	describe('GET /api/v1/nearby', () => {
+		const nearby = (query: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/nearby?${query}`), env, {} as ExecutionContext);
+
+		it('should search the ZIP codes within the radius', async () => {
+			const response = await nearby('grid=FN31&radius=50&class=extra&status=active');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					centre: { latitude: number; longitude: number; grid: string };
+					radius_km: number;
+					approximate: boolean;
+					total_is_exact: boolean;
+					results: Array<{ callsign: string; distance_km?: number; bearing?: number }>;
+				};
+			};
+			expect(body.data.centre).toEqual({ latitude: 41.5, longitude: -73, grid: 'FN31mm' });
+			expect(body.data.radius_km).toBe(50);
+			expect(body.data.approximate).toBe(true);
+
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain("substr(COALESCE(json_extract(data, '$.zip_code'), ''), 1, 5) BETWEEN ? AND ?");
+			expect(page?.bindings.slice(0, 4)).toEqual(['E', 'A', '06001', '06013']);
+
+			// Records without a derived location cannot be placed inside the area
+			expect(body.data.results.map((r) => r.callsign)).toEqual(['W1AW']);
+			expect(body.data.total_is_exact).toBe(false);
+			expect(body.data.results[0].distance_km).toBeGreaterThan(0);
+			expect(body.data.results[0].bearing).toBeDefined();
+		});
+
+		it('should drop licensees whose ZIP code point lies just outside the radius', async () => {
+			env.CALLSIGN_DB = createCallsignsD1(
+				{
+					// 2.7 km from the centre
+					W1AW: { callsign: 'W1AW', zip_code: '06111' },
+					// 5.1 km, in the same ZIP prefix
+					N1OUT: { callsign: 'N1OUT', zip_code: '06114' },
+				},
+				'2026-01-01T00-00-00-000Z',
+				executed
+			);
+
+			const response = await nearby('lat=41.7&lon=-72.7&radius=5');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { count: number; results: Array<{ callsign: string; distance_km: number }> };
+			};
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.bindings.slice(0, 2)).toEqual(['06109', '06111']);
+			expect(body.data.count).toBe(1);
+			expect(body.data.results[0]).toMatchObject({ callsign: 'W1AW', distance_km: 2.7 });
+		});
+
+		it('should read candidate pages until the page of results is full', async () => {
+			// B1X, D1X, F1X and Z1X are 2.7 km from the centre, the others 5.1 km
+			const candidates: Record<string, Record<string, string>> = {};
+			for (const letter of 'ABCDEFGHIJKLMNOPQRSTUVWXYZ') {
+				candidates[`${letter}1X`] = { callsign: `${letter}1X`, zip_code: 'BDFZ'.includes(letter) ? '06111' : '06114' };
+			}
+			env.CALLSIGN_DB = createCallsignsD1(candidates, '2026-01-01T00-00-00-000Z', executed);
+			type Page = { data: { results: Array<{ callsign: string }>; next_cursor?: string; total_is_exact: boolean } };
+
+			const first = (await (await nearby('lat=41.7&lon=-72.7&radius=5&limit=3')).json()) as Page;
+			expect(first.data.results.map((r) => r.callsign)).toEqual(['B1X', 'D1X', 'F1X']);
+			expect(first.data.total_is_exact).toBe(false);
+
+			// At most NEARBY_MAX_CANDIDATE_PAGES pages are read for one response; the
+			// cursor continues after the last candidate read, not after a full page
+			const next = (cursor?: string) =>
+				nearby(`lat=41.7&lon=-72.7&radius=5&limit=3&cursor=${cursor}`).then((r) => r.json() as Promise<Page>);
+			const second = await next(first.data.next_cursor);
+			expect(second.data.results).toEqual([]);
+			const third = await next(second.data.next_cursor);
+			expect(third.data.results.map((r) => r.callsign)).toEqual(['Z1X']);
+			expect(third.data.next_cursor).toBeUndefined();
+
+			const pages = executed.filter((e) => e.sql.includes('ORDER BY'));
+			expect(pages.map((page) => page.bindings[page.bindings.length - 2])).toEqual([
+				4, 3, 2, ...Array(NEARBY_MAX_CANDIDATE_PAGES).fill(4), 4, 4,
+			]);
+		});
+
+		it('should select a whole grid square without a radius', async () => {
+			const response = await nearby('grid=fn31');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { grid: string; radius_km?: number; results: Array<{ callsign: string; grid_square: string }> };
+			};
+			expect(body.data.grid).toBe('FN31');
+			expect(body.data.radius_km).toBeUndefined();
+			expect(body.data.results).toEqual([expect.objectContaining({ callsign: 'W1AW', grid_square: 'FN31pq' })]);
+
+			// The ranges are merged down to the most one search may cover
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.bindings).toHaveLength(NEARBY_MAX_ZIP_RANGES * 2 + 2);
+			expect(page?.bindings.slice(0, 2)).toEqual(['06001', '06242']);
+		});
+
+		it('should match nothing when no ZIP code is in the area', async () => {
+			const response = await nearby('lat=0&lon=0&radius=100');
+
+			expect(response.status).toBe(200);
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain('WHERE 0');
+		});
+
+		it('should reject invalid areas', async () => {
+			expect((await nearby('')).status).toBe(400);
+			expect((await nearby('lat=41.7&lon=-72.7')).status).toBe(400);
+			expect((await nearby('grid=FN31&lat=41.7&lon=-72.7')).status).toBe(400);
+			expect((await nearby('grid=ZZ99')).status).toBe(400);
+			expect((await nearby('lat=95&lon=0&radius=10')).status).toBe(400);
+			expect((await nearby('grid=FN31&radius=1000')).status).toBe(400);
+			expect((await nearby('grid=FN31&radius=2')).status).toBe(400);
+			expect((await nearby('grid=FN31&class=wizard')).status).toBe(400);
+			expect(executed).toHaveLength(0);
+		});
+	});
+
+	describe('GET /api/v1/partial', () => {
+		const partial = (query: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/partial?${query}`), env, {} as ExecutionContext);
+
+		it('should return callsigns containing the partial callsign', async () => {
+			const response = await partial('q=1ab&inactive=true');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { q: string; count: number; results: Array<{ callsign: string; match: string }> };
+			};
+			expect(body.data.q).toBe('1AB');
+			expect(body.data.results).toEqual([{ callsign: 'K1ABC', match: 'contains' }]);
+
+			const lookup = executed.find((e) => e.sql.includes('FROM callsign_ngrams'));
+			expect(lookup?.sql).not.toContain("= 'A'");
+		});
+
+		it('should require a query with enough known characters', async () => {
+			expect((await partial('')).status).toBe(400);
+			const response = await partial('q=W?AW');
+			expect(response.status).toBe(400);
+			const body = (await response.json()) as { message: string };
+			expect(body.message).toBe('q needs at least 3 consecutive letters or digits');
+		});
+	});
+
+	describe('GET /api/v1/export?format=scp', () => {
+		it('should list active callsigns as MASTER.SCP', async () => {
+			const response = await dataHandlers.exportDatabase(
+				new Request('http://localhost/api/v1/export?format=scp'),
+				env,
+				{} as ExecutionContext
+			);
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="MASTER.SCP"');
+			const lines = (await response.text()).trim().split('\n');
+			expect(lines.filter((line) => !line.startsWith('#'))).toEqual(['K1ABC', 'W1AW']);
+			expect(lines[1]).toBe('# Data version: 2026-01-01T00-00-00-000Z');
+
+			const page = executed.find((e) => e.sql.startsWith('SELECT callsign FROM callsigns'));
+			expect(page?.sql).toContain("json_extract(data, '$.license_status')");
+		});
+	});
+
+	describe('GET /api/v1/expiring', () => {
+		const get = (path: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/${path}`), env, {} as ExecutionContext);
+
+		it('should page active licenses expiring in the window, soonest first', async () => {
+			const response = await get('expiring?within=90d&state=CT&class=T&limit=10');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { window: { from: string; to: string; days: number }; sort: string; results: unknown[] };
+			};
+			expect(body.data.window.days).toBe(90);
+			expect(body.data.sort).toBe('expires');
+
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain("json_extract(data, '$.expired_date')");
+			expect(page?.bindings).toEqual([
+				'CT',
+				'T',
+				'A',
+				body.data.window.from,
+				body.data.window.to,
+				11,
+				0,
+			]);
+		});
+
+		it('should reject malformed windows', async () => {
+			const response = await get('expiring?within=1000d');
+
+			expect(response.status).toBe(400);
+			const body = (await response.json()) as { message: string };
+			expect(body.message).toContain('within must be');
+		});
+
+		it('should serve the same query as an iCalendar feed for a list of callsigns', async () => {
+			const response = await get('expiring.ics?callsigns=K1ABC,W1AW&within=1y');
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+			const calendar = await response.text();
+			expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+
+			const page = executed.find((e) => e.sql.includes('ORDER BY'));
+			expect(page?.sql).toContain('callsign IN (?, ?)');
+			expect(page?.bindings.slice(0, 3)).toEqual(['K1ABC', 'W1AW', 'A']);
+			expect(page?.bindings.slice(-2)).toEqual([101, 0]);
+			expect(response.headers.get('X-Truncated')).toBeNull();
+			expect(calendar).not.toContain('X-WR-CALDESC');
+		});
+
+		it('should say when the feed is truncated and how to get the next page', async () => {
+			const response = await get('expiring.ics?callsigns=K1ABC,W1AW&within=1y&limit=1');
+
+			expect(response.status).toBe(200);
+			const cursor = response.headers.get('X-Next-Cursor');
+			expect(response.headers.get('X-Truncated')).toBe('true');
+			expect(cursor).toBeTruthy();
+			const calendar = (await response.text()).replace(/\r\n /g, '');
+			expect(calendar).toContain('X-WR-CALDESC:Only the first 1 expiring licenses are included');
+			expect(calendar).toContain(`cursor=${cursor}`);
+			expect(calendar.match(/BEGIN:VEVENT/g)?.length ?? 0).toBeLessThanOrEqual(1);
+		});
+	});
+
+	describe('GET /api/v1/vanity/available', () => {
+		const vanity = (query: string) =>
+			worker.fetch(
+				new Request(`http://localhost/api/v1/vanity/available?${query}`),
+				env,
+				{} as ExecutionContext
+			);
+
+		it('should check every candidate of the pattern against the database', async () => {
+			const response = await vanity('pattern=w1a?');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					formats: string[];
+					total_candidates: number;
+					checked: number;
+					count: number;
+					next_cursor?: string;
+					results: Array<{ callsign: string; group: string; eligible_classes: string[]; status: string }>;
+				};
+			};
+			expect(body.data.formats).toEqual(['1x2']);
+			expect(body.data.total_candidates).toBe(26);
+			expect(body.data.checked).toBe(26);
+			expect(body.data.next_cursor).toBeUndefined();
+			expect(body.data.results[0]).toEqual({
+				callsign: 'W1AA',
+				format: '1x2',
+				group: 'A',
+				eligible_classes: ['E'],
+				status: 'available',
+			});
+			expect(body.data.results.find((r) => r.callsign === 'W1AW')?.status).toBe('held');
+
+			const lookups = executed.filter((e) => e.sql.includes('WHERE callsign IN'));
+			expect(lookups).toHaveLength(1);
+			expect(lookups[0].bindings).toHaveLength(26);
+		});
+
+		it('should filter by status and page with a cursor', async () => {
+			const held = await vanity('pattern=W1A?&status=held');
+			const heldBody = (await held.json()) as { data: { results: Array<{ callsign: string }> } };
+			expect(heldBody.data.results.map((r) => r.callsign)).toEqual(['W1AW']);
+
+			const first = await vanity('pattern=W1A?&limit=2');
+			const firstBody = (await first.json()) as {
+				data: { next_cursor: string; results: Array<{ callsign: string }> };
+			};
+			expect(firstBody.data.results.map((r) => r.callsign)).toEqual(['W1AA', 'W1AB']);
+			expect(firstBody.data.next_cursor).toBe('2');
+
+			const next = await vanity(`pattern=W1A?&limit=2&cursor=${firstBody.data.next_cursor}`);
+			const nextBody = (await next.json()) as { data: { results: Array<{ callsign: string }> } };
+			expect(nextBody.data.results[0].callsign).toBe('W1AC');
+		});
+
+		it('should reject invalid patterns and formats closed to the license class', async () => {
+			expect((await vanity('')).status).toBe(400);
+			expect((await vanity('pattern=W1AW/P')).status).toBe(400);
+			expect((await vanity('pattern=1WAW')).status).toBe(400);
+			expect((await vanity('pattern=W1A?&status=free')).status).toBe(400);
+
+			const response = await vanity('pattern=W1A?&class=technician');
+			expect(response.status).toBe(400);
+			const body = (await response.json()) as { message: string };
+			expect(body.message).toBe('Pattern W1A? matches no vanity format open to that license class');
+			expect(executed).toHaveLength(0);
+		});
+	});
+
+	describe('GET /api/v1/sequential', () => {
+		const sequential = (query: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/sequential?${query}`), env, {} as ExecutionContext);
+
+		beforeEach(() => {
+			const day = 24 * 60 * 60 * 1000;
+			const observation = (callsign: string, sequence: number, daysAgo: number) => ({
+				callsign,
+				sequence,
+				timestamp: new Date(Date.now() - daysAgo * day).toISOString(),
+			});
+			const tracker = {
+				updatedAt: '2026-10-18T00:00:00.000Z',
+				entries: {
+					'4D': {
+						district: '4',
+						group: 'D',
+						format: '2x3',
+						latest: observation('KQ4AEY', 13 * 17576 + 128, 0),
+						history: [observation('KQ4ABC', 13 * 17576 + 28, 10), observation('KQ4AEY', 13 * 17576 + 128, 0)],
+					},
+					'1D': {
+						district: '1',
+						group: 'D',
+						format: '2x3',
+						latest: observation('KC1ABC', 2 * 17576 + 28, 1),
+						history: [observation('KC1ABC', 2 * 17576 + 28, 1)],
+					},
+				},
+			};
+			env.METADATA_STORE = {
+				get: async (key: string) => (key === 'sequential:tracker' ? JSON.stringify(tracker) : null),
+			} as unknown as KVNamespace;
+		});
+
+		it('should list the latest issue and rate per district and group', async () => {
+			const response = await sequential('');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: { entries: Array<Record<string, unknown>>; projection?: unknown };
+			};
+			expect(body.data.entries.map((e) => e.district)).toEqual(['1', '4']);
+			expect(body.data.entries[1]).toMatchObject({
+				group: 'D',
+				latest_callsign: 'KQ4AEY',
+				rate_per_day: 10,
+				observations: 2,
+			});
+			expect(body.data.entries[0].rate_per_day).toBeNull();
+			expect(body.data.projection).toBeUndefined();
+		});
+
+		it('should project the callsign a new licensee would get', async () => {
+			const response = await sequential('district=4&class=technician');
+
+			const body = (await response.json()) as {
+				data: { entries: unknown[]; projection: Record<string, unknown> };
+			};
+			expect(body.data.entries).toHaveLength(1);
+			expect(body.data.projection).toMatchObject({
+				class: 'T',
+				district: '4',
+				group: 'D',
+				days: 7,
+				projected_callsign: 'KQ4AHQ',
+				latest_callsign: 'KQ4AEY',
+			});
+		});
+
+		it('should reject bad parameters and untracked districts', async () => {
+			expect((await sequential('district=44')).status).toBe(400);
+			expect((await sequential('class=extra')).status).toBe(400);
+			expect((await sequential('district=4&class=T&days=365')).status).toBe(400);
+			expect((await sequential('district=7&class=T')).status).toBe(404);
+		});
+	});
+
+	describe('GET /api/v1/licensee', () => {
+		const licensee = (path: string) =>
+			worker.fetch(new Request(`http://localhost/api/v1/licensee/${path}`), env, {} as ExecutionContext);
+
+		beforeEach(() => {
+			env.CALLSIGN_DB = createCallsignsD1(
+				{
+					KB1XYZ: {
+						callsign: 'KB1XYZ',
+						frn: '0001234567',
+						unique_system_identifier: '1000',
+						uls_file_number: '0009000001',
+						first_name: 'Pat',
+						last_name: 'Smith',
+						license_status: 'C',
+					},
+					K1ABC: {
+						callsign: 'K1ABC',
+						frn: '0001234567',
+						unique_system_identifier: '1001',
+						uls_file_number: '0009000002',
+						first_name: 'Pat',
+						last_name: 'Smith',
+						operator_class: 'E',
+						license_status: 'A',
+					},
+					W1AW: {
+						callsign: 'W1AW',
+						frn: '0007654321',
+						unique_system_identifier: '2000',
+						entity_name: 'ARRL HQ Operators Club',
+						trustee_callsign: 'K1ABC',
+						license_status: 'A',
+					},
+				},
+				'2026-01-01T00-00-00-000Z',
+				executed
+			);
+		});
+
+		it('should aggregate every callsign of an FRN and the clubs it is trustee of', async () => {
+			const response = await licensee('frn/1234567');
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					matched_by: { type: string; value: string };
+					frn: string;
+					name: string;
+					licenses: Array<Record<string, string>>;
+					trustee_of: Array<Record<string, string>>;
+					truncated: boolean;
+					data_version: string;
+				};
+			};
+			expect(body.data.matched_by).toEqual({ type: 'frn', value: '0001234567' });
+			expect(body.data.frn).toBe('0001234567');
+			expect(body.data.name).toBe('Pat Smith');
+			expect(body.data.licenses.map((l) => l.callsign)).toEqual(['K1ABC', 'KB1XYZ']);
+			expect(body.data.licenses[0]).toMatchObject({
+				unique_system_identifier: '1001',
+				uls_file_number: '0009000002',
+				license_class: 'Extra',
+			});
+			expect(body.data.trustee_of.map((c) => c.callsign)).toEqual(['W1AW']);
+			expect(body.data.truncated).toBe(false);
+			expect(body.data.data_version).toBe('2026-01-01T00-00-00-000Z');
+
+			const trusteeQuery = executed.find((q) => q.sql.includes("'$.trustee_callsign'"));
+			expect(trusteeQuery?.bindings).toEqual(['K1ABC', 'KB1XYZ', 51]);
+		});
+
+		it('should resolve a unique system identifier or file number to the whole FRN', async () => {
+			const byUsi = (await (await licensee('usi/1000')).json()) as {
+				data: { matched_by: { type: string }; licenses: Array<{ callsign: string }> };
+			};
+			expect(byUsi.data.matched_by.type).toBe('unique_system_identifier');
+			expect(byUsi.data.licenses.map((l) => l.callsign)).toEqual(['K1ABC', 'KB1XYZ']);
+
+			const byFile = (await (await licensee('file/9000002')).json()) as {
+				data: { matched_by: { value: string }; licenses: Array<{ callsign: string }> };
+			};
+			expect(byFile.data.matched_by.value).toBe('0009000002');
+			expect(byFile.data.licenses).toHaveLength(2);
+		});
+
+		it('should reject malformed identifiers and report unknown ones', async () => {
+			const invalid = await licensee('frn/12AB');
+			expect(invalid.status).toBe(400);
+			const invalidBody = (await invalid.json()) as { message: string };
+			expect(invalidBody.message).toBe('FRN must be 1 to 10 digits');
+
+			const missing = await licensee('usi/999');
+			expect(missing.status).toBe(404);
+			const missingBody = (await missing.json()) as { message: string };
+			expect(missingBody.message).toBe('No licensee found for Unique system identifier 999');
+		});
+
+		it('should return 503 when the database is not configured', async () => {
+			env.CALLSIGN_DB = undefined;
+			const response = await licensee('frn/0001234567');
+			expect(response.status).toBe(503);
+		});
+	});
+
+	describe('POST /api/v1/callsigns/batch', () => {
+		const batch = (body: unknown, ip = '203.0.113.1') =>
+			worker.fetch(
+				new Request('http://localhost/api/v1/callsigns/batch', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': ip },
+					body: JSON.stringify(body),
+				}),
+				env,
+				{} as ExecutionContext
+			);
+
+		it('should return found, missing and invalid callsigns separately', async () => {
+			const response = await batch({
+				callsigns: ['k1abc', 'W9ZZZ', 'W1AW', 'K1ABC', 'NOTACALL', 'W1AW/P'],
+			});
+
+			expect(response.status).toBe(200);
+			const body = (await response.json()) as {
+				data: {
+					requested: number;
+					found: Array<{ callsign: string }>;
+					missing: string[];
+					invalid: string[];
+				};
+			};
+			expect(body.data.requested).toBe(5);
+			expect(body.data.found.map((r) => r.callsign)).toEqual(['K1ABC', 'W1AW', 'W1AW']);
+			expect(body.data.found[2]).toHaveProperty('parsed.modifiers', ['P']);
+			expect(body.data.missing).toEqual(['W9ZZZ']);
+			expect(body.data.invalid).toEqual(['NOTACALL']);
+
+			const query = executed.find((e) => e.sql.includes('WHERE callsign IN'));
+			expect(query?.bindings).toEqual(['K1ABC', 'W9ZZZ', 'W1AW']);
+		});
+
+		it('should reject malformed and oversized batches', async () => {
+			expect((await batch({ callsign: 'K1ABC' })).status).toBe(400);
+			expect((await batch({ callsigns: [] })).status).toBe(400);
+
+			const tooMany = Array.from({ length: userHandlers.BATCH_MAX_CALLSIGNS + 1 }, (_, i) => `K${i}ABC`);
+			expect((await batch({ callsigns: tooMany })).status).toBe(400);
+		});
+
+		it('should charge one rate limit hit per callsign', async () => {
+			const callsigns = Array.from({ length: 60 }, (_, i) => `W${i}XYZ`);
+
+			const first = await batch({ callsigns }, '203.0.113.99');
+			expect(first.status).toBe(200);
+			expect(first.headers.get('X-RateLimit-Remaining')).toBe('40');
+
+			const second = await batch({ callsigns }, '203.0.113.99');
+			expect(second.status).toBe(429);
+		});
+	});
+});
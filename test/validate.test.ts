@@ -176,6 +176,22 @@ describe('Validate Engine', () => {
 			// With hasHeader: false, both lines are treated as data rows
 			expect(result.metadata.recordCount).toBeGreaterThan(0);
 		});
+
+		it('should warn about duplicate keys', async () => {
+			const content = 'callsign,name,class\nAA1AA,John,Extra\nAA1AA,Johnny,General\n';
+			const result = await validateData(env, content, config);
+
+			expect(result.success).toBe(true);
+			expect(result.warnings).toContainEqual(expect.stringContaining('1 duplicate callsign keys'));
+		});
+
+		it('should fail when the key field is not in the schema', async () => {
+			config.dataSource.expectedSchema.keyField = 'frn';
+			const result = await validateData(env, 'callsign,name,class\nAA1AA,John,Extra\n', config);
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toContain('Key field(s) not in schema: frn');
+		});
 	});
 
 	describe('storeValidationMetadata', () => {
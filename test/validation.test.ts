@@ -142,6 +142,108 @@ describe('Configuration Validation Module', () => {
 			);
 		});
 
+		it('should detect joined files missing the join field', () => {
+			const config: ConfigData = {
+				dataSource: {
+					originZipUrl: 'https://example.com/data.zip',
+					zipFileName: 'data.zip',
+					extractedFileName: 'AM.dat',
+					expectedSchema: {
+						fields: ['record_type', 'unique_system_identifier', 'callsign'],
+					},
+					files: [
+						{
+							fileName: 'AM.dat',
+							expectedSchema: { fields: ['record_type', 'unique_system_identifier', 'callsign'] },
+						},
+						{
+							fileName: 'EN.dat',
+							expectedSchema: { fields: ['record_type', 'callsign', 'entity_name'] },
+						},
+					],
+				},
+				features: {
+					jwtAuth: false,
+					canaryDeployment: false,
+					advancedSearch: true,
+					dataExport: true,
+					externalSync: false,
+				},
+			};
+
+			const result = validateConfigData(config);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toContainEqual(
+				expect.objectContaining({
+					field: 'dataSource.files[1].expectedSchema.fields',
+					severity: 'error',
+				})
+			);
+		});
+
+		it('should detect a keyField missing from the schema fields', () => {
+			const config: ConfigData = {
+				dataSource: {
+					originZipUrl: 'https://example.com/data.zip',
+					zipFileName: 'data.zip',
+					extractedFileName: 'AM.dat',
+					expectedSchema: {
+						fields: ['record_type', 'unique_system_identifier', 'callsign'],
+						keyField: ['callsign', 'frn'],
+					},
+				},
+				features: {
+					jwtAuth: false,
+					canaryDeployment: false,
+					advancedSearch: true,
+					dataExport: true,
+					externalSync: false,
+				},
+			};
+
+			const result = validateConfigData(config);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toContainEqual(
+				expect.objectContaining({
+					field: 'dataSource.expectedSchema.keyField',
+					message: 'Key field(s) not in fields: frn',
+				})
+			);
+		});
+
+		it('should require callsign in the keyField', () => {
+			const config: ConfigData = {
+				dataSource: {
+					originZipUrl: 'https://example.com/data.zip',
+					zipFileName: 'data.zip',
+					extractedFileName: 'AM.dat',
+					expectedSchema: {
+						fields: ['record_type', 'unique_system_identifier', 'callsign'],
+						keyField: 'unique_system_identifier',
+					},
+				},
+				features: {
+					jwtAuth: false,
+					canaryDeployment: false,
+					advancedSearch: true,
+					dataExport: true,
+					externalSync: false,
+				},
+			};
+
+			const result = validateConfigData(config);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toContainEqual(
+				expect.objectContaining({
+					field: 'dataSource.expectedSchema.keyField',
+					message: 'keyField must include callsign',
+				})
+			);
+		});
+
 		it('should detect invalid feature flags', () => {
 			const config: ConfigData = {
 				dataSource: {
@@ -437,6 +539,91 @@ describe('Configuration Validation Module', () => {
 				})
 			);
 		});
+
+		it('should validate the DXCC prefix table', () => {
+			const config: ConfigData = {
+				dataSource: {
+					originZipUrl: 'https://example.com/data.zip',
+					zipFileName: 'data.zip',
+					extractedFileName: 'data.dat',
+					expectedSchema: {
+						fields: ['callsign'],
+					},
+				},
+				features: {
+					jwtAuth: false,
+					canaryDeployment: false,
+					advancedSearch: true,
+					dataExport: true,
+					externalSync: false,
+				},
+				prefixTable: {
+					version: 'cty-3601',
+					entities: [
+						{
+							dxcc: 1,
+							name: 'Canada',
+							continent: 'NA',
+							cqZone: 5,
+							ituZone: 9,
+							latitude: 44.35,
+							longitude: -78.75,
+							prefixes: ['VE', 'VE3(4)[4]', '=VE3XYZ', 'VE 9'],
+						},
+						{
+							dxcc: 291,
+							name: 'United States',
+							continent: 'XX',
+							cqZone: 41,
+							ituZone: 8,
+							latitude: 37.53,
+							longitude: -91.67,
+							prefixes: ['K', 'VE'],
+						},
+					],
+				},
+			};
+
+			const result = validateConfigData(config);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.map((e) => e.message)).toEqual([
+				'Invalid prefix entry: VE 9',
+				'Invalid continent: XX',
+				'cqZone must be an integer from 1 to 40',
+			]);
+			expect(result.warnings).toContainEqual(
+				expect.objectContaining({
+					field: 'prefixTable.entities[1].prefixes',
+					message: 'Prefix VE is listed for both Canada and United States',
+				})
+			);
+		});
+		it('should validate release retention', () => {
+			const config: ConfigData = {
+				dataSource: {
+					originZipUrl: 'https://example.com/data.zip',
+					zipFileName: 'data.zip',
+					extractedFileName: 'data.dat',
+					expectedSchema: {
+						fields: ['callsign'],
+					},
+				},
+				features: {
+					jwtAuth: false,
+					canaryDeployment: false,
+					advancedSearch: true,
+					dataExport: true,
+					externalSync: false,
+				},
+				releases: { enabled: 'no' as unknown as boolean, keep: 0, maxAgeDays: 90 },
+			};
+
+			const result = validateConfigData(config);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.map((e) => e.field)).toEqual(['releases.enabled', 'releases.keep']);
+		});
 	});
 
 	describe('formatValidationResult', () => {
@@ -0,0 +1,117 @@
+/**
+ * Tests for vanity callsign formats and availability
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StoredCallsignRecord } from '../src/types';
+import {
+	callsignAtSequence,
+	classifyCallsign,
+	parseVanityPattern,
+	vanityCandidateAt,
+	vanityStatus,
+} from '../src/engine/vanity';
+
+const stored = (record: Record<string, string>): StoredCallsignRecord => ({
+	callsign: 'K1AB',
+	record,
+	updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('Vanity Patterns', () => {
+	it('should match the pattern against every fitting format', () => {
+		const { pattern } = parseVanityPattern('????');
+
+		expect(pattern?.formats.map((f) => `${f.rule.format}/${f.rule.group}`)).toEqual(['1x2/A', '2x1/A']);
+	});
+
+	it('should enumerate candidates in order by index', () => {
+		const pattern = parseVanityPattern('k?1??').pattern!;
+
+		// KA-KZ without the regional KH, KL and KP prefixes
+		expect(pattern.total).toBe(23 * 26 * 26);
+		expect(vanityCandidateAt(pattern, 0)).toEqual({ callsign: 'KA1AA', format: '2x2', group: 'B' });
+		expect(vanityCandidateAt(pattern, 27)?.callsign).toBe('KA1BB');
+		expect(vanityCandidateAt(pattern, pattern.total - 1)?.callsign).toBe('KZ1ZZ');
+		expect(vanityCandidateAt(pattern, pattern.total)).toBeNull();
+	});
+
+	it('should skip callsigns that are never issued', () => {
+		const sos = parseVanityPattern('W1SOS').pattern!;
+		expect(vanityCandidateAt(sos, 0)).toBeNull();
+
+		const qSignal = parseVanityPattern('K1QS?').pattern!;
+		expect(vanityCandidateAt(qSignal, 0)).toBeNull();
+
+		const reserved = parseVanityPattern('KA1X??').pattern!;
+		expect(vanityCandidateAt(reserved, 0)).toBeNull();
+	});
+
+	it('should keep only the groups a license class may hold', () => {
+		expect(parseVanityPattern('??1???', 'T').pattern?.formats.map((f) => f.rule.group)).toEqual(['D']);
+		expect(parseVanityPattern('?1??', 'G').error).toContain('open to that license class');
+		expect(parseVanityPattern('?1??', 'E').pattern?.formats).toHaveLength(1);
+	});
+
+	it('should classify callsigns and map issuing positions back to them', () => {
+		// KQ is the 14th K prefix once KH, KL and KP are left out
+		expect(classifyCallsign('KQ4ABC')).toEqual({ format: '2x3', group: 'D', district: '4', sequence: 13 * 17576 + 28 });
+		expect(classifyCallsign('AA1AB')).toMatchObject({ format: '2x2', group: 'A' });
+		expect(classifyCallsign('KH6ABC')).toBeNull();
+		expect(classifyCallsign('W1AW/P')).toBeNull();
+
+		expect(callsignAtSequence('2x3', 'D', '4', 13 * 17576 + 28)).toBe('KQ4ABC');
+		expect(callsignAtSequence('1x3', 'C', '0', 0)).toBe('K0AAA');
+		expect(callsignAtSequence('1x3', 'C', '0', 3 * 17576)).toBeNull();
+	});
+
+	it('should reject malformed patterns', () => {
+		expect(parseVanityPattern('W1').error).toContain('4 to 6');
+		expect(parseVanityPattern('W1*').error).toContain('4 to 6');
+		expect(parseVanityPattern('KH6??').error).toBe('Pattern KH6?? matches no vanity callsign format');
+		expect(parseVanityPattern('AM1AA').error).toContain('matches no vanity callsign format');
+	});
+});
+
+describe('Vanity Availability', () => {
+	const today = '2026-10-19';
+
+	it('should report callsigns without a record as available', () => {
+		expect(vanityStatus(undefined, today)).toEqual({ status: 'available' });
+	});
+
+	it('should hold active licenses until they expire', () => {
+		const status = vanityStatus(stored({ license_status: 'A', expired_date: '03/01/2030' }), today);
+
+		expect(status.status).toBe('held');
+		expect(status.expiration_date).toBe('2030-03-01');
+	});
+
+	it('should apply the two-year grace period after expiration', () => {
+		const status = vanityStatus(stored({ license_status: 'E', expired_date: '03/01/2025' }), today);
+
+		expect(status).toMatchObject({ status: 'grace', available_after: '2027-03-01', reason: 'expired' });
+
+		// An active record whose expiration date has passed has expired too
+		expect(vanityStatus(stored({ license_status: 'A', expired_date: '03/01/2024' }), today)).toMatchObject({
+			status: 'available',
+			reason: 'expired',
+		});
+	});
+
+	it('should start the grace period at cancellation', () => {
+		const status = vanityStatus(
+			stored({ license_status: 'C', expired_date: '03/01/2030', cancellation_date: '11/15/2024' }),
+			today
+		);
+
+		expect(status).toMatchObject({ status: 'grace', available_after: '2026-11-15', reason: 'cancelled' });
+		expect(
+			vanityStatus(stored({ license_status: 'T', cancellation_date: '01/05/2024' }), today).status
+		).toBe('available');
+	});
+
+	it('should treat ended licenses without a date as held', () => {
+		expect(vanityStatus(stored({ license_status: 'C' }), today).status).toBe('held');
+	});
+});